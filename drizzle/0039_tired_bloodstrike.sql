@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "address_reservations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"club_id" integer NOT NULL,
+	"start_number" integer NOT NULL,
+	"end_number" integer NOT NULL,
+	"kind" text DEFAULT 'reserved' NOT NULL,
+	"user_id" integer,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "address_reservations" ADD CONSTRAINT "address_reservations_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "address_reservations" ADD CONSTRAINT "address_reservations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "consist_units" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"consist_id" integer NOT NULL,
+	"address_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"direction" text DEFAULT 'forward' NOT NULL,
+	"role" text DEFAULT 'trailing' NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "consists" ADD COLUMN "club_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "consist_units" ADD CONSTRAINT "consist_units_consist_id_consists_id_fk" FOREIGN KEY ("consist_id") REFERENCES "public"."consists"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "consist_units" ADD CONSTRAINT "consist_units_address_id_addresses_id_fk" FOREIGN KEY ("address_id") REFERENCES "public"."addresses"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "consists" ADD CONSTRAINT "consists_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "session_roles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scheduled_session_id" integer NOT NULL,
+	"role" text NOT NULL,
+	"slots" integer DEFAULT 1 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "role" text;--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "status" text DEFAULT 'confirmed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "scheduled_sessions" ADD COLUMN "capacity" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_roles" ADD CONSTRAINT "session_roles_scheduled_session_id_scheduled_sessions_id_fk" FOREIGN KEY ("scheduled_session_id") REFERENCES "public"."scheduled_sessions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS "session_series" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"club_id" integer NOT NULL,
+	"rrule" text NOT NULL,
+	"dtstart" timestamp NOT NULL,
+	"description" text,
+	"capacity" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "session_series_exceptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"series_id" integer NOT NULL,
+	"occurrence_date" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scheduled_sessions" ADD COLUMN "series_id" integer;--> statement-breakpoint
+ALTER TABLE "scheduled_sessions" ADD COLUMN "occurrence_date" timestamp;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_series" ADD CONSTRAINT "session_series_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_series_exceptions" ADD CONSTRAINT "session_series_exceptions_series_id_session_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."session_series"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "scheduled_sessions" ADD CONSTRAINT "scheduled_sessions_series_id_session_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."session_series"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,46 @@
+CREATE TABLE IF NOT EXISTS "attachments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"club_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"issue_id" integer,
+	"tower_report_id" integer,
+	"key" text NOT NULL,
+	"filename" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"width" integer,
+	"height" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "attachments_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+ALTER TABLE "clubs" ADD COLUMN "hero_attachment_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "attachments" ADD CONSTRAINT "attachments_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "attachments" ADD CONSTRAINT "attachments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "attachments" ADD CONSTRAINT "attachments_issue_id_issues_id_fk" FOREIGN KEY ("issue_id") REFERENCES "public"."issues"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "attachments" ADD CONSTRAINT "attachments_tower_report_id_tower_reports_id_fk" FOREIGN KEY ("tower_report_id") REFERENCES "public"."tower_reports"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "clubs" ADD CONSTRAINT "clubs_hero_attachment_id_attachments_id_fk" FOREIGN KEY ("hero_attachment_id") REFERENCES "public"."attachments"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,2 @@
+ALTER TABLE "email_queue" ADD COLUMN "template_name" text;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "template_version" integer;
\ No newline at end of file
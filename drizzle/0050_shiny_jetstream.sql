@@ -0,0 +1,2 @@
+ALTER TABLE "email_queue" ADD COLUMN "worker_id" text;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "lease_expires_at" timestamp;
\ No newline at end of file
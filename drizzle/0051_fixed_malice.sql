@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "email_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"email_id" integer NOT NULL,
+	"attempt" integer NOT NULL,
+	"worker_id" text,
+	"outcome" text NOT NULL,
+	"error" text,
+	"error_class" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "error_class" text;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "next_attempt_at" timestamp;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "email_attempts" ADD CONSTRAINT "email_attempts_email_id_email_queue_id_fk" FOREIGN KEY ("email_id") REFERENCES "public"."email_queue"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,42 @@
+CREATE TABLE IF NOT EXISTS "email_suppressions" (
+	"email" text PRIMARY KEY NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notification_preferences" (
+	"user_id" integer NOT NULL,
+	"club_id" integer NOT NULL,
+	"category" text NOT NULL,
+	"delivery" text DEFAULT 'immediate' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_preferences_user_id_club_id_category_pk" PRIMARY KEY("user_id","club_id","category")
+);
+--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "club_id" integer;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "category" text;--> statement-breakpoint
+ALTER TABLE "email_queue" ADD COLUMN "unsubscribe_url" text;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "email_queue" ADD CONSTRAINT "email_queue_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "email_queue" ADD CONSTRAINT "email_queue_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
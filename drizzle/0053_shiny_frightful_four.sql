@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS "session_reminders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"scheduled_session_id" integer NOT NULL,
+	"offset_minutes" integer NOT NULL,
+	"session_at" timestamp NOT NULL,
+	"email_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "session_reminders_appointment_offset_unique" UNIQUE("appointment_id","offset_minutes")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_reminders" ADD CONSTRAINT "session_reminders_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "public"."appointments"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_reminders" ADD CONSTRAINT "session_reminders_scheduled_session_id_scheduled_sessions_id_fk" FOREIGN KEY ("scheduled_session_id") REFERENCES "public"."scheduled_sessions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "session_reminders" ADD CONSTRAINT "session_reminders_email_id_email_queue_id_fk" FOREIGN KEY ("email_id") REFERENCES "public"."email_queue"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "digest_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"club_id" integer NOT NULL,
+	"period" text NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"queued" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "digest_runs_club_period_unique" UNIQUE("club_id","period","period_start")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "digest_runs" ADD CONSTRAINT "digest_runs_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "clerk_webhook_events" (
+	"svix_id" text PRIMARY KEY NOT NULL,
+	"event_type" text NOT NULL,
+	"received_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clubs" ADD COLUMN "clerk_organization_id" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_sign_in_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "clubs" ADD CONSTRAINT "clubs_clerk_organization_id_unique" UNIQUE("clerk_organization_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+ALTER TABLE "users_to_clubs" ADD COLUMN "role_permission" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "users_to_clubs" ADD CONSTRAINT "users_to_clubs_role_permission_permissions_id_fk" FOREIGN KEY ("role_permission") REFERENCES "public"."permissions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Give each existing membership the member's former global role. super-admin stays global only.
+UPDATE "users_to_clubs" SET "role_permission" = "users"."permission_id"
+FROM "users"
+INNER JOIN "permissions" ON "permissions"."id" = "users"."permission_id"
+WHERE "users_to_clubs"."user_id" = "users"."id" AND "permissions"."title" <> 'super-admin';
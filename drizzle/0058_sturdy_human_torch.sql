@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "club_roles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"club_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"capabilities" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "club_roles_club_id_name_unique" UNIQUE("club_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "users_to_clubs" ADD COLUMN "club_role_id" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "club_roles" ADD CONSTRAINT "club_roles_club_id_clubs_id_fk" FOREIGN KEY ("club_id") REFERENCES "public"."clubs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "users_to_clubs" ADD CONSTRAINT "users_to_clubs_club_role_id_club_roles_id_fk" FOREIGN KEY ("club_role_id") REFERENCES "public"."club_roles"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,2 @@
+DELETE FROM "appointments" WHERE "id" IN (SELECT "id" FROM (SELECT "id", row_number() OVER (PARTITION BY "scheduled_session_id", "user_id" ORDER BY ("status" = 'cancelled'), "created_at" DESC, "id" DESC) AS "rank" FROM "appointments" WHERE "scheduled_session_id" IS NOT NULL) AS "ranked" WHERE "rank" > 1);--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_session_user_unique" UNIQUE("scheduled_session_id","user_id");
@@ -0,0 +1 @@
+ALTER TABLE "clubs" ADD COLUMN "dcc_default_address" integer DEFAULT 3;
\ No newline at end of file
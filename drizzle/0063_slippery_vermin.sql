@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS "refresh_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ip_address" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,313 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { eq, and } from 'drizzle-orm';
+import { addressReservations } from '../db/schema';
+
+/**
+ * Lowest and highest DCC addresses the registry will hand out.
+ * 9999 is the upper bound most command stations accept for long addresses.
+ */
+export const MIN_DCC_ADDRESS = 1;
+export const MAX_DCC_ADDRESS = 9999;
+
+/**
+ * Represents a reserved range of DCC addresses within a club.
+ *
+ * Two kinds of reservation exist:
+ * - `reserved`: a block nobody may register against (e.g. 1-99 for club-owned power,
+ *   or 3 as the "never use" factory default). Only admins may register inside it.
+ * - `allocation`: a block handed to a single member (`user_id`); only that member
+ *   (or an admin) may register addresses inside it.
+ *
+ * @property id - Unique identifier for the reservation (auto-generated, omit when creating)
+ * @property club_id - ID of the club the reservation belongs to (required)
+ * @property start_number - First address in the range, inclusive (required)
+ * @property end_number - Last address in the range, inclusive (required)
+ * @property kind - 'reserved' or 'allocation' (defaults to 'reserved')
+ * @property user_id - Member holding an allocation block (required when kind is 'allocation')
+ * @property description - Why the range is reserved (optional)
+ * @property created_at - Timestamp when the reservation was created (auto-generated)
+ */
+export interface AddressReservation {
+	id?: number;
+	club_id: number;
+	start_number: number;
+	end_number: number;
+	kind?: ReservationKind;
+	user_id?: number | null;
+	description?: string | null;
+	created_at?: Date;
+}
+
+export type ReservationKind = 'reserved' | 'allocation';
+
+export const RESERVATION_KINDS: ReservationKind[] = ['reserved', 'allocation'];
+
+export interface Result {
+	error?: string | any;
+	data?: AddressReservation[] | null;
+}
+
+/**
+ * Checks whether two inclusive address ranges overlap.
+ *
+ * @param a - First range
+ * @param b - Second range
+ * @returns `true` if any address falls within both ranges
+ */
+export const rangesOverlap = (
+	a: Pick<AddressReservation, 'start_number' | 'end_number'>,
+	b: Pick<AddressReservation, 'start_number' | 'end_number'>
+): boolean => {
+	return a.start_number <= b.end_number && b.start_number <= a.end_number;
+};
+
+/**
+ * Validates the shape of a reservation before it is written.
+ *
+ * @param data - Reservation data to validate
+ * @returns Error message, or null if the reservation is valid
+ */
+const validateReservation = (data: AddressReservation): string | null => {
+	if (!data.club_id || data.start_number === undefined || data.end_number === undefined) {
+		return 'Missing required field. Required: club_id, start_number, end_number';
+	}
+
+	const start = Number(data.start_number);
+	const end = Number(data.end_number);
+
+	if (!Number.isInteger(start) || !Number.isInteger(end)) {
+		return 'start_number and end_number must be whole numbers';
+	}
+
+	if (start < MIN_DCC_ADDRESS || end > MAX_DCC_ADDRESS) {
+		return `Address range must fall between ${MIN_DCC_ADDRESS} and ${MAX_DCC_ADDRESS}`;
+	}
+
+	if (start > end) {
+		return 'start_number must be less than or equal to end_number';
+	}
+
+	const kind = data.kind ?? 'reserved';
+	if (!RESERVATION_KINDS.includes(kind)) {
+		return `Invalid kind. Must be one of: ${RESERVATION_KINDS.join(', ')}`;
+	}
+
+	if (kind === 'allocation' && !data.user_id) {
+		return 'Allocation blocks require a user_id';
+	}
+
+	return null;
+};
+
+/**
+ * Retrieves all address reservations for a club, ordered by start of range.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - ID of the club (required)
+ * @returns Result object containing the club's reservations or error
+ */
+export const getReservationsByClubId = async (db: NeonHttpDatabase<Record<string, never>>, clubId: number): Promise<Result> => {
+	if (!clubId)
+		return {
+			error: 'Missing club ID',
+		};
+	try {
+		const results = await db.select().from(addressReservations).where(eq(addressReservations.club_id, clubId));
+		return { data: [...results].sort((a, b) => a.start_number - b.start_number) as AddressReservation[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves a reservation by ID, scoped to a club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - Reservation ID (required)
+ * @param clubId - Club the reservation must belong to (required)
+ * @returns Result object containing the reservation in an array (empty if not in this club)
+ */
+export const getReservationByIdAndClubId = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: number,
+	clubId: number
+): Promise<Result> => {
+	if (!id || !clubId)
+		return {
+			error: 'Missing ID or club ID',
+		};
+	try {
+		const results = await db
+			.select()
+			.from(addressReservations)
+			.where(and(eq(addressReservations.id, id), eq(addressReservations.club_id, clubId)));
+		return { data: results as AddressReservation[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Ensures a new or updated range does not overlap another reservation in the same club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param data - Range being written
+ * @param reservationId - Optional reservation ID to exclude (for updates)
+ * @returns Result with an error naming the overlapping range, or empty data if none
+ */
+const checkForOverlap = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	data: AddressReservation,
+	reservationId: number | null = null
+): Promise<Result> => {
+	const existing = await getReservationsByClubId(db, data.club_id);
+	if (existing.error) {
+		return existing;
+	}
+
+	const overlapping = (existing.data || []).find((reservation) => reservation.id !== reservationId && rangesOverlap(reservation, data));
+
+	if (overlapping) {
+		return {
+			error: `Range ${data.start_number}-${data.end_number} overlaps existing reservation ${overlapping.start_number}-${overlapping.end_number}`,
+		};
+	}
+
+	return {
+		data: [],
+	};
+};
+
+/**
+ * Creates a new address reservation.
+ *
+ * Ranges may not overlap other reservations in the same club, so every address
+ * has at most one reservation that governs it.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param data - Reservation to create (club_id, start_number and end_number required)
+ * @returns Result object containing the created reservation or error
+ */
+export const createReservation = async (db: NeonHttpDatabase<Record<string, never>>, data: AddressReservation): Promise<Result> => {
+	if (!data)
+		return {
+			error: 'Missing data',
+		};
+
+	const validationError = validateReservation(data);
+	if (validationError) {
+		return {
+			error: validationError,
+		};
+	}
+
+	const overlap = await checkForOverlap(db, data);
+	if (overlap.error) {
+		return {
+			error: overlap.error,
+		};
+	}
+
+	try {
+		const kind = data.kind ?? 'reserved';
+		const results = await db
+			.insert(addressReservations)
+			.values({
+				club_id: data.club_id,
+				start_number: data.start_number,
+				end_number: data.end_number,
+				kind,
+				user_id: kind === 'allocation' ? data.user_id : null,
+				description: data.description,
+			})
+			.returning();
+		return { data: results as AddressReservation[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Updates an existing address reservation.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the reservation to update
+ * @param data - Complete reservation data (merge with the existing record before calling)
+ * @returns Result object containing the updated reservation or error
+ */
+export const updateReservation = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: number,
+	data: AddressReservation
+): Promise<Result> => {
+	if (!id)
+		return {
+			error: 'Missing ID',
+		};
+	if (!data)
+		return {
+			error: 'Missing data',
+		};
+
+	const validationError = validateReservation(data);
+	if (validationError) {
+		return {
+			error: validationError,
+		};
+	}
+
+	const overlap = await checkForOverlap(db, data, id);
+	if (overlap.error) {
+		return {
+			error: overlap.error,
+		};
+	}
+
+	try {
+		const kind = data.kind ?? 'reserved';
+		const results = await db
+			.update(addressReservations)
+			.set({
+				start_number: data.start_number,
+				end_number: data.end_number,
+				kind,
+				user_id: kind === 'allocation' ? data.user_id : null,
+				description: data.description,
+			})
+			.where(eq(addressReservations.id, id))
+			.returning();
+		return { data: results as AddressReservation[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Deletes an address reservation.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the reservation to delete
+ * @returns Result object containing the deleted reservation or error
+ */
+export const deleteReservation = async (db: NeonHttpDatabase<Record<string, never>>, id: number): Promise<Result> => {
+	if (!id)
+		return {
+			error: 'Missing ID',
+		};
+	try {
+		const results = await db.delete(addressReservations).where(eq(addressReservations.id, id)).returning();
+		return { data: results as AddressReservation[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,256 @@
+import { Hono } from 'hono';
+import * as reservationsModel from './model';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Router for club address reservations (reserved ranges and member allocation blocks).
+ * Nested under club: /api/clubs/:clubId/address-reservations
+ *
+ * Authentication requirements:
+ * - GET: Requires authentication and club membership (checkUserPermission)
+ * - POST, PUT, DELETE: Require the manage_addresses capability (authorize, see utils/policy)
+ */
+export const addressReservationsRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * GET all address reservations for a club
+ * Route: GET /api/clubs/:clubId/address-reservations
+ *
+ * @example
+ * GET /api/clubs/789/address-reservations
+ * Response: { result: [{ id: 1, start_number: 1, end_number: 99, kind: 'reserved', description: 'Club-owned power', ... }] }
+ */
+addressReservationsRouter.get('/', checkAuth, checkUserPermission, authorize('addressReservation', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await reservationsModel.getReservationsByClubId(db, parseInt(clubId, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST create an address reservation
+ * Route: POST /api/clubs/:clubId/address-reservations
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "start_number": 200,
+ *   "end_number": 299,
+ *   "kind": "allocation",
+ *   "user_id": 12,
+ *   "description": "Jane's block"
+ * }
+ * ```
+ *
+ * @remarks
+ * - kind defaults to 'reserved'; 'allocation' requires user_id
+ * - Ranges may not overlap other reservations in the same club
+ *
+ * @throws Returns 400 if fields are invalid or the range overlaps an existing reservation
+ */
+addressReservationsRouter.post('/', checkAuth, checkUserPermission, authorize('addressReservation', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		// Only allow specific fields for reservations - prevent injection
+		const reservationData: reservationsModel.AddressReservation = {
+			club_id: parseInt(clubId, 10),
+			start_number: data.start_number,
+			end_number: data.end_number,
+			kind: data.kind,
+			user_id: data.user_id ? parseInt(data.user_id, 10) : null,
+			description: data.description || undefined,
+		};
+
+		const result = await reservationsModel.createReservation(db, reservationData);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				reservation: result.data?.[0],
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * PUT update an address reservation
+ * Route: PUT /api/clubs/:clubId/address-reservations/:id
+ *
+ * All fields optional; omitted fields keep their existing values.
+ *
+ * @throws Returns 400 if fields are invalid or overlap, 404 if reservation not in this club
+ */
+addressReservationsRouter.put('/:id', checkAuth, checkUserPermission, authorize('addressReservation', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing reservation ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+
+		const existing = await reservationsModel.getReservationByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (existing.error || !existing.data || existing.data.length === 0) {
+			return c.json(
+				{
+					error: 'Reservation not found in this club',
+				},
+				404
+			);
+		}
+
+		const current = existing.data[0];
+		const reservationData: reservationsModel.AddressReservation = {
+			club_id: parseInt(clubId, 10),
+			start_number: data.start_number !== undefined ? data.start_number : current.start_number,
+			end_number: data.end_number !== undefined ? data.end_number : current.end_number,
+			kind: data.kind || current.kind,
+			user_id: data.user_id !== undefined ? data.user_id : current.user_id,
+			description: data.description !== undefined ? data.description : current.description,
+		};
+
+		const result = await reservationsModel.updateReservation(db, parseInt(id, 10), reservationData);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			updated: true,
+			reservation: result.data?.[0] || null,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * DELETE an address reservation
+ * Route: DELETE /api/clubs/:clubId/address-reservations/:id
+ *
+ * @throws Returns 404 if reservation not in this club
+ */
+addressReservationsRouter.delete('/:id', checkAuth, checkUserPermission, authorize('addressReservation', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing reservation ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const existing = await reservationsModel.getReservationByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (existing.error || !existing.data || existing.data.length === 0) {
+			return c.json(
+				{
+					error: 'Reservation not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await reservationsModel.deleteReservation(db, parseInt(id, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
@@ -1,6 +1,7 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
-import { addresses, usersToClubs } from '../db/schema';
+import { addresses, clubs, users } from '../db/schema';
 import { eq, and } from 'drizzle-orm';
+import * as reservationsModel from '../addressReservations/model';
 
 export interface Address {
 	id: number;
@@ -17,8 +18,94 @@ export interface Address {
 export interface Result {
 	error?: string | any;
 	data?: Address[] | null;
+	conflict?: AddressConflict;
 }
 
+/**
+ * Describes why an address number cannot be registered, so clients can show
+ * who holds the number instead of a bare error string.
+ *
+ * @property number - The address number that was requested
+ * @property reason - 'in_use' (another active locomotive), 'reserved' (club reserved range)
+ *                    or 'allocated' (another member's allocation block)
+ * @property address_id - ID of the clashing address (in_use only)
+ * @property holder_id - User holding the clashing address or allocation block
+ * @property holder_name - Display name of the holder, when known
+ * @property road - Road name of the clashing locomotive (in_use only)
+ * @property road_number - Road number of the clashing locomotive (in_use only)
+ * @property reservation_id - ID of the governing reservation (reserved/allocated only, not for the club default address)
+ * @property range - The reserved range the number falls in (reserved/allocated only, not for the club default address)
+ * @property description - Description of the clashing address or reservation
+ */
+export interface AddressConflict {
+	number: number;
+	reason: 'in_use' | 'reserved' | 'allocated';
+	address_id?: number;
+	holder_id?: number | null;
+	holder_name?: string | null;
+	road?: string | null;
+	road_number?: number | null;
+	reservation_id?: number;
+	range?: { start_number: number; end_number: number };
+	description?: string | null;
+}
+
+export interface AvailabilityResult {
+	error?: string | any;
+	data?: number[] | null;
+}
+
+/**
+ * Options for create/update that relax registry rules.
+ * @property bypassReservations - Skip reserved range, allocation block and default address checks (admins, or edits that keep the number)
+ */
+export interface RegistryOptions {
+	bypassReservations?: boolean;
+}
+
+/**
+ * Looks up a display name for the user holding an address or allocation block.
+ *
+ * @param db - Database instance
+ * @param userId - ID of the holder
+ * @returns "First Last", or null if the user has no name on record
+ */
+const getHolderName = async (db: NeonHttpDatabase<Record<string, never>>, userId: number | null | undefined): Promise<string | null> => {
+	if (!userId) {
+		return null;
+	}
+	const holder = await db.select().from(users).where(eq(users.id, userId));
+	const name = [holder[0]?.first_name, holder[0]?.last_name].filter(Boolean).join(' ').trim();
+	return name || null;
+};
+
+/**
+ * Builds a human readable conflict message, e.g.
+ * "Address number 3 already exists in this club and is in use by Jane Doe on BNSF 1234".
+ *
+ * @param conflict - Conflict details
+ * @returns Error message naming the holder and locomotive where known
+ */
+const describeConflict = (conflict: AddressConflict): string => {
+	const holder = conflict.holder_name || (conflict.holder_id ? `user ${conflict.holder_id}` : null);
+
+	if (conflict.reason === 'in_use') {
+		const locomotive = [conflict.road, conflict.road_number].filter((part) => part !== null && part !== undefined && part !== '').join(' ');
+		let message = `Address number ${conflict.number} already exists in this club and is in use`;
+		if (holder) message += ` by ${holder}`;
+		if (locomotive) message += ` on ${locomotive}`;
+		return message;
+	}
+
+	const range = conflict.range ? ` (${conflict.range.start_number}-${conflict.range.end_number})` : '';
+	if (conflict.reason === 'allocated') {
+		return `Address number ${conflict.number} is in an allocation block held by ${holder ?? 'another member'}${range}`;
+	}
+
+	const why = conflict.description ? `: ${conflict.description}` : '';
+	return `Address number ${conflict.number} is reserved in this club${range}${why}`;
+};
+
 /**
  * Check if an address number can be used within a club.
  * Duplicate address numbers are allowed, but only one can be in_use at a time.
@@ -27,7 +114,7 @@ export interface Result {
  * @param clubId - Club ID to check within
  * @param inUse - Whether the new/updated address will be in_use
  * @param addressId - Optional address ID to exclude (for updates)
- * @returns Result with error if another in_use address with same number exists, null if valid
+ * @returns Result with error and conflict details if another in_use address with same number exists, null if valid
  */
 const checkIfAddressNumberInUseInClub = async (
 	db: NeonHttpDatabase<Record<string, never>>,
@@ -58,8 +145,20 @@ const checkIfAddressNumberInUseInClub = async (
 			: existing;
 
 		if (conflictingAddresses.length > 0) {
+			const clash = conflictingAddresses[0];
+			const conflict: AddressConflict = {
+				number,
+				reason: 'in_use',
+				address_id: clash.id,
+				holder_id: clash.user_id,
+				holder_name: await getHolderName(db, clash.user_id),
+				road: clash.road,
+				road_number: clash.road_number,
+				description: clash.description,
+			};
 			return {
-				error: `Address number ${number} is already in use in this club`,
+				error: describeConflict(conflict),
+				conflict,
 			};
 		}
 	} catch (error) {
@@ -74,6 +173,156 @@ const checkIfAddressNumberInUseInClub = async (
 	};
 };
 
+/**
+ * Check an address number against the club's reserved ranges and allocation blocks.
+ * Numbers inside a 'reserved' range are refused; numbers inside an 'allocation' block
+ * are refused unless the block belongs to the registering user. The club's DCC default
+ * address counts as reserved, even inside the user's own block.
+ * @param db - Database instance
+ * @param number - Address number to check
+ * @param clubId - Club ID to check within
+ * @param userId - User registering the address
+ * @returns Result with error and conflict details if the number is reserved, null if valid
+ */
+const checkAddressReservations = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	number: number,
+	clubId: number,
+	userId: number
+): Promise<Result> => {
+	const reservations = await reservationsModel.getReservationsByClubId(db, clubId);
+	if (reservations.error) {
+		return {
+			error: reservations.error,
+		};
+	}
+
+	const governing = (reservations.data || []).find((reservation) =>
+		reservationsModel.rangesOverlap(reservation, { start_number: number, end_number: number })
+	);
+
+	try {
+		if (!governing || (governing.kind === 'allocation' && governing.user_id === userId)) {
+			const club = await db.select({ dcc_default_address: clubs.dcc_default_address }).from(clubs).where(eq(clubs.id, clubId));
+			if (club[0]?.dcc_default_address === number) {
+				const conflict: AddressConflict = {
+					number,
+					reason: 'reserved',
+					description: 'DCC default address, which new decoders answer to',
+				};
+				return {
+					error: describeConflict(conflict),
+					conflict,
+				};
+			}
+
+			return {
+				error: null,
+				data: [],
+			};
+		}
+
+		const conflict: AddressConflict = {
+			number,
+			reason: governing.kind === 'allocation' ? 'allocated' : 'reserved',
+			reservation_id: governing.id,
+			holder_id: governing.user_id ?? null,
+			holder_name: await getHolderName(db, governing.user_id),
+			range: { start_number: governing.start_number, end_number: governing.end_number },
+			description: governing.description,
+		};
+		return {
+			error: describeConflict(conflict),
+			conflict,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Suggest free address numbers for a club.
+ *
+ * A number is free when no in_use address in the club holds it, it is not the club's
+ * DCC default address (the one decoders ship with, 3 unless the club changed it; an
+ * unprogrammed locomotive on the layout would answer to it), and it is not inside a
+ * reserved range or another member's allocation block. When a user is given, numbers from their own allocation blocks
+ * are suggested first.
+ * @param db - Database instance
+ * @param clubId - Club ID to search within
+ * @param count - How many numbers to suggest
+ * @param userId - Optional user to suggest numbers for
+ * @returns Result with up to `count` free numbers in ascending order (own blocks first)
+ */
+export const getAvailableAddressNumbers = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	count: number,
+	userId: number | null = null
+): Promise<AvailabilityResult> => {
+	if (!clubId)
+		return {
+			error: 'Missing club ID',
+		};
+	if (!count || count < 1)
+		return {
+			error: 'count must be at least 1',
+		};
+
+	try {
+		const club = await db.select({ dcc_default_address: clubs.dcc_default_address }).from(clubs).where(eq(clubs.id, clubId));
+		if (club.length === 0) {
+			return {
+				error: 'Club not found',
+			};
+		}
+
+		const inUse = await db
+			.select({ number: addresses.number })
+			.from(addresses)
+			.where(and(eq(addresses.club_id, clubId), eq(addresses.in_use, true)));
+		const taken = new Set<number>(inUse.map((address) => address.number));
+		if (club[0].dcc_default_address !== null) {
+			taken.add(club[0].dcc_default_address);
+		}
+
+		const reservations = await reservationsModel.getReservationsByClubId(db, clubId);
+		if (reservations.error) {
+			return {
+				error: reservations.error,
+			};
+		}
+
+		const ownBlocks = (reservations.data || []).filter((reservation) => reservation.kind === 'allocation' && userId && reservation.user_id === userId);
+		const blocked = (reservations.data || []).filter((reservation) => !ownBlocks.includes(reservation));
+
+		const suggestions: number[] = [];
+		const consider = (number: number) => {
+			if (suggestions.length >= count || taken.has(number) || suggestions.includes(number)) return;
+			if (blocked.some((reservation) => number >= reservation.start_number && number <= reservation.end_number)) return;
+			suggestions.push(number);
+		};
+
+		for (const block of ownBlocks) {
+			for (let number = block.start_number; number <= block.end_number && suggestions.length < count; number++) {
+				consider(number);
+			}
+		}
+
+		for (let number = reservationsModel.MIN_DCC_ADDRESS; number <= reservationsModel.MAX_DCC_ADDRESS && suggestions.length < count; number++) {
+			consider(number);
+		}
+
+		return { data: suggestions };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
 export const selectAddress = async (db: NeonHttpDatabase<Record<string, never>>, id: number): Promise<Result> => {
 	if (!id)
 		return {
@@ -89,7 +338,11 @@ export const selectAddress = async (db: NeonHttpDatabase<Record<string, never>>,
 	}
 };
 
-export const createAddress = async (db: NeonHttpDatabase<Record<string, never>>, data: Address): Promise<Result> => {
+export const createAddress = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	data: Address,
+	options: RegistryOptions = {}
+): Promise<Result> => {
 	if (!data)
 		return {
 			error: 'Missing data',
@@ -106,9 +359,22 @@ export const createAddress = async (db: NeonHttpDatabase<Record<string, never>>,
 	if (existingFlag.error) {
 		return {
 			error: existingFlag.error,
+			conflict: existingFlag.conflict,
 		};
 	}
 
+	// Check the number is not inside a reserved range or another member's allocation block
+	if (!options.bypassReservations) {
+		const reservationFlag = await checkAddressReservations(db, data.number, data.club_id, data.user_id);
+
+		if (reservationFlag.error) {
+			return {
+				error: reservationFlag.error,
+				conflict: reservationFlag.conflict,
+			};
+		}
+	}
+
 	try {
 		const results = await db
 			.insert(addresses)
@@ -132,7 +398,12 @@ export const createAddress = async (db: NeonHttpDatabase<Record<string, never>>,
 	}
 };
 
-export const updateAddress = async (db: NeonHttpDatabase<Record<string, never>>, id: string, data: Address): Promise<Result> => {
+export const updateAddress = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: string,
+	data: Address,
+	options: RegistryOptions = {}
+): Promise<Result> => {
 	if (!data)
 		return {
 			error: 'Missing body',
@@ -161,9 +432,22 @@ export const updateAddress = async (db: NeonHttpDatabase<Record<string, never>>,
 	if (existingFlag.error) {
 		return {
 			error: existingFlag.error,
+			conflict: existingFlag.conflict,
 		};
 	}
 
+	// Check the number is not inside a reserved range or another member's allocation block
+	if (!options.bypassReservations) {
+		const reservationFlag = await checkAddressReservations(db, data.number, data.club_id, data.user_id);
+
+		if (reservationFlag.error) {
+			return {
+				error: reservationFlag.error,
+				conflict: reservationFlag.conflict,
+			};
+		}
+	}
+
 	try {
 		const results = await db
 			.update(addresses)
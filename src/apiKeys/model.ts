@@ -0,0 +1,267 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { apiKeys, users } from '../db/schema';
+import { sha256Hex } from '../utils/signing';
+import { Scope, parseScopes } from './scopes';
+
+/**
+ * Every personal API key starts with this, so checkAuth can tell keys from Clerk tokens
+ */
+export const API_KEY_PREFIX = 'lh_';
+
+/**
+ * A personal API key, without its hash. The key itself is only returned when it is created.
+ */
+export interface ApiKey {
+	id: number;
+	user_id: number;
+	club_id: number;
+	name: string;
+	prefix: string;
+	scopes: Scope[];
+	expires_at: Date | null;
+	last_used_at: Date | null;
+	revoked_at: Date | null;
+	created_at: Date;
+}
+
+/**
+ * What checkAuth needs to know about a key presented with a request
+ */
+export interface VerifiedApiKey {
+	id: number;
+	user_id: number;
+	club_id: number;
+	/** The owner's Clerk ID (`users.token`), which checkUserPermission resolves */
+	user_token: string;
+	scopes: Scope[];
+}
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+type ApiKeyRow = typeof apiKeys.$inferSelect;
+
+const toApiKey = (row: ApiKeyRow): ApiKey => ({
+	id: row.id,
+	user_id: row.user_id,
+	club_id: row.club_id,
+	name: row.name,
+	prefix: row.prefix,
+	scopes: parseScopes(row.scopes),
+	expires_at: row.expires_at,
+	last_used_at: row.last_used_at,
+	revoked_at: row.revoked_at,
+	created_at: row.created_at,
+});
+
+/**
+ * Generates a new key: the prefix followed by 32 random bytes as hex.
+ */
+export const generateApiKey = (): string => {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	return `${API_KEY_PREFIX}${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Validates the optional expiry of a new key
+ *
+ * @param expiresAt - The `expires_at` from the request
+ * @param now - The current time
+ * @returns An error message, or null if it is missing or in the future
+ */
+export const validateExpiry = (expiresAt: unknown, now: Date = new Date()): string | null => {
+	if (expiresAt === undefined || expiresAt === null) {
+		return null;
+	}
+	const date = new Date(expiresAt as string);
+	if (typeof expiresAt !== 'string' || Number.isNaN(date.getTime())) {
+		return 'expires_at must be an ISO 8601 date';
+	}
+	if (date <= now) {
+		return 'expires_at must be in the future';
+	}
+	return null;
+};
+
+/**
+ * Retrieves a club's API keys, newest first.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param userId - Only return this user's keys; null returns every member's
+ * @returns Result object containing the keys, or error message
+ */
+export const getApiKeys = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	userId: number | null
+): Promise<Result<ApiKey[]>> => {
+	try {
+		const rows = await db
+			.select()
+			.from(apiKeys)
+			.where(userId === null ? eq(apiKeys.club_id, clubId) : and(eq(apiKeys.club_id, clubId), eq(apiKeys.user_id, userId)))
+			.orderBy(desc(apiKeys.created_at));
+		return {
+			data: rows.map(toApiKey),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves one of a club's API keys.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The key ID
+ * @returns Result object containing the key, or null if it is not in the club
+ */
+export const getApiKeyById = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number
+): Promise<Result<ApiKey | null>> => {
+	try {
+		const rows = await db
+			.select()
+			.from(apiKeys)
+			.where(and(eq(apiKeys.id, id), eq(apiKeys.club_id, clubId)));
+		return {
+			data: rows[0] ? toApiKey(rows[0]) : null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Mints a key. Only its hash is stored, so the returned key cannot be shown again.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param data - Owner, club, name, validated scopes and optional expiry
+ * @returns Result object containing the key record and the key itself, or error message
+ */
+export const createApiKey = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	data: { user_id: number; club_id: number; name: string; scopes: Scope[]; expires_at?: Date | null }
+): Promise<Result<ApiKey & { key: string }>> => {
+	try {
+		const key = generateApiKey();
+		const rows = await db
+			.insert(apiKeys)
+			.values({
+				user_id: data.user_id,
+				club_id: data.club_id,
+				name: data.name,
+				prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+				key_hash: await sha256Hex(key),
+				scopes: [...new Set(data.scopes)].join(','),
+				expires_at: data.expires_at || null,
+			})
+			.returning();
+		return {
+			data: { ...toApiKey(rows[0]), key },
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Revokes a key so it stops working. Revoking a revoked key keeps the original time.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The key ID
+ * @param now - The revocation time
+ * @returns Result object containing the revoked key, or null if it is not in the club
+ */
+export const revokeApiKey = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number,
+	now: Date = new Date()
+): Promise<Result<ApiKey | null>> => {
+	try {
+		const rows = await db
+			.update(apiKeys)
+			.set({ revoked_at: now })
+			.where(and(eq(apiKeys.id, id), eq(apiKeys.club_id, clubId), isNull(apiKeys.revoked_at)))
+			.returning();
+		if (rows[0]) {
+			return {
+				data: toApiKey(rows[0]),
+			};
+		}
+		return getApiKeyById(db, clubId, id);
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Checks a key presented with a request and records that it was used.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param key - The key from the Authorization header
+ * @param now - The current time
+ * @returns Result object containing the key's owner, club and scopes, or why it was refused
+ */
+export const verifyApiKey = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	key: string,
+	now: Date = new Date()
+): Promise<Result<VerifiedApiKey>> => {
+	try {
+		const rows = await db
+			.select({ key: apiKeys, user_token: users.token, user_deleted_at: users.deleted_at })
+			.from(apiKeys)
+			.innerJoin(users, eq(apiKeys.user_id, users.id))
+			.where(eq(apiKeys.key_hash, await sha256Hex(key)));
+		const row = rows[0];
+		if (!row || row.user_deleted_at) {
+			return {
+				error: 'Invalid API key',
+			};
+		}
+		if (row.key.revoked_at) {
+			return {
+				error: 'API key has been revoked',
+			};
+		}
+		if (row.key.expires_at && row.key.expires_at <= now) {
+			return {
+				error: 'API key has expired',
+			};
+		}
+
+		await db.update(apiKeys).set({ last_used_at: now }).where(eq(apiKeys.id, row.key.id));
+
+		return {
+			data: {
+				id: row.key.id,
+				user_id: row.key.user_id,
+				club_id: row.key.club_id,
+				user_token: row.user_token,
+				scopes: parseScopes(row.key.scopes),
+			},
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,234 @@
+import { Hono } from 'hono';
+import * as apiKeysModel from './model';
+import { validateScopes } from './scopes';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission, hasCapability } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * API Keys Router
+ * Lets members mint personal API keys for one club, so a JMRI panel or signage display can read
+ * club data without a Clerk session. Nested under club: /api/clubs/:clubId/api-keys
+ *
+ * Routes:
+ * - GET    /api/clubs/:clubId/api-keys - List your keys (every member's with manage_club)
+ * - POST   /api/clubs/:clubId/api-keys - Mint a key; the key is only shown in this response
+ * - DELETE /api/clubs/:clubId/api-keys/:id - Revoke a key
+ *
+ * All routes require a signed-in club member. Keys cannot be used to manage keys, since no scope
+ * covers them.
+ */
+export const apiKeysRouter = new Hono<{ Bindings: Env }>();
+
+apiKeysRouter.use(checkAuth);
+apiKeysRouter.use(checkUserPermission);
+apiKeysRouter.use(authorize('apiKey', 'read'));
+
+/**
+ * GET the club's API keys
+ *
+ * Members see their own keys; members with manage_club see every member's. Keys are listed by
+ * prefix, never in full.
+ *
+ * @route GET /api/clubs/:clubId/api-keys
+ * @returns {object} Object containing the keys, newest first
+ *
+ * @example
+ * GET /api/clubs/1/api-keys
+ * Response: { result: [{ id: 3, name: "Yard panel", prefix: "lh_4f0c9a1e", scopes: ["read:sessions"], last_used_at: "...", ... }] }
+ */
+apiKeysRouter.get('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await apiKeysModel.getApiKeys(db, parseInt(clubId, 10), hasCapability(c, 'manage_club') ? null : c.var.userId);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST mint an API key
+ *
+ * The key acts as you, in this club only, and only for its scopes. It is returned once; only a
+ * hash is stored.
+ *
+ * @route POST /api/clubs/:clubId/api-keys
+ * @body {string} name - What the key is for (required)
+ * @body {string[]} scopes - e.g. ["read:sessions", "write:reports"] (required)
+ * @body {string} [expires_at] - ISO 8601 time the key stops working; keys without one do not expire
+ * @returns {object} Object with created flag, the key record and the key
+ *
+ * @example
+ * POST /api/clubs/1/api-keys
+ * Body: { name: "Yard panel", scopes: ["read:sessions", "read:towers"], expires_at: "2025-06-01T00:00:00Z" }
+ * Response: { created: true, api_key: { id: 3, prefix: "lh_4f0c9a1e", ... }, key: "lh_4f0c9a1e..." }
+ */
+apiKeysRouter.post('/', authorize('apiKey', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+		if (c.var.isM2M) {
+			return c.json(
+				{
+					error: 'API keys belong to a member; M2M clients cannot mint them',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+		const name = typeof data.name === 'string' ? data.name.trim() : '';
+		const invalid =
+			(!name && 'Missing required field: name') || validateScopes(data.scopes) || apiKeysModel.validateExpiry(data.expires_at);
+		if (invalid) {
+			return c.json(
+				{
+					error: invalid,
+				},
+				400
+			);
+		}
+
+		const result = await apiKeysModel.createApiKey(db, {
+			user_id: c.var.userId,
+			club_id: parseInt(clubId, 10),
+			name,
+			scopes: data.scopes,
+			expires_at: data.expires_at ? new Date(data.expires_at) : null,
+		});
+		if (result.error || !result.data) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		const { key, ...apiKey } = result.data;
+		return c.json(
+			{
+				created: true,
+				api_key: apiKey,
+				key,
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * DELETE revoke an API key
+ *
+ * Revoked keys stop working at once and stay listed with `revoked_at` set. Members revoke their
+ * own keys; manage_club allows revoking anyone's.
+ *
+ * @route DELETE /api/clubs/:clubId/api-keys/:id
+ * @returns {object} Object with revoked flag and the key record
+ */
+apiKeysRouter.delete('/:id', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const id = c.req.param('id');
+		if (!clubId || !id) {
+			return c.json(
+				{
+					error: 'Missing club ID or key ID in route',
+				},
+				400
+			);
+		}
+
+		const existing = await apiKeysModel.getApiKeyById(db, parseInt(clubId, 10), parseInt(id, 10));
+		if (existing.error) {
+			return c.json(
+				{
+					error: existing.error,
+				},
+				400
+			);
+		}
+		if (!existing.data) {
+			return c.json(
+				{
+					error: 'API key not found in this club',
+				},
+				404
+			);
+		}
+		if (!isAllowed(c, 'write', 'apiKey', existing.data)) {
+			return c.json(
+				{
+					error: 'Unauthorized: You can only revoke your own API keys',
+				},
+				403
+			);
+		}
+
+		const result = await apiKeysModel.revokeApiKey(db, parseInt(clubId, 10), parseInt(id, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			revoked: true,
+			api_key: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
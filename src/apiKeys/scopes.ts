@@ -0,0 +1,84 @@
+/**
+ * API Key Scopes
+ *
+ * A personal API key acts as the member who minted it, in one club, but only for the areas its
+ * scopes name. `read:<area>` allows reading the area's resources; `write:<area>` also allows
+ * changing them. What the member may do still limits the key (see utils/policy).
+ *
+ * @module apiKeys/scopes
+ */
+
+import type { Action, Resource } from '../utils/policy';
+
+/**
+ * The resources each scope area covers
+ */
+export const SCOPE_AREAS = {
+	sessions: ['scheduledSession', 'sessionSeries', 'appointment'],
+	towers: ['tower'],
+	reports: ['towerReport', 'comment', 'attachment'],
+	issues: ['issue', 'comment', 'attachment'],
+	notices: ['notice'],
+	addresses: ['address', 'addressReservation', 'consist'],
+	members: ['club', 'member'],
+} as const satisfies Record<string, readonly Resource[]>;
+export type ScopeArea = keyof typeof SCOPE_AREAS;
+
+export const SCOPES = [
+	'read:sessions',
+	'write:sessions',
+	'read:towers',
+	'write:towers',
+	'read:reports',
+	'write:reports',
+	'read:issues',
+	'write:issues',
+	'read:notices',
+	'write:notices',
+	'read:addresses',
+	'write:addresses',
+	'read:members',
+	'write:members',
+] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export const isScope = (value: unknown): value is Scope => SCOPES.includes(value as Scope);
+
+/**
+ * Validates the scopes requested for a new key
+ *
+ * @param scopes - The scopes from the request
+ * @returns An error message, or null if the list is valid
+ */
+export const validateScopes = (scopes: unknown): string | null => {
+	if (!Array.isArray(scopes) || scopes.length === 0) {
+		return `scopes must be a non-empty array of: ${SCOPES.join(', ')}`;
+	}
+	const unknown = scopes.find((scope) => !isScope(scope));
+	if (unknown !== undefined) {
+		return `Unknown scope: ${unknown}`;
+	}
+	return null;
+};
+
+/**
+ * Parses the stored comma-separated scopes of a key, dropping unknown ones
+ */
+export const parseScopes = (stored: string | null | undefined): Scope[] => {
+	return (stored ?? '').split(',').filter(isScope);
+};
+
+/**
+ * Whether a key's scopes allow an action on a kind of resource
+ *
+ * @param scopes - The key's scopes
+ * @param action - 'read' or 'write'
+ * @param resource - The kind of resource
+ * @returns `true` if one of the scopes covers the resource; write scopes also cover reading
+ */
+export const scopesAllow = (scopes: readonly Scope[], action: Action, resource: Resource): boolean => {
+	return scopes.some((scope) => {
+		const [scopeAction, area] = scope.split(':') as [Action, ScopeArea];
+		return (scopeAction === action || scopeAction === 'write') && (SCOPE_AREAS[area] as readonly Resource[]).includes(resource);
+	});
+};
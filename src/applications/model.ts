@@ -1,7 +1,17 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, asc } from 'drizzle-orm';
 
-import { applications } from '../db/schema';
+import { applications, applicationNotes, applicationVotes, users } from '../db/schema';
+import { createInviteToken, InviteToken } from '../inviteTokens/model';
+import { EmailQueueItem } from '../emailQueue/model';
+import { emailQueueService } from '../emailQueue/service';
+import { UnsubscribeConfig } from '../notificationPreferences/unsubscribe';
+import { ApplicationStatus, DECIDED_STATUSES, isApplicationVote, validateTransition } from './workflow';
+
+/**
+ * How long the invite token sent to an approved applicant stays valid, in days
+ */
+export const APPROVAL_INVITE_TTL_DAYS = 14;
 
 /**
  * Represents an application in the system.
@@ -21,6 +31,12 @@ import { applications } from '../db/schema';
  * @property collection_size - Size of applicant's collection (optional)
  * @property has_other_model_railroad_associations - Whether applicant is member of other associations (optional)
  * @property will_agree_to_club_rules - Whether applicant agrees to club rules (optional)
+ * @property status - Review status (see `./workflow`); defaults to 'submitted'
+ * @property reviewer_id - ID of the admin who last moved the application along the workflow
+ * @property interview_at - When the interview is scheduled, if any
+ * @property decided_at - When the application was approved, rejected or withdrawn
+ * @property decision_note - Note recorded with the decision
+ * @property invite_token_id - Invite token minted when the application was approved
  * @property created_at - Timestamp when the application was created (auto-generated, omit when creating)
  * @property updated_at - Timestamp when the application was last updated (auto-generated, omit when creating)
  *
@@ -50,10 +66,71 @@ export interface Application {
 	collection_size?: string | null;
 	has_other_model_railroad_associations?: boolean | null;
 	will_agree_to_club_rules?: boolean | null;
+	status?: string;
+	reviewer_id?: number | null;
+	interview_at?: Date | null;
+	decided_at?: Date | null;
+	decision_note?: string | null;
+	invite_token_id?: number | null;
 	created_at?: Date;
 	updated_at?: Date;
 }
 
+/**
+ * A reviewer note on an application, with the author's name.
+ */
+export interface ApplicationNote {
+	id: number;
+	application_id: number;
+	user_id: number;
+	body: string;
+	first_name?: string | null;
+	last_name?: string | null;
+	created_at?: Date;
+}
+
+/**
+ * A reviewer's vote on an application, with the reviewer's name.
+ * Each reviewer has at most one vote per application; voting again replaces it.
+ */
+export interface ApplicationVoteEntry {
+	application_id: number;
+	user_id: number;
+	vote: string;
+	comment?: string | null;
+	first_name?: string | null;
+	last_name?: string | null;
+	created_at?: Date;
+	updated_at?: Date;
+}
+
+/**
+ * Vote counts for an application
+ */
+export interface VoteTally {
+	approve: number;
+	reject: number;
+	abstain: number;
+}
+
+/**
+ * Context for moving an application through the review workflow.
+ *
+ * @property status - The requested status
+ * @property actorId - ID of the admin making the change; recorded as the reviewer
+ * @property note - Optional note; kept in the review notes and, for decisions, as the decision note
+ * @property interviewAt - Interview time; required when scheduling an interview
+ * @property appUrl - Base URL of the web app, used for the join link in the welcome email
+ */
+export interface ApplicationTransition {
+	status: string;
+	actorId: number;
+	note?: string | null;
+	interviewAt?: Date | null;
+	appUrl: string;
+	unsubscribe?: UnsubscribeConfig | null;
+}
+
 /**
  * Standard result object for database operations.
  *
@@ -78,6 +155,29 @@ export interface Result {
 	data?: Application[] | null;
 }
 
+export interface NotesResult {
+	error?: string | any;
+	data?: ApplicationNote[] | null;
+}
+
+export interface VotesResult {
+	error?: string | any;
+	data?: { votes: ApplicationVoteEntry[]; tally: VoteTally } | null;
+}
+
+/**
+ * Result of a workflow transition. Approvals also return the minted invite token and the
+ * queued welcome email (null when the applicant left no email address or has unsubscribed).
+ */
+export interface TransitionResult {
+	error?: string | any;
+	data?: {
+		application: Application;
+		invite_token?: InviteToken | null;
+		email?: EmailQueueItem | null;
+	} | null;
+}
+
 /**
  * Retrieves all applications from the database.
  *
@@ -118,6 +218,7 @@ export const getApplications = async (db: NeonHttpDatabase<Record<string, never>
  *
  * @param db - Drizzle ORM database instance
  * @param clubId - ID of the club to fetch applications for (required)
+ * @param status - Optional review status to filter by, e.g. 'under_review'
  * @returns Result object containing array of applications for the club, or error message if operation fails
  *
  * @example
@@ -134,14 +235,18 @@ export const getApplications = async (db: NeonHttpDatabase<Record<string, never>
  */
 export const getApplicationsByClubId = async (
 	db: NeonHttpDatabase<Record<string, never>>,
-	clubId: number
+	clubId: number,
+	status?: string
 ): Promise<Result> => {
 	if (!clubId)
 		return {
 			error: 'Missing club ID',
 		};
 	try {
-		const results = await db.select().from(applications).where(eq(applications.club_id, clubId));
+		const results = await db
+			.select()
+			.from(applications)
+			.where(status ? and(eq(applications.club_id, clubId), eq(applications.status, status)) : eq(applications.club_id, clubId));
 		return { data: results };
 	} catch (error) {
 		return {
@@ -432,7 +537,7 @@ export const updateApplication = async (db: NeonHttpDatabase<Record<string, neve
  * - This is a hard delete - the application is permanently removed from the database
  * - Returns the deleted application data in the result array
  * - For protected deletions that validate club ownership, validate with `getApplicationByIdAndClubId` first
- * - No cascade rules are defined, so this operation will fail if foreign key constraints exist elsewhere
+ * - The application's review notes and votes are deleted with it
  * - Consider implementing soft deletes or archival if you need to maintain historical data
  *
  * @throws Returns error in result object if id is missing, application doesn't exist, or database deletion fails
@@ -444,6 +549,8 @@ export const deleteApplication = async (db: NeonHttpDatabase<Record<string, neve
 		};
 
 	try {
+		await db.delete(applicationNotes).where(eq(applicationNotes.application_id, parseInt(id, 10)));
+		await db.delete(applicationVotes).where(eq(applicationVotes.application_id, parseInt(id, 10)));
 		const results = await db
 			.delete(applications)
 			.where(eq(applications.id, parseInt(id, 10)))
@@ -455,3 +562,359 @@ export const deleteApplication = async (db: NeonHttpDatabase<Record<string, neve
 		};
 	}
 };
+
+/**
+ * Builds the link an approved applicant follows to join the club.
+ *
+ * @param appUrl - Base URL of the web app, e.g. `https://locomotivehouse.com`
+ * @param token - The invite token
+ * @returns The join link
+ */
+export const buildJoinLink = (appUrl: string, token: string): string => {
+	return `${appUrl.replace(/\/+$/, '')}/join?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Queues the welcome email for an approved applicant. Nothing is queued for an address that
+ * has unsubscribed.
+ */
+const queueWelcomeEmail = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	application: Application,
+	inviteToken: InviteToken,
+	appUrl: string,
+	unsubscribe?: UnsubscribeConfig | null
+): Promise<{ error?: string; data?: EmailQueueItem | null }> => {
+	if (!application.email) {
+		return { data: null };
+	}
+
+	const result = await emailQueueService.queueEmail(
+		db,
+		{
+			recipient_email: application.email,
+			template: 'invite',
+			variables: {
+				name: application.name,
+				join_link: buildJoinLink(appUrl, inviteToken.token),
+				expires_on: inviteToken.expires_at.toISOString().slice(0, 10),
+			},
+			club_id: application.club_id,
+		},
+		unsubscribe
+	);
+	if (result.error) {
+		return { error: result.error };
+	}
+	return { data: result.data!.queued ? result.data!.email : null };
+};
+
+/**
+ * Moves an application to a new review status.
+ *
+ * Validates the change against the workflow, records the acting admin as the reviewer and keeps
+ * the note in the review notes. Scheduling an interview requires `interviewAt`. Decisions
+ * (approved, rejected, withdrawn) are timestamped and keep the note as the decision note.
+ *
+ * Approving an application mints an invite token for the club with `createInviteToken` and
+ * queues a welcome email containing the join link. The token is created before the status is
+ * saved, so a failed approval leaves the application where it was.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param application - The current application (as loaded by `getApplicationByIdAndClubId`)
+ * @param transition - The requested change
+ * @returns Result object containing the updated application, plus the invite token and queued email on approval
+ *
+ * @example
+ * ```typescript
+ * const result = await transitionApplication(db, application, {
+ *   status: 'approved',
+ *   actorId: 7,
+ *   note: 'Great interview',
+ *   appUrl: 'https://locomotivehouse.com',
+ * });
+ * console.log(result.data?.invite_token?.token);
+ * ```
+ *
+ * @throws Returns error in result object if the change is not allowed or a database operation fails
+ */
+export const transitionApplication = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	application: Application,
+	transition: ApplicationTransition
+): Promise<TransitionResult> => {
+	if (!application || !application.id)
+		return {
+			error: 'Missing application',
+		};
+	if (!transition || !transition.status || !transition.actorId)
+		return {
+			error: 'Missing required fields: status and actorId are required',
+		};
+
+	const transitionError = validateTransition(application.status, transition.status);
+	if (transitionError) {
+		return {
+			error: transitionError,
+		};
+	}
+	const status = transition.status as ApplicationStatus;
+
+	if (status === 'interview_scheduled' && !transition.interviewAt) {
+		return {
+			error: 'interview_at is required to schedule an interview',
+		};
+	}
+
+	try {
+		let inviteToken: InviteToken | null = null;
+		if (status === 'approved') {
+			const expiresAt = new Date(Date.now() + APPROVAL_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+			const tokenResult = await createInviteToken(db, application.club_id, expiresAt);
+			if (tokenResult.error || !tokenResult.data) {
+				return {
+					error: tokenResult.error || 'Failed to create invite token',
+				};
+			}
+			inviteToken = tokenResult.data;
+		}
+
+		const isDecision = DECIDED_STATUSES.includes(status);
+		const results = await db
+			.update(applications)
+			.set({
+				status,
+				reviewer_id: transition.actorId,
+				interview_at: status === 'interview_scheduled' ? transition.interviewAt : application.interview_at,
+				decided_at: isDecision ? new Date() : null,
+				decision_note: isDecision ? transition.note || null : null,
+				invite_token_id: inviteToken ? inviteToken.id : application.invite_token_id,
+				updated_at: new Date(),
+			})
+			.where(eq(applications.id, application.id))
+			.returning();
+		const updated = results[0] as Application;
+
+		if (transition.note) {
+			await db.insert(applicationNotes).values({
+				application_id: application.id,
+				user_id: transition.actorId,
+				body: transition.note,
+			});
+		}
+
+		let email: EmailQueueItem | null = null;
+		if (inviteToken) {
+			const emailResult = await queueWelcomeEmail(db, updated, inviteToken, transition.appUrl, transition.unsubscribe);
+			if (emailResult.error) {
+				return {
+					error: `Application approved, but the welcome email could not be queued: ${emailResult.error}`,
+				};
+			}
+			email = emailResult.data || null;
+		}
+
+		return {
+			data: {
+				application: updated,
+				invite_token: inviteToken,
+				email,
+			},
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves the review notes on an application, oldest first, with author names.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param applicationId - ID of the application (required)
+ * @returns Result object containing the notes, or error message
+ */
+export const getApplicationNotes = async (db: NeonHttpDatabase<Record<string, never>>, applicationId: number): Promise<NotesResult> => {
+	if (!applicationId)
+		return {
+			error: 'Missing application ID',
+		};
+	try {
+		const results = await db
+			.select({
+				id: applicationNotes.id,
+				application_id: applicationNotes.application_id,
+				user_id: applicationNotes.user_id,
+				body: applicationNotes.body,
+				created_at: applicationNotes.created_at,
+				first_name: users.first_name,
+				last_name: users.last_name,
+			})
+			.from(applicationNotes)
+			.leftJoin(users, eq(applicationNotes.user_id, users.id))
+			.where(eq(applicationNotes.application_id, applicationId))
+			.orderBy(asc(applicationNotes.created_at), asc(applicationNotes.id));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Adds a review note to an application.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param applicationId - ID of the application (required)
+ * @param userId - ID of the reviewer writing the note (required)
+ * @param body - The note (required)
+ * @returns Result object containing the created note, or error message
+ */
+export const addApplicationNote = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	applicationId: number,
+	userId: number,
+	body: string
+): Promise<NotesResult> => {
+	if (!applicationId || !userId)
+		return {
+			error: 'Missing application ID or user ID',
+		};
+	if (typeof body !== 'string' || body.trim() === '')
+		return {
+			error: 'Missing required field: body',
+		};
+	try {
+		const results = await db
+			.insert(applicationNotes)
+			.values({
+				application_id: applicationId,
+				user_id: userId,
+				body: body.trim(),
+			})
+			.returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Counts votes by type.
+ *
+ * @param votes - The votes on an application
+ * @returns Number of approve, reject and abstain votes
+ */
+export const tallyVotes = (votes: { vote: string }[]): VoteTally => {
+	const tally: VoteTally = { approve: 0, reject: 0, abstain: 0 };
+	for (const { vote } of votes) {
+		if (isApplicationVote(vote)) {
+			tally[vote]++;
+		}
+	}
+	return tally;
+};
+
+/**
+ * Retrieves the votes on an application with reviewer names and a tally.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param applicationId - ID of the application (required)
+ * @returns Result object containing the votes and their tally, or error message
+ */
+export const getApplicationVotes = async (db: NeonHttpDatabase<Record<string, never>>, applicationId: number): Promise<VotesResult> => {
+	if (!applicationId)
+		return {
+			error: 'Missing application ID',
+		};
+	try {
+		const votes = await db
+			.select({
+				application_id: applicationVotes.application_id,
+				user_id: applicationVotes.user_id,
+				vote: applicationVotes.vote,
+				comment: applicationVotes.comment,
+				created_at: applicationVotes.created_at,
+				updated_at: applicationVotes.updated_at,
+				first_name: users.first_name,
+				last_name: users.last_name,
+			})
+			.from(applicationVotes)
+			.leftJoin(users, eq(applicationVotes.user_id, users.id))
+			.where(eq(applicationVotes.application_id, applicationId))
+			.orderBy(asc(applicationVotes.created_at));
+		return { data: { votes, tally: tallyVotes(votes) } };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Records a reviewer's vote on an application, replacing any earlier vote by the same reviewer.
+ *
+ * Votes can only be cast while the application is undecided.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param application - The application being voted on
+ * @param userId - ID of the reviewer (required)
+ * @param vote - 'approve', 'reject' or 'abstain'
+ * @param comment - Optional comment explaining the vote
+ * @returns Result object containing the application's votes and tally after the change, or error message
+ */
+export const castApplicationVote = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	application: Application,
+	userId: number,
+	vote: string,
+	comment?: string | null
+): Promise<VotesResult> => {
+	if (!application || !application.id || !userId)
+		return {
+			error: 'Missing application or user ID',
+		};
+	if (!isApplicationVote(vote))
+		return {
+			error: 'Invalid vote. Allowed: approve, reject, abstain',
+		};
+	if (DECIDED_STATUSES.includes(application.status as ApplicationStatus))
+		return {
+			error: 'Voting is closed for this application',
+		};
+
+	try {
+		const existing = await db
+			.select()
+			.from(applicationVotes)
+			.where(and(eq(applicationVotes.application_id, application.id), eq(applicationVotes.user_id, userId)));
+
+		if (existing.length > 0) {
+			await db
+				.update(applicationVotes)
+				.set({
+					vote,
+					comment: comment || null,
+					updated_at: new Date(),
+				})
+				.where(and(eq(applicationVotes.application_id, application.id), eq(applicationVotes.user_id, userId)));
+		} else {
+			await db.insert(applicationVotes).values({
+				application_id: application.id,
+				user_id: userId,
+				vote,
+				comment: comment || null,
+			});
+		}
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+
+	return getApplicationVotes(db, application.id);
+};
@@ -2,15 +2,39 @@ import { Hono } from 'hono';
 import * as applicationsModel from './model';
 import { dbInitalizer } from '../utils/db';
 import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import { isApplicationStatus } from './workflow';
+import * as spamGuard from './spamGuard';
+import { emailQueueService } from '../emailQueue/service';
+import { getUnsubscribeConfig } from '../notificationPreferences/unsubscribe';
+import { emitClubEvent } from '../clubWebhooks/events';
 import type { Env } from '../index';
 
+/**
+ * HTTP status returned for each reason a submission can be rejected
+ */
+const REJECTION_STATUS: Record<spamGuard.RejectionReason, 400 | 403 | 409 | 429> = {
+	honeypot: 400,
+	challenge_failed: 403,
+	rate_limited_ip: 429,
+	rate_limited_email: 429,
+	duplicate: 409,
+};
+
+/**
+ * Web app URL used for links in emails when APP_URL is not configured
+ */
+export const DEFAULT_APP_URL = 'https://locomotivehouse.com';
+
 /**
  * Router for application-related API endpoints.
  * Nested under club: /api/clubs/:clubId/applications
  *
  * Authentication requirements:
  * - POST (create application): No authentication required (public endpoint)
- * - GET, PUT, DELETE: Require authentication and user permission
+ * - GET: Requires authentication and user permission
+ * - PUT, DELETE and review endpoints (transition, notes, votes): Require authentication and the
+ *   review_applications capability
  */
 export const applicationsRouter = new Hono<{ Bindings: Env }>();
 
@@ -19,7 +43,10 @@ export const applicationsRouter = new Hono<{ Bindings: Env }>();
  * Route: GET /api/clubs/:clubId/applications
  *
  * Retrieves all applications associated with a specific club.
- * Returns a complete list of all applications without any filtering or pagination.
+ * Returns a complete list of applications without pagination, optionally filtered by review status.
+ *
+ * Query Parameters:
+ * - status (optional): Only applications in this review status, e.g. `under_review`
  *
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
@@ -40,6 +67,7 @@ export const applicationsRouter = new Hono<{ Bindings: Env }>();
  *       "email": "john@example.com",
  *       "occupation": "Engineer",
  *       "will_agree_to_club_rules": true,
+ *       "status": "under_review",
  *       "created_at": "2024-11-09T10:00:00Z",
  *       "updated_at": "2024-11-09T10:00:00Z"
  *     }
@@ -67,7 +95,7 @@ export const applicationsRouter = new Hono<{ Bindings: Env }>();
  *
  * @throws Returns 400 if clubId is missing or database query fails
  */
-applicationsRouter.get('/', checkAuth, checkUserPermission, async (c) => {
+applicationsRouter.get('/', checkAuth, checkUserPermission, authorize('application', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const clubId = c.req.param('clubId');
@@ -81,7 +109,17 @@ applicationsRouter.get('/', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
-		const result = await applicationsModel.getApplicationsByClubId(db, parseInt(clubId, 10));
+		const status = c.req.query('status');
+		if (status && !isApplicationStatus(status)) {
+			return c.json(
+				{
+					error: `Invalid status "${status}"`,
+				},
+				400
+			);
+		}
+
+		const result = await applicationsModel.getApplicationsByClubId(db, parseInt(clubId, 10), status);
 		if (result.error) {
 			return c.json(
 				{
@@ -103,6 +141,70 @@ applicationsRouter.get('/', checkAuth, checkUserPermission, async (c) => {
 	}
 });
 
+/**
+ * GET rejected application submissions for a club
+ * Route: GET /api/clubs/:clubId/applications/rejected-submissions
+ *
+ * Lists submissions the spam guard turned away, newest first, so reviewers can spot genuine
+ * applicants caught by mistake. Requires review_applications.
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "result": [
+ *     {
+ *       "id": 40,
+ *       "ip_address": "203.0.113.7",
+ *       "email": "dana@example.com",
+ *       "phone_number": "555-0100",
+ *       "outcome": "rejected",
+ *       "reason": "duplicate",
+ *       "payload": "{\"name\":\"Dana Whitfield\",...}",
+ *       "created_at": "2024-11-09T10:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * @throws Returns 403 without review_applications
+ */
+applicationsRouter.get('/rejected-submissions', checkAuth, checkUserPermission, authorize('applicationReview', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await spamGuard.getRejectedSubmissions(db, parseInt(clubId, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
 /**
  * GET an application by ID
  * Route: GET /api/clubs/:clubId/applications/:id
@@ -161,7 +263,7 @@ applicationsRouter.get('/', checkAuth, checkUserPermission, async (c) => {
  *
  * @throws Returns 400 if required route params missing, 404 if application not in club, or database error
  */
-applicationsRouter.get('/:id', checkAuth, checkUserPermission, async (c) => {
+applicationsRouter.get('/:id', checkAuth, checkUserPermission, authorize('application', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const id = c.req.param('id');
@@ -229,6 +331,15 @@ applicationsRouter.get('/:id', checkAuth, checkUserPermission, async (c) => {
  * - No authentication required (public endpoint for new applicants)
  * - Anyone can submit an application to a club
  *
+ * Spam protection (see `./spamGuard`):
+ * - The `website` honeypot field must be empty (400)
+ * - When TURNSTILE_SECRET_KEY is set, `challenge_token` must pass Turnstile verification (403)
+ * - At most 5 submissions per IP address and 3 per email address per hour (429)
+ * - No application with the same email or phone number to this club in the last 30 days (409)
+ * - Rejected submissions are logged for reviewers; see GET /rejected-submissions
+ *
+ * When the applicant gives an email address, an `application_received` confirmation is queued.
+ *
  * @param c - Hono context object with route params: clubId
  * @returns JSON response with created application ID, or error object with 400/201 status
  *
@@ -335,6 +446,37 @@ applicationsRouter.post('/', async (c) => {
 			}
 		}
 
+		// Screen for spam and abuse before storing anything
+		const submission: spamGuard.Submission = {
+			clubId: parseInt(clubId, 10),
+			ipAddress: c.req.header('CF-Connecting-IP') || null,
+			email: data.email || null,
+			phoneNumber: data.phone_number,
+			honeypot: data[spamGuard.HONEYPOT_FIELD],
+			challengeToken: data.challenge_token || data['cf-turnstile-response'],
+		};
+		const verifier = c.env.TURNSTILE_SECRET_KEY ? spamGuard.createTurnstileVerifier(c.env.TURNSTILE_SECRET_KEY) : null;
+		const screening = await spamGuard.screenSubmission(db, submission, verifier);
+		if (screening.error || !screening.data) {
+			return c.json(
+				{
+					error: screening.error,
+				},
+				400
+			);
+		}
+
+		const verdict = screening.data;
+		if (!verdict.allowed) {
+			await spamGuard.logSubmission(db, submission, verdict, { payload: data });
+			return c.json(
+				{
+					error: verdict.message,
+				},
+				REJECTION_STATUS[verdict.reason!]
+			);
+		}
+
 		// Only allow specific fields for applications - prevent injection
 		const applicationData: applicationsModel.Application = {
 			club_id: parseInt(clubId, 10),
@@ -362,6 +504,34 @@ applicationsRouter.post('/', async (c) => {
 			);
 		}
 
+		await spamGuard.logSubmission(db, submission, verdict, { applicationId: result.data?.[0]?.id });
+
+		// Let the applicant know their application arrived; a queueing failure should not fail the submission
+		if (applicationData.email) {
+			const confirmation = await emailQueueService.queueEmail(
+				db,
+				{
+					recipient_email: applicationData.email,
+					template: 'application_received',
+					variables: { name: applicationData.name },
+					club_id: applicationData.club_id,
+				},
+				getUnsubscribeConfig(c.env, new URL(c.req.url).origin)
+			);
+			if (confirmation.error) {
+				console.error('Failed to queue application confirmation:', confirmation.error);
+			}
+		}
+
+		// Notify the club's webhooks without the applicant's contact details
+		const application = result.data?.[0];
+		const emitted = await emitClubEvent(db, applicationData.club_id, 'application.submitted', {
+			application: { id: application?.id, name: application?.name, status: application?.status, created_at: application?.created_at },
+		});
+		if (emitted.error) {
+			console.error('Failed to queue application.submitted webhooks:', emitted.error);
+		}
+
 		return c.json(
 			{
 				created: true,
@@ -390,7 +560,7 @@ applicationsRouter.post('/', async (c) => {
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
  * - User must be authenticated in database (checkUserPermission middleware)
- * - User must be admin/super-admin, OR belong to the specified club
+ * - User must hold the review_applications capability (authorize middleware)
  *
  * @param c - Hono context object with route params: id, clubId
  * @returns JSON response with updated flag and application object, or error object with 400/404 status
@@ -451,7 +621,7 @@ applicationsRouter.post('/', async (c) => {
  *
  * @throws Returns 400 if required params missing or database error, 404 if application not in club
  */
-applicationsRouter.put('/:id', checkAuth, checkUserPermission, async (c) => {
+applicationsRouter.put('/:id', checkAuth, checkUserPermission, authorize('application', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const id = c.req.param('id');
@@ -544,7 +714,7 @@ applicationsRouter.put('/:id', checkAuth, checkUserPermission, async (c) => {
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
  * - User must be authenticated in database (checkUserPermission middleware)
- * - User must be admin/super-admin, OR belong to the specified club
+ * - User must hold the review_applications capability (authorize middleware)
  *
  * @param c - Hono context object with route params: id, clubId
  * @returns JSON response with deleted flag, or error object with 400/404 status
@@ -586,7 +756,7 @@ applicationsRouter.put('/:id', checkAuth, checkUserPermission, async (c) => {
  *
  * @throws Returns 400 if required params missing or database error, 404 if application not in club
  */
-applicationsRouter.delete('/:id', checkAuth, checkUserPermission, async (c) => {
+applicationsRouter.delete('/:id', checkAuth, checkUserPermission, authorize('application', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const id = c.req.param('id');
@@ -647,3 +817,369 @@ applicationsRouter.delete('/:id', checkAuth, checkUserPermission, async (c) => {
 		);
 	}
 });
+
+/**
+ * POST move an application through the review workflow
+ * Route: POST /api/clubs/:clubId/applications/:id/transition
+ *
+ * Moves an application to a new status. Allowed changes:
+ * - submitted → under_review, rejected, withdrawn
+ * - under_review → interview_scheduled, approved, rejected, withdrawn
+ * - interview_scheduled → under_review, approved, rejected, withdrawn
+ *
+ * Approving an application mints an invite token for the club (valid for 14 days) and queues a
+ * welcome email with the join link to the applicant's email address.
+ *
+ * Authentication & Authorization:
+ * - Requires valid Clerk JWT token (checkAuth middleware)
+ * - User must be authenticated in database (checkUserPermission middleware)
+ * - User must hold the review_applications capability (authorize middleware)
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "status": "interview_scheduled",
+ *   "interview_at": "2024-11-16T14:00:00Z",
+ *   "note": "Meeting at the Saturday open house"
+ * }
+ * ```
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "updated": true,
+ *   "application": { "id": 1, "status": "approved", "reviewer_id": 7, "decided_at": "...", ... },
+ *   "invite_token": { "id": 4, "token": "k3j2...", "expires_at": "..." },
+ *   "email_queued": true
+ * }
+ * ```
+ *
+ * @throws Returns 400 if the status change is not allowed, 403 without review_applications, 404 if application not in club
+ */
+applicationsRouter.post('/:id/transition', checkAuth, checkUserPermission, authorize('applicationReview', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing application ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+		if (!data.status) {
+			return c.json(
+				{
+					error: 'Missing required field: status',
+				},
+				400
+			);
+		}
+
+		const interviewAt = data.interview_at ? new Date(data.interview_at) : null;
+		if (interviewAt && isNaN(interviewAt.getTime())) {
+			return c.json(
+				{
+					error: 'Invalid interview_at',
+				},
+				400
+			);
+		}
+
+		const applicationCheck = await applicationsModel.getApplicationByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (applicationCheck.error || !applicationCheck.data || applicationCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Application not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await applicationsModel.transitionApplication(db, applicationCheck.data[0], {
+			status: data.status,
+			actorId: c.var.userId,
+			note: data.note || null,
+			interviewAt,
+			appUrl: c.env.APP_URL || DEFAULT_APP_URL,
+			unsubscribe: getUnsubscribeConfig(c.env, new URL(c.req.url).origin),
+		});
+		if (result.error || !result.data) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			updated: true,
+			application: result.data.application,
+			invite_token: result.data.invite_token || null,
+			email_queued: !!result.data.email,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * GET review notes for an application
+ * Route: GET /api/clubs/:clubId/applications/:id/notes
+ *
+ * Returns reviewer notes oldest first, with author names. Requires review_applications.
+ *
+ * @throws Returns 403 without review_applications, 404 if application not in club
+ */
+applicationsRouter.get('/:id/notes', checkAuth, checkUserPermission, authorize('applicationReview', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing application ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const applicationCheck = await applicationsModel.getApplicationByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (applicationCheck.error || !applicationCheck.data || applicationCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Application not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await applicationsModel.getApplicationNotes(db, parseInt(id, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST add a review note to an application
+ * Route: POST /api/clubs/:clubId/applications/:id/notes
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "body": "Has run DCC layouts at two other clubs"
+ * }
+ * ```
+ *
+ * @throws Returns 400 if the note is empty, 403 without review_applications, 404 if application not in club
+ */
+applicationsRouter.post('/:id/notes', checkAuth, checkUserPermission, authorize('applicationReview', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing application ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const applicationCheck = await applicationsModel.getApplicationByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (applicationCheck.error || !applicationCheck.data || applicationCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Application not found in this club',
+				},
+				404
+			);
+		}
+
+		const data = await c.req.json();
+		const result = await applicationsModel.addApplicationNote(db, parseInt(id, 10), c.var.userId, data.body);
+		if (result.error || !result.data) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				note: result.data[0],
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * GET votes on an application
+ * Route: GET /api/clubs/:clubId/applications/:id/votes
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "votes": [{ "user_id": 7, "vote": "approve", "comment": null, "first_name": "Ann", "last_name": "Lee" }],
+ *   "tally": { "approve": 1, "reject": 0, "abstain": 0 }
+ * }
+ * ```
+ *
+ * @throws Returns 403 without review_applications, 404 if application not in club
+ */
+applicationsRouter.get('/:id/votes', checkAuth, checkUserPermission, authorize('applicationReview', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing application ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const applicationCheck = await applicationsModel.getApplicationByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (applicationCheck.error || !applicationCheck.data || applicationCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Application not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await applicationsModel.getApplicationVotes(db, parseInt(id, 10));
+		if (result.error || !result.data) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(result.data);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * PUT cast or change your vote on an application
+ * Route: PUT /api/clubs/:clubId/applications/:id/votes
+ *
+ * Each reviewer has one vote per application; voting again replaces it. Voting closes once the
+ * application is approved, rejected or withdrawn.
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "vote": "approve" | "reject" | "abstain",
+ *   "comment": "Optional reason"
+ * }
+ * ```
+ *
+ * @returns The application's votes and tally after the change
+ * @throws Returns 400 if the vote is invalid or voting is closed, 403 without review_applications, 404 if application not in club
+ */
+applicationsRouter.put('/:id/votes', checkAuth, checkUserPermission, authorize('applicationReview', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing application ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const applicationCheck = await applicationsModel.getApplicationByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (applicationCheck.error || !applicationCheck.data || applicationCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Application not found in this club',
+				},
+				404
+			);
+		}
+
+		const data = await c.req.json();
+		const result = await applicationsModel.castApplicationVote(db, applicationCheck.data[0], c.var.userId, data.vote, data.comment);
+		if (result.error || !result.data) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			updated: true,
+			...result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
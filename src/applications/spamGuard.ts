@@ -0,0 +1,284 @@
+/**
+ * Application Spam Guard
+ *
+ * Screens public membership application submissions before they are stored. A submission is
+ * rejected if it fills in the honeypot field, comes from an IP address or email that has
+ * submitted too often recently, duplicates a recent application to the same club, or fails the
+ * optional challenge (e.g. Cloudflare Turnstile). Every submission, accepted or rejected, is
+ * logged to `application_submissions`; the log feeds the rate limits and lets admins review
+ * what was turned away.
+ */
+
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { and, count, desc, eq, gte, or, sql } from 'drizzle-orm';
+import { applications, applicationSubmissions } from '../db/schema';
+
+/**
+ * Form field that must stay empty. It is hidden from people, so only bots fill it in.
+ */
+export const HONEYPOT_FIELD = 'website';
+
+/**
+ * Window used for the IP and email rate limits, in minutes
+ */
+export const RATE_LIMIT_WINDOW_MINUTES = 60;
+
+/**
+ * Submissions allowed from one IP address within the rate limit window
+ */
+export const MAX_SUBMISSIONS_PER_IP = 5;
+
+/**
+ * Submissions allowed for one email address within the rate limit window
+ */
+export const MAX_SUBMISSIONS_PER_EMAIL = 3;
+
+/**
+ * An application with the same email or phone number to the same club within this many days is a duplicate
+ */
+export const DUPLICATE_WINDOW_DAYS = 30;
+
+export type RejectionReason = 'honeypot' | 'rate_limited_ip' | 'rate_limited_email' | 'duplicate' | 'challenge_failed';
+
+/**
+ * Verifies a challenge token (such as a Turnstile widget response) sent with a submission.
+ * Tests can supply a stub instead of calling the real service.
+ */
+export interface ChallengeVerifier {
+	verify(token: string | undefined, ipAddress?: string | null): Promise<boolean>;
+}
+
+/**
+ * A public application submission, as seen by the guard
+ *
+ * @property clubId - Club the application is for
+ * @property ipAddress - Client IP address (from `CF-Connecting-IP`)
+ * @property email - Applicant's email address, if given
+ * @property phoneNumber - Applicant's phone number
+ * @property honeypot - Value of the honeypot field
+ * @property challengeToken - Challenge response token, if the form includes a challenge
+ */
+export interface Submission {
+	clubId: number;
+	ipAddress?: string | null;
+	email?: string | null;
+	phoneNumber?: string | null;
+	honeypot?: unknown;
+	challengeToken?: string;
+}
+
+/**
+ * Outcome of screening a submission
+ */
+export interface Verdict {
+	allowed: boolean;
+	reason?: RejectionReason;
+	message?: string;
+}
+
+export interface SubmissionLogEntry {
+	id: number;
+	club_id: number;
+	ip_address: string | null;
+	email: string | null;
+	phone_number: string | null;
+	outcome: string;
+	reason: string | null;
+	application_id: number | null;
+	payload: string | null;
+	created_at: Date;
+}
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+/**
+ * Creates a challenge verifier backed by Cloudflare Turnstile.
+ *
+ * @param secretKey - Turnstile secret key
+ * @param fetchFn - Fetch implementation (defaults to the global fetch)
+ * @returns A verifier that checks tokens with Turnstile's siteverify API
+ */
+export const createTurnstileVerifier = (secretKey: string, fetchFn: typeof fetch = fetch): ChallengeVerifier => ({
+	async verify(token, ipAddress) {
+		if (!token) {
+			return false;
+		}
+		const form = new FormData();
+		form.append('secret', secretKey);
+		form.append('response', token);
+		if (ipAddress) {
+			form.append('remoteip', ipAddress);
+		}
+		try {
+			const response = await fetchFn(TURNSTILE_VERIFY_URL, { method: 'POST', body: form });
+			if (!response.ok) {
+				return false;
+			}
+			const outcome = (await response.json()) as { success?: boolean };
+			return outcome.success === true;
+		} catch (error) {
+			console.error('Turnstile verification failed:', error);
+			return false;
+		}
+	},
+});
+
+const normalizeEmail = (email: string | null | undefined) => (email ? email.trim().toLowerCase() : null);
+
+/**
+ * Screens a submission.
+ *
+ * Checks run cheapest first: honeypot, challenge, IP rate limit, email rate limit, then duplicates.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param submission - The submission to screen
+ * @param verifier - Challenge verifier; when omitted, no challenge is required
+ * @param now - Current time (defaults to now)
+ * @returns Result object containing the verdict, or error message if a lookup fails
+ */
+export const screenSubmission = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	submission: Submission,
+	verifier?: ChallengeVerifier | null,
+	now: Date = new Date()
+): Promise<Result<Verdict>> => {
+	if (typeof submission.honeypot === 'string' ? submission.honeypot.trim() !== '' : !!submission.honeypot) {
+		return { data: { allowed: false, reason: 'honeypot', message: 'Submission rejected' } };
+	}
+
+	if (verifier && !(await verifier.verify(submission.challengeToken, submission.ipAddress))) {
+		return { data: { allowed: false, reason: 'challenge_failed', message: 'Challenge verification failed' } };
+	}
+
+	try {
+		const windowStart = new Date(now.getTime() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000);
+
+		if (submission.ipAddress) {
+			const [fromIp] = await db
+				.select({ count: count() })
+				.from(applicationSubmissions)
+				.where(and(eq(applicationSubmissions.ip_address, submission.ipAddress), gte(applicationSubmissions.created_at, windowStart)));
+			if (fromIp && Number(fromIp.count) >= MAX_SUBMISSIONS_PER_IP) {
+				return { data: { allowed: false, reason: 'rate_limited_ip', message: 'Too many submissions. Please try again later.' } };
+			}
+		}
+
+		const email = normalizeEmail(submission.email);
+		if (email) {
+			const [forEmail] = await db
+				.select({ count: count() })
+				.from(applicationSubmissions)
+				.where(and(eq(applicationSubmissions.email, email), gte(applicationSubmissions.created_at, windowStart)));
+			if (forEmail && Number(forEmail.count) >= MAX_SUBMISSIONS_PER_EMAIL) {
+				return { data: { allowed: false, reason: 'rate_limited_email', message: 'Too many submissions. Please try again later.' } };
+			}
+		}
+
+		const matches = [
+			email ? sql`lower(${applications.email}) = ${email}` : undefined,
+			submission.phoneNumber ? eq(applications.phone_number, submission.phoneNumber) : undefined,
+		].filter((condition) => condition !== undefined);
+		if (matches.length > 0) {
+			const duplicateSince = new Date(now.getTime() - DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+			const duplicates = await db
+				.select({ id: applications.id })
+				.from(applications)
+				.where(and(eq(applications.club_id, submission.clubId), gte(applications.created_at, duplicateSince), or(...matches)));
+			if (duplicates.length > 0) {
+				return {
+					data: {
+						allowed: false,
+						reason: 'duplicate',
+						message: 'An application with this email or phone number was already submitted recently',
+					},
+				};
+			}
+		}
+
+		return { data: { allowed: true } };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Records a screened submission.
+ *
+ * Rejected submissions keep their payload (without the honeypot and challenge fields) so admins
+ * can review them and follow up with genuine applicants who were caught by mistake.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param submission - The submission
+ * @param verdict - Outcome of `screenSubmission`
+ * @param options - The created application's ID (for accepted submissions) or the rejected payload
+ * @returns Result object containing the log entry, or error message
+ */
+export const logSubmission = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	submission: Submission,
+	verdict: Verdict,
+	options: { applicationId?: number | null; payload?: Record<string, unknown> | null } = {}
+): Promise<Result<SubmissionLogEntry[]>> => {
+	try {
+		let payload: string | null = null;
+		if (!verdict.allowed && options.payload) {
+			const { [HONEYPOT_FIELD]: _honeypot, challenge_token: _challengeToken, ...rest } = options.payload;
+			payload = JSON.stringify(rest);
+		}
+
+		const results = await db
+			.insert(applicationSubmissions)
+			.values({
+				club_id: submission.clubId,
+				ip_address: submission.ipAddress || null,
+				email: normalizeEmail(submission.email),
+				phone_number: submission.phoneNumber || null,
+				outcome: verdict.allowed ? 'accepted' : 'rejected',
+				reason: verdict.reason || null,
+				application_id: options.applicationId || null,
+				payload,
+			})
+			.returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves a club's rejected submissions, newest first.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @returns Result object containing the rejected submissions, or error message
+ */
+export const getRejectedSubmissions = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number
+): Promise<Result<SubmissionLogEntry[]>> => {
+	if (!clubId)
+		return {
+			error: 'Missing club ID',
+		};
+	try {
+		const results = await db
+			.select()
+			.from(applicationSubmissions)
+			.where(and(eq(applicationSubmissions.club_id, clubId), eq(applicationSubmissions.outcome, 'rejected')))
+			.orderBy(desc(applicationSubmissions.created_at));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,73 @@
+/**
+ * Application Workflow
+ *
+ * Defines the review lifecycle of a membership application and which status changes are allowed.
+ * The usual path is submitted → under_review → interview_scheduled → approved, with clubs able
+ * to approve or reject without an interview. Approved, rejected and withdrawn are final; the
+ * applicant can withdraw at any point before a decision is made.
+ */
+
+export const APPLICATION_STATUSES = ['submitted', 'under_review', 'interview_scheduled', 'approved', 'rejected', 'withdrawn'] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+/**
+ * Status every new application starts in
+ */
+export const DEFAULT_APPLICATION_STATUS: ApplicationStatus = 'submitted';
+
+/**
+ * Allowed next statuses for each status
+ */
+export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+	submitted: ['under_review', 'rejected', 'withdrawn'],
+	under_review: ['interview_scheduled', 'approved', 'rejected', 'withdrawn'],
+	interview_scheduled: ['under_review', 'approved', 'rejected', 'withdrawn'],
+	approved: [],
+	rejected: [],
+	withdrawn: [],
+};
+
+/**
+ * Statuses that record a final decision on the application
+ */
+export const DECIDED_STATUSES: ApplicationStatus[] = ['approved', 'rejected', 'withdrawn'];
+
+/**
+ * Votes a reviewer can cast on an application
+ */
+export const APPLICATION_VOTES = ['approve', 'reject', 'abstain'] as const;
+
+export type ApplicationVote = (typeof APPLICATION_VOTES)[number];
+
+/**
+ * Checks whether a value is one of the workflow statuses.
+ */
+export const isApplicationStatus = (value: unknown): value is ApplicationStatus => {
+	return typeof value === 'string' && (APPLICATION_STATUSES as readonly string[]).includes(value);
+};
+
+/**
+ * Checks whether a value is a valid reviewer vote.
+ */
+export const isApplicationVote = (value: unknown): value is ApplicationVote => {
+	return typeof value === 'string' && (APPLICATION_VOTES as readonly string[]).includes(value);
+};
+
+/**
+ * Validates a status change.
+ *
+ * @param from - Current status of the application
+ * @param to - Requested status
+ * @returns An error message, or null if the change is allowed
+ */
+export const validateTransition = (from: string | null | undefined, to: string): string | null => {
+	if (!isApplicationStatus(to)) {
+		return `Invalid status "${to}". Allowed: ${APPLICATION_STATUSES.join(', ')}`;
+	}
+	const current = isApplicationStatus(from) ? from : DEFAULT_APPLICATION_STATUS;
+	if (!APPLICATION_TRANSITIONS[current].includes(to)) {
+		return `Cannot move application from ${current} to ${to}`;
+	}
+	return null;
+};
@@ -8,6 +8,9 @@ export interface Appointment {
 	duration: number;
 	user_id: number;
 	scheduled_session_id?: number | null;
+	role?: string | null;
+	status?: string;
+	created_at?: Date;
 }
 
 export interface Result {
@@ -61,16 +64,15 @@ export const updateAppointment = async (db: NeonHttpDatabase<Record<string, neve
 			error: 'Missing ID',
 		};
 
-	const scheduleDate = new Date(data.schedule);
-
 	try {
+		// The session, role and status are owned by the signup flow, which enforces capacity, role
+		// slots and the waitlist; moving to another session means cancelling and signing up again
 		const updateData: any = {
-			schedule: scheduleDate,
 			duration: data.duration,
 		};
 
-		if (data.scheduled_session_id !== undefined) {
-			updateData.scheduled_session_id = data.scheduled_session_id;
+		if (data.schedule) {
+			updateData.schedule = new Date(data.schedule);
 		}
 
 		const results = await db
@@ -120,6 +122,8 @@ export const getAppointmentsByClubId = async (db: NeonHttpDatabase<Record<string
 				duration: appointments.duration,
 				user_id: appointments.user_id,
 				scheduled_session_id: appointments.scheduled_session_id,
+				role: appointments.role,
+				status: appointments.status,
 			})
 			.from(appointments)
 			.innerJoin(usersToClubs, eq(appointments.user_id, usersToClubs.user_id))
@@ -146,6 +150,8 @@ export const getAppointmentsByScheduledSessionId = async (db: NeonHttpDatabase<R
 				duration: appointments.duration,
 				user_id: appointments.user_id,
 				scheduled_session_id: appointments.scheduled_session_id,
+				role: appointments.role,
+				status: appointments.status,
 			})
 			.from(appointments)
 			.where(eq(appointments.scheduled_session_id, parseInt(sessionId, 10)));
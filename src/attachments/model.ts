@@ -0,0 +1,409 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { eq, and, asc } from 'drizzle-orm';
+import { attachments, clubs, issues, towerReports, towers } from '../db/schema';
+import { getImageDimensions, sniffContentType } from '../utils/media';
+
+/**
+ * File types accepted for upload
+ */
+export const ALLOWED_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
+/**
+ * Largest upload accepted, in bytes (10 MB)
+ */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Represents an uploaded file stored in R2
+ * @interface Attachment
+ * @property {number} id - Unique identifier for the attachment
+ * @property {number} club_id - Club the attachment belongs to
+ * @property {number} user_id - ID of the user who uploaded it
+ * @property {number | null} [issue_id] - Issue the attachment is linked to, if any
+ * @property {number | null} [tower_report_id] - Tower report the attachment is linked to, if any
+ * @property {string} key - R2 object key
+ * @property {string} filename - Original file name
+ * @property {string} content_type - Verified MIME type
+ * @property {number} size - Size in bytes
+ * @property {number | null} [width] - Image width in pixels (images only)
+ * @property {number | null} [height] - Image height in pixels (images only)
+ */
+export interface Attachment {
+	id: number;
+	club_id: number;
+	user_id: number;
+	issue_id?: number | null;
+	tower_report_id?: number | null;
+	key: string;
+	filename: string;
+	content_type: string;
+	size: number;
+	width?: number | null;
+	height?: number | null;
+	created_at?: Date;
+}
+
+/**
+ * Data needed to store a new attachment
+ * @interface NewAttachment
+ * @property {number} club_id - Club the attachment belongs to
+ * @property {number} user_id - ID of the uploader
+ * @property {number | null} [issue_id] - Issue to link to
+ * @property {number | null} [tower_report_id] - Tower report to link to
+ * @property {string} filename - Original file name
+ * @property {string} content_type - MIME type declared by the client
+ * @property {ArrayBuffer} body - File contents
+ */
+export interface NewAttachment {
+	club_id: number;
+	user_id: number;
+	issue_id?: number | null;
+	tower_report_id?: number | null;
+	filename: string;
+	content_type: string;
+	body: ArrayBuffer;
+}
+
+export interface Result {
+	error?: string | any;
+	data?: Attachment[] | null;
+}
+
+/**
+ * Checks an upload's size and type and reads image dimensions.
+ *
+ * The declared MIME type must be allowed and must match what the file's leading bytes say it is,
+ * so a renamed executable cannot be uploaded as a photo.
+ *
+ * @param contentType - MIME type declared by the client
+ * @param body - File contents
+ * @returns An error message, or the verified content type and image dimensions
+ */
+export const validateUpload = (
+	contentType: string,
+	body: ArrayBuffer
+): { error?: string; data?: { content_type: string; width: number | null; height: number | null } } => {
+	const declared = (contentType || '').split(';')[0].trim().toLowerCase();
+
+	if (!ALLOWED_CONTENT_TYPES.includes(declared)) {
+		return { error: `Unsupported file type. Allowed: ${ALLOWED_CONTENT_TYPES.join(', ')}` };
+	}
+	if (body.byteLength === 0) {
+		return { error: 'File is empty' };
+	}
+	if (body.byteLength > MAX_ATTACHMENT_BYTES) {
+		return { error: `File is too large. Maximum size is ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` };
+	}
+
+	const bytes = new Uint8Array(body);
+	if (sniffContentType(bytes) !== declared) {
+		return { error: 'File contents do not match its type' };
+	}
+
+	const dimensions = declared.startsWith('image/') ? getImageDimensions(bytes, declared) : null;
+	return {
+		data: {
+			content_type: declared,
+			width: dimensions?.width ?? null,
+			height: dimensions?.height ?? null,
+		},
+	};
+};
+
+/**
+ * Checks that the issue or tower report an attachment is linked to belongs to the club
+ * @async
+ * @function checkTargetInClub
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {number} clubId - The club ID
+ * @param {{ issue_id?: number | null; tower_report_id?: number | null }} target - The link to check
+ * @returns {Promise<string | null>} An error message, or null if the link is valid
+ */
+export const checkTargetInClub = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	target: { issue_id?: number | null; tower_report_id?: number | null }
+): Promise<string | null> => {
+	if (target.issue_id && target.tower_report_id) {
+		return 'An attachment can be linked to an issue or a tower report, not both';
+	}
+
+	if (target.issue_id) {
+		const rows = await db
+			.select({ id: issues.id })
+			.from(issues)
+			.innerJoin(towers, eq(issues.tower_id, towers.id))
+			.where(and(eq(issues.id, target.issue_id), eq(towers.club_id, clubId)));
+		return rows.length === 0 ? 'Issue not found in this club' : null;
+	}
+
+	if (target.tower_report_id) {
+		const rows = await db
+			.select({ id: towerReports.id })
+			.from(towerReports)
+			.innerJoin(towers, eq(towerReports.tower_id, towers.id))
+			.where(and(eq(towerReports.id, target.tower_report_id), eq(towers.club_id, clubId)));
+		return rows.length === 0 ? 'Tower report not found in this club' : null;
+	}
+
+	return null;
+};
+
+/**
+ * Validates an upload, stores it in R2 and records it
+ * @async
+ * @function createAttachment
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {R2Bucket} bucket - The attachments bucket
+ * @param {NewAttachment} data - The upload
+ * @returns {Promise<Result>} Result object containing the created attachment, or error
+ * @description If recording the attachment fails, the stored object is removed again.
+ */
+export const createAttachment = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	bucket: R2Bucket,
+	data: NewAttachment
+): Promise<Result> => {
+	if (!data || !data.club_id || !data.user_id || !data.body) {
+		return {
+			error: 'Missing required fields: club_id, user_id and file are required',
+		};
+	}
+
+	const validation = validateUpload(data.content_type, data.body);
+	if (validation.error || !validation.data) {
+		return {
+			error: validation.error,
+		};
+	}
+
+	const filename = (data.filename || 'upload').replace(/[\r\n"\\/]/g, '_').slice(0, 255);
+	const key = `clubs/${data.club_id}/${crypto.randomUUID()}`;
+
+	try {
+		const targetError = await checkTargetInClub(db, data.club_id, data);
+		if (targetError) {
+			return {
+				error: targetError,
+			};
+		}
+
+		await bucket.put(key, data.body, {
+			httpMetadata: { contentType: validation.data.content_type },
+			customMetadata: { filename },
+		});
+
+		try {
+			const results = await db
+				.insert(attachments)
+				.values({
+					club_id: data.club_id,
+					user_id: data.user_id,
+					issue_id: data.issue_id || null,
+					tower_report_id: data.tower_report_id || null,
+					key,
+					filename,
+					content_type: validation.data.content_type,
+					size: data.body.byteLength,
+					width: validation.data.width,
+					height: validation.data.height,
+				})
+				.returning();
+			return { data: results };
+		} catch (error) {
+			await bucket.delete(key);
+			throw error;
+		}
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves a club's attachments, optionally only those on one issue or tower report
+ * @async
+ * @function getAttachmentsByClubId
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {number} clubId - The club ID
+ * @param {{ issue_id?: number; tower_report_id?: number }} [filter] - Optional link filter
+ * @returns {Promise<Result>} Result object containing attachments, oldest first
+ */
+export const getAttachmentsByClubId = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	filter: { issue_id?: number; tower_report_id?: number } = {}
+): Promise<Result> => {
+	if (!clubId) {
+		return {
+			error: 'Missing club ID',
+		};
+	}
+
+	try {
+		const conditions = [eq(attachments.club_id, clubId)];
+		if (filter.issue_id) conditions.push(eq(attachments.issue_id, filter.issue_id));
+		if (filter.tower_report_id) conditions.push(eq(attachments.tower_report_id, filter.tower_report_id));
+
+		const results = await db
+			.select()
+			.from(attachments)
+			.where(and(...conditions))
+			.orderBy(asc(attachments.created_at));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves an attachment by ID
+ * @async
+ * @function getAttachmentById
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {number} id - The attachment ID
+ * @returns {Promise<Result>} Result object containing the attachment in an array, or error
+ */
+export const getAttachmentById = async (db: NeonHttpDatabase<Record<string, never>>, id: number): Promise<Result> => {
+	if (!id) {
+		return {
+			error: 'Missing ID',
+		};
+	}
+
+	try {
+		const results = await db.select().from(attachments).where(eq(attachments.id, id));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves an attachment by ID, scoped to a club
+ * @async
+ * @function getAttachmentByIdAndClubId
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {number} id - The attachment ID
+ * @param {number} clubId - The club ID
+ * @returns {Promise<Result>} Result object containing the attachment, or an empty array if not in this club
+ */
+export const getAttachmentByIdAndClubId = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: number,
+	clubId: number
+): Promise<Result> => {
+	if (!id || !clubId) {
+		return {
+			error: 'Missing ID or club ID',
+		};
+	}
+
+	try {
+		const results = await db
+			.select()
+			.from(attachments)
+			.where(and(eq(attachments.id, id), eq(attachments.club_id, clubId)));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Uses an image attachment as the club's hero image
+ * @async
+ * @function setClubHeroAttachment
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {Attachment} attachment - An image attachment belonging to the club
+ * @returns {Promise<Result>} Result object containing the attachment, or error
+ */
+export const setClubHeroAttachment = async (db: NeonHttpDatabase<Record<string, never>>, attachment: Attachment): Promise<Result> => {
+	if (!attachment?.id) {
+		return {
+			error: 'Missing attachment',
+		};
+	}
+	if (!attachment.content_type.startsWith('image/')) {
+		return {
+			error: 'Hero image must be an image',
+		};
+	}
+
+	try {
+		await db.update(clubs).set({ hero_attachment_id: attachment.id }).where(eq(clubs.id, attachment.club_id));
+		return { data: [attachment] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves the hero image attachment of a club
+ * @async
+ * @function getClubHeroAttachment
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {number} clubId - The club ID
+ * @returns {Promise<Result>} Result object containing the attachment, or an empty array if the club has none
+ */
+export const getClubHeroAttachment = async (db: NeonHttpDatabase<Record<string, never>>, clubId: number): Promise<Result> => {
+	if (!clubId) {
+		return {
+			error: 'Missing club ID',
+		};
+	}
+
+	try {
+		const results = await db
+			.select({ attachment: attachments })
+			.from(clubs)
+			.innerJoin(attachments, eq(clubs.hero_attachment_id, attachments.id))
+			.where(eq(clubs.id, clubId));
+		return { data: results.map((row) => row.attachment) };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Deletes an attachment and its stored file
+ * @async
+ * @function deleteAttachment
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {R2Bucket} bucket - The attachments bucket
+ * @param {Attachment} attachment - The attachment to delete
+ * @returns {Promise<Result>} Result object containing the deleted attachment, or error
+ * @description A club using the attachment as its hero image is left without one.
+ */
+export const deleteAttachment = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	bucket: R2Bucket,
+	attachment: Attachment
+): Promise<Result> => {
+	if (!attachment?.id) {
+		return {
+			error: 'Missing attachment',
+		};
+	}
+
+	try {
+		const results = await db.delete(attachments).where(eq(attachments.id, attachment.id)).returning();
+		await bucket.delete(attachment.key);
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,447 @@
+import { Hono, Context } from 'hono';
+import * as attachmentsModel from './model';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
+import { createSignedPath, verifySignedPath } from '../utils/signing';
+import type { Env } from '../index';
+
+/**
+ * How long a signed download URL stays valid, in seconds
+ */
+export const DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+
+/**
+ * Router for club attachments.
+ * Nested under club: /api/clubs/:clubId/attachments
+ *
+ * Files are stored in the ATTACHMENTS R2 bucket. Members receive short-lived signed download
+ * URLs, so links shared outside the club stop working after DOWNLOAD_URL_TTL_SECONDS.
+ *
+ * All routes require:
+ * - Authentication (checkAuth middleware)
+ * - User permission and club membership (checkUserPermission middleware)
+ */
+export const attachmentsRouter = new Hono<{ Bindings: Env }>();
+
+// Apply auth middleware to all routes
+attachmentsRouter.use(checkAuth);
+attachmentsRouter.use(checkUserPermission);
+attachmentsRouter.use(authorize('attachment', 'read'));
+
+/**
+ * Router for downloading attachments.
+ * Mounted at: /api/attachments
+ *
+ * Downloads are authorised by the signature in the URL rather than a session, so they work
+ * in <img> tags and new browser tabs.
+ */
+export const attachmentDownloadsRouter = new Hono<{ Bindings: Env }>();
+
+const downloadPath = (id: number) => `/api/attachments/${id}/download`;
+
+/**
+ * Adds a signed, expiring download URL to an attachment.
+ */
+const withDownloadUrl = async (c: Context<{ Bindings: Env }>, attachment: attachmentsModel.Attachment) => {
+	const expiresAt = new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000);
+	const signedPath = await createSignedPath(c.env.ATTACHMENT_SIGNING_SECRET, downloadPath(attachment.id), expiresAt);
+	return {
+		...attachment,
+		url: `${new URL(c.req.url).origin}${signedPath}`,
+		url_expires_at: expiresAt.toISOString(),
+	};
+};
+
+/**
+ * Streams an attachment's file from R2.
+ */
+const streamAttachment = async (c: Context<{ Bindings: Env }>, attachment: attachmentsModel.Attachment, cacheControl: string) => {
+	const object = await c.env.ATTACHMENTS.get(attachment.key);
+	if (!object) {
+		return c.json(
+			{
+				error: 'File not found',
+			},
+			404
+		);
+	}
+
+	return new Response(object.body, {
+		headers: {
+			'Content-Type': attachment.content_type,
+			'Content-Length': String(object.size),
+			'Content-Disposition': `inline; filename="${attachment.filename}"`,
+			'Cache-Control': cacheControl,
+			'X-Content-Type-Options': 'nosniff',
+		},
+	});
+};
+
+/**
+ * GET attachments for a club
+ * Route: GET /api/clubs/:clubId/attachments
+ *
+ * Query Parameters:
+ * - issue_id (optional): Only attachments linked to this issue
+ * - tower_report_id (optional): Only attachments linked to this tower report
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "result": [
+ *     {
+ *       "id": 3,
+ *       "issue_id": 12,
+ *       "filename": "turnout-7.jpg",
+ *       "content_type": "image/jpeg",
+ *       "size": 482113,
+ *       "width": 1600,
+ *       "height": 1200,
+ *       "url": "https://api.locomotivehouse.com/api/attachments/3/download?expires=...&signature=...",
+ *       "url_expires_at": "2024-11-09T10:15:00.000Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+attachmentsRouter.get('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const issueId = c.req.query('issue_id');
+		const towerReportId = c.req.query('tower_report_id');
+
+		const result = await attachmentsModel.getAttachmentsByClubId(db, parseInt(clubId, 10), {
+			issue_id: issueId ? parseInt(issueId, 10) : undefined,
+			tower_report_id: towerReportId ? parseInt(towerReportId, 10) : undefined,
+		});
+
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		const withUrls = await Promise.all((result.data || []).map((attachment) => withDownloadUrl(c, attachment)));
+		return c.json({
+			result: withUrls,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * GET an attachment with a fresh download URL
+ * Route: GET /api/clubs/:clubId/attachments/:id
+ *
+ * @throws Returns 404 if the attachment is not in this club
+ */
+attachmentsRouter.get('/:id', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing attachment ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await attachmentsModel.getAttachmentByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (result.error || !result.data || result.data.length === 0) {
+			return c.json(
+				{
+					error: 'Attachment not found in this club',
+				},
+				404
+			);
+		}
+
+		return c.json({
+			attachment: await withDownloadUrl(c, result.data[0]),
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST upload an attachment
+ * Route: POST /api/clubs/:clubId/attachments
+ *
+ * Request Body (multipart/form-data):
+ * - file (required): The file; JPEG, PNG, GIF, WebP or PDF up to 10 MB
+ * - issue_id (optional): Issue to link the file to
+ * - tower_report_id (optional): Tower report to link the file to
+ * - hero (optional): "true" to use the image as the club's hero image (requires manage_club)
+ *
+ * Success Response (201):
+ * ```json
+ * {
+ *   "created": true,
+ *   "attachment": { "id": 3, "width": 1600, "height": 1200, "url": "...", ... }
+ * }
+ * ```
+ *
+ * @throws Returns 400 if the file is missing, too large, of an unsupported type, or linked to a
+ * resource outside the club; 403 if setting the hero image without manage_club
+ */
+attachmentsRouter.post('/', authorize('attachment', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const form = await c.req.parseBody();
+		const file = form['file'];
+		if (!(file instanceof File)) {
+			return c.json(
+				{
+					error: 'Missing file',
+				},
+				400
+			);
+		}
+
+		const isHero = form['hero'] === 'true';
+		if (isHero && !isAllowed(c, 'write', 'club')) {
+			return c.json(
+				{
+					error: 'Unauthorized: Only club managers can change the club hero image',
+				},
+				403
+			);
+		}
+
+		const result = await attachmentsModel.createAttachment(db, c.env.ATTACHMENTS, {
+			club_id: parseInt(clubId, 10),
+			user_id: c.var.userId,
+			issue_id: typeof form['issue_id'] === 'string' ? parseInt(form['issue_id'], 10) : null,
+			tower_report_id: typeof form['tower_report_id'] === 'string' ? parseInt(form['tower_report_id'], 10) : null,
+			filename: file.name,
+			content_type: file.type,
+			body: await file.arrayBuffer(),
+		});
+
+		if (result.error || !result.data) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		const attachment = result.data[0];
+
+		if (isHero) {
+			const heroResult = await attachmentsModel.setClubHeroAttachment(db, attachment);
+			if (heroResult.error) {
+				return c.json(
+					{
+						error: heroResult.error,
+					},
+					400
+				);
+			}
+		}
+
+		return c.json(
+			{
+				created: true,
+				attachment: await withDownloadUrl(c, attachment),
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * DELETE an attachment
+ * Route: DELETE /api/clubs/:clubId/attachments/:id
+ *
+ * The uploader or a member with manage_club can delete an attachment. The stored file is removed too.
+ *
+ * @throws Returns 403 if deleting someone else's attachment without manage_club, 404 if not in this club
+ */
+attachmentsRouter.delete('/:id', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing attachment ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const attachmentCheck = await attachmentsModel.getAttachmentByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (attachmentCheck.error || !attachmentCheck.data || attachmentCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Attachment not found in this club',
+				},
+				404
+			);
+		}
+		const attachment = attachmentCheck.data[0];
+
+		if (!isAllowed(c, 'write', 'attachment', attachment)) {
+			return c.json(
+				{
+					error: 'Unauthorized: You can only delete your own attachments',
+				},
+				403
+			);
+		}
+
+		const result = await attachmentsModel.deleteAttachment(db, c.env.ATTACHMENTS, attachment);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * GET download an attachment
+ * Route: GET /api/attachments/:id/download?expires=...&signature=...
+ *
+ * Requires a URL signed by one of the club attachment routes.
+ *
+ * @throws Returns 403 if the signature is missing, wrong or expired, 404 if the file is gone
+ */
+attachmentDownloadsRouter.get('/:id/download', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = parseInt(c.req.param('id'), 10);
+
+		const valid = await verifySignedPath(
+			c.env.ATTACHMENT_SIGNING_SECRET,
+			downloadPath(id),
+			c.req.query('expires'),
+			c.req.query('signature')
+		);
+		if (!valid) {
+			return c.json(
+				{
+					error: 'Invalid or expired download link',
+				},
+				403
+			);
+		}
+
+		const result = await attachmentsModel.getAttachmentById(db, id);
+		if (result.error || !result.data || result.data.length === 0) {
+			return c.json(
+				{
+					error: 'Attachment not found',
+				},
+				404
+			);
+		}
+
+		return streamAttachment(c, result.data[0], `private, max-age=${DOWNLOAD_URL_TTL_SECONDS}`);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * GET a club's hero image
+ * Route: GET /api/attachments/clubs/:clubId/hero
+ *
+ * Public, like the club profile it belongs to.
+ *
+ * @throws Returns 404 if the club has no hero image attachment
+ */
+attachmentDownloadsRouter.get('/clubs/:clubId/hero', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const result = await attachmentsModel.getClubHeroAttachment(db, parseInt(c.req.param('clubId'), 10));
+		if (result.error || !result.data || result.data.length === 0) {
+			return c.json(
+				{
+					error: 'Hero image not found',
+				},
+				404
+			);
+		}
+
+		return streamAttachment(c, result.data[0], 'public, max-age=3600');
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
@@ -0,0 +1,184 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { and, count, eq, gte, isNull, lt } from 'drizzle-orm';
+import { refreshAttempts, refreshTokens } from '../db/schema';
+import { sha256Hex } from '../utils/signing';
+import { OAuthClientConfig, TokenSet, refreshAccessToken } from '../utils/tokenRefresh';
+
+/**
+ * A refresh token the API has seen, without its hash
+ */
+export interface RefreshTokenRecord {
+	id: number;
+	family_id: string;
+	/** Set when this exchange recorded the token for the first time */
+	firstUse?: boolean;
+}
+
+/**
+ * Window used for the refresh rate limit, in minutes
+ */
+export const REFRESH_RATE_LIMIT_WINDOW_MINUTES = 15;
+
+/**
+ * Refresh attempts allowed from one IP address within the rate limit window
+ */
+export const MAX_REFRESH_ATTEMPTS_PER_IP = 20;
+
+export interface Result<T> {
+	error?: string | any;
+	/** Set when the refresh token was refused, so the caller must sign in again */
+	invalidGrant?: boolean;
+	data?: T | null;
+}
+
+/**
+ * Marks a refresh token as exchanged before it is sent to the token endpoint.
+ *
+ * A token the API has not seen before was issued at sign-in and starts a new family. A token
+ * that was already exchanged is being reused, so it was copied or stolen: its whole family is
+ * revoked, including the newest token, and the holder has to sign in again.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param refreshToken - Refresh token presented by the external tool
+ * @returns The spent token, or an error with `invalidGrant` when it was reused or revoked
+ */
+export const spendRefreshToken = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	refreshToken: string
+): Promise<Result<RefreshTokenRecord>> => {
+	if (!refreshToken)
+		return {
+			error: 'Missing refresh token',
+		};
+
+	try {
+		const tokenHash = await sha256Hex(refreshToken);
+		const created = await db
+			.insert(refreshTokens)
+			.values({ token_hash: tokenHash, family_id: crypto.randomUUID(), used_at: new Date() })
+			.onConflictDoNothing()
+			.returning({ id: refreshTokens.id, family_id: refreshTokens.family_id });
+		if (created.length > 0) {
+			return { data: { ...created[0], firstUse: true } };
+		}
+
+		const existing = await db
+			.select({ id: refreshTokens.id, family_id: refreshTokens.family_id })
+			.from(refreshTokens)
+			.where(eq(refreshTokens.token_hash, tokenHash));
+		if (existing.length === 0) {
+			return {
+				error: 'Refresh token could not be recorded',
+			};
+		}
+
+		const spent = await db
+			.update(refreshTokens)
+			.set({ used_at: new Date() })
+			.where(and(eq(refreshTokens.id, existing[0].id), isNull(refreshTokens.used_at), isNull(refreshTokens.revoked_at)))
+			.returning({ id: refreshTokens.id, family_id: refreshTokens.family_id });
+		if (spent.length > 0) {
+			return { data: spent[0] };
+		}
+
+		await db
+			.update(refreshTokens)
+			.set({ revoked_at: new Date() })
+			.where(and(eq(refreshTokens.family_id, existing[0].family_id), isNull(refreshTokens.revoked_at)));
+		console.error('Refresh token reused; revoked token family', existing[0].family_id);
+		return {
+			error: 'Refresh token is invalid or expired',
+			invalidGrant: true,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Exchanges a refresh token at the token endpoint, rotating it and detecting reuse.
+ *
+ * The presented token is spent first (see spendRefreshToken), so two exchanges of one token
+ * cannot both succeed. If the token endpoint cannot be reached the token is given back, so the
+ * tool can retry; the new refresh token joins the presented token's family. A token seen for the
+ * first time is only kept once the provider accepts it, so made-up tokens leave nothing behind.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param refreshToken - Refresh token presented by the external tool
+ * @param config - OAuth client configuration (see getOAuthConfig)
+ * @param fetchFn - fetch implementation; injectable for tests
+ * @returns The new tokens, or an error; `invalidGrant` is set when the refresh token was refused
+ */
+export const exchangeRefreshToken = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	refreshToken: string,
+	config: OAuthClientConfig,
+	fetchFn: typeof fetch = fetch
+): Promise<Result<TokenSet>> => {
+	const spent = await spendRefreshToken(db, refreshToken);
+	if (spent.error || !spent.data) {
+		return {
+			error: spent.error,
+			invalidGrant: spent.invalidGrant,
+		};
+	}
+
+	const result = await refreshAccessToken(refreshToken, config, fetchFn);
+	try {
+		if (result.error || !result.data) {
+			if (spent.data.firstUse) {
+				await db.delete(refreshTokens).where(eq(refreshTokens.id, spent.data.id));
+			} else if (!result.invalidGrant) {
+				await db.update(refreshTokens).set({ used_at: null }).where(eq(refreshTokens.id, spent.data.id));
+			}
+			return result;
+		}
+
+		await db.insert(refreshTokens).values({ token_hash: await sha256Hex(result.data.refreshToken), family_id: spent.data.family_id });
+		return { data: result.data };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Records a refresh attempt from an IP address and checks it against the rate limit.
+ *
+ * Attempts older than the window are pruned as new ones arrive, so the log only ever holds one
+ * window of traffic.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param ipAddress - Client IP address (from `CF-Connecting-IP`); without one, nothing is limited
+ * @param now - Current time (defaults to now)
+ * @returns Whether the attempt is allowed, or an error if the log could not be written
+ */
+export const recordRefreshAttempt = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	ipAddress: string | null | undefined,
+	now: Date = new Date()
+): Promise<Result<{ allowed: boolean }>> => {
+	if (!ipAddress) {
+		return { data: { allowed: true } };
+	}
+
+	try {
+		const windowStart = new Date(now.getTime() - REFRESH_RATE_LIMIT_WINDOW_MINUTES * 60 * 1000);
+		const [, , [attempts]] = await db.batch([
+			db.delete(refreshAttempts).where(lt(refreshAttempts.created_at, windowStart)),
+			db.insert(refreshAttempts).values({ ip_address: ipAddress, created_at: now }),
+			db
+				.select({ count: count() })
+				.from(refreshAttempts)
+				.where(and(eq(refreshAttempts.ip_address, ipAddress), gte(refreshAttempts.created_at, windowStart))),
+		]);
+		return { data: { allowed: Number(attempts?.count ?? 0) <= MAX_REFRESH_ATTEMPTS_PER_IP } };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
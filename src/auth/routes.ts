@@ -0,0 +1,124 @@
+import { Hono } from 'hono';
+import { dbInitalizer } from '../utils/db';
+import { extractRefreshToken, getOAuthConfig } from '../utils/tokenRefresh';
+import * as authModel from './model';
+import type { Env } from '../index';
+
+/**
+ * Auth Router
+ * Token endpoints for long-lived external tools, such as a layout's dispatcher PC, that sign in
+ * once and keep their session with a refresh token. Mounted at /api/auth
+ *
+ * Routes:
+ * - POST /api/auth/refresh - Exchange a refresh token for a new access token and refresh token
+ *
+ * These routes take no Clerk session; the refresh token is the credential.
+ */
+export const authRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * Reads the refresh token from a form-encoded or JSON body, falling back to a bearer token.
+ */
+const readRefreshToken = async (c: any): Promise<string | null> => {
+	const contentType = c.req.header('content-type') || '';
+	if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+		const form = await c.req.parseBody();
+		if (typeof form['refresh_token'] === 'string' && form['refresh_token']) {
+			return form['refresh_token'];
+		}
+	} else if (contentType.includes('application/json')) {
+		const body = await c.req.json().catch(() => ({}));
+		if (typeof body?.refresh_token === 'string' && body.refresh_token) {
+			return body.refresh_token;
+		}
+	}
+
+	return extractRefreshToken(c.req.header('authorization'));
+};
+
+/**
+ * POST exchange a refresh token
+ *
+ * Refresh tokens rotate: store the returned `refresh_token` and discard the one you sent, which
+ * stops working. Sending a spent token again revokes every token from that sign-in. The returned
+ * access token is accepted by the rest of the API. Responses are never cached.
+ *
+ * @route POST /api/auth/refresh
+ * @body {string} refresh_token - The refresh token, form-encoded or JSON (or as a bearer token)
+ * @returns {object} OAuth token response: access_token, refresh_token, token_type, expires_in
+ *
+ * @example
+ * POST /api/auth/refresh
+ * Content-Type: application/x-www-form-urlencoded
+ * Body: refresh_token=rt_3f9a...
+ * Response: { access_token: "eyJhbGciOi...", refresh_token: "rt_81c2...", token_type: "Bearer", expires_in: 3600 }
+ *
+ * @throws Returns 400 if no refresh token is sent, 401 if it is invalid, expired or already used,
+ * 429 after too many attempts from one IP address, 500 if it could not be recorded, 502 if the
+ * token endpoint fails, 503 if token refresh is not configured
+ */
+authRouter.post('/refresh', async (c) => {
+	c.header('Cache-Control', 'no-store');
+
+	const config = getOAuthConfig(c.env);
+	if (config.error || !config.data) {
+		console.error('Token refresh unavailable:', config.error);
+		return c.json(
+			{
+				error: 'Token refresh is not configured',
+			},
+			503
+		);
+	}
+
+	const refreshToken = await readRefreshToken(c);
+	if (!refreshToken) {
+		return c.json(
+			{
+				error: 'Missing required field: refresh_token',
+			},
+			400
+		);
+	}
+
+	const db = dbInitalizer({ c });
+	const attempt = await authModel.recordRefreshAttempt(db, c.req.header('CF-Connecting-IP'));
+	if (attempt.error || !attempt.data) {
+		console.error('Token refresh rate limit error:', attempt.error);
+		return c.json(
+			{
+				error: 'Failed to exchange refresh token',
+			},
+			500
+		);
+	}
+	if (!attempt.data.allowed) {
+		return c.json(
+			{
+				error: 'Too many refresh attempts. Please try again later.',
+			},
+			429
+		);
+	}
+
+	const result = await authModel.exchangeRefreshToken(db, refreshToken, config.data);
+	if (result.error || !result.data) {
+		// Token endpoint failures are described in a message; anything else is a database error
+		if (typeof result.error !== 'string') {
+			console.error('Token refresh error:', result.error);
+		}
+		return c.json(
+			{
+				error: typeof result.error === 'string' ? result.error : 'Failed to exchange refresh token',
+			},
+			result.invalidGrant ? 401 : typeof result.error === 'string' ? 502 : 500
+		);
+	}
+
+	return c.json({
+		access_token: result.data.accessToken,
+		refresh_token: result.data.refreshToken,
+		token_type: result.data.tokenType,
+		expires_in: result.data.expiresIn,
+	});
+});
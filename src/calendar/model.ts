@@ -0,0 +1,282 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { appointments, calendarTokens, clubs, scheduledSessions } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { getScheduledSessionsByDateRange } from '../scheduledSessions/model';
+import { SessionOccurrence } from '../sessionSeries/model';
+import { addHours, buildCalendar, DEFAULT_TIMEZONE, IcsEvent } from '../utils/ical';
+import { formatUtcDateTime } from '../utils/rrule';
+import { sha256Hex } from '../utils/signing';
+
+/**
+ * Domain used to make event UIDs globally unique
+ */
+const UID_DOMAIN = 'locomotivehouse.com';
+
+/**
+ * Sessions have no stored length, so club feeds show them as this many hours
+ */
+export const SESSION_DURATION_HOURS = 3;
+
+/**
+ * How far back and ahead feeds reach, in days
+ */
+export const FEED_PAST_DAYS = 90;
+export const FEED_FUTURE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Generic result type for calendar operations
+ * @interface Result
+ * @property {string | any} [error] - Error message if operation failed
+ * @property {string | null} [data] - The rendered `.ics` document or calendar token
+ */
+export interface Result {
+	error?: string | any;
+	data?: string | null;
+}
+
+/**
+ * Builds the UID for a club session.
+ *
+ * Series occurrences are keyed by series and original date rather than row ID, so the UID
+ * stays the same when a generated occurrence is later stored (e.g. on first sign-up) or moved.
+ *
+ * @param session - A stored session or generated series occurrence
+ * @returns A stable UID such as `session-12@locomotivehouse.com`
+ */
+export const sessionUid = (session: SessionOccurrence): string => {
+	if (session.series_id && session.occurrence_date) {
+		return `series-${session.series_id}-${formatUtcDateTime(new Date(session.occurrence_date))}@${UID_DOMAIN}`;
+	}
+	return `session-${session.id}@${UID_DOMAIN}`;
+};
+
+/**
+ * Builds the UID for a member's appointment.
+ */
+export const appointmentUid = (appointmentId: number): string => `appointment-${appointmentId}@${UID_DOMAIN}`;
+
+/**
+ * Generates a random, URL-safe calendar token (256 bits, hex encoded).
+ */
+export const generateCalendarToken = (): string => {
+	const bytes = new Uint8Array(32);
+	crypto.getRandomValues(bytes);
+	return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Maps an appointment status to an iCalendar event status.
+ */
+const appointmentStatus = (status: string | null): IcsEvent['status'] => {
+	if (status === 'waitlisted') return 'TENTATIVE';
+	if (status === 'cancelled') return 'CANCELLED';
+	return 'CONFIRMED';
+};
+
+/**
+ * Renders the public calendar for a club's scheduled sessions
+ * @async
+ * @function getClubCalendar
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {string | number} clubId - The ID of the club
+ * @param {Date} [now] - Reference time for the feed window and DTSTAMP
+ * @returns {Promise<Result>} Result object containing the `.ics` document, or error
+ * @description Includes stored sessions and generated series occurrences from FEED_PAST_DAYS ago
+ * to FEED_FUTURE_DAYS ahead. Times are written in the club's timezone.
+ */
+export const getClubCalendar = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: string | number,
+	now: Date = new Date()
+): Promise<Result> => {
+	if (!clubId) {
+		return {
+			error: 'Missing club ID',
+		};
+	}
+
+	try {
+		const clubResult = await db
+			.select()
+			.from(clubs)
+			.where(eq(clubs.id, parseInt(clubId.toString(), 10)));
+
+		if (clubResult.length === 0) {
+			return {
+				error: 'Club not found',
+			};
+		}
+		const club = clubResult[0];
+
+		const sessions = await getScheduledSessionsByDateRange(
+			db,
+			club.id,
+			new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+			new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS)
+		);
+		if (sessions.error) {
+			return {
+				error: sessions.error,
+			};
+		}
+
+		const events: IcsEvent[] = (sessions.data || []).map((session) => {
+			const start = new Date(session.schedule);
+			return {
+				uid: sessionUid(session),
+				start,
+				end: addHours(start, SESSION_DURATION_HOURS),
+				summary: session.description || `${club.name} operating session`,
+				description: session.description ? `${club.name} operating session` : null,
+				status: 'CONFIRMED',
+			};
+		});
+
+		return {
+			data: buildCalendar({ name: `${club.name} sessions`, timezone: club.timezone, events }, now),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Renders a member's personal appointment calendar from their secret calendar token
+ * @async
+ * @function getAppointmentsCalendarByToken
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {string} token - The user's calendar token
+ * @param {Date} [now] - Reference time for the feed window and DTSTAMP
+ * @returns {Promise<Result>} Result object containing the `.ics` document, or error
+ * @description Each appointment is joined to its session for the description and to the session's
+ * club for the timezone. Waitlisted sign-ups appear as tentative and cancelled ones stay in the
+ * feed as cancelled so subscribers drop them.
+ */
+export const getAppointmentsCalendarByToken = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	token: string,
+	now: Date = new Date()
+): Promise<Result> => {
+	if (!token) {
+		return {
+			error: 'Missing calendar token',
+		};
+	}
+
+	try {
+		const userResult = await db
+			.select({ id: calendarTokens.user_id })
+			.from(calendarTokens)
+			.where(eq(calendarTokens.token_hash, await sha256Hex(token)));
+		if (userResult.length === 0) {
+			return {
+				error: 'Calendar not found',
+			};
+		}
+
+		const rows = await db
+			.select({
+				id: appointments.id,
+				schedule: appointments.schedule,
+				duration: appointments.duration,
+				role: appointments.role,
+				status: appointments.status,
+				session_schedule: scheduledSessions.schedule,
+				session_description: scheduledSessions.description,
+				club_name: clubs.name,
+				club_timezone: clubs.timezone,
+			})
+			.from(appointments)
+			.leftJoin(scheduledSessions, eq(appointments.scheduled_session_id, scheduledSessions.id))
+			.leftJoin(clubs, eq(scheduledSessions.club_id, clubs.id))
+			.where(eq(appointments.user_id, userResult[0].id));
+
+		const windowStart = now.getTime() - FEED_PAST_DAYS * DAY_MS;
+		const events: IcsEvent[] = [];
+		for (const row of rows) {
+			const schedule = row.schedule || row.session_schedule;
+			if (!schedule || new Date(schedule).getTime() < windowStart) continue;
+
+			const start = new Date(schedule);
+			const title = row.session_description || 'Operating session';
+			events.push({
+				uid: appointmentUid(row.id),
+				start,
+				end: addHours(start, row.duration || SESSION_DURATION_HOURS),
+				summary: row.role ? `${title} (${row.role.replace(/_/g, ' ')})` : title,
+				description: row.club_name,
+				status: appointmentStatus(row.status),
+				timezone: row.club_timezone || DEFAULT_TIMEZONE,
+			});
+		}
+		events.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+		return {
+			data: buildCalendar({ name: 'My Locomotive House sessions', timezone: events[0]?.timezone, events }, now),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Issues a new calendar token for a user, invalidating any previous feed URL. Only a hash of the
+ * token is stored, so it is shown once and never returned with the user.
+ * @async
+ * @function rotateCalendarToken
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {number} userId - The database ID of the user
+ * @returns {Promise<Result>} Result object containing the new token, or error
+ */
+export const rotateCalendarToken = async (db: NeonHttpDatabase<Record<string, never>>, userId: number): Promise<Result> => {
+	if (!userId) {
+		return {
+			error: 'Missing user ID',
+		};
+	}
+
+	try {
+		const token = generateCalendarToken();
+		const tokenHash = await sha256Hex(token);
+		await db
+			.insert(calendarTokens)
+			.values({ user_id: userId, token_hash: tokenHash })
+			.onConflictDoUpdate({ target: calendarTokens.user_id, set: { token_hash: tokenHash, created_at: new Date() } });
+		return { data: token };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Revokes a user's calendar token so their feed URL stops working
+ * @async
+ * @function revokeCalendarToken
+ * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
+ * @param {number} userId - The database ID of the user
+ * @returns {Promise<Result>} Result object with null data on success, or error
+ */
+export const revokeCalendarToken = async (db: NeonHttpDatabase<Record<string, never>>, userId: number): Promise<Result> => {
+	if (!userId) {
+		return {
+			error: 'Missing user ID',
+		};
+	}
+
+	try {
+		await db.delete(calendarTokens).where(eq(calendarTokens.user_id, userId));
+		return { data: null };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
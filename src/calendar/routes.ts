@@ -0,0 +1,207 @@
+import { Hono } from 'hono';
+import * as calendarModel from './model';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import type { Env } from '../index';
+
+const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/**
+ * Router for a club's public session calendar.
+ * Mounted at: /api/clubs/:clubId/scheduled-sessions.ics
+ *
+ * No authentication: calendar apps subscribe to the URL directly and cannot send tokens.
+ */
+export const clubCalendarRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * Router for personal appointment calendars.
+ * Mounted at: /api/calendar
+ *
+ * The feed itself is authorised by the secret token in its URL. Issuing or revoking
+ * that token requires the signed-in user.
+ */
+export const calendarRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * GET the club's session calendar
+ * Route: GET /api/clubs/:clubId/scheduled-sessions.ics
+ *
+ * Returns an iCalendar document with one event per stored session and generated series
+ * occurrence, written in the club's timezone.
+ *
+ * @throws Returns 404 if the club does not exist
+ */
+clubCalendarRouter.get('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await calendarModel.getClubCalendar(db, clubId);
+
+		if (result.error === 'Club not found') {
+			return c.json(
+				{
+					error: result.error,
+				},
+				404
+			);
+		}
+
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				500
+			);
+		}
+
+		return c.body(result.data || '', 200, {
+			'Content-Type': ICS_CONTENT_TYPE,
+			'Cache-Control': 'public, max-age=900',
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST issue a new calendar token for the current user
+ * Route: POST /api/calendar/token
+ *
+ * Any previous feed URL stops working.
+ *
+ * Success Response (201):
+ * ```json
+ * {
+ *   "created": true,
+ *   "token": "9f2c...",
+ *   "url": "https://api.locomotivehouse.com/api/calendar/9f2c.../appointments.ics"
+ * }
+ * ```
+ */
+calendarRouter.post('/token', checkAuth, checkUserPermission, async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const userId = c.var.userId;
+
+		const result = await calendarModel.rotateCalendarToken(db, userId);
+
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		const origin = new URL(c.req.url).origin;
+		return c.json(
+			{
+				created: true,
+				token: result.data,
+				url: `${origin}/api/calendar/${result.data}/appointments.ics`,
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * DELETE revoke the current user's calendar token
+ * Route: DELETE /api/calendar/token
+ */
+calendarRouter.delete('/token', checkAuth, checkUserPermission, async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const result = await calendarModel.revokeCalendarToken(db, c.var.userId);
+
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * GET a member's appointment calendar
+ * Route: GET /api/calendar/:token/appointments.ics
+ *
+ * @throws Returns 404 if the token is unknown or has been revoked
+ */
+calendarRouter.get('/:token/appointments.ics', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const token = c.req.param('token');
+
+		const result = await calendarModel.getAppointmentsCalendarByToken(db, token);
+
+		if (result.error === 'Calendar not found' || result.error === 'Missing calendar token') {
+			return c.json(
+				{
+					error: 'Calendar not found',
+				},
+				404
+			);
+		}
+
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				500
+			);
+		}
+
+		return c.body(result.data || '', 200, {
+			'Content-Type': ICS_CONTENT_TYPE,
+			'Cache-Control': 'private, max-age=900',
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
@@ -0,0 +1,187 @@
+/**
+ * Clerk Webhook Events
+ *
+ * Applies verified Clerk events to local data: user profiles, soft deletes, sign-ins and the
+ * memberships of clubs linked to a Clerk organization (clubs.clerk_organization_id).
+ * Events with nothing to change locally are acknowledged and ignored.
+ *
+ * @module clerkWebhooks/events
+ */
+
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { Webhook } from 'svix';
+import * as usersModel from '../users/model';
+import * as clubsModel from '../clubs/model';
+import type { Result } from './model';
+
+export interface ClerkEmailAddress {
+	id: string;
+	email_address: string;
+}
+
+/**
+ * `data` of user.created, user.updated and user.deleted (which only carries the ID)
+ */
+export interface ClerkUserData {
+	id: string;
+	first_name?: string | null;
+	last_name?: string | null;
+	email_addresses?: ClerkEmailAddress[];
+	primary_email_address_id?: string | null;
+	public_metadata?: Record<string, unknown>;
+}
+
+/**
+ * `data` of session.* events
+ */
+export interface ClerkSessionData {
+	id: string;
+	user_id: string;
+	/** Milliseconds since the epoch */
+	created_at?: number;
+}
+
+/**
+ * `data` of organization.* events
+ */
+export interface ClerkOrganizationData {
+	id: string;
+	name?: string;
+}
+
+/**
+ * `data` of organizationMembership.* events
+ */
+export interface ClerkMembershipData {
+	id: string;
+	organization: { id: string };
+	public_user_data: { user_id: string };
+}
+
+export interface ClerkEvent {
+	type: string;
+	data: any;
+}
+
+/**
+ * What handling an event did: `processed` when local data was changed, `ignored` otherwise
+ */
+export type ClerkEventOutcome = 'processed' | 'ignored';
+
+/**
+ * Checks a message's Svix signature and parses it. The payload must be the raw request body:
+ * re-serialising parsed JSON can change it and break the signature.
+ *
+ * @param secret - The endpoint's signing secret (WEBHOOK_SECRET)
+ * @param payload - The raw request body
+ * @param headers - The svix-id, svix-timestamp and svix-signature headers
+ * @returns Result object containing the event, or the verification error
+ */
+export const verifyClerkEvent = (
+	secret: string,
+	payload: string,
+	headers: { 'svix-id': string; 'svix-timestamp': string; 'svix-signature': string }
+): Result<ClerkEvent> => {
+	try {
+		return { data: new Webhook(secret).verify(payload, headers) as ClerkEvent };
+	} catch (error) {
+		return { error: error instanceof Error ? error.message : String(error) };
+	}
+};
+
+/**
+ * Maps a Clerk user to the profile fields stored locally, using the primary email address
+ *
+ * @param data - The user from a user.created or user.updated event
+ */
+export const toUserProfile = (data: ClerkUserData): usersModel.ClerkUserProfile => {
+	const primaryEmail = data.email_addresses?.find((address) => address.id === data.primary_email_address_id);
+	return {
+		token: data.id,
+		first_name: data.first_name ?? null,
+		last_name: data.last_name ?? null,
+		email: primaryEmail?.email_address ?? null,
+	};
+};
+
+const outcome = (result: { error?: unknown; data?: unknown[] | null }): Result<ClerkEventOutcome> => {
+	if (result.error) {
+		return { error: typeof result.error === 'string' ? result.error : JSON.stringify(result.error) };
+	}
+	return { data: result.data && result.data.length > 0 ? 'processed' : 'ignored' };
+};
+
+const handleMembership = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	data: ClerkMembershipData,
+	joined: boolean
+): Promise<Result<ClerkEventOutcome>> => {
+	const club = await clubsModel.getClubByOrganizationId(db, data.organization?.id);
+	if (club.error) {
+		return { error: club.error };
+	}
+	if (club.data!.length === 0) {
+		return { data: 'ignored' };
+	}
+
+	const user = await usersModel.getUser(db, data.public_user_data?.user_id);
+	if (user.error) {
+		return { error: String(user.error) };
+	}
+	if (user.data!.length === 0) {
+		// user.created may not have been processed yet; failing makes Clerk retry later
+		return { error: 'User not found' };
+	}
+	const member = user.data![0];
+	if (member.deleted_at) {
+		return { data: 'ignored' };
+	}
+
+	const result = joined
+		? await usersModel.addClubMember(db, member.id, club.data![0].id, 'organization')
+		: await usersModel.removeClubFromUser(db, String(member.id), String(club.data![0].id));
+	return outcome(result);
+};
+
+/**
+ * Applies a verified Clerk event to local data
+ *
+ * @param db - Drizzle ORM database instance
+ * @param event - The verified event
+ * @returns Result object containing what was done, or error message
+ */
+export const handleClerkEvent = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	event: ClerkEvent
+): Promise<Result<ClerkEventOutcome>> => {
+	switch (event.type) {
+		case 'user.created': {
+			const permission = event.data.public_metadata?.permission;
+			return outcome(await usersModel.syncClerkUser(db, toUserProfile(event.data), typeof permission === 'number' ? permission : null));
+		}
+		case 'user.updated':
+			return outcome(await usersModel.syncClerkUser(db, toUserProfile(event.data)));
+		case 'user.deleted':
+			return outcome(await usersModel.softDeleteUser(db, (event.data as ClerkUserData).id));
+		case 'session.created': {
+			const session = event.data as ClerkSessionData;
+			return outcome(await usersModel.recordSignIn(db, session.user_id, new Date(session.created_at ?? Date.now())));
+		}
+		case 'organization.updated': {
+			const organization = event.data as ClerkOrganizationData;
+			if (!organization.name) {
+				return { data: 'ignored' };
+			}
+			return outcome(await clubsModel.syncOrganizationClub(db, organization.id, { name: organization.name }));
+		}
+		case 'organization.deleted':
+			return outcome(await clubsModel.syncOrganizationClub(db, (event.data as ClerkOrganizationData).id, null));
+		case 'organizationMembership.created':
+			return handleMembership(db, event.data, true);
+		case 'organizationMembership.deleted':
+			return handleMembership(db, event.data, false);
+		default:
+			// e.g. session.ended, session.revoked, organization.created (clubs are linked by an admin)
+			return { data: 'ignored' };
+	}
+};
@@ -0,0 +1,54 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { eq } from 'drizzle-orm';
+import { clerkWebhookEvents } from '../db/schema';
+
+export interface Result<T> {
+	error?: string;
+	data?: T;
+}
+
+/**
+ * Records a Clerk webhook message by its svix-id so it is only processed once. Clerk resends a
+ * message with the same svix-id until it gets a 2xx response.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param svixId - The svix-id header of the message
+ * @param eventType - The event type, e.g. user.created
+ * @returns Result object containing true if this call claimed the message, false if it was already processed, or error message
+ */
+export const claimWebhookEvent = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	svixId: string,
+	eventType: string
+): Promise<Result<boolean>> => {
+	if (!svixId) {
+		return { error: 'Missing svix-id' };
+	}
+
+	try {
+		const results = await db
+			.insert(clerkWebhookEvents)
+			.values({ svix_id: svixId, event_type: eventType })
+			.onConflictDoNothing()
+			.returning();
+		return { data: results.length > 0 };
+	} catch (error) {
+		return { error: error instanceof Error ? error.message : String(error) };
+	}
+};
+
+/**
+ * Forgets a claimed message after processing failed, so Clerk's retry is processed
+ *
+ * @param db - Drizzle ORM database instance
+ * @param svixId - The svix-id header of the message
+ * @returns Result object containing true when released, or error message
+ */
+export const releaseWebhookEvent = async (db: NeonHttpDatabase<Record<string, never>>, svixId: string): Promise<Result<boolean>> => {
+	try {
+		await db.delete(clerkWebhookEvents).where(eq(clerkWebhookEvents.svix_id, svixId));
+		return { data: true };
+	} catch (error) {
+		return { error: error instanceof Error ? error.message : String(error) };
+	}
+};
@@ -0,0 +1,120 @@
+import { Hono } from 'hono';
+import { env } from 'hono/adapter';
+import * as clerkWebhooksModel from './model';
+import { handleClerkEvent, verifyClerkEvent } from './events';
+import { dbInitalizer } from '../utils/db';
+import type { Env } from '../index';
+
+/**
+ * Clerk Webhooks Router
+ * Receives Clerk's user, session and organization events, delivered by Svix.
+ * Mounted at /api/webhooks/ (with the trailing slash Clerk is configured with).
+ *
+ * Routes:
+ * - POST /api/webhooks/ - Verify and apply a Clerk event
+ *
+ * Requests are authenticated by their Svix signature (WEBHOOK_SECRET) rather than a user token.
+ */
+export const clerkWebhooksRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * POST a Clerk event
+ *
+ * The signature is checked against the raw request body, exactly as Svix signed it. Each
+ * svix-id is only processed once; a retry of a message that was already processed gets a 200
+ * with `duplicate: true`. If applying the event fails, the message is released and a 500 asks
+ * Clerk to retry it.
+ *
+ * @route POST /api/webhooks/
+ * @returns {object} received, the event type and whether local data changed
+ *
+ * @example
+ * POST /api/webhooks/
+ * Headers: svix-id, svix-timestamp, svix-signature
+ * Body: { type: "user.updated", data: { id: "user_2abc", first_name: "Ada", ... } }
+ * Response: { received: true, type: "user.updated", outcome: "processed" }
+ */
+clerkWebhooksRouter.post('/', async (c) => {
+	const { WEBHOOK_SECRET } = env<{ WEBHOOK_SECRET: string }>(c, 'workerd');
+	const db = dbInitalizer({ c });
+	const svixId = c.req.header('svix-id');
+	const svixSig = c.req.header('svix-signature');
+	const svixTime = c.req.header('svix-timestamp');
+
+	if (!WEBHOOK_SECRET) {
+		return c.json(
+			{
+				error: 'No webhook secret provided',
+			},
+			403
+		);
+	}
+	if (!svixId || !svixSig || !svixTime) {
+		return c.json(
+			{
+				error: 'No SVIX headers provided',
+			},
+			400
+		);
+	}
+
+	// Verify the body as received; re-serialising parsed JSON can change it and break the signature
+	const verified = verifyClerkEvent(WEBHOOK_SECRET, await c.req.text(), {
+		'svix-id': svixId,
+		'svix-timestamp': svixTime,
+		'svix-signature': svixSig,
+	});
+	if (verified.error) {
+		return c.json(
+			{
+				error: verified.error,
+			},
+			400
+		);
+	}
+	const event = verified.data!;
+
+	const claimed = await clerkWebhooksModel.claimWebhookEvent(db, svixId, event.type);
+	if (claimed.error) {
+		return c.json(
+			{
+				error: claimed.error,
+			},
+			500
+		);
+	}
+	if (!claimed.data) {
+		return c.json(
+			{
+				received: true,
+				type: event.type,
+				duplicate: true,
+			},
+			200
+		);
+	}
+
+	const handled = await handleClerkEvent(db, event);
+	if (handled.error) {
+		console.error(`Failed to handle Clerk ${event.type} event ${svixId}:`, handled.error);
+		const released = await clerkWebhooksModel.releaseWebhookEvent(db, svixId);
+		if (released.error) {
+			console.error('Failed to release Clerk webhook event:', released.error);
+		}
+		return c.json(
+			{
+				error: handled.error,
+			},
+			500
+		);
+	}
+
+	return c.json(
+		{
+			received: true,
+			type: event.type,
+			outcome: handled.data,
+		},
+		200
+	);
+});
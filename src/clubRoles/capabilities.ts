@@ -0,0 +1,84 @@
+/**
+ * Club Capabilities
+ *
+ * What a member may do in a club is a set of named capabilities. Route guards ask the policy
+ * (see `authorize` in utils/policy), which maps each resource and action to a capability, or
+ * ask for capabilities directly with `requireCapability`, instead of comparing role names.
+ *
+ * - Super-admins hold every capability in every club
+ * - The built-in admin role (users_to_clubs.role_permission) holds every capability
+ * - A custom club role (club_roles) holds the capabilities it bundles
+ * - Every member can file reports
+ *
+ * @module clubRoles/capabilities
+ */
+
+export const CAPABILITIES = [
+	'manage_towers',
+	'file_reports',
+	'triage_issues',
+	'manage_sessions',
+	'review_applications',
+	'manage_notices',
+	'manage_invites',
+	'manage_addresses',
+	// Club settings, members and their roles, custom roles and webhooks
+	'manage_club',
+] as const;
+export type Capability = (typeof CAPABILITIES)[number];
+
+/**
+ * Capabilities every member of a club holds
+ */
+export const MEMBER_CAPABILITIES: readonly Capability[] = ['file_reports'];
+
+export const isCapability = (value: unknown): value is Capability => CAPABILITIES.includes(value as Capability);
+
+/**
+ * Validates a list of capabilities for a custom role
+ *
+ * @param capabilities - The capabilities from the request
+ * @returns An error message, or null if the list is valid
+ */
+export const validateCapabilities = (capabilities: unknown): string | null => {
+	if (!Array.isArray(capabilities) || capabilities.length === 0) {
+		return `capabilities must be a non-empty array of: ${CAPABILITIES.join(', ')}`;
+	}
+	const unknown = capabilities.find((capability) => !isCapability(capability));
+	if (unknown !== undefined) {
+		return `Unknown capability: ${unknown}`;
+	}
+	return null;
+};
+
+/**
+ * Parses the stored comma-separated capabilities of a custom role, dropping unknown ones
+ */
+export const parseCapabilities = (stored: string | null | undefined): Capability[] => {
+	return (stored ?? '').split(',').filter(isCapability);
+};
+
+/**
+ * Works out a user's capabilities in a club
+ *
+ * @param access.isSuperAdmin - Whether the user is a super-admin
+ * @param access.isMember - Whether the user belongs to the club
+ * @param access.isAdmin - Whether their built-in club role is an admin role
+ * @param access.customCapabilities - Capabilities of their custom club role, if any
+ * @returns The capabilities, in CAPABILITIES order
+ */
+export const capabilitiesFor = (access: {
+	isSuperAdmin: boolean;
+	isMember: boolean;
+	isAdmin: boolean;
+	customCapabilities?: readonly Capability[];
+}): Capability[] => {
+	if (access.isSuperAdmin || (access.isMember && access.isAdmin)) {
+		return [...CAPABILITIES];
+	}
+	if (!access.isMember) {
+		return [];
+	}
+	const held = new Set<Capability>([...MEMBER_CAPABILITIES, ...(access.customCapabilities ?? [])]);
+	return CAPABILITIES.filter((capability) => held.has(capability));
+};
@@ -0,0 +1,239 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { and, asc, eq } from 'drizzle-orm';
+import { clubRoles, usersToClubs } from '../db/schema';
+import { Capability, parseCapabilities } from './capabilities';
+
+/**
+ * A custom role defined by a club, bundling capabilities
+ */
+export interface ClubRole {
+	id: number;
+	club_id: number;
+	name: string;
+	capabilities: Capability[];
+	created_at: Date;
+	updated_at: Date;
+}
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+type ClubRoleRow = typeof clubRoles.$inferSelect;
+
+const toClubRole = (row: ClubRoleRow): ClubRole => ({
+	id: row.id,
+	club_id: row.club_id,
+	name: row.name,
+	capabilities: parseCapabilities(row.capabilities),
+	created_at: row.created_at,
+	updated_at: row.updated_at,
+});
+
+/**
+ * Retrieves a club's custom roles.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @returns Result object containing the roles, or error message
+ */
+export const getClubRoles = async (db: NeonHttpDatabase<Record<string, never>>, clubId: number): Promise<Result<ClubRole[]>> => {
+	try {
+		const rows = await db.select().from(clubRoles).where(eq(clubRoles.club_id, clubId)).orderBy(asc(clubRoles.name));
+		return {
+			data: rows.map(toClubRole),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves one of a club's custom roles.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The role ID
+ * @returns Result object containing the role, or null if it is not in the club
+ */
+export const getClubRoleById = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number
+): Promise<Result<ClubRole | null>> => {
+	try {
+		const rows = await db
+			.select()
+			.from(clubRoles)
+			.where(and(eq(clubRoles.id, id), eq(clubRoles.club_id, clubId)));
+		return {
+			data: rows[0] ? toClubRole(rows[0]) : null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Creates a custom role for a club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param data - Club, role name and capabilities
+ * @returns Result object containing the role, or an error if the club already has a role with that name
+ */
+export const createClubRole = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	data: { club_id: number; name: string; capabilities: Capability[] }
+): Promise<Result<ClubRole>> => {
+	try {
+		const rows = await db
+			.insert(clubRoles)
+			.values({
+				club_id: data.club_id,
+				name: data.name,
+				capabilities: [...new Set(data.capabilities)].join(','),
+			})
+			.onConflictDoNothing()
+			.returning();
+
+		if (rows.length === 0) {
+			return {
+				error: `A role named ${data.name} already exists in this club`,
+			};
+		}
+
+		return {
+			data: toClubRole(rows[0]),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Updates a club's custom role. Members holding it get the new capabilities on their next request.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The role ID
+ * @param changes - New name or capabilities
+ * @returns Result object containing the updated role, or null if it is not in the club
+ */
+export const updateClubRole = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number,
+	changes: { name?: string; capabilities?: Capability[] }
+): Promise<Result<ClubRole | null>> => {
+	try {
+		const rows = await db
+			.update(clubRoles)
+			.set({
+				name: changes.name,
+				capabilities: changes.capabilities ? [...new Set(changes.capabilities)].join(',') : undefined,
+				updated_at: new Date(),
+			})
+			.where(and(eq(clubRoles.id, id), eq(clubRoles.club_id, clubId)))
+			.returning();
+		return {
+			data: rows[0] ? toClubRole(rows[0]) : null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Deletes a club's custom role. Members who held it keep their membership and built-in role.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The role ID
+ * @returns Result object containing the deleted role, or null if it is not in the club
+ */
+export const deleteClubRole = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number
+): Promise<Result<ClubRole | null>> => {
+	try {
+		const rows = await db
+			.delete(clubRoles)
+			.where(and(eq(clubRoles.id, id), eq(clubRoles.club_id, clubId)))
+			.returning();
+		return {
+			data: rows[0] ? toClubRole(rows[0]) : null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Gives a member one of the club's custom roles, or takes it away. Their built-in role is unaffected.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param userId - Database user ID
+ * @param clubId - Club ID
+ * @param clubRoleId - ID of one of the club's custom roles, or null to remove it
+ * @returns Result object containing the updated membership, or error message
+ */
+export const setMemberClubRole = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	userId: number,
+	clubId: number,
+	clubRoleId: number | null
+): Promise<Result<(typeof usersToClubs.$inferSelect)[]>> => {
+	if (!userId || !clubId) {
+		return {
+			error: 'Missing user ID or club ID',
+		};
+	}
+
+	try {
+		if (clubRoleId !== null) {
+			const role = await getClubRoleById(db, clubId, clubRoleId);
+			if (role.error) {
+				return {
+					error: role.error,
+				};
+			}
+			if (!role.data) {
+				return {
+					error: 'Club role not found',
+				};
+			}
+		}
+
+		const results = await db
+			.update(usersToClubs)
+			.set({ club_role_id: clubRoleId })
+			.where(and(eq(usersToClubs.user_id, userId), eq(usersToClubs.club_id, clubId)))
+			.returning();
+
+		if (results.length === 0) {
+			return {
+				error: 'User is not a member of this club',
+			};
+		}
+
+		return {
+			data: results,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,268 @@
+import { Hono } from 'hono';
+import * as clubRolesModel from './model';
+import { validateCapabilities } from './capabilities';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Club Roles Router
+ * Lets clubs define custom roles that bundle capabilities. Members are given a custom role with
+ * PUT /api/clubs/:clubId/users/:userId. Nested under club: /api/clubs/:clubId/roles
+ *
+ * Routes:
+ * - GET    /api/clubs/:clubId/roles - List the club's custom roles
+ * - POST   /api/clubs/:clubId/roles - Create a role
+ * - PUT    /api/clubs/:clubId/roles/:id - Rename a role or change its capabilities
+ * - DELETE /api/clubs/:clubId/roles/:id - Delete a role; its members keep their built-in role
+ *
+ * All routes require authentication and club membership; changes require the manage_club capability.
+ */
+export const clubRolesRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * GET the club's custom roles
+ *
+ * @route GET /api/clubs/:clubId/roles
+ * @returns {object} Object containing the roles, by name
+ *
+ * @example
+ * GET /api/clubs/1/roles
+ * Response: { result: [{ id: 2, name: "Session coordinator", capabilities: ["manage_sessions", "manage_notices"], ... }] }
+ */
+clubRolesRouter.get('/', checkAuth, checkUserPermission, authorize('clubRole', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await clubRolesModel.getClubRoles(db, parseInt(clubId, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST create a custom role
+ *
+ * @route POST /api/clubs/:clubId/roles
+ * @body {string} name - Role name, unique within the club (required)
+ * @body {string[]} capabilities - Capabilities the role grants (required)
+ * @returns {object} Object with created flag and the role
+ *
+ * @example
+ * POST /api/clubs/1/roles
+ * Body: { name: "Session coordinator", capabilities: ["manage_sessions", "manage_notices"] }
+ * Response: { created: true, role: { id: 2, name: "Session coordinator", ... } }
+ */
+clubRolesRouter.post('/', checkAuth, checkUserPermission, authorize('clubRole', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+		const name = typeof data.name === 'string' ? data.name.trim() : '';
+		const invalid = (!name && 'Missing required field: name') || validateCapabilities(data.capabilities);
+		if (invalid) {
+			return c.json(
+				{
+					error: invalid,
+				},
+				400
+			);
+		}
+
+		const result = await clubRolesModel.createClubRole(db, {
+			club_id: parseInt(clubId, 10),
+			name,
+			capabilities: data.capabilities,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				role: result.data,
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * PUT update a custom role
+ *
+ * Members holding the role get the new capabilities on their next request.
+ *
+ * @route PUT /api/clubs/:clubId/roles/:id
+ * @body {string} [name] - New name
+ * @body {string[]} [capabilities] - New capabilities (replaces the old list)
+ * @returns {object} Object with updated flag and the role
+ *
+ * @example
+ * PUT /api/clubs/1/roles/2
+ * Body: { capabilities: ["manage_sessions"] }
+ * Response: { updated: true, role: { id: 2, capabilities: ["manage_sessions"], ... } }
+ */
+clubRolesRouter.put('/:id', checkAuth, checkUserPermission, authorize('clubRole', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const id = c.req.param('id');
+		if (!clubId || !id) {
+			return c.json(
+				{
+					error: 'Missing club ID or role ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+		const name = typeof data.name === 'string' ? data.name.trim() : data.name;
+		const invalid =
+			(name !== undefined && !name && 'name cannot be empty') ||
+			(data.capabilities !== undefined && validateCapabilities(data.capabilities));
+		if (invalid) {
+			return c.json(
+				{
+					error: invalid,
+				},
+				400
+			);
+		}
+
+		const result = await clubRolesModel.updateClubRole(db, parseInt(clubId, 10), parseInt(id, 10), {
+			name,
+			capabilities: data.capabilities,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		if (!result.data) {
+			return c.json(
+				{
+					error: 'Role not found in this club',
+				},
+				404
+			);
+		}
+
+		return c.json({
+			updated: true,
+			role: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * DELETE a custom role
+ *
+ * Members who held it lose its capabilities but stay in the club with their built-in role.
+ *
+ * @route DELETE /api/clubs/:clubId/roles/:id
+ * @returns {object} Object with deleted flag
+ */
+clubRolesRouter.delete('/:id', checkAuth, checkUserPermission, authorize('clubRole', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const id = c.req.param('id');
+		if (!clubId || !id) {
+			return c.json(
+				{
+					error: 'Missing club ID or role ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await clubRolesModel.deleteClubRole(db, parseInt(clubId, 10), parseInt(id, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		if (!result.data) {
+			return c.json(
+				{
+					error: 'Role not found in this club',
+				},
+				404
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
@@ -0,0 +1,197 @@
+/**
+ * Club Webhook Delivery
+ *
+ * Sends queued club events to webhook endpoints. Each request is signed with the endpoint's
+ * secret; failed deliveries are retried with exponential backoff until MAX_WEBHOOK_ATTEMPTS,
+ * then marked failed and left in the delivery log for a manual redeliver.
+ *
+ * @module clubWebhooks/delivery
+ */
+
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import * as clubWebhooksModel from './model';
+import { BackoffOptions, nextAttemptAt } from '../utils/backoff';
+import { hmacSha256Hex } from '../utils/signing';
+
+/**
+ * Backoff between attempts: about 30 seconds after the first failure, doubling up to an hour
+ */
+export const WEBHOOK_RETRY_BACKOFF: BackoffOptions = {
+	baseMs: 30 * 1000,
+	maxMs: 60 * 60 * 1000,
+};
+
+/**
+ * Attempts before a delivery is marked failed (a few hours of retries)
+ */
+export const MAX_WEBHOOK_ATTEMPTS = 10;
+
+/**
+ * How long an endpoint has to respond before the attempt counts as failed
+ */
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * How long a claimed delivery is held before another run may send it
+ */
+export const WEBHOOK_LEASE_SECONDS = 60;
+
+const RESPONSE_BODY_LIMIT = 1000;
+
+export const SIGNATURE_HEADER = 'X-LH-Signature';
+
+export interface WebhookDeliveryOptions {
+	/** fetch implementation; injectable for tests */
+	fetchFn?: typeof fetch;
+	now?: Date;
+}
+
+export interface WebhookDeliverySummary {
+	delivered: number;
+	/** Failed attempts that will be retried */
+	retrying: number;
+	/** Deliveries that used up their attempts */
+	failed: number;
+}
+
+/**
+ * Signs a webhook body. Receivers recompute the HMAC-SHA256 of `<timestamp>.<body>` with their
+ * secret, compare it to the X-LH-Signature header and reject old timestamps to stop replays.
+ *
+ * @param secret - The endpoint's signing secret
+ * @param timestamp - Unix seconds, sent as X-LH-Timestamp
+ * @param body - The exact JSON body sent
+ * @returns The signature header value, `sha256=<hex>`
+ */
+export const signWebhookPayload = async (secret: string, timestamp: number, body: string): Promise<string> => {
+	return `sha256=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+};
+
+/**
+ * Makes one delivery attempt and records the outcome.
+ *
+ * A 2xx response marks the delivery delivered. Anything else, including a timeout or network
+ * error, schedules a retry with backoff, or marks the delivery failed once it has used up its
+ * attempts.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param webhook - The endpoint, with its secret
+ * @param delivery - The delivery to send
+ * @param options - fetch implementation and clock
+ * @returns Result object containing the updated delivery, or error message
+ */
+export const attemptDelivery = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	webhook: clubWebhooksModel.DueDelivery['webhook'],
+	delivery: clubWebhooksModel.ClubWebhookDelivery,
+	options: WebhookDeliveryOptions = {}
+): Promise<clubWebhooksModel.Result<clubWebhooksModel.ClubWebhookDelivery | null>> => {
+	const fetchFn = options.fetchFn ?? fetch;
+	const now = options.now ?? new Date();
+	const attempts = delivery.attempts + 1;
+	const timestamp = Math.floor(now.getTime() / 1000);
+
+	let responseStatus: number | null = null;
+	let responseBody: string | null = null;
+	let error: string | null = null;
+	try {
+		const response = await fetchFn(webhook.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'LocomotiveHouse-Webhooks/1.0',
+				'X-LH-Event': delivery.event_type,
+				'X-LH-Delivery': delivery.event_id,
+				'X-LH-Timestamp': String(timestamp),
+				[SIGNATURE_HEADER]: await signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+			},
+			body: delivery.payload,
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+		});
+		responseStatus = response.status;
+		responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT) || null;
+		if (!response.ok) {
+			error = `Endpoint responded with ${response.status}`;
+		}
+	} catch (sendError) {
+		error = sendError instanceof Error ? sendError.message : String(sendError);
+	}
+
+	return clubWebhooksModel.recordDeliveryAttempt(db, delivery.id, {
+		status: !error ? 'delivered' : attempts >= MAX_WEBHOOK_ATTEMPTS ? 'failed' : 'pending',
+		attempts,
+		next_attempt_at: !error || attempts >= MAX_WEBHOOK_ATTEMPTS ? now : nextAttemptAt(attempts, WEBHOOK_RETRY_BACKOFF, now),
+		response_status: responseStatus,
+		response_body: responseBody,
+		last_error: error,
+		delivered_at: !error ? now : null,
+	});
+};
+
+/**
+ * Sends the deliveries that are due.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param options - fetch implementation, clock and maximum deliveries per run (default 50)
+ * @returns Result object with counts of delivered, retrying and failed deliveries, or error message
+ */
+export const deliverPendingWebhooks = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	options: WebhookDeliveryOptions & { limit?: number } = {}
+): Promise<clubWebhooksModel.Result<WebhookDeliverySummary>> => {
+	const now = options.now ?? new Date();
+	const summary: WebhookDeliverySummary = { delivered: 0, retrying: 0, failed: 0 };
+
+	const due = await clubWebhooksModel.getDueDeliveries(db, now, options.limit ?? 50);
+	if (due.error) {
+		return { error: due.error };
+	}
+
+	const leaseUntil = new Date(now.getTime() + WEBHOOK_LEASE_SECONDS * 1000);
+	for (const { delivery, webhook } of due.data!) {
+		const claim = await clubWebhooksModel.claimDelivery(db, delivery.id, now, leaseUntil);
+		if (claim.error) {
+			return { error: claim.error };
+		}
+		if (!claim.data) {
+			// Another run got there first
+			continue;
+		}
+
+		const result = await attemptDelivery(db, webhook, delivery, { ...options, now });
+		if (result.error || !result.data) {
+			console.error(`Failed to record webhook delivery ${delivery.id}:`, result.error);
+			continue;
+		}
+		if (result.data.status === 'delivered') {
+			summary.delivered++;
+		} else if (result.data.status === 'failed') {
+			summary.failed++;
+		} else {
+			summary.retrying++;
+		}
+	}
+
+	return { data: summary };
+};
+
+/**
+ * Sends a delivery again straight away, for the delivery log's redeliver action. The attempt
+ * count starts over, so a delivery that fails again is retried on the usual schedule.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param delivery - The delivery to send
+ * @param options - fetch implementation and clock
+ * @returns Result object containing the updated delivery, or error message
+ */
+export const redeliver = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	delivery: clubWebhooksModel.ClubWebhookDelivery,
+	options: WebhookDeliveryOptions = {}
+): Promise<clubWebhooksModel.Result<clubWebhooksModel.ClubWebhookDelivery | null>> => {
+	const webhook = await clubWebhooksModel.getWebhookForDelivery(db, delivery.webhook_id);
+	if (webhook.error || !webhook.data) {
+		return { error: webhook.error || 'Webhook not found' };
+	}
+	return attemptDelivery(db, webhook.data, { ...delivery, attempts: 0 }, options);
+};
@@ -0,0 +1,72 @@
+/**
+ * Club Webhook Events
+ *
+ * Turns club activity into webhook deliveries. Routes call `emitClubEvent` after a change is
+ * stored; one delivery is queued per active endpoint subscribed to the event, and the Cron
+ * Trigger sends them (see ./delivery).
+ *
+ * @module clubWebhooks/events
+ */
+
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import * as clubWebhooksModel from './model';
+
+/**
+ * The JSON body sent to endpoints
+ */
+export interface ClubEventPayload {
+	/** Event ID, shared by the deliveries of this event to each endpoint */
+	id: string;
+	type: clubWebhooksModel.ClubWebhookEvent;
+	club_id: number;
+	created_at: string;
+	data: Record<string, unknown>;
+}
+
+/**
+ * Queues deliveries of a club event to the club's subscribed endpoints.
+ *
+ * Callers should log rather than return an error from this, so a webhook problem never fails
+ * the change that raised the event.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club the event happened in
+ * @param type - The event type
+ * @param data - Event details, e.g. the created record
+ * @param now - Event time; injectable for tests
+ * @returns Result object containing the number of deliveries queued, or error message
+ */
+export const emitClubEvent = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	type: clubWebhooksModel.ClubWebhookEvent,
+	data: Record<string, unknown>,
+	now: Date = new Date()
+): Promise<clubWebhooksModel.Result<number>> => {
+	const webhookIds = await clubWebhooksModel.getSubscribedWebhookIds(db, clubId, type);
+	if (webhookIds.error) {
+		return { error: webhookIds.error };
+	}
+	if (webhookIds.data!.length === 0) {
+		return { data: 0 };
+	}
+
+	const payload: ClubEventPayload = {
+		id: `evt_${crypto.randomUUID()}`,
+		type,
+		club_id: clubId,
+		created_at: now.toISOString(),
+		data,
+	};
+	const body = JSON.stringify(payload);
+
+	const created = await clubWebhooksModel.createDeliveries(
+		db,
+		webhookIds.data!.map((webhookId) => ({ webhook_id: webhookId, event_id: payload.id, event_type: type, payload: body }))
+	);
+	if (created.error) {
+		return { error: created.error };
+	}
+
+	return { data: created.data!.length };
+};
@@ -0,0 +1,526 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { and, asc, desc, eq, lte } from 'drizzle-orm';
+import { clubWebhookDeliveries, clubWebhooks } from '../db/schema';
+
+/**
+ * Club events an endpoint can subscribe to
+ */
+export const CLUB_WEBHOOK_EVENTS = [
+	'issue.created',
+	'issue.status_changed',
+	'notice.published',
+	'session.created',
+	'application.submitted',
+	'member.joined',
+] as const;
+export type ClubWebhookEvent = (typeof CLUB_WEBHOOK_EVENTS)[number];
+
+export const DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+/**
+ * An outbound webhook endpoint registered by a club. The signing secret is only returned when
+ * the endpoint is created.
+ */
+export interface ClubWebhook {
+	id: number;
+	club_id: number;
+	url: string;
+	description: string | null;
+	events: ClubWebhookEvent[];
+	active: boolean;
+	created_by: number | null;
+	created_at: Date;
+	updated_at: Date;
+}
+
+/**
+ * One attempt-tracked delivery of an event to an endpoint
+ */
+export interface ClubWebhookDelivery {
+	id: number;
+	webhook_id: number;
+	event_id: string;
+	event_type: string;
+	payload: string;
+	status: string;
+	attempts: number;
+	next_attempt_at: Date;
+	response_status: number | null;
+	response_body: string | null;
+	last_error: string | null;
+	delivered_at: Date | null;
+	created_at: Date;
+	updated_at: Date;
+}
+
+/**
+ * A due delivery with the endpoint it goes to
+ */
+export interface DueDelivery {
+	delivery: ClubWebhookDelivery;
+	webhook: { id: number; url: string; secret: string };
+}
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+type WebhookRow = typeof clubWebhooks.$inferSelect;
+
+export const isClubWebhookEvent = (value: unknown): value is ClubWebhookEvent => {
+	return typeof value === 'string' && (CLUB_WEBHOOK_EVENTS as readonly string[]).includes(value);
+};
+
+export const isDeliveryStatus = (value: unknown): value is DeliveryStatus => {
+	return typeof value === 'string' && (DELIVERY_STATUSES as readonly string[]).includes(value);
+};
+
+/**
+ * Checks a list of event types from a request.
+ *
+ * @returns Error message, or null if the list is a non-empty array of known events
+ */
+export const validateEvents = (events: unknown): string | null => {
+	if (!Array.isArray(events) || events.length === 0) {
+		return `events must be a non-empty array of: ${CLUB_WEBHOOK_EVENTS.join(', ')}`;
+	}
+	const unknown = events.find((event) => !isClubWebhookEvent(event));
+	if (unknown !== undefined) {
+		return `Unknown event type: ${unknown}`;
+	}
+	return null;
+};
+
+/**
+ * Checks an endpoint URL. Endpoints must use HTTPS so payloads and signatures are not sent in
+ * the clear.
+ *
+ * @returns Error message, or null if the URL is acceptable
+ */
+export const validateWebhookUrl = (url: unknown): string | null => {
+	if (typeof url !== 'string' || !url) {
+		return 'Missing required field: url';
+	}
+	try {
+		if (new URL(url).protocol !== 'https:') {
+			return 'Webhook URL must use https';
+		}
+	} catch {
+		return 'Invalid webhook URL';
+	}
+	return null;
+};
+
+/**
+ * Generates a signing secret for a new endpoint.
+ */
+export const generateWebhookSecret = (): string => {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const toWebhook = (row: WebhookRow): ClubWebhook => ({
+	id: row.id,
+	club_id: row.club_id,
+	url: row.url,
+	description: row.description,
+	events: row.events.split(',').filter(isClubWebhookEvent),
+	active: row.active,
+	created_by: row.created_by,
+	created_at: row.created_at,
+	updated_at: row.updated_at,
+});
+
+/**
+ * Retrieves a club's webhook endpoints, without their secrets.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @returns Result object containing the endpoints, or error message
+ */
+export const getClubWebhooks = async (db: NeonHttpDatabase<Record<string, never>>, clubId: number): Promise<Result<ClubWebhook[]>> => {
+	try {
+		const rows = await db.select().from(clubWebhooks).where(eq(clubWebhooks.club_id, clubId)).orderBy(asc(clubWebhooks.id));
+		return {
+			data: rows.map(toWebhook),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves one of a club's webhook endpoints, without its secret.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The endpoint ID
+ * @returns Result object containing the endpoint, or null if it is not in the club
+ */
+export const getClubWebhookById = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number
+): Promise<Result<ClubWebhook | null>> => {
+	try {
+		const rows = await db
+			.select()
+			.from(clubWebhooks)
+			.where(and(eq(clubWebhooks.id, id), eq(clubWebhooks.club_id, clubId)));
+		return {
+			data: rows[0] ? toWebhook(rows[0]) : null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Registers a webhook endpoint for a club with a new signing secret.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param data - Club, URL, subscribed events, optional description and creator
+ * @returns Result object containing the endpoint and its secret, or error message
+ */
+export const createClubWebhook = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	data: { club_id: number; url: string; events: ClubWebhookEvent[]; description?: string | null; created_by?: number | null }
+): Promise<Result<ClubWebhook & { secret: string }>> => {
+	try {
+		const secret = generateWebhookSecret();
+		const rows = await db
+			.insert(clubWebhooks)
+			.values({
+				club_id: data.club_id,
+				url: data.url,
+				description: data.description || null,
+				secret,
+				events: [...new Set(data.events)].join(','),
+				created_by: data.created_by || null,
+			})
+			.returning();
+
+		return {
+			data: { ...toWebhook(rows[0]), secret },
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Updates a club's webhook endpoint.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The endpoint ID
+ * @param changes - New URL, events, description or active flag
+ * @returns Result object containing the updated endpoint, or null if it is not in the club
+ */
+export const updateClubWebhook = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number,
+	changes: { url?: string; events?: ClubWebhookEvent[]; description?: string | null; active?: boolean }
+): Promise<Result<ClubWebhook | null>> => {
+	try {
+		const rows = await db
+			.update(clubWebhooks)
+			.set({
+				url: changes.url,
+				events: changes.events ? [...new Set(changes.events)].join(',') : undefined,
+				description: changes.description,
+				active: changes.active,
+				updated_at: new Date(),
+			})
+			.where(and(eq(clubWebhooks.id, id), eq(clubWebhooks.club_id, clubId)))
+			.returning();
+
+		return {
+			data: rows[0] ? toWebhook(rows[0]) : null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Deletes a club's webhook endpoint and its delivery log.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param id - The endpoint ID
+ * @returns Result object containing true if the endpoint was deleted, false if it is not in the club
+ */
+export const deleteClubWebhook = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	id: number
+): Promise<Result<boolean>> => {
+	try {
+		const rows = await db
+			.delete(clubWebhooks)
+			.where(and(eq(clubWebhooks.id, id), eq(clubWebhooks.club_id, clubId)))
+			.returning({ id: clubWebhooks.id });
+		return {
+			data: rows.length > 0,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves the active endpoints of a club subscribed to an event.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param event - The event type
+ * @returns Result object containing the endpoint IDs, or error message
+ */
+export const getSubscribedWebhookIds = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	event: ClubWebhookEvent
+): Promise<Result<number[]>> => {
+	try {
+		const rows = await db
+			.select({ id: clubWebhooks.id, events: clubWebhooks.events })
+			.from(clubWebhooks)
+			.where(and(eq(clubWebhooks.club_id, clubId), eq(clubWebhooks.active, true)));
+		return {
+			data: rows.filter((row) => row.events.split(',').includes(event)).map((row) => row.id),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Queues deliveries of an event.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param deliveries - One row per endpoint, with the event ID, type and JSON payload
+ * @returns Result object containing the queued deliveries, or error message
+ */
+export const createDeliveries = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	deliveries: { webhook_id: number; event_id: string; event_type: string; payload: string }[]
+): Promise<Result<ClubWebhookDelivery[]>> => {
+	if (deliveries.length === 0) {
+		return {
+			data: [],
+		};
+	}
+
+	try {
+		const rows = await db.insert(clubWebhookDeliveries).values(deliveries).returning();
+		return {
+			data: rows,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves an endpoint's delivery log, newest first.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param webhookId - The endpoint ID
+ * @param filters - Optional status and maximum number of deliveries (default 50)
+ * @returns Result object containing the deliveries, or error message
+ */
+export const getDeliveries = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	webhookId: number,
+	filters: { status?: DeliveryStatus; limit?: number } = {}
+): Promise<Result<ClubWebhookDelivery[]>> => {
+	try {
+		const rows = await db
+			.select()
+			.from(clubWebhookDeliveries)
+			.where(
+				and(eq(clubWebhookDeliveries.webhook_id, webhookId), filters.status ? eq(clubWebhookDeliveries.status, filters.status) : undefined)
+			)
+			.orderBy(desc(clubWebhookDeliveries.created_at))
+			.limit(filters.limit ?? 50);
+		return {
+			data: rows,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves one delivery of an endpoint.
+ *
+ * @returns Result object containing the delivery, or null if it does not belong to the endpoint
+ */
+export const getDeliveryById = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	webhookId: number,
+	id: number
+): Promise<Result<ClubWebhookDelivery | null>> => {
+	try {
+		const rows = await db
+			.select()
+			.from(clubWebhookDeliveries)
+			.where(and(eq(clubWebhookDeliveries.id, id), eq(clubWebhookDeliveries.webhook_id, webhookId)));
+		return {
+			data: rows[0] || null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves the endpoint a delivery goes to, with its secret, for sending.
+ */
+export const getWebhookForDelivery = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	webhookId: number
+): Promise<Result<DueDelivery['webhook'] | null>> => {
+	try {
+		const rows = await db
+			.select({ id: clubWebhooks.id, url: clubWebhooks.url, secret: clubWebhooks.secret })
+			.from(clubWebhooks)
+			.where(eq(clubWebhooks.id, webhookId));
+		return {
+			data: rows[0] || null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves pending deliveries to active endpoints that are due an attempt, oldest first.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param now - The current time
+ * @param limit - Maximum number of deliveries
+ * @returns Result object containing the deliveries and their endpoints, or error message
+ */
+export const getDueDeliveries = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	now: Date,
+	limit: number
+): Promise<Result<DueDelivery[]>> => {
+	try {
+		const rows = await db
+			.select({
+				delivery: clubWebhookDeliveries,
+				webhook: { id: clubWebhooks.id, url: clubWebhooks.url, secret: clubWebhooks.secret },
+			})
+			.from(clubWebhookDeliveries)
+			.innerJoin(clubWebhooks, eq(clubWebhookDeliveries.webhook_id, clubWebhooks.id))
+			.where(
+				and(eq(clubWebhookDeliveries.status, 'pending'), lte(clubWebhookDeliveries.next_attempt_at, now), eq(clubWebhooks.active, true))
+			)
+			.orderBy(asc(clubWebhookDeliveries.next_attempt_at))
+			.limit(limit);
+		return {
+			data: rows,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Claims a due delivery by pushing its next attempt past the lease, so concurrent runs skip it
+ * and a run that dies mid-send leaves it to be tried again once the lease ends.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - The delivery ID
+ * @param now - The current time
+ * @param leaseUntil - When another run may pick the delivery up
+ * @returns Result object containing true if this run claimed the delivery
+ */
+export const claimDelivery = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: number,
+	now: Date,
+	leaseUntil: Date
+): Promise<Result<boolean>> => {
+	try {
+		const rows = await db
+			.update(clubWebhookDeliveries)
+			.set({ next_attempt_at: leaseUntil })
+			.where(
+				and(eq(clubWebhookDeliveries.id, id), eq(clubWebhookDeliveries.status, 'pending'), lte(clubWebhookDeliveries.next_attempt_at, now))
+			)
+			.returning({ id: clubWebhookDeliveries.id });
+		return {
+			data: rows.length > 0,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Records the outcome of a delivery attempt.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - The delivery ID
+ * @param outcome - New status, attempt count, response and next attempt time
+ * @returns Result object containing the updated delivery, or error message
+ */
+export const recordDeliveryAttempt = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: number,
+	outcome: {
+		status: DeliveryStatus;
+		attempts: number;
+		next_attempt_at: Date;
+		response_status: number | null;
+		response_body: string | null;
+		last_error: string | null;
+		delivered_at: Date | null;
+	}
+): Promise<Result<ClubWebhookDelivery | null>> => {
+	try {
+		const rows = await db
+			.update(clubWebhookDeliveries)
+			.set({ ...outcome, updated_at: new Date() })
+			.where(eq(clubWebhookDeliveries.id, id))
+			.returning();
+		return {
+			data: rows[0] || null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,446 @@
+import { Hono } from 'hono';
+import * as clubWebhooksModel from './model';
+import { redeliver } from './delivery';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Club Webhooks Router
+ * Lets club managers register outbound webhook endpoints for club events and inspect their
+ * deliveries. Nested under club: /api/clubs/:clubId/webhooks
+ *
+ * Routes:
+ * - GET    /api/clubs/:clubId/webhooks - List the club's endpoints
+ * - POST   /api/clubs/:clubId/webhooks - Register an endpoint (returns its signing secret once)
+ * - PUT    /api/clubs/:clubId/webhooks/:id - Update an endpoint
+ * - DELETE /api/clubs/:clubId/webhooks/:id - Delete an endpoint and its delivery log
+ * - GET    /api/clubs/:clubId/webhooks/:id/deliveries - Delivery log, newest first
+ * - POST   /api/clubs/:clubId/webhooks/:id/deliveries/:deliveryId/redeliver - Send a delivery again now
+ *
+ * All routes require authentication and the manage_club capability.
+ */
+export const clubWebhooksRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * GET the club's webhook endpoints
+ *
+ * @route GET /api/clubs/:clubId/webhooks
+ * @returns {object} Object containing the endpoints, without their secrets
+ *
+ * @example
+ * GET /api/clubs/1/webhooks
+ * Response: { result: [{ id: 3, url: "https://bot.example.com/hooks", events: ["issue.created"], active: true, ... }] }
+ */
+clubWebhooksRouter.get('/', checkAuth, checkUserPermission, authorize('webhook', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await clubWebhooksModel.getClubWebhooks(db, parseInt(clubId, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST register a webhook endpoint
+ *
+ * The response includes the endpoint's signing secret. It is not shown again; receivers use it
+ * to verify the X-LH-Signature header of each delivery.
+ *
+ * @route POST /api/clubs/:clubId/webhooks
+ * @body {string} url - HTTPS URL to deliver events to (required)
+ * @body {string[]} events - Event types to subscribe to (required)
+ * @body {string} [description] - What the endpoint is for
+ * @returns {object} Object with created flag and the endpoint, including its secret
+ *
+ * @example
+ * POST /api/clubs/1/webhooks
+ * Body: { url: "https://bot.example.com/hooks", events: ["issue.created", "member.joined"], description: "Discord bot" }
+ * Response: { created: true, webhook: { id: 3, secret: "whsec_...", ... } }
+ */
+clubWebhooksRouter.post('/', checkAuth, checkUserPermission, authorize('webhook', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+		const invalid = clubWebhooksModel.validateWebhookUrl(data.url) || clubWebhooksModel.validateEvents(data.events);
+		if (invalid) {
+			return c.json(
+				{
+					error: invalid,
+				},
+				400
+			);
+		}
+
+		const result = await clubWebhooksModel.createClubWebhook(db, {
+			club_id: parseInt(clubId, 10),
+			url: data.url,
+			events: data.events,
+			description: data.description,
+			created_by: c.var.userId,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				webhook: result.data,
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * PUT update a webhook endpoint
+ *
+ * @route PUT /api/clubs/:clubId/webhooks/:id
+ * @body {string} [url] - New HTTPS URL
+ * @body {string[]} [events] - New event subscriptions (replaces the old list)
+ * @body {string} [description] - New description
+ * @body {boolean} [active] - false pauses deliveries; pending ones are sent when reactivated
+ * @returns {object} Object with updated flag and the endpoint
+ *
+ * @example
+ * PUT /api/clubs/1/webhooks/3
+ * Body: { active: false }
+ * Response: { updated: true, webhook: { id: 3, active: false, ... } }
+ */
+clubWebhooksRouter.put('/:id', checkAuth, checkUserPermission, authorize('webhook', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const id = c.req.param('id');
+		if (!clubId || !id) {
+			return c.json(
+				{
+					error: 'Missing club ID or webhook ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+		const invalid =
+			(data.url !== undefined && clubWebhooksModel.validateWebhookUrl(data.url)) ||
+			(data.events !== undefined && clubWebhooksModel.validateEvents(data.events)) ||
+			(data.active !== undefined && typeof data.active !== 'boolean' && 'active must be true or false');
+		if (invalid) {
+			return c.json(
+				{
+					error: invalid,
+				},
+				400
+			);
+		}
+
+		const result = await clubWebhooksModel.updateClubWebhook(db, parseInt(clubId, 10), parseInt(id, 10), {
+			url: data.url,
+			events: data.events,
+			description: data.description,
+			active: data.active,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		if (!result.data) {
+			return c.json(
+				{
+					error: 'Webhook not found in this club',
+				},
+				404
+			);
+		}
+
+		return c.json({
+			updated: true,
+			webhook: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * DELETE a webhook endpoint
+ *
+ * Pending deliveries and the delivery log are deleted with it.
+ *
+ * @route DELETE /api/clubs/:clubId/webhooks/:id
+ * @returns {object} Object with deleted flag
+ */
+clubWebhooksRouter.delete('/:id', checkAuth, checkUserPermission, authorize('webhook', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const id = c.req.param('id');
+		if (!clubId || !id) {
+			return c.json(
+				{
+					error: 'Missing club ID or webhook ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await clubWebhooksModel.deleteClubWebhook(db, parseInt(clubId, 10), parseInt(id, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		if (!result.data) {
+			return c.json(
+				{
+					error: 'Webhook not found in this club',
+				},
+				404
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * GET an endpoint's delivery log
+ *
+ * Each delivery shows its event, payload, status (pending, delivered, failed), attempts, next
+ * attempt, and the last response or error.
+ *
+ * @route GET /api/clubs/:clubId/webhooks/:id/deliveries
+ * @query {string} [status] - Only deliveries with this status
+ * @query {number} [limit] - Maximum number of deliveries (default 50, at most 200)
+ * @returns {object} Object containing the deliveries, newest first
+ *
+ * @example
+ * GET /api/clubs/1/webhooks/3/deliveries?status=failed
+ * Response: { result: [{ id: 40, event_type: "issue.created", status: "failed", attempts: 10, response_status: 500, ... }] }
+ */
+clubWebhooksRouter.get('/:id/deliveries', checkAuth, checkUserPermission, authorize('webhook', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const id = c.req.param('id');
+		if (!clubId || !id) {
+			return c.json(
+				{
+					error: 'Missing club ID or webhook ID in route',
+				},
+				400
+			);
+		}
+
+		const status = c.req.query('status');
+		if (status !== undefined && !clubWebhooksModel.isDeliveryStatus(status)) {
+			return c.json(
+				{
+					error: `Invalid status. Must be one of: ${clubWebhooksModel.DELIVERY_STATUSES.join(', ')}`,
+				},
+				400
+			);
+		}
+		const limit = Math.min(parseInt(c.req.query('limit') || '50', 10) || 50, 200);
+
+		const webhook = await clubWebhooksModel.getClubWebhookById(db, parseInt(clubId, 10), parseInt(id, 10));
+		if (webhook.error) {
+			return c.json(
+				{
+					error: webhook.error,
+				},
+				400
+			);
+		}
+		if (!webhook.data) {
+			return c.json(
+				{
+					error: 'Webhook not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await clubWebhooksModel.getDeliveries(db, webhook.data.id, { status, limit });
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST redeliver a delivery
+ *
+ * Sends the delivery again straight away, whatever its status, and returns the outcome. If it
+ * fails again it is retried on the usual schedule.
+ *
+ * @route POST /api/clubs/:clubId/webhooks/:id/deliveries/:deliveryId/redeliver
+ * @returns {object} Object with redelivered flag and the updated delivery
+ *
+ * @example
+ * POST /api/clubs/1/webhooks/3/deliveries/40/redeliver
+ * Response: { redelivered: true, delivery: { id: 40, status: "delivered", attempts: 1, response_status: 200, ... } }
+ */
+clubWebhooksRouter.post('/:id/deliveries/:deliveryId/redeliver', checkAuth, checkUserPermission, authorize('webhook', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const id = c.req.param('id');
+		const deliveryId = c.req.param('deliveryId');
+		if (!clubId || !id || !deliveryId) {
+			return c.json(
+				{
+					error: 'Missing club ID, webhook ID or delivery ID in route',
+				},
+				400
+			);
+		}
+
+		const webhook = await clubWebhooksModel.getClubWebhookById(db, parseInt(clubId, 10), parseInt(id, 10));
+		if (webhook.error) {
+			return c.json(
+				{
+					error: webhook.error,
+				},
+				400
+			);
+		}
+		if (!webhook.data) {
+			return c.json(
+				{
+					error: 'Webhook not found in this club',
+				},
+				404
+			);
+		}
+
+		const delivery = await clubWebhooksModel.getDeliveryById(db, webhook.data.id, parseInt(deliveryId, 10));
+		if (delivery.error) {
+			return c.json(
+				{
+					error: delivery.error,
+				},
+				400
+			);
+		}
+		if (!delivery.data) {
+			return c.json(
+				{
+					error: 'Delivery not found for this webhook',
+				},
+				404
+			);
+		}
+
+		const result = await redeliver(db, delivery.data);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			redelivered: true,
+			delivery: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
@@ -1,17 +1,18 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
-import { clubs, usersToClubs } from '../db/schema';
+import { clubs } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { isValidTimeZone } from '../utils/ical';
+import { MAX_DCC_ADDRESS, MIN_DCC_ADDRESS } from '../addressReservations/model';
 
 export interface Club {
 	id: number;
 	name: string;
 	description?: string | null;
 	hero_image?: string | null;
-}
-
-export interface ClubAssignment {
-	user_id: number;
-	club_id: string;
+	hero_attachment_id?: number | null;
+	timezone?: string;
+	dcc_default_address?: number | null;
+	clerk_organization_id?: string | null;
 }
 
 export interface Result {
@@ -19,10 +20,11 @@ export interface Result {
 	data?: Club[] | null;
 }
 
-export interface AssignmentResult {
-	error?: string | any;
-	data?: ClubAssignment[] | null;
-}
+/**
+ * A club's default decoder address must be a DCC address, or null for none
+ */
+const isValidDefaultAddress = (address: number | null | undefined): boolean =>
+	address === undefined || address === null || (Number.isInteger(address) && address >= MIN_DCC_ADDRESS && address <= MAX_DCC_ADDRESS);
 
 export const createClub = async (db: NeonHttpDatabase<Record<string, never>>, data: Club): Promise<Result> => {
 	if (!data)
@@ -35,6 +37,18 @@ export const createClub = async (db: NeonHttpDatabase<Record<string, never>>, da
 		};
 	}
 
+	if (data.timezone !== undefined && !isValidTimeZone(data.timezone)) {
+		return {
+			error: 'Invalid timezone',
+		};
+	}
+
+	if (!isValidDefaultAddress(data.dcc_default_address)) {
+		return {
+			error: `dcc_default_address must be between ${MIN_DCC_ADDRESS} and ${MAX_DCC_ADDRESS}, or null`,
+		};
+	}
+
 	try {
 		const results = await db
 			.insert(clubs)
@@ -42,6 +56,8 @@ export const createClub = async (db: NeonHttpDatabase<Record<string, never>>, da
 				name: data.name,
 				description: data.description,
 				hero_image: data.hero_image,
+				timezone: data.timezone,
+				dcc_default_address: data.dcc_default_address,
 			})
 			.returning();
 
@@ -64,6 +80,18 @@ export const updateClub = async (db: NeonHttpDatabase<Record<string, never>>, id
 			error: 'Missing ID',
 		};
 
+	if (data.timezone !== undefined && !isValidTimeZone(data.timezone)) {
+		return {
+			error: 'Invalid timezone',
+		};
+	}
+
+	if (!isValidDefaultAddress(data.dcc_default_address)) {
+		return {
+			error: `dcc_default_address must be between ${MIN_DCC_ADDRESS} and ${MAX_DCC_ADDRESS}, or null`,
+		};
+	}
+
 	try {
 		const results = await db
 			.update(clubs)
@@ -71,6 +99,8 @@ export const updateClub = async (db: NeonHttpDatabase<Record<string, never>>, id
 				name: data.name,
 				description: data.description,
 				hero_image: data.hero_image,
+				timezone: data.timezone,
+				dcc_default_address: data.dcc_default_address,
 			})
 			.where(eq(clubs.id, parseInt(id, 10)))
 			.returning();
@@ -82,24 +112,96 @@ export const updateClub = async (db: NeonHttpDatabase<Record<string, never>>, id
 	}
 };
 
-export const createClubAssignments = async (db: NeonHttpDatabase<Record<string, never>>, data: AssignmentResult): Promise<Result> => {
-	if (!data.user_id || !data.club_id) {
+/**
+ * Finds the club linked to a Clerk organization
+ *
+ * @param db - Drizzle ORM database instance
+ * @param organizationId - Clerk organization ID
+ * @returns Result object containing the club (empty if none is linked), or error message
+ */
+export const getClubByOrganizationId = async (db: NeonHttpDatabase<Record<string, never>>, organizationId: string): Promise<Result> => {
+	if (!organizationId) {
 		return {
-			error: 'Missing body',
+			error: 'Missing organization ID',
 		};
 	}
+
+	try {
+		const results = await db.select().from(clubs).where(eq(clubs.clerk_organization_id, organizationId)).limit(1);
+		return { data: results };
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+};
+
+/**
+ * Links a club to a Clerk organization, whose membership webhooks then add and remove the club's
+ * members. Only super-admins may do this; updateClub leaves the link alone.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - Club ID
+ * @param organizationId - Clerk organization ID, or null to unlink the club
+ * @returns Result object containing the updated club (empty if unknown), or error message
+ */
+export const linkClubToOrganization = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	organizationId: string | null
+): Promise<Result> => {
+	if (!clubId) {
+		return {
+			error: 'Missing ID',
+		};
+	}
+
+	if (organizationId !== null && (typeof organizationId !== 'string' || !organizationId.startsWith('org_'))) {
+		return {
+			error: 'clerk_organization_id must be a Clerk organization ID or null',
+		};
+	}
+
+	try {
+		const results = await db.update(clubs).set({ clerk_organization_id: organizationId }).where(eq(clubs.id, clubId)).returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+};
+
+/**
+ * Applies a Clerk organization change to its linked club. A rename updates the club's name; a
+ * deleted organization is unlinked and the club is kept.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param organizationId - Clerk organization ID
+ * @param changes - The organization's new name, or null to unlink it
+ * @returns Result object containing the updated club (empty if none is linked), or error message
+ */
+export const syncOrganizationClub = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	organizationId: string,
+	changes: { name: string } | null
+): Promise<Result> => {
+	if (!organizationId) {
+		return {
+			error: 'Missing organization ID',
+		};
+	}
+
 	try {
 		const results = await db
-			.insert(usersToClubs)
-			.values({
-				user_id: data.user_id,
-				club_id: data.club_id,
-			})
+			.update(clubs)
+			.set(changes ? { name: changes.name } : { clerk_organization_id: null })
+			.where(eq(clubs.clerk_organization_id, organizationId))
 			.returning();
 		return { data: results };
 	} catch (error) {
 		return {
-			error,
+			error: error instanceof Error ? error.message : String(error),
 		};
 	}
 };
@@ -0,0 +1,340 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { eq, and, asc, count, inArray, isNull } from 'drizzle-orm';
+
+import { comments, users } from '../db/schema';
+
+/**
+ * Longest comment body accepted, in characters
+ */
+export const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * The resource a comment thread belongs to.
+ *
+ * @property type - 'issue' or 'tower_report'
+ * @property id - ID of the issue or tower report
+ */
+export interface CommentTarget {
+	type: 'issue' | 'tower_report';
+	id: number;
+}
+
+/**
+ * Represents a comment on an issue or tower report.
+ *
+ * Replies point at their parent comment through `parent_id`. A comment that is deleted while it
+ * still has replies is kept as a placeholder (`body` null, `deleted_at` set) so the thread stays intact.
+ *
+ * @property id - Unique identifier for the comment (auto-generated)
+ * @property issue_id - ID of the issue the comment is on (null for tower report comments)
+ * @property tower_report_id - ID of the tower report the comment is on (null for issue comments)
+ * @property parent_id - ID of the comment this replies to (null for top-level comments)
+ * @property user_id - ID of the author
+ * @property body - Comment text (null once deleted)
+ * @property first_name - Author's first name (populated when listing)
+ * @property last_name - Author's last name (populated when listing)
+ * @property deleted_at - When the comment was deleted, if it was kept as a placeholder
+ */
+export interface Comment {
+	id?: number;
+	issue_id?: number | null;
+	tower_report_id?: number | null;
+	parent_id?: number | null;
+	user_id: number;
+	body: string | null;
+	first_name?: string | null;
+	last_name?: string | null;
+	deleted_at?: Date | null;
+	created_at?: Date;
+	updated_at?: Date;
+}
+
+export interface Result {
+	error?: string | any;
+	data?: Comment[] | null;
+}
+
+export interface CountResult {
+	error?: string | any;
+	data?: Record<number, number> | null;
+}
+
+/**
+ * Column that links a comment to the given kind of target.
+ */
+const targetColumn = (type: CommentTarget['type']) => (type === 'issue' ? comments.issue_id : comments.tower_report_id);
+
+/**
+ * Validates and trims a comment body.
+ *
+ * @returns The trimmed body, or an error message
+ */
+const validateBody = (body: unknown): { body?: string; error?: string } => {
+	if (typeof body !== 'string' || body.trim().length === 0) {
+		return { error: 'Comment body is required' };
+	}
+	if (body.length > MAX_COMMENT_LENGTH) {
+		return { error: `Comment body must be ${MAX_COMMENT_LENGTH} characters or fewer` };
+	}
+	return { body: body.trim() };
+};
+
+/**
+ * Whether a user may edit a comment. Only the author can change their own words.
+ */
+export const canEditComment = (comment: Comment, userId: number): boolean => comment.user_id === userId;
+
+/**
+ * Retrieves the comments on an issue or tower report in chronological order.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param target - The issue or tower report
+ * @returns Result object containing the comments, oldest first, with author names
+ */
+export const getCommentsByTarget = async (db: NeonHttpDatabase<Record<string, never>>, target: CommentTarget): Promise<Result> => {
+	if (!target?.id)
+		return {
+			error: 'Missing target ID',
+		};
+	try {
+		const results = await db
+			.select({
+				id: comments.id,
+				issue_id: comments.issue_id,
+				tower_report_id: comments.tower_report_id,
+				parent_id: comments.parent_id,
+				user_id: comments.user_id,
+				body: comments.body,
+				deleted_at: comments.deleted_at,
+				created_at: comments.created_at,
+				updated_at: comments.updated_at,
+				first_name: users.first_name,
+				last_name: users.last_name,
+			})
+			.from(comments)
+			.leftJoin(users, eq(comments.user_id, users.id))
+			.where(eq(targetColumn(target.type), target.id))
+			.orderBy(asc(comments.created_at), asc(comments.id));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves a comment by ID, scoped to its issue or tower report.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the comment
+ * @param target - The issue or tower report the comment must belong to
+ * @returns Result object containing the comment, or an empty array if it is not on this target
+ */
+export const getCommentByIdAndTarget = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: number,
+	target: CommentTarget
+): Promise<Result> => {
+	if (!id || !target?.id)
+		return {
+			error: 'Missing ID or target ID',
+		};
+	try {
+		const results = await db
+			.select()
+			.from(comments)
+			.where(and(eq(comments.id, id), eq(targetColumn(target.type), target.id)));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Creates a comment or a reply.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param target - The issue or tower report to comment on
+ * @param data - Author, body and optional parent_id for replies
+ * @returns Result object containing the created comment, or error
+ *
+ * @remarks
+ * - A reply's parent must be on the same target and must not be deleted
+ */
+export const createComment = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	target: CommentTarget,
+	data: { user_id: number; body: string; parent_id?: number | null }
+): Promise<Result> => {
+	if (!target?.id || !data?.user_id)
+		return {
+			error: 'Missing required field. Required: target, user_id, body',
+		};
+
+	const validated = validateBody(data.body);
+	if (validated.error) {
+		return {
+			error: validated.error,
+		};
+	}
+
+	try {
+		if (data.parent_id) {
+			const parent = await getCommentByIdAndTarget(db, data.parent_id, target);
+			if (parent.error || !parent.data || parent.data.length === 0) {
+				return {
+					error: 'Parent comment not found',
+				};
+			}
+			if (parent.data[0].deleted_at) {
+				return {
+					error: 'Cannot reply to a deleted comment',
+				};
+			}
+		}
+
+		const results = await db
+			.insert(comments)
+			.values({
+				issue_id: target.type === 'issue' ? target.id : null,
+				tower_report_id: target.type === 'tower_report' ? target.id : null,
+				parent_id: data.parent_id || null,
+				user_id: data.user_id,
+				body: validated.body,
+			})
+			.returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Updates the body of a comment.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param comment - The existing comment (load it with `getCommentByIdAndTarget`)
+ * @param body - New comment text
+ * @returns Result object containing the updated comment, or error
+ */
+export const updateComment = async (db: NeonHttpDatabase<Record<string, never>>, comment: Comment, body: string): Promise<Result> => {
+	if (!comment?.id)
+		return {
+			error: 'Missing ID',
+		};
+	if (comment.deleted_at) {
+		return {
+			error: 'Cannot edit a deleted comment',
+		};
+	}
+
+	const validated = validateBody(body);
+	if (validated.error) {
+		return {
+			error: validated.error,
+		};
+	}
+
+	try {
+		const results = await db
+			.update(comments)
+			.set({
+				body: validated.body,
+				updated_at: new Date(),
+			})
+			.where(eq(comments.id, comment.id))
+			.returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Deletes a comment.
+ *
+ * Comments with replies are kept as placeholders (body removed, `deleted_at` set) so the replies
+ * keep their place in the thread. Comments without replies are removed.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the comment
+ * @returns Result object containing the deleted or blanked comment, or error
+ */
+export const deleteComment = async (db: NeonHttpDatabase<Record<string, never>>, id: number): Promise<Result> => {
+	if (!id)
+		return {
+			error: 'Missing ID',
+		};
+
+	try {
+		const replies = await db.select().from(comments).where(eq(comments.parent_id, id));
+
+		if (replies.length > 0) {
+			const results = await db
+				.update(comments)
+				.set({
+					body: null,
+					deleted_at: new Date(),
+				})
+				.where(eq(comments.id, id))
+				.returning();
+			return { data: results };
+		}
+
+		const results = await db.delete(comments).where(eq(comments.id, id)).returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Counts the visible comments on several issues or tower reports at once.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param type - 'issue' or 'tower_report'
+ * @param ids - IDs of the issues or tower reports
+ * @returns Result object mapping each ID to its comment count (IDs without comments are omitted)
+ */
+export const getCommentCounts = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	type: CommentTarget['type'],
+	ids: number[]
+): Promise<CountResult> => {
+	if (!ids || ids.length === 0) {
+		return { data: {} };
+	}
+
+	try {
+		const column = targetColumn(type);
+		const rows = await db
+			.select({
+				target_id: column,
+				count: count(),
+			})
+			.from(comments)
+			.where(and(inArray(column, ids), isNull(comments.deleted_at)))
+			.groupBy(column);
+
+		const counts: Record<number, number> = {};
+		for (const row of rows) {
+			if (row.target_id !== null) {
+				counts[row.target_id] = Number(row.count);
+			}
+		}
+		return { data: counts };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
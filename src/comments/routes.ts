@@ -0,0 +1,325 @@
+import { Hono, Context } from 'hono';
+import * as commentsModel from './model';
+import * as issuesModel from '../issues/model';
+import * as towerReportsModel from '../towerReports/model';
+import * as towersModel from '../towers/model';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Router for comment threads on issues and tower reports.
+ * Mounted at both:
+ * - /api/clubs/:clubId/towers/:towerId/issues/:issueId/comments
+ * - /api/clubs/:clubId/towers/:towerId/reports/:reportId/comments
+ *
+ * Authors can edit and delete their own comments. Members with triage_issues can delete any comment to moderate.
+ *
+ * All routes require:
+ * - Authentication (checkAuth middleware)
+ * - User permission and club membership (checkUserPermission middleware)
+ */
+export const commentsRouter = new Hono<{ Bindings: Env }>();
+
+// Apply auth middleware to all routes
+commentsRouter.use(checkAuth);
+commentsRouter.use(checkUserPermission);
+commentsRouter.use(authorize('comment', 'read'));
+
+/**
+ * Works out which issue or tower report the route points at and confirms it belongs to the
+ * tower, and the tower to the club.
+ *
+ * @returns The comment target, or null if it does not exist in this club and tower
+ */
+const resolveTarget = async (c: Context, db: ReturnType<typeof dbInitalizer>): Promise<commentsModel.CommentTarget | null> => {
+	const clubId = parseInt(c.req.param('clubId') || '', 10);
+	const towerId = parseInt(c.req.param('towerId') || '', 10);
+	const issueId = parseInt(c.req.param('issueId') || '', 10);
+	const reportId = parseInt(c.req.param('reportId') || '', 10);
+
+	const towerCheck = await towersModel.getTowerByIdAndClubId(db, towerId, clubId);
+	if (towerCheck.error || !towerCheck.data || towerCheck.data.length === 0) {
+		return null;
+	}
+
+	if (issueId) {
+		const issueCheck = await issuesModel.getIssueByIdAndTowerId(db, issueId, towerId);
+		return issueCheck.data && issueCheck.data.length > 0 ? { type: 'issue', id: issueId } : null;
+	}
+
+	if (reportId) {
+		const reportCheck = await towerReportsModel.getTowerReportByIdAndTowerId(db, reportId, towerId);
+		return reportCheck.data && reportCheck.data.length > 0 ? { type: 'tower_report', id: reportId } : null;
+	}
+
+	return null;
+};
+
+/**
+ * GET all comments in a thread
+ * Route: GET /api/clubs/:clubId/towers/:towerId/issues/:issueId/comments
+ * Route: GET /api/clubs/:clubId/towers/:towerId/reports/:reportId/comments
+ *
+ * Returns comments oldest first. Replies carry `parent_id`; deleted comments that still have
+ * replies are returned with `body: null` and `deleted_at` set.
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "result": [
+ *     { "id": 1, "parent_id": null, "user_id": 4, "first_name": "Sam", "body": "Power is out past the diamond", ... },
+ *     { "id": 2, "parent_id": 1, "user_id": 12, "first_name": "Alex", "body": "Feeder came loose, fixing tonight", ... }
+ *   ]
+ * }
+ * ```
+ *
+ * @throws Returns 404 if the issue or report is not in this tower
+ */
+commentsRouter.get('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const target = await resolveTarget(c, db);
+		if (!target) {
+			return c.json(
+				{
+					error: 'Comment thread not found in this tower',
+				},
+				404
+			);
+		}
+
+		const result = await commentsModel.getCommentsByTarget(db, target);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * POST add a comment or reply
+ * Route: POST /api/clubs/:clubId/towers/:towerId/issues/:issueId/comments
+ * Route: POST /api/clubs/:clubId/towers/:towerId/reports/:reportId/comments
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "body": "Feeder came loose, fixing tonight",
+ *   "parent_id": 1
+ * }
+ * ```
+ *
+ * Success Response (201):
+ * ```json
+ * {
+ *   "created": true,
+ *   "id": 2
+ * }
+ * ```
+ *
+ * @throws Returns 400 if the body is empty or the parent is invalid, 404 if the thread is not in this tower
+ */
+commentsRouter.post('/', authorize('comment', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const data = await c.req.json();
+
+		const target = await resolveTarget(c, db);
+		if (!target) {
+			return c.json(
+				{
+					error: 'Comment thread not found in this tower',
+				},
+				404
+			);
+		}
+
+		const result = await commentsModel.createComment(db, target, {
+			user_id: c.var.userId,
+			body: data.body,
+			parent_id: data.parent_id,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				id: result.data?.[0]?.id,
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * PUT edit a comment
+ * Route: PUT /api/clubs/:clubId/towers/:towerId/issues/:issueId/comments/:commentId
+ * Route: PUT /api/clubs/:clubId/towers/:towerId/reports/:reportId/comments/:commentId
+ *
+ * Only the author can edit a comment.
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "body": "Feeder came loose, fixed"
+ * }
+ * ```
+ *
+ * @throws Returns 403 if editing someone else's comment, 404 if the comment is not in this thread
+ */
+commentsRouter.put('/:commentId', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const commentId = c.req.param('commentId');
+		const data = await c.req.json();
+
+		const target = await resolveTarget(c, db);
+		if (!target) {
+			return c.json(
+				{
+					error: 'Comment thread not found in this tower',
+				},
+				404
+			);
+		}
+
+		const commentCheck = await commentsModel.getCommentByIdAndTarget(db, parseInt(commentId, 10), target);
+		if (commentCheck.error || !commentCheck.data || commentCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Comment not found in this thread',
+				},
+				404
+			);
+		}
+		const comment = commentCheck.data[0];
+
+		if (!commentsModel.canEditComment(comment, c.var.userId)) {
+			return c.json(
+				{
+					error: 'Unauthorized: You can only edit your own comments',
+				},
+				403
+			);
+		}
+
+		const result = await commentsModel.updateComment(db, comment, data.body);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			updated: true,
+			comment: result.data?.[0] || null,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * DELETE a comment
+ * Route: DELETE /api/clubs/:clubId/towers/:towerId/issues/:issueId/comments/:commentId
+ * Route: DELETE /api/clubs/:clubId/towers/:towerId/reports/:reportId/comments/:commentId
+ *
+ * Authors can delete their own comments; members with triage_issues can delete any comment.
+ *
+ * @throws Returns 403 if deleting someone else's comment without triage_issues, 404 if not in this thread
+ */
+commentsRouter.delete('/:commentId', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const commentId = c.req.param('commentId');
+
+		const target = await resolveTarget(c, db);
+		if (!target) {
+			return c.json(
+				{
+					error: 'Comment thread not found in this tower',
+				},
+				404
+			);
+		}
+
+		const commentCheck = await commentsModel.getCommentByIdAndTarget(db, parseInt(commentId, 10), target);
+		if (commentCheck.error || !commentCheck.data || commentCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Comment not found in this thread',
+				},
+				404
+			);
+		}
+
+		if (!isAllowed(c, 'write', 'comment', commentCheck.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: You can only delete your own comments',
+				},
+				403
+			);
+		}
+
+		const result = await commentsModel.deleteComment(db, parseInt(commentId, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
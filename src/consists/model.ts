@@ -1,13 +1,49 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
-import { consists } from '../db/schema';
-import { eq } from 'drizzle-orm';
-import { int } from 'drizzle-orm/mysql-core';
+import { addresses, consists, consistUnits } from '../db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
 
+export type UnitDirection = 'forward' | 'reversed';
+export type UnitRole = 'lead' | 'trailing';
+
+export const UNIT_DIRECTIONS: UnitDirection[] = ['forward', 'reversed'];
+export const UNIT_ROLES: UnitRole[] = ['lead', 'trailing'];
+
+/**
+ * Represents a locomotive (address) that is a member of a consist.
+ *
+ * @property id - Unique identifier for the unit row (auto-generated)
+ * @property consist_id - ID of the consist the unit belongs to (set by the model)
+ * @property address_id - ID of the club address (locomotive) in the consist (required)
+ * @property position - 1-based position in the consist, front to back (set from array order)
+ * @property direction - Which way the unit faces: 'forward' or 'reversed' (defaults to 'forward')
+ * @property role - 'lead' or 'trailing'; every consist has exactly one lead unit
+ */
+export interface ConsistUnit {
+	id?: number;
+	consist_id?: number;
+	address_id: number;
+	position?: number;
+	direction?: UnitDirection;
+	role?: UnitRole;
+}
+
+/**
+ * Represents a consist of locomotives within a club.
+ *
+ * @property id - Unique identifier for the consist (auto-generated)
+ * @property number - Consist address programmed into the lead unit (required)
+ * @property in_use - Whether the consist is currently active (required)
+ * @property user_id - Member who built the consist (required)
+ * @property club_id - Club the consist belongs to (required for new consists)
+ * @property units - Ordered member units, front to back
+ */
 export interface Consist {
-	id: number;
+	id?: number;
 	number: number;
 	in_use: boolean;
 	user_id: number;
+	club_id?: number | null;
+	units?: ConsistUnit[];
 }
 
 export interface Result {
@@ -15,19 +51,72 @@ export interface Result {
 	data?: Consist[] | null;
 }
 
-const checkIfConsistInUse = async (db: NeonHttpDatabase<Record<string, never>>, number: number, id: number | null): Promise<Result> => {
+/**
+ * Validates a consist's unit list and normalises it into storage order.
+ *
+ * Positions are taken from array order so callers only have to send units front to back.
+ *
+ * @param units - Units as supplied by the caller
+ * @returns Either an error message or the normalised units
+ */
+export const normalizeUnits = (units: ConsistUnit[] | undefined): { error?: string; units?: ConsistUnit[] } => {
+	if (!Array.isArray(units) || units.length === 0) {
+		return { error: 'A consist needs at least one unit' };
+	}
+
+	const addressIds = units.map((unit) => Number(unit?.address_id));
+	if (addressIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+		return { error: 'Every unit needs an address_id' };
+	}
+	if (new Set(addressIds).size !== addressIds.length) {
+		return { error: 'An address can only appear once in a consist' };
+	}
+
+	const normalized: ConsistUnit[] = units.map((unit, index) => ({
+		address_id: Number(unit.address_id),
+		position: index + 1,
+		direction: unit.direction ?? 'forward',
+		role: unit.role ?? (index === 0 ? 'lead' : 'trailing'),
+	}));
+
+	if (normalized.some((unit) => !UNIT_DIRECTIONS.includes(unit.direction as UnitDirection))) {
+		return { error: `Invalid direction. Must be one of: ${UNIT_DIRECTIONS.join(', ')}` };
+	}
+	if (normalized.some((unit) => !UNIT_ROLES.includes(unit.role as UnitRole))) {
+		return { error: `Invalid role. Must be one of: ${UNIT_ROLES.join(', ')}` };
+	}
+	if (normalized.filter((unit) => unit.role === 'lead').length !== 1) {
+		return { error: 'A consist must have exactly one lead unit' };
+	}
+
+	return { units: normalized };
+};
+
+/**
+ * Checks that no other active consist in the same club uses this consist number.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param number - Consist number to check
+ * @param clubId - Club to check within
+ * @param id - Optional consist ID to exclude (for updates)
+ * @returns Result with error if the number is taken
+ */
+const checkIfConsistInUse = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	number: number,
+	clubId: number,
+	id: number | null
+): Promise<Result> => {
 	try {
-		const queryExisting = await selectAddress(db, number);
-		if (queryExisting?.data) {
-			let inUse = queryExisting.data.filter((item) => item.in_use);
-			if (id) {
-				inUse = inUse.filter((item) => parseInt(item.id, 10) !== parseInt(id, 10));
-			}
-			if (queryExisting.data && inUse.length > 0) {
-				return {
-					error: 'Number in use',
-				};
-			}
+		const queryExisting = await db
+			.select()
+			.from(consists)
+			.where(and(eq(consists.number, number), eq(consists.club_id, clubId)));
+		const inUse = queryExisting.filter((item) => item.in_use && item.id !== id);
+		if (inUse.length > 0) {
+			return {
+				error: `Consist number ${number} is already in use in this club`,
+			};
 		}
 	} catch (error) {
 		return {
@@ -40,14 +129,152 @@ const checkIfConsistInUse = async (db: NeonHttpDatabase<Record<string, never>>,
 	};
 };
 
-export const selectAddress = async (db: NeonHttpDatabase<Record<string, never>>, id: number): Promise<Result> => {
-	if (!id)
+/**
+ * Checks that every unit is a club address and none is already part of another active consist.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - Club the consist belongs to
+ * @param units - Normalised units
+ * @param id - Optional consist ID to exclude (for updates)
+ * @returns Result with error naming the offending address
+ */
+const checkUnitsAvailable = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	units: ConsistUnit[],
+	id: number | null
+): Promise<Result> => {
+	const addressIds = units.map((unit) => unit.address_id);
+	try {
+		const clubAddresses = await db.select().from(addresses).where(inArray(addresses.id, addressIds));
+		const missing = addressIds.find((addressId) => !clubAddresses.some((address) => address.id === addressId && address.club_id === clubId));
+		if (missing) {
+			return {
+				error: `Address ${missing} not found in this club`,
+			};
+		}
+
+		const memberships = await db.select().from(consistUnits).where(inArray(consistUnits.address_id, addressIds));
+		const otherConsistIds = [...new Set(memberships.map((unit) => unit.consist_id))].filter((consistId) => consistId !== id);
+		if (otherConsistIds.length === 0) {
+			return {
+				error: null,
+				data: [],
+			};
+		}
+
+		const activeConsists = (await db.select().from(consists).where(inArray(consists.id, otherConsistIds))).filter((item) => item.in_use);
+		const clash = memberships.find((unit) => activeConsists.some((item) => item.id === unit.consist_id));
+		if (clash) {
+			const address = clubAddresses.find((item) => item.id === clash.address_id);
+			const consist = activeConsists.find((item) => item.id === clash.consist_id);
+			return {
+				error: `Address ${address?.number ?? clash.address_id} is already part of active consist ${consist?.number}`,
+			};
+		}
+	} catch (error) {
 		return {
-			error: 'Missing ID',
+			error,
+		};
+	}
+	return {
+		error: null,
+		data: [],
+	};
+};
+
+/**
+ * Attaches each consist's units, ordered by position.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param rows - Consist rows to decorate
+ * @returns Consists with their units
+ */
+const withUnits = async (db: NeonHttpDatabase<Record<string, never>>, rows: Consist[]): Promise<Consist[]> => {
+	if (rows.length === 0) {
+		return [];
+	}
+	const units = await db
+		.select()
+		.from(consistUnits)
+		.where(
+			inArray(
+				consistUnits.consist_id,
+				rows.map((row) => row.id as number)
+			)
+		);
+	return rows.map((row) => ({
+		...row,
+		units: (units as ConsistUnit[]).filter((unit) => unit.consist_id === row.id).sort((a, b) => (a.position ?? 0) - (b.position ?? 0)),
+	}));
+};
+
+/**
+ * Writes a consist's units, replacing whatever it had before.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param consistId - Consist to write units for
+ * @param units - Normalised units
+ * @returns The inserted units
+ */
+const replaceUnits = async (db: NeonHttpDatabase<Record<string, never>>, consistId: number, units: ConsistUnit[]): Promise<ConsistUnit[]> => {
+	await db.delete(consistUnits).where(eq(consistUnits.consist_id, consistId));
+	const results = await db
+		.insert(consistUnits)
+		.values(
+			units.map((unit) => ({
+				consist_id: consistId,
+				address_id: unit.address_id,
+				position: unit.position as number,
+				direction: unit.direction,
+				role: unit.role,
+			}))
+		)
+		.returning();
+	return results as ConsistUnit[];
+};
+
+/**
+ * Retrieves all consists for a club with their units.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - ID of the club (required)
+ * @returns Result object containing the club's consists or error
+ */
+export const getConsistsByClubId = async (db: NeonHttpDatabase<Record<string, never>>, clubId: number): Promise<Result> => {
+	if (!clubId)
+		return {
+			error: 'Missing club ID',
 		};
 	try {
-		const consistsResp = await db.select().from(consists).where(eq(consists.number, id));
-		return { data: consistsResp };
+		const results = await db.select().from(consists).where(eq(consists.club_id, clubId));
+		return { data: await withUnits(db, results) };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves a consist by ID, scoped to a club, with its units.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - Consist ID (required)
+ * @param clubId - Club the consist must belong to (required)
+ * @returns Result object containing the consist in an array (empty if not in this club)
+ */
+export const getConsistByIdAndClubId = async (db: NeonHttpDatabase<Record<string, never>>, id: number, clubId: number): Promise<Result> => {
+	if (!id || !clubId)
+		return {
+			error: 'Missing ID or club ID',
+		};
+	try {
+		const results = await db
+			.select()
+			.from(consists)
+			.where(and(eq(consists.id, id), eq(consists.club_id, clubId)));
+		return { data: await withUnits(db, results) };
 	} catch (error) {
 		return {
 			error,
@@ -55,24 +282,47 @@ export const selectAddress = async (db: NeonHttpDatabase<Record<string, never>>,
 	}
 };
 
+/**
+ * Builds a new consist from an ordered list of club addresses.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param data - Consist to create (number, in_use, user_id, club_id and units required)
+ * @returns Result object containing the created consist with its units, or error
+ */
 export const createConsist = async (db: NeonHttpDatabase<Record<string, never>>, data: Consist): Promise<Result> => {
 	if (!data)
 		return {
 			error: 'Missing data',
 		};
-	if (!data.number || data.in_use === undefined || !data.user_id) {
+	if (!data.number || data.in_use === undefined || !data.user_id || !data.club_id) {
 		return {
-			error: 'Missing required field',
+			error: 'Missing required field. Required: number, in_use, user_id, club_id, units',
 		};
 	}
-	const existingFlag = await checkIfConsistInUse(db, data.number, null);
 
-	if (existingFlag.error) {
+	const normalized = normalizeUnits(data.units);
+	if (normalized.error || !normalized.units) {
 		return {
-			error: existingFlag.error,
+			error: normalized.error,
 		};
 	}
 
+	if (data.in_use) {
+		const existingFlag = await checkIfConsistInUse(db, data.number, data.club_id, null);
+		if (existingFlag.error) {
+			return {
+				error: existingFlag.error,
+			};
+		}
+
+		const unitsFlag = await checkUnitsAvailable(db, data.club_id, normalized.units, null);
+		if (unitsFlag.error) {
+			return {
+				error: unitsFlag.error,
+			};
+		}
+	}
+
 	try {
 		const results = await db
 			.insert(consists)
@@ -80,10 +330,12 @@ export const createConsist = async (db: NeonHttpDatabase<Record<string, never>>,
 				number: data.number,
 				in_use: data.in_use,
 				user_id: data.user_id,
+				club_id: data.club_id,
 			})
 			.returning();
 
-		return { data: results };
+		const units = await replaceUnits(db, results[0].id, normalized.units);
+		return { data: [{ ...results[0], units }] };
 	} catch (error) {
 		return {
 			error,
@@ -91,7 +343,15 @@ export const createConsist = async (db: NeonHttpDatabase<Record<string, never>>,
 	}
 };
 
-export const updateConsist = async (db: NeonHttpDatabase<Record<string, never>>, id: string, data: Consist): Promise<Result> => {
+/**
+ * Modifies a consist. When `units` is supplied the consist's membership is replaced.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the consist to update
+ * @param data - Complete consist data (merge with the existing record before calling)
+ * @returns Result object containing the updated consist with its units, or error
+ */
+export const updateConsist = async (db: NeonHttpDatabase<Record<string, never>>, id: number, data: Consist): Promise<Result> => {
 	if (!data)
 		return {
 			error: 'Missing body',
@@ -102,14 +362,34 @@ export const updateConsist = async (db: NeonHttpDatabase<Record<string, never>>,
 			error: 'Missing ID',
 		};
 
-	const existingFlag = await checkIfConsistInUse(db, data.number, id);
+	if (!data.club_id)
+		return {
+			error: 'Missing club ID',
+		};
 
-	if (existingFlag.error) {
+	const normalized = normalizeUnits(data.units);
+	if (normalized.error || !normalized.units) {
 		return {
-			error: existingFlag.error,
+			error: normalized.error,
 		};
 	}
 
+	if (data.in_use) {
+		const existingFlag = await checkIfConsistInUse(db, data.number, data.club_id, id);
+		if (existingFlag.error) {
+			return {
+				error: existingFlag.error,
+			};
+		}
+
+		const unitsFlag = await checkUnitsAvailable(db, data.club_id, normalized.units, id);
+		if (unitsFlag.error) {
+			return {
+				error: unitsFlag.error,
+			};
+		}
+	}
+
 	try {
 		const results = await db
 			.update(consists)
@@ -118,9 +398,10 @@ export const updateConsist = async (db: NeonHttpDatabase<Record<string, never>>,
 				in_use: data.in_use,
 				user_id: data.user_id,
 			})
-			.where(eq(consists.id, parseInt(id, 10)))
+			.where(eq(consists.id, id))
 			.returning();
-		return { data: results };
+		const units = await replaceUnits(db, id, normalized.units);
+		return { data: results.map((row) => ({ ...row, units })) };
 	} catch (error) {
 		return {
 			error,
@@ -128,17 +409,22 @@ export const updateConsist = async (db: NeonHttpDatabase<Record<string, never>>,
 	}
 };
 
-export const deleteConsist = async (db: NeonHttpDatabase<Record<string, never>>, id: string): Promise<Result> => {
+/**
+ * Breaks up a consist: releases its units and deletes it.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the consist to break up
+ * @returns Result object containing the deleted consist or error
+ */
+export const deleteConsist = async (db: NeonHttpDatabase<Record<string, never>>, id: number): Promise<Result> => {
 	if (!id)
 		return {
 			error: 'Missing ID',
 		};
 
 	try {
-		const results = await db
-			.delete(consists)
-			.where(eq(consists.id, parseInt(id, 10)))
-			.returning();
+		await db.delete(consistUnits).where(eq(consistUnits.consist_id, id));
+		const results = await db.delete(consists).where(eq(consists.id, id)).returning();
 		return { data: results };
 	} catch (error) {
 		return {
@@ -0,0 +1,333 @@
+import { Hono } from 'hono';
+import * as consistsModel from './model';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Router for consist-related API endpoints.
+ * Nested under club: /api/clubs/:clubId/consists
+ *
+ * A consist is an ordered list of club addresses (locomotives), each with a facing
+ * direction and a lead/trailing role. An address can only belong to one active consist.
+ *
+ * All routes require:
+ * - Authentication (checkAuth middleware)
+ * - User permission and club membership (checkUserPermission middleware)
+ *
+ * Members change and break up the consists they built; manage_addresses allows changing anyone's.
+ */
+export const consistsRouter = new Hono<{ Bindings: Env }>();
+
+// Apply auth middleware to all routes
+consistsRouter.use(checkAuth);
+consistsRouter.use(checkUserPermission);
+consistsRouter.use(authorize('consist', 'read'));
+
+/**
+ * GET all consists for a club
+ * Route: GET /api/clubs/:clubId/consists
+ *
+ * @example
+ * GET /api/clubs/789/consists
+ * Response: { result: [{ id: 1, number: 42, in_use: true, units: [{ address_id: 5, position: 1, direction: 'forward', role: 'lead' }, ...] }] }
+ *
+ * @throws Returns 400 if clubId is missing or database query fails
+ */
+consistsRouter.get('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await consistsModel.getConsistsByClubId(db, parseInt(clubId, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * GET a specific consist with its units
+ * Route: GET /api/clubs/:clubId/consists/:id
+ *
+ * @throws Returns 404 if consist not in this club
+ */
+consistsRouter.get('/:id', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing consist ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await consistsModel.getConsistByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (result.error || !result.data || result.data.length === 0) {
+			return c.json(
+				{
+					error: 'Consist not found in this club',
+				},
+				404
+			);
+		}
+		return c.json({
+			result: result.data[0],
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST build a consist
+ * Route: POST /api/clubs/:clubId/consists
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "number": 42,
+ *   "in_use": true,
+ *   "units": [
+ *     { "address_id": 5, "direction": "forward", "role": "lead" },
+ *     { "address_id": 9, "direction": "reversed" }
+ *   ]
+ * }
+ * ```
+ *
+ * @remarks
+ * - Units are listed front to back; position is taken from array order
+ * - direction defaults to 'forward'; role defaults to 'lead' for the first unit and 'trailing' otherwise
+ * - user_id is taken from the authenticated user
+ *
+ * @throws Returns 400 if fields are invalid, the number is taken, or a unit is already in another active consist
+ */
+consistsRouter.post('/', authorize('consist', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+		const userId = c.var.userId;
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		// Only allow specific fields for consists - prevent injection
+		const consistData: consistsModel.Consist = {
+			number: data.number,
+			in_use: data.in_use === undefined ? true : data.in_use,
+			user_id: typeof userId === 'string' ? parseInt(userId, 10) : userId,
+			club_id: parseInt(clubId, 10),
+			units: data.units,
+		};
+
+		const result = await consistsModel.createConsist(db, consistData);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				consist: result.data?.[0],
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * PUT modify a consist
+ * Route: PUT /api/clubs/:clubId/consists/:id
+ *
+ * All fields optional; omitted fields keep their existing values.
+ * Sending `units` replaces the consist's membership (add, remove, reorder or turn units).
+ *
+ * @throws Returns 400 if fields are invalid, 403 if the user did not build the consist, 404 if consist not in this club
+ */
+consistsRouter.put('/:id', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing consist ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+
+		const existing = await consistsModel.getConsistByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (existing.error || !existing.data || existing.data.length === 0) {
+			return c.json(
+				{
+					error: 'Consist not found in this club',
+				},
+				404
+			);
+		}
+
+		if (!isAllowed(c, 'write', 'consist', existing.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to consist',
+				},
+				403
+			);
+		}
+
+		const current = existing.data[0];
+		const consistData: consistsModel.Consist = {
+			number: data.number !== undefined ? data.number : current.number,
+			in_use: data.in_use !== undefined ? data.in_use : current.in_use,
+			user_id: current.user_id,
+			club_id: parseInt(clubId, 10),
+			units: data.units !== undefined ? data.units : current.units,
+		};
+
+		const result = await consistsModel.updateConsist(db, parseInt(id, 10), consistData);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			updated: true,
+			consist: result.data?.[0] || null,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * DELETE break up a consist
+ * Route: DELETE /api/clubs/:clubId/consists/:id
+ *
+ * Releases every unit so the addresses can join another consist, then removes the consist.
+ *
+ * @throws Returns 403 if the user did not build the consist, 404 if consist not in this club
+ */
+consistsRouter.delete('/:id', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const clubId = c.req.param('clubId');
+
+		if (!id || !clubId) {
+			return c.json(
+				{
+					error: 'Missing consist ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const existing = await consistsModel.getConsistByIdAndClubId(db, parseInt(id, 10), parseInt(clubId, 10));
+		if (existing.error || !existing.data || existing.data.length === 0) {
+			return c.json(
+				{
+					error: 'Consist not found in this club',
+				},
+				404
+			);
+		}
+
+		if (!isAllowed(c, 'write', 'consist', existing.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to consist',
+				},
+				403
+			);
+		}
+
+		const result = await consistsModel.deleteConsist(db, parseInt(id, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
@@ -1,5 +1,5 @@
 // db/schema.ts
-import { pgTable, serial, integer, text, boolean, primaryKey, date, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, serial, integer, text, boolean, primaryKey, date, timestamp, unique, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 export const addresses = pgTable('addresses', {
@@ -17,6 +17,18 @@ export const addresses = pgTable('addresses', {
 		.notNull()
 		.references(() => clubs.id),
 });
+export const addressReservations = pgTable('address_reservations', {
+	id: serial('id').primaryKey().notNull(),
+	club_id: integer('club_id')
+		.notNull()
+		.references(() => clubs.id),
+	start_number: integer('start_number').notNull(),
+	end_number: integer('end_number').notNull(),
+	kind: text('kind').notNull().default('reserved'), // reserved, allocation
+	user_id: integer('user_id').references(() => users.id),
+	description: text('description'),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
 export const consists = pgTable('consists', {
 	id: serial('id').primaryKey().notNull(),
 	number: integer('number').default(3).notNull(),
@@ -24,12 +36,29 @@ export const consists = pgTable('consists', {
 	user_id: integer('user_id')
 		.notNull()
 		.references(() => users.id),
+	club_id: integer('club_id').references(() => clubs.id),
+});
+export const consistUnits = pgTable('consist_units', {
+	id: serial('id').primaryKey().notNull(),
+	consist_id: integer('consist_id')
+		.notNull()
+		.references(() => consists.id),
+	address_id: integer('address_id')
+		.notNull()
+		.references(() => addresses.id),
+	position: integer('position').notNull(),
+	direction: text('direction').notNull().default('forward'), // forward, reversed
+	role: text('role').notNull().default('trailing'), // lead, trailing
 });
 export const clubs = pgTable('clubs', {
 	id: serial('id').primaryKey().notNull(),
 	name: text('name').notNull(),
 	description: text('description'),
 	hero_image: text('hero_image'),
+	timezone: text('timezone').notNull().default('UTC'),
+	dcc_default_address: integer('dcc_default_address').default(3), // decoders' factory address, never suggested as a free number; null suggests it too
+	hero_attachment_id: integer('hero_attachment_id').references((): AnyPgColumn => attachments.id, { onDelete: 'set null' }),
+	clerk_organization_id: text('clerk_organization_id').unique(), // Clerk organization whose memberships sync to this club
 });
 export const users = pgTable('users', {
 	id: serial('id').primaryKey().notNull(),
@@ -37,7 +66,17 @@ export const users = pgTable('users', {
 	first_name: text('first_name'),
 	last_name: text('last_name'),
 	email: text('email'),
-	permission: integer('permission_id').references(() => permissions.id),
+	permission: integer('permission_id').references(() => permissions.id), // platform-wide role; only super-admin is honoured, club roles are on users_to_clubs
+	last_sign_in_at: timestamp('last_sign_in_at', { mode: 'date' }),
+	deleted_at: timestamp('deleted_at', { mode: 'date' }), // set when the Clerk account is deleted; the row stays so reports and issues keep their author
+});
+export const calendarTokens = pgTable('calendar_tokens', {
+	user_id: integer('user_id')
+		.primaryKey()
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	token_hash: text('token_hash').notNull().unique(), // SHA-256 of the personal feed token; the token itself is never stored
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
 });
 export const ClubsRelations = relations(clubs, ({ many }) => ({
 	usersToClubs: many(usersToClubs),
@@ -51,6 +90,8 @@ export const usersToClubs = pgTable(
 		club_id: integer('club_id')
 			.notNull()
 			.references(() => clubs.id),
+		role_permission: integer('role_permission').references(() => permissions.id), // the member's role in this club, e.g. admin; null for a plain member
+		club_role_id: integer('club_role_id').references((): AnyPgColumn => clubRoles.id, { onDelete: 'set null' }), // a custom role defined by the club
 	},
 	(t) => ({
 		pk: primaryKey({ columns: [t.user_id, t.club_id] }),
@@ -71,15 +112,24 @@ export const permissions = pgTable('permissions', {
 	title: text('title').notNull(),
 });
 
-export const appointments = pgTable('appointments', {
-	id: serial('id').primaryKey().notNull(),
-	schedule: timestamp('schedule', { mode: 'date' }),
-	duration: integer('number').default(3).notNull(),
-	user_id: integer('user_id')
-		.notNull()
-		.references(() => users.id),
-	scheduled_session_id: integer('scheduled_session_id').references(() => scheduledSessions.id),
-});
+export const appointments = pgTable(
+	'appointments',
+	{
+		id: serial('id').primaryKey().notNull(),
+		schedule: timestamp('schedule', { mode: 'date' }),
+		duration: integer('number').default(3).notNull(),
+		user_id: integer('user_id')
+			.notNull()
+			.references(() => users.id),
+		scheduled_session_id: integer('scheduled_session_id').references(() => scheduledSessions.id),
+		role: text('role'), // dispatcher, yardmaster, road_crew, tower_operator
+		status: text('status').notNull().default('confirmed'), // confirmed, waitlisted, cancelled
+		created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+	},
+	(t) => ({
+		sessionUser: unique('appointments_session_user_unique').on(t.scheduled_session_id, t.user_id), // one sign-up per member per session; a cancelled one is reused
+	})
+);
 
 export const inviteTokens = pgTable('invite_tokens', {
 	id: serial('id').primaryKey().notNull(),
@@ -130,28 +180,140 @@ export const issues = pgTable('issues', {
 		.references(() => users.id),
 	title: text('title').notNull(),
 	type: text('type').notNull(),
-	status: text('status').notNull(),
+	status: text('status').notNull(), // open, triaged, in_progress, blocked, resolved, closed
 	description: text('description'),
+	assignee_id: integer('assignee_id').references(() => users.id),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+	updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const issueHistory = pgTable('issue_history', {
+	id: serial('id').primaryKey().notNull(),
+	issue_id: integer('issue_id')
+		.notNull()
+		.references(() => issues.id),
+	user_id: integer('user_id')
+		.notNull()
+		.references(() => users.id),
+	from_status: text('from_status'),
+	to_status: text('to_status').notNull(),
+	note: text('note'),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const comments = pgTable('comments', {
+	id: serial('id').primaryKey().notNull(),
+	issue_id: integer('issue_id').references(() => issues.id),
+	tower_report_id: integer('tower_report_id').references(() => towerReports.id),
+	parent_id: integer('parent_id').references((): AnyPgColumn => comments.id),
+	user_id: integer('user_id')
+		.notNull()
+		.references(() => users.id),
+	body: text('body'),
+	deleted_at: timestamp('deleted_at', { mode: 'date' }),
 	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
 	updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
 });
 
+export const attachments = pgTable('attachments', {
+	id: serial('id').primaryKey().notNull(),
+	club_id: integer('club_id')
+		.notNull()
+		.references(() => clubs.id),
+	user_id: integer('user_id')
+		.notNull()
+		.references(() => users.id),
+	issue_id: integer('issue_id').references(() => issues.id, { onDelete: 'set null' }),
+	tower_report_id: integer('tower_report_id').references(() => towerReports.id, { onDelete: 'set null' }),
+	key: text('key').notNull().unique(), // R2 object key
+	filename: text('filename').notNull(),
+	content_type: text('content_type').notNull(),
+	size: integer('size').notNull(),
+	width: integer('width'),
+	height: integer('height'),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
 export const emailQueue = pgTable('email_queue', {
 	id: serial('id').primaryKey().notNull(),
 	recipient_email: text('recipient_email').notNull(),
 	subject: text('subject').notNull(),
 	body: text('body').notNull(),
 	html_body: text('html_body'),
-	status: text('status').notNull().default('pending'), // pending, sent, failed
+	template_name: text('template_name'), // set when rendered from a code-defined template
+	template_version: integer('template_version'),
+	user_id: integer('user_id').references(() => users.id, { onDelete: 'set null' }), // member the email is for, when known
+	club_id: integer('club_id').references(() => clubs.id, { onDelete: 'set null' }),
+	category: text('category'), // notification category, checked against notification_preferences
+	unsubscribe_url: text('unsubscribe_url'), // signed one-click link, also sent as List-Unsubscribe
+	status: text('status').notNull().default('pending'), // pending, processing, sent, failed
+	worker_id: text('worker_id'), // sender holding the lease while processing
+	lease_expires_at: timestamp('lease_expires_at', { mode: 'date' }),
 	retry_count: integer('retry_count').notNull().default(0),
 	max_retries: integer('max_retries').notNull().default(3),
 	last_error: text('last_error'),
+	error_class: text('error_class'), // transient, permanent
+	next_attempt_at: timestamp('next_attempt_at', { mode: 'date' }), // earliest retry after a transient failure
 	scheduled_at: timestamp('scheduled_at', { mode: 'date' }),
 	sent_at: timestamp('sent_at', { mode: 'date' }),
 	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
 	updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
 });
 
+export const notificationPreferences = pgTable(
+	'notification_preferences',
+	{
+		user_id: integer('user_id')
+			.notNull()
+			.references(() => users.id),
+		club_id: integer('club_id')
+			.notNull()
+			.references(() => clubs.id),
+		category: text('category').notNull(), // session_reminders, notices, tower_issues, application_alerts
+		delivery: text('delivery').notNull().default('immediate'), // immediate, daily_digest, weekly_digest, off
+		updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
+	},
+	(t) => ({
+		pk: primaryKey({ columns: [t.user_id, t.club_id, t.category] }),
+	})
+);
+
+export const emailSuppressions = pgTable('email_suppressions', {
+	email: text('email').primaryKey().notNull(), // lowercased
+	reason: text('reason').notNull(), // unsubscribed
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const digestRuns = pgTable(
+	'digest_runs',
+	{
+		id: serial('id').primaryKey().notNull(),
+		club_id: integer('club_id')
+			.notNull()
+			.references(() => clubs.id),
+		period: text('period').notNull(), // daily, weekly
+		period_start: timestamp('period_start', { mode: 'date' }).notNull(),
+		queued: integer('queued').notNull().default(0),
+		created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+	},
+	(t) => ({
+		clubPeriod: unique('digest_runs_club_period_unique').on(t.club_id, t.period, t.period_start),
+	})
+);
+
+export const emailAttempts = pgTable('email_attempts', {
+	id: serial('id').primaryKey().notNull(),
+	email_id: integer('email_id')
+		.notNull()
+		.references(() => emailQueue.id, { onDelete: 'cascade' }), // history goes with the email
+	attempt: integer('attempt').notNull(),
+	worker_id: text('worker_id'),
+	outcome: text('outcome').notNull(), // sent, failed
+	error: text('error'),
+	error_class: text('error_class'), // transient, permanent
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
 export const scheduledSessions = pgTable('scheduled_sessions', {
 	id: serial('id').primaryKey().notNull(),
 	schedule: timestamp('schedule', { mode: 'date' }).notNull(),
@@ -159,6 +321,60 @@ export const scheduledSessions = pgTable('scheduled_sessions', {
 		.notNull()
 		.references(() => clubs.id),
 	description: text('description'),
+	capacity: integer('capacity'),
+	series_id: integer('series_id').references(() => sessionSeries.id),
+	occurrence_date: timestamp('occurrence_date', { mode: 'date' }),
+});
+
+export const sessionSeries = pgTable('session_series', {
+	id: serial('id').primaryKey().notNull(),
+	club_id: integer('club_id')
+		.notNull()
+		.references(() => clubs.id),
+	rrule: text('rrule').notNull(),
+	dtstart: timestamp('dtstart', { mode: 'date' }).notNull(),
+	description: text('description'),
+	capacity: integer('capacity'),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+	updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const sessionSeriesExceptions = pgTable('session_series_exceptions', {
+	id: serial('id').primaryKey().notNull(),
+	series_id: integer('series_id')
+		.notNull()
+		.references(() => sessionSeries.id),
+	occurrence_date: timestamp('occurrence_date', { mode: 'date' }).notNull(),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const sessionReminders = pgTable(
+	'session_reminders',
+	{
+		id: serial('id').primaryKey().notNull(),
+		appointment_id: integer('appointment_id')
+			.notNull()
+			.references(() => appointments.id, { onDelete: 'cascade' }),
+		scheduled_session_id: integer('scheduled_session_id')
+			.notNull()
+			.references(() => scheduledSessions.id, { onDelete: 'cascade' }),
+		offset_minutes: integer('offset_minutes').notNull(),
+		session_at: timestamp('session_at', { mode: 'date' }).notNull(), // session start the reminder was for
+		email_id: integer('email_id').references(() => emailQueue.id, { onDelete: 'set null' }), // null when skipped by preference
+		created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+	},
+	(t) => ({
+		appointmentOffset: unique('session_reminders_appointment_offset_unique').on(t.appointment_id, t.offset_minutes),
+	})
+);
+
+export const sessionRoles = pgTable('session_roles', {
+	id: serial('id').primaryKey().notNull(),
+	scheduled_session_id: integer('scheduled_session_id')
+		.notNull()
+		.references(() => scheduledSessions.id),
+	role: text('role').notNull(), // dispatcher, yardmaster, road_crew, tower_operator
+	slots: integer('slots').notNull().default(1),
 });
 
 export const notices = pgTable('notices', {
@@ -191,6 +407,148 @@ export const applications = pgTable('applications', {
 	collection_size: text('collection_size'),
 	has_other_model_railroad_associations: boolean('has_other_model_railroad_associations'),
 	will_agree_to_club_rules: boolean('will_agree_to_club_rules'),
+	status: text('status').notNull().default('submitted'), // submitted, under_review, interview_scheduled, approved, rejected, withdrawn
+	reviewer_id: integer('reviewer_id').references(() => users.id),
+	interview_at: timestamp('interview_at', { mode: 'date' }),
+	decided_at: timestamp('decided_at', { mode: 'date' }),
+	decision_note: text('decision_note'),
+	invite_token_id: integer('invite_token_id').references(() => inviteTokens.id, { onDelete: 'set null' }),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+	updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const applicationSubmissions = pgTable('application_submissions', {
+	id: serial('id').primaryKey().notNull(),
+	club_id: integer('club_id')
+		.notNull()
+		.references(() => clubs.id),
+	ip_address: text('ip_address'),
+	email: text('email'),
+	phone_number: text('phone_number'),
+	outcome: text('outcome').notNull(), // accepted, rejected
+	reason: text('reason'), // honeypot, rate_limited_ip, rate_limited_email, duplicate, challenge_failed
+	application_id: integer('application_id').references(() => applications.id, { onDelete: 'set null' }),
+	payload: text('payload'), // JSON of the rejected submission, for admin review
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const applicationNotes = pgTable('application_notes', {
+	id: serial('id').primaryKey().notNull(),
+	application_id: integer('application_id')
+		.notNull()
+		.references(() => applications.id),
+	user_id: integer('user_id')
+		.notNull()
+		.references(() => users.id),
+	body: text('body').notNull(),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const applicationVotes = pgTable(
+	'application_votes',
+	{
+		application_id: integer('application_id')
+			.notNull()
+			.references(() => applications.id),
+		user_id: integer('user_id')
+			.notNull()
+			.references(() => users.id),
+		vote: text('vote').notNull(), // approve, reject, abstain
+		comment: text('comment'),
+		created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+		updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
+	},
+	(t) => ({
+		pk: primaryKey({ columns: [t.application_id, t.user_id] }),
+	})
+);
+
+export const clubWebhooks = pgTable('club_webhooks', {
+	id: serial('id').primaryKey().notNull(),
+	club_id: integer('club_id')
+		.notNull()
+		.references(() => clubs.id, { onDelete: 'cascade' }),
+	url: text('url').notNull(),
+	description: text('description'),
+	secret: text('secret').notNull(), // signs each delivery; shown to the admin once, when created
+	events: text('events').notNull(), // comma-separated event types, e.g. issue.created,notice.published
+	active: boolean('active').notNull().default(true),
+	created_by: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
 	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
 	updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
 });
+
+export const clubWebhookDeliveries = pgTable('club_webhook_deliveries', {
+	id: serial('id').primaryKey().notNull(),
+	webhook_id: integer('webhook_id')
+		.notNull()
+		.references(() => clubWebhooks.id, { onDelete: 'cascade' }),
+	event_id: text('event_id').notNull(), // shared by every delivery of the same event
+	event_type: text('event_type').notNull(),
+	payload: text('payload').notNull(), // JSON body sent to the endpoint
+	status: text('status').notNull().default('pending'), // pending, delivered, failed
+	attempts: integer('attempts').notNull().default(0),
+	next_attempt_at: timestamp('next_attempt_at', { mode: 'date' }).notNull().defaultNow(), // also pushed ahead while a delivery is being sent
+	response_status: integer('response_status'),
+	response_body: text('response_body'), // first part of the last response, for the delivery log
+	last_error: text('last_error'),
+	delivered_at: timestamp('delivered_at', { mode: 'date' }),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+	updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const clerkWebhookEvents = pgTable('clerk_webhook_events', {
+	svix_id: text('svix_id').primaryKey().notNull(), // Clerk resends the same svix-id on retries
+	event_type: text('event_type').notNull(),
+	received_at: timestamp('received_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const clubRoles = pgTable(
+	'club_roles',
+	{
+		id: serial('id').primaryKey().notNull(),
+		club_id: integer('club_id')
+			.notNull()
+			.references(() => clubs.id, { onDelete: 'cascade' }),
+		name: text('name').notNull(),
+		capabilities: text('capabilities').notNull(), // comma-separated capabilities, e.g. manage_sessions,manage_notices
+		created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+		updated_at: timestamp('updated_at', { mode: 'date' }).notNull().defaultNow(),
+	},
+	(t) => ({
+		clubName: unique().on(t.club_id, t.name),
+	})
+);
+
+export const apiKeys = pgTable('api_keys', {
+	id: serial('id').primaryKey().notNull(),
+	user_id: integer('user_id')
+		.notNull()
+		.references(() => users.id, { onDelete: 'cascade' }),
+	club_id: integer('club_id')
+		.notNull()
+		.references(() => clubs.id, { onDelete: 'cascade' }),
+	name: text('name').notNull(),
+	prefix: text('prefix').notNull(), // first characters of the key, to tell keys apart in listings
+	key_hash: text('key_hash').notNull().unique(), // SHA-256 of the key; the key itself is never stored
+	scopes: text('scopes').notNull(), // comma-separated scopes, e.g. read:sessions,write:reports
+	expires_at: timestamp('expires_at', { mode: 'date' }),
+	last_used_at: timestamp('last_used_at', { mode: 'date' }),
+	revoked_at: timestamp('revoked_at', { mode: 'date' }),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const refreshTokens = pgTable('refresh_tokens', {
+	id: serial('id').primaryKey().notNull(),
+	token_hash: text('token_hash').notNull().unique(), // SHA-256 of the refresh token; the token itself is never stored
+	family_id: text('family_id').notNull(), // every token rotated from one sign-in; revoked together when one is reused
+	used_at: timestamp('used_at', { mode: 'date' }), // when it was exchanged; presenting it again is a reuse
+	revoked_at: timestamp('revoked_at', { mode: 'date' }),
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
+
+export const refreshAttempts = pgTable('refresh_attempts', {
+	id: serial('id').primaryKey().notNull(),
+	ip_address: text('ip_address').notNull(), // rows older than the rate limit window are pruned
+	created_at: timestamp('created_at', { mode: 'date' }).notNull().defaultNow(),
+});
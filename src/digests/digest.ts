@@ -0,0 +1,255 @@
+/**
+ * Club Digests
+ *
+ * Queues daily and weekly summary emails of club activity for members who chose digest
+ * delivery. Runs from the Cron Trigger; each club's digest for a period is sent once, recorded
+ * in digest_runs, and each member only sees the categories they receive in that digest and
+ * their role allows.
+ *
+ * @module digests/digest
+ */
+
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import * as digestsModel from './model';
+import { emailQueueService } from '../emailQueue/service';
+import { escapeHtml } from '../emailTemplates/render';
+import { DIGEST_CATEGORY } from '../notificationPreferences/model';
+import { UnsubscribeConfig } from '../notificationPreferences/unsubscribe';
+import { formatSessionTime } from '../sessionReminders/reminders';
+import { DEFAULT_APP_URL } from '../applications/routes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days ahead a digest looks for sessions with open slots and notices about to expire
+ */
+export const DIGEST_LOOKAHEAD_DAYS: Record<digestsModel.DigestPeriod, number> = {
+	daily: 7,
+	weekly: 14,
+};
+
+export interface DigestOptions {
+	/** Base URL of the web app, for session links */
+	appUrl?: string;
+	/** Signing settings for unsubscribe links */
+	unsubscribe?: UnsubscribeConfig | null;
+	now?: Date;
+	/** Queueing operation; emailQueueService by default, injectable for tests */
+	queue?: Pick<typeof emailQueueService, 'queueEmail'>;
+}
+
+export interface DigestSummary {
+	/** Clubs whose digest was sent in this run */
+	clubs: number;
+	queued: number;
+	/** Digests not queued because of an unsubscribe */
+	skipped: number;
+	/** Members with nothing to report for the period */
+	empty: number;
+	failed: number;
+}
+
+/**
+ * Computes the last completed period a digest covers: the previous UTC day for daily digests,
+ * and the previous Monday-to-Sunday UTC week for weekly digests.
+ *
+ * @param period - Digest period
+ * @param now - The current time
+ * @returns The period's start and end, and the lookahead date for upcoming items
+ */
+export const digestWindow = (period: digestsModel.DigestPeriod, now: Date): digestsModel.DigestWindow => {
+	const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+	// getUTCDay() is 0 for Sunday; count days since Monday
+	const end = period === 'daily' ? today : today - ((now.getUTCDay() + 6) % 7) * DAY_MS;
+	const start = end - (period === 'daily' ? 1 : 7) * DAY_MS;
+
+	return {
+		start: new Date(start),
+		end: new Date(end),
+		lookaheadUntil: new Date(now.getTime() + DIGEST_LOOKAHEAD_DAYS[period] * DAY_MS),
+	};
+};
+
+const section = (title: string, items: string[]) => {
+	if (items.length === 0) {
+		return '';
+	}
+	return `<h2 style="font-size:18px;margin:24px 0 8px;">${escapeHtml(title)}</h2>
+<ul>
+${items.map((item) => `<li>${item}</li>`).join('\n')}
+</ul>`;
+};
+
+const describeIssue = (issue: digestsModel.DigestIssue) =>
+	`<strong>${escapeHtml(issue.title)}</strong> on ${escapeHtml(issue.tower_name)} (${escapeHtml(issue.status)})`;
+
+/**
+ * Builds the digest sections one member should see.
+ *
+ * Tower activity is limited to towers the member owns unless they can triage issues, and
+ * pending applications are only shown to members who review applications.
+ *
+ * @param activity - The club's activity for the period
+ * @param recipient - The member, their role and the categories they receive in the digest
+ * @param appUrl - Base URL of the web app
+ * @returns The sections as HTML, or an empty string when there is nothing to report
+ */
+export const buildDigestSections = (
+	activity: digestsModel.ClubActivity,
+	recipient: digestsModel.DigestRecipient,
+	appUrl: string = DEFAULT_APP_URL
+): string => {
+	const base = appUrl.replace(/\/+$/, '');
+	const receives = (category: (typeof recipient.categories)[number]) => recipient.categories.includes(category);
+	const sections: string[] = [];
+
+	if (receives('tower_issues')) {
+		const visible = <T extends { owner_id: number }>(items: T[]) =>
+			recipient.capabilities.includes('triage_issues') ? items : items.filter((item) => item.owner_id === recipient.user_id);
+
+		sections.push(section('New issues', visible(activity.new_issues).map(describeIssue)));
+		sections.push(section('Resolved issues', visible(activity.resolved_issues).map(describeIssue)));
+		sections.push(
+			section(
+				'Tower reports filed',
+				visible(activity.tower_reports).map(
+					(report) =>
+						`<strong>${escapeHtml(report.tower_name)}</strong> on ${formatSessionTime(report.report_at, activity.timezone).date}${
+							report.description ? `: ${escapeHtml(report.description)}` : ''
+						}`
+				)
+			)
+		);
+	}
+
+	if (receives('session_reminders')) {
+		sections.push(
+			section(
+				'Upcoming sessions with open slots',
+				activity.upcoming_sessions.map((session) => {
+					const { date, time } = formatSessionTime(session.schedule, activity.timezone);
+					const slots =
+						session.capacity === null ? 'open to all' : `${session.capacity - session.confirmed} of ${session.capacity} slots open`;
+					return `<a href="${escapeHtml(`${base}/sessions/${session.id}`)}"><strong>${escapeHtml(
+						session.description || 'Operating session'
+					)}</strong></a> on ${date} at ${time} (${slots})`;
+				})
+			)
+		);
+	}
+
+	if (receives('notices')) {
+		sections.push(
+			section(
+				'Notices expiring soon',
+				activity.expiring_notices.map(
+					(notice) => `${escapeHtml(notice.description)} (expires ${formatSessionTime(notice.expires_at, activity.timezone).date})`
+				)
+			)
+		);
+	}
+
+	if (receives('application_alerts') && recipient.capabilities.includes('review_applications')) {
+		sections.push(
+			section(
+				'Pending applications',
+				activity.pending_applications.map(
+					(application) => `<strong>${escapeHtml(application.name || 'Unnamed applicant')}</strong> (${escapeHtml(application.status)})`
+				)
+			)
+		);
+	}
+
+	return sections.filter(Boolean).join('\n');
+};
+
+/**
+ * Queues the digests due for a period.
+ *
+ * For each club with members on this digest, claims the club's run for the last completed
+ * period, collects the club's activity once and queues a `club_digest` email to each member
+ * with something to report. Runs already claimed are skipped, so the job can run as often as
+ * the Cron Trigger fires.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param period - Digest period
+ * @param options - App URL, unsubscribe settings and clock
+ * @returns Result object with counts of clubs, queued, skipped, empty and failed digests, or error message
+ */
+export const sendClubDigests = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	period: digestsModel.DigestPeriod,
+	options: DigestOptions = {}
+): Promise<digestsModel.Result<DigestSummary>> => {
+	const now = options.now ?? new Date();
+	const appUrl = options.appUrl || DEFAULT_APP_URL;
+	const queue = options.queue ?? emailQueueService;
+	const window = digestWindow(period, now);
+	const summary: DigestSummary = { clubs: 0, queued: 0, skipped: 0, empty: 0, failed: 0 };
+
+	const clubIds = await digestsModel.getClubsWithDigestRecipients(db, period);
+	if (clubIds.error) {
+		return { error: clubIds.error };
+	}
+
+	for (const clubId of clubIds.data!) {
+		const claim = await digestsModel.claimDigestRun(db, clubId, period, window.start);
+		if (claim.error) {
+			return { error: claim.error };
+		}
+		if (!claim.data) {
+			// Already sent for this period
+			continue;
+		}
+
+		const recipients = await digestsModel.getDigestRecipients(db, clubId, period);
+		const activity = recipients.error ? null : await digestsModel.getClubActivity(db, clubId, window, now);
+		if (recipients.error || !activity || activity.error) {
+			console.error(`Failed to collect the ${period} digest for club ${clubId}:`, recipients.error || activity?.error);
+			await digestsModel.releaseDigestRun(db, claim.data);
+			summary.failed++;
+			continue;
+		}
+		summary.clubs++;
+
+		let queuedForClub = 0;
+		for (const recipient of recipients.data!) {
+			const sectionsHtml = buildDigestSections(activity.data!, recipient, appUrl);
+			if (!sectionsHtml) {
+				summary.empty++;
+				continue;
+			}
+
+			const queued = await queue.queueEmail(
+				db,
+				{
+					recipient_email: recipient.email,
+					template: 'club_digest',
+					variables: {
+						name: recipient.first_name,
+						period,
+						sections_html: sectionsHtml,
+					},
+					user_id: recipient.user_id,
+					club_id: clubId,
+					category: DIGEST_CATEGORY,
+				},
+				options.unsubscribe
+			);
+
+			if (queued.error || !queued.data) {
+				console.error(`Failed to queue the ${period} digest for user ${recipient.user_id}:`, queued.error);
+				summary.failed++;
+			} else if (queued.data.queued) {
+				queuedForClub++;
+				summary.queued++;
+			} else {
+				summary.skipped++;
+			}
+		}
+
+		await digestsModel.completeDigestRun(db, claim.data, queuedForClub);
+	}
+
+	return { data: summary };
+};
@@ -0,0 +1,401 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { alias } from 'drizzle-orm/pg-core';
+import { and, asc, eq, gt, gte, inArray, isNotNull, lt, lte } from 'drizzle-orm';
+import {
+	appointments,
+	applications,
+	clubRoles,
+	clubs,
+	digestRuns,
+	issueHistory,
+	issues,
+	notices,
+	notificationPreferences,
+	permissions,
+	scheduledSessions,
+	towerReports,
+	towers,
+	users,
+	usersToClubs,
+} from '../db/schema';
+import { DECIDED_STATUSES } from '../applications/workflow';
+import { hasAdminPermission } from '../utils/auth';
+import { Capability, capabilitiesFor, parseCapabilities } from '../clubRoles/capabilities';
+import { NotificationCategory } from '../notificationPreferences/model';
+
+/**
+ * Digest frequencies, each matching a notification delivery option
+ */
+export const DIGEST_PERIODS = ['daily', 'weekly'] as const;
+export type DigestPeriod = (typeof DIGEST_PERIODS)[number];
+
+export const DIGEST_DELIVERY: Record<DigestPeriod, 'daily_digest' | 'weekly_digest'> = {
+	daily: 'daily_digest',
+	weekly: 'weekly_digest',
+};
+
+/**
+ * The stretch of time a digest covers, and how far ahead it looks for upcoming sessions and
+ * expiring notices
+ */
+export interface DigestWindow {
+	start: Date;
+	end: Date;
+	lookaheadUntil: Date;
+}
+
+export interface DigestIssue {
+	id: number;
+	title: string;
+	status: string;
+	tower_id: number;
+	tower_name: string;
+	owner_id: number;
+}
+
+export interface DigestTowerReport {
+	id: number;
+	description: string | null;
+	report_at: Date;
+	tower_id: number;
+	tower_name: string;
+	owner_id: number;
+}
+
+export interface DigestSession {
+	id: number;
+	schedule: Date;
+	description: string | null;
+	capacity: number | null;
+	confirmed: number;
+}
+
+export interface DigestApplication {
+	id: number;
+	name: string | null;
+	status: string;
+	created_at: Date;
+}
+
+export interface DigestNotice {
+	id: number;
+	description: string;
+	type: string | null;
+	expires_at: Date;
+}
+
+/**
+ * Everything that happened in a club during a digest window
+ */
+export interface ClubActivity {
+	/** The club's timezone, for showing session and notice times */
+	timezone: string;
+	new_issues: DigestIssue[];
+	resolved_issues: DigestIssue[];
+	tower_reports: DigestTowerReport[];
+	/** Sessions before the lookahead date with open slots; capacity null means unlimited */
+	upcoming_sessions: DigestSession[];
+	pending_applications: DigestApplication[];
+	expiring_notices: DigestNotice[];
+}
+
+/**
+ * A member who receives one or more categories in a digest
+ */
+export interface DigestRecipient {
+	user_id: number;
+	email: string;
+	first_name: string | null;
+	/** What the member may do in the club; decides which sections they see */
+	capabilities: Capability[];
+	categories: NotificationCategory[];
+}
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+/**
+ * Retrieves the clubs where at least one member receives the given digest.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param period - Digest period
+ * @returns Result object containing club IDs, or error message
+ */
+export const getClubsWithDigestRecipients = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	period: DigestPeriod
+): Promise<Result<number[]>> => {
+	try {
+		const results = await db
+			.selectDistinct({ club_id: notificationPreferences.club_id })
+			.from(notificationPreferences)
+			.where(eq(notificationPreferences.delivery, DIGEST_DELIVERY[period]));
+
+		return {
+			data: results.map((row) => row.club_id),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves the members of a club who receive the given digest, with the categories they
+ * receive in it. Only club members and super-admins are included, with their capabilities in
+ * the club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param period - Digest period
+ * @returns Result object containing the recipients, or error message
+ */
+export const getDigestRecipients = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	period: DigestPeriod
+): Promise<Result<DigestRecipient[]>> => {
+	const roleTitles = alias(permissions, 'role_titles');
+	try {
+		const rows = await db
+			.select({
+				user_id: users.id,
+				email: users.email,
+				first_name: users.first_name,
+				permission: permissions.title,
+				club_role: roleTitles.title,
+				custom_capabilities: clubRoles.capabilities,
+				member_club_id: usersToClubs.club_id,
+				category: notificationPreferences.category,
+			})
+			.from(notificationPreferences)
+			.innerJoin(users, eq(notificationPreferences.user_id, users.id))
+			.leftJoin(permissions, eq(users.permission, permissions.id))
+			.leftJoin(usersToClubs, and(eq(usersToClubs.user_id, users.id), eq(usersToClubs.club_id, clubId)))
+			.leftJoin(roleTitles, eq(usersToClubs.role_permission, roleTitles.id))
+			.leftJoin(clubRoles, eq(usersToClubs.club_role_id, clubRoles.id))
+			.where(
+				and(
+					eq(notificationPreferences.club_id, clubId),
+					eq(notificationPreferences.delivery, DIGEST_DELIVERY[period]),
+					isNotNull(users.email)
+				)
+			);
+
+		const recipients = new Map<number, DigestRecipient>();
+		for (const row of rows) {
+			const isSuperAdmin = row.permission === 'super-admin';
+			const isMember = !!row.member_club_id;
+			if (!row.email || (!isMember && !isSuperAdmin)) {
+				continue;
+			}
+			const recipient = recipients.get(row.user_id) ?? {
+				user_id: row.user_id,
+				email: row.email,
+				first_name: row.first_name,
+				capabilities: capabilitiesFor({
+					isSuperAdmin,
+					isMember,
+					isAdmin: hasAdminPermission(row.club_role),
+					customCapabilities: parseCapabilities(row.custom_capabilities),
+				}),
+				categories: [],
+			};
+			recipient.categories.push(row.category as NotificationCategory);
+			recipients.set(row.user_id, recipient);
+		}
+
+		return {
+			data: [...recipients.values()],
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Collects a club's activity for a digest window.
+ *
+ * Issues are new if created in the window and resolved if moved to resolved in the window.
+ * Sessions are listed if they start before the lookahead date and have open slots; notices if
+ * they expire before it.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @param window - Period covered and lookahead date
+ * @param now - The current time, the start of the lookahead
+ * @returns Result object containing the club's activity, or error message
+ */
+export const getClubActivity = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	window: DigestWindow,
+	now: Date = new Date()
+): Promise<Result<ClubActivity>> => {
+	try {
+		const club = await db.select({ timezone: clubs.timezone }).from(clubs).where(eq(clubs.id, clubId));
+		if (club.length === 0) {
+			return {
+				error: 'Club not found',
+			};
+		}
+
+		const issueFields = {
+			id: issues.id,
+			title: issues.title,
+			status: issues.status,
+			tower_id: towers.id,
+			tower_name: towers.name,
+			owner_id: towers.owner_id,
+		};
+
+		const newIssues = await db
+			.select(issueFields)
+			.from(issues)
+			.innerJoin(towers, eq(issues.tower_id, towers.id))
+			.where(and(eq(towers.club_id, clubId), gte(issues.created_at, window.start), lt(issues.created_at, window.end)))
+			.orderBy(asc(issues.created_at));
+
+		const resolvedIssues = await db
+			.selectDistinct(issueFields)
+			.from(issueHistory)
+			.innerJoin(issues, eq(issueHistory.issue_id, issues.id))
+			.innerJoin(towers, eq(issues.tower_id, towers.id))
+			.where(
+				and(
+					eq(towers.club_id, clubId),
+					eq(issueHistory.to_status, 'resolved'),
+					gte(issueHistory.created_at, window.start),
+					lt(issueHistory.created_at, window.end)
+				)
+			);
+
+		const reports = await db
+			.select({
+				id: towerReports.id,
+				description: towerReports.description,
+				report_at: towerReports.report_at,
+				tower_id: towers.id,
+				tower_name: towers.name,
+				owner_id: towers.owner_id,
+			})
+			.from(towerReports)
+			.innerJoin(towers, eq(towerReports.tower_id, towers.id))
+			.where(and(eq(towers.club_id, clubId), gte(towerReports.created_at, window.start), lt(towerReports.created_at, window.end)))
+			.orderBy(asc(towerReports.report_at));
+
+		const sessions = await db
+			.select({
+				id: scheduledSessions.id,
+				schedule: scheduledSessions.schedule,
+				description: scheduledSessions.description,
+				capacity: scheduledSessions.capacity,
+			})
+			.from(scheduledSessions)
+			.where(
+				and(
+					eq(scheduledSessions.club_id, clubId),
+					gt(scheduledSessions.schedule, now),
+					lte(scheduledSessions.schedule, window.lookaheadUntil)
+				)
+			)
+			.orderBy(asc(scheduledSessions.schedule));
+
+		const signups =
+			sessions.length > 0
+				? await db
+						.select({ scheduled_session_id: appointments.scheduled_session_id })
+						.from(appointments)
+						.where(
+							and(
+								inArray(
+									appointments.scheduled_session_id,
+									sessions.map((session) => session.id)
+								),
+								eq(appointments.status, 'confirmed')
+							)
+						)
+				: [];
+
+		const pendingApplications = await db
+			.select({ id: applications.id, name: applications.name, status: applications.status, created_at: applications.created_at })
+			.from(applications)
+			.where(eq(applications.club_id, clubId))
+			.orderBy(asc(applications.created_at));
+
+		const expiringNotices = await db
+			.select({ id: notices.id, description: notices.description, type: notices.type, expires_at: notices.expires_at })
+			.from(notices)
+			.where(and(eq(notices.club_id, clubId), gt(notices.expires_at, now), lte(notices.expires_at, window.lookaheadUntil)))
+			.orderBy(asc(notices.expires_at));
+
+		return {
+			data: {
+				timezone: club[0].timezone,
+				new_issues: newIssues,
+				resolved_issues: resolvedIssues,
+				tower_reports: reports,
+				upcoming_sessions: sessions
+					.map((session) => ({
+						...session,
+						confirmed: signups.filter((signup) => signup.scheduled_session_id === session.id).length,
+					}))
+					.filter((session) => session.capacity === null || session.confirmed < session.capacity),
+				pending_applications: pendingApplications.filter((application) => !(DECIDED_STATUSES as string[]).includes(application.status)),
+				expiring_notices: expiringNotices as DigestNotice[],
+			},
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Records that a club's digest for a period is being sent. The unique (club, period, start)
+ * constraint makes sure each digest goes out once, however often the job runs.
+ *
+ * @returns Result object containing the run ID, or null if the digest was already sent
+ */
+export const claimDigestRun = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	period: DigestPeriod,
+	periodStart: Date
+): Promise<Result<number | null>> => {
+	try {
+		const results = await db
+			.insert(digestRuns)
+			.values({ club_id: clubId, period, period_start: periodStart })
+			.onConflictDoNothing()
+			.returning({ id: digestRuns.id });
+
+		return {
+			data: results[0]?.id ?? null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Records how many digests a run queued.
+ */
+export const completeDigestRun = async (db: NeonHttpDatabase<Record<string, never>>, id: number, queued: number) => {
+	await db.update(digestRuns).set({ queued }).where(eq(digestRuns.id, id));
+};
+
+/**
+ * Removes a claimed run whose club activity could not be collected, so the next run tries again.
+ */
+export const releaseDigestRun = async (db: NeonHttpDatabase<Record<string, never>>, id: number) => {
+	await db.delete(digestRuns).where(eq(digestRuns.id, id));
+};
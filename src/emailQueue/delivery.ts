@@ -0,0 +1,115 @@
+/**
+ * Email Delivery
+ *
+ * Drains the email queue from inside the Worker. Emails are claimed through
+ * emailQueueService, handed to a transport, and reported back as sent or failed under the
+ * same lease, so delivery from the Worker can run alongside external senders.
+ *
+ * @module emailQueue/delivery
+ */
+
+import { emailQueueService } from './service';
+import { DEFAULT_LEASE_SECONDS, EmailQueueItem, Result } from './model';
+import { EmailTransport, OutgoingEmail } from './transports';
+import { listUnsubscribeHeaders } from '../notificationPreferences/unsubscribe';
+
+/**
+ * Sender address used when EMAIL_FROM_ADDRESS is not set
+ */
+export const DEFAULT_FROM = { email: 'noreply@locomotivehouse.com', name: 'Locomotive House' };
+
+/**
+ * The queue operations delivery needs; emailQueueService by default, injectable for tests
+ */
+export type DeliveryQueue = Pick<typeof emailQueueService, 'claimNextBatch' | 'markAsSent' | 'markAsFailed'>;
+
+export interface DeliveryOptions {
+	/** Identifies this run's lease on the emails it claims */
+	workerId: string;
+	/** Sender address for every email */
+	from?: { email: string; name?: string };
+	/** Emails claimed per batch (default 20) */
+	batchSize?: number;
+	/** Batches to send before stopping, to stay within the invocation's time limits (default 5) */
+	maxBatches?: number;
+	/** Seconds the run holds each batch (default DEFAULT_LEASE_SECONDS) */
+	leaseSeconds?: number;
+	queue?: DeliveryQueue;
+}
+
+export interface DeliverySummary {
+	claimed: number;
+	sent: number;
+	failed: number;
+	/** Results that could not be recorded because the lease had lapsed or the update failed */
+	unrecorded: number;
+}
+
+/**
+ * Builds the message a transport sends for a queued email, with List-Unsubscribe headers
+ * when the email carries an unsubscribe link.
+ */
+export const toOutgoingEmail = (email: EmailQueueItem, from: { email: string; name?: string }): OutgoingEmail => {
+	return {
+		to: email.recipient_email,
+		from,
+		subject: email.subject,
+		text: email.body,
+		html: email.html_body,
+		...(email.unsubscribe_url && { headers: listUnsubscribeHeaders(email.unsubscribe_url) }),
+	};
+};
+
+/**
+ * Claims due emails in batches and sends them through the transport until the queue is
+ * drained or maxBatches is reached.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param transport - Transport to send through
+ * @param options - Worker ID, sender address and batch limits
+ * @returns Result object with counts of claimed, sent and failed emails, or the claim error
+ */
+export const deliverQueuedEmails = async (
+	db: any,
+	transport: EmailTransport,
+	options: DeliveryOptions
+): Promise<Result<DeliverySummary>> => {
+	const queue = options.queue ?? emailQueueService;
+	const from = options.from ?? DEFAULT_FROM;
+	const batchSize = options.batchSize ?? 20;
+	const maxBatches = options.maxBatches ?? 5;
+	const summary: DeliverySummary = { claimed: 0, sent: 0, failed: 0, unrecorded: 0 };
+
+	for (let batch = 0; batch < maxBatches; batch++) {
+		const claimed = await queue.claimNextBatch(db, options.workerId, batchSize, options.leaseSeconds ?? DEFAULT_LEASE_SECONDS);
+		if (claimed.error) {
+			return { error: claimed.error };
+		}
+
+		const emails = claimed.data!;
+		summary.claimed += emails.length;
+
+		for (const email of emails) {
+			const result = await transport.send(toOutgoingEmail(email, from));
+
+			const update = result.ok
+				? await queue.markAsSent(db, email.id, options.workerId)
+				: await queue.markAsFailed(db, email.id, options.workerId, result.error, result.errorClass);
+
+			if (update.error) {
+				console.error(`Failed to record delivery of email ${email.id}:`, update.error);
+				summary.unrecorded++;
+			} else if (result.ok) {
+				summary.sent++;
+			} else {
+				summary.failed++;
+			}
+		}
+
+		if (emails.length < batchSize) {
+			break;
+		}
+	}
+
+	return { data: summary };
+};
@@ -8,8 +8,10 @@
  * @module emailQueue/model
  */
 
-import { emailQueue } from '../db/schema';
-import { eq, asc, desc } from 'drizzle-orm';
+import { emailAttempts, emailQueue } from '../db/schema';
+import { and, asc, count, desc, eq, gt, gte, inArray, isNull, lt, lte, or, sql, SQL } from 'drizzle-orm';
+import { renderEmail } from '../emailTemplates/render';
+import { EmailErrorClass, FailedEmailFilters } from './retry';
 
 /**
  * Email Queue Item
@@ -22,10 +24,20 @@ import { eq, asc, desc } from 'drizzle-orm';
  * @property {string} subject - Email subject line
  * @property {string} body - Plain text body of the email
  * @property {string | null} html_body - Optional HTML version of the email body
- * @property {'pending' | 'sent' | 'failed'} status - Current status of the email
+ * @property {string | null} template_name - Template the email was rendered from, if any
+ * @property {number | null} template_version - Version of that template
+ * @property {number | null} user_id - Member the email is for, if any
+ * @property {number | null} club_id - Club the email was sent on behalf of, if any
+ * @property {string | null} category - Notification category, used for preferences and unsubscribe
+ * @property {string | null} unsubscribe_url - Signed one-click unsubscribe link
+ * @property {'pending' | 'processing' | 'sent' | 'failed'} status - Current status of the email
  * @property {number} retry_count - Number of times sending has been attempted
  * @property {number} max_retries - Maximum number of retry attempts allowed
  * @property {string | null} last_error - Error message from last failed attempt
+ * @property {'transient' | 'permanent' | null} error_class - Class of the last error
+ * @property {Date | null} next_attempt_at - Earliest time the email may be retried
+ * @property {string | null} worker_id - Sender holding the lease while the email is processing
+ * @property {Date | null} lease_expires_at - When that lease lapses and the email returns to pending
  * @property {Date | null} scheduled_at - Optional datetime to send the email
  * @property {Date | null} sent_at - Datetime when email was successfully sent
  * @property {Date} created_at - Datetime when record was created
@@ -37,16 +49,61 @@ export interface EmailQueueItem {
 	subject: string;
 	body: string;
 	html_body?: string | null;
-	status: 'pending' | 'sent' | 'failed';
+	template_name?: string | null;
+	template_version?: number | null;
+	user_id?: number | null;
+	club_id?: number | null;
+	category?: string | null;
+	unsubscribe_url?: string | null;
+	status: 'pending' | 'processing' | 'sent' | 'failed';
 	retry_count: number;
 	max_retries: number;
 	last_error?: string | null;
+	error_class?: EmailErrorClass | null;
+	next_attempt_at?: Date | null;
+	worker_id?: string | null;
+	lease_expires_at?: Date | null;
 	scheduled_at?: Date | null;
 	sent_at?: Date | null;
 	created_at: Date;
 	updated_at: Date;
 }
 
+/**
+ * Email Attempt
+ *
+ * One recorded attempt to send a queued email
+ *
+ * @interface EmailAttempt
+ * @property {number} id - Unique identifier for the attempt
+ * @property {number} email_id - Email the attempt was for
+ * @property {number} attempt - Attempt number, starting at 1
+ * @property {string | null} worker_id - Sender that made the attempt
+ * @property {'sent' | 'failed'} outcome - Result of the attempt
+ * @property {string | null} error - Error reported for a failed attempt
+ * @property {'transient' | 'permanent' | null} error_class - Class of that error
+ * @property {Date} created_at - Datetime the attempt was reported
+ */
+export interface EmailAttempt {
+	id: number;
+	email_id: number;
+	attempt: number;
+	worker_id?: string | null;
+	outcome: 'sent' | 'failed';
+	error?: string | null;
+	error_class?: EmailErrorClass | null;
+	created_at: Date;
+}
+
+/**
+ * Dead-Letter Email
+ *
+ * A failed email together with its full attempt history, oldest attempt first
+ */
+export interface DeadLetterEmail extends EmailQueueItem {
+	attempts: EmailAttempt[];
+}
+
 /**
  * Create Email Queue Request
  *
@@ -57,6 +114,12 @@ export interface EmailQueueItem {
  * @property {string} subject - Email subject line (required)
  * @property {string} body - Plain text body of the email (required)
  * @property {string} [html_body] - Optional HTML version of the body
+ * @property {string} [template_name] - Template the email was rendered from
+ * @property {number} [template_version] - Version of that template
+ * @property {number} [user_id] - Member the email is for
+ * @property {number} [club_id] - Club the email is sent on behalf of
+ * @property {string} [category] - Notification category, checked against the member's preferences
+ * @property {string} [unsubscribe_url] - Signed one-click unsubscribe link
  * @property {number} [max_retries=3] - Maximum retry attempts before marking as failed
  * @property {Date} [scheduled_at] - Optional datetime to defer sending
  */
@@ -65,6 +128,42 @@ export interface CreateEmailQueueRequest {
 	subject: string;
 	body: string;
 	html_body?: string;
+	template_name?: string;
+	template_version?: number;
+	user_id?: number | null;
+	club_id?: number | null;
+	category?: string | null;
+	unsubscribe_url?: string | null;
+	max_retries?: number;
+	scheduled_at?: Date;
+}
+
+/**
+ * Create Templated Email Request
+ *
+ * Request payload for queueing an email rendered from a named template
+ *
+ * @interface CreateTemplatedEmailRequest
+ * @property {string} recipient_email - Email address of recipient (required)
+ * @property {string} template - Template name, e.g. 'invite' (required)
+ * @property {number} [template_version] - Template version; defaults to the latest
+ * @property {Record<string, unknown>} [variables] - Template variables
+ * @property {number} [club_id] - Club whose branding to use
+ * @property {number} [user_id] - Member the email is for
+ * @property {string} [category] - Notification category, checked against the member's preferences
+ * @property {string} [unsubscribe_url] - Signed one-click unsubscribe link, added to the footer
+ * @property {number} [max_retries=3] - Maximum retry attempts before marking as failed
+ * @property {Date} [scheduled_at] - Optional datetime to defer sending
+ */
+export interface CreateTemplatedEmailRequest {
+	recipient_email: string;
+	template: string;
+	template_version?: number;
+	variables?: Record<string, unknown>;
+	club_id?: number | null;
+	user_id?: number | null;
+	category?: string | null;
+	unsubscribe_url?: string | null;
 	max_retries?: number;
 	scheduled_at?: Date;
 }
@@ -75,16 +174,106 @@ export interface CreateEmailQueueRequest {
  * Request payload for updating an email in the queue
  *
  * @interface UpdateEmailQueueRequest
- * @property {'pending' | 'sent' | 'failed'} [status] - Update the email status
+ * @property {'pending' | 'processing' | 'sent' | 'failed'} [status] - Update the email status
  * @property {number} [retry_count] - Update the retry count
  * @property {string} [last_error] - Update the last error message
  * @property {Date} [sent_at] - Set the sent timestamp
+ * @property {string | null} [worker_id] - Set or clear the sender holding the lease
+ * @property {Date | null} [lease_expires_at] - Set or clear the lease expiry
+ * @property {'transient' | 'permanent' | null} [error_class] - Set or clear the class of the last error
+ * @property {Date | null} [next_attempt_at] - Set or clear the earliest retry time
  */
 export interface UpdateEmailQueueRequest {
-	status?: 'pending' | 'sent' | 'failed';
+	status?: 'pending' | 'processing' | 'sent' | 'failed';
 	retry_count?: number;
-	last_error?: string;
+	last_error?: string | null;
 	sent_at?: Date;
+	worker_id?: string | null;
+	lease_expires_at?: Date | null;
+	error_class?: EmailErrorClass | null;
+	next_attempt_at?: Date | null;
+}
+
+/**
+ * Default number of seconds a sender holds claimed emails before they return to pending
+ */
+export const DEFAULT_LEASE_SECONDS = 300;
+
+/**
+ * Error returned when a sender reports on an email it no longer holds the lease for
+ */
+export const LEASE_LOST_ERROR = 'Lease expired or held by another worker';
+
+/**
+ * Conditions for a pending email that may be sent now: not scheduled for later and not
+ * waiting out a retry backoff.
+ */
+const isDue = (now: Date) =>
+	and(
+		eq(emailQueue.status, 'pending'),
+		or(isNull(emailQueue.scheduled_at), lte(emailQueue.scheduled_at, now)),
+		or(isNull(emailQueue.next_attempt_at), lte(emailQueue.next_attempt_at, now))
+	);
+
+/**
+ * Conditions selecting failed emails that match the given filters. Failure time is the
+ * email's updated_at, which is set when it is marked as failed.
+ */
+const failedEmailConditions = (filters: FailedEmailFilters) => {
+	const conditions: SQL[] = [eq(emailQueue.status, 'failed')];
+	if (filters.error_class) {
+		conditions.push(eq(emailQueue.error_class, filters.error_class));
+	}
+	if (filters.failed_after) {
+		conditions.push(gte(emailQueue.updated_at, filters.failed_after));
+	}
+	if (filters.failed_before) {
+		conditions.push(lt(emailQueue.updated_at, filters.failed_before));
+	}
+	if (filters.recipient_domain) {
+		conditions.push(sql`lower(${emailQueue.recipient_email}) like ${'%@' + filters.recipient_domain.toLowerCase()}`);
+	}
+	return and(...conditions);
+};
+
+/**
+ * Queue Statistics
+ *
+ * Aggregate health and throughput figures for the email queue. Rates and averages cover
+ * the last 24 hours.
+ *
+ * @interface QueueStats
+ * @property {number} pending_count - Emails waiting to be sent, including scheduled and backing-off emails
+ * @property {number} processing_count - Emails currently leased to a sender
+ * @property {number} sent_count - Emails sent
+ * @property {number} failed_count - Emails in the dead-letter view
+ * @property {number} total_count - All emails in the queue
+ * @property {Date | null} oldest_pending_since - When the longest-waiting due email became due
+ * @property {number | null} oldest_pending_age_seconds - How long that email has been waiting
+ * @property {number} sent_last_hour - Emails sent in the last hour
+ * @property {number} sent_last_day - Emails sent in the last 24 hours
+ * @property {number | null} average_delivery_seconds - Mean time from created_at to sent_at for emails sent in the last 24 hours
+ * @property {number} attempts_last_day - Send attempts reported in the last 24 hours
+ * @property {number} failure_rate - Share of those attempts that failed, from 0 to 1
+ * @property {Array<{error: string | null, count: number, rate: number}>} failures_by_error - Most common failure messages
+ *   in the last 24 hours, with each one's share of all attempts
+ * @property {Date} generated_at - When the statistics were computed
+ */
+export interface QueueStats {
+	pending_count: number;
+	processing_count: number;
+	sent_count: number;
+	failed_count: number;
+	total_count: number;
+	oldest_pending_since: Date | null;
+	oldest_pending_age_seconds: number | null;
+	sent_last_hour: number;
+	sent_last_day: number;
+	average_delivery_seconds: number | null;
+	attempts_last_day: number;
+	failure_rate: number;
+	failures_by_error: { error: string | null; count: number; rate: number }[];
+	generated_at: Date;
 }
 
 /**
@@ -132,6 +321,12 @@ export const emailQueueModel = {
 					subject: request.subject,
 					body: request.body,
 					html_body: request.html_body,
+					template_name: request.template_name,
+					template_version: request.template_version,
+					user_id: request.user_id,
+					club_id: request.club_id,
+					category: request.category,
+					unsubscribe_url: request.unsubscribe_url,
 					max_retries: request.max_retries ?? 3,
 					scheduled_at: request.scheduled_at,
 				})
@@ -143,6 +338,46 @@ export const emailQueueModel = {
 		}
 	},
 
+	/**
+	 * Render a template and queue the result
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {CreateTemplatedEmailRequest} request - Recipient, template and variables
+	 * @returns {Promise<Result<EmailQueueItem>>} Created email record or error
+	 *
+	 * @example
+	 * const result = await emailQueueModel.createTemplatedEmail(db, {
+	 *   recipient_email: 'user@example.com',
+	 *   template: 'application_received',
+	 *   variables: { name: 'Dana' },
+	 *   club_id: 1
+	 * });
+	 */
+	async createTemplatedEmail(db: any, request: CreateTemplatedEmailRequest): Promise<Result<EmailQueueItem>> {
+		const rendered = await renderEmail(db, {
+			template: request.template,
+			version: request.template_version,
+			variables: request.variables,
+			clubId: request.club_id,
+			unsubscribeUrl: request.unsubscribe_url ?? undefined,
+		});
+		if (rendered.error || !rendered.data) {
+			return { error: rendered.error instanceof Error ? rendered.error.message : String(rendered.error) };
+		}
+
+		return emailQueueModel.createEmail(db, {
+			recipient_email: request.recipient_email,
+			...rendered.data,
+			user_id: request.user_id,
+			club_id: request.club_id,
+			category: request.category,
+			unsubscribe_url: request.unsubscribe_url,
+			max_retries: request.max_retries,
+			scheduled_at: request.scheduled_at,
+		});
+	},
+
 	/**
 	 * Get an email by ID
 	 *
@@ -171,7 +406,7 @@ export const emailQueueModel = {
 	 * @async
 	 * @param {any} db - Database instance
 	 * @param {Object} [filters] - Optional filter criteria
-	 * @param {'pending' | 'sent' | 'failed'} [filters.status] - Filter by email status
+	 * @param {'pending' | 'processing' | 'sent' | 'failed'} [filters.status] - Filter by email status
 	 * @param {number} [filters.limit] - Maximum number of results to return
 	 * @param {number} [filters.offset] - Number of results to skip
 	 * @param {'asc' | 'desc'} [filters.order='desc'] - Sort order by creation date
@@ -180,7 +415,7 @@ export const emailQueueModel = {
 	async listEmails(
 		db: any,
 		filters?: {
-			status?: 'pending' | 'sent' | 'failed';
+			status?: 'pending' | 'processing' | 'sent' | 'failed';
 			limit?: number;
 			offset?: number;
 			order?: 'asc' | 'desc';
@@ -267,8 +502,9 @@ export const emailQueueModel = {
 	/**
 	 * Get pending emails for processing
 	 *
-	 * Returns emails with status='pending' ordered by oldest first (FIFO).
-	 * Used by external email services to fetch emails to send.
+	 * Returns emails with status='pending' that are due (scheduled_at and next_attempt_at
+	 * empty or passed) ordered by oldest first (FIFO). The emails are not leased; senders that
+	 * may run concurrently should use claimEmails instead.
 	 *
 	 * @async
 	 * @param {any} db - Database instance
@@ -281,7 +517,7 @@ export const emailQueueModel = {
 			const results = await db
 				.select()
 				.from(emailQueue)
-				.where(eq(emailQueue.status, 'pending'))
+				.where(isDue(now))
 				.orderBy(asc(emailQueue.created_at))
 				.limit(limit);
 
@@ -316,4 +552,325 @@ export const emailQueueModel = {
 			return { error: `Failed to fetch failed emails: ${error}` };
 		}
 	},
+
+	/**
+	 * Claim due pending emails for a sender
+	 *
+	 * Atomically moves up to `limit` due pending emails to 'processing', recording the
+	 * sender's worker ID and a lease expiry. Rows are selected with FOR UPDATE SKIP LOCKED
+	 * inside a single UPDATE statement, so concurrent senders never claim the same email.
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {string} workerId - Identifier of the sender claiming the emails
+	 * @param {number} [limit=10] - Maximum number of emails to claim
+	 * @param {number} [leaseSeconds=DEFAULT_LEASE_SECONDS] - How long the sender holds the emails
+	 * @returns {Promise<Result<EmailQueueItem[]>>} Claimed emails, oldest first, or error
+	 */
+	async claimEmails(
+		db: any,
+		workerId: string,
+		limit: number = 10,
+		leaseSeconds: number = DEFAULT_LEASE_SECONDS
+	): Promise<Result<EmailQueueItem[]>> {
+		try {
+			const now = new Date();
+			const due = db
+				.select({ id: emailQueue.id })
+				.from(emailQueue)
+				.where(isDue(now))
+				.orderBy(asc(emailQueue.created_at))
+				.limit(limit)
+				.for('update', { skipLocked: true });
+
+			const results: EmailQueueItem[] = await db
+				.update(emailQueue)
+				.set({
+					status: 'processing',
+					worker_id: workerId,
+					lease_expires_at: new Date(now.getTime() + leaseSeconds * 1000),
+					updated_at: now,
+				})
+				.where(and(inArray(emailQueue.id, due), eq(emailQueue.status, 'pending')))
+				.returning();
+
+			return { data: results.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()) };
+		} catch (error) {
+			return { error: `Failed to claim emails: ${error}` };
+		}
+	},
+
+	/**
+	 * Return emails whose lease has expired to pending
+	 *
+	 * Used before claiming so that emails held by a sender that crashed or timed out
+	 * are picked up again.
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @returns {Promise<Result<EmailQueueItem[]>>} Released emails or error
+	 */
+	async releaseExpiredLeases(db: any): Promise<Result<EmailQueueItem[]>> {
+		try {
+			const results = await db
+				.update(emailQueue)
+				.set({
+					status: 'pending',
+					worker_id: null,
+					lease_expires_at: null,
+					updated_at: new Date(),
+				})
+				.where(and(eq(emailQueue.status, 'processing'), lte(emailQueue.lease_expires_at, new Date())))
+				.returning();
+
+			return { data: results };
+		} catch (error) {
+			return { error: `Failed to release expired leases: ${error}` };
+		}
+	},
+
+	/**
+	 * Update an email the sender holds the lease for
+	 *
+	 * The update only applies while the email is still 'processing' under the given
+	 * worker ID and the lease has not expired. The lease is cleared as part of the update.
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {number} id - Email ID to update
+	 * @param {string} workerId - Identifier of the sender that claimed the email
+	 * @param {UpdateEmailQueueRequest} updates - Fields to update
+	 * @returns {Promise<Result<EmailQueueItem>>} Updated email record, or LEASE_LOST_ERROR if
+	 * the sender no longer holds the lease
+	 */
+	async updateLeasedEmail(db: any, id: number, workerId: string, updates: UpdateEmailQueueRequest): Promise<Result<EmailQueueItem>> {
+		try {
+			const now = new Date();
+			const [result] = await db
+				.update(emailQueue)
+				.set({
+					...updates,
+					worker_id: null,
+					lease_expires_at: null,
+					updated_at: now,
+				})
+				.where(
+					and(
+						eq(emailQueue.id, id),
+						eq(emailQueue.status, 'processing'),
+						eq(emailQueue.worker_id, workerId),
+						gt(emailQueue.lease_expires_at, now)
+					)
+				)
+				.returning();
+
+			if (!result) {
+				const existing = await emailQueueModel.getEmail(db, id);
+				return { error: existing.error ?? LEASE_LOST_ERROR };
+			}
+
+			return { data: result };
+		} catch (error) {
+			return { error: `Failed to update email: ${error}` };
+		}
+	},
+
+	/**
+	 * Record an attempt to send an email
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {Omit<EmailAttempt, 'id' | 'created_at'>} attempt - Attempt details
+	 * @returns {Promise<Result<EmailAttempt>>} Recorded attempt or error
+	 */
+	async recordAttempt(db: any, attempt: Omit<EmailAttempt, 'id' | 'created_at'>): Promise<Result<EmailAttempt>> {
+		try {
+			const [result] = await db.insert(emailAttempts).values(attempt).returning();
+
+			return { data: result };
+		} catch (error) {
+			return { error: `Failed to record email attempt: ${error}` };
+		}
+	},
+
+	/**
+	 * Get the attempt history for emails
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {number[]} emailIds - Emails to fetch attempts for
+	 * @returns {Promise<Result<EmailAttempt[]>>} Attempts ordered by email, then attempt number, or error
+	 */
+	async getEmailAttempts(db: any, emailIds: number[]): Promise<Result<EmailAttempt[]>> {
+		if (emailIds.length === 0) {
+			return { data: [] };
+		}
+
+		try {
+			const results = await db
+				.select()
+				.from(emailAttempts)
+				.where(inArray(emailAttempts.email_id, emailIds))
+				.orderBy(asc(emailAttempts.email_id), asc(emailAttempts.attempt));
+
+			return { data: results };
+		} catch (error) {
+			return { error: `Failed to fetch email attempts: ${error}` };
+		}
+	},
+
+	/**
+	 * Get the dead-letter view of failed emails
+	 *
+	 * Returns failed emails matching the filters, most recent failures first, each with
+	 * its full attempt history.
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {FailedEmailFilters} [filters] - Error class, failure date range and recipient domain
+	 * @param {number} [limit=50] - Maximum number of emails to return
+	 * @returns {Promise<Result<DeadLetterEmail[]>>} Failed emails with attempts or error
+	 */
+	async getDeadLetterEmails(db: any, filters: FailedEmailFilters = {}, limit: number = 50): Promise<Result<DeadLetterEmail[]>> {
+		try {
+			const emails: EmailQueueItem[] = await db
+				.select()
+				.from(emailQueue)
+				.where(failedEmailConditions(filters))
+				.orderBy(desc(emailQueue.updated_at))
+				.limit(limit);
+
+			const attemptsResult = await emailQueueModel.getEmailAttempts(
+				db,
+				emails.map((email) => email.id)
+			);
+			if (attemptsResult.error) {
+				return attemptsResult;
+			}
+
+			return {
+				data: emails.map((email) => ({
+					...email,
+					attempts: attemptsResult.data!.filter((attempt) => attempt.email_id === email.id),
+				})),
+			};
+		} catch (error) {
+			return { error: `Failed to fetch dead-letter emails: ${error}` };
+		}
+	},
+
+	/**
+	 * Return failed emails to pending for a fresh set of attempts
+	 *
+	 * Resets retry_count and clears the last error and retry time of every failed email
+	 * matching the filters.
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {FailedEmailFilters} filters - Error class, failure date range and recipient domain
+	 * @returns {Promise<Result<EmailQueueItem[]>>} Emails returned to pending or error
+	 */
+	async retryFailedEmails(db: any, filters: FailedEmailFilters): Promise<Result<EmailQueueItem[]>> {
+		try {
+			const results = await db
+				.update(emailQueue)
+				.set({
+					status: 'pending',
+					retry_count: 0,
+					last_error: null,
+					error_class: null,
+					next_attempt_at: null,
+					updated_at: new Date(),
+				})
+				.where(failedEmailConditions(filters))
+				.returning();
+
+			return { data: results };
+		} catch (error) {
+			return { error: `Failed to retry failed emails: ${error}` };
+		}
+	},
+
+	/**
+	 * Get aggregate statistics about the email queue
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {number} [topErrors=10] - Number of failure messages to include in failures_by_error
+	 * @param {Date} [now] - Time to compute the statistics at (defaults to the current time)
+	 * @returns {Promise<Result<QueueStats>>} Queue statistics or error
+	 */
+	async getQueueStats(db: any, topErrors: number = 10, now: Date = new Date()): Promise<Result<QueueStats>> {
+		try {
+			const hourAgo = new Date(now.getTime() - 60 * 60 * 1000);
+			const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+
+			const statusCounts: { status: string; count: number }[] = await db
+				.select({ status: emailQueue.status, count: count() })
+				.from(emailQueue)
+				.groupBy(emailQueue.status);
+
+			const [oldest] = await db
+				.select({
+					since: sql<Date | null>`min(coalesce(${emailQueue.next_attempt_at}, ${emailQueue.scheduled_at}, ${emailQueue.created_at}))`.mapWith(
+						emailQueue.created_at
+					),
+				})
+				.from(emailQueue)
+				.where(isDue(now));
+
+			const [throughput] = await db
+				.select({
+					sent_last_hour: sql<number>`count(*) filter (where ${gte(emailQueue.sent_at, hourAgo)})`.mapWith(Number),
+					sent_last_day: count(),
+					average_delivery_seconds: sql<number | null>`avg(extract(epoch from (${emailQueue.sent_at} - ${emailQueue.created_at})))`.mapWith(
+						Number
+					),
+				})
+				.from(emailQueue)
+				.where(and(eq(emailQueue.status, 'sent'), gte(emailQueue.sent_at, dayAgo)));
+
+			const [attempts] = await db
+				.select({
+					total: count(),
+					failed: sql<number>`count(*) filter (where ${eq(emailAttempts.outcome, 'failed')})`.mapWith(Number),
+				})
+				.from(emailAttempts)
+				.where(gte(emailAttempts.created_at, dayAgo));
+
+			const failures: { error: string | null; count: number }[] = await db
+				.select({ error: emailAttempts.error, count: count() })
+				.from(emailAttempts)
+				.where(and(eq(emailAttempts.outcome, 'failed'), gte(emailAttempts.created_at, dayAgo)))
+				.groupBy(emailAttempts.error)
+				.orderBy(desc(count()))
+				.limit(topErrors);
+
+			const countFor = (status: string) => statusCounts.find((row) => row.status === status)?.count ?? 0;
+			const since: Date | null = oldest?.since ?? null;
+			const attemptCount = attempts?.total ?? 0;
+			const rate = (value: number) => (attemptCount > 0 ? value / attemptCount : 0);
+
+			return {
+				data: {
+					pending_count: countFor('pending'),
+					processing_count: countFor('processing'),
+					sent_count: countFor('sent'),
+					failed_count: countFor('failed'),
+					total_count: statusCounts.reduce((total, row) => total + row.count, 0),
+					oldest_pending_since: since,
+					oldest_pending_age_seconds: since ? Math.max(0, Math.floor((now.getTime() - since.getTime()) / 1000)) : null,
+					sent_last_hour: throughput?.sent_last_hour ?? 0,
+					sent_last_day: throughput?.sent_last_day ?? 0,
+					average_delivery_seconds: throughput?.average_delivery_seconds ?? null,
+					attempts_last_day: attemptCount,
+					failure_rate: rate(attempts?.failed ?? 0),
+					failures_by_error: failures.map((row) => ({ ...row, rate: rate(row.count) })),
+					generated_at: now,
+				},
+			};
+		} catch (error) {
+			return { error: `Failed to fetch queue stats: ${error}` };
+		}
+	},
 };
@@ -0,0 +1,111 @@
+/**
+ * Email Retry Policy
+ *
+ * Decides whether a failed send is worth retrying and when. Permanent errors (bad addresses,
+ * hard bounces, suppressed recipients) go straight to the dead-letter view; transient errors
+ * are retried with exponential backoff until the email's max_retries is reached.
+ *
+ * @module emailQueue/retry
+ */
+
+import { BackoffOptions } from '../utils/backoff';
+import type { Result } from './model';
+
+export const EMAIL_ERROR_CLASSES = ['transient', 'permanent'] as const;
+export type EmailErrorClass = (typeof EMAIL_ERROR_CLASSES)[number];
+
+/**
+ * Backoff between attempts: about a minute after the first failure, doubling up to six hours
+ */
+export const EMAIL_RETRY_BACKOFF: BackoffOptions = {
+	baseMs: 60 * 1000,
+	maxMs: 6 * 60 * 60 * 1000,
+};
+
+// SMTP 55x replies and 5.x.x enhanced status codes, plus the wording providers use for
+// addresses that will never accept mail. HTTP 5xx errors from a provider API are transient.
+const PERMANENT_ERROR_PATTERNS = [
+	/\b55[0-4]\b/,
+	/\b5\.\d{1,3}\.\d{1,3}\b/,
+	/hard[\s-]?bounce/i,
+	/invalid (email|recipient|address|mailbox)/i,
+	/(user|recipient|address) (unknown|rejected)/i,
+	/no such (user|mailbox|recipient)/i,
+	/mailbox (unavailable|not found|does not exist)/i,
+	/does not exist/i,
+	/suppress(ed|ion)/i,
+	/unsubscribed/i,
+];
+
+export const isEmailErrorClass = (value: unknown): value is EmailErrorClass => {
+	return typeof value === 'string' && (EMAIL_ERROR_CLASSES as readonly string[]).includes(value);
+};
+
+/**
+ * Classifies a send error reported by a sender.
+ *
+ * @param message - Error message from the sender or email provider
+ * @returns 'permanent' if the error means the email can never be delivered, otherwise 'transient'
+ */
+export const classifyEmailError = (message: string): EmailErrorClass => {
+	return PERMANENT_ERROR_PATTERNS.some((pattern) => pattern.test(message)) ? 'permanent' : 'transient';
+};
+
+/**
+ * Filters for selecting failed emails to inspect or retry
+ *
+ * @property {EmailErrorClass} [error_class] - Only emails whose last error had this class
+ * @property {Date} [failed_after] - Only emails that failed at or after this time
+ * @property {Date} [failed_before] - Only emails that failed before this time
+ * @property {string} [recipient_domain] - Only emails sent to this domain, e.g. 'example.com'
+ */
+export interface FailedEmailFilters {
+	error_class?: EmailErrorClass;
+	failed_after?: Date;
+	failed_before?: Date;
+	recipient_domain?: string;
+}
+
+const DOMAIN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+const parseDate = (value: unknown): Date | null => {
+	const date = new Date(String(value));
+	return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parses failed-email filters from a query string or request body.
+ *
+ * @param input - Raw values for error_class, failed_after, failed_before and recipient_domain
+ * @returns The parsed filters, or an error describing the first invalid value
+ */
+export const parseFailedEmailFilters = (input: Record<string, unknown>): Result<FailedEmailFilters> => {
+	const filters: FailedEmailFilters = {};
+
+	if (input.error_class !== undefined && input.error_class !== '') {
+		if (!isEmailErrorClass(input.error_class)) {
+			return { error: `error_class must be one of: ${EMAIL_ERROR_CLASSES.join(', ')}` };
+		}
+		filters.error_class = input.error_class;
+	}
+
+	for (const key of ['failed_after', 'failed_before'] as const) {
+		if (input[key] !== undefined && input[key] !== '') {
+			const date = parseDate(input[key]);
+			if (!date) {
+				return { error: `${key} must be a valid date` };
+			}
+			filters[key] = date;
+		}
+	}
+
+	if (input.recipient_domain !== undefined && input.recipient_domain !== '') {
+		const domain = String(input.recipient_domain).replace(/^@/, '').toLowerCase();
+		if (!DOMAIN.test(domain)) {
+			return { error: 'recipient_domain must be a domain name, e.g. example.com' };
+		}
+		filters.recipient_domain = domain;
+	}
+
+	return { data: filters };
+};
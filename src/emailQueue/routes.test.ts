@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { emailQueueModel, CreateEmailQueueRequest, EmailQueueItem } from './model';
+import { emailQueueModel, CreateEmailQueueRequest, EmailQueueItem, LEASE_LOST_ERROR } from './model';
+import { emailQueueService } from './service';
 
 // Mock data
 const mockEmail: EmailQueueItem = {
@@ -246,4 +247,328 @@ describe('Email Queue Model', () => {
 			expect(result.error).toBeUndefined();
 		});
 	});
+	describe('claimEmails', () => {
+		it('should lease due pending emails to the worker', async () => {
+			const claimed = { ...mockEmail, status: 'processing' as const, worker_id: 'mailer-1' };
+			const set = vi.fn().mockReturnValueOnce({
+				where: vi.fn().mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValueOnce([claimed]),
+				}),
+			});
+			const forUpdate = vi.fn().mockReturnValueOnce({});
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockReturnValueOnce({
+						orderBy: vi.fn().mockReturnValueOnce({
+							limit: vi.fn().mockReturnValueOnce({ for: forUpdate }),
+						}),
+					}),
+				}),
+			});
+			mockDb.update.mockReturnValueOnce({ set });
+
+			const before = Date.now();
+			const result = await emailQueueModel.claimEmails(mockDb, 'mailer-1', 5, 120);
+
+			expect(result.data).toEqual([claimed]);
+			expect(forUpdate).toHaveBeenCalledWith('update', { skipLocked: true });
+			const values = set.mock.calls[0][0];
+			expect(values).toMatchObject({ status: 'processing', worker_id: 'mailer-1' });
+			expect(values.lease_expires_at.getTime()).toBeGreaterThanOrEqual(before + 120 * 1000);
+		});
+	});
+
+	describe('updateLeasedEmail', () => {
+		it('should update the email and clear the lease', async () => {
+			const set = vi.fn().mockReturnValueOnce({
+				where: vi.fn().mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValueOnce([{ ...mockEmail, status: 'sent' }]),
+				}),
+			});
+			mockDb.update.mockReturnValueOnce({ set });
+
+			const result = await emailQueueModel.updateLeasedEmail(mockDb, 1, 'mailer-1', { status: 'sent' });
+
+			expect(result.data?.status).toBe('sent');
+			expect(set.mock.calls[0][0]).toMatchObject({ status: 'sent', worker_id: null, lease_expires_at: null });
+		});
+
+		it('should reject the update when the worker no longer holds the lease', async () => {
+			mockDb.update.mockReturnValueOnce({
+				set: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockReturnValueOnce({
+						returning: vi.fn().mockResolvedValueOnce([]),
+					}),
+				}),
+			});
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockResolvedValueOnce([{ ...mockEmail, status: 'processing', worker_id: 'mailer-2' }]),
+				}),
+			});
+
+			const result = await emailQueueModel.updateLeasedEmail(mockDb, 1, 'mailer-1', { status: 'sent' });
+
+			expect(result.error).toBe(LEASE_LOST_ERROR);
+		});
+
+		it('should report a missing email as not found', async () => {
+			mockDb.update.mockReturnValueOnce({
+				set: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockReturnValueOnce({
+						returning: vi.fn().mockResolvedValueOnce([]),
+					}),
+				}),
+			});
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockResolvedValueOnce([]),
+				}),
+			});
+
+			const result = await emailQueueModel.updateLeasedEmail(mockDb, 999, 'mailer-1', { status: 'sent' });
+
+			expect(result.error).toBe('Email not found');
+		});
+	});
+
+	describe('getDeadLetterEmails', () => {
+		it('should attach each email\'s attempt history', async () => {
+			const failed = [
+				{ ...mockEmail, id: 1, status: 'failed' as const },
+				{ ...mockEmail, id: 2, status: 'failed' as const },
+			];
+			const attempts = [
+				{ id: 10, email_id: 1, attempt: 1, outcome: 'failed', error: 'Hard bounce', error_class: 'permanent' },
+				{ id: 11, email_id: 2, attempt: 1, outcome: 'failed', error: 'Timeout', error_class: 'transient' },
+				{ id: 12, email_id: 2, attempt: 2, outcome: 'failed', error: 'Timeout', error_class: 'transient' },
+			];
+			mockDb.select
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockReturnValueOnce({
+							orderBy: vi.fn().mockReturnValueOnce({
+								limit: vi.fn().mockResolvedValueOnce(failed),
+							}),
+						}),
+					}),
+				})
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockReturnValueOnce({
+							orderBy: vi.fn().mockResolvedValueOnce(attempts),
+						}),
+					}),
+				});
+
+			const result = await emailQueueModel.getDeadLetterEmails(mockDb, { recipient_domain: 'example.com' });
+
+			expect(result.data?.[0].attempts.map((attempt) => attempt.id)).toEqual([10]);
+			expect(result.data?.[1].attempts.map((attempt) => attempt.id)).toEqual([11, 12]);
+		});
+	});
+
+	describe('getQueueStats', () => {
+		it('should aggregate counts, throughput and failure rates', async () => {
+			const now = new Date('2024-11-09T10:00:00Z');
+			mockDb.select
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						groupBy: vi.fn().mockResolvedValueOnce([
+							{ status: 'pending', count: 12 },
+							{ status: 'sent', count: 4810 },
+							{ status: 'failed', count: 7 },
+						]),
+					}),
+				})
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockResolvedValueOnce([{ since: new Date('2024-11-09T09:58:00Z') }]),
+					}),
+				})
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockResolvedValueOnce([{ sent_last_hour: 42, sent_last_day: 615, average_delivery_seconds: 38.5 }]),
+					}),
+				})
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockResolvedValueOnce([{ total: 640, failed: 25 }]),
+					}),
+				})
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockReturnValueOnce({
+							groupBy: vi.fn().mockReturnValueOnce({
+								orderBy: vi.fn().mockReturnValueOnce({
+									limit: vi.fn().mockResolvedValueOnce([
+										{ error: 'SMTP connection timeout', count: 20 },
+										{ error: 'Hard bounce', count: 5 },
+									]),
+								}),
+							}),
+						}),
+					}),
+				});
+
+			const result = await emailQueueModel.getQueueStats(mockDb, 10, now);
+
+			expect(result.data).toMatchObject({
+				pending_count: 12,
+				processing_count: 0,
+				sent_count: 4810,
+				failed_count: 7,
+				total_count: 4829,
+				oldest_pending_age_seconds: 120,
+				sent_last_hour: 42,
+				sent_last_day: 615,
+				average_delivery_seconds: 38.5,
+				attempts_last_day: 640,
+				failure_rate: 25 / 640,
+			});
+			expect(result.data?.failures_by_error[0]).toEqual({ error: 'SMTP connection timeout', count: 20, rate: 20 / 640 });
+		});
+
+		it('should report an empty queue', async () => {
+			mockDb.select
+				.mockReturnValueOnce({ from: vi.fn().mockReturnValueOnce({ groupBy: vi.fn().mockResolvedValueOnce([]) }) })
+				.mockReturnValueOnce({ from: vi.fn().mockReturnValueOnce({ where: vi.fn().mockResolvedValueOnce([{ since: null }]) }) })
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockResolvedValueOnce([{ sent_last_hour: 0, sent_last_day: 0, average_delivery_seconds: null }]),
+					}),
+				})
+				.mockReturnValueOnce({ from: vi.fn().mockReturnValueOnce({ where: vi.fn().mockResolvedValueOnce([{ total: 0, failed: 0 }]) }) })
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValueOnce({
+						where: vi.fn().mockReturnValueOnce({
+							groupBy: vi.fn().mockReturnValueOnce({
+								orderBy: vi.fn().mockReturnValueOnce({ limit: vi.fn().mockResolvedValueOnce([]) }),
+							}),
+						}),
+					}),
+				});
+
+			const result = await emailQueueModel.getQueueStats(mockDb);
+
+			expect(result.data).toMatchObject({
+				total_count: 0,
+				oldest_pending_since: null,
+				oldest_pending_age_seconds: null,
+				average_delivery_seconds: null,
+				failure_rate: 0,
+				failures_by_error: [],
+			});
+		});
+	});
+});
+
+describe('Email Queue Service', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe('claimNextBatch', () => {
+		it('should release expired leases before claiming', async () => {
+			const released = vi.fn().mockReturnValueOnce({
+				where: vi.fn().mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValueOnce([{ ...mockEmail, id: 2 }]),
+				}),
+			});
+			const claimed = vi.fn().mockReturnValueOnce({
+				where: vi.fn().mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValueOnce([{ ...mockEmail, id: 2, status: 'processing' }]),
+				}),
+			});
+			mockDb.update.mockReturnValueOnce({ set: released }).mockReturnValueOnce({ set: claimed });
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockReturnValueOnce({
+						orderBy: vi.fn().mockReturnValueOnce({
+							limit: vi.fn().mockReturnValueOnce({ for: vi.fn().mockReturnValueOnce({}) }),
+						}),
+					}),
+				}),
+			});
+
+			const result = await emailQueueService.claimNextBatch(mockDb, 'mailer-1');
+
+			expect(released.mock.calls[0][0]).toMatchObject({ status: 'pending', worker_id: null, lease_expires_at: null });
+			expect(result.data?.[0]).toMatchObject({ id: 2, status: 'processing' });
+		});
+	});
+
+	describe('markAsFailed', () => {
+		it('should keep a retryable email pending and clear its lease', async () => {
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockResolvedValueOnce([{ ...mockEmail, status: 'processing', worker_id: 'mailer-1' }]),
+				}),
+			});
+			const set = vi.fn().mockReturnValueOnce({
+				where: vi.fn().mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValueOnce([{ ...mockEmail, retry_count: 1 }]),
+				}),
+			});
+			mockDb.update.mockReturnValueOnce({ set });
+			const values = vi.fn().mockReturnValueOnce({ returning: vi.fn().mockResolvedValueOnce([{ id: 1 }]) });
+			mockDb.insert.mockReturnValueOnce({ values });
+
+			const before = Date.now();
+			const result = await emailQueueService.markAsFailed(mockDb, 1, 'mailer-1', 'SMTP timeout');
+
+			expect(result.data?.retry_count).toBe(1);
+			const updates = set.mock.calls[0][0];
+			expect(updates).toMatchObject({
+				status: 'pending',
+				retry_count: 1,
+				last_error: 'SMTP timeout',
+				error_class: 'transient',
+				worker_id: null,
+				lease_expires_at: null,
+			});
+			expect(updates.next_attempt_at.getTime()).toBeGreaterThanOrEqual(before + 30 * 1000);
+			expect(values).toHaveBeenCalledWith(
+				expect.objectContaining({ email_id: 1, attempt: 1, outcome: 'failed', error: 'SMTP timeout', error_class: 'transient' })
+			);
+		});
+
+		it('should send a permanent failure straight to the dead-letter view', async () => {
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockResolvedValueOnce([{ ...mockEmail, status: 'processing', worker_id: 'mailer-1' }]),
+				}),
+			});
+			const set = vi.fn().mockReturnValueOnce({
+				where: vi.fn().mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValueOnce([{ ...mockEmail, status: 'failed', retry_count: 1 }]),
+				}),
+			});
+			mockDb.update.mockReturnValueOnce({ set });
+			mockDb.insert.mockReturnValueOnce({ values: vi.fn().mockReturnValueOnce({ returning: vi.fn().mockResolvedValueOnce([{ id: 1 }]) }) });
+
+			await emailQueueService.markAsFailed(mockDb, 1, 'mailer-1', '550 5.1.1 User unknown');
+
+			expect(set.mock.calls[0][0]).toMatchObject({ status: 'failed', error_class: 'permanent', next_attempt_at: null });
+		});
+	});
+
+	describe('markAsSent', () => {
+		it('should record the successful attempt', async () => {
+			mockDb.update.mockReturnValueOnce({
+				set: vi.fn().mockReturnValueOnce({
+					where: vi.fn().mockReturnValueOnce({
+						returning: vi.fn().mockResolvedValueOnce([{ ...mockEmail, status: 'sent', retry_count: 2 }]),
+					}),
+				}),
+			});
+			const values = vi.fn().mockReturnValueOnce({ returning: vi.fn().mockResolvedValueOnce([{ id: 1 }]) });
+			mockDb.insert.mockReturnValueOnce({ values });
+
+			const result = await emailQueueService.markAsSent(mockDb, 1, 'mailer-1');
+
+			expect(result.data?.status).toBe('sent');
+			expect(values).toHaveBeenCalledWith(expect.objectContaining({ email_id: 1, attempt: 3, outcome: 'sent', worker_id: 'mailer-1' }));
+		});
+	});
 });
@@ -1,5 +1,8 @@
 import { Hono } from 'hono';
-import { emailQueueModel } from './model';
+import { emailQueueModel, DEFAULT_LEASE_SECONDS, LEASE_LOST_ERROR } from './model';
+import { emailQueueService } from './service';
+import { isEmailErrorClass, parseFailedEmailFilters } from './retry';
+import { getUnsubscribeConfig } from '../notificationPreferences/unsubscribe';
 import { dbInitalizer } from '../utils/db';
 import type { Env } from '../index';
 
@@ -19,6 +22,9 @@ export const emailQueueRouter = new Hono<{ Bindings: Env }>();
 // Note: checkApiKey and checkEmailQueueAuth middlewares are applied
 // when mounting this router in index.ts, not here
 
+// Longest lease a sender may request when claiming emails
+const MAX_LEASE_SECONDS = 3600;
+
 /**
  * POST create a new email in the queue
  * Route: POST /api/email-queue/
@@ -45,6 +51,17 @@ export const emailQueueRouter = new Hono<{ Bindings: Env }>();
  * }
  * ```
  *
+ * Or, to render a template (see src/emailTemplates) instead of sending raw bodies:
+ * ```json
+ * {
+ *   "recipient_email": "user@example.com",
+ *   "template": "invite",
+ *   "template_version": 1,
+ *   "variables": { "name": "Dana", "join_link": "https://...", "expires_on": "2024-11-23" },
+ *   "club_id": 1
+ * }
+ * ```
+ *
  * Success Response (201):
  * ```json
  * {
@@ -74,8 +91,13 @@ export const emailQueueRouter = new Hono<{ Bindings: Env }>();
  * ```
  *
  * @remarks
- * - Required fields: recipient_email, subject, body
+ * - Required fields: recipient_email, subject, body (or recipient_email and template)
  * - Optional fields: html_body, max_retries (default: 3), scheduled_at
+ * - Template fields: template_version (default: latest), variables, club_id (for branding)
+ * - Notification fields: user_id, club_id and category; the member's preference for the
+ *   category is respected, and the email carries a signed one-click unsubscribe link
+ * - Recipients who unsubscribed, or chose 'off' or 'daily_digest' for the category, are
+ *   skipped: the response is 200 with `data: null` and `skipped` giving the reason
  * - Auto-generated fields: id, status, retry_count, last_error, sent_at, created_at, updated_at
  *
  * @throws Returns 400 if required fields missing, 500 if database insertion fails
@@ -85,26 +107,75 @@ emailQueueRouter.post('/', async (c) => {
 
 	try {
 		const body = await c.req.json();
+		const unsubscribe = getUnsubscribeConfig(c.env, new URL(c.req.url).origin);
+		const notification = {
+			user_id: body.user_id ? parseInt(body.user_id, 10) : undefined,
+			club_id: body.club_id ? parseInt(body.club_id, 10) : undefined,
+			category: body.category || undefined,
+		};
+
+		// Render from a template instead of raw bodies when one is named
+		if (body.template) {
+			if (!body.recipient_email) {
+				return c.json({ error: 'Missing required field: recipient_email' }, 400);
+			}
+			if (body.variables !== undefined && (typeof body.variables !== 'object' || body.variables === null || Array.isArray(body.variables))) {
+				return c.json({ error: 'variables must be an object' }, 400);
+			}
+
+			const templated = await emailQueueService.queueEmail(
+				db,
+				{
+					recipient_email: body.recipient_email,
+					template: body.template,
+					template_version: body.template_version !== undefined ? parseInt(body.template_version, 10) : undefined,
+					variables: body.variables,
+					...notification,
+					max_retries: body.max_retries ?? 3,
+					scheduled_at: body.scheduled_at ? new Date(body.scheduled_at) : undefined,
+				},
+				unsubscribe
+			);
+
+			if (templated.error) {
+				return c.json({ error: templated.error }, 400);
+			}
+
+			if (!templated.data!.queued) {
+				return c.json({ data: null, skipped: templated.data!.reason });
+			}
+
+			return c.json({ data: templated.data!.email }, 201);
+		}
 
 		// Validate required fields
 		if (!body.recipient_email || !body.subject || !body.body) {
 			return c.json({ error: 'Missing required fields: recipient_email, subject, body' }, 400);
 		}
 
-		const result = await emailQueueModel.createEmail(db, {
-			recipient_email: body.recipient_email,
-			subject: body.subject,
-			body: body.body,
-			html_body: body.html_body,
-			max_retries: body.max_retries ?? 3,
-			scheduled_at: body.scheduled_at ? new Date(body.scheduled_at) : undefined,
-		});
+		const result = await emailQueueService.queueEmail(
+			db,
+			{
+				recipient_email: body.recipient_email,
+				subject: body.subject,
+				body: body.body,
+				html_body: body.html_body,
+				...notification,
+				max_retries: body.max_retries ?? 3,
+				scheduled_at: body.scheduled_at ? new Date(body.scheduled_at) : undefined,
+			},
+			unsubscribe
+		);
 
 		if (result.error) {
 			return c.json({ error: result.error }, 400);
 		}
 
-		return c.json({ data: result.data }, 201);
+		if (!result.data!.queued) {
+			return c.json({ data: null, skipped: result.data!.reason });
+		}
+
+		return c.json({ data: result.data!.email }, 201);
 	} catch (error) {
 		return c.json({ error: `Failed to create email: ${error}` }, 500);
 	}
@@ -125,7 +196,7 @@ emailQueueRouter.post('/', async (c) => {
  * @returns JSON response with array of email records, or error object
  *
  * Query Parameters:
- * - status: 'pending' | 'sent' | 'failed' (optional)
+ * - status: 'pending' | 'processing' | 'sent' | 'failed' (optional)
  * - limit: number (default: 50, max recommended: 100)
  * - offset: number (default: 0)
  * - order: 'asc' | 'desc' (default: 'desc')
@@ -168,7 +239,7 @@ emailQueueRouter.get('/', async (c) => {
 	const db = dbInitalizer({ c });
 
 	try {
-		const status = c.req.query('status') as 'pending' | 'sent' | 'failed' | undefined;
+		const status = c.req.query('status') as 'pending' | 'processing' | 'sent' | 'failed' | undefined;
 		const limit = parseInt(c.req.query('limit') || '50', 10);
 		const offset = parseInt(c.req.query('offset') || '0', 10);
 		const order = (c.req.query('order') || 'desc') as 'asc' | 'desc';
@@ -190,6 +261,64 @@ emailQueueRouter.get('/', async (c) => {
 	}
 });
 
+/**
+ * GET email queue statistics
+ * Route: GET /api/email-queue/stats
+ *
+ * Returns aggregate health and throughput figures for monitoring and alerting, e.g. when
+ * oldest_pending_age_seconds grows because no sender is draining the queue.
+ *
+ * Authentication:
+ * - Requires valid X-API-Key header (checkApiKey middleware)
+ * - Requires valid Bearer token (JWT or M2M) (checkEmailQueueAuth middleware)
+ *
+ * @param c - Hono context object
+ * @returns JSON response with queue statistics
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "data": {
+ *     "pending_count": 12,
+ *     "processing_count": 2,
+ *     "sent_count": 4810,
+ *     "failed_count": 7,
+ *     "total_count": 4831,
+ *     "oldest_pending_since": "2024-11-09T09:58:00Z",
+ *     "oldest_pending_age_seconds": 120,
+ *     "sent_last_hour": 42,
+ *     "sent_last_day": 615,
+ *     "average_delivery_seconds": 38.5,
+ *     "attempts_last_day": 640,
+ *     "failure_rate": 0.039,
+ *     "failures_by_error": [{ "error": "SMTP connection timeout", "count": 20, "rate": 0.031 }],
+ *     "generated_at": "2024-11-09T10:00:00Z"
+ *   }
+ * }
+ * ```
+ *
+ * @remarks
+ * - Rates and averages cover the last 24 hours
+ * - Emails scheduled for later or waiting out a retry backoff do not count towards oldest_pending_age_seconds
+ *
+ * @throws Returns 400 if the queries fail, 500 for unexpected errors
+ */
+emailQueueRouter.get('/stats', async (c) => {
+	const db = dbInitalizer({ c });
+
+	try {
+		const result = await emailQueueService.getQueueStats(db);
+
+		if (result.error) {
+			return c.json({ error: result.error }, 400);
+		}
+
+		return c.json({ data: result.data });
+	} catch (error) {
+		return c.json({ error: `Failed to fetch queue stats: ${error}` }, 500);
+	}
+});
+
 /**
  * GET pending emails for processing
  * Route: GET /api/email-queue/pending/list
@@ -222,9 +351,9 @@ emailQueueRouter.get('/', async (c) => {
  * ```
  *
  * @remarks
- * - Returns only emails with status='pending'
+ * - Returns only emails with status='pending' whose scheduled_at is empty or has passed
  * - Ordered by created_at (oldest first) for FIFO processing
- * - External services should call this endpoint on a polling interval
+ * - Does not lease the emails; senders that run concurrently should use POST /claim instead
  *
  * @throws Returns 400 if database query fails, 500 for unexpected errors
  */
@@ -301,6 +430,329 @@ emailQueueRouter.get('/failed/list', async (c) => {
 	}
 });
 
+/**
+ * GET the dead-letter view of failed emails
+ * Route: GET /api/email-queue/dead-letter/list
+ *
+ * Lists emails that will not be retried automatically, because a permanent error was
+ * reported or max_retries was reached, each with its full attempt history.
+ *
+ * Authentication:
+ * - Requires valid X-API-Key header (checkApiKey middleware)
+ * - Requires valid Bearer token (JWT or M2M) (checkEmailQueueAuth middleware)
+ *
+ * @param c - Hono context object
+ * @returns JSON response with array of failed email records and their attempts
+ *
+ * Query Parameters:
+ * - error_class: 'transient' | 'permanent' (optional)
+ * - failed_after, failed_before: ISO dates bounding when the email failed (optional)
+ * - recipient_domain: e.g. 'example.com' (optional)
+ * - limit: number (default: 50)
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "data": [
+ *     {
+ *       "id": 1,
+ *       "status": "failed",
+ *       "error_class": "permanent",
+ *       "last_error": "550 5.1.1 User unknown",
+ *       "attempts": [
+ *         { "attempt": 1, "outcome": "failed", "error": "550 5.1.1 User unknown", "error_class": "permanent", ... }
+ *       ],
+ *       ...
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * @throws Returns 400 if a filter is invalid or the query fails, 500 for unexpected errors
+ */
+emailQueueRouter.get('/dead-letter/list', async (c) => {
+	const db = dbInitalizer({ c });
+
+	try {
+		const filters = parseFailedEmailFilters(c.req.query());
+
+		if (filters.error) {
+			return c.json({ error: filters.error }, 400);
+		}
+
+		const limit = parseInt(c.req.query('limit') || '50', 10);
+		const result = await emailQueueModel.getDeadLetterEmails(db, filters.data!, limit);
+
+		if (result.error) {
+			return c.json({ error: result.error }, 400);
+		}
+
+		return c.json({ data: result.data });
+	} catch (error) {
+		return c.json({ error: `Failed to fetch dead-letter emails: ${error}` }, 500);
+	}
+});
+
+/**
+ * POST retry failed emails matching filters
+ * Route: POST /api/email-queue/failed/retry
+ *
+ * Returns the failed emails that match the filters to pending with a fresh retry count.
+ *
+ * Authentication:
+ * - Requires valid X-API-Key header (checkApiKey middleware)
+ * - Requires valid Bearer token (JWT or M2M) (checkEmailQueueAuth middleware)
+ *
+ * @param c - Hono context object
+ * @returns JSON response with the retried email records
+ *
+ * Request Body (at least one filter required):
+ * ```json
+ * {
+ *   "error_class": "transient",
+ *   "failed_after": "2024-11-09T00:00:00Z",
+ *   "failed_before": "2024-11-10T00:00:00Z",
+ *   "recipient_domain": "example.com"
+ * }
+ * ```
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "data": [{ "id": 1, "status": "pending", "retry_count": 0, ... }]
+ * }
+ * ```
+ *
+ * @throws Returns 400 if no filter is given or a filter is invalid, 500 for unexpected errors
+ */
+emailQueueRouter.post('/failed/retry', async (c) => {
+	const db = dbInitalizer({ c });
+
+	try {
+		const body = await c.req.json();
+		const filters = parseFailedEmailFilters(body);
+
+		if (filters.error) {
+			return c.json({ error: filters.error }, 400);
+		}
+
+		if (Object.keys(filters.data!).length === 0) {
+			return c.json({ error: 'At least one filter is required: error_class, failed_after, failed_before, recipient_domain' }, 400);
+		}
+
+		const result = await emailQueueService.retryAllFailedEmails(db, filters.data!);
+
+		if (result.error) {
+			return c.json({ error: result.error }, 400);
+		}
+
+		return c.json({ data: result.data });
+	} catch (error) {
+		return c.json({ error: `Failed to retry failed emails: ${error}` }, 500);
+	}
+});
+
+/**
+ * POST claim a batch of emails for sending
+ * Route: POST /api/email-queue/claim
+ *
+ * Atomically leases due pending emails to the calling sender, so that several senders can
+ * poll the queue at once without sending the same email twice. Claimed emails move to
+ * 'processing' until the sender reports them as sent or failed, or the lease expires and
+ * they return to pending.
+ *
+ * Authentication:
+ * - Requires valid X-API-Key header (checkApiKey middleware)
+ * - Requires valid Bearer token (JWT or M2M) (checkEmailQueueAuth middleware)
+ *
+ * @param c - Hono context object
+ * @returns JSON response with array of claimed email records
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "worker_id": "mailer-1",
+ *   "limit": 10,
+ *   "lease_seconds": 300
+ * }
+ * ```
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "data": [
+ *     {
+ *       "id": 1,
+ *       "status": "processing",
+ *       "worker_id": "mailer-1",
+ *       "lease_expires_at": "2024-11-09T10:05:00Z",
+ *       ...
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * @remarks
+ * - Only emails whose scheduled_at is empty or has passed are claimed
+ * - limit defaults to 10; lease_seconds defaults to 300 and may be at most 3600
+ * - Report each email with POST /:id/sent or POST /:id/failed using the same worker_id
+ *
+ * @throws Returns 400 if worker_id is missing or limit/lease_seconds are invalid, 500 for unexpected errors
+ */
+emailQueueRouter.post('/claim', async (c) => {
+	const db = dbInitalizer({ c });
+
+	try {
+		const body = await c.req.json();
+		const workerId = typeof body.worker_id === 'string' ? body.worker_id.trim() : '';
+
+		if (!workerId) {
+			return c.json({ error: 'Missing required field: worker_id' }, 400);
+		}
+
+		const limit = body.limit === undefined ? 10 : Number(body.limit);
+		const leaseSeconds = body.lease_seconds === undefined ? DEFAULT_LEASE_SECONDS : Number(body.lease_seconds);
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return c.json({ error: 'limit must be a positive integer' }, 400);
+		}
+
+		if (!Number.isInteger(leaseSeconds) || leaseSeconds < 1 || leaseSeconds > MAX_LEASE_SECONDS) {
+			return c.json({ error: `lease_seconds must be between 1 and ${MAX_LEASE_SECONDS}` }, 400);
+		}
+
+		const result = await emailQueueService.claimNextBatch(db, workerId, limit, leaseSeconds);
+
+		if (result.error) {
+			return c.json({ error: result.error }, 400);
+		}
+
+		return c.json({ data: result.data });
+	} catch (error) {
+		return c.json({ error: `Failed to claim emails: ${error}` }, 500);
+	}
+});
+
+/**
+ * POST report a claimed email as sent
+ * Route: POST /api/email-queue/:id/sent
+ *
+ * Marks an email the sender claimed as sent and releases its lease.
+ *
+ * Authentication:
+ * - Requires valid X-API-Key header (checkApiKey middleware)
+ * - Requires valid Bearer token (JWT or M2M) (checkEmailQueueAuth middleware)
+ *
+ * @param c - Hono context object with route params: id
+ * @returns JSON response with updated email record, or error object
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "worker_id": "mailer-1"
+ * }
+ * ```
+ *
+ * Error Responses:
+ * - 400: Invalid email ID or missing worker_id
+ * - 404: Email not found
+ * - 409: The lease expired or the email is held by another worker
+ *
+ * @throws Returns 500 for unexpected errors
+ */
+emailQueueRouter.post('/:id/sent', async (c) => {
+	const db = dbInitalizer({ c });
+	const id = parseInt(c.req.param('id'), 10);
+
+	if (isNaN(id)) {
+		return c.json({ error: 'Invalid email ID' }, 400);
+	}
+
+	try {
+		const body = await c.req.json();
+
+		if (!body.worker_id) {
+			return c.json({ error: 'Missing required field: worker_id' }, 400);
+		}
+
+		const result = await emailQueueService.markAsSent(db, id, body.worker_id);
+
+		if (result.error) {
+			return c.json({ error: result.error }, result.error === LEASE_LOST_ERROR ? 409 : 404);
+		}
+
+		return c.json({ data: result.data });
+	} catch (error) {
+		return c.json({ error: `Failed to update email: ${error}` }, 500);
+	}
+});
+
+/**
+ * POST report a claimed email as failed
+ * Route: POST /api/email-queue/:id/failed
+ *
+ * Records a failed send attempt for an email the sender claimed and releases its lease.
+ * After a transient error the email returns to pending, with next_attempt_at set by
+ * exponential backoff, until it reaches max_retries. After a permanent error, or once
+ * retries are exhausted, it is marked as failed and appears in the dead-letter view.
+ *
+ * Authentication:
+ * - Requires valid X-API-Key header (checkApiKey middleware)
+ * - Requires valid Bearer token (JWT or M2M) (checkEmailQueueAuth middleware)
+ *
+ * @param c - Hono context object with route params: id
+ * @returns JSON response with updated email record, or error object
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "worker_id": "mailer-1",
+ *   "error": "SMTP timeout",
+ *   "error_class": "transient"
+ * }
+ * ```
+ *
+ * error_class is optional ('transient' or 'permanent'); when omitted it is inferred from the
+ * error message, treating bad addresses and hard bounces (e.g. SMTP 550) as permanent.
+ *
+ * Error Responses:
+ * - 400: Invalid email ID, missing worker_id or invalid error_class
+ * - 404: Email not found
+ * - 409: The lease expired or the email is held by another worker
+ *
+ * @throws Returns 500 for unexpected errors
+ */
+emailQueueRouter.post('/:id/failed', async (c) => {
+	const db = dbInitalizer({ c });
+	const id = parseInt(c.req.param('id'), 10);
+
+	if (isNaN(id)) {
+		return c.json({ error: 'Invalid email ID' }, 400);
+	}
+
+	try {
+		const body = await c.req.json();
+
+		if (!body.worker_id) {
+			return c.json({ error: 'Missing required field: worker_id' }, 400);
+		}
+
+		if (body.error_class !== undefined && !isEmailErrorClass(body.error_class)) {
+			return c.json({ error: 'error_class must be transient or permanent' }, 400);
+		}
+
+		const result = await emailQueueService.markAsFailed(db, id, body.worker_id, body.error || 'Unknown error', body.error_class);
+
+		if (result.error) {
+			return c.json({ error: result.error }, result.error === LEASE_LOST_ERROR ? 409 : 404);
+		}
+
+		return c.json({ data: result.data });
+	} catch (error) {
+		return c.json({ error: `Failed to update email: ${error}` }, 500);
+	}
+});
+
 /**
  * GET an email by ID
  * Route: GET /api/email-queue/:id
@@ -8,7 +8,48 @@
  * @module emailQueue/service
  */
 
-import { emailQueueModel } from './model';
+import {
+	emailQueueModel,
+	CreateEmailQueueRequest,
+	CreateTemplatedEmailRequest,
+	DEFAULT_LEASE_SECONDS,
+	EmailQueueItem,
+	Result,
+} from './model';
+import { classifyEmailError, EmailErrorClass, EMAIL_RETRY_BACKOFF, FailedEmailFilters } from './retry';
+import { nextAttemptAt } from '../utils/backoff';
+import { checkRecipient, SkipReason } from '../notificationPreferences/model';
+import { createUnsubscribeUrl, UnsubscribeConfig } from '../notificationPreferences/unsubscribe';
+
+/**
+ * Outcome of queueing an email: the queued record, or why the recipient should not get it
+ */
+export type QueueEmailResult = { queued: true; email: EmailQueueItem } | { queued: false; reason: SkipReason };
+
+/**
+ * Adds a sent or failed attempt to the email's history. A failure to record history is
+ * logged rather than returned, since the email's own status has already been updated.
+ */
+const recordAttempt = async (
+	db: any,
+	email: EmailQueueItem,
+	workerId: string,
+	outcome: 'sent' | 'failed',
+	error: string | null = null,
+	errorClass: EmailErrorClass | null = null
+) => {
+	const result = await emailQueueModel.recordAttempt(db, {
+		email_id: email.id,
+		attempt: outcome === 'sent' ? email.retry_count + 1 : email.retry_count,
+		worker_id: workerId,
+		outcome,
+		error,
+		error_class: errorClass,
+	});
+	if (result.error) {
+		console.error(`Failed to record attempt for email ${email.id}:`, result.error);
+	}
+};
 
 /**
  * Email Queue Service
@@ -20,11 +61,69 @@ import { emailQueueModel } from './model';
  * @namespace emailQueueService
  */
 export const emailQueueService = {
+	/**
+	 * Queue an email, respecting the recipient's unsubscribes and notification preferences
+	 *
+	 * Suppressed addresses are skipped. When the request names a member, club and
+	 * notification category, the member's preference decides: 'off' skips the email and
+	 * 'daily_digest' or 'weekly_digest' leaves it to the digest. Otherwise the email is queued
+	 * with a signed one-click unsubscribe link, rendered into templated emails' footers.
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {CreateEmailQueueRequest | CreateTemplatedEmailRequest} request - Raw or templated email
+	 * @param {UnsubscribeConfig | null} [unsubscribe] - Signing settings; without them no link is added
+	 * @returns {Promise<Result<QueueEmailResult>>} The queued email, the reason it was skipped, or error
+	 *
+	 * @example
+	 * const result = await emailQueueService.queueEmail(
+	 *   db,
+	 *   { recipient_email: 'member@example.com', template: 'session_reminder', user_id: 7, club_id: 1, category: 'session_reminders' },
+	 *   getUnsubscribeConfig(env)
+	 * );
+	 * if (result.data && !result.data.queued) {
+	 *   console.log(`Skipped: ${result.data.reason}`);
+	 * }
+	 */
+	async queueEmail(
+		db: any,
+		request: CreateEmailQueueRequest | CreateTemplatedEmailRequest,
+		unsubscribe?: UnsubscribeConfig | null
+	): Promise<Result<QueueEmailResult>> {
+		const recipient = {
+			email: request.recipient_email,
+			user_id: request.user_id,
+			club_id: request.club_id,
+			category: request.category,
+		};
+
+		const check = await checkRecipient(db, recipient);
+		if (check.error) {
+			return { error: `Failed to check recipient preferences: ${check.error}` };
+		}
+		if (check.data) {
+			return { data: { queued: false, reason: check.data } };
+		}
+
+		const unsubscribeUrl = unsubscribe ? await createUnsubscribeUrl(unsubscribe, recipient) : null;
+		const result =
+			'template' in request
+				? await emailQueueModel.createTemplatedEmail(db, { ...request, unsubscribe_url: unsubscribeUrl })
+				: await emailQueueModel.createEmail(db, { ...request, unsubscribe_url: unsubscribeUrl });
+
+		if (result.error) {
+			return { error: result.error };
+		}
+
+		return { data: { queued: true, email: result.data! } };
+	},
+
 	/**
 	 * Get the next batch of pending emails to process
 	 *
-	 * Fetches emails that are ready to be sent (status='pending').
-	 * Emails are returned in FIFO order (oldest first).
+	 * Fetches emails that are ready to be sent (status='pending' and due).
+	 * Emails are returned in FIFO order (oldest first). The emails are not
+	 * leased, so concurrent senders should use claimNextBatch instead.
 	 *
 	 * @async
 	 * @param {any} db - Database instance
@@ -41,43 +140,92 @@ export const emailQueueService = {
 		return emailQueueModel.getPendingEmails(db, limit);
 	},
 
+	/**
+	 * Claim the next batch of emails for a sender
+	 *
+	 * Returns expired leases to pending, then atomically claims up to `limit` due
+	 * emails for the sender. Claimed emails are 'processing' until the sender reports
+	 * them with markAsSent or markAsFailed, or the lease expires.
+	 *
+	 * @async
+	 * @param {any} db - Database instance
+	 * @param {string} workerId - Identifier of the sender claiming the emails
+	 * @param {number} [limit=10] - Maximum number of emails to claim
+	 * @param {number} [leaseSeconds=DEFAULT_LEASE_SECONDS] - How long the sender holds the emails
+	 * @returns {Promise<Result<EmailQueueItem[]>>} Claimed emails or error
+	 *
+	 * @example
+	 * const result = await emailQueueService.claimNextBatch(db, 'mailer-1', 5);
+	 * for (const email of result.data ?? []) {
+	 *   // Send, then markAsSent(db, email.id, 'mailer-1')
+	 * }
+	 */
+	async claimNextBatch(db: any, workerId: string, limit: number = 10, leaseSeconds: number = DEFAULT_LEASE_SECONDS) {
+		const released = await emailQueueModel.releaseExpiredLeases(db);
+
+		if (released.error) {
+			return released;
+		}
+
+		return emailQueueModel.claimEmails(db, workerId, limit, leaseSeconds);
+	},
+
 	/**
 	 * Mark an email as successfully sent
 	 *
-	 * Updates the email status to 'sent' and records the current timestamp.
+	 * Updates the email status to 'sent', records the current timestamp and adds
+	 * the attempt to the email's history. Rejected if the sender no longer holds
+	 * the lease on the email.
 	 *
 	 * @async
 	 * @param {any} db - Database instance
 	 * @param {number} emailId - ID of the email to mark as sent
+	 * @param {string} workerId - Identifier of the sender that claimed the email
 	 * @returns {Promise<Result<EmailQueueItem>>} Updated email record or error
 	 *
 	 * @example
-	 * const result = await emailQueueService.markAsSent(db, 123);
+	 * const result = await emailQueueService.markAsSent(db, 123, 'mailer-1');
 	 */
-	async markAsSent(db: any, emailId: number) {
-		return emailQueueModel.updateEmail(db, emailId, {
+	async markAsSent(db: any, emailId: number, workerId: string): Promise<Result<EmailQueueItem>> {
+		const result = await emailQueueModel.updateLeasedEmail(db, emailId, workerId, {
 			status: 'sent',
 			sent_at: new Date(),
 		});
+
+		if (result.data) {
+			await recordAttempt(db, result.data, workerId, 'sent');
+		}
+
+		return result;
 	},
 
 	/**
 	 * Mark an email as failed with error information
 	 *
-	 * Updates the email with failure details. If the retry count hasn't
-	 * exceeded max_retries, the email is kept as 'pending' for later retry.
-	 * Otherwise, it's marked as 'failed'.
+	 * Updates the email with failure details and adds the attempt to its history.
+	 * A transient error keeps the email 'pending', with next_attempt_at pushed out by
+	 * exponential backoff, until max_retries is reached. A permanent error, or running
+	 * out of retries, marks it as 'failed' for the dead-letter view. Rejected if the
+	 * sender no longer holds the lease on the email.
 	 *
 	 * @async
 	 * @param {any} db - Database instance
 	 * @param {number} emailId - ID of the email that failed
+	 * @param {string} workerId - Identifier of the sender that claimed the email
 	 * @param {string} errorMessage - Error message to store
+	 * @param {EmailErrorClass} [errorClass] - Class reported by the sender; classified from the message if omitted
 	 * @returns {Promise<Result<EmailQueueItem>>} Updated email record or error
 	 *
 	 * @example
-	 * const result = await emailQueueService.markAsFailed(db, 123, 'SMTP connection timeout');
+	 * const result = await emailQueueService.markAsFailed(db, 123, 'mailer-1', 'SMTP connection timeout');
 	 */
-	async markAsFailed(db: any, emailId: number, errorMessage: string) {
+	async markAsFailed(
+		db: any,
+		emailId: number,
+		workerId: string,
+		errorMessage: string,
+		errorClass?: EmailErrorClass
+	): Promise<Result<EmailQueueItem>> {
 		// Get current email to check retry count
 		const emailResult = await emailQueueModel.getEmail(db, emailId);
 
@@ -87,58 +235,51 @@ export const emailQueueService = {
 
 		const email = emailResult.data!;
 		const newRetryCount = email.retry_count + 1;
-		const shouldRetry = newRetryCount < email.max_retries;
+		const resolvedClass = errorClass ?? classifyEmailError(errorMessage);
+		const shouldRetry = resolvedClass === 'transient' && newRetryCount < email.max_retries;
 
-		// If we've exceeded max retries, mark as failed
-		// Otherwise, keep as pending for next attempt
-		return emailQueueModel.updateEmail(db, emailId, {
+		// Permanent errors and exhausted emails are marked as failed
+		// Otherwise, keep as pending until the backoff has passed
+		const result = await emailQueueModel.updateLeasedEmail(db, emailId, workerId, {
 			status: shouldRetry ? 'pending' : 'failed',
 			retry_count: newRetryCount,
 			last_error: errorMessage,
+			error_class: resolvedClass,
+			next_attempt_at: shouldRetry ? nextAttemptAt(newRetryCount, EMAIL_RETRY_BACKOFF) : null,
 		});
+
+		if (result.data) {
+			await recordAttempt(db, result.data, workerId, 'failed', errorMessage, resolvedClass);
+		}
+
+		return result;
 	},
 
 	/**
 	 * Get detailed statistics about the email queue
 	 *
-	 * Returns counts of pending, sent, and failed emails.
+	 * Returns counts by status, how long the oldest due email has been waiting,
+	 * sends in the last hour and day, the average time from queueing to sending,
+	 * and the failure rate overall and by error message.
 	 *
 	 * @async
 	 * @param {any} db - Database instance
-	 * @returns {Promise<Object>} Queue statistics
-	 * @returns {number} returns.pending_count - Number of pending emails
-	 * @returns {number} returns.sent_count - Number of sent emails
-	 * @returns {number} returns.failed_count - Number of failed emails
+	 * @returns {Promise<Result<QueueStats>>} Queue statistics or error
 	 *
 	 * @example
-	 * const stats = await emailQueueService.getQueueStats(db);
-	 * console.log(`${stats.pending_count} emails waiting to be sent`);
+	 * const result = await emailQueueService.getQueueStats(db);
+	 * if (result.data && result.data.oldest_pending_age_seconds > 15 * 60) {
+	 *   console.warn(`Email queue stuck: ${result.data.pending_count} emails waiting`);
+	 * }
 	 */
 	async getQueueStats(db: any) {
-		const pendingResult = await emailQueueModel.listEmails(db, {
-			status: 'pending',
-			limit: 1,
-		});
-		const sentResult = await emailQueueModel.listEmails(db, {
-			status: 'sent',
-			limit: 1,
-		});
-		const failedResult = await emailQueueModel.listEmails(db, {
-			status: 'failed',
-			limit: 1,
-		});
-
-		return {
-			pending_count: pendingResult.data?.length ?? 0,
-			sent_count: sentResult.data?.length ?? 0,
-			failed_count: failedResult.data?.length ?? 0,
-		};
+		return emailQueueModel.getQueueStats(db);
 	},
 
 	/**
 	 * Retry a failed email by resetting it to pending status
 	 *
-	 * Resets the retry count to 0 and clears the error message.
+	 * Resets the retry count to 0 and clears the error message and retry time.
 	 * The email will be picked up by the next batch fetch.
 	 *
 	 * @async
@@ -154,46 +295,33 @@ export const emailQueueService = {
 			status: 'pending',
 			retry_count: 0,
 			last_error: null,
+			error_class: null,
+			next_attempt_at: null,
 		});
 	},
 
 	/**
-	 * Retry all failed emails that haven't exceeded their max retry count
+	 * Retry the failed emails that match the given filters
 	 *
-	 * Resets all recoverable failed emails back to pending status.
-	 * Only resets emails that have retry_count < max_retries.
+	 * Resets matching failed emails back to pending status with a fresh retry count.
+	 * Filter by error class to skip permanent failures, by failure date to retry after
+	 * an outage, or by recipient domain to retry a provider that was rejecting mail.
 	 *
 	 * @async
 	 * @param {any} db - Database instance
+	 * @param {FailedEmailFilters} [filters] - Error class, failure date range and recipient domain
 	 * @returns {Promise<Result<EmailQueueItem[]>>} Array of retried email records or error
 	 *
 	 * @example
-	 * const result = await emailQueueService.retryAllFailedEmails(db);
+	 * const result = await emailQueueService.retryAllFailedEmails(db, {
+	 *   error_class: 'transient',
+	 *   recipient_domain: 'example.com',
+	 * });
 	 * if (result.data) {
 	 *   console.log(`Retrying ${result.data.length} emails`);
 	 * }
 	 */
-	async retryAllFailedEmails(db: any) {
-		const failedResult = await emailQueueModel.getFailedEmails(db, 1000);
-
-		if (failedResult.error) {
-			return failedResult;
-		}
-
-		const retriedEmails = [];
-		for (const email of failedResult.data!) {
-			if (email.retry_count < email.max_retries) {
-				const result = await emailQueueModel.updateEmail(db, email.id, {
-					status: 'pending',
-					retry_count: 0,
-					last_error: null,
-				});
-				if (result.data) {
-					retriedEmails.push(result.data);
-				}
-			}
-		}
-
-		return { data: retriedEmails };
+	async retryAllFailedEmails(db: any, filters: FailedEmailFilters = {}) {
+		return emailQueueModel.retryFailedEmails(db, filters);
 	},
 };
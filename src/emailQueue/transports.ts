@@ -0,0 +1,240 @@
+/**
+ * Email Transports
+ *
+ * Transports hand a rendered email to something that delivers it. The Worker's scheduled
+ * delivery job sends through whichever transport EMAIL_TRANSPORT selects:
+ *
+ * - `http`: a JSON email API in the style of Resend or Postmark (EMAIL_API_URL, EMAIL_API_KEY)
+ * - `mailchannels`: the MailChannels send API, optionally with DKIM signing
+ * - `capture`: keeps emails in memory instead of sending them, for tests and local development
+ *
+ * @module emailQueue/transports
+ */
+
+import { EmailErrorClass } from './retry';
+import type { Result } from './model';
+
+/**
+ * An email ready to send
+ */
+export interface OutgoingEmail {
+	to: string;
+	from: { email: string; name?: string };
+	subject: string;
+	text: string;
+	html?: string | null;
+	headers?: Record<string, string>;
+}
+
+/**
+ * Outcome of handing an email to a transport. Failures carry an error class when the
+ * transport can tell; otherwise the class is inferred from the error message.
+ */
+export type TransportResult = { ok: true; messageId?: string } | { ok: false; error: string; errorClass?: EmailErrorClass };
+
+export interface EmailTransport {
+	name: string;
+	send(email: OutgoingEmail): Promise<TransportResult>;
+}
+
+/**
+ * Transport settings read from the Worker environment
+ */
+export interface TransportEnv {
+	EMAIL_TRANSPORT?: string;
+	EMAIL_API_URL?: string;
+	EMAIL_API_KEY?: string;
+	MAILCHANNELS_API_KEY?: string;
+	DKIM_DOMAIN?: string;
+	DKIM_SELECTOR?: string;
+	DKIM_PRIVATE_KEY?: string;
+}
+
+const MAILCHANNELS_URL = 'https://api.mailchannels.net/tx/v1/send';
+
+// Longest provider response body kept in an error message
+const MAX_ERROR_BODY = 500;
+
+const formatAddress = (address: { email: string; name?: string }) => {
+	return address.name ? `${address.name.replace(/["\\]/g, '')} <${address.email}>` : address.email;
+};
+
+/**
+ * Classifies a provider's HTTP error status. Rejected requests (bad address or payload) will
+ * never succeed; rate limits, auth misconfiguration and server errors may once they clear.
+ */
+const classifyStatus = (status: number): EmailErrorClass => {
+	return status === 400 || status === 422 ? 'permanent' : 'transient';
+};
+
+const postJson = async (
+	fetchFn: typeof fetch,
+	url: string,
+	headers: Record<string, string>,
+	body: unknown
+): Promise<TransportResult & { data?: any }> => {
+	let response: Response;
+	try {
+		response = await fetchFn(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...headers },
+			body: JSON.stringify(body),
+		});
+	} catch (error) {
+		return { ok: false, error: `Network error: ${error instanceof Error ? error.message : String(error)}`, errorClass: 'transient' };
+	}
+
+	const text = await response.text();
+	if (!response.ok) {
+		return {
+			ok: false,
+			error: `HTTP ${response.status}: ${text.slice(0, MAX_ERROR_BODY)}`,
+			errorClass: classifyStatus(response.status),
+		};
+	}
+
+	try {
+		return { ok: true, data: text ? JSON.parse(text) : null };
+	} catch {
+		return { ok: true, data: null };
+	}
+};
+
+/**
+ * Creates a transport for a JSON email API that accepts
+ * `{from, to, subject, text, html, headers}` with a Bearer API key.
+ *
+ * @param options.url - The provider's send endpoint
+ * @param options.apiKey - The provider API key
+ * @param options.fetchFn - fetch implementation; injectable for tests
+ */
+export const createHttpApiTransport = (options: { url: string; apiKey: string; fetchFn?: typeof fetch }): EmailTransport => {
+	const fetchFn = options.fetchFn ?? fetch;
+	return {
+		name: 'http',
+		async send(email) {
+			const result = await postJson(
+				fetchFn,
+				options.url,
+				{ Authorization: `Bearer ${options.apiKey}` },
+				{
+					from: formatAddress(email.from),
+					to: [email.to],
+					subject: email.subject,
+					text: email.text,
+					html: email.html ?? undefined,
+					headers: email.headers,
+				}
+			);
+			if (!result.ok) {
+				return result;
+			}
+			return { ok: true, messageId: result.data?.id ?? result.data?.MessageID };
+		},
+	};
+};
+
+/**
+ * Creates a transport for the MailChannels send API.
+ *
+ * @param options.apiKey - MailChannels API key, sent as X-Api-Key
+ * @param options.dkim - DKIM domain, selector and private key for signing, if configured
+ * @param options.url - Send endpoint (defaults to the MailChannels API)
+ * @param options.fetchFn - fetch implementation; injectable for tests
+ */
+export const createMailChannelsTransport = (
+	options: {
+		apiKey?: string;
+		dkim?: { domain: string; selector: string; privateKey: string };
+		url?: string;
+		fetchFn?: typeof fetch;
+	} = {}
+): EmailTransport => {
+	const fetchFn = options.fetchFn ?? fetch;
+	return {
+		name: 'mailchannels',
+		async send(email) {
+			const content = [{ type: 'text/plain', value: email.text }];
+			if (email.html) {
+				content.push({ type: 'text/html', value: email.html });
+			}
+
+			const result = await postJson(fetchFn, options.url ?? MAILCHANNELS_URL, options.apiKey ? { 'X-Api-Key': options.apiKey } : {}, {
+				personalizations: [
+					{
+						to: [{ email: email.to }],
+						...(options.dkim && {
+							dkim_domain: options.dkim.domain,
+							dkim_selector: options.dkim.selector,
+							dkim_private_key: options.dkim.privateKey,
+						}),
+					},
+				],
+				from: email.from,
+				subject: email.subject,
+				content,
+				headers: email.headers,
+			});
+			return result.ok ? { ok: true } : result;
+		},
+	};
+};
+
+/**
+ * A transport that records emails instead of sending them
+ */
+export interface CaptureTransport extends EmailTransport {
+	sent: OutgoingEmail[];
+}
+
+/**
+ * Creates a transport that keeps sent emails in memory.
+ *
+ * @param fail - Optional hook returning a failure for emails that should not be "delivered"
+ */
+export const createCaptureTransport = (fail?: (email: OutgoingEmail) => TransportResult | null): CaptureTransport => {
+	const sent: OutgoingEmail[] = [];
+	return {
+		name: 'capture',
+		sent,
+		async send(email) {
+			const failure = fail?.(email);
+			if (failure) {
+				return failure;
+			}
+			sent.push(email);
+			return { ok: true, messageId: `capture-${sent.length}` };
+		},
+	};
+};
+
+/**
+ * Builds the transport selected by EMAIL_TRANSPORT.
+ *
+ * @param env - Worker environment
+ * @param fetchFn - fetch implementation; injectable for tests
+ * @returns The transport, null if EMAIL_TRANSPORT is not set, or an error describing missing settings
+ */
+export const createTransportFromEnv = (env: TransportEnv, fetchFn?: typeof fetch): Result<EmailTransport | null> => {
+	switch (env.EMAIL_TRANSPORT) {
+		case undefined:
+		case '':
+			return { data: null };
+		case 'http':
+			if (!env.EMAIL_API_URL || !env.EMAIL_API_KEY) {
+				return { error: 'EMAIL_API_URL and EMAIL_API_KEY are required for the http email transport' };
+			}
+			return { data: createHttpApiTransport({ url: env.EMAIL_API_URL, apiKey: env.EMAIL_API_KEY, fetchFn }) };
+		case 'mailchannels': {
+			const dkim =
+				env.DKIM_DOMAIN && env.DKIM_SELECTOR && env.DKIM_PRIVATE_KEY
+					? { domain: env.DKIM_DOMAIN, selector: env.DKIM_SELECTOR, privateKey: env.DKIM_PRIVATE_KEY }
+					: undefined;
+			return { data: createMailChannelsTransport({ apiKey: env.MAILCHANNELS_API_KEY, dkim, fetchFn }) };
+		}
+		case 'capture':
+			return { data: createCaptureTransport() };
+		default:
+			return { error: `Unknown email transport: ${env.EMAIL_TRANSPORT}` };
+	}
+};
@@ -0,0 +1,242 @@
+/**
+ * Email Template Rendering
+ *
+ * Fills in template placeholders, wraps the content in the club-branded layout and produces the
+ * subject, HTML and plain-text parts ready for the email queue.
+ */
+
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { eq } from 'drizzle-orm';
+import { clubs } from '../db/schema';
+import { EmailTemplate, getTemplate } from './templates';
+
+/**
+ * Club details used to brand an email
+ */
+export interface ClubBranding {
+	name: string;
+	description?: string | null;
+	hero_image?: string | null;
+}
+
+/**
+ * Branding used when an email is not sent on behalf of a club
+ */
+export const DEFAULT_BRANDING: ClubBranding = {
+	name: 'Locomotive House',
+};
+
+/**
+ * A rendered email
+ */
+export interface RenderedEmail {
+	template_name: string;
+	template_version: number;
+	subject: string;
+	html_body: string;
+	body: string;
+}
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+const PLACEHOLDER = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Escapes text for safe inclusion in HTML content and attribute values.
+ */
+export const escapeHtml = (value: string): string => {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+};
+
+const lookup = (variables: Record<string, unknown>, path: string): unknown => {
+	let value: unknown = variables;
+	for (const key of path.split('.')) {
+		if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * Replaces `{{path}}` and `{{path|fallback}}` placeholders with variable values.
+ * `{{{path}}}` inserts a value without escaping, for HTML the caller has already built safely.
+ *
+ * @param source - Template text
+ * @param variables - Values to insert; nested objects are reached with dotted paths
+ * @param escape - Whether to HTML-escape inserted values
+ * @returns The text with placeholders replaced; missing values become the fallback or an empty string
+ */
+export const interpolate = (source: string, variables: Record<string, unknown>, escape: boolean): string => {
+	return source.replace(PLACEHOLDER, (_match, rawPath: string | undefined, path: string, fallback?: string) => {
+		if (rawPath) {
+			const raw = lookup(variables, rawPath);
+			return isBlank(raw) ? '' : String(raw);
+		}
+		const value = lookup(variables, path);
+		const text = isBlank(value) ? (fallback ?? '').trim() : String(value);
+		return escape ? escapeHtml(text) : text;
+	});
+};
+
+const ENTITIES: Record<string, string> = {
+	'&amp;': '&',
+	'&lt;': '<',
+	'&gt;': '>',
+	'&quot;': '"',
+	'&#39;': "'",
+	'&nbsp;': ' ',
+};
+
+/**
+ * Converts an HTML email body to readable plain text.
+ *
+ * Paragraphs and headings become blank-line separated blocks, line breaks and list items are
+ * kept, and links are written as `label (url)`.
+ *
+ * @param html - The HTML to convert
+ * @returns Plain text
+ */
+export const htmlToText = (html: string): string => {
+	return html
+		.replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+		.replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+			const text = label.replace(/<[^>]+>/g, '').trim();
+			return text && text !== href ? `${text} (${href})` : href;
+		})
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<li[^>]*>/gi, '\n- ')
+		.replace(/<\/(p|div|h[1-6]|ul|ol|table|tr)>/gi, '\n\n')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity])
+		.split('\n')
+		.map((line) => line.replace(/[ \t]+/g, ' ').trim())
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+};
+
+/**
+ * Wraps email content in the branded layout: the club's hero image and name above, and a
+ * footer naming the club below, with an unsubscribe link when one is given.
+ */
+const brandedLayout = (contentHtml: string, branding: ClubBranding, unsubscribeUrl?: string): string => {
+	const name = escapeHtml(branding.name);
+	const unsubscribe = unsubscribeUrl ? ` &middot; <a href="${escapeHtml(unsubscribeUrl)}" style="color:#777777;">Unsubscribe</a>` : '';
+	const hero = branding.hero_image
+		? `<img src="${escapeHtml(branding.hero_image)}" alt="${name}" width="600" style="display:block;width:100%;max-width:600px;height:auto;border:0;">\n`
+		: '';
+	return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${name}</title></head>
+<body style="margin:0;padding:0;background:#f4f4f4;">
+<div style="max-width:600px;margin:0 auto;background:#ffffff;font-family:Helvetica,Arial,sans-serif;font-size:16px;line-height:1.5;color:#222222;">
+${hero}<h1 style="margin:0;padding:24px 24px 0;font-size:22px;">${name}</h1>
+<div style="padding:8px 24px 24px;">
+${contentHtml}
+</div>
+<p style="margin:0;padding:16px 24px;border-top:1px solid #e5e5e5;font-size:12px;color:#777777;">Sent by ${name} via Locomotive House${unsubscribe}</p>
+</div>
+</body>
+</html>`;
+};
+
+/**
+ * Renders a template with the given variables and branding.
+ *
+ * @param template - The template to render
+ * @param variables - Template variables; `club` is set from the branding
+ * @param branding - Club branding (defaults to Locomotive House)
+ * @param unsubscribeUrl - Unsubscribe link added to the footer and the end of the plain text
+ * @returns Result object containing the rendered email, or an error naming missing variables
+ */
+export const renderTemplate = (
+	template: EmailTemplate,
+	variables: Record<string, unknown>,
+	branding: ClubBranding = DEFAULT_BRANDING,
+	unsubscribeUrl?: string
+): Result<RenderedEmail> => {
+	const values = { ...variables, club: branding };
+
+	const missing = template.requiredVariables.filter((path) => isBlank(lookup(values, path)));
+	if (missing.length > 0) {
+		return {
+			error: `Missing template variables: ${missing.join(', ')}`,
+		};
+	}
+
+	const contentHtml = interpolate(template.html, values, true);
+	const body = template.text ? interpolate(template.text, values, false) : htmlToText(contentHtml);
+	return {
+		data: {
+			template_name: template.name,
+			template_version: template.version,
+			subject: interpolate(template.subject, values, false),
+			html_body: brandedLayout(contentHtml, branding, unsubscribeUrl),
+			body: unsubscribeUrl ? `${body}\n\nUnsubscribe: ${unsubscribeUrl}` : body,
+		},
+	};
+};
+
+/**
+ * Loads a club's branding.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club ID
+ * @returns The club's branding, or null if the club does not exist
+ */
+export const getClubBranding = async (db: NeonHttpDatabase<Record<string, never>>, clubId: number): Promise<ClubBranding | null> => {
+	const results = await db
+		.select({ name: clubs.name, description: clubs.description, hero_image: clubs.hero_image })
+		.from(clubs)
+		.where(eq(clubs.id, clubId));
+	return results[0] || null;
+};
+
+/**
+ * Renders a named template, branded for a club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param options.template - Template name
+ * @param options.version - Template version; defaults to the latest
+ * @param options.variables - Template variables
+ * @param options.clubId - Club to brand the email for; omit for Locomotive House branding
+ * @param options.unsubscribeUrl - Unsubscribe link to include, if any
+ * @returns Result object containing the rendered email, or error message
+ */
+export const renderEmail = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	options: { template: string; version?: number; variables?: Record<string, unknown>; clubId?: number | null; unsubscribeUrl?: string }
+): Promise<Result<RenderedEmail>> => {
+	const template = getTemplate(options.template, options.version);
+	if (!template) {
+		return {
+			error: options.version ? `Unknown template: ${options.template} version ${options.version}` : `Unknown template: ${options.template}`,
+		};
+	}
+
+	try {
+		let branding = DEFAULT_BRANDING;
+		if (options.clubId) {
+			const clubBranding = await getClubBranding(db, options.clubId);
+			if (!clubBranding) {
+				return {
+					error: 'Club not found',
+				};
+			}
+			branding = clubBranding;
+		}
+
+		return renderTemplate(template, options.variables || {}, branding, options.unsubscribeUrl);
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,130 @@
+import { Hono } from 'hono';
+import { EMAIL_TEMPLATES, getTemplate } from './templates';
+import { renderEmail } from './render';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkSuperAdminPermission } from '../utils/auth';
+import type { Env } from '../index';
+
+/**
+ * Router for browsing and previewing transactional email templates.
+ * Mounted at: /api/email-templates
+ *
+ * All routes require:
+ * - Authentication (checkAuth middleware)
+ * - Super-admin permission (checkSuperAdminPermission middleware); templates are platform-wide
+ */
+export const emailTemplatesRouter = new Hono<{ Bindings: Env }>();
+
+// Apply auth middleware to all routes
+emailTemplatesRouter.use(checkAuth);
+emailTemplatesRouter.use(checkSuperAdminPermission);
+
+/**
+ * GET all email templates
+ * Route: GET /api/email-templates
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "result": [
+ *     {
+ *       "name": "invite",
+ *       "description": "Invitation to join a club, ...",
+ *       "latest_version": 1,
+ *       "versions": [1],
+ *       "required_variables": ["join_link", "expires_on"]
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+emailTemplatesRouter.get('/', async (c) => {
+	const result = Object.values(EMAIL_TEMPLATES).map((versions) => {
+		const latest = versions[versions.length - 1];
+		return {
+			name: latest.name,
+			description: latest.description,
+			latest_version: latest.version,
+			versions: versions.map((template) => template.version),
+			required_variables: latest.requiredVariables,
+		};
+	});
+
+	return c.json({
+		result,
+	});
+});
+
+/**
+ * GET preview a template rendered with its sample data
+ * Route: GET /api/email-templates/:name/preview
+ *
+ * Query Parameters:
+ * - version (optional): Template version; defaults to the latest
+ * - club_id (optional): Club whose branding to preview; defaults to Locomotive House branding
+ * - format (optional): "html" to return the rendered HTML page itself instead of JSON
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "template_name": "invite",
+ *   "template_version": 1,
+ *   "subject": "Welcome to Valley Model Railroad",
+ *   "html_body": "<!DOCTYPE html>...",
+ *   "body": "Hi Dana,\n\nYou have been invited...",
+ *   "variables": { "name": "Dana", ... }
+ * }
+ * ```
+ *
+ * @throws Returns 404 if the template or version does not exist, 400 if the club does not exist
+ */
+emailTemplatesRouter.get('/:name/preview', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const name = c.req.param('name');
+		const versionParam = c.req.query('version');
+		const clubIdParam = c.req.query('club_id');
+		const version = versionParam ? parseInt(versionParam, 10) : undefined;
+
+		const template = getTemplate(name, version);
+		if (!template) {
+			return c.json(
+				{
+					error: 'Template not found',
+				},
+				404
+			);
+		}
+
+		const result = await renderEmail(db, {
+			template: template.name,
+			version: template.version,
+			variables: template.sampleVariables,
+			clubId: clubIdParam ? parseInt(clubIdParam, 10) : undefined,
+		});
+		if (result.error || !result.data) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		if (c.req.query('format') === 'html') {
+			return c.html(result.data.html_body);
+		}
+
+		return c.json({
+			...result.data,
+			variables: template.sampleVariables,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
@@ -0,0 +1,160 @@
+/**
+ * Email Templates
+ *
+ * Code-defined transactional email templates. Each template has a name and one or more numbered
+ * versions; the highest version is used unless a caller asks for a specific one, so copy can be
+ * changed without altering emails that were already queued from an older version.
+ *
+ * Templates are written as HTML with `{{variable}}` placeholders. Dotted paths such as
+ * `{{club.name}}` are allowed, and `{{name|there}}` falls back to "there" when `name` is empty.
+ * `{{{path}}}` inserts pre-built HTML unescaped; only use it for markup the caller escaped itself.
+ * `club` variables are filled in from the club's record when a club is given. The plain-text
+ * version is generated from the HTML unless a template supplies its own.
+ */
+
+export interface EmailTemplate {
+	name: string;
+	version: number;
+	description: string;
+	subject: string;
+	html: string;
+	text?: string;
+	requiredVariables: string[];
+	sampleVariables: Record<string, unknown>;
+}
+
+const invite: EmailTemplate[] = [
+	{
+		name: 'invite',
+		version: 1,
+		description: 'Invitation to join a club, sent when an application is approved or a member is invited',
+		subject: 'Welcome to {{club.name}}',
+		html: `<p>Hi {{name|there}},</p>
+<p>You have been invited to join {{club.name}} on Locomotive House.</p>
+<p><a href="{{join_link}}">Create your account and join the club</a></p>
+<p>This invitation expires on {{expires_on}}.</p>`,
+		requiredVariables: ['join_link', 'expires_on'],
+		sampleVariables: {
+			name: 'Dana',
+			join_link: 'https://locomotivehouse.com/join?token=sample-token',
+			expires_on: '2024-11-23',
+		},
+	},
+];
+
+const applicationReceived: EmailTemplate[] = [
+	{
+		name: 'application_received',
+		version: 1,
+		description: 'Confirmation sent to an applicant when their membership application is received',
+		subject: 'We received your application to {{club.name}}',
+		html: `<p>Hi {{name|there}},</p>
+<p>Thank you for applying to join {{club.name}}. Our members will review your application and be in touch soon.</p>
+<p>If you have any questions in the meantime, just reply to this email.</p>`,
+		requiredVariables: [],
+		sampleVariables: {
+			name: 'Dana',
+		},
+	},
+];
+
+const sessionReminder: EmailTemplate[] = [
+	{
+		name: 'session_reminder',
+		version: 1,
+		description: 'Reminder of an upcoming operating session the member signed up for',
+		subject: 'Reminder: {{session.description}} on {{session.date}}',
+		html: `<p>Hi {{name|there}},</p>
+<p>This is a reminder that you are signed up for <strong>{{session.description}}</strong> at {{club.name}}.</p>
+<p>When: {{session.date}} at {{session.time}}</p>
+<p><a href="{{session.link}}">View the session</a></p>`,
+		requiredVariables: ['session.description', 'session.date', 'session.time'],
+		sampleVariables: {
+			name: 'Dana',
+			session: {
+				description: 'Saturday operating session',
+				date: 'Saturday, November 16',
+				time: '2:00 PM',
+				link: 'https://locomotivehouse.com/sessions/42',
+			},
+		},
+	},
+];
+
+const issueAssigned: EmailTemplate[] = [
+	{
+		name: 'issue_assigned',
+		version: 1,
+		description: 'Notice to a member that an issue has been assigned to them',
+		subject: 'Issue assigned to you: {{issue.title}}',
+		html: `<p>Hi {{name|there}},</p>
+<p>{{assigned_by}} assigned you an issue on {{tower.name}} at {{club.name}}:</p>
+<p><strong>{{issue.title}}</strong><br>{{issue.description}}</p>
+<p><a href="{{issue.link}}">View the issue</a></p>`,
+		requiredVariables: ['issue.title', 'tower.name'],
+		sampleVariables: {
+			name: 'Dana',
+			assigned_by: 'Sam',
+			tower: { name: 'Elm Street Tower' },
+			issue: {
+				title: 'Dead section at Elm St',
+				description: 'Track power drops out on the east siding.',
+				link: 'https://locomotivehouse.com/issues/5',
+			},
+		},
+	},
+];
+
+const clubDigest: EmailTemplate[] = [
+	{
+		name: 'club_digest',
+		version: 1,
+		description: 'Daily or weekly summary of club activity, sent to members who chose digest delivery',
+		subject: 'Your {{period}} digest from {{club.name}}',
+		html: `<p>Hi {{name|there}},</p>
+<p>Here is your {{period}} summary of activity at {{club.name}}.</p>
+{{{sections_html}}}`,
+		requiredVariables: ['period', 'sections_html'],
+		sampleVariables: {
+			name: 'Dana',
+			period: 'daily',
+			sections_html: `<h2 style="font-size:18px;margin:24px 0 8px;">New issues</h2>
+<ul>
+<li><strong>Dead section at Elm St</strong> on Elm Street Tower (open)</li>
+</ul>
+<h2 style="font-size:18px;margin:24px 0 8px;">Upcoming sessions with open slots</h2>
+<ul>
+<li><strong>Saturday operating session</strong> on Saturday, November 16 at 2:00 PM (3 of 12 slots open)</li>
+</ul>`,
+		},
+	},
+];
+
+/**
+ * All templates by name, with versions in ascending order
+ */
+export const EMAIL_TEMPLATES: Record<string, EmailTemplate[]> = {
+	invite,
+	application_received: applicationReceived,
+	session_reminder: sessionReminder,
+	issue_assigned: issueAssigned,
+	club_digest: clubDigest,
+};
+
+/**
+ * Looks up a template.
+ *
+ * @param name - Template name, e.g. `invite`
+ * @param version - Version to use; defaults to the latest
+ * @returns The template, or null if the name or version does not exist
+ */
+export const getTemplate = (name: string, version?: number): EmailTemplate | null => {
+	const versions = Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, name) ? EMAIL_TEMPLATES[name] : null;
+	if (!versions || versions.length === 0) {
+		return null;
+	}
+	if (version === undefined) {
+		return versions[versions.length - 1];
+	}
+	return versions.find((template) => template.version === version) || null;
+};
@@ -1,31 +1,51 @@
 import * as Sentry from '@sentry/cloudflare';
 // src/index.ts
-import { Webhook } from 'svix';
-import { addresses, consists, clubs, usersToClubs, users, permissions, appointments, inviteTokens } from './db/schema';
+import { addresses, clubs, usersToClubs, users, permissions, appointments, inviteTokens, scheduledSessions } from './db/schema';
 import { dbInitalizer } from './utils/db';
 import { Hono } from 'hono';
 import { etag } from 'hono/etag';
 import { env } from 'hono/adapter';
 import { logger } from 'hono/logger';
 import * as addressesModel from './addresses/model';
-import * as consistsModel from './consists/model';
 import * as usersModel from './users/model';
 import * as clubsModel from './clubs/model';
 import * as appointmentsModel from './appointments/model';
+import * as signupsModel from './sessionSignups/model';
 import * as inviteTokensModel from './inviteTokens/model';
 import { emailQueueRouter } from './emailQueue/routes';
+import { emailTemplatesRouter } from './emailTemplates/routes';
 import { towersRouter } from './towers/routes';
 import { issuesRouter } from './issues/routes';
 import { towerReportsRouter } from './towerReports/routes';
 import { scheduledSessionsRouter } from './scheduledSessions/routes';
 import { noticesRouter } from './notices/routes';
 import { applicationsRouter } from './applications/routes';
+import { addressReservationsRouter } from './addressReservations/routes';
+import { consistsRouter } from './consists/routes';
+import { sessionSignupsRouter } from './sessionSignups/routes';
+import { sessionSeriesRouter } from './sessionSeries/routes';
+import { calendarRouter, clubCalendarRouter } from './calendar/routes';
+import { commentsRouter } from './comments/routes';
+import { attachmentsRouter, attachmentDownloadsRouter } from './attachments/routes';
 import { usersRouter, clubUsersRouter } from './users/routes';
+import { notificationPreferencesRouter, unsubscribeRouter } from './notificationPreferences/routes';
+import { clubWebhooksRouter } from './clubWebhooks/routes';
+import { clubRolesRouter } from './clubRoles/routes';
+import { apiKeysRouter } from './apiKeys/routes';
+import { clerkWebhooksRouter } from './clerkWebhooks/routes';
+import { authRouter } from './auth/routes';
 import * as towerReportsModel from './towerReports/model';
 import { cors } from 'hono/cors';
 import { eq, and } from 'drizzle-orm';
-import { refreshAccessToken } from './utils/tokenRefresh';
-import { checkAuth, checkUserPermission } from './utils/auth';
+import { scheduled } from './scheduled';
+import {
+	checkAuth,
+	checkUserPermission,
+	checkSuperAdminPermission,
+	getUserIdFromClerkId,
+	getUserRoles,
+} from './utils/auth';
+import { authorize, can, actorForClub, actorFromRoles } from './utils/policy';
 
 export type Env = {
 	DATABASE_URL: string;
@@ -35,153 +55,29 @@ export type Env = {
 	API_KEY: string;
 	ALLOWED_ORIGIN: string;
 	SENTRY_RELEASE?: string;
+	ATTACHMENTS: R2Bucket;
+	ATTACHMENT_SIGNING_SECRET: string;
+	APP_URL?: string;
+	TURNSTILE_SECRET_KEY?: string;
+	EMAIL_TRANSPORT?: string;
+	EMAIL_FROM_ADDRESS?: string;
+	EMAIL_FROM_NAME?: string;
+	EMAIL_API_URL?: string;
+	EMAIL_API_KEY?: string;
+	MAILCHANNELS_API_KEY?: string;
+	DKIM_DOMAIN?: string;
+	DKIM_SELECTOR?: string;
+	DKIM_PRIVATE_KEY?: string;
+	UNSUBSCRIBE_SIGNING_SECRET?: string;
+	API_URL?: string;
+	SESSION_REMINDER_OFFSETS?: string;
+	OAUTH_TOKEN_URL?: string;
+	OAUTH_CLIENT_ID?: string;
+	OAUTH_CLIENT_SECRET?: string;
 };
 
 //TODO break this file up
 
-const checkAdminPermission = async function (c, next) {
-	const db = dbInitalizer({ c });
-	const clerkUserId = c.var.userId;
-	const isM2M = c.var.isM2M;
-
-	// M2M requests have admin-level access
-	if (isM2M) {
-		return next();
-	}
-
-	try {
-		// Find user in database by clerk ID
-		const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
-
-		if (!userIdResult) {
-			return c.json(
-				{
-					error: 'User not found',
-				},
-				403
-			);
-		}
-
-		// Get user with their permission
-		const userResult = await db
-			.select({
-				user: users,
-				permission: permissions,
-			})
-			.from(users)
-			.leftJoin(permissions, eq(users.permission, permissions.id))
-			.where(eq(users.id, userIdResult.id));
-
-		if (userResult.length === 0) {
-			return c.json(
-				{
-					error: 'User not found',
-				},
-				403
-			);
-		}
-
-		const userPermission = userResult[0].permission;
-
-		if (hasAdminPermission(userPermission?.title)) {
-			return next();
-		}
-
-		return c.json(
-			{
-				error: 'Admin permission required',
-			},
-			403
-		);
-	} catch (error) {
-		console.error('Admin permission check error:', error);
-		return c.json(
-			{
-				error: 'Permission check failed',
-			},
-			500
-		);
-	}
-};
-
-const hasAdminPermission = (permissionTitle: string | null | undefined): boolean => {
-	return permissionTitle === 'admin' || permissionTitle === 'super-admin';
-};
-
-const hasSuperAdminPermission = (permissionTitle: string | null | undefined): boolean => {
-	return permissionTitle === 'super-admin';
-};
-
-/**
- * Super Admin Permission Check Middleware
- * Verifies that the authenticated user has super-admin permission
- * This is more restrictive than checkAdminPermission (which allows both admin and super-admin)
- */
-const checkSuperAdminPermission = async function (c, next) {
-	const db = dbInitalizer({ c });
-	const clerkUserId = c.var.userId;
-	const isM2M = c.var.isM2M;
-
-	// M2M requests have super-admin-level access
-	if (isM2M) {
-		return next();
-	}
-
-	try {
-		// Find user in database by clerk ID
-		const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
-
-		if (!userIdResult) {
-			return c.json(
-				{
-					error: 'User not found',
-				},
-				403
-			);
-		}
-
-		// Get user with their permission
-		const userResult = await db
-			.select({
-				user: users,
-				permission: permissions,
-			})
-			.from(users)
-			.leftJoin(permissions, eq(users.permission, permissions.id))
-			.where(eq(users.id, userIdResult.id));
-
-		if (userResult.length === 0) {
-			return c.json(
-				{
-					error: 'User not found',
-				},
-				403
-			);
-		}
-
-		const userPermission = userResult[0].permission;
-
-		if (hasSuperAdminPermission(userPermission?.title)) {
-			return next();
-		}
-
-		return c.json(
-			{
-				error: 'Super admin permission required',
-			},
-			403
-		);
-	} catch (error) {
-		console.error('Super admin permission check error:', error);
-		return c.json(
-			{
-				error: 'Permission check failed',
-			},
-			500
-		);
-	}
-};
-
 /**
  * API Key verification middleware
  * Ensures requests include a valid API key in the X-API-Key header
@@ -204,8 +100,8 @@ const checkApiKey = async function (c, next) {
 
 /**
  * Email Queue Auth Middleware
- * Supports JWT tokens, refresh tokens, and M2M (machine-to-machine) tokens for external services
- * If refresh token is provided, it will be used to get a new JWT
+ * Supports JWT tokens and M2M (machine-to-machine) tokens for external services
+ * External services holding a refresh token exchange it at POST /api/auth/refresh first
  */
 const checkEmailQueueAuth = async function (c, next) {
 	const { CLERK_PRIVATE_KEY, CLERK_MACHINE_SECRET_KEY } = env<{
@@ -268,21 +164,13 @@ const checkEmailQueueAuth = async function (c, next) {
 			return next();
 		}
 
-		// Check if this looks like a refresh token
+		// Refresh tokens rotate, so exchanging one here would spend it without handing back its
+		// replacement
 		if (token.startsWith('refresh_')) {
-			// Attempt to refresh the token
-			try {
-				const refreshResult = await refreshAccessToken(token, CLERK_PRIVATE_KEY);
-				token = refreshResult.accessToken;
-				// Store refreshed token for use in endpoint
-				c.set('refreshedToken', token);
-				c.set('newRefreshToken', refreshResult.refreshToken);
-			} catch (refreshError) {
-				return c.json({ error: 'Failed to refresh token' }, 401);
-			}
+			return c.json({ error: 'Exchange refresh tokens at POST /api/auth/refresh' }, 401);
 		}
 
-		// Verify the JWT token (either original or refreshed)
+		// Verify the JWT token
 		const { verifyToken } = await import('@clerk/backend');
 		const verification = await verifyToken(token, {
 			secretKey: CLERK_PRIVATE_KEY,
@@ -308,10 +196,10 @@ const checkClubAccess = async function (c, next) {
 	}
 
 	try {
-		// Find user in database by clerk ID
-		const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
+		// Find user in database by clerk ID, with their membership of the club
+		const roles = await getUserRoles(db, { token: clerkUserId }, parseInt(clubId, 10));
 
-		if (!userIdResult) {
+		if (!roles) {
 			return c.json(
 				{
 					error: 'User not found',
@@ -320,40 +208,8 @@ const checkClubAccess = async function (c, next) {
 			);
 		}
 
-		// Get user permission to check if admin
-		const userResult = await db
-			.select({
-				user: users,
-				permission: permissions,
-			})
-			.from(users)
-			.leftJoin(permissions, eq(users.permission, permissions.id))
-			.where(eq(users.id, userIdResult.id));
-
-		if (userResult.length === 0) {
-			return c.json(
-				{
-					error: 'User not found',
-				},
-				403
-			);
-		}
-
-		const userPermission = userResult[0].permission;
-		const isAdmin = hasAdminPermission(userPermission?.title);
-
-		// Admins have access to all clubs
-		if (isAdmin) {
-			return next();
-		}
-
-		// Non-admins must be assigned to the club
-		const clubAssignment = await db
-			.select()
-			.from(usersToClubs)
-			.where(and(eq(usersToClubs.user_id, userIdResult.id), eq(usersToClubs.club_id, parseInt(clubId, 10))));
-
-		if (clubAssignment.length === 0) {
+		// Super-admins have access to all clubs; everyone else must be assigned to the club
+		if (!can(actorFromRoles(roles), 'read', 'club')) {
 			return c.json(
 				{
 					error: 'Unauthorized: You do not have access to this club',
@@ -374,13 +230,6 @@ const checkClubAccess = async function (c, next) {
 	}
 };
 
-// Utility function to get the database user ID from clerk ID
-const getUserIdFromClerkId = async (db: ReturnType<typeof dbInitalizer>, clerkUserId: string): Promise<{ id: number } | null> => {
-	const result = await db.select({ id: users.id }).from(users).where(eq(users.token, clerkUserId));
-
-	return result.length > 0 ? result[0] : null;
-};
-
 const app = new Hono<{ Bindings: Env }>();
 app.use('/etag/*', etag());
 app.use(logger());
@@ -412,26 +261,69 @@ app.use(
 
 // Mount users routes
 app.route('/api/users', usersRouter);
+app.route('/api/calendar', calendarRouter);
 app.route('/api/clubs/:clubId/users', clubUsersRouter);
 
 // Mount more specific routes FIRST (before general tower routes)
 // This ensures /reports and /issues routes are matched before the generic /towers route
 
+// Mount comment threads (most specific - must come before reports and issues)
+app.route('/api/clubs/:clubId/towers/:towerId/reports/:reportId/comments', commentsRouter);
+app.route('/api/clubs/:clubId/towers/:towerId/issues/:issueId/comments', commentsRouter);
+
 // Mount tower reports routes (more specific)
 app.route('/api/clubs/:clubId/towers/:towerId/reports', towerReportsRouter);
 
 // Mount issues routes (more specific)
 app.route('/api/clubs/:clubId/towers/:towerId/issues', issuesRouter);
 
+// Mount club calendar feed (public)
+app.route('/api/clubs/:clubId/scheduled-sessions.ics', clubCalendarRouter);
+
+// Mount session sign-up routes (more specific - must come before scheduled sessions)
+app.route('/api/clubs/:clubId/scheduled-sessions/:sessionId/signups', sessionSignupsRouter);
+
 // Mount scheduled sessions routes
 app.route('/api/clubs/:clubId/scheduled-sessions', scheduledSessionsRouter);
 
+// Mount session series routes
+app.route('/api/clubs/:clubId/session-series', sessionSeriesRouter);
+
 // Mount notices routes
 app.route('/api/clubs/:clubId/notices', noticesRouter);
 
 // Mount applications routes
 app.route('/api/clubs/:clubId/applications', applicationsRouter);
 
+// Mount notification preference routes
+app.route('/api/clubs/:clubId/notification-preferences', notificationPreferencesRouter);
+app.route('/api/unsubscribe', unsubscribeRouter);
+
+// Mount outbound webhook routes
+app.route('/api/clubs/:clubId/webhooks', clubWebhooksRouter);
+
+// Mount custom club role routes
+app.route('/api/clubs/:clubId/roles', clubRolesRouter);
+
+// Mount personal API key routes
+app.route('/api/clubs/:clubId/api-keys', apiKeysRouter);
+
+// Mount Clerk webhook receiver (keeps the trailing slash Clerk is configured with)
+app.route('/api/webhooks/', clerkWebhooksRouter);
+
+// Mount token refresh for external tools
+app.route('/api/auth', authRouter);
+
+// Mount attachment routes
+app.route('/api/clubs/:clubId/attachments', attachmentsRouter);
+app.route('/api/attachments', attachmentDownloadsRouter);
+
+// Mount address reservation routes
+app.route('/api/clubs/:clubId/address-reservations', addressReservationsRouter);
+
+// Mount consists routes
+app.route('/api/clubs/:clubId/consists', consistsRouter);
+
 // Mount towers routes (general - must be last)
 app.route('/api/clubs/:clubId/towers', towersRouter);
 
@@ -442,6 +334,9 @@ app.use('/api/email-queue', checkApiKey, checkEmailQueueAuth);
 // mount router directly at the final prefix
 app.route('/api/email-queue', emailQueueRouter);
 
+// Mount email template routes
+app.route('/api/email-templates', emailTemplatesRouter);
+
 /**
  * GET all tower reports for a club
  * Route: GET /api/clubs/:clubId/reports
@@ -459,7 +354,7 @@ app.route('/api/email-queue', emailQueueRouter);
  * GET /api/clubs/789/reports?year=2024 - Get reports from 2024
  * GET /api/clubs/789/reports?year=2024&month=11 - Get reports from November 2024
  */
-app.get('/api/clubs/:clubId/reports', checkAuth, checkUserPermission, async (c) => {
+app.get('/api/clubs/:clubId/reports', checkAuth, checkUserPermission, authorize('towerReport', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const clubId = c.req.param('clubId');
@@ -519,12 +414,23 @@ app.get('/api/clubs/:clubId/reports', checkAuth, checkUserPermission, async (c)
 	}
 });
 
-app.get('/api/addresses/', checkAuth, async (c) => {
+app.get('/api/addresses/', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	try {
-		const result = await db.select().from(addresses);
+		// Super-admins see every club's addresses; everyone else only those in their own clubs
+		if (c.var.isM2M || c.var.isSuperAdmin) {
+			const result = await db.select().from(addresses);
+			return c.json({
+				result,
+			});
+		}
+
+		const memberAddresses = await db
+			.select({ address: addresses })
+			.from(addresses)
+			.innerJoin(usersToClubs, and(eq(usersToClubs.club_id, addresses.club_id), eq(usersToClubs.user_id, c.var.userId)));
 		return c.json({
-			result,
+			result: memberAddresses.map((row) => row.address),
 		});
 	} catch (error) {
 		return c.json(
@@ -539,7 +445,6 @@ app.get('/api/addresses/', checkAuth, async (c) => {
 app.post('/api/addresses/', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	const data = await c.req.json();
-	const clerkUserId = c.var.clerkUserId;
 
 	// Validate required fields
 	if (!data.club_id) {
@@ -551,27 +456,11 @@ app.post('/api/addresses/', checkAuth, checkUserPermission, async (c) => {
 		);
 	}
 
-	// Find user in database by clerk ID
-	const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
-
-	if (!userIdResult) {
-		return c.json({ error: 'User not found in database' }, 403);
-	}
-
-	const lhUserId = userIdResult.id;
-
-	// Check user's permission level
 	try {
-		const userResult = await db
-			.select({
-				user: users,
-				permission: permissions,
-			})
-			.from(users)
-			.leftJoin(permissions, eq(users.permission, permissions.id))
-			.where(eq(users.id, lhUserId));
-
-		if (userResult.length === 0) {
+		// Check the user's role in the club
+		const actor = await actorForClub(c, db, data.club_id);
+
+		if (!actor) {
 			return c.json(
 				{
 					error: 'User not found',
@@ -580,41 +469,32 @@ app.post('/api/addresses/', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
-		const userPermission = userResult[0].permission;
-		const isAdmin = hasAdminPermission(userPermission?.title);
-
-		// If not admin, verify that request.user_id === authenticated_user_id
-		if (!isAdmin && data.user_id !== lhUserId) {
+		if (!actor.isM2M && !actor.isSuperAdmin && !actor.isMember) {
 			return c.json(
 				{
-					error: 'Unauthorized: You can only create addresses for yourself',
+					error: 'Unauthorized: You are not assigned to this club',
 				},
 				403
 			);
 		}
 
-		// Verify user is assigned to the club (unless admin)
-		if (!isAdmin) {
-			const userClubAssignment = await db
-				.select()
-				.from(usersToClubs)
-				.where(and(eq(usersToClubs.user_id, lhUserId), eq(usersToClubs.club_id, data.club_id)));
-
-			if (userClubAssignment.length === 0) {
-				return c.json(
-					{
-						error: 'Unauthorized: You are not assigned to this club',
-					},
-					403
-				);
-			}
+		// Unless they manage addresses, members can only create addresses for themselves
+		if (!can(actor, 'write', 'address', { user_id: data.user_id })) {
+			return c.json(
+				{
+					error: 'Unauthorized: You can only create addresses for yourself',
+				},
+				403
+			);
 		}
 
-		const newAddresses = await addressesModel.createAddress(db, data as addressesModel.Address);
+		const canManageAddresses = can(actor, 'write', 'addressReservation');
+		const newAddresses = await addressesModel.createAddress(db, data as addressesModel.Address, { bypassReservations: canManageAddresses });
 		if (newAddresses.error) {
 			return c.json(
 				{
 					error: newAddresses.error,
+					conflict: newAddresses.conflict,
 				},
 				400
 			);
@@ -641,7 +521,6 @@ app.put('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 	try {
 		const id = c.req.param('id');
 		const data = await c.req.json();
-		const clerkUserId = c.var.clerkUserId;
 
 		// Validate required fields
 		if (!data.club_id) {
@@ -653,15 +532,6 @@ app.put('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
-		// Find user in database by clerk ID
-		const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
-
-		if (!userIdResult) {
-			return c.json({ error: 'User not found in database' }, 403);
-		}
-
-		const lhUserId = userIdResult.id;
-
 		// Get the existing address record
 		const existingAddresses = await db
 			.select()
@@ -677,17 +547,10 @@ app.put('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
-		// Check user's permission level
-		const userResult = await db
-			.select({
-				user: users,
-				permission: permissions,
-			})
-			.from(users)
-			.leftJoin(permissions, eq(users.permission, permissions.id))
-			.where(eq(users.id, lhUserId));
-
-		if (userResult.length === 0) {
+		// Check the user's role in the club
+		const actor = await actorForClub(c, db, existingAddresses[0].club_id);
+
+		if (!actor) {
 			return c.json(
 				{
 					error: 'User not found',
@@ -696,11 +559,8 @@ app.put('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
-		const userPermission = userResult[0].permission;
-		const isAdmin = hasAdminPermission(userPermission?.title);
-
-		// If not admin, verify that address.user_id === authenticated_user_id
-		if (!isAdmin && existingAddresses[0].user_id !== lhUserId) {
+		// Unless they manage addresses, members can only edit their own addresses
+		if (!can(actor, 'write', 'address', existingAddresses[0])) {
 			return c.json(
 				{
 					error: 'Unauthorized: You can only edit your own addresses',
@@ -709,28 +569,31 @@ app.put('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
-		// Verify user is assigned to the club (unless admin)
-		if (!isAdmin) {
-			const userClubAssignment = await db
-				.select()
-				.from(usersToClubs)
-				.where(and(eq(usersToClubs.user_id, lhUserId), eq(usersToClubs.club_id, data.club_id)));
-
-			if (userClubAssignment.length === 0) {
-				return c.json(
-					{
-						error: 'Unauthorized: You are not assigned to this club',
-					},
-					403
-				);
-			}
+		// The address must stay with someone the user may manage addresses for, in a club they belong to
+		const target = data.club_id === existingAddresses[0].club_id ? actor : await actorForClub(c, db, data.club_id);
+		if (!target || !can(target, 'write', 'address', { user_id: data.user_id ?? existingAddresses[0].user_id })) {
+			return c.json(
+				{
+					error: 'Unauthorized: You are not assigned to this club',
+				},
+				403
+			);
 		}
 
-		const updatedAddress = await addressesModel.updateAddress(db, id, data as addressesModel.Address);
+		// Reservations only govern taking a number, so edits that keep the number, club and holder skip them
+		const canManageAddresses = can(actor, 'write', 'addressReservation');
+		const keepsNumber =
+			data.number === existingAddresses[0].number &&
+			data.club_id === existingAddresses[0].club_id &&
+			data.user_id === existingAddresses[0].user_id;
+		const updatedAddress = await addressesModel.updateAddress(db, id, data as addressesModel.Address, {
+			bypassReservations: canManageAddresses || keepsNumber,
+		});
 		if (updatedAddress.error) {
 			return c.json(
 				{
 					error: updatedAddress.error,
+					conflict: updatedAddress.conflict,
 				},
 				400
 			);
@@ -755,16 +618,6 @@ app.put('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 app.delete('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	const id = c.req.param('id');
-	const clerkUserId = c.var.clerkUserId;
-
-	// Find user in database by clerk ID
-	const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
-
-	if (!userIdResult) {
-		return c.json({ error: 'User not found in database' }, 403);
-	}
-
-	const lhUserId = userIdResult.id;
 
 	// Get the existing address record
 	const existingAddresses = await db
@@ -782,17 +635,10 @@ app.delete('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 	}
 
 	try {
-		// Check user's permission level
-		const userResult = await db
-			.select({
-				user: users,
-				permission: permissions,
-			})
-			.from(users)
-			.leftJoin(permissions, eq(users.permission, permissions.id))
-			.where(eq(users.id, lhUserId));
-
-		if (userResult.length === 0) {
+		// Check the user's role in the club
+		const actor = await actorForClub(c, db, existingAddresses[0].club_id);
+
+		if (!actor) {
 			return c.json(
 				{
 					error: 'User not found',
@@ -801,11 +647,8 @@ app.delete('/api/addresses/:id', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
-		const userPermission = userResult[0].permission;
-		const isAdmin = hasAdminPermission(userPermission?.title);
-
-		// If not admin, verify that address.user_id === authenticated_user_id
-		if (!isAdmin && existingAddresses[0].user_id !== lhUserId) {
+		// Unless they manage addresses, members can only delete their own addresses
+		if (!can(actor, 'write', 'address', existingAddresses[0])) {
 			return c.json(
 				{
 					error: 'Unauthorized: You can only delete your own addresses',
@@ -877,10 +720,10 @@ app.post('/api/clubs/', checkAuth, checkSuperAdminPermission, async (c) => {
 	);
 });
 
-app.put('/api/clubs/:id', checkAuth, async (c) => {
+app.put('/api/clubs/:clubId', checkAuth, checkUserPermission, authorize('club', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
-		const id = c.req.param('id');
+		const id = c.req.param('clubId');
 		const data = await c.req.json();
 		const updatedClub = await clubsModel.updateClub(db, id, data as clubsModel.Club);
 		if (updatedClub.error) {
@@ -908,6 +751,55 @@ app.put('/api/clubs/:id', checkAuth, async (c) => {
 	}
 });
 
+/**
+ * PUT link a club to a Clerk organization
+ * Route: PUT /api/clubs/:clubId/organization
+ *
+ * The organization's membership webhooks add and remove the club's members, so only
+ * super-admins may set the link.
+ *
+ * @example
+ * PUT /api/clubs/789/organization
+ * Body: { "clerk_organization_id": "org_2abc" }   (null unlinks the club)
+ */
+app.put('/api/clubs/:clubId/organization', checkAuth, checkSuperAdminPermission, async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const data = await c.req.json();
+		const linked = await clubsModel.linkClubToOrganization(db, parseInt(c.req.param('clubId'), 10), data.clerk_organization_id ?? null);
+		if (linked.error) {
+			return c.json(
+				{
+					error: linked.error,
+				},
+				400
+			);
+		}
+		if (linked.data!.length === 0) {
+			return c.json(
+				{
+					error: 'Club not found',
+				},
+				404
+			);
+		}
+		return c.json(
+			{
+				club: linked.data,
+			},
+			201
+		);
+	} catch (err) {
+		console.error('Error linking club to organization:', err);
+		return c.json(
+			{
+				error: 'Failed to link club to organization',
+			},
+			500
+		);
+	}
+});
+
 app.get('/api/clubs/invite/validate', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	const token = c.req.query('token');
@@ -1011,7 +903,7 @@ app.get('/api/clubs/:id', async (c) => {
 	}
 });
 
-app.get('/api/clubs/:id/appointments', checkAuth, async (c) => {
+app.get('/api/clubs/:id/appointments', checkAuth, checkClubAccess, async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const clubId = c.req.param('id');
@@ -1123,10 +1015,92 @@ app.get('/api/clubs/:id/addresses', checkAuth, checkClubAccess, async (c) => {
 	}
 });
 
-app.post('/api/clubs/assignments/', checkAuth, async (c) => {
+/**
+ * GET suggested free address numbers for a club
+ * Route: GET /api/clubs/:id/addresses/available
+ *
+ * Suggests address numbers that are not in use, not the club's DCC default address
+ * (`dcc_default_address`, 3 unless changed), and not inside a reserved range or another
+ * member's allocation block.
+ * Numbers from the requesting member's own allocation blocks are suggested first.
+ *
+ * Query Parameters:
+ * - count (optional): How many numbers to suggest (default 5, max 50)
+ *
+ * @example
+ * GET /api/clubs/789/addresses/available?count=5
+ * Response: { available: [100, 101, 102, 103, 104] }
+ */
+app.get('/api/clubs/:id/addresses/available', checkAuth, checkClubAccess, async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('id');
+		const count = parseInt(c.req.query('count') || '5', 10);
+
+		if (isNaN(count) || count < 1 || count > 50) {
+			return c.json(
+				{
+					error: 'count must be between 1 and 50',
+				},
+				400
+			);
+		}
+
+		const userIdResult = c.var.isM2M ? null : await getUserIdFromClerkId(db, c.var.userId);
+
+		const result = await addressesModel.getAvailableAddressNumbers(db, parseInt(clubId, 10), count, userIdResult?.id ?? null);
+
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				500
+			);
+		}
+
+		return c.json(
+			{
+				available: result.data || [],
+			},
+			200
+		);
+	} catch (err) {
+		console.error('Error suggesting available addresses:', err);
+		return c.json(
+			{
+				error: 'Failed to suggest available addresses',
+			},
+			500
+		);
+	}
+});
+
+app.post('/api/clubs/assignments/', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	const data = await c.req.json();
-	const newClubAssignments = await clubsModel.createClubAssignments(db, data as clubsModel.AssignmentResult);
+
+	// Adding someone to a club is managing its members
+	const actor = await actorForClub(c, db, data.club_id ? parseInt(data.club_id, 10) : null);
+	if (!actor || !can(actor, 'write', 'member')) {
+		return c.json(
+			{
+				error: 'Unauthorized: You cannot manage members of this club',
+			},
+			403
+		);
+	}
+
+	if (!data.user_id || !data.club_id) {
+		return c.json(
+			{
+				error: 'Missing body',
+			},
+			400
+		);
+	}
+
+	const newClubAssignments = await usersModel.addClubMember(db, parseInt(data.user_id, 10), parseInt(data.club_id, 10), 'added');
 	if (newClubAssignments.error) {
 		return c.json(
 			{
@@ -1143,10 +1117,21 @@ app.post('/api/clubs/assignments/', checkAuth, async (c) => {
 	);
 });
 
-app.get('/api/clubs/assignments/', async (c) => {
+app.get('/api/clubs/assignments/', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	const id = c.req.query('id');
 	try {
+		// Members may list their own club's assignments; only super-admins may list every club's
+		const actor = await actorForClub(c, db, id ? parseInt(id, 10) : null);
+		if (!actor || (id ? !can(actor, 'read', 'member') : !actor.isM2M && !actor.isSuperAdmin)) {
+			return c.json(
+				{
+					error: 'Unauthorized: You do not have access to this club',
+				},
+				403
+			);
+		}
+
 		const result = await db
 			.select()
 			.from(usersToClubs)
@@ -1170,9 +1155,9 @@ app.get('/api/clubs/assignments/', async (c) => {
 	}
 });
 
-app.post('/api/clubs/:id/invite-tokens', checkAuth, checkAdminPermission, async (c) => {
+app.post('/api/clubs/:clubId/invite-tokens', checkAuth, checkUserPermission, authorize('inviteToken', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
-	const clubId = c.req.param('id');
+	const clubId = c.req.param('clubId');
 
 	try {
 		if (!clubId) {
@@ -1197,8 +1182,19 @@ app.post('/api/clubs/:id/invite-tokens', checkAuth, checkAdminPermission, async
 			);
 		}
 
-		// Get optional role permission
+		// Get optional role permission, the joiner's role in this club
 		const rolePermission = data.rolePermission || data.role_permission;
+		if (rolePermission) {
+			const roleError = await usersModel.validateClubRole(db, parseInt(rolePermission, 10));
+			if (roleError) {
+				return c.json(
+					{
+						error: roleError,
+					},
+					400
+				);
+			}
+		}
 
 		// Create invite token
 		const result = await inviteTokensModel.createInviteToken(
@@ -1234,9 +1230,9 @@ app.post('/api/clubs/:id/invite-tokens', checkAuth, checkAdminPermission, async
 	}
 });
 
-app.get('/api/clubs/:id/invite-tokens', checkAuth, checkAdminPermission, async (c) => {
+app.get('/api/clubs/:clubId/invite-tokens', checkAuth, checkUserPermission, authorize('inviteToken', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
-	const clubId = c.req.param('id');
+	const clubId = c.req.param('clubId');
 
 	try {
 		if (!clubId) {
@@ -1277,8 +1273,9 @@ app.get('/api/clubs/:id/invite-tokens', checkAuth, checkAdminPermission, async (
 	}
 });
 
-app.delete('/api/clubs/:id/invite-tokens/:token', checkAuth, checkAdminPermission, async (c) => {
+app.delete('/api/clubs/:clubId/invite-tokens/:token', checkAuth, checkUserPermission, authorize('inviteToken', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
+	const clubId = c.req.param('clubId');
 	const token = c.req.param('token');
 
 	try {
@@ -1292,7 +1289,7 @@ app.delete('/api/clubs/:id/invite-tokens/:token', checkAuth, checkAdminPermissio
 		}
 
 		// Delete invite token
-		const result = await inviteTokensModel.deleteInviteToken(db, token);
+		const result = await inviteTokensModel.deleteInviteToken(db, token, parseInt(clubId, 10));
 
 		if (result.error) {
 			return c.json(
@@ -1321,10 +1318,14 @@ app.delete('/api/clubs/:id/invite-tokens/:token', checkAuth, checkAdminPermissio
 	}
 });
 
-app.get('/api/consists/', checkAuth, async (c) => {
+app.get('/api/appointments/', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	try {
-		const result = await db.select().from(consists);
+		// Super-admins see every appointment; everyone else only their own
+		const result =
+			c.var.isM2M || c.var.isSuperAdmin
+				? await db.select().from(appointments)
+				: await db.select().from(appointments).where(eq(appointments.user_id, c.var.userId));
 		return c.json({
 			result,
 		});
@@ -1338,101 +1339,11 @@ app.get('/api/consists/', checkAuth, async (c) => {
 	}
 });
 
-app.post('/api/consists/', checkAuth, checkUserPermission, async (c) => {
-	const db = dbInitalizer({ c });
-	const data = await c.req.json();
-	const newConsist = await consistsModel.createConsist(db, data as consistsModel.Consist);
-	if (newConsist.error) {
-		return c.json(
-			{
-				error: newConsist.error,
-			},
-			400
-		);
-	}
-	return c.json(
-		{
-			consist: newConsist,
-		},
-		201
-	);
-});
-
-app.delete('/api/consists/:id', checkAuth, async (c) => {
-	const db = dbInitalizer({ c });
-	const id = c.req.param('id');
-	const deletedConsist = await consistsModel.deleteConsist(db, id);
-	if (deletedConsist.error) {
-		return c.json(
-			{
-				error: deletedConsist.error,
-			},
-			400
-		);
-	}
-	return c.json(
-		{
-			address: deletedConsist,
-		},
-		200
-	);
-});
-
-app.get('/api/appointments/', checkAuth, async (c) => {
-	const db = dbInitalizer({ c });
-	try {
-		const result = await db.select().from(appointments);
-		return c.json({
-			result,
-		});
-	} catch (error) {
-		return c.json(
-			{
-				error,
-			},
-			400
-		);
-	}
-});
-
-app.post('/api/appointments/', checkAuth, checkUserPermission, async (c) => {
-	const db = dbInitalizer({ c });
-	const id = c.req.param('id');
-	const formattedData = await c.req.json();
-
-	const newAppointment = await appointmentsModel.createAppointment(db, formattedData as appointmentsModel.Appointment);
-
-	if (newAppointment.error) {
-		return c.json(
-			{
-				error: newAppointment.error,
-			},
-			400
-		);
-	}
-	return c.json(
-		{
-			created: true,
-			id: newAppointment.data[0].id,
-		},
-		200
-	);
-});
-
 app.put('/api/appointments/:id', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	const id = c.req.param('id');
 	const data = await c.req.json();
-	const clerkUserId = c.var.clerkUserId;
-
-	// Find user in database by clerk ID
-	const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
-
-	if (!userIdResult) {
-		return c.json({ error: 'User not found in database' }, 403);
-	}
-
-	const lhUserId = userIdResult.id;
+	const lhUserId = c.var.userId;
 
 	// Check if the appointment exists and belongs to the user
 	const existingAppointments = await db
@@ -1457,6 +1368,29 @@ app.put('/api/appointments/:id', checkAuth, checkUserPermission, async (c) => {
 		);
 	}
 
+	// A session signup takes its time from the session; to move it, cancel and sign up again
+	const existingSessionId = existingAppointments[0].scheduled_session_id;
+	if (
+		existingSessionId &&
+		((data.scheduled_session_id !== undefined && data.scheduled_session_id !== existingSessionId) ||
+			(data.schedule && new Date(data.schedule).getTime() !== existingAppointments[0].schedule?.getTime()))
+	) {
+		return c.json(
+			{
+				error: 'Session signups cannot be moved; cancel the signup and sign up for the other session',
+			},
+			400
+		);
+	}
+	if (!existingSessionId && data.scheduled_session_id) {
+		return c.json(
+			{
+				error: 'Use the session signup endpoint to join a session',
+			},
+			400
+		);
+	}
+
 	const updatedAppointment = await appointmentsModel.updateAppointment(db, id, data as appointmentsModel.Appointment);
 
 	if (updatedAppointment.error) {
@@ -1480,16 +1414,6 @@ app.put('/api/appointments/:id', checkAuth, checkUserPermission, async (c) => {
 app.delete('/api/appointments/:id', checkAuth, checkUserPermission, async (c) => {
 	const db = dbInitalizer({ c });
 	const id = c.req.param('id');
-	const clerkUserId = c.var.clerkUserId;
-
-	// Find user in database by clerk ID
-	const userIdResult = await getUserIdFromClerkId(db, clerkUserId);
-
-	if (!userIdResult) {
-		return c.json({ error: 'User not found in database' }, 403);
-	}
-
-	const lhUserId = userIdResult.id;
 
 	// Check if the appointment exists and belongs to the user
 	const existingAppointments = await db
@@ -1505,14 +1429,18 @@ app.delete('/api/appointments/:id', checkAuth, checkUserPermission, async (c) =>
 		);
 	}
 
-	// Check user permissions for admin override
-	const userResult = await db
-		.select({ permission: permissions })
-		.from(users)
-		.leftJoin(permissions, eq(users.permission, permissions.id))
-		.where(eq(users.id, lhUserId));
+	// Members who manage the session's club's sessions may delete any member's appointment
+	let sessionClubId: number | null = null;
+	if (existingAppointments[0].scheduled_session_id) {
+		const sessionResult = await db
+			.select({ club_id: scheduledSessions.club_id })
+			.from(scheduledSessions)
+			.where(eq(scheduledSessions.id, existingAppointments[0].scheduled_session_id));
+		sessionClubId = sessionResult[0]?.club_id ?? null;
+	}
+	const actor = await actorForClub(c, db, sessionClubId);
 
-	if (userResult.length === 0) {
+	if (!actor) {
 		return c.json(
 			{
 				error: 'User not found',
@@ -1521,11 +1449,9 @@ app.delete('/api/appointments/:id', checkAuth, checkUserPermission, async (c) =>
 		);
 	}
 
-	const userPermission = userResult[0].permission;
-	const isAdmin = hasAdminPermission(userPermission?.title);
-
-	// If not admin, verify that appointment.user_id === authenticated_user_id
-	if (!isAdmin && existingAppointments[0].user_id !== lhUserId) {
+	// Unless they manage sessions, members can only delete their own appointments. Appointments
+	// outside a session are in no club, so only their owner and super-admins may delete them
+	if (existingAppointments[0].user_id !== c.var.userId && !can(actor, 'write', 'appointment', existingAppointments[0])) {
 		return c.json(
 			{
 				error: 'Unauthorized: You can only delete your own appointments',
@@ -1544,93 +1470,14 @@ app.delete('/api/appointments/:id', checkAuth, checkUserPermission, async (c) =>
 			400
 		);
 	}
-	return c.json(
-		{
-			deleted: true,
-		},
-		200
-	);
-});
-
-app.post('/api/webhooks/', async (c) => {
-	const { WEBHOOK_SECRET } = env<{ WEBHOOK_SECRET: string }>(c, 'workerd');
-	const db = dbInitalizer({ c });
-	const svixId = c.req.raw.headers.get('svix-id');
-	const svixSig = c.req.raw.headers.get('svix-signature');
-	const svixTime = c.req.raw.headers.get('svix-timestamp');
-
-	if (!WEBHOOK_SECRET) {
-		return c.json(
-			{
-				error: 'No webhook secret provided',
-			},
-			403
-		);
-	}
-	if (!svixId || !svixSig || !svixTime) {
-		return c.json(
-			{
-				error: 'No SVIX headers provided',
-			},
-			400
-		);
-	}
-	// Create a new Svix instance with secret.
-	const wh = new Webhook(WEBHOOK_SECRET);
-
-	let evt;
-	const data = await c.req.json();
-
-	// Attempt to verify the incoming webhook
-	// If successful, the payload will be available from 'evt'
-	// If the verification fails, error out and  return error code
-	try {
-		evt = wh.verify(JSON.stringify(data), {
-			'svix-id': svixId,
-			'svix-timestamp': svixTime,
-			'svix-signature': svixSig,
-		});
-	} catch (err) {
-		return c.json(
-			{
-				error: err.message,
-			},
-			400
-		);
-	}
-
-	if (evt.type === 'user.created') {
-		const formattedData = { ...data.data };
-		formattedData.token = data.data.id;
-		const newUser = await usersModel.createUser(db, formattedData as usersModel.User);
-		if (newUser.error) {
-			return c.json(
-				{
-					error: newUser.error,
-				},
-				400
-			);
-		}
-	}
 
-	if (evt.type === 'user.deleted') {
-		const formattedData = { ...data.data };
-		formattedData.token = data.data.id;
-
-		const deletedUser = await usersModel.deleteUser(db, formattedData.token);
-		if (deletedUser.error) {
-			return c.json(
-				{
-					error: deletedUser.error,
-				},
-				400
-			);
-		}
+	// Give the freed seat to the next waitlisted member
+	if (existingAppointments[0].scheduled_session_id) {
+		await signupsModel.promoteFromWaitlist(db, existingAppointments[0].scheduled_session_id);
 	}
-
 	return c.json(
 		{
-			user: evt,
+			deleted: true,
 		},
 		200
 	);
@@ -1647,7 +1494,10 @@ export default Sentry.withSentry((env: Env & { SENTRY_RELEASE?: string }) => {
 		// https://docs.sentry.io/platforms/javascript/guides/cloudflare/configuration/options/#sendDefaultPii
 		sendDefaultPii: true,
 	};
-}, app);
+}, {
+	fetch: app.fetch,
+	scheduled,
+} satisfies ExportedHandler<Env>);
 
 // Export app type for client type generation
 export type AppType = typeof app;
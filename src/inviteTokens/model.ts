@@ -1,6 +1,6 @@
 // src/inviteTokens/model.ts
 import { inviteTokens, clubs } from '../db/schema';
-import { eq, gt } from 'drizzle-orm';
+import { and, eq, gt } from 'drizzle-orm';
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
 
 export interface Result<T = any> {
@@ -169,9 +169,10 @@ export const getClubInviteTokens = async (db: NeonHttpDatabase, clubId: number):
  * Delete an invite token
  * @param db Database instance
  * @param token Token to delete
+ * @param clubId Only delete the token if it belongs to this club
  * @returns Result with deletion status
  */
-export const deleteInviteToken = async (db: NeonHttpDatabase, token: string): Promise<Result<boolean>> => {
+export const deleteInviteToken = async (db: NeonHttpDatabase, token: string, clubId?: number): Promise<Result<boolean>> => {
 	if (!token) {
 		return {
 			error: 'Missing invite token',
@@ -179,7 +180,10 @@ export const deleteInviteToken = async (db: NeonHttpDatabase, token: string): Pr
 	}
 
 	try {
-		const result = await db.delete(inviteTokens).where(eq(inviteTokens.token, token)).returning();
+		const result = await db
+			.delete(inviteTokens)
+			.where(clubId ? and(eq(inviteTokens.token, token), eq(inviteTokens.club_id, clubId)) : eq(inviteTokens.token, token))
+			.returning();
 
 		if (result.length === 0) {
 			return {
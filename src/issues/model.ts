@@ -1,7 +1,8 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, asc } from 'drizzle-orm';
 
-import { issues } from '../db/schema';
+import { issues, issueHistory, comments, users, usersToClubs } from '../db/schema';
+import { DEFAULT_ISSUE_STATUS, isIssueStatus, validateTransition, ISSUE_STATUSES } from './workflow';
 
 /**
  * Represents an issue in the system.
@@ -14,7 +15,9 @@ import { issues } from '../db/schema';
  * @property user_id - ID of the user who created/reported the issue (required, immutable after creation)
  * @property title - Title/name of the issue (required, max 255 chars)
  * @property type - Category or type of the issue (required, e.g., 'maintenance', 'bug', 'feature', 'urgent')
+ * @property status - Workflow status (see `./workflow`); defaults to 'open' on creation
  * @property description - Detailed description of the issue (optional, up to 2000 chars recommended)
+ * @property assignee_id - ID of the club member working on the issue (optional, null when unassigned)
  * @property created_at - Timestamp when the issue was created (auto-generated, omit when creating)
  * @property updated_at - Timestamp when the issue was last updated (auto-generated, omit when creating)
  *
@@ -37,10 +40,47 @@ export interface Issue {
 	type: string;
 	status?: string | null;
 	description?: string | null;
+	assignee_id?: number | null;
 	created_at?: Date;
 	updated_at?: Date;
 }
 
+/**
+ * A recorded status change of an issue.
+ *
+ * @property issue_id - ID of the issue that changed
+ * @property user_id - ID of the user who made the change
+ * @property from_status - Status before the change (null for the initial status on creation)
+ * @property to_status - Status after the change
+ * @property note - Optional note explaining the change
+ * @property first_name - Actor's first name (populated when reading history)
+ * @property last_name - Actor's last name (populated when reading history)
+ */
+export interface IssueHistoryEntry {
+	id?: number;
+	issue_id: number;
+	user_id: number;
+	from_status: string | null;
+	to_status: string;
+	note?: string | null;
+	first_name?: string | null;
+	last_name?: string | null;
+	created_at?: Date;
+}
+
+/**
+ * Context for creating or updating an issue.
+ *
+ * @property clubId - Club the issue's tower belongs to; required to assign the issue
+ * @property actorId - ID of the user making the change; recorded in the issue history
+ * @property note - Optional note stored with the status change
+ */
+export interface IssueChangeOptions {
+	clubId?: number;
+	actorId?: number;
+	note?: string | null;
+}
+
 /**
  * Standard result object for database operations.
  *
@@ -65,6 +105,34 @@ export interface Result {
 	data?: Issue[] | null;
 }
 
+/**
+ * Result object for issue history operations.
+ */
+export interface HistoryResult {
+	error?: string | any;
+	data?: IssueHistoryEntry[] | null;
+}
+
+/**
+ * Checks that an assignee is a member of the club the issue belongs to.
+ *
+ * @returns An error message, or null if the assignee is allowed
+ */
+const checkAssignee = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	assigneeId: number,
+	clubId: number | undefined
+): Promise<string | null> => {
+	if (!clubId) {
+		return 'Missing club ID for assignment';
+	}
+	const membership = await db
+		.select()
+		.from(usersToClubs)
+		.where(and(eq(usersToClubs.user_id, assigneeId), eq(usersToClubs.club_id, clubId)));
+	return membership.length === 0 ? 'Assignee must be a member of this club' : null;
+};
+
 /**
  * Retrieves all issues from the database.
  *
@@ -262,15 +330,21 @@ export const getIssueByIdAndTowerId = async (
  *
  * @remarks
  * - Required fields: tower_id, user_id, title, type
- * - Optional fields: description
+ * - Optional fields: status (defaults to 'open'), description, assignee_id
  * - Auto-generated fields: id, created_at, updated_at
+ * - An assignee must be a member of `options.clubId`
+ * - The initial status is recorded in the issue history
  * - tower_id should reference an existing tower in the database
  * - user_id should reference an existing user in the database
  * - Returns the complete inserted issue including auto-generated fields
  *
  * @throws Returns error in result object if required fields are missing or database insertion fails
  */
-export const createIssue = async (db: NeonHttpDatabase<Record<string, never>>, data: Issue): Promise<Result> => {
+export const createIssue = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	data: Issue,
+	options: IssueChangeOptions = {}
+): Promise<Result> => {
 	if (!data)
 		return {
 			error: 'Missing data',
@@ -281,7 +355,23 @@ export const createIssue = async (db: NeonHttpDatabase<Record<string, never>>, d
 		};
 	}
 
+	const status = data.status || DEFAULT_ISSUE_STATUS;
+	if (!isIssueStatus(status)) {
+		return {
+			error: `Invalid status "${status}". Allowed: ${ISSUE_STATUSES.join(', ')}`,
+		};
+	}
+
 	try {
+		if (data.assignee_id) {
+			const assigneeError = await checkAssignee(db, data.assignee_id, options.clubId);
+			if (assigneeError) {
+				return {
+					error: assigneeError,
+				};
+			}
+		}
+
 		const results = await db
 			.insert(issues)
 			.values({
@@ -289,10 +379,20 @@ export const createIssue = async (db: NeonHttpDatabase<Record<string, never>>, d
 				user_id: data.user_id,
 				title: data.title,
 				type: data.type,
-				status: data.status,
+				status,
 				description: data.description,
+				assignee_id: data.assignee_id || null,
 			})
 			.returning();
+
+		await db.insert(issueHistory).values({
+			issue_id: results[0].id,
+			user_id: options.actorId || data.user_id,
+			from_status: null,
+			to_status: status,
+			note: options.note || null,
+		});
+
 		return { data: results };
 	} catch (error) {
 		return {
@@ -337,10 +437,19 @@ export const createIssue = async (db: NeonHttpDatabase<Record<string, never>>, d
  * - updated_at timestamp is NOT automatically updated (would require database trigger or explicit handling)
  * - Returns the complete updated issue including all fields
  * - For scoped updates that validate tower ownership, use `getIssueByIdAndTowerId` first
+ * - Status changes must follow the workflow in `./workflow` and are recorded in the issue history
+ *   with `options.actorId` and `options.note`
+ * - A new assignee must be a member of `options.clubId`
  *
- * @throws Returns error in result object if id or data is missing, or database update fails
+ * @throws Returns error in result object if id or data is missing, the status change or assignee
+ * is not allowed, or database update fails
  */
-export const updateIssue = async (db: NeonHttpDatabase<Record<string, never>>, id: string, data: Issue): Promise<Result> => {
+export const updateIssue = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	id: string,
+	data: Issue,
+	options: IssueChangeOptions = {}
+): Promise<Result> => {
 	if (!id)
 		return {
 			error: 'Missing ID',
@@ -351,6 +460,41 @@ export const updateIssue = async (db: NeonHttpDatabase<Record<string, never>>, i
 		};
 
 	try {
+		const existing = await db
+			.select()
+			.from(issues)
+			.where(eq(issues.id, parseInt(id, 10)));
+		if (existing.length === 0) {
+			return {
+				error: 'Issue not found',
+			};
+		}
+		const current = existing[0];
+
+		const statusChanged = data.status !== undefined && data.status !== null && data.status !== current.status;
+		if (statusChanged) {
+			const transitionError = validateTransition(current.status, data.status as string);
+			if (transitionError) {
+				return {
+					error: transitionError,
+				};
+			}
+			if (!options.actorId) {
+				return {
+					error: 'Missing actor for status change',
+				};
+			}
+		}
+
+		if (data.assignee_id && data.assignee_id !== current.assignee_id) {
+			const assigneeError = await checkAssignee(db, data.assignee_id, options.clubId);
+			if (assigneeError) {
+				return {
+					error: assigneeError,
+				};
+			}
+		}
+
 		const results = await db
 			.update(issues)
 			.set({
@@ -358,12 +502,24 @@ export const updateIssue = async (db: NeonHttpDatabase<Record<string, never>>, i
 				user_id: data.user_id,
 				title: data.title,
 				type: data.type,
-				status: data.status,
+				status: data.status || undefined,
 				description: data.description,
+				assignee_id: data.assignee_id,
 				updated_at: new Date(),
 			})
 			.where(eq(issues.id, parseInt(id, 10)))
 			.returning();
+
+		if (statusChanged) {
+			await db.insert(issueHistory).values({
+				issue_id: current.id,
+				user_id: options.actorId as number,
+				from_status: current.status,
+				to_status: data.status as string,
+				note: options.note || null,
+			});
+		}
+
 		return { data: results };
 	} catch (error) {
 		return {
@@ -401,7 +557,7 @@ export const updateIssue = async (db: NeonHttpDatabase<Record<string, never>>, i
  * - This is a hard delete - the issue is permanently removed from the database
  * - Returns the deleted issue data in the result array
  * - For protected deletions that validate tower ownership, validate with `getIssueByIdAndTowerId` first
- * - No cascade rules are defined, so this operation will fail if foreign key constraints exist elsewhere
+ * - The issue's history entries and comments are deleted with it
  * - Consider implementing soft deletes or archival if you need to maintain historical data
  *
  * @throws Returns error in result object if id is missing, issue doesn't exist, or database deletion fails
@@ -413,6 +569,9 @@ export const deleteIssue = async (db: NeonHttpDatabase<Record<string, never>>, i
 		};
 
 	try {
+		await db.delete(issueHistory).where(eq(issueHistory.issue_id, parseInt(id, 10)));
+		await db.delete(comments).where(eq(comments.issue_id, parseInt(id, 10)));
+
 		const results = await db
 			.delete(issues)
 			.where(eq(issues.id, parseInt(id, 10)))
@@ -424,3 +583,50 @@ export const deleteIssue = async (db: NeonHttpDatabase<Record<string, never>>, i
 		};
 	}
 };
+
+/**
+ * Retrieves the status history of an issue.
+ *
+ * Returns every recorded status change, oldest first, with the name of the user who made it.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param issueId - ID of the issue (required)
+ * @returns Result object containing the history entries, or error message
+ *
+ * @example
+ * ```typescript
+ * const result = await getIssueHistory(db, 456);
+ * // [{ from_status: null, to_status: 'open', ... }, { from_status: 'open', to_status: 'triaged', note: 'Dead section at Elm St', ... }]
+ * ```
+ *
+ * @throws Returns error in result object if issueId is not provided or database query fails
+ */
+export const getIssueHistory = async (db: NeonHttpDatabase<Record<string, never>>, issueId: number): Promise<HistoryResult> => {
+	if (!issueId)
+		return {
+			error: 'Missing issue ID',
+		};
+	try {
+		const results = await db
+			.select({
+				id: issueHistory.id,
+				issue_id: issueHistory.issue_id,
+				user_id: issueHistory.user_id,
+				from_status: issueHistory.from_status,
+				to_status: issueHistory.to_status,
+				note: issueHistory.note,
+				created_at: issueHistory.created_at,
+				first_name: users.first_name,
+				last_name: users.last_name,
+			})
+			.from(issueHistory)
+			.leftJoin(users, eq(issueHistory.user_id, users.id))
+			.where(eq(issueHistory.issue_id, issueId))
+			.orderBy(asc(issueHistory.created_at), asc(issueHistory.id));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -1,7 +1,11 @@
 import { Hono } from 'hono';
 import * as issuesModel from './model';
+import * as commentsModel from '../comments/model';
+import * as towersModel from '../towers/model';
 import { dbInitalizer } from '../utils/db';
-import { checkAuth, checkUserPermission } from '../utils/auth';
+import { checkAuth, checkUserPermission, hasCapability } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
+import { emitClubEvent } from '../clubWebhooks/events';
 import { issues } from '../db/schema';
 import type { Env } from '../index';
 
@@ -12,12 +16,36 @@ import type { Env } from '../index';
  * All routes require:
  * - Authentication (checkAuth middleware)
  * - User permission and club membership (checkUserPermission middleware)
+ * - A tower that belongs to the club in the route
+ *
+ * Filing issues requires file_reports. Members edit and delete the issues they filed;
+ * triage_issues allows changing anyone's, and is required to change an issue's status or
+ * assignee (see utils/policy).
  */
 export const issuesRouter = new Hono<{ Bindings: Env }>();
 
 // Apply auth middleware to all routes
 issuesRouter.use(checkAuth);
 issuesRouter.use(checkUserPermission);
+issuesRouter.use(authorize('issue', 'read'));
+
+// Issues are only reachable through their own club's towers
+issuesRouter.use(async (c, next) => {
+	const db = dbInitalizer({ c });
+	const towerId = c.req.param('towerId');
+	const clubId = c.req.param('clubId');
+	const towerCheck = await towersModel.getTowerByIdAndClubId(db, Number(towerId), Number(clubId));
+	if (towerCheck.error || !towerCheck.data || towerCheck.data.length === 0) {
+		return c.json(
+			{
+				error: 'Tower not found in this club',
+			},
+			404
+		);
+	}
+
+	return next();
+});
 
 /**
  * GET all issues for a tower
@@ -25,6 +53,7 @@ issuesRouter.use(checkUserPermission);
  *
  * Retrieves all issues associated with a specific tower.
  * Returns a complete list of all issues without any filtering or pagination.
+ * Each issue includes `comment_count`, the number of comments in its thread.
  *
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
@@ -46,7 +75,8 @@ issuesRouter.use(checkUserPermission);
  *       "type": "maintenance",
  *       "description": "Floor 3 escalator not operational",
  *       "created_at": "2024-11-09T10:00:00Z",
- *       "updated_at": "2024-11-09T10:00:00Z"
+ *       "updated_at": "2024-11-09T10:00:00Z",
+ *       "comment_count": 2
  *     }
  *   ]
  * }
@@ -95,8 +125,20 @@ issuesRouter.get('/', async (c) => {
 				400
 			);
 		}
+
+		const rows = result.data || [];
+		const counts = await commentsModel.getCommentCounts(db, 'issue', rows.map((issue) => issue.id as number));
+		if (counts.error) {
+			return c.json(
+				{
+					error: counts.error,
+				},
+				400
+			);
+		}
+
 		return c.json({
-			result: result.data,
+			result: rows.map((issue) => ({ ...issue, comment_count: counts.data?.[issue.id as number] || 0 })),
 		});
 	} catch (error) {
 		return c.json(
@@ -244,7 +286,8 @@ issuesRouter.get('/:id', async (c) => {
  * {
  *   "title": "Broken escalator",
  *   "type": "maintenance",
- *   "description": "The escalator on floor 3 is not working"
+ *   "description": "The escalator on floor 3 is not working",
+ *   "assignee_id": 12
  * }
  * ```
  *
@@ -284,15 +327,16 @@ issuesRouter.get('/:id', async (c) => {
  *
  * @remarks
  * - Required fields: title, type
- * - Optional fields: description
+ * - Optional fields: description, status (defaults to 'open'), assignee_id (must be a club member), note
+ * - The initial status is recorded in the issue history
  * - tower_id is extracted from route parameter and required
- * - user_id currently defaults to 1 (TODO: use actual authenticated user from context)
+ * - user_id is the authenticated user; M2M requests may file on behalf of `user_id`
  * - Returns 201 (Created) status on success
  * - Auto-generated fields: id, created_at, updated_at
  *
  * @throws Returns 400 if required fields missing or database insertion fails
  */
-issuesRouter.post('/', async (c) => {
+issuesRouter.post('/', authorize('issue', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const towerId = c.req.param('towerId');
@@ -319,14 +363,17 @@ issuesRouter.post('/', async (c) => {
 		}
 
 		// Set tower_id and user_id from route/context
-		// Note: user_id would be looked up from clerk ID in a real implementation
 		const issueData = {
 			...data,
 			tower_id: parseInt(towerId, 10),
-			user_id: data.user_id || 1, // TODO: Get actual user ID from authenticated user
+			user_id: c.var.isM2M ? data.user_id : userId,
 		};
 
-		const result = await issuesModel.createIssue(db, issueData as issuesModel.Issue);
+		const result = await issuesModel.createIssue(db, issueData as issuesModel.Issue, {
+			clubId: Number(c.req.param('clubId')),
+			actorId: userId,
+			note: data.note,
+		});
 		if (result.error) {
 			return c.json(
 				{
@@ -336,6 +383,12 @@ issuesRouter.post('/', async (c) => {
 			);
 		}
 
+		// Notify the club's webhooks; a webhook problem should not fail the change
+		const emitted = await emitClubEvent(db, Number(c.req.param('clubId')), 'issue.created', { issue: result.data?.[0] });
+		if (emitted.error) {
+			console.error('Failed to queue issue.created webhooks:', emitted.error);
+		}
+
 		return c.json(
 			{
 				created: true,
@@ -365,7 +418,7 @@ issuesRouter.post('/', async (c) => {
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
  * - User must be authenticated in database (checkUserPermission middleware)
- * - User must be admin/super-admin, OR belong to the specified club
+ * - User must have filed the issue, or hold triage_issues
  *
  * @param c - Hono context object with route params: id, towerId, clubId
  * @returns JSON response with updated flag and issue object, or error object with 400/404 status
@@ -374,7 +427,9 @@ issuesRouter.post('/', async (c) => {
  * ```json
  * {
  *   "title": "Fixed escalator",
- *   "type": "resolved",
+ *   "status": "resolved",
+ *   "note": "Replaced the points motor",
+ *   "assignee_id": 12,
  *   "description": "Issue was resolved on 2024-11-09"
  * }
  * ```
@@ -397,7 +452,9 @@ issuesRouter.post('/', async (c) => {
  * ```
  *
  * Error Responses:
- * - 400: Missing issue ID or tower ID, database error
+ * - 400: Missing issue ID or tower ID, status change not allowed by the workflow,
+ *   assignee not a club member, database error
+ * - 403: Missing file_reports, or changing the status or assignee without triage_issues
  * - 404: Issue not found in this tower
  *
  * @example
@@ -420,6 +477,9 @@ issuesRouter.post('/', async (c) => {
  *
  * @remarks
  * - tower_id and user_id cannot be changed via this endpoint (immutable)
+ * - Status changes must follow the workflow (see `./workflow`) and are recorded in the issue
+ *   history with the current user and the optional `note`
+ * - Send `"assignee_id": null` to unassign
  * - Automatically preserves existing values for immutable fields
  * - Returns full updated issue object
  * - updated_at timestamp is NOT automatically refreshed (would require database trigger)
@@ -467,8 +527,29 @@ issuesRouter.put('/:id', async (c) => {
 			);
 		}
 
+		if (!isAllowed(c, 'write', 'issue', issueCheck.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to issue',
+				},
+				403
+			);
+		}
+
 		// Preserve tower_id and user_id from existing issue
 		const existingIssue = issueCheck.data[0];
+
+		const isTriage =
+			(data.status !== undefined && data.status !== existingIssue.status) ||
+			(data.assignee_id !== undefined && data.assignee_id !== existingIssue.assignee_id);
+		if (isTriage && !hasCapability(c, 'triage_issues')) {
+			return c.json(
+				{
+					error: 'Missing capability: triage_issues',
+				},
+				403
+			);
+		}
 		const issueData = {
 			tower_id: existingIssue.tower_id,
 			user_id: existingIssue.user_id,
@@ -476,9 +557,14 @@ issuesRouter.put('/:id', async (c) => {
 			type: data.type || existingIssue.type,
 			status: data.status !== undefined ? data.status : existingIssue.status,
 			description: data.description !== undefined ? data.description : existingIssue.description,
+			assignee_id: data.assignee_id !== undefined ? data.assignee_id : existingIssue.assignee_id,
 		};
 
-		const result = await issuesModel.updateIssue(db, id, issueData as issuesModel.Issue);
+		const result = await issuesModel.updateIssue(db, id, issueData as issuesModel.Issue, {
+			clubId: Number(c.req.param('clubId')),
+			actorId: c.var.userId,
+			note: data.note,
+		});
 		if (result.error) {
 			return c.json(
 				{
@@ -488,6 +574,19 @@ issuesRouter.put('/:id', async (c) => {
 			);
 		}
 
+		const updatedIssue = result.data?.[0];
+		if (updatedIssue && updatedIssue.status !== existingIssue.status) {
+			const emitted = await emitClubEvent(db, Number(c.req.param('clubId')), 'issue.status_changed', {
+				issue: updatedIssue,
+				from_status: existingIssue.status,
+				to_status: updatedIssue.status,
+				note: data.note || null,
+			});
+			if (emitted.error) {
+				console.error('Failed to queue issue.status_changed webhooks:', emitted.error);
+			}
+		}
+
 		return c.json({
 			updated: true,
 			issue: result.data?.[0] || null,
@@ -502,6 +601,73 @@ issuesRouter.put('/:id', async (c) => {
 	}
 });
 
+/**
+ * GET the status history of an issue
+ * Route: GET /api/clubs/:clubId/towers/:towerId/issues/:id/history
+ *
+ * Lists every status change of the issue, oldest first, with who made it and any note.
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "result": [
+ *     { "from_status": null, "to_status": "open", "user_id": 4, "first_name": "Sam", "note": null, "created_at": "..." },
+ *     { "from_status": "open", "to_status": "in_progress", "user_id": 12, "first_name": "Alex", "note": "On it", "created_at": "..." }
+ *   ]
+ * }
+ * ```
+ *
+ * @throws Returns 400 if required params missing or database error, 404 if issue not in tower
+ */
+issuesRouter.get('/:id/history', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const id = c.req.param('id');
+		const towerId = c.req.param('towerId');
+
+		if (!id || !towerId) {
+			return c.json(
+				{
+					error: 'Missing issue ID or tower ID in route',
+				},
+				400
+			);
+		}
+
+		// Verify issue belongs to this tower
+		const issueCheck = await issuesModel.getIssueByIdAndTowerId(db, parseInt(id, 10), parseInt(towerId, 10));
+		if (issueCheck.error || !issueCheck.data || issueCheck.data.length === 0) {
+			return c.json(
+				{
+					error: 'Issue not found in this tower',
+				},
+				404
+			);
+		}
+
+		const result = await issuesModel.getIssueHistory(db, parseInt(id, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error,
+			},
+			400
+		);
+	}
+});
+
 /**
  * DELETE an issue
  * Route: DELETE /api/clubs/:clubId/towers/:towerId/issues/:id
@@ -513,10 +679,10 @@ issuesRouter.put('/:id', async (c) => {
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
  * - User must be authenticated in database (checkUserPermission middleware)
- * - User must be admin/super-admin, OR belong to the specified club
+ * - User must have filed the issue, or hold triage_issues
  *
  * @param c - Hono context object with route params: id, towerId, clubId
- * @returns JSON response with deleted flag, or error object with 400/404 status
+ * @returns JSON response with deleted flag, or error object with 400/403/404 status
  *
  * Success Response (200):
  * ```json
@@ -594,6 +760,15 @@ issuesRouter.delete('/:id', async (c) => {
 			);
 		}
 
+		if (!isAllowed(c, 'write', 'issue', issueCheck.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to issue',
+				},
+				403
+			);
+		}
+
 		const result = await issuesModel.deleteIssue(db, id);
 		if (result.error) {
 			return c.json(
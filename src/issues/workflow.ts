@@ -0,0 +1,62 @@
+/**
+ * Issue Workflow
+ *
+ * Defines the lifecycle an issue moves through and which status changes are allowed.
+ * The usual path is open → triaged → in_progress → resolved → closed, with work able to
+ * go in and out of blocked. Resolved and closed issues can be reopened, and issues can be
+ * closed straight from open, triaged or blocked (duplicates, won't fix).
+ */
+
+export const ISSUE_STATUSES = ['open', 'triaged', 'in_progress', 'blocked', 'resolved', 'closed'] as const;
+
+export type IssueStatus = (typeof ISSUE_STATUSES)[number];
+
+/**
+ * Status every new issue starts in unless another valid status is given
+ */
+export const DEFAULT_ISSUE_STATUS: IssueStatus = 'open';
+
+/**
+ * Allowed next statuses for each status
+ */
+export const ISSUE_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+	open: ['triaged', 'in_progress', 'closed'],
+	triaged: ['in_progress', 'blocked', 'closed'],
+	in_progress: ['blocked', 'resolved'],
+	blocked: ['in_progress', 'resolved', 'closed'],
+	resolved: ['closed', 'open'],
+	closed: ['open'],
+};
+
+/**
+ * Checks whether a value is one of the workflow statuses.
+ */
+export const isIssueStatus = (value: unknown): value is IssueStatus => {
+	return typeof value === 'string' && (ISSUE_STATUSES as readonly string[]).includes(value);
+};
+
+/**
+ * Validates a status change.
+ *
+ * Issues whose current status predates the workflow (free text) may move to any
+ * workflow status, so they can be brought into the lifecycle.
+ *
+ * @param from - Current status of the issue
+ * @param to - Requested status
+ * @returns An error message, or null if the change is allowed
+ */
+export const validateTransition = (from: string | null | undefined, to: string): string | null => {
+	if (!isIssueStatus(to)) {
+		return `Invalid status "${to}". Allowed: ${ISSUE_STATUSES.join(', ')}`;
+	}
+	if (!isIssueStatus(from)) {
+		return null;
+	}
+	if (from === to) {
+		return null;
+	}
+	if (!ISSUE_TRANSITIONS[from].includes(to)) {
+		return `Cannot move issue from ${from} to ${to}`;
+	}
+	return null;
+};
@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import * as noticesModel from './model';
 import { dbInitalizer } from '../utils/db';
 import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import { emitClubEvent } from '../clubWebhooks/events';
 import type { Env } from '../index';
 
 /**
@@ -15,6 +17,8 @@ import type { Env } from '../index';
  * - POST /api/clubs/:clubId/notices             - Create a new notice
  * - PUT  /api/clubs/:clubId/notices/:id         - Update a notice
  * - DELETE /api/clubs/:clubId/notices/:id       - Delete a notice
+ *
+ * Creating, updating and deleting notices requires manage_notices.
  */
 export const noticesRouter = new Hono<{ Bindings: Env }>();
 
@@ -77,6 +81,9 @@ noticesRouter.get('/', async (c) => {
 		const permResult = await checkUserPermission(c, async () => {});
 		if (permResult) return permResult; // Permission check failed
 
+		const policyResult = await authorize('notice', 'read')(c, async () => {});
+		if (policyResult) return policyResult; // Policy denied the read
+
 		const result = await noticesModel.getNoticesByClubId(db, parseInt(clubId, 10));
 		if (result.error) {
 			return c.json(
@@ -114,7 +121,7 @@ noticesRouter.get('/', async (c) => {
  * GET /api/clubs/1/notices/5
  * Response: { notice: { id: 5, club_id: 1, description: "...", ... } }
  */
-noticesRouter.get('/:id', checkAuth, checkUserPermission, async (c) => {
+noticesRouter.get('/:id', checkAuth, checkUserPermission, authorize('notice', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const id = c.req.param('id');
@@ -194,7 +201,7 @@ noticesRouter.get('/:id', checkAuth, checkUserPermission, async (c) => {
  * }
  * Response: { created: true, id: 5 }
  */
-noticesRouter.post('/', checkAuth, checkUserPermission, async (c) => {
+noticesRouter.post('/', checkAuth, checkUserPermission, authorize('notice', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const clubId = c.req.param('clubId');
@@ -228,6 +235,12 @@ noticesRouter.post('/', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
+		// Notify the club's webhooks; a webhook problem should not fail the change
+		const emitted = await emitClubEvent(db, noticeData.club_id, 'notice.published', { notice: result.data?.[0] });
+		if (emitted.error) {
+			console.error('Failed to queue notice.published webhooks:', emitted.error);
+		}
+
 		return c.json(
 			{
 				created: true,
@@ -268,7 +281,7 @@ noticesRouter.post('/', checkAuth, checkUserPermission, async (c) => {
  * }
  * Response: { updated: true, notice: { id: 5, ... } }
  */
-noticesRouter.put('/:id', checkAuth, checkUserPermission, async (c) => {
+noticesRouter.put('/:id', checkAuth, checkUserPermission, authorize('notice', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const id = c.req.param('id');
@@ -352,7 +365,7 @@ noticesRouter.put('/:id', checkAuth, checkUserPermission, async (c) => {
  * DELETE /api/clubs/1/notices/5
  * Response: { deleted: true }
  */
-noticesRouter.delete('/:id', checkAuth, checkUserPermission, async (c) => {
+noticesRouter.delete('/:id', checkAuth, checkUserPermission, authorize('notice', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const id = c.req.param('id');
@@ -0,0 +1,313 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { and, eq } from 'drizzle-orm';
+import { emailSuppressions, notificationPreferences } from '../db/schema';
+
+/**
+ * Kinds of notification a member can choose how to receive, per club
+ */
+export const NOTIFICATION_CATEGORIES = ['session_reminders', 'notices', 'tower_issues', 'application_alerts'] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+/**
+ * Descriptions shown alongside each category
+ */
+export const CATEGORY_DESCRIPTIONS: Record<NotificationCategory, string> = {
+	session_reminders: 'Reminders before operating sessions you signed up for',
+	notices: 'New club notices',
+	tower_issues: 'Issue updates on towers you own',
+	application_alerts: 'New membership applications (reviewers only)',
+};
+
+/**
+ * Categories only offered to members with the review_applications capability
+ */
+export const REVIEWER_CATEGORIES: readonly NotificationCategory[] = ['application_alerts'];
+
+/**
+ * How a member receives a category: each email as it happens, in the daily or weekly digest,
+ * or not at all
+ */
+export const DELIVERY_OPTIONS = ['immediate', 'daily_digest', 'weekly_digest', 'off'] as const;
+export type Delivery = (typeof DELIVERY_OPTIONS)[number];
+
+/**
+ * Delivery used for categories a member has not set
+ */
+export const DEFAULT_DELIVERY: Delivery = 'immediate';
+
+/**
+ * Category carried by digest emails, so their unsubscribe links stop the digest rather than
+ * all email
+ */
+export const DIGEST_CATEGORY = 'digest';
+
+export interface NotificationPreference {
+	category: NotificationCategory;
+	delivery: Delivery;
+	description: string;
+}
+
+/**
+ * Who an email is for, used to check preferences and suppressions before queueing
+ */
+export interface NotificationRecipient {
+	email: string;
+	user_id?: number | null;
+	club_id?: number | null;
+	category?: string | null;
+}
+
+/**
+ * Why an email was not queued
+ */
+export type SkipReason = 'unsubscribed' | 'preference_off' | 'daily_digest' | 'weekly_digest';
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+export const isNotificationCategory = (value: unknown): value is NotificationCategory => {
+	return typeof value === 'string' && (NOTIFICATION_CATEGORIES as readonly string[]).includes(value);
+};
+
+export const isDelivery = (value: unknown): value is Delivery => {
+	return typeof value === 'string' && (DELIVERY_OPTIONS as readonly string[]).includes(value);
+};
+
+/**
+ * Categories offered to a member.
+ *
+ * @param canReviewApplications - Whether the member holds the review_applications capability
+ */
+export const availableCategories = (canReviewApplications: boolean): NotificationCategory[] => {
+	return NOTIFICATION_CATEGORIES.filter((category) => canReviewApplications || !REVIEWER_CATEGORIES.includes(category));
+};
+
+/**
+ * Retrieves a member's preferences for a club, with defaults filled in for categories they
+ * have not set.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param userId - The member's user ID
+ * @param clubId - The club ID
+ * @param canReviewApplications - Whether to include reviewer-only categories
+ * @returns Result object containing one preference per available category, or error message
+ */
+export const getPreferences = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	userId: number,
+	clubId: number,
+	canReviewApplications: boolean
+): Promise<Result<NotificationPreference[]>> => {
+	try {
+		const rows = await db
+			.select({ category: notificationPreferences.category, delivery: notificationPreferences.delivery })
+			.from(notificationPreferences)
+			.where(and(eq(notificationPreferences.user_id, userId), eq(notificationPreferences.club_id, clubId)));
+
+		return {
+			data: availableCategories(canReviewApplications).map((category) => {
+				const stored = rows.find((row) => row.category === category)?.delivery;
+				return {
+					category,
+					delivery: isDelivery(stored) ? stored : DEFAULT_DELIVERY,
+					description: CATEGORY_DESCRIPTIONS[category],
+				};
+			}),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Sets a member's delivery choice for one or more categories in a club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param userId - The member's user ID
+ * @param clubId - The club ID
+ * @param updates - Delivery per category
+ * @returns Result object containing the categories that were set, or error message
+ */
+export const setPreferences = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	userId: number,
+	clubId: number,
+	updates: Partial<Record<NotificationCategory, Delivery>>
+): Promise<Result<NotificationCategory[]>> => {
+	try {
+		const updatedAt = new Date();
+		const categories = Object.keys(updates) as NotificationCategory[];
+
+		for (const category of categories) {
+			await db
+				.insert(notificationPreferences)
+				.values({ user_id: userId, club_id: clubId, category, delivery: updates[category]!, updated_at: updatedAt })
+				.onConflictDoUpdate({
+					target: [notificationPreferences.user_id, notificationPreferences.club_id, notificationPreferences.category],
+					set: { delivery: updates[category]!, updated_at: updatedAt },
+				});
+		}
+
+		return {
+			data: categories,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Looks up how a member receives a category in a club.
+ *
+ * @returns The stored delivery, or DEFAULT_DELIVERY if the member has not set one
+ */
+export const getDelivery = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	userId: number,
+	clubId: number,
+	category: NotificationCategory
+): Promise<Delivery> => {
+	const rows = await db
+		.select({ delivery: notificationPreferences.delivery })
+		.from(notificationPreferences)
+		.where(
+			and(
+				eq(notificationPreferences.user_id, userId),
+				eq(notificationPreferences.club_id, clubId),
+				eq(notificationPreferences.category, category)
+			)
+		);
+
+	const stored = rows[0]?.delivery;
+	return isDelivery(stored) ? stored : DEFAULT_DELIVERY;
+};
+
+/**
+ * Checks whether an address has unsubscribed from all email.
+ */
+export const isSuppressed = async (db: NeonHttpDatabase<Record<string, never>>, email: string): Promise<boolean> => {
+	const rows = await db
+		.select({ email: emailSuppressions.email })
+		.from(emailSuppressions)
+		.where(eq(emailSuppressions.email, email.trim().toLowerCase()));
+	return rows.length > 0;
+};
+
+/**
+ * Decides whether an email may be queued for immediate sending.
+ *
+ * Suppressed addresses receive nothing. When the email is for a member in a notification
+ * category, their preference for that club applies: 'off' skips it and 'daily_digest' or
+ * 'weekly_digest' leaves it to the digest.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param recipient - Address, and member, club and category when known
+ * @returns Result object containing null if the email may be sent, or the reason to skip it
+ */
+export const checkRecipient = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	recipient: NotificationRecipient
+): Promise<Result<SkipReason | null>> => {
+	try {
+		if (await isSuppressed(db, recipient.email)) {
+			return {
+				data: 'unsubscribed',
+			};
+		}
+
+		if (recipient.user_id && recipient.club_id && isNotificationCategory(recipient.category)) {
+			const delivery = await getDelivery(db, recipient.user_id, recipient.club_id, recipient.category);
+			if (delivery === 'off') {
+				return {
+					data: 'preference_off',
+				};
+			}
+			if (delivery === 'daily_digest' || delivery === 'weekly_digest') {
+				return {
+					data: delivery,
+				};
+			}
+		}
+
+		return {
+			data: null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Applies a one-click unsubscribe.
+ *
+ * A link for a member's notification category turns that category off for the club, and a
+ * digest link turns off every category the member receives in a digest. Any other link stops
+ * all email to the address.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param recipient - The verified unsubscribe target
+ * @returns Result object describing what was unsubscribed, or error message
+ */
+export const unsubscribe = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	recipient: NotificationRecipient
+): Promise<Result<{ scope: 'category' | 'digest' | 'all' }>> => {
+	try {
+		if (recipient.user_id && recipient.club_id && recipient.category === DIGEST_CATEGORY) {
+			const preferences = await getPreferences(db, recipient.user_id, recipient.club_id, true);
+			if (preferences.error) {
+				return {
+					error: preferences.error,
+				};
+			}
+
+			const updates: Partial<Record<NotificationCategory, Delivery>> = {};
+			preferences
+				.data!.filter((preference) => preference.delivery === 'daily_digest' || preference.delivery === 'weekly_digest')
+				.forEach((preference) => (updates[preference.category] = 'off'));
+
+			const result = await setPreferences(db, recipient.user_id, recipient.club_id, updates);
+			if (result.error) {
+				return {
+					error: result.error,
+				};
+			}
+			return {
+				data: { scope: 'digest' },
+			};
+		}
+
+		if (recipient.user_id && recipient.club_id && isNotificationCategory(recipient.category)) {
+			const result = await setPreferences(db, recipient.user_id, recipient.club_id, { [recipient.category]: 'off' });
+			if (result.error) {
+				return {
+					error: result.error,
+				};
+			}
+			return {
+				data: { scope: 'category' },
+			};
+		}
+
+		await db
+			.insert(emailSuppressions)
+			.values({ email: recipient.email.trim().toLowerCase(), reason: 'unsubscribed' })
+			.onConflictDoNothing();
+
+		return {
+			data: { scope: 'all' },
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
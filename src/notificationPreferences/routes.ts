@@ -0,0 +1,280 @@
+import { Context, Hono } from 'hono';
+import * as notificationPreferencesModel from './model';
+import { verifyUnsubscribeQuery } from './unsubscribe';
+import { escapeHtml } from '../emailTemplates/render';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission, hasCapability } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Notification Preferences Router
+ * Lets members choose how they receive each kind of club notification
+ *
+ * Routes:
+ * - GET /api/clubs/:clubId/notification-preferences - Get your preferences for the club
+ * - PUT /api/clubs/:clubId/notification-preferences - Update your preferences for the club
+ */
+export const notificationPreferencesRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * Unsubscribe Router
+ * Public one-click unsubscribe links carried by every queued email (no authentication; the
+ * link's signature identifies the recipient)
+ *
+ * Routes:
+ * - GET  /api/unsubscribe - Confirmation page for a signed unsubscribe link
+ * - POST /api/unsubscribe - Apply the unsubscribe (RFC 8058 one-click, or the confirmation form)
+ */
+export const unsubscribeRouter = new Hono<{ Bindings: Env }>();
+
+/**
+ * GET your notification preferences for a club
+ *
+ * Returns one entry per category offered to you, with the delivery you chose or the default.
+ * Reviewer-only categories are included for members with the review_applications capability.
+ *
+ * @route GET /api/clubs/:clubId/notification-preferences
+ * @param {string} clubId - Club ID (from route parameter)
+ * @returns {object} Object containing the preferences
+ *
+ * @example
+ * GET /api/clubs/1/notification-preferences
+ * Response: { result: [{ category: "session_reminders", delivery: "immediate", description: "..." }, ...] }
+ */
+notificationPreferencesRouter.get('/', checkAuth, checkUserPermission, authorize('notificationPreference', 'read'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await notificationPreferencesModel.getPreferences(db, c.var.userId, parseInt(clubId, 10), hasCapability(c, 'review_applications'));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * PUT update your notification preferences for a club
+ *
+ * Sets the delivery for one or more categories: 'immediate', 'daily_digest', 'weekly_digest'
+ * or 'off'.
+ * Categories not included are left unchanged.
+ *
+ * @route PUT /api/clubs/:clubId/notification-preferences
+ * @param {string} clubId - Club ID (from route parameter)
+ * @body {object} preferences - Delivery per category
+ * @returns {object} Object with updated flag and the resulting preferences
+ *
+ * @example
+ * PUT /api/clubs/1/notification-preferences
+ * Body: { preferences: { notices: "daily_digest", session_reminders: "off" } }
+ * Response: { updated: true, result: [{ category: "session_reminders", delivery: "off", ... }, ...] }
+ */
+notificationPreferencesRouter.put('/', checkAuth, checkUserPermission, authorize('notificationPreference', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+		const preferences = data.preferences;
+		if (!preferences || typeof preferences !== 'object' || Array.isArray(preferences) || Object.keys(preferences).length === 0) {
+			return c.json(
+				{
+					error: 'Missing required field: preferences',
+				},
+				400
+			);
+		}
+
+		const canReviewApplications = hasCapability(c, 'review_applications');
+		const allowed = notificationPreferencesModel.availableCategories(canReviewApplications);
+		for (const [category, delivery] of Object.entries(preferences)) {
+			if (!notificationPreferencesModel.isNotificationCategory(category)) {
+				return c.json(
+					{
+						error: `Unknown notification category: ${category}`,
+					},
+					400
+				);
+			}
+			if (!allowed.includes(category)) {
+				return c.json(
+					{
+						error: `Unauthorized: Only application reviewers can receive ${category}`,
+					},
+					403
+				);
+			}
+			if (!notificationPreferencesModel.isDelivery(delivery)) {
+				return c.json(
+					{
+						error: `Invalid delivery for ${category}. Must be one of: ${notificationPreferencesModel.DELIVERY_OPTIONS.join(', ')}`,
+					},
+					400
+				);
+			}
+		}
+
+		const userId = c.var.userId;
+		const club = parseInt(clubId, 10);
+		const updated = await notificationPreferencesModel.setPreferences(db, userId, club, preferences);
+		if (updated.error) {
+			return c.json(
+				{
+					error: updated.error,
+				},
+				400
+			);
+		}
+
+		const result = await notificationPreferencesModel.getPreferences(db, userId, club, canReviewApplications);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			updated: true,
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			500
+		);
+	}
+});
+
+/**
+ * Renders a minimal HTML page for the unsubscribe flow.
+ */
+const unsubscribePage = (c: Context<{ Bindings: Env }>, title: string, bodyHtml: string, status: 200 | 400 | 500 = 200) => {
+	return c.html(
+		`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex"><title>${title}</title></head>
+<body style="max-width:480px;margin:48px auto;padding:0 24px;font-family:Helvetica,Arial,sans-serif;line-height:1.5;color:#222222;">
+<h1 style="font-size:22px;">${title}</h1>
+${bodyHtml}
+</body>
+</html>`,
+		status
+	);
+};
+
+/**
+ * Verifies the signed query of an unsubscribe link.
+ */
+const verifyLink = async (c: Context<{ Bindings: Env }>) => {
+	if (!c.env.UNSUBSCRIBE_SIGNING_SECRET) {
+		return null;
+	}
+	return verifyUnsubscribeQuery(c.env.UNSUBSCRIBE_SIGNING_SECRET, c.req.query());
+};
+
+const describeScope = (recipient: notificationPreferencesModel.NotificationRecipient) => {
+	if (recipient.category === notificationPreferencesModel.DIGEST_CATEGORY) {
+		return 'digest emails from this club';
+	}
+	return notificationPreferencesModel.isNotificationCategory(recipient.category)
+		? `${notificationPreferencesModel.CATEGORY_DESCRIPTIONS[recipient.category].toLowerCase()} from this club`
+		: 'all email from Locomotive House';
+};
+
+/**
+ * GET unsubscribe confirmation page
+ *
+ * PUBLIC ROUTE - the link's signature identifies the recipient. Shows what will be
+ * unsubscribed and a button that POSTs back to the same URL, so link scanners that follow
+ * the link do not unsubscribe anyone.
+ *
+ * @route GET /api/unsubscribe?email=...&user=...&club=...&category=...&signature=...
+ * @returns {string} HTML confirmation page, or 400 for an invalid link
+ */
+unsubscribeRouter.get('/', async (c) => {
+	const recipient = await verifyLink(c);
+	if (!recipient) {
+		return unsubscribePage(c, 'Invalid link', '<p>This unsubscribe link is invalid or incomplete.</p>', 400);
+	}
+
+	return unsubscribePage(
+		c,
+		'Unsubscribe',
+		`<p>Stop sending ${escapeHtml(describeScope(recipient))} to <strong>${escapeHtml(recipient.email)}</strong>?</p>
+<form method="post"><button type="submit" style="padding:8px 16px;font-size:16px;">Unsubscribe</button></form>`
+	);
+});
+
+/**
+ * POST apply an unsubscribe
+ *
+ * PUBLIC ROUTE - the link's signature identifies the recipient. Receives RFC 8058 one-click
+ * requests from mail clients (body `List-Unsubscribe=One-Click`) and submissions of the
+ * confirmation page. Links for a notification category turn that category off for the club,
+ * digest links turn off the categories sent in digests, and other links stop all email to the
+ * address.
+ *
+ * @route POST /api/unsubscribe?email=...&user=...&club=...&category=...&signature=...
+ * @returns {string} HTML confirmation page, or 400 for an invalid link
+ */
+unsubscribeRouter.post('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const recipient = await verifyLink(c);
+		if (!recipient) {
+			return unsubscribePage(c, 'Invalid link', '<p>This unsubscribe link is invalid or incomplete.</p>', 400);
+		}
+
+		const result = await notificationPreferencesModel.unsubscribe(db, recipient);
+		if (result.error) {
+			return unsubscribePage(c, 'Something went wrong', '<p>We could not unsubscribe you. Please try again later.</p>', 500);
+		}
+
+		return unsubscribePage(
+			c,
+			'Unsubscribed',
+			`<p>We will no longer send ${escapeHtml(describeScope(recipient))} to <strong>${escapeHtml(recipient.email)}</strong>.</p>`
+		);
+	} catch (error) {
+		return unsubscribePage(c, 'Something went wrong', '<p>We could not unsubscribe you. Please try again later.</p>', 500);
+	}
+});
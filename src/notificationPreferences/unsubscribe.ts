@@ -0,0 +1,115 @@
+/**
+ * Unsubscribe Links
+ *
+ * Signed one-click unsubscribe URLs (RFC 8058). The recipient, member, club and category are
+ * carried in the query string and covered by an HMAC, so the link works without signing in
+ * and cannot be altered to unsubscribe someone else. Links do not expire.
+ */
+
+import { hmacSha256Hex, timingSafeEqual } from '../utils/signing';
+import { NotificationRecipient } from './model';
+
+export const UNSUBSCRIBE_PATH = '/api/unsubscribe';
+
+/**
+ * Public API origin used when the request origin is not known, e.g. in scheduled jobs
+ */
+export const DEFAULT_API_URL = 'https://api.locomotivehouse.com';
+
+/**
+ * Settings needed to sign unsubscribe links
+ */
+export interface UnsubscribeConfig {
+	secret: string;
+	baseUrl: string;
+}
+
+/**
+ * Reads unsubscribe settings from the Worker environment.
+ *
+ * @param env - Worker environment
+ * @param origin - Origin of the current request, used when API_URL is not set
+ * @returns The settings, or null when UNSUBSCRIBE_SIGNING_SECRET is not configured
+ */
+export const getUnsubscribeConfig = (
+	env: { UNSUBSCRIBE_SIGNING_SECRET?: string; API_URL?: string },
+	origin?: string
+): UnsubscribeConfig | null => {
+	if (!env.UNSUBSCRIBE_SIGNING_SECRET) {
+		return null;
+	}
+	return {
+		secret: env.UNSUBSCRIBE_SIGNING_SECRET,
+		baseUrl: env.API_URL || origin || DEFAULT_API_URL,
+	};
+};
+
+const canonical = (recipient: NotificationRecipient) => {
+	return [
+		'unsubscribe',
+		recipient.email.trim().toLowerCase(),
+		recipient.user_id ?? '',
+		recipient.club_id ?? '',
+		recipient.category ?? '',
+	].join(':');
+};
+
+/**
+ * Builds a signed unsubscribe URL.
+ *
+ * @param config - Signing secret and API origin
+ * @param recipient - Address, and member, club and category when the email is a notification
+ * @returns An absolute URL under /api/unsubscribe
+ */
+export const createUnsubscribeUrl = async (config: UnsubscribeConfig, recipient: NotificationRecipient): Promise<string> => {
+	const params = new URLSearchParams({ email: recipient.email.trim().toLowerCase() });
+	if (recipient.user_id) {
+		params.set('user', String(recipient.user_id));
+	}
+	if (recipient.club_id) {
+		params.set('club', String(recipient.club_id));
+	}
+	if (recipient.category) {
+		params.set('category', recipient.category);
+	}
+	params.set('signature', await hmacSha256Hex(config.secret, canonical(recipient)));
+	return `${config.baseUrl}${UNSUBSCRIBE_PATH}?${params.toString()}`;
+};
+
+/**
+ * Verifies the query string of an unsubscribe URL.
+ *
+ * @param secret - Signing secret
+ * @param query - The request's query parameters
+ * @returns The recipient the link was issued for, or null if it is missing or tampered with
+ */
+export const verifyUnsubscribeQuery = async (
+	secret: string,
+	query: Record<string, string | undefined>
+): Promise<NotificationRecipient | null> => {
+	if (!query.email || !query.signature) {
+		return null;
+	}
+	if ((query.user && !/^\d+$/.test(query.user)) || (query.club && !/^\d+$/.test(query.club))) {
+		return null;
+	}
+
+	const recipient: NotificationRecipient = {
+		email: query.email,
+		user_id: query.user ? parseInt(query.user, 10) : null,
+		club_id: query.club ? parseInt(query.club, 10) : null,
+		category: query.category || null,
+	};
+	const expected = await hmacSha256Hex(secret, canonical(recipient));
+	return timingSafeEqual(expected, query.signature) ? recipient : null;
+};
+
+/**
+ * Headers that let mail clients offer one-click unsubscribe.
+ */
+export const listUnsubscribeHeaders = (unsubscribeUrl: string): Record<string, string> => {
+	return {
+		'List-Unsubscribe': `<${unsubscribeUrl}>`,
+		'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+	};
+};
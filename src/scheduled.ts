@@ -0,0 +1,153 @@
+import { dbInitalizer } from './utils/db';
+import { createTransportFromEnv } from './emailQueue/transports';
+import { DEFAULT_FROM, deliverQueuedEmails } from './emailQueue/delivery';
+import { parseReminderOffsets } from './sessionReminders/model';
+import { enqueueSessionReminders } from './sessionReminders/reminders';
+import { getUnsubscribeConfig } from './notificationPreferences/unsubscribe';
+import { DIGEST_PERIODS } from './digests/model';
+import { sendClubDigests } from './digests/digest';
+import { deliverPendingWebhooks } from './clubWebhooks/delivery';
+import type { Env } from './index';
+
+/**
+ * Sends due emails from the queue through the transport selected by EMAIL_TRANSPORT.
+ * Does nothing when no transport is configured, so an external sender can drain the
+ * queue instead.
+ *
+ * @param env - Worker environment
+ * @param fetchFn - fetch implementation for HTTP transports; injectable for tests
+ */
+export const runEmailDelivery = async (env: Env, fetchFn?: typeof fetch) => {
+	const transport = createTransportFromEnv(env, fetchFn);
+	if (transport.error) {
+		throw new Error(transport.error);
+	}
+	if (!transport.data) {
+		console.log('Email delivery skipped: EMAIL_TRANSPORT is not set');
+		return;
+	}
+
+	const db = dbInitalizer({ c: { env } });
+	const result = await deliverQueuedEmails(db, transport.data, {
+		workerId: `cron-${crypto.randomUUID()}`,
+		from: env.EMAIL_FROM_ADDRESS ? { email: env.EMAIL_FROM_ADDRESS, name: env.EMAIL_FROM_NAME || DEFAULT_FROM.name } : DEFAULT_FROM,
+	});
+	if (result.error) {
+		throw new Error(`Email delivery failed: ${result.error}`);
+	}
+
+	console.log(`Email delivery via ${transport.data.name}:`, result.data);
+};
+
+/**
+ * Queues reminders for upcoming scheduled sessions at the offsets in SESSION_REMINDER_OFFSETS
+ * (default 48h and 2h before the session).
+ *
+ * @param env - Worker environment
+ * @param now - The current time; injectable for tests
+ */
+export const runSessionReminders = async (env: Env, now?: Date) => {
+	const offsets = parseReminderOffsets(env.SESSION_REMINDER_OFFSETS);
+	if (offsets.error) {
+		throw new Error(offsets.error);
+	}
+
+	const db = dbInitalizer({ c: { env } });
+	const result = await enqueueSessionReminders(db, {
+		offsets: offsets.data!,
+		appUrl: env.APP_URL,
+		unsubscribe: getUnsubscribeConfig(env),
+		now,
+	});
+	if (result.error) {
+		throw new Error(`Session reminders failed: ${result.error}`);
+	}
+
+	console.log('Session reminders:', result.data);
+};
+
+/**
+ * Queues the daily and weekly club digests for the last completed period. Each club's digest
+ * is sent once per period, so later runs in the same day or week do nothing.
+ *
+ * @param env - Worker environment
+ * @param now - The current time; injectable for tests
+ */
+export const runDigests = async (env: Env, now?: Date) => {
+	const db = dbInitalizer({ c: { env } });
+	for (const period of DIGEST_PERIODS) {
+		const result = await sendClubDigests(db, period, {
+			appUrl: env.APP_URL,
+			unsubscribe: getUnsubscribeConfig(env),
+			now,
+		});
+		if (result.error) {
+			throw new Error(`${period} digests failed: ${result.error}`);
+		}
+
+		console.log(`${period} digests:`, result.data);
+	}
+};
+
+/**
+ * Sends due club webhook deliveries and schedules retries for failed ones.
+ *
+ * @param env - Worker environment
+ * @param fetchFn - fetch implementation; injectable for tests
+ */
+export const runWebhookDelivery = async (env: Env, fetchFn?: typeof fetch) => {
+	const db = dbInitalizer({ c: { env } });
+	const result = await deliverPendingWebhooks(db, { fetchFn });
+	if (result.error) {
+		throw new Error(`Webhook delivery failed: ${result.error}`);
+	}
+
+	console.log('Webhook delivery:', result.data);
+};
+
+/**
+ * Cron schedules, which must match `crons` under [triggers] in wrangler.toml
+ */
+export const CRON_SCHEDULES = {
+	/** Sends queued emails and club webhooks */
+	delivery: '* * * * *',
+	/** Queues session reminders; a reminder is queued at most 15 minutes after its offset */
+	reminders: '*/15 * * * *',
+	/** Queues the daily digests, and on Mondays the weekly ones, after the UTC day ends */
+	digests: '5 0 * * *',
+} as const;
+
+const JOBS: Record<string, ((env: Env) => Promise<void>)[]> = {
+	[CRON_SCHEDULES.delivery]: [runEmailDelivery, runWebhookDelivery],
+	[CRON_SCHEDULES.reminders]: [runSessionReminders],
+	[CRON_SCHEDULES.digests]: [runDigests],
+};
+
+/**
+ * Cron Trigger handler, exported next to `fetch` from src/index.ts.
+ *
+ * Runs the jobs for the schedule that fired (see CRON_SCHEDULES). Reminders and digests are only
+ * queued; the next delivery run sends them. A failure in one job is logged and does not stop the
+ * others.
+ */
+export const scheduled = async (controller: ScheduledController, env: Env, _ctx: ExecutionContext) => {
+	const jobs = JOBS[controller.cron];
+	if (!jobs) {
+		throw new Error(`No jobs for cron schedule "${controller.cron}"`);
+	}
+
+	let failure: unknown = null;
+	for (const job of jobs) {
+		try {
+			await job(env);
+		} catch (error) {
+			console.error(error);
+			failure = failure ?? error;
+		}
+	}
+
+	// Rethrow so the failed invocation shows up in the Cron Trigger's history
+	if (failure) {
+		throw failure;
+	}
+};
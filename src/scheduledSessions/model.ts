@@ -1,6 +1,8 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
-import { scheduledSessions, clubs } from '../db/schema';
-import { eq, and, gte, lte } from 'drizzle-orm';
+import { scheduledSessions, clubs, sessionRoles } from '../db/schema';
+import { eq, and, gte, inArray, lte } from 'drizzle-orm';
+import { getGeneratedOccurrences, OccurrenceResult } from '../sessionSeries/model';
+import { withdrawRemindersStatements, withdrawSessionReminders } from '../sessionReminders/model';
 
 /**
  * Represents a scheduled session in the database
@@ -9,12 +11,18 @@ import { eq, and, gte, lte } from 'drizzle-orm';
  * @property {Date} schedule - The date and time when the session is scheduled
  * @property {number} club_id - The ID of the club that owns this scheduled session
  * @property {string} [description] - Optional description of the scheduled session
+ * @property {number | null} [capacity] - Maximum confirmed sign-ups; null means unlimited
+ * @property {number | null} [series_id] - Series this session is an occurrence of, if any
+ * @property {Date | null} [occurrence_date] - Original date of the occurrence within its series
  */
 export interface ScheduledSession {
 	id: number;
 	schedule: Date;
 	club_id: number;
 	description?: string | null;
+	capacity?: number | null;
+	series_id?: number | null;
+	occurrence_date?: Date | null;
 }
 
 /**
@@ -81,6 +89,10 @@ export const createScheduledSession = async (
 			values.description = data.description;
 		}
 
+		if (data.capacity !== undefined && data.capacity !== null) {
+			values.capacity = data.capacity;
+		}
+
 		const results = await db
 			.insert(scheduledSessions)
 			.values(values)
@@ -165,14 +177,15 @@ export const getScheduledSessionsByClubId = async (
 };
 
 /**
- * Retrieves scheduled sessions within a date range for a specific club
+ * Retrieves scheduled sessions within a date range for a specific club, including
+ * occurrences generated from the club's session series (returned with `id: null`)
  * @async
  * @function getScheduledSessionsByDateRange
  * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
  * @param {string | number} clubId - The ID of the club
  * @param {Date} startDate - The start date (inclusive)
  * @param {Date} endDate - The end date (inclusive)
- * @returns {Promise<Result>} Result object containing filtered scheduled sessions or error
+ * @returns {Promise<OccurrenceResult>} Result object containing sessions ordered by schedule, or error
  * @throws Returns error if required parameters are missing or database operation fails
  * @example
  * const result = await getScheduledSessionsByDateRange(db, '1', new Date('2024-01-01'), new Date('2024-12-31'));
@@ -182,7 +195,7 @@ export const getScheduledSessionsByDateRange = async (
 	clubId: string | number,
 	startDate: Date,
 	endDate: Date
-): Promise<Result> => {
+): Promise<OccurrenceResult> => {
 	if (!clubId) {
 		return {
 			error: 'Missing club ID',
@@ -207,7 +220,15 @@ export const getScheduledSessionsByDateRange = async (
 				)
 			);
 
-		return { data: results };
+		const generated = await getGeneratedOccurrences(db, parseInt(clubId.toString(), 10), startDate, endDate);
+		if (generated.error) {
+			return {
+				error: generated.error,
+			};
+		}
+
+		const merged = [...results, ...(generated.data || [])].sort((a, b) => new Date(a.schedule).getTime() - new Date(b.schedule).getTime());
+		return { data: merged };
 	} catch (error) {
 		return {
 			error,
@@ -216,7 +237,8 @@ export const getScheduledSessionsByDateRange = async (
 };
 
 /**
- * Updates a scheduled session
+ * Updates a scheduled session. Moving the session withdraws reminders queued for the old time;
+ * new ones are sent for the new time.
  * @async
  * @function updateScheduledSession
  * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
@@ -277,6 +299,7 @@ export const updateScheduledSession = async (
 		if (data.schedule) updateData.schedule = new Date(data.schedule);
 		if (data.club_id) updateData.club_id = data.club_id;
 		if (data.description !== undefined) updateData.description = data.description;
+		if (data.capacity !== undefined) updateData.capacity = data.capacity;
 
 		const results = await db
 			.update(scheduledSessions)
@@ -284,6 +307,15 @@ export const updateScheduledSession = async (
 			.where(eq(scheduledSessions.id, parseInt(id, 10)))
 			.returning();
 
+		if (updateData.schedule && updateData.schedule.getTime() !== new Date(sessionExists[0].schedule).getTime()) {
+			const withdrawn = await withdrawSessionReminders(db, parseInt(id, 10));
+			if (withdrawn.error) {
+				return {
+					error: withdrawn.error,
+				};
+			}
+		}
+
 		return { data: results };
 	} catch (error) {
 		console.error('updateScheduledSession model - error:', error);
@@ -294,7 +326,7 @@ export const updateScheduledSession = async (
 };
 
 /**
- * Deletes a scheduled session by ID
+ * Deletes a scheduled session by ID, withdrawing any reminders queued for it
  * @async
  * @function deleteScheduledSession
  * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
@@ -315,10 +347,15 @@ export const deleteScheduledSession = async (
 	}
 
 	try {
-		const results = await db
-			.delete(scheduledSessions)
-			.where(eq(scheduledSessions.id, parseInt(id, 10)))
-			.returning();
+		const sessionId = parseInt(id, 10);
+
+		// One transaction: reminders are withdrawn and crew roles removed only if the session is
+		// deleted, which fails while members are still signed up for it
+		const [, , , results] = await db.batch([
+			...withdrawRemindersStatements(db, [sessionId]),
+			db.delete(sessionRoles).where(eq(sessionRoles.scheduled_session_id, sessionId)),
+			db.delete(scheduledSessions).where(eq(scheduledSessions.id, sessionId)).returning(),
+		]);
 
 		return { data: results };
 	} catch (error) {
@@ -329,7 +366,7 @@ export const deleteScheduledSession = async (
 };
 
 /**
- * Deletes all scheduled sessions for a specific club
+ * Deletes all scheduled sessions for a specific club, with their crew roles and queued reminders
  * @async
  * @function deleteScheduledSessionsByClubId
  * @param {NeonHttpDatabase<Record<string, never>>} db - Database instance
@@ -350,10 +387,20 @@ export const deleteScheduledSessionsByClubId = async (
 	}
 
 	try {
-		const results = await db
-			.delete(scheduledSessions)
-			.where(eq(scheduledSessions.club_id, parseInt(clubId.toString(), 10)))
-			.returning();
+		const clubSessionIds = db
+			.select({ id: scheduledSessions.id })
+			.from(scheduledSessions)
+			.where(eq(scheduledSessions.club_id, parseInt(clubId.toString(), 10)));
+
+		// As in deleteScheduledSession, everything belonging to the sessions goes in the same transaction
+		const [, , , results] = await db.batch([
+			...withdrawRemindersStatements(db, clubSessionIds),
+			db.delete(sessionRoles).where(inArray(sessionRoles.scheduled_session_id, clubSessionIds)),
+			db
+				.delete(scheduledSessions)
+				.where(eq(scheduledSessions.club_id, parseInt(clubId.toString(), 10)))
+				.returning(),
+		]);
 
 		return { data: results };
 	} catch (error) {
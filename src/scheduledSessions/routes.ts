@@ -1,8 +1,11 @@
 import { Hono } from 'hono';
 import * as scheduledSessionsModel from './model';
 import * as appointmentsModel from '../appointments/model';
+import * as signupsModel from '../sessionSignups/model';
 import { dbInitalizer } from '../utils/db';
 import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import { emitClubEvent } from '../clubWebhooks/events';
 import type { Env } from '../index';
 
 export const scheduledSessionsRouter = new Hono<{ Bindings: Env }>();
@@ -11,11 +14,16 @@ export const scheduledSessionsRouter = new Hono<{ Bindings: Env }>();
  * GET /api/clubs/:id/scheduled-sessions
  * Retrieve all scheduled sessions for a specific club
  * PUBLIC ROUTE - no authentication required
+ *
+ * Optional query params `start` and `end` (ISO dates) limit the result to a date range and
+ * include occurrences generated from the club's session series (those have `id: null`).
  */
 scheduledSessionsRouter.get('/', async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const clubId = c.req.param('clubId');
+		const start = c.req.query('start');
+		const end = c.req.query('end');
 
 		if (!clubId) {
 			return c.json(
@@ -26,6 +34,32 @@ scheduledSessionsRouter.get('/', async (c) => {
 			);
 		}
 
+		if (start || end) {
+			const startDate = new Date(start || '');
+			const endDate = new Date(end || '');
+			if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+				return c.json(
+					{
+						error: 'start and end must both be valid dates',
+					},
+					400
+				);
+			}
+
+			const rangeResult = await scheduledSessionsModel.getScheduledSessionsByDateRange(db, clubId, startDate, endDate);
+			if (rangeResult.error) {
+				return c.json(
+					{
+						error: rangeResult.error,
+					},
+					400
+				);
+			}
+			return c.json({
+				result: rangeResult.data,
+			});
+		}
+
 		const result = await scheduledSessionsModel.getScheduledSessionsByClubId(db, clubId);
 		if (result.error) {
 			return c.json(
@@ -52,7 +86,7 @@ scheduledSessionsRouter.get('/', async (c) => {
  * GET /api/clubs/:id/scheduled-sessions/:sessionId
  * Retrieve a specific scheduled session by ID
  */
-scheduledSessionsRouter.get('/:sessionId', checkAuth, checkUserPermission, async (c) => {
+scheduledSessionsRouter.get('/:sessionId', checkAuth, checkUserPermission, authorize('scheduledSession', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const sessionId = c.req.param('sessionId');
@@ -123,7 +157,7 @@ scheduledSessionsRouter.get('/:sessionId', checkAuth, checkUserPermission, async
  * POST /api/clubs/:id/scheduled-sessions
  * Create a new scheduled session in a club
  */
-scheduledSessionsRouter.post('/', checkAuth, checkUserPermission, async (c) => {
+scheduledSessionsRouter.post('/', checkAuth, checkUserPermission, authorize('scheduledSession', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const clubId = c.req.param('clubId');
@@ -147,11 +181,23 @@ scheduledSessionsRouter.post('/', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
+		// Validate crew roles up front so a bad role list doesn't leave a half-created session
+		const rolesError = data.roles !== undefined ? signupsModel.validateSessionRoles(data.roles) : null;
+		if (rolesError) {
+			return c.json(
+				{
+					error: rolesError,
+				},
+				400
+			);
+		}
+
 		const sessionData: scheduledSessionsModel.ScheduledSession = {
 			id: 0,
 			schedule: new Date(data.schedule),
 			club_id: parseInt(clubId, 10),
 			description: data.description || undefined,
+			capacity: data.capacity ? parseInt(data.capacity, 10) : null,
 		};
 
 		const result = await scheduledSessionsModel.createScheduledSession(db, sessionData);
@@ -164,11 +210,32 @@ scheduledSessionsRouter.post('/', checkAuth, checkUserPermission, async (c) => {
 			);
 		}
 
+		let roles: signupsModel.SessionRole[] = [];
+		if (data.roles && result.data?.[0]) {
+			const rolesResult = await signupsModel.setSessionRoles(db, result.data[0].id, data.roles);
+			if (rolesResult.error) {
+				return c.json(
+					{
+						error: rolesResult.error,
+					},
+					400
+				);
+			}
+			roles = rolesResult.data || [];
+		}
+
+		// Notify the club's webhooks; a webhook problem should not fail the change
+		const emitted = await emitClubEvent(db, sessionData.club_id, 'session.created', { session: result.data?.[0], roles });
+		if (emitted.error) {
+			console.error('Failed to queue session.created webhooks:', emitted.error);
+		}
+
 		return c.json(
 			{
 				created: true,
 				id: result.data?.[0]?.id,
 				session: result.data?.[0],
+				roles,
 			},
 			201
 		);
@@ -186,7 +253,7 @@ scheduledSessionsRouter.post('/', checkAuth, checkUserPermission, async (c) => {
  * PUT /api/clubs/:id/scheduled-sessions/:sessionId
  * Update a scheduled session
  */
-scheduledSessionsRouter.put('/:sessionId', checkAuth, checkUserPermission, async (c) => {
+scheduledSessionsRouter.put('/:sessionId', checkAuth, checkUserPermission, authorize('scheduledSession', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const sessionId = c.req.param('sessionId');
@@ -239,6 +306,19 @@ scheduledSessionsRouter.put('/:sessionId', checkAuth, checkUserPermission, async
 		if (data.description !== undefined) {
 			updateData.description = data.description;
 		}
+		if (data.capacity !== undefined) {
+			updateData.capacity = data.capacity === null ? null : parseInt(data.capacity, 10);
+		}
+
+		const rolesError = data.roles !== undefined ? signupsModel.validateSessionRoles(data.roles) : null;
+		if (rolesError) {
+			return c.json(
+				{
+					error: rolesError,
+				},
+				400
+			);
+		}
 
 		const result = await scheduledSessionsModel.updateScheduledSession(db, sessionId, updateData);
 		if (result.error) {
@@ -250,6 +330,23 @@ scheduledSessionsRouter.put('/:sessionId', checkAuth, checkUserPermission, async
 			);
 		}
 
+		if (data.roles !== undefined) {
+			const rolesResult = await signupsModel.setSessionRoles(db, session.id, data.roles);
+			if (rolesResult.error) {
+				return c.json(
+					{
+						error: rolesResult.error,
+					},
+					400
+				);
+			}
+		}
+
+		// More seats or slots may have opened up
+		if (data.capacity !== undefined || data.roles !== undefined) {
+			await signupsModel.promoteFromWaitlist(db, session.id);
+		}
+
 		return c.json({
 			updated: true,
 			session: result.data?.[0] || null,
@@ -268,7 +365,7 @@ scheduledSessionsRouter.put('/:sessionId', checkAuth, checkUserPermission, async
  * DELETE /api/clubs/:id/scheduled-sessions/:sessionId
  * Delete a scheduled session from a club
  */
-scheduledSessionsRouter.delete('/:sessionId', checkAuth, checkUserPermission, async (c) => {
+scheduledSessionsRouter.delete('/:sessionId', checkAuth, checkUserPermission, authorize('scheduledSession', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const sessionId = c.req.param('sessionId');
@@ -340,7 +437,7 @@ scheduledSessionsRouter.delete('/:sessionId', checkAuth, checkUserPermission, as
  * GET /api/clubs/:clubId/scheduled-sessions/:sessionId/appointments
  * Retrieve all appointments for a specific scheduled session
  */
-scheduledSessionsRouter.get('/:sessionId/appointments', checkAuth, checkUserPermission, async (c) => {
+scheduledSessionsRouter.get('/:sessionId/appointments', checkAuth, checkUserPermission, authorize('appointment', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const sessionId = c.req.param('sessionId');
@@ -0,0 +1,269 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { and, eq, gt, inArray, isNotNull, lte, SQLWrapper } from 'drizzle-orm';
+import { appointments, clubs, emailQueue, scheduledSessions, sessionReminders, users } from '../db/schema';
+
+/**
+ * Reminder offsets used when SESSION_REMINDER_OFFSETS is not set: 48 hours and 2 hours before
+ * the session, in minutes
+ */
+export const DEFAULT_REMINDER_OFFSETS = [48 * 60, 2 * 60];
+
+/**
+ * A reminder sent, or skipped, for one appointment at one offset
+ */
+export interface SessionReminder {
+	id: number;
+	appointment_id: number;
+	scheduled_session_id: number;
+	offset_minutes: number;
+	session_at: Date;
+	email_id?: number | null;
+	created_at: Date;
+}
+
+/**
+ * A confirmed sign-up for an upcoming session, with what a reminder needs
+ */
+export interface ReminderCandidate {
+	appointment_id: number;
+	user_id: number;
+	email: string | null;
+	first_name: string | null;
+	scheduled_session_id: number;
+	schedule: Date;
+	description: string | null;
+	club_id: number;
+	timezone: string;
+}
+
+export interface Result<T> {
+	error?: string | any;
+	data?: T | null;
+}
+
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+
+/**
+ * Parses a comma-separated list of reminder offsets such as `48h,2h` or `1d,90m`.
+ *
+ * @param value - Offsets with an m, h or d unit
+ * @returns Result object containing the distinct offsets in minutes, largest first, or an error naming the bad entry
+ */
+export const parseReminderOffsets = (value?: string | null): Result<number[]> => {
+	if (!value || !value.trim()) {
+		return {
+			data: DEFAULT_REMINDER_OFFSETS,
+		};
+	}
+
+	const offsets = new Set<number>();
+	for (const entry of value.split(',').map((part) => part.trim())) {
+		const match = /^(\d+)\s*([mhd])$/i.exec(entry);
+		const minutes = match ? parseInt(match[1], 10) * UNIT_MINUTES[match[2].toLowerCase()] : 0;
+		if (!minutes) {
+			return {
+				error: `Invalid reminder offset: ${entry}`,
+			};
+		}
+		offsets.add(minutes);
+	}
+
+	return {
+		data: [...offsets].sort((a, b) => b - a),
+	};
+};
+
+/**
+ * Chooses which reminder an appointment is due: the smallest offset whose window already
+ * contains the session. A member who signs up 30 hours ahead gets the 48-hour reminder now and
+ * the 2-hour reminder later; one who signs up an hour ahead gets only the 2-hour reminder.
+ *
+ * @param offsets - Reminder offsets in minutes
+ * @param sessionAt - When the session starts
+ * @param now - The current time
+ * @returns The offset in minutes, or null if the session is not within any offset
+ */
+export const pickReminderOffset = (offsets: number[], sessionAt: Date, now: Date): number | null => {
+	const minutesUntil = (sessionAt.getTime() - now.getTime()) / 60000;
+	if (minutesUntil <= 0) {
+		return null;
+	}
+	const containing = offsets.filter((offset) => minutesUntil <= offset);
+	return containing.length > 0 ? Math.min(...containing) : null;
+};
+
+/**
+ * Retrieves confirmed sign-ups for sessions starting after `now` and no later than `until`.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param now - Start of the window (exclusive)
+ * @param until - End of the window (inclusive)
+ * @returns Result object containing the sign-ups, or error message
+ */
+export const getUpcomingAppointments = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	now: Date,
+	until: Date
+): Promise<Result<ReminderCandidate[]>> => {
+	try {
+		const results = await db
+			.select({
+				appointment_id: appointments.id,
+				user_id: appointments.user_id,
+				email: users.email,
+				first_name: users.first_name,
+				scheduled_session_id: scheduledSessions.id,
+				schedule: scheduledSessions.schedule,
+				description: scheduledSessions.description,
+				club_id: scheduledSessions.club_id,
+				timezone: clubs.timezone,
+			})
+			.from(appointments)
+			.innerJoin(scheduledSessions, eq(appointments.scheduled_session_id, scheduledSessions.id))
+			.innerJoin(users, eq(appointments.user_id, users.id))
+			.innerJoin(clubs, eq(scheduledSessions.club_id, clubs.id))
+			.where(
+				and(
+					eq(appointments.status, 'confirmed'),
+					isNotNull(users.email),
+					gt(scheduledSessions.schedule, now),
+					lte(scheduledSessions.schedule, until)
+				)
+			);
+
+		return {
+			data: results,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves the reminders already recorded for the given appointments.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param appointmentIds - Appointment IDs
+ * @returns Result object containing the reminders, or error message
+ */
+export const getRemindersForAppointments = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	appointmentIds: number[]
+): Promise<Result<SessionReminder[]>> => {
+	if (appointmentIds.length === 0) {
+		return {
+			data: [],
+		};
+	}
+
+	try {
+		const results = await db.select().from(sessionReminders).where(inArray(sessionReminders.appointment_id, appointmentIds));
+		return {
+			data: results,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Records that a reminder is being sent. The unique (appointment, offset) constraint makes
+ * this the point where concurrent runs agree on who sends it.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param reminder - Appointment, session, offset and session start
+ * @returns Result object containing the new reminder, or null if one was already recorded
+ */
+export const claimReminder = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	reminder: { appointment_id: number; scheduled_session_id: number; offset_minutes: number; session_at: Date }
+): Promise<Result<SessionReminder | null>> => {
+	try {
+		const results = await db.insert(sessionReminders).values(reminder).onConflictDoNothing().returning();
+		return {
+			data: results[0] || null,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Links a claimed reminder to the email queued for it.
+ */
+export const setReminderEmail = async (db: NeonHttpDatabase<Record<string, never>>, id: number, emailId: number) => {
+	await db.update(sessionReminders).set({ email_id: emailId }).where(eq(sessionReminders.id, id));
+};
+
+/**
+ * Removes a claimed reminder whose email could not be queued, so the next run tries again.
+ */
+export const releaseReminder = async (db: NeonHttpDatabase<Record<string, never>>, id: number) => {
+	await db.delete(sessionReminders).where(eq(sessionReminders.id, id));
+};
+
+/**
+ * Builds, without running, the statements that withdraw the reminders of some sessions: queued
+ * reminder emails, then the reminder records. Deleting sessions runs them in one batch with the
+ * delete, so reminders are only withdrawn if the sessions are actually deleted.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionIds - Scheduled session IDs, or a query selecting them
+ * @returns The email and reminder delete statements, in order
+ */
+export const withdrawRemindersStatements = (db: NeonHttpDatabase<Record<string, never>>, sessionIds: number[] | SQLWrapper) => {
+	return [
+		db
+			.delete(emailQueue)
+			.where(
+				and(
+					eq(emailQueue.status, 'pending'),
+					inArray(
+						emailQueue.id,
+						db
+							.select({ id: sessionReminders.email_id })
+							.from(sessionReminders)
+							.where(inArray(sessionReminders.scheduled_session_id, sessionIds))
+					)
+				)
+			),
+		db.delete(sessionReminders).where(inArray(sessionReminders.scheduled_session_id, sessionIds)),
+	] as const;
+};
+
+/**
+ * Withdraws a session's reminders when it is moved or deleted.
+ *
+ * Reminder emails still waiting in the queue are removed, and the reminder records are cleared
+ * so a moved session gets fresh reminders for its new time. Emails already being sent are left
+ * alone.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - The scheduled session ID
+ * @returns Result object containing the withdrawn reminders, or error message
+ */
+export const withdrawSessionReminders = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	sessionId: number
+): Promise<Result<SessionReminder[]>> => {
+	try {
+		const [emails, reminders] = withdrawRemindersStatements(db, [sessionId]);
+		await emails;
+
+		const results = await reminders.returning();
+
+		return {
+			data: results,
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,146 @@
+/**
+ * Session Reminders
+ *
+ * Queues reminder emails for members signed up to upcoming scheduled sessions. Runs from the
+ * Cron Trigger; each appointment gets at most one reminder per offset, recorded in
+ * session_reminders, and members' session_reminders preferences are respected.
+ *
+ * @module sessionReminders/reminders
+ */
+
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import * as sessionRemindersModel from './model';
+import { emailQueueService } from '../emailQueue/service';
+import { UnsubscribeConfig } from '../notificationPreferences/unsubscribe';
+import { isValidTimeZone } from '../utils/ical';
+import { DEFAULT_APP_URL } from '../applications/routes';
+
+export interface ReminderOptions {
+	/** Reminder offsets in minutes (default DEFAULT_REMINDER_OFFSETS) */
+	offsets?: number[];
+	/** Base URL of the web app, for session links */
+	appUrl?: string;
+	/** Signing settings for unsubscribe links */
+	unsubscribe?: UnsubscribeConfig | null;
+	now?: Date;
+	/** Queueing operation; emailQueueService by default, injectable for tests */
+	queue?: Pick<typeof emailQueueService, 'queueEmail'>;
+}
+
+export interface ReminderSummary {
+	/** Appointments that were due a reminder */
+	due: number;
+	queued: number;
+	/** Reminders not queued because of the member's preferences or an unsubscribe */
+	skipped: number;
+	/** Reminders that could not be queued and will be tried again */
+	failed: number;
+}
+
+/**
+ * Formats a session's date and time in the club's timezone for the reminder template.
+ */
+export const formatSessionTime = (schedule: Date, timeZone: string): { date: string; time: string } => {
+	const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+	return {
+		date: new Intl.DateTimeFormat('en-US', { timeZone: zone, weekday: 'long', month: 'long', day: 'numeric' }).format(schedule),
+		time: new Intl.DateTimeFormat('en-US', { timeZone: zone, hour: 'numeric', minute: '2-digit' }).format(schedule),
+	};
+};
+
+/**
+ * Queues the reminders that are due.
+ *
+ * Finds confirmed sign-ups for sessions starting within the largest offset, picks the offset
+ * each one is due (see `pickReminderOffset`) and queues a `session_reminder` email for those
+ * not yet reminded at that offset.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param options - Offsets, app URL, unsubscribe settings and clock
+ * @returns Result object with counts of due, queued, skipped and failed reminders, or error message
+ */
+export const enqueueSessionReminders = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	options: ReminderOptions = {}
+): Promise<sessionRemindersModel.Result<ReminderSummary>> => {
+	const offsets = options.offsets ?? sessionRemindersModel.DEFAULT_REMINDER_OFFSETS;
+	const now = options.now ?? new Date();
+	const appUrl = (options.appUrl || DEFAULT_APP_URL).replace(/\/+$/, '');
+	const queue = options.queue ?? emailQueueService;
+	const summary: ReminderSummary = { due: 0, queued: 0, skipped: 0, failed: 0 };
+
+	if (offsets.length === 0) {
+		return { data: summary };
+	}
+
+	const until = new Date(now.getTime() + Math.max(...offsets) * 60000);
+	const upcoming = await sessionRemindersModel.getUpcomingAppointments(db, now, until);
+	if (upcoming.error) {
+		return { error: upcoming.error };
+	}
+
+	const candidates = upcoming.data!;
+	const existing = await sessionRemindersModel.getRemindersForAppointments(
+		db,
+		candidates.map((candidate) => candidate.appointment_id)
+	);
+	if (existing.error) {
+		return { error: existing.error };
+	}
+	const sent = new Set(existing.data!.map((reminder) => `${reminder.appointment_id}:${reminder.offset_minutes}`));
+
+	for (const candidate of candidates) {
+		const offset = sessionRemindersModel.pickReminderOffset(offsets, candidate.schedule, now);
+		if (offset === null || sent.has(`${candidate.appointment_id}:${offset}`) || !candidate.email) {
+			continue;
+		}
+
+		const claim = await sessionRemindersModel.claimReminder(db, {
+			appointment_id: candidate.appointment_id,
+			scheduled_session_id: candidate.scheduled_session_id,
+			offset_minutes: offset,
+			session_at: candidate.schedule,
+		});
+		if (claim.error) {
+			return { error: claim.error };
+		}
+		if (!claim.data) {
+			// Another run got there first
+			continue;
+		}
+		summary.due++;
+
+		const queued = await queue.queueEmail(
+			db,
+			{
+				recipient_email: candidate.email,
+				template: 'session_reminder',
+				variables: {
+					name: candidate.first_name,
+					session: {
+						description: candidate.description || 'Operating session',
+						...formatSessionTime(candidate.schedule, candidate.timezone),
+						link: `${appUrl}/sessions/${candidate.scheduled_session_id}`,
+					},
+				},
+				user_id: candidate.user_id,
+				club_id: candidate.club_id,
+				category: 'session_reminders',
+			},
+			options.unsubscribe
+		);
+
+		if (queued.error || !queued.data) {
+			console.error(`Failed to queue reminder for appointment ${candidate.appointment_id}:`, queued.error);
+			await sessionRemindersModel.releaseReminder(db, claim.data.id);
+			summary.failed++;
+		} else if (queued.data.queued) {
+			await sessionRemindersModel.setReminderEmail(db, claim.data.id, queued.data.email.id);
+			summary.queued++;
+		} else {
+			summary.skipped++;
+		}
+	}
+
+	return { data: summary };
+};
@@ -0,0 +1,626 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { eq, and, inArray, gte, getTableColumns } from 'drizzle-orm';
+import { appointments, clubs, scheduledSessions, sessionRoles, sessionSeries, sessionSeriesExceptions } from '../db/schema';
+import { parseRRule, validateRRule, formatRRule, expandRRule } from '../utils/rrule';
+import { withdrawSessionReminders } from '../sessionReminders/model';
+
+/**
+ * A recurring scheduled session.
+ *
+ * Occurrences are generated from `rrule` on read rather than stored. A single occurrence is
+ * only written to `scheduled_sessions` (with `series_id` and `occurrence_date`) when it is
+ * moved or when members need to sign up for it; cancelled occurrences are stored as exceptions.
+ *
+ * @property id - Unique identifier (auto-generated)
+ * @property club_id - Club that runs the series (required)
+ * @property rrule - RFC 5545 recurrence rule, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=TU` (required)
+ * @property dtstart - First occurrence; also sets the time of day of every occurrence (required)
+ * @property description - Copied onto each occurrence
+ * @property capacity - Copied onto each occurrence
+ * @property timezone - The club's timezone, which the rule is expanded in; read with the series, never stored on it
+ */
+export interface SessionSeries {
+	id?: number;
+	club_id: number;
+	rrule: string;
+	dtstart: Date;
+	description?: string | null;
+	capacity?: number | null;
+	timezone?: string;
+	created_at?: Date;
+	updated_at?: Date;
+}
+
+/**
+ * Series columns along with the club's timezone, for queries that expand rules
+ */
+const seriesWithTimeZone = { ...getTableColumns(sessionSeries), timezone: clubs.timezone };
+
+/**
+ * A session in a date range: either a stored scheduled session or an occurrence generated
+ * from a series. Generated occurrences have `id: null` until they are materialised.
+ */
+export interface SessionOccurrence {
+	id: number | null;
+	schedule: Date;
+	club_id: number;
+	description?: string | null;
+	capacity?: number | null;
+	series_id?: number | null;
+	occurrence_date?: Date | null;
+}
+
+export interface Result {
+	error?: string | any;
+	data?: SessionSeries[] | null;
+}
+
+export interface OccurrenceResult {
+	error?: string | any;
+	data?: SessionOccurrence[] | null;
+}
+
+/**
+ * Validates the fields of a series before it is written.
+ *
+ * @param data - Series data to validate
+ * @returns Error message, or null if valid
+ */
+const validateSeries = (data: SessionSeries): string | null => {
+	if (!data.club_id || !data.rrule || !data.dtstart) {
+		return 'Missing required field. Required: club_id, rrule, dtstart';
+	}
+	if (isNaN(new Date(data.dtstart).getTime())) {
+		return 'dtstart must be a valid date';
+	}
+	return validateRRule(data.rrule);
+};
+
+/**
+ * Checks whether a date is one of the series' occurrences.
+ *
+ * @param series - Series to check
+ * @param occurrenceDate - Original (unmoved) date of the occurrence
+ * @returns `true` if the rule generates exactly this date
+ */
+export const isOccurrence = (series: SessionSeries, occurrenceDate: Date): boolean => {
+	try {
+		const dates = expandRRule(parseRRule(series.rrule), new Date(series.dtstart), occurrenceDate, occurrenceDate, series.timezone);
+		return dates.length === 1 && dates[0].getTime() === occurrenceDate.getTime();
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Retrieves all series for a club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - ID of the club (required)
+ * @returns Result object containing the club's series or error
+ */
+export const getSeriesByClubId = async (db: NeonHttpDatabase<Record<string, never>>, clubId: number): Promise<Result> => {
+	if (!clubId)
+		return {
+			error: 'Missing club ID',
+		};
+	try {
+		const results = await db.select().from(sessionSeries).where(eq(sessionSeries.club_id, clubId));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves a series by ID, scoped to a club, with the club's timezone.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - Series ID (required)
+ * @param clubId - Club the series must belong to (required)
+ * @returns Result object containing the series in an array (empty if not in this club)
+ */
+export const getSeriesByIdAndClubId = async (db: NeonHttpDatabase<Record<string, never>>, id: number, clubId: number): Promise<Result> => {
+	if (!id || !clubId)
+		return {
+			error: 'Missing ID or club ID',
+		};
+	try {
+		const results = await db
+			.select(seriesWithTimeZone)
+			.from(sessionSeries)
+			.innerJoin(clubs, eq(sessionSeries.club_id, clubs.id))
+			.where(and(eq(sessionSeries.id, id), eq(sessionSeries.club_id, clubId)));
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Creates a new series.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param data - Series to create (club_id, rrule and dtstart required)
+ * @returns Result object containing the created series or error
+ */
+export const createSeries = async (db: NeonHttpDatabase<Record<string, never>>, data: SessionSeries): Promise<Result> => {
+	if (!data)
+		return {
+			error: 'Missing data',
+		};
+
+	const validationError = validateSeries(data);
+	if (validationError) {
+		return {
+			error: validationError,
+		};
+	}
+
+	try {
+		const results = await db
+			.insert(sessionSeries)
+			.values({
+				club_id: data.club_id,
+				rrule: formatRRule(parseRRule(data.rrule)),
+				dtstart: new Date(data.dtstart),
+				description: data.description,
+				capacity: data.capacity,
+			})
+			.returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Updates every occurrence of a series. Occurrences already stored as scheduled sessions
+ * keep their own schedule; use splitSeries to change only "this and following".
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the series to update
+ * @param data - Complete series data (merge with the existing record before calling)
+ * @returns Result object containing the updated series or error
+ */
+export const updateSeries = async (db: NeonHttpDatabase<Record<string, never>>, id: number, data: SessionSeries): Promise<Result> => {
+	if (!id)
+		return {
+			error: 'Missing ID',
+		};
+	if (!data)
+		return {
+			error: 'Missing data',
+		};
+
+	const validationError = validateSeries(data);
+	if (validationError) {
+		return {
+			error: validationError,
+		};
+	}
+
+	try {
+		const results = await db
+			.update(sessionSeries)
+			.set({
+				rrule: formatRRule(parseRRule(data.rrule)),
+				dtstart: new Date(data.dtstart),
+				description: data.description,
+				capacity: data.capacity,
+				updated_at: new Date(),
+			})
+			.where(eq(sessionSeries.id, id))
+			.returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Takes a stored occurrence out of its series.
+ *
+ * Occurrences with active sign-ups are kept as one-off sessions detached from the series so
+ * those members keep their appointments; the rest are deleted along with any cancelled sign-ups.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - Stored scheduled session to release
+ */
+const releaseStoredOccurrence = async (db: NeonHttpDatabase<Record<string, never>>, sessionId: number): Promise<void> => {
+	const signups = await db.select().from(appointments).where(eq(appointments.scheduled_session_id, sessionId));
+	if (signups.some((signup) => signup.status !== 'cancelled')) {
+		await db.update(scheduledSessions).set({ series_id: null, occurrence_date: null }).where(eq(scheduledSessions.id, sessionId));
+		return;
+	}
+	if (signups.length > 0) {
+		await db.delete(appointments).where(eq(appointments.scheduled_session_id, sessionId));
+	}
+	await db.delete(sessionRoles).where(eq(sessionRoles.scheduled_session_id, sessionId));
+	await db.delete(scheduledSessions).where(eq(scheduledSessions.id, sessionId));
+};
+
+/**
+ * Releases every stored occurrence of a series from a given date onwards.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param seriesId - Series whose occurrences to release
+ * @param from - Original occurrence date to start from (inclusive); null for all
+ */
+const releaseStoredOccurrences = async (db: NeonHttpDatabase<Record<string, never>>, seriesId: number, from: Date | null): Promise<void> => {
+	const stored = await db
+		.select()
+		.from(scheduledSessions)
+		.where(
+			from
+				? and(eq(scheduledSessions.series_id, seriesId), gte(scheduledSessions.occurrence_date, from))
+				: eq(scheduledSessions.series_id, seriesId)
+		);
+
+	for (const session of stored) {
+		await releaseStoredOccurrence(db, session.id);
+	}
+};
+
+/**
+ * Deletes a series, its exceptions and any stored occurrences nobody has signed up for.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param id - ID of the series to delete
+ * @returns Result object containing the deleted series or error
+ */
+export const deleteSeries = async (db: NeonHttpDatabase<Record<string, never>>, id: number): Promise<Result> => {
+	if (!id)
+		return {
+			error: 'Missing ID',
+		};
+	try {
+		await releaseStoredOccurrences(db, id, null);
+		await db.delete(sessionSeriesExceptions).where(eq(sessionSeriesExceptions.series_id, id));
+		const results = await db.delete(sessionSeries).where(eq(sessionSeries.id, id)).returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Generates series occurrences for a club within a date range.
+ *
+ * Cancelled occurrences and occurrences already stored as scheduled sessions are left out,
+ * so the result can be merged with stored sessions without duplicates. Series whose stored
+ * rule no longer parses are skipped rather than failing the whole read.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clubId - ID of the club (required)
+ * @param startDate - Range start (inclusive)
+ * @param endDate - Range end (inclusive)
+ * @returns OccurrenceResult containing generated occurrences (with `id: null`)
+ */
+export const getGeneratedOccurrences = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clubId: number,
+	startDate: Date,
+	endDate: Date
+): Promise<OccurrenceResult> => {
+	try {
+		const seriesList = await db
+			.select(seriesWithTimeZone)
+			.from(sessionSeries)
+			.innerJoin(clubs, eq(sessionSeries.club_id, clubs.id))
+			.where(eq(sessionSeries.club_id, clubId));
+
+		const generated: SessionOccurrence[] = [];
+		for (const series of seriesList) {
+			let dates: Date[];
+			try {
+				dates = expandRRule(parseRRule(series.rrule), new Date(series.dtstart), startDate, endDate, series.timezone);
+			} catch (error) {
+				console.error(`Skipping session series ${series.id} with invalid rule:`, error);
+				continue;
+			}
+			dates.forEach((date) =>
+				generated.push({
+					id: null,
+					schedule: date,
+					club_id: series.club_id,
+					description: series.description,
+					capacity: series.capacity,
+					series_id: series.id,
+					occurrence_date: date,
+				})
+			);
+		}
+
+		if (generated.length === 0) {
+			return { data: [] };
+		}
+
+		const seriesIds = [...new Set(generated.map((occurrence) => occurrence.series_id as number))];
+		const exceptions = await db.select().from(sessionSeriesExceptions).where(inArray(sessionSeriesExceptions.series_id, seriesIds));
+		const stored = await db.select().from(scheduledSessions).where(inArray(scheduledSessions.series_id, seriesIds));
+		const skip = new Set(
+			[...exceptions, ...stored]
+				.filter((row) => row.occurrence_date)
+				.map((row) => `${row.series_id}:${new Date(row.occurrence_date as Date).getTime()}`)
+		);
+
+		return {
+			data: generated.filter((occurrence) => !skip.has(`${occurrence.series_id}:${occurrence.schedule.getTime()}`)),
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Returns the stored scheduled session for an occurrence, creating it if needed.
+ *
+ * Members sign up against scheduled session IDs, so an occurrence has to be stored before
+ * anyone can sign up for it.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param series - Series the occurrence belongs to
+ * @param occurrenceDate - Original date of the occurrence
+ * @returns OccurrenceResult containing the stored scheduled session
+ */
+export const materializeOccurrence = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	series: SessionSeries,
+	occurrenceDate: Date
+): Promise<OccurrenceResult> => {
+	if (!series?.id || !occurrenceDate)
+		return {
+			error: 'Missing series or occurrence date',
+		};
+	if (!isOccurrence(series, occurrenceDate)) {
+		return {
+			error: 'Date is not an occurrence of this series',
+		};
+	}
+
+	try {
+		const exceptions = await db
+			.select()
+			.from(sessionSeriesExceptions)
+			.where(and(eq(sessionSeriesExceptions.series_id, series.id), eq(sessionSeriesExceptions.occurrence_date, occurrenceDate)));
+		if (exceptions.length > 0) {
+			return {
+				error: 'This occurrence has been cancelled',
+			};
+		}
+
+		const existing = await db
+			.select()
+			.from(scheduledSessions)
+			.where(and(eq(scheduledSessions.series_id, series.id), eq(scheduledSessions.occurrence_date, occurrenceDate)));
+		if (existing.length > 0) {
+			return { data: existing };
+		}
+
+		const results = await db
+			.insert(scheduledSessions)
+			.values({
+				schedule: occurrenceDate,
+				club_id: series.club_id,
+				description: series.description,
+				capacity: series.capacity,
+				series_id: series.id,
+				occurrence_date: occurrenceDate,
+			})
+			.returning();
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Moves a single occurrence to a new date and time, leaving the rest of the series alone.
+ * Reminders queued for the old time are withdrawn.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param series - Series the occurrence belongs to
+ * @param occurrenceDate - Original date of the occurrence
+ * @param schedule - New date and time
+ * @returns OccurrenceResult containing the stored, moved session
+ */
+export const moveOccurrence = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	series: SessionSeries,
+	occurrenceDate: Date,
+	schedule: Date
+): Promise<OccurrenceResult> => {
+	if (!schedule || isNaN(new Date(schedule).getTime())) {
+		return {
+			error: 'schedule must be a valid date',
+		};
+	}
+
+	const stored = await materializeOccurrence(db, series, occurrenceDate);
+	if (stored.error || !stored.data?.[0]?.id) {
+		return stored;
+	}
+
+	try {
+		const results = await db
+			.update(scheduledSessions)
+			.set({ schedule: new Date(schedule) })
+			.where(eq(scheduledSessions.id, stored.data[0].id))
+			.returning();
+
+		const withdrawn = await withdrawSessionReminders(db, stored.data[0].id);
+		if (withdrawn.error) {
+			return {
+				error: withdrawn.error,
+			};
+		}
+
+		return { data: results };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Cancels a single occurrence.
+ *
+ * An occurrence with active sign-ups can't be cancelled; those members need to be
+ * told and their sign-ups cancelled first.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param series - Series the occurrence belongs to
+ * @param occurrenceDate - Original date of the occurrence
+ * @returns Result object containing the series or error
+ */
+export const cancelOccurrence = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	series: SessionSeries,
+	occurrenceDate: Date
+): Promise<Result> => {
+	if (!series?.id || !occurrenceDate)
+		return {
+			error: 'Missing series or occurrence date',
+		};
+	if (!isOccurrence(series, occurrenceDate)) {
+		return {
+			error: 'Date is not an occurrence of this series',
+		};
+	}
+
+	try {
+		const stored = await db
+			.select()
+			.from(scheduledSessions)
+			.where(and(eq(scheduledSessions.series_id, series.id), eq(scheduledSessions.occurrence_date, occurrenceDate)));
+
+		if (stored.length > 0) {
+			const signups = await db.select().from(appointments).where(eq(appointments.scheduled_session_id, stored[0].id));
+			if (signups.some((signup) => signup.status !== 'cancelled')) {
+				return {
+					error: 'This occurrence has sign-ups. Cancel them before cancelling the occurrence',
+				};
+			}
+			await releaseStoredOccurrence(db, stored[0].id);
+		}
+
+		await db.insert(sessionSeriesExceptions).values({
+			series_id: series.id,
+			occurrence_date: occurrenceDate,
+		});
+		return { data: [series] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Applies changes to "this and following" occurrences by splitting the series.
+ *
+ * The original series is ended just before `occurrenceDate`, so past occurrences (and any
+ * appointments on them) are untouched. A new series starting at `occurrenceDate` carries the
+ * changes. Stored occurrences from `occurrenceDate` onwards are released: ones with sign-ups
+ * become one-off sessions, the rest are removed. Splitting at the first occurrence simply
+ * updates the whole series.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param series - Series to split
+ * @param occurrenceDate - First occurrence the changes apply to
+ * @param changes - New rrule, dtstart, description and/or capacity
+ * @returns Result containing [original series, new series], or just the updated series when splitting at the start
+ */
+export const splitSeries = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	series: SessionSeries,
+	occurrenceDate: Date,
+	changes: Partial<Pick<SessionSeries, 'rrule' | 'dtstart' | 'description' | 'capacity'>>
+): Promise<Result> => {
+	if (!series?.id || !occurrenceDate)
+		return {
+			error: 'Missing series or occurrence date',
+		};
+	if (!isOccurrence(series, occurrenceDate)) {
+		return {
+			error: 'Date is not an occurrence of this series',
+		};
+	}
+	const originalRule = parseRRule(series.rrule);
+	const dtstart = new Date(series.dtstart);
+	const earlier = expandRRule(originalRule, dtstart, dtstart, new Date(occurrenceDate.getTime() - 1000), series.timezone);
+
+	const merged: SessionSeries = {
+		club_id: series.club_id,
+		timezone: series.timezone,
+		rrule: changes.rrule ?? series.rrule,
+		dtstart: changes.dtstart ? new Date(changes.dtstart) : occurrenceDate,
+		description: changes.description !== undefined ? changes.description : series.description,
+		capacity: changes.capacity !== undefined ? changes.capacity : series.capacity,
+	};
+
+	const validationError = validateSeries(merged);
+	if (validationError) {
+		return {
+			error: validationError,
+		};
+	}
+
+	if (earlier.length === 0) {
+		return updateSeries(db, series.id, merged);
+	}
+
+	// Carry the remaining COUNT over when the rule itself isn't changing
+	if (!changes.rrule && originalRule.count) {
+		merged.rrule = formatRRule({ ...originalRule, count: originalRule.count - earlier.length });
+	}
+
+	const endedRule = formatRRule({ ...originalRule, count: undefined, until: earlier[earlier.length - 1] });
+
+	try {
+		await releaseStoredOccurrences(db, series.id, occurrenceDate);
+		const exceptions = await db.select().from(sessionSeriesExceptions).where(eq(sessionSeriesExceptions.series_id, series.id));
+		const laterExceptions = exceptions.filter((exception) => new Date(exception.occurrence_date) >= occurrenceDate);
+		if (laterExceptions.length > 0) {
+			await db.delete(sessionSeriesExceptions).where(
+				inArray(
+					sessionSeriesExceptions.id,
+					laterExceptions.map((exception) => exception.id)
+				)
+			);
+		}
+
+		const ended = await db
+			.update(sessionSeries)
+			.set({ rrule: endedRule, updated_at: new Date() })
+			.where(eq(sessionSeries.id, series.id))
+			.returning();
+
+		const created = await createSeries(db, merged);
+		if (created.error) {
+			return created;
+		}
+
+		return { data: [...ended, ...(created.data || [])] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
@@ -0,0 +1,573 @@
+import { Hono } from 'hono';
+import * as seriesModel from './model';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Router for recurring session series.
+ * Nested under club: /api/clubs/:clubId/session-series
+ *
+ * A series stores a recurrence rule (RFC 5545 RRULE subset: FREQ=DAILY/WEEKLY/MONTHLY,
+ * INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY) and its occurrences are generated on read
+ * by GET /api/clubs/:clubId/scheduled-sessions?start=...&end=...
+ *
+ * All routes require:
+ * - Authentication (checkAuth middleware)
+ * - User permission and club membership (checkUserPermission middleware)
+ *
+ * Changing series and their occurrences requires manage_sessions (see utils/policy).
+ */
+export const sessionSeriesRouter = new Hono<{ Bindings: Env }>();
+
+// Apply auth middleware to all routes
+sessionSeriesRouter.use(checkAuth);
+sessionSeriesRouter.use(checkUserPermission);
+sessionSeriesRouter.use(authorize('sessionSeries', 'read'));
+
+/**
+ * Loads a series and confirms it belongs to the club in the route.
+ *
+ * @returns The series, or null if it does not exist in this club
+ */
+const getSeriesInClub = async (db: ReturnType<typeof dbInitalizer>, seriesId: string, clubId: string) => {
+	const result = await seriesModel.getSeriesByIdAndClubId(db, parseInt(seriesId, 10), parseInt(clubId, 10));
+	if (result.error || !result.data || result.data.length === 0) {
+		return null;
+	}
+	return result.data[0];
+};
+
+/**
+ * Parses the `occurrence_date` body field identifying an occurrence by its original date.
+ *
+ * @returns The date, or null if missing or invalid
+ */
+const parseOccurrenceDate = (value: unknown): Date | null => {
+	if (!value) return null;
+	const date = new Date(value as string);
+	return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * GET all series for a club
+ * Route: GET /api/clubs/:clubId/session-series
+ *
+ * @example
+ * GET /api/clubs/789/session-series
+ * Response: { result: [{ id: 1, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU', dtstart: '2024-01-02T18:00:00.000Z', ... }] }
+ */
+sessionSeriesRouter.get('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		const result = await seriesModel.getSeriesByClubId(db, parseInt(clubId, 10));
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+		return c.json({
+			result: result.data,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST create a series
+ * Route: POST /api/clubs/:clubId/session-series
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "rrule": "FREQ=MONTHLY;BYDAY=-1SA",
+ *   "dtstart": "2024-01-27T14:00:00Z",
+ *   "description": "Last Saturday operating session",
+ *   "capacity": 12
+ * }
+ * ```
+ *
+ * @throws Returns 400 if the rule is invalid or uses unsupported parts
+ */
+sessionSeriesRouter.post('/', authorize('sessionSeries', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+
+		if (!clubId) {
+			return c.json(
+				{
+					error: 'Missing club ID in route',
+				},
+				400
+			);
+		}
+
+		// Only allow specific fields for series - prevent injection
+		const seriesData: seriesModel.SessionSeries = {
+			club_id: parseInt(clubId, 10),
+			rrule: data.rrule,
+			dtstart: data.dtstart ? new Date(data.dtstart) : data.dtstart,
+			description: data.description || undefined,
+			capacity: data.capacity ? parseInt(data.capacity, 10) : null,
+		};
+
+		const result = await seriesModel.createSeries(db, seriesData);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				series: result.data?.[0],
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * PUT update all occurrences of a series
+ * Route: PUT /api/clubs/:clubId/session-series/:seriesId
+ *
+ * All fields optional; omitted fields keep their existing values. To change only
+ * "this and following" occurrences use POST /:seriesId/split instead.
+ *
+ * @throws Returns 400 if the rule is invalid, 404 if series not in this club
+ */
+sessionSeriesRouter.put('/:seriesId', authorize('sessionSeries', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const seriesId = c.req.param('seriesId');
+		const clubId = c.req.param('clubId');
+
+		if (!seriesId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing series ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const data = await c.req.json();
+
+		const series = await getSeriesInClub(db, seriesId, clubId);
+		if (!series) {
+			return c.json(
+				{
+					error: 'Series not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await seriesModel.updateSeries(db, series.id as number, {
+			club_id: series.club_id,
+			rrule: data.rrule !== undefined ? data.rrule : series.rrule,
+			dtstart: data.dtstart !== undefined ? new Date(data.dtstart) : series.dtstart,
+			description: data.description !== undefined ? data.description : series.description,
+			capacity: data.capacity !== undefined ? data.capacity : series.capacity,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			updated: true,
+			series: result.data?.[0] || null,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * DELETE a series
+ * Route: DELETE /api/clubs/:clubId/session-series/:seriesId
+ *
+ * Stored occurrences with active sign-ups are kept as one-off sessions.
+ *
+ * @throws Returns 404 if series not in this club
+ */
+sessionSeriesRouter.delete('/:seriesId', authorize('sessionSeries', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const seriesId = c.req.param('seriesId');
+		const clubId = c.req.param('clubId');
+
+		if (!seriesId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing series ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const series = await getSeriesInClub(db, seriesId, clubId);
+		if (!series) {
+			return c.json(
+				{
+					error: 'Series not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await seriesModel.deleteSeries(db, series.id as number);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			deleted: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST store an occurrence as a scheduled session
+ * Route: POST /api/clubs/:clubId/session-series/:seriesId/occurrences
+ *
+ * Generated occurrences have no ID. Call this to get a scheduled session ID for an occurrence
+ * so members can sign up for it. Returns the existing session if it is already stored.
+ *
+ * Request Body: `{ "occurrence_date": "2024-02-24T14:00:00Z" }`
+ *
+ * @throws Returns 400 if the date is not an occurrence or was cancelled, 404 if series not in this club
+ */
+sessionSeriesRouter.post('/:seriesId/occurrences', authorize('sessionSeries', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const seriesId = c.req.param('seriesId');
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+
+		if (!seriesId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing series ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const occurrenceDate = parseOccurrenceDate(data.occurrence_date);
+		if (!occurrenceDate) {
+			return c.json(
+				{
+					error: 'Missing or invalid occurrence_date',
+				},
+				400
+			);
+		}
+
+		const series = await getSeriesInClub(db, seriesId, clubId);
+		if (!series) {
+			return c.json(
+				{
+					error: 'Series not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await seriesModel.materializeOccurrence(db, series, occurrenceDate);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			session: result.data?.[0] || null,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST move a single occurrence
+ * Route: POST /api/clubs/:clubId/session-series/:seriesId/occurrences/move
+ *
+ * Request Body: `{ "occurrence_date": "2024-02-24T14:00:00Z", "schedule": "2024-02-25T14:00:00Z" }`
+ *
+ * @throws Returns 400 if the date is not an occurrence, 404 if series not in this club
+ */
+sessionSeriesRouter.post('/:seriesId/occurrences/move', authorize('sessionSeries', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const seriesId = c.req.param('seriesId');
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+
+		if (!seriesId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing series ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const occurrenceDate = parseOccurrenceDate(data.occurrence_date);
+		if (!occurrenceDate) {
+			return c.json(
+				{
+					error: 'Missing or invalid occurrence_date',
+				},
+				400
+			);
+		}
+
+		const series = await getSeriesInClub(db, seriesId, clubId);
+		if (!series) {
+			return c.json(
+				{
+					error: 'Series not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await seriesModel.moveOccurrence(db, series, occurrenceDate, data.schedule);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			moved: true,
+			session: result.data?.[0] || null,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST cancel a single occurrence
+ * Route: POST /api/clubs/:clubId/session-series/:seriesId/occurrences/cancel
+ *
+ * Request Body: `{ "occurrence_date": "2024-02-24T14:00:00Z" }`
+ *
+ * @throws Returns 400 if the date is not an occurrence or has active sign-ups, 404 if series not in this club
+ */
+sessionSeriesRouter.post('/:seriesId/occurrences/cancel', authorize('sessionSeries', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const seriesId = c.req.param('seriesId');
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+
+		if (!seriesId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing series ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const occurrenceDate = parseOccurrenceDate(data.occurrence_date);
+		if (!occurrenceDate) {
+			return c.json(
+				{
+					error: 'Missing or invalid occurrence_date',
+				},
+				400
+			);
+		}
+
+		const series = await getSeriesInClub(db, seriesId, clubId);
+		if (!series) {
+			return c.json(
+				{
+					error: 'Series not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await seriesModel.cancelOccurrence(db, series, occurrenceDate);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			cancelled: true,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST change "this and following" occurrences
+ * Route: POST /api/clubs/:clubId/session-series/:seriesId/split
+ *
+ * Ends the series before `occurrence_date` and starts a new series carrying the changes.
+ * Earlier occurrences and their appointments are left untouched.
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "occurrence_date": "2024-06-11T18:00:00Z",
+ *   "rrule": "FREQ=WEEKLY;INTERVAL=2;BYDAY=WE",
+ *   "dtstart": "2024-06-12T18:30:00Z",
+ *   "description": "Moved to Wednesdays"
+ * }
+ * ```
+ *
+ * @throws Returns 400 if the date is not an occurrence or the new rule is invalid, 404 if series not in this club
+ */
+sessionSeriesRouter.post('/:seriesId/split', authorize('sessionSeries', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const seriesId = c.req.param('seriesId');
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+
+		if (!seriesId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing series ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const occurrenceDate = parseOccurrenceDate(data.occurrence_date);
+		if (!occurrenceDate) {
+			return c.json(
+				{
+					error: 'Missing or invalid occurrence_date',
+				},
+				400
+			);
+		}
+
+		const series = await getSeriesInClub(db, seriesId, clubId);
+		if (!series) {
+			return c.json(
+				{
+					error: 'Series not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await seriesModel.splitSeries(db, series, occurrenceDate, {
+			rrule: data.rrule,
+			dtstart: data.dtstart ? new Date(data.dtstart) : undefined,
+			description: data.description,
+			capacity: data.capacity,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			split: (result.data || []).length > 1,
+			series: result.data || [],
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
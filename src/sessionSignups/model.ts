@@ -0,0 +1,488 @@
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { eq, and, sql, SQL } from 'drizzle-orm';
+import { appointments, scheduledSessions, sessionRoles } from '../db/schema';
+
+/**
+ * Crew roles a member can sign up for at an operating session.
+ */
+export type CrewRole = 'dispatcher' | 'yardmaster' | 'road_crew' | 'tower_operator';
+
+export const CREW_ROLES: CrewRole[] = ['dispatcher', 'yardmaster', 'road_crew', 'tower_operator'];
+
+/**
+ * Sign-up status.
+ * - `confirmed`: holds a seat (and a role slot, if the session has roles)
+ * - `waitlisted`: waiting for a seat; promoted in sign-up order when one frees up
+ * - `cancelled`: withdrawn by the member or an admin
+ */
+export type SignupStatus = 'confirmed' | 'waitlisted' | 'cancelled';
+
+/**
+ * Number of slots available for a crew role at a session.
+ *
+ * @property id - Unique identifier (auto-generated)
+ * @property scheduled_session_id - Session the role belongs to
+ * @property role - Crew role name
+ * @property slots - How many members can hold the role
+ */
+export interface SessionRole {
+	id?: number;
+	scheduled_session_id?: number;
+	role: CrewRole;
+	slots: number;
+}
+
+/**
+ * A member's sign-up for a session, stored as an appointment.
+ *
+ * @property id - Appointment ID
+ * @property user_id - Member who signed up
+ * @property scheduled_session_id - Session signed up for
+ * @property role - Crew role requested (optional when the session has no roles)
+ * @property status - confirmed, waitlisted or cancelled
+ * @property schedule - Copied from the session
+ * @property duration - Length of the appointment
+ * @property created_at - Sign-up time; decides waitlist order
+ */
+export interface Signup {
+	id: number;
+	user_id: number;
+	scheduled_session_id: number | null;
+	role: string | null;
+	status: string;
+	schedule: Date | null;
+	duration: number;
+	created_at: Date;
+}
+
+export interface Result {
+	error?: string | any;
+	data?: Signup[] | null;
+}
+
+export interface RolesResult {
+	error?: string | any;
+	data?: SessionRole[] | null;
+}
+
+export interface CancelResult {
+	error?: string | any;
+	data?: {
+		cancelled: Signup;
+		promoted: Signup | null;
+	} | null;
+}
+
+/**
+ * Checks whether a confirmed seat is free for the given role.
+ *
+ * A seat is free when the session is under capacity (or has no capacity) and, for sessions
+ * with crew roles, the requested role still has an open slot.
+ *
+ * @param capacity - Session capacity, or null for unlimited
+ * @param roles - Crew roles configured for the session (empty if none)
+ * @param confirmed - Currently confirmed sign-ups
+ * @param role - Role being requested
+ * @returns `true` if the sign-up can be confirmed
+ */
+export const hasOpenSeat = (capacity: number | null | undefined, roles: SessionRole[], confirmed: Signup[], role: string | null): boolean => {
+	if (capacity !== null && capacity !== undefined && confirmed.length >= capacity) {
+		return false;
+	}
+
+	if (roles.length === 0) {
+		return true;
+	}
+
+	const sessionRole = roles.find((item) => item.role === role);
+	if (!sessionRole) {
+		return false;
+	}
+
+	return confirmed.filter((signup) => signup.role === role).length < sessionRole.slots;
+};
+
+/**
+ * SQL form of {@link hasOpenSeat}. Confirmed sign-ups are counted when the statement runs, not
+ * from an earlier read, so a concurrent sign-up cannot take the same seat.
+ *
+ * @param sessionId - Scheduled session ID
+ * @param capacity - Session capacity, or null for unlimited
+ * @param roles - Crew roles configured for the session (empty if none)
+ * @param role - Role being requested
+ * @returns Condition that is true if the sign-up can be confirmed
+ */
+const openSeatCondition = (sessionId: number, capacity: number | null | undefined, roles: SessionRole[], role: string | null): SQL => {
+	const confirmedCount = (forRole?: string) =>
+		sql`(select count(*) from ${appointments} where ${appointments.scheduled_session_id} = ${sessionId} and ${appointments.status} = 'confirmed'${
+			forRole ? sql` and ${appointments.role} = ${forRole}` : sql``
+		})`;
+
+	const conditions: SQL[] = [];
+	if (capacity !== null && capacity !== undefined) {
+		conditions.push(sql`${confirmedCount()} < ${capacity}`);
+	}
+
+	if (roles.length > 0) {
+		const sessionRole = roles.find((item) => item.role === role);
+		if (!sessionRole || !role) {
+			return sql`false`;
+		}
+		conditions.push(sql`${confirmedCount(role)} < ${sessionRole.slots}`);
+	}
+
+	return conditions.length > 0 ? and(...conditions)! : sql`true`;
+};
+
+/**
+ * Validates a list of crew roles and their slot counts.
+ *
+ * @param roles - Roles to validate
+ * @returns Error message, or null if valid
+ */
+export const validateSessionRoles = (roles: SessionRole[]): string | null => {
+	if (!Array.isArray(roles)) {
+		return 'roles must be an array';
+	}
+
+	for (const item of roles) {
+		if (!CREW_ROLES.includes(item?.role)) {
+			return `Invalid role. Must be one of: ${CREW_ROLES.join(', ')}`;
+		}
+		if (!Number.isInteger(item.slots) || item.slots < 1) {
+			return `Slots for ${item.role} must be a whole number of at least 1`;
+		}
+	}
+
+	if (new Set(roles.map((item) => item.role)).size !== roles.length) {
+		return 'Each role can only be listed once';
+	}
+
+	return null;
+};
+
+/**
+ * Retrieves the crew roles configured for a session.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - Scheduled session ID (required)
+ * @returns RolesResult containing the session's roles or error
+ */
+export const getSessionRoles = async (db: NeonHttpDatabase<Record<string, never>>, sessionId: number): Promise<RolesResult> => {
+	if (!sessionId)
+		return {
+			error: 'Missing session ID',
+		};
+	try {
+		const results = await db.select().from(sessionRoles).where(eq(sessionRoles.scheduled_session_id, sessionId));
+		return { data: results as SessionRole[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Replaces the crew roles configured for a session.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - Scheduled session ID (required)
+ * @param roles - New roles; an empty array removes all roles
+ * @returns RolesResult containing the new roles or error
+ */
+export const setSessionRoles = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	sessionId: number,
+	roles: SessionRole[]
+): Promise<RolesResult> => {
+	if (!sessionId)
+		return {
+			error: 'Missing session ID',
+		};
+
+	const validationError = validateSessionRoles(roles);
+	if (validationError) {
+		return {
+			error: validationError,
+		};
+	}
+
+	try {
+		await db.delete(sessionRoles).where(eq(sessionRoles.scheduled_session_id, sessionId));
+		if (roles.length === 0) {
+			return { data: [] };
+		}
+		const results = await db
+			.insert(sessionRoles)
+			.values(
+				roles.map((item) => ({
+					scheduled_session_id: sessionId,
+					role: item.role,
+					slots: item.slots,
+				}))
+			)
+			.returning();
+		return { data: results as SessionRole[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Retrieves the active (confirmed and waitlisted) sign-ups for a session in sign-up order.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - Scheduled session ID (required)
+ * @returns Result containing the sign-ups or error
+ */
+export const getSignupsBySessionId = async (db: NeonHttpDatabase<Record<string, never>>, sessionId: number): Promise<Result> => {
+	if (!sessionId)
+		return {
+			error: 'Missing session ID',
+		};
+	try {
+		const results = await db.select().from(appointments).where(eq(appointments.scheduled_session_id, sessionId));
+		const active = (results as Signup[])
+			.filter((signup) => signup.status !== 'cancelled')
+			.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id - b.id);
+		return { data: active };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Signs a member up for a session.
+ *
+ * The sign-up is confirmed if a seat (and role slot) is free, otherwise it joins the waitlist.
+ * Sessions with crew roles require a role from that list; sessions without roles accept any
+ * crew role or none.
+ *
+ * The seat check and insert run in one transaction that first locks the session row, so
+ * concurrent sign-ups are decided one at a time. A member has one sign-up row per session: a
+ * cancelled one is reused, moving them to the back of the waitlist order.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - Scheduled session ID (required)
+ * @param data - user_id (required), role and duration (optional)
+ * @returns Result containing the new sign-up or error
+ */
+export const signUp = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	sessionId: number,
+	data: { user_id: number; role?: string | null; duration?: number }
+): Promise<Result> => {
+	if (!sessionId)
+		return {
+			error: 'Missing session ID',
+		};
+	if (!data || !data.user_id) {
+		return {
+			error: 'Missing required field: user_id',
+		};
+	}
+
+	const role = data.role || null;
+	if (role && !CREW_ROLES.includes(role as CrewRole)) {
+		return {
+			error: `Invalid role. Must be one of: ${CREW_ROLES.join(', ')}`,
+		};
+	}
+
+	try {
+		const sessions = await db.select().from(scheduledSessions).where(eq(scheduledSessions.id, sessionId));
+		if (sessions.length === 0) {
+			return {
+				error: 'Scheduled session not found',
+			};
+		}
+		const session = sessions[0];
+
+		const roles = await getSessionRoles(db, sessionId);
+		if (roles.error) {
+			return {
+				error: roles.error,
+			};
+		}
+		const configuredRoles = roles.data || [];
+		if (configuredRoles.length > 0 && !configuredRoles.some((item) => item.role === role)) {
+			return {
+				error: `This session needs a role. Choose one of: ${configuredRoles.map((item) => item.role).join(', ')}`,
+			};
+		}
+
+		const signups = await getSignupsBySessionId(db, sessionId);
+		if (signups.error) {
+			return {
+				error: signups.error,
+			};
+		}
+		const active = signups.data || [];
+		if (active.some((signup) => signup.user_id === data.user_id)) {
+			return {
+				error: 'You are already signed up for this session',
+			};
+		}
+
+		const status = sql`case when ${openSeatCondition(sessionId, session.capacity, configuredRoles, role)} then 'confirmed' else 'waitlisted' end`;
+
+		const values: any = {
+			schedule: session.schedule,
+			user_id: data.user_id,
+			scheduled_session_id: sessionId,
+			role,
+			status,
+		};
+		if (data.duration) {
+			values.duration = data.duration;
+		}
+
+		const [, results] = await db.batch([
+			db.select({ id: scheduledSessions.id }).from(scheduledSessions).where(eq(scheduledSessions.id, sessionId)).for('update'),
+			db
+				.insert(appointments)
+				.values(values)
+				.onConflictDoUpdate({
+					target: [appointments.scheduled_session_id, appointments.user_id],
+					set: { ...values, created_at: new Date() },
+					setWhere: eq(appointments.status, 'cancelled'),
+				})
+				.returning(),
+		]);
+		if (results.length === 0) {
+			return {
+				error: 'You are already signed up for this session',
+			};
+		}
+
+		return { data: results as Signup[] };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Promotes waitlisted members, oldest sign-up first, into any seats that are free.
+ *
+ * A waitlisted member is skipped (not blocked) if their role has no open slot, so a free
+ * road crew seat is not held up by a dispatcher waiting ahead of them. Each promotion runs
+ * under the session lock and only confirms the member if the seat is still open.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - Scheduled session ID (required)
+ * @returns Result containing the promoted sign-ups (empty if none)
+ */
+export const promoteFromWaitlist = async (db: NeonHttpDatabase<Record<string, never>>, sessionId: number): Promise<Result> => {
+	if (!sessionId)
+		return {
+			error: 'Missing session ID',
+		};
+	try {
+		const sessions = await db.select().from(scheduledSessions).where(eq(scheduledSessions.id, sessionId));
+		if (sessions.length === 0) {
+			return {
+				error: 'Scheduled session not found',
+			};
+		}
+
+		const roles = await getSessionRoles(db, sessionId);
+		const signups = await getSignupsBySessionId(db, sessionId);
+		if (roles.error || signups.error) {
+			return {
+				error: roles.error || signups.error,
+			};
+		}
+
+		const confirmed = (signups.data || []).filter((signup) => signup.status === 'confirmed');
+		const waitlisted = (signups.data || []).filter((signup) => signup.status === 'waitlisted');
+		const promoted: Signup[] = [];
+
+		for (const signup of waitlisted) {
+			if (!hasOpenSeat(sessions[0].capacity, roles.data || [], confirmed, signup.role)) {
+				continue;
+			}
+			// Same session lock as signUp; the seat is checked again when the update runs, so a
+			// promotion racing a sign-up or another cancel changes nothing if the seat is gone
+			const [, results] = await db.batch([
+				db.select({ id: scheduledSessions.id }).from(scheduledSessions).where(eq(scheduledSessions.id, sessionId)).for('update'),
+				db
+					.update(appointments)
+					.set({ status: 'confirmed' })
+					.where(
+						and(
+							eq(appointments.id, signup.id),
+							eq(appointments.status, 'waitlisted'),
+							openSeatCondition(sessionId, sessions[0].capacity, roles.data || [], signup.role)
+						)
+					)
+					.returning(),
+			]);
+			if (results.length > 0) {
+				confirmed.push(results[0] as Signup);
+				promoted.push(results[0] as Signup);
+			}
+		}
+
+		return { data: promoted };
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
+/**
+ * Cancels a sign-up and promotes the next waitlisted member into the freed seat.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param sessionId - Scheduled session ID (required)
+ * @param signupId - Appointment ID of the sign-up (required)
+ * @returns CancelResult with the cancelled sign-up and the promoted one, if any
+ */
+export const cancelSignup = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	sessionId: number,
+	signupId: number
+): Promise<CancelResult> => {
+	if (!sessionId || !signupId)
+		return {
+			error: 'Missing session ID or sign-up ID',
+		};
+	try {
+		const results = await db
+			.update(appointments)
+			.set({ status: 'cancelled' })
+			.where(and(eq(appointments.id, signupId), eq(appointments.scheduled_session_id, sessionId)))
+			.returning();
+		if (results.length === 0) {
+			return {
+				error: 'Sign-up not found',
+			};
+		}
+
+		const promotion = await promoteFromWaitlist(db, sessionId);
+		if (promotion.error) {
+			return {
+				error: promotion.error,
+			};
+		}
+
+		return {
+			data: {
+				cancelled: results[0] as Signup,
+				promoted: promotion.data?.[0] || null,
+			},
+		};
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
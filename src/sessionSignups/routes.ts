@@ -0,0 +1,273 @@
+import { Hono } from 'hono';
+import * as signupsModel from './model';
+import * as scheduledSessionsModel from '../scheduledSessions/model';
+import { dbInitalizer } from '../utils/db';
+import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
+import type { Env } from '../index';
+
+/**
+ * Router for operating-session sign-ups.
+ * Nested under club and session: /api/clubs/:clubId/scheduled-sessions/:sessionId/signups
+ *
+ * Sign-ups are stored as appointments linked to the session. A sign-up is confirmed while the
+ * session has capacity and the requested crew role has a free slot; otherwise it is waitlisted.
+ * Cancelling a confirmed sign-up promotes the next waitlisted member automatically.
+ *
+ * All routes require:
+ * - Authentication (checkAuth middleware)
+ * - User permission and club membership (checkUserPermission middleware)
+ */
+export const sessionSignupsRouter = new Hono<{ Bindings: Env }>();
+
+// Apply auth middleware to all routes
+sessionSignupsRouter.use(checkAuth);
+sessionSignupsRouter.use(checkUserPermission);
+sessionSignupsRouter.use(authorize('appointment', 'read'));
+
+/**
+ * Loads a scheduled session and confirms it belongs to the club in the route.
+ *
+ * @returns The session, or null if it does not exist in this club
+ */
+const getSessionInClub = async (db: ReturnType<typeof dbInitalizer>, sessionId: string, clubId: string) => {
+	const sessionCheck = await scheduledSessionsModel.getScheduledSessionById(db, sessionId);
+	if (sessionCheck.error || !sessionCheck.data || sessionCheck.data.length === 0) {
+		return null;
+	}
+	const session = sessionCheck.data[0];
+	return session.club_id === parseInt(clubId, 10) ? session : null;
+};
+
+/**
+ * GET sign-ups for a session
+ * Route: GET /api/clubs/:clubId/scheduled-sessions/:sessionId/signups
+ *
+ * Success Response (200):
+ * ```json
+ * {
+ *   "capacity": 8,
+ *   "roles": [{ "role": "dispatcher", "slots": 1, "confirmed": 1 }],
+ *   "confirmed": [{ "id": 12, "user_id": 4, "role": "dispatcher", "status": "confirmed", ... }],
+ *   "waitlist": [{ "id": 15, "user_id": 9, "role": "dispatcher", "status": "waitlisted", ... }]
+ * }
+ * ```
+ *
+ * @throws Returns 404 if the session is not in this club
+ */
+sessionSignupsRouter.get('/', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const sessionId = c.req.param('sessionId');
+		const clubId = c.req.param('clubId');
+
+		if (!sessionId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing session ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const session = await getSessionInClub(db, sessionId, clubId);
+		if (!session) {
+			return c.json(
+				{
+					error: 'Scheduled session not found in this club',
+				},
+				404
+			);
+		}
+
+		const roles = await signupsModel.getSessionRoles(db, session.id);
+		const signups = await signupsModel.getSignupsBySessionId(db, session.id);
+		if (roles.error || signups.error) {
+			return c.json(
+				{
+					error: roles.error || signups.error,
+				},
+				400
+			);
+		}
+
+		const confirmed = (signups.data || []).filter((signup) => signup.status === 'confirmed');
+		const waitlist = (signups.data || []).filter((signup) => signup.status === 'waitlisted');
+
+		return c.json({
+			capacity: session.capacity ?? null,
+			roles: (roles.data || []).map((item) => ({
+				role: item.role,
+				slots: item.slots,
+				confirmed: confirmed.filter((signup) => signup.role === item.role).length,
+			})),
+			confirmed,
+			waitlist,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * POST sign up for a session
+ * Route: POST /api/clubs/:clubId/scheduled-sessions/:sessionId/signups
+ *
+ * Request Body:
+ * ```json
+ * {
+ *   "role": "road_crew",
+ *   "duration": 3
+ * }
+ * ```
+ *
+ * @remarks
+ * - user_id is taken from the authenticated user
+ * - role is required when the session has crew roles configured
+ * - Returns status 'confirmed' or 'waitlisted'
+ *
+ * @throws Returns 400 if the role is invalid or the member is already signed up, 404 if session not in this club
+ */
+sessionSignupsRouter.post('/', authorize('appointment', 'write'), async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const sessionId = c.req.param('sessionId');
+		const clubId = c.req.param('clubId');
+		const data = await c.req.json();
+		const userId = c.var.userId;
+
+		if (!sessionId || !clubId) {
+			return c.json(
+				{
+					error: 'Missing session ID or club ID in route',
+				},
+				400
+			);
+		}
+
+		const session = await getSessionInClub(db, sessionId, clubId);
+		if (!session) {
+			return c.json(
+				{
+					error: 'Scheduled session not found in this club',
+				},
+				404
+			);
+		}
+
+		const result = await signupsModel.signUp(db, session.id, {
+			user_id: typeof userId === 'string' ? parseInt(userId, 10) : userId,
+			role: data.role || null,
+			duration: data.duration ? parseInt(data.duration, 10) : undefined,
+		});
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json(
+			{
+				created: true,
+				id: result.data?.[0]?.id,
+				status: result.data?.[0]?.status,
+				signup: result.data?.[0],
+			},
+			201
+		);
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
+
+/**
+ * DELETE cancel a sign-up
+ * Route: DELETE /api/clubs/:clubId/scheduled-sessions/:sessionId/signups/:signupId
+ *
+ * Members may cancel their own sign-up; members with manage_sessions may cancel anyone's. If the cancelled sign-up
+ * held a seat, the next eligible waitlisted member is promoted and returned as `promoted`.
+ *
+ * @throws Returns 403 if cancelling someone else's sign-up, 404 if not found
+ */
+sessionSignupsRouter.delete('/:signupId', async (c) => {
+	const db = dbInitalizer({ c });
+	try {
+		const sessionId = c.req.param('sessionId');
+		const clubId = c.req.param('clubId');
+		const signupId = c.req.param('signupId');
+
+		if (!sessionId || !clubId || !signupId) {
+			return c.json(
+				{
+					error: 'Missing session ID, club ID or sign-up ID in route',
+				},
+				400
+			);
+		}
+
+		const session = await getSessionInClub(db, sessionId, clubId);
+		if (!session) {
+			return c.json(
+				{
+					error: 'Scheduled session not found in this club',
+				},
+				404
+			);
+		}
+
+		const signups = await signupsModel.getSignupsBySessionId(db, session.id);
+		const signup = (signups.data || []).find((item) => item.id === parseInt(signupId, 10));
+		if (!signup) {
+			return c.json(
+				{
+					error: 'Sign-up not found',
+				},
+				404
+			);
+		}
+
+		if (!isAllowed(c, 'write', 'appointment', signup)) {
+			return c.json(
+				{
+					error: 'Unauthorized: You can only cancel your own sign-up',
+				},
+				403
+			);
+		}
+
+		const result = await signupsModel.cancelSignup(db, session.id, signup.id);
+		if (result.error) {
+			return c.json(
+				{
+					error: result.error,
+				},
+				400
+			);
+		}
+
+		return c.json({
+			cancelled: true,
+			promoted: result.data?.promoted || null,
+		});
+	} catch (error) {
+		return c.json(
+			{
+				error: error instanceof Error ? error.message : String(error),
+			},
+			400
+		);
+	}
+});
@@ -1,7 +1,7 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
 import { eq, and, inArray, gte, lt } from 'drizzle-orm';
 
-import { towerReports, towers } from '../db/schema';
+import { towerReports, towers, comments } from '../db/schema';
 
 /**
  * Represents a tower report in the system.
@@ -550,7 +550,7 @@ export const updateTowerReport = async (
  * - This is a hard delete - the report is permanently removed from the database
  * - Returns the deleted report data in the result array
  * - For protected deletions that validate tower ownership, validate with `getTowerReportByIdAndTowerId` first
- * - No cascade rules are defined, so this operation will fail if foreign key constraints exist elsewhere
+ * - The report's comments are deleted with it
  * - Consider implementing soft deletes or archival if you need to maintain historical data
  *
  * @throws Returns error in result object if id is missing, report doesn't exist, or database deletion fails
@@ -565,6 +565,8 @@ export const deleteTowerReport = async (
 		};
 
 	try {
+		await db.delete(comments).where(eq(comments.tower_report_id, parseInt(id, 10)));
+
 		const results = await db
 			.delete(towerReports)
 			.where(eq(towerReports.id, parseInt(id, 10)))
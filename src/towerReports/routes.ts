@@ -1,7 +1,10 @@
 import { Hono } from 'hono';
 import * as towerReportsModel from './model';
+import * as commentsModel from '../comments/model';
+import * as towersModel from '../towers/model';
 import { dbInitalizer } from '../utils/db';
 import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
 import type { Env } from '../index';
 
 /**
@@ -11,12 +14,35 @@ import type { Env } from '../index';
  * All routes require:
  * - Authentication (checkAuth middleware)
  * - User permission and club membership (checkUserPermission middleware)
+ * - A tower that belongs to the club in the route
+ *
+ * Filing reports requires file_reports. Members edit and delete their own reports; triage_issues
+ * allows changing anyone's (see utils/policy).
  */
 export const towerReportsRouter = new Hono<{ Bindings: Env }>();
 
 // Apply auth middleware to all routes
 towerReportsRouter.use(checkAuth);
 towerReportsRouter.use(checkUserPermission);
+towerReportsRouter.use(authorize('towerReport', 'read'));
+
+// Reports are only reachable through their own club's towers
+towerReportsRouter.use(async (c, next) => {
+	const db = dbInitalizer({ c });
+	const towerId = c.req.param('towerId');
+	const clubId = c.req.param('clubId');
+	const towerCheck = await towersModel.getTowerByIdAndClubId(db, Number(towerId), Number(clubId));
+	if (towerCheck.error || !towerCheck.data || towerCheck.data.length === 0) {
+		return c.json(
+			{
+				error: 'Tower not found in this club',
+			},
+			404
+		);
+	}
+
+	return next();
+});
 
 /**
  * GET all tower reports for a tower
@@ -24,6 +50,7 @@ towerReportsRouter.use(checkUserPermission);
  *
  * Retrieves all reports associated with a specific tower.
  * Returns a complete list of all reports without any filtering or pagination.
+ * Each report includes `comment_count`, the number of comments in its thread.
  *
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
@@ -44,7 +71,8 @@ towerReportsRouter.use(checkUserPermission);
  *       "description": "Annual bell inspection completed",
  *       "report_at": "2024-11-09T10:00:00Z",
  *       "created_at": "2024-11-09T10:00:00Z",
- *       "updated_at": "2024-11-09T10:00:00Z"
+ *       "updated_at": "2024-11-09T10:00:00Z",
+ *       "comment_count": 2
  *     }
  *   ]
  * }
@@ -93,8 +121,20 @@ towerReportsRouter.get('/', async (c) => {
 				400
 			);
 		}
+
+		const rows = result.data || [];
+		const counts = await commentsModel.getCommentCounts(db, 'tower_report', rows.map((report) => report.id as number));
+		if (counts.error) {
+			return c.json(
+				{
+					error: counts.error,
+				},
+				400
+			);
+		}
+
 		return c.json({
-			result: result.data,
+			result: rows.map((report) => ({ ...report, comment_count: counts.data?.[report.id as number] || 0 })),
 		});
 	} catch (error) {
 		return c.json(
@@ -290,7 +330,7 @@ towerReportsRouter.get('/:id', async (c) => {
  *
  * @throws Returns 400 if required fields missing or database insertion fails
  */
-towerReportsRouter.post('/', async (c) => {
+towerReportsRouter.post('/', authorize('towerReport', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const towerId = c.req.param('towerId');
@@ -353,7 +393,7 @@ towerReportsRouter.post('/', async (c) => {
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
  * - User must be authenticated in database (checkUserPermission middleware)
- * - User must be admin/super-admin, OR belong to the specified club
+ * - User must have filed the report, or hold triage_issues
  *
  * @param c - Hono context object with route params: id, towerId, clubId
  * @returns JSON response with updated flag and report object, or error object with 400/404 status
@@ -452,6 +492,15 @@ towerReportsRouter.put('/:id', async (c) => {
 			);
 		}
 
+		if (!isAllowed(c, 'write', 'towerReport', reportCheck.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to towerReport',
+				},
+				403
+			);
+		}
+
 		// Preserve tower_id and user_id from existing report
 		const existingReport = reportCheck.data[0];
 		const reportData = {
@@ -496,10 +545,10 @@ towerReportsRouter.put('/:id', async (c) => {
  * Authentication & Authorization:
  * - Requires valid Clerk JWT token (checkAuth middleware)
  * - User must be authenticated in database (checkUserPermission middleware)
- * - User must be admin/super-admin, OR belong to the specified club
+ * - User must have filed the report, or hold triage_issues
  *
  * @param c - Hono context object with route params: id, towerId, clubId
- * @returns JSON response with deleted flag, or error object with 400/404 status
+ * @returns JSON response with deleted flag, or error object with 400/403/404 status
  *
  * Success Response (200):
  * ```json
@@ -577,6 +626,15 @@ towerReportsRouter.delete('/:id', async (c) => {
 			);
 		}
 
+		if (!isAllowed(c, 'write', 'towerReport', reportCheck.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to towerReport',
+				},
+				403
+			);
+		}
+
 		const result = await towerReportsModel.deleteTowerReport(db, id);
 		if (result.error) {
 			return c.json(
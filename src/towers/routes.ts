@@ -2,14 +2,16 @@ import { Hono } from 'hono';
 import * as towersModel from './model';
 import { dbInitalizer } from '../utils/db';
 import { checkAuth, checkUserPermission } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
 import { towers } from '../db/schema';
 import type { Env } from '../index';
 
 export const towersRouter = new Hono<{ Bindings: Env }>();
 
-// Apply auth middleware to all routes
+// Apply auth middleware to all routes; members read towers, owners and manage_towers change them
 towersRouter.use(checkAuth);
 towersRouter.use(checkUserPermission);
+towersRouter.use(authorize('tower', 'read'));
 
 // GET all towers for a club
 towersRouter.get('/', async (c) => {
@@ -106,7 +108,7 @@ towersRouter.get('/:id', async (c) => {
 });
 
 // POST create tower in a club
-towersRouter.post('/', async (c) => {
+towersRouter.post('/', authorize('tower', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	try {
 		const clubId = c.req.param('clubId');
@@ -193,6 +195,15 @@ towersRouter.put('/:id', async (c) => {
 			);
 		}
 
+		if (!isAllowed(c, 'write', 'tower', towerCheck.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to tower',
+				},
+				403
+			);
+		}
+
 		// Preserve existing values and update with provided data
 		const existingTower = towerCheck.data[0];
 		const towerData: towersModel.Tower = {
@@ -262,6 +273,15 @@ towersRouter.delete('/:id', async (c) => {
 			);
 		}
 
+		if (!isAllowed(c, 'write', 'tower', towerCheck.data[0])) {
+			return c.json(
+				{
+					error: 'Unauthorized: No write access to tower',
+				},
+				403
+			);
+		}
+
 		const result = await towersModel.deleteTower(db, id);
 		if (result.error) {
 			return c.json(
@@ -25,6 +25,25 @@ export interface Permission {
 export interface Club {
 	id: number;
 	name: string;
+	timezone?: string;
+	hero_attachment_id?: number | null;
+}
+
+// Attachments
+export interface Attachment {
+	id: number;
+	club_id: number;
+	user_id: number;
+	issue_id?: number | null;
+	tower_report_id?: number | null;
+	filename: string;
+	content_type: string;
+	size: number;
+	width?: number | null;
+	height?: number | null;
+	url: string;
+	url_expires_at: string;
+	created_at: Date | string;
 }
 
 // Addresses
@@ -37,12 +56,35 @@ export interface Address {
 	club_id: number;
 }
 
+// Address Reservations
+export interface AddressReservation {
+	id: number;
+	club_id: number;
+	start_number: number;
+	end_number: number;
+	kind: 'reserved' | 'allocation';
+	user_id?: number | null;
+	description?: string | null;
+	created_at: Date | string;
+}
+
 // Consists
+export interface ConsistUnit {
+	id: number;
+	consist_id: number;
+	address_id: number;
+	position: number;
+	direction: 'forward' | 'reversed';
+	role: 'lead' | 'trailing';
+}
+
 export interface Consist {
 	id: number;
 	number: number;
 	in_use: boolean;
 	user_id: number;
+	club_id?: number | null;
+	units?: ConsistUnit[];
 }
 
 // Appointments
@@ -52,6 +94,9 @@ export interface Appointment {
 	duration: number;
 	user_id: number;
 	scheduled_session_id?: number | null;
+	role?: 'dispatcher' | 'yardmaster' | 'road_crew' | 'tower_operator' | null;
+	status?: 'confirmed' | 'waitlisted' | 'cancelled';
+	created_at?: Date | string;
 }
 
 // Scheduled Sessions
@@ -60,6 +105,27 @@ export interface ScheduledSession {
 	schedule: Date | string;
 	club_id: number;
 	description?: string;
+	capacity?: number | null;
+	series_id?: number | null;
+	occurrence_date?: Date | string | null;
+}
+
+export interface SessionSeries {
+	id: number;
+	club_id: number;
+	rrule: string;
+	dtstart: Date | string;
+	description?: string | null;
+	capacity?: number | null;
+	created_at: Date | string;
+	updated_at: Date | string;
+}
+
+export interface SessionRole {
+	id: number;
+	scheduled_session_id: number;
+	role: 'dispatcher' | 'yardmaster' | 'road_crew' | 'tower_operator';
+	slots: number;
 }
 
 // Towers
@@ -91,12 +157,27 @@ export interface Issue {
 	user_id: number;
 	title: string;
 	type: string;
-	status: string;
+	status: IssueStatus;
 	description?: string;
+	assignee_id?: number | null;
 	created_at: Date | string;
 	updated_at: Date | string;
 }
 
+export type IssueStatus = 'open' | 'triaged' | 'in_progress' | 'blocked' | 'resolved' | 'closed';
+
+export interface IssueHistoryEntry {
+	id: number;
+	issue_id: number;
+	user_id: number;
+	from_status: IssueStatus | null;
+	to_status: IssueStatus;
+	note?: string | null;
+	first_name?: string | null;
+	last_name?: string | null;
+	created_at: Date | string;
+}
+
 // Email Queue
 export interface EmailQueueItem {
 	id: number;
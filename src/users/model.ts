@@ -1,6 +1,7 @@
 import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
-import { users, usersToClubs, clubs } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { users, usersToClubs, clubs, permissions, calendarTokens } from '../db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { emitClubEvent } from '../clubWebhooks/events';
 
 export interface User {
 	id: number;
@@ -8,6 +9,7 @@ export interface User {
 	first_name?: string;
 	last_name?: string;
 	permission: number;
+	deleted_at?: Date | null;
 }
 
 export interface Result {
@@ -102,17 +104,29 @@ export const updateUser = async (db: NeonHttpDatabase<Record<string, never>>, id
 	}
 };
 
-export const deleteUser = async (token: string, data: User): Promise<Result> => {
-	if (!token)
+/**
+ * Deletes an account from Clerk. Clerk then sends a `user.deleted` webhook, which soft-deletes
+ * the local user (see softDeleteUser).
+ *
+ * @param clerkSecretKey - Clerk secret key (CLERK_PRIVATE_KEY)
+ * @param clerkUserId - The user's Clerk ID, stored as users.token
+ */
+export const deleteUser = async (clerkSecretKey: string, clerkUserId: string): Promise<Result> => {
+	if (!clerkSecretKey)
 		return {
 			error: 'Missing Token',
 		};
 
+	if (!clerkUserId)
+		return {
+			error: 'Missing Clerk user ID',
+		};
+
 	try {
-		const response = await fetch(`https://api.clerk.com/v1/users/${data.id}`, {
+		const response = await fetch(`https://api.clerk.com/v1/users/${clerkUserId}`, {
 			method: 'DELETE',
 			headers: {
-				Authorization: `Bearer ${token}`,
+				Authorization: `Bearer ${clerkSecretKey}`,
 				'Content-Type': 'application/json',
 			},
 		});
@@ -132,6 +146,151 @@ export const deleteUser = async (token: string, data: User): Promise<Result> =>
 	}
 };
 
+/**
+ * Profile fields Clerk sends in `user.created` and `user.updated` webhooks
+ */
+export interface ClerkUserProfile {
+	token: string;
+	first_name?: string | null;
+	last_name?: string | null;
+	email?: string | null;
+}
+
+/**
+ * Creates the local user for a Clerk account, or updates the names and email of an existing one.
+ * Users added by an admin before their first sign-in already have a row, so `user.created` can
+ * arrive for a token that exists. Soft-deleted users are left alone.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param profile - Clerk ID and profile fields
+ * @param permission - Permission for a newly created user; existing users keep theirs
+ * @returns Result object containing the created or updated user, or error message
+ */
+export const syncClerkUser = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	profile: ClerkUserProfile,
+	permission?: number | null
+): Promise<Result> => {
+	if (!profile?.token) {
+		return {
+			error: 'Missing Token',
+		};
+	}
+
+	try {
+		const existing = await db.select().from(users).where(eq(users.token, profile.token)).limit(1);
+		if (existing.length > 0) {
+			if (existing[0].deleted_at) {
+				return { data: [] };
+			}
+
+			const results = await db
+				.update(users)
+				.set({
+					first_name: profile.first_name ?? null,
+					last_name: profile.last_name ?? null,
+					email: profile.email ?? null,
+				})
+				.where(eq(users.id, existing[0].id))
+				.returning();
+			return { data: results as User[] };
+		}
+
+		const results = await db
+			.insert(users)
+			.values({
+				token: profile.token,
+				first_name: profile.first_name ?? null,
+				last_name: profile.last_name ?? null,
+				email: profile.email ?? null,
+				permission: permission ?? null,
+			})
+			.returning();
+		return { data: results as User[] };
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+};
+
+/**
+ * Soft-deletes the user for a deleted Clerk account. The row is kept so the member's tower
+ * reports, issues and comments still resolve their author, but their club memberships, email
+ * and calendar feed token are removed so they drop out of clubs, mailings and feeds.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clerkUserId - The user's Clerk ID, stored as users.token
+ * @param now - Deletion time; injectable for tests
+ * @returns Result object containing the deleted user (empty if unknown or already deleted), or error message
+ */
+export const softDeleteUser = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clerkUserId: string,
+	now: Date = new Date()
+): Promise<Result> => {
+	if (!clerkUserId) {
+		return {
+			error: 'Missing Token',
+		};
+	}
+
+	try {
+		const results = await db
+			.update(users)
+			.set({
+				deleted_at: now,
+				email: null,
+			})
+			.where(and(eq(users.token, clerkUserId), isNull(users.deleted_at)))
+			.returning();
+
+		if (results.length > 0) {
+			await db.delete(usersToClubs).where(eq(usersToClubs.user_id, results[0].id));
+			await db.delete(calendarTokens).where(eq(calendarTokens.user_id, results[0].id));
+		}
+
+		return { data: results as User[] };
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+};
+
+/**
+ * Records when a user last signed in, from Clerk's `session.created` webhook
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clerkUserId - The user's Clerk ID, stored as users.token
+ * @param signedInAt - When the session started
+ * @returns Result object containing the updated user (empty if unknown), or error message
+ */
+export const recordSignIn = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	clerkUserId: string,
+	signedInAt: Date
+): Promise<Result> => {
+	if (!clerkUserId) {
+		return {
+			error: 'Missing Token',
+		};
+	}
+
+	try {
+		const results = await db
+			.update(users)
+			.set({ last_sign_in_at: signedInAt })
+			.where(and(eq(users.token, clerkUserId), isNull(users.deleted_at)))
+			.returning();
+		return { data: results as User[] };
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+};
+
 export const getUserWithClubs = async (
 	db: NeonHttpDatabase<Record<string, never>>,
 	userId: number
@@ -185,6 +344,25 @@ export const getAllUsersWithClubs = async (
 	}
 };
 
+/**
+ * Checks that a permission can be given as a club role. super-admin is the only platform-wide
+ * role and stays on users.permission; every other role is held per club on users_to_clubs.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param rolePermission - Permission ID of the role
+ * @returns An error message, or null if the role can be assigned
+ */
+export const validateClubRole = async (db: NeonHttpDatabase<Record<string, never>>, rolePermission: number): Promise<string | null> => {
+	const role = await db.select().from(permissions).where(eq(permissions.id, rolePermission)).limit(1);
+	if (role.length === 0) {
+		return 'Permission not found';
+	}
+	if (role[0].title === 'super-admin') {
+		return 'super-admin is a platform role and cannot be assigned in a club';
+	}
+	return null;
+};
+
 export const assignClubToUser = async (
 	db: NeonHttpDatabase<Record<string, never>>,
 	userId: string,
@@ -222,25 +400,29 @@ export const assignClubToUser = async (
 			};
 		}
 
-		// If rolePermission is provided, update user's permission (replaces any existing role)
 		if (rolePermission) {
-			await db
-				.update(users)
-				.set({
-					permission: rolePermission,
-				})
-				.where(eq(users.id, parsedUserId));
+			const roleError = await validateClubRole(db, rolePermission);
+			if (roleError) {
+				return {
+					error: roleError,
+				};
+			}
 		}
 
-		// Try to insert the assignment
-		const results = await db
-			.insert(usersToClubs)
-			.values({
-				user_id: parsedUserId,
-				club_id: clubId,
-			})
-			.onConflictDoNothing()
-			.returning();
+		// Insert the assignment; a given role replaces the member's existing role in this club
+		const insert = db.insert(usersToClubs).values({
+			user_id: parsedUserId,
+			club_id: clubId,
+			role_permission: rolePermission || null,
+		});
+		const results = rolePermission
+			? await insert
+					.onConflictDoUpdate({
+						target: [usersToClubs.user_id, usersToClubs.club_id],
+						set: { role_permission: rolePermission },
+					})
+					.returning()
+			: await insert.onConflictDoNothing().returning();
 
 		// If no rows returned, the assignment already existed
 		if (results.length === 0) {
@@ -262,6 +444,91 @@ export const assignClubToUser = async (
 	}
 };
 
+/**
+ * Looks up a user's membership of a club.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param userId - Database user ID
+ * @param clubId - Club ID
+ * @returns Result object containing the membership, or null if the user is not in the club
+ */
+export const getClubMembership = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	userId: number,
+	clubId: number
+): Promise<{ error?: string; data?: typeof usersToClubs.$inferSelect | null }> => {
+	try {
+		const results = await db
+			.select()
+			.from(usersToClubs)
+			.where(and(eq(usersToClubs.user_id, userId), eq(usersToClubs.club_id, clubId)))
+			.limit(1);
+		return { data: results[0] || null };
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+};
+
+/**
+ * How a member came to join a club, as reported by `member.joined`: with an invite, added by
+ * someone who manages the club, or by joining the club's Clerk organization
+ */
+export type MemberJoinedVia = 'invite' | 'added' | 'organization';
+
+/**
+ * Adds a user to a club and tells the club's webhooks.
+ *
+ * Every path that adds club members goes through here, so `member.joined` is raised once per
+ * new member. A user who is already in the club only has their role replaced (when one is
+ * given) and raises no event.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param userId - Database user ID
+ * @param clubId - Club ID
+ * @param via - How the member joined
+ * @param rolePermission - Permission ID of the member's role in the club
+ * @returns Result object containing the membership, or error message
+ */
+export const addClubMember = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	userId: number,
+	clubId: number,
+	via: MemberJoinedVia,
+	rolePermission?: number
+): Promise<Result> => {
+	try {
+		const existing = await db
+			.select({ first_name: users.first_name, last_name: users.last_name, club_id: usersToClubs.club_id })
+			.from(users)
+			.leftJoin(usersToClubs, and(eq(usersToClubs.user_id, users.id), eq(usersToClubs.club_id, clubId)))
+			.where(eq(users.id, userId))
+			.limit(1);
+
+		const assignment = await assignClubToUser(db, String(userId), clubId, rolePermission);
+		if (assignment.error || existing[0]?.club_id) {
+			return assignment;
+		}
+
+		// A webhook problem should not fail the change
+		const emitted = await emitClubEvent(db, clubId, 'member.joined', {
+			user: { id: userId, first_name: existing[0].first_name, last_name: existing[0].last_name },
+			via,
+			role_permission: rolePermission || null,
+		});
+		if (emitted.error) {
+			console.error('Failed to queue member.joined webhooks:', emitted.error);
+		}
+
+		return assignment;
+	} catch (error) {
+		return {
+			error,
+		};
+	}
+};
+
 export const removeClubFromUser = async (
 	db: NeonHttpDatabase<Record<string, never>>,
 	userId: string,
@@ -317,3 +584,54 @@ export const removeClubFromUser = async (
 		};
 	}
 };
+
+/**
+ * Changes a member's role in one club. Their roles in other clubs are unaffected.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param userId - Database user ID
+ * @param clubId - Club ID
+ * @param rolePermission - Permission ID of the new role, or null to make them a plain member
+ * @returns Result object containing the updated membership, or error message
+ */
+export const setClubRole = async (
+	db: NeonHttpDatabase<Record<string, never>>,
+	userId: number,
+	clubId: number,
+	rolePermission: number | null
+): Promise<{ error?: string; data?: (typeof usersToClubs.$inferSelect)[] }> => {
+	if (!userId || !clubId) {
+		return {
+			error: 'Missing user ID or club ID',
+		};
+	}
+
+	try {
+		if (rolePermission) {
+			const roleError = await validateClubRole(db, rolePermission);
+			if (roleError) {
+				return {
+					error: roleError,
+				};
+			}
+		}
+
+		const results = await db
+			.update(usersToClubs)
+			.set({ role_permission: rolePermission })
+			.where(and(eq(usersToClubs.user_id, userId), eq(usersToClubs.club_id, clubId)))
+			.returning();
+
+		if (results.length === 0) {
+			return {
+				error: 'User is not a member of this club',
+			};
+		}
+
+		return { data: results };
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+};
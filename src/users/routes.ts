@@ -1,7 +1,9 @@
 import { Hono } from 'hono';
 import * as usersModel from './model';
+import * as clubRolesModel from '../clubRoles/model';
 import { dbInitalizer } from '../utils/db';
-import { checkAuth, checkUserPermission } from '../utils/auth';
+import { checkAuth, checkInvitedUser, checkUserPermission } from '../utils/auth';
+import { authorize, isAllowed } from '../utils/policy';
 import { users, usersToClubs, clubs } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { createClerkClient } from '@clerk/backend';
@@ -139,12 +141,12 @@ usersRouter.get('/:id', checkAuth, checkUserPermission, async (c) => {
 /**
  * PUT /api/users/:id
  * @description Updates a user's basic information (name, permission) without modifying club assignments
- * @requires Authentication and User Permission
+ * @requires Authentication; users update their own profile, super-admins anyone's
  * @param {number} id - User ID
  * @body {Object} data - User data to update
  * @body {string} [first_name] - User's first name
  * @body {string} [last_name] - User's last name
- * @body {number} [permission] - User's permission level
+ * @body {number} [permission] - User's platform-wide permission (super-admins only; club roles are set per club)
  * @returns {Object} updated - Boolean indicating success, user - Updated user object
  *
  * @example
@@ -184,6 +186,14 @@ usersRouter.put('/:id', checkAuth, checkUserPermission, async (c) => {
 				404
 			);
 		}
+		if (!isAllowed(c, 'write', 'profile', { user_id: userResult[0].id })) {
+			return c.json(
+				{
+					error: 'Unauthorized: You can only update your own profile',
+				},
+				403
+			);
+		}
 
 		// Update user with only the fields provided - do not touch token or other fields
 		// Support both camelCase and snake_case field names
@@ -200,6 +210,15 @@ usersRouter.put('/:id', checkAuth, checkUserPermission, async (c) => {
 			updateData.last_name = lastName;
 		}
 		if (permission !== undefined) {
+			// users.permission is the platform-wide role; club roles are changed per club
+			if (!c.var.isSuperAdmin) {
+				return c.json(
+					{
+						error: 'Unauthorized: Only super-admins can change a platform permission',
+					},
+					403
+				);
+			}
 			updateData.permission = permission;
 		}
 
@@ -335,9 +354,10 @@ usersRouter.post('/register', checkAuth, async (c) => {
  */
 export const clubUsersRouter = new Hono<{ Bindings: Env }>();
 clubUsersRouter.use(checkAuth);
-clubUsersRouter.use(checkUserPermission);
+// Accepting an invite is how users join, so /join checks the invite instead of membership
+clubUsersRouter.use((c, next) => (c.req.method === 'POST' && c.req.path.endsWith('/join') ? checkInvitedUser(c, next) : checkUserPermission(c, next)));
 
-clubUsersRouter.get('/', async (c) => {
+clubUsersRouter.get('/', authorize('member', 'read'), async (c) => {
 	const db = dbInitalizer({ c });
 	const clubId = c.req.param('clubId');
 	try {
@@ -376,19 +396,20 @@ clubUsersRouter.get('/', async (c) => {
 /**
  * POST /api/clubs/:clubId/users
  * @description Creates a new user and assigns them to a club
- * @requires Authentication and User Permission
+ * @requires Authentication and the manage_club capability
  * @param {number} clubId - Club ID
- * @body {Object} userData - User data including first_name, last_name (optional), permission, token
+ * @body {Object} userData - User data including first_name, last_name (optional), permission (their role in this club), token
  * @returns {Object} created, id, assigned_to_club, club_id
  */
-clubUsersRouter.post('/', async (c) => {
+clubUsersRouter.post('/', authorize('member', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	const clubId = c.req.param('clubId');
 	const formattedData = await c.req.json();
+	const rolePermission = formattedData.permission ? parseInt(formattedData.permission, 10) : undefined;
 
 	try {
-		// Create new user
-		const newUser = await usersModel.createUser(db, formattedData as usersModel.User);
+		// Create new user; their role belongs to this club, not the whole platform
+		const newUser = await usersModel.createUser(db, { ...formattedData, permission: null } as usersModel.User);
 
 		if (newUser.error) {
 			return c.json(
@@ -402,7 +423,7 @@ clubUsersRouter.post('/', async (c) => {
 		const userId = newUser.data[0].id;
 
 		// Automatically assign the user to the club
-		const clubAssignment = await usersModel.assignClubToUser(db, userId.toString(), clubId, formattedData.permission || 'member');
+		const clubAssignment = await usersModel.addClubMember(db, userId, Number(clubId), 'added', rolePermission);
 
 		if (clubAssignment.error) {
 			return c.json(
@@ -434,22 +455,46 @@ clubUsersRouter.post('/', async (c) => {
 
 /**
  * PUT /api/clubs/:clubId/users/:userId
- * @description Updates a user's role/permission within a club
- * @requires Authentication and User Permission
+ * @description Updates a user's built-in role and/or custom role within a club. Their roles in other clubs are unaffected
+ * @requires Authentication and the manage_club capability
  * @param {number} clubId - Club ID
  * @param {number} userId - User ID
- * @body {Object} data - Update data including permission
- * @returns {Object} updated, user_id, club_id, permission
+ * @body {Object} data - permission (null makes them a plain member) and/or club_role_id (one of the club's custom roles, or null)
+ * @returns {Object} updated, user_id, club_id, permission, club_role_id
  */
-clubUsersRouter.put('/:userId', async (c) => {
+clubUsersRouter.put('/:userId', authorize('member', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	const clubId = c.req.param('clubId');
 	const userId = c.req.param('userId');
 	const data = await c.req.json();
 
+	if (data.permission === undefined && data.club_role_id === undefined) {
+		return c.json(
+			{
+				error: 'Missing required field: permission or club_role_id',
+			},
+			400
+		);
+	}
+
 	try {
-		// Update user's role/permission within the club
-		const clubAssignment = await usersModel.assignClubToUser(db, userId, clubId, data.permission);
+		const memberId = Number(userId);
+		const club = Number(clubId);
+		let clubAssignment: { error?: string; data?: unknown } = {};
+
+		// Update user's built-in role within the club
+		let permission: number | null | undefined;
+		if (data.permission !== undefined) {
+			permission = data.permission === null ? null : parseInt(data.permission, 10);
+			clubAssignment = await usersModel.setClubRole(db, memberId, club, permission);
+		}
+
+		// Update user's custom role within the club
+		let clubRoleId: number | null | undefined;
+		if (!clubAssignment.error && data.club_role_id !== undefined) {
+			clubRoleId = data.club_role_id === null ? null : parseInt(data.club_role_id, 10);
+			clubAssignment = await clubRolesModel.setMemberClubRole(db, memberId, club, clubRoleId);
+		}
 
 		if (clubAssignment.error) {
 			return c.json(
@@ -463,9 +508,10 @@ clubUsersRouter.put('/:userId', async (c) => {
 		return c.json(
 			{
 				updated: true,
-				user_id: parseInt(userId, 10),
-				club_id: parseInt(clubId, 10),
-				permission: data.permission,
+				user_id: memberId,
+				club_id: club,
+				permission,
+				club_role_id: clubRoleId,
 				data: clubAssignment.data,
 			},
 			200
@@ -480,21 +526,63 @@ clubUsersRouter.put('/:userId', async (c) => {
 	}
 });
 
+/**
+ * Resolves `:userId` to a member of `:clubId`, so club routes cannot reach users outside the club.
+ *
+ * @returns A 404 response if the user is not in the club, otherwise null
+ */
+const requireClubMember = async (c: any, db: ReturnType<typeof dbInitalizer>, clubId?: string, userId?: string) => {
+	const membership = await usersModel.getClubMembership(db, Number(userId), Number(clubId));
+	if (membership.error) {
+		return c.json(
+			{
+				error: membership.error,
+			},
+			400
+		);
+	}
+	if (!membership.data) {
+		return c.json(
+			{
+				error: 'User not found in this club',
+			},
+			404
+		);
+	}
+	return null;
+};
+
 /**
  * DELETE /api/clubs/:clubId/users/:userId
  * @description Deletes a user from Clerk (removes entire user account)
- * @requires Authentication and User Permission
+ * @requires Authentication and the manage_club capability; the user must be a member of the club
  * @param {number} clubId - Club ID
  * @param {number} userId - User ID
  * @returns {Object} deleted, user_id, club_id
  */
-clubUsersRouter.delete('/:userId', async (c) => {
+clubUsersRouter.delete('/:userId', authorize('member', 'write'), async (c) => {
 	const { CLERK_PRIVATE_KEY } = env<{ CLERK_PRIVATE_KEY: string }>(c, 'workerd');
 	const clubId = c.req.param('clubId');
 	const userId = c.req.param('userId');
 
-	const data = await c.req.json();
-	const deletedUser = await usersModel.deleteUser(CLERK_PRIVATE_KEY, data as usersModel.User);
+	const db = dbInitalizer({ c });
+	const notMember = await requireClubMember(c, db, clubId, userId);
+	if (notMember) {
+		return notMember;
+	}
+
+	const userResult = await db.select().from(users).where(eq(users.id, parseInt(userId, 10))).limit(1);
+	if (userResult.length === 0) {
+		return c.json(
+			{
+				error: 'User not found',
+			},
+			404
+		);
+	}
+
+	// The local row is soft-deleted when Clerk's user.deleted webhook arrives
+	const deletedUser = await usersModel.deleteUser(CLERK_PRIVATE_KEY, userResult[0].token);
 
 	if (deletedUser.error) {
 		return c.json(
@@ -517,16 +605,21 @@ clubUsersRouter.delete('/:userId', async (c) => {
 /**
  * DELETE /api/clubs/:clubId/users/:userId/club
  * @description Removes a user from a club without deleting their account
- * @requires Authentication and User Permission
+ * @requires Authentication and the manage_club capability; the user must be a member of the club
  * @param {number} clubId - Club ID
  * @param {number} userId - User ID
  * @returns {Object} removed, user_id, club_id
  */
-clubUsersRouter.delete('/:userId/club', async (c) => {
+clubUsersRouter.delete('/:userId/club', authorize('member', 'write'), async (c) => {
 	const db = dbInitalizer({ c });
 	const clubId = c.req.param('clubId');
 	const userId = c.req.param('userId');
 
+	const notMember = await requireClubMember(c, db, clubId, userId);
+	if (notMember) {
+		return notMember;
+	}
+
 	const result = await usersModel.removeClubFromUser(db, userId, clubId);
 
 	if (result.error) {
@@ -551,10 +644,10 @@ clubUsersRouter.delete('/:userId/club', async (c) => {
 /**
  * POST /api/clubs/:clubId/join
  * @description Joins an existing user to a club using an invite token
- * @requires Authentication and User Permission
+ * @requires Authentication, and membership of the club or a valid invite to it (checkInvitedUser)
  * @param {number} clubId - Club ID
  * @query {string} invite - Invite token
- * @body {Object} body - Optional override data with rolePermission
+ * @body {Object} body - Optional override data with rolePermission (admins only)
  * @returns {Object} joined, club_id, user_id, club_name, role_assigned
  */
 clubUsersRouter.post('/join', async (c) => {
@@ -632,20 +725,23 @@ clubUsersRouter.post('/join', async (c) => {
 		// Get the role permission from invite token
 		const rolePermission = tokenValidation.data?.role_permission;
 
-		// Optionally get rolePermission from request body as well (for overrides)
+		// Optionally get rolePermission from request body as well (for overrides). Only members who
+		// manage the club may override, so an invite can't be used to pick your own role
 		let requestBodyRolePermission;
-		try {
-			const body = await c.req.json().catch(() => ({}));
-			requestBodyRolePermission = body.rolePermission || body.role_permission;
-		} catch {
-			// Body is optional
+		if (isAllowed(c, 'write', 'member')) {
+			try {
+				const body = await c.req.json().catch(() => ({}));
+				requestBodyRolePermission = body.rolePermission || body.role_permission;
+			} catch {
+				// Body is optional
+			}
 		}
 
 		// Use body role permission if provided, otherwise use invite token role permission
 		const finalRolePermission = requestBodyRolePermission ? parseInt(requestBodyRolePermission, 10) : rolePermission;
 
 		// Assign user to club with optional role permission
-		const assignmentResult = await usersModel.assignClubToUser(db, lhUserId.toString(), parseInt(clubId, 10), finalRolePermission);
+		const assignmentResult = await usersModel.addClubMember(db, lhUserId, parseInt(clubId, 10), 'invite', finalRolePermission);
 
 		if (assignmentResult.error) {
 			return c.json(
@@ -1,14 +1,44 @@
 import { verifyToken, createClerkClient } from '@clerk/backend';
 import { env } from 'hono/adapter';
 import { dbInitalizer } from './db';
-import { users, permissions, usersToClubs } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { users, permissions, usersToClubs, clubRoles } from '../db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { Capability, capabilitiesFor, parseCapabilities } from '../clubRoles/capabilities';
+import { API_KEY_PREFIX, verifyApiKey } from '../apiKeys/model';
+import { validateInviteToken } from '../inviteTokens/model';
+import type { Scope } from '../apiKeys/scopes';
+import { OAUTH_ACCESS_TOKEN_PREFIX } from './tokenRefresh';
+
+// Route guard asking the policy for capabilities; most routes use `authorize` from ./policy instead
+export { requireCapability } from './policy';
+
+/**
+ * Context variables set by the auth middleware.
+ *
+ * `userId` starts as the Clerk user ID (set by checkAuth) and is replaced with the
+ * database user ID by checkUserPermission.
+ */
+declare module 'hono' {
+	interface ContextVariableMap {
+		userId: any;
+		isM2M?: boolean;
+		isSuperAdmin?: boolean;
+		isMember?: boolean;
+		clubRole?: string | null;
+		capabilities?: Capability[];
+		m2mSubject?: string;
+		/** Set when the request was made with a personal API key rather than a Clerk session */
+		apiKey?: { id: number; clubId: number; scopes: Scope[] };
+	}
+}
 
 /**
  * Middleware to authenticate requests using Clerk JWT tokens or M2M tokens.
  *
  * Validates the authorization header and verifies the JWT token against Clerk's private key.
  * Supports both direct JWT tokens, legacy JSON payload format, and M2M tokens via X-API-Key header.
+ * Personal API keys (`Bearer lh_...`) act as the member who minted them, only in the key's club.
+ * OAuth access tokens (`Bearer oat_...`) from POST /api/auth/refresh act as the signed-in user.
  * Sets the authenticated user's ID in the Hono context for use in downstream middleware/handlers.
  *
  * @param c - Hono context containing request and environment variables
@@ -29,15 +59,15 @@ import { eq, and } from 'drizzle-orm';
  * - Bearer token is missing or malformed
  * - JWT verification fails
  * - M2M token verification fails
+ * - An API key is unknown, revoked, expired or used outside its club
+ * - An OAuth access token is invalid, expired, revoked or issued to another client
  */
 export const checkAuth = async function (c: any, next: any) {
-	console.log('checkAuth called for:', c.req.method, c.req.url);
 	const { CLERK_PRIVATE_KEY, CLERK_MACHINE_SECRET_KEY } = env<{
 		CLERK_PRIVATE_KEY: string;
 		CLERK_MACHINE_SECRET_KEY?: string;
 	}>(c, 'workerd');
 
-	// Debug: Log if CLERK_PRIVATE_KEY is undefined
 	if (!CLERK_PRIVATE_KEY) {
 		console.error('CLERK_PRIVATE_KEY is undefined!');
 		return c.json({ error: 'Server authentication not configured' }, 500);
@@ -47,7 +77,6 @@ export const checkAuth = async function (c: any, next: any) {
 	const authHeader = c.req.header('authorization');
 
 	if (!authHeader) {
-		console.log('No authorization header - returning 403');
 		return c.json({ error: 'Unauthenticated' }, 403);
 	}
 
@@ -63,7 +92,6 @@ export const checkAuth = async function (c: any, next: any) {
 			const match = authHeader?.match(/^Bearer\s+(.+)$/i);
 			const token = match?.[1];
 			if (!token) {
-				console.log('No Bearer token found - returning 403');
 				return c.json({ error: 'Unauthenticated' }, 403);
 			}
 			const bearerValue = token;
@@ -97,11 +125,18 @@ export const checkAuth = async function (c: any, next: any) {
 		const tokenMatch = match?.[1];
 
 		if (!tokenMatch) {
-			console.log('No Bearer token found - returning 403');
 			return c.json({ error: 'Unauthenticated' }, 403);
 		}
 		const bearerValue = tokenMatch;
 
+		if (bearerValue.startsWith(API_KEY_PREFIX)) {
+			return checkApiKey(c, next, bearerValue);
+		}
+
+		if (bearerValue.startsWith(OAUTH_ACCESS_TOKEN_PREFIX)) {
+			return checkOAuthAccessToken(c, next, bearerValue, CLERK_PRIVATE_KEY);
+		}
+
 		// Try to parse as JSON first (legacy format: Bearer {"jwt":"token"})
 		try {
 			const payload = JSON.parse(bearerValue);
@@ -115,8 +150,6 @@ export const checkAuth = async function (c: any, next: any) {
 			return c.json({ error: 'Unauthenticated' }, 403);
 		}
 
-		console.log('[checkAuth] Attempting to verify token. Token length:', token?.length, 'Has CLERK_PRIVATE_KEY:', !!CLERK_PRIVATE_KEY);
-
 		const verification = await verifyToken(token, {
 			secretKey: CLERK_PRIVATE_KEY,
 		});
@@ -134,6 +167,54 @@ export const checkAuth = async function (c: any, next: any) {
 	}
 };
 
+/**
+ * Authenticates a request made with a personal API key. The key's owner goes on through
+ * checkUserPermission like a signed-in user, and the policy limits them to the key's scopes.
+ */
+const checkApiKey = async (c: any, next: any, key: string) => {
+	const db = dbInitalizer({ c });
+	const verified = await verifyApiKey(db, key);
+	if (verified.error || !verified.data) {
+		console.error('API key auth error:', verified.error);
+		return c.json({ error: typeof verified.error === 'string' ? verified.error : 'Invalid API key' }, 403);
+	}
+
+	// A key only works in routes under its own club
+	if (getRouteClubId(c) !== verified.data.club_id) {
+		return c.json({ error: 'API key is not valid for this club' }, 403);
+	}
+
+	c.set('apiKey', { id: verified.data.id, clubId: verified.data.club_id, scopes: verified.data.scopes });
+	c.set('userId', verified.data.user_token);
+	return next();
+};
+
+/**
+ * Authenticates a request made with an OAuth access token, as issued by POST /api/auth/refresh.
+ * Clerk verifies the token, which must have been issued to this API's OAuth client; its subject
+ * is the Clerk user, who goes on through checkUserPermission like a signed-in user.
+ */
+const checkOAuthAccessToken = async (c: any, next: any, token: string, secretKey: string) => {
+	const { OAUTH_CLIENT_ID } = env<{ OAUTH_CLIENT_ID?: string }>(c, 'workerd');
+	if (!OAUTH_CLIENT_ID) {
+		return c.json({ error: 'OAuth access tokens are not accepted' }, 403);
+	}
+
+	try {
+		const accessToken = await createClerkClient({ secretKey }).idPOAuthAccessToken.verify(token);
+		if (accessToken.expired || accessToken.revoked || accessToken.clientId !== OAUTH_CLIENT_ID) {
+			return c.json({ error: 'Invalid or expired access token' }, 403);
+		}
+
+		c.set('userId', accessToken.subject);
+		c.set('clerkUserId', accessToken.subject);
+		return next();
+	} catch (error) {
+		console.error('OAuth access token auth error:', error instanceof Error ? error.message : error);
+		return c.json({ error: 'Unauthenticated' }, 403);
+	}
+};
+
 /**
  * Checks if a permission title represents an admin role.
  *
@@ -147,20 +228,119 @@ export const checkAuth = async function (c: any, next: any) {
  * }
  * ```
  */
-const hasAdminPermission = (permissionTitle: string | null | undefined): boolean => {
+export const hasAdminPermission = (permissionTitle: string | null | undefined): boolean => {
 	return permissionTitle === 'admin' || permissionTitle === 'super-admin';
 };
 
+/**
+ * Checks if a permission title represents the platform-wide super-admin role.
+ *
+ * @param permissionTitle - The permission title to check (can be null or undefined)
+ * @returns `true` only if the permission is 'super-admin'
+ */
+const hasSuperAdminPermission = (permissionTitle: string | null | undefined): boolean => {
+	return permissionTitle === 'super-admin';
+};
+
+/**
+ * A user's roles for one request: the platform-wide super-admin flag from `users.permission`,
+ * their built-in role in the route's club from `users_to_clubs.role_permission`, their custom
+ * club role from `users_to_clubs.club_role_id`, and the capabilities these add up to.
+ */
+export interface UserRoles {
+	/** Database user ID */
+	id: number;
+	isSuperAdmin: boolean;
+	/** Whether the user belongs to the club; false when no club was given */
+	isMember: boolean;
+	/** Permission title of the user's role in the club, e.g. 'admin'; null for a plain member */
+	clubRole: string | null;
+	/** What the user may do in the club; see clubRoles/capabilities */
+	capabilities: Capability[];
+}
+
+/**
+ * Resolves a user's global and per-club roles. Soft-deleted users are not found.
+ *
+ * `users.permission` only grants access when it is super-admin; being an admin in one club
+ * gives no rights in another.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param user - The user, by database ID or Clerk ID (`users.token`)
+ * @param clubId - The club to resolve a role in, if the route has one
+ * @returns The user's roles, or null if no user matches
+ */
+export const getUserRoles = async (
+	db: ReturnType<typeof dbInitalizer>,
+	user: { id: number } | { token: string },
+	clubId?: number | null
+): Promise<UserRoles | null> => {
+	const userResult = await db
+		.select({
+			id: users.id,
+			permission: permissions.title,
+		})
+		.from(users)
+		.leftJoin(permissions, eq(users.permission, permissions.id))
+		.where(and('id' in user ? eq(users.id, user.id) : eq(users.token, user.token), isNull(users.deleted_at)));
+
+	if (userResult.length === 0) {
+		return null;
+	}
+
+	const isSuperAdmin = hasSuperAdminPermission(userResult[0].permission);
+	let membership: { role: string | null; customCapabilities: string | null }[] = [];
+	if (clubId) {
+		membership = await db
+			.select({
+				role: permissions.title,
+				customCapabilities: clubRoles.capabilities,
+			})
+			.from(usersToClubs)
+			.leftJoin(permissions, eq(usersToClubs.role_permission, permissions.id))
+			.leftJoin(clubRoles, eq(usersToClubs.club_role_id, clubRoles.id))
+			.where(and(eq(usersToClubs.user_id, userResult[0].id), eq(usersToClubs.club_id, clubId)));
+	}
+
+	const isMember = membership.length > 0;
+	const clubRole = isMember ? membership[0].role : null;
+
+	return {
+		id: userResult[0].id,
+		isSuperAdmin,
+		isMember,
+		clubRole,
+		capabilities: capabilitiesFor({
+			isSuperAdmin,
+			isMember,
+			isAdmin: hasAdminPermission(clubRole),
+			customCapabilities: isMember ? parseCapabilities(membership[0].customCapabilities) : [],
+		}),
+	};
+};
+
+/**
+ * Reads the `:clubId` route parameter as a number, or null when the route has none.
+ */
+const getRouteClubId = (c: any): number | null => {
+	const clubId = parseInt(c.req.param('clubId'), 10);
+	return Number.isNaN(clubId) ? null : clubId;
+};
+
 /**
  * Middleware to check user permissions and club membership.
  *
  * Verifies that:
  * 1. The authenticated user exists in the database (unless M2M request)
- * 2. If user is not an admin, they must belong to the club specified in the `clubId` route parameter
+ * 2. If user is not a super-admin, they must belong to the club specified in the `clubId` route parameter
  *
  * M2M requests (identified by `isM2M` flag) bypass all permission checks.
- * Admins (with 'admin' or 'super-admin' permission) bypass club membership checks.
- * Non-admin users are restricted to clubs they are explicitly assigned to via the users_to_clubs table.
+ * Super-admins bypass club membership checks. Everyone else is restricted to clubs they are
+ * assigned to via the users_to_clubs table.
+ *
+ * Sets `c.var.capabilities` to what the user may do in the route's club, for the policy in
+ * utils/policy, `requireCapability` and `hasCapability`. On routes without `:clubId` only super-admins hold any
+ * capabilities.
  *
  * Must be used after `checkAuth` middleware since it depends on `c.var.userId`.
  *
@@ -175,71 +355,156 @@ const hasAdminPermission = (permissionTitle: string | null | undefined): boolean
  * app.get('/api/clubs/:clubId/towers', (c) => {
  *   // User is authenticated and either:
  *   // - Is an M2M request, OR
- *   // - Is an admin, OR
+ *   // - Is a super-admin, OR
  *   // - Belongs to the specified club
  *   return c.json({ authorized: true });
  * });
  * ```
  *
  * @throws Returns 403 error if:
- * - User not found in database
- * - Non-admin user does not belong to the specified club (if `clubId` param exists)
+ * - User not found in database, or their account was deleted
+ * - Non-super-admin user does not belong to the specified club (if `clubId` param exists)
  */
 export const checkUserPermission = async function (c: any, next: any) {
-	console.log('checkUserPermission called');
+	return checkClubUser(c, next, async () => false);
+};
+
+/**
+ * Middleware for accepting an invite to the route's club. Works like `checkUserPermission`,
+ * except that a user who is not yet a member gets through with a valid invite to the club
+ * (`?invite=`) instead of membership. The route still redeems the invite.
+ *
+ * @throws Returns 403 error if:
+ * - User not found in database, or their account was deleted
+ * - A non-member's invite is missing, unknown, expired or for another club
+ */
+export const checkInvitedUser = async function (c: any, next: any) {
+	return checkClubUser(c, next, async (db, clubId) => {
+		const invite = await validateInviteToken(db, c.req.query('invite'));
+		return !invite.error && invite.data?.club_id === clubId;
+	});
+};
+
+/**
+ * Identifies the signed-in user and their role in the route's club, for checkUserPermission and
+ * checkInvitedUser. Users outside the club are refused unless `admitsNonMember` lets them in.
+ */
+const checkClubUser = async (
+	c: any,
+	next: any,
+	admitsNonMember: (db: ReturnType<typeof dbInitalizer>, clubId: number) => Promise<boolean>
+) => {
 	const db = dbInitalizer({ c });
 	const clerkUserId = c.var.userId;
 	const isM2M = c.var.isM2M;
-	console.log('clerkUserId:', clerkUserId, 'isM2M:', isM2M);
 
 	// M2M requests bypass all permission checks
 	if (isM2M) {
-		console.log('M2M request - bypassing permission checks');
 		return next();
 	}
 
-	// Find user in database by clerk ID with permissions
-	const userResult = await db
-		.select({
-			id: users.id,
-			permission: permissions,
-		})
-		.from(users)
-		.leftJoin(permissions, eq(users.permission, permissions.id))
-		.where(eq(users.token, clerkUserId));
+	// Find user in database by clerk ID with their role in the route's club
+	const clubId = getRouteClubId(c);
+	const roles = await getUserRoles(db, { token: clerkUserId }, clubId);
 
-	if (!userResult || userResult.length === 0) {
+	if (!roles) {
 		console.error('User not found in database. Clerk ID:', clerkUserId);
 		return c.json({ error: 'User not found in database' }, 403);
 	}
 
-	const user = userResult[0];
-	const userPermission = user.permission?.title;
-	const isAdmin = hasAdminPermission(userPermission);
-
 	// Update userId to the database user ID (integer) for use in routes
 	// This overwrites the Clerk ID (string) set by checkAuth
-	c.set('userId', user.id);
+	c.set('userId', roles.id);
+	c.set('isSuperAdmin', roles.isSuperAdmin);
+	c.set('isMember', roles.isMember);
+	c.set('clubRole', roles.clubRole);
+	c.set('capabilities', roles.capabilities);
 
-	// If admin or super-admin, allow access
-	if (isAdmin) {
+	// Non-super-admins must belong to the club in the route
+	if (clubId && !roles.isSuperAdmin && !roles.isMember && !(await admitsNonMember(db, clubId))) {
+		console.error(`User ${roles.id} does not belong to club ${clubId}`);
+		return c.json({ error: `User does not belong to club ${clubId}` }, 403);
+	}
+
+	return next();
+};
+
+/**
+ * Looks up the database user ID for a Clerk user ID.
+ *
+ * @param db - Drizzle ORM database instance
+ * @param clerkUserId - Clerk user ID (stored in `users.token`)
+ * @returns The database user ID, or null if no user matches
+ */
+export const getUserIdFromClerkId = async (db: ReturnType<typeof dbInitalizer>, clerkUserId: string): Promise<{ id: number } | null> => {
+	const result = await db.select({ id: users.id }).from(users).where(eq(users.token, clerkUserId));
+
+	return result.length > 0 ? result[0] : null;
+};
+
+/**
+ * Checks whether the request may use a capability in the route's club.
+ *
+ * M2M requests hold every capability. Otherwise this reads `c.var.capabilities`, so it must be
+ * used after `checkUserPermission`.
+ *
+ * @param c - Hono context
+ * @param capability - The capability to check
+ * @returns `true` if the request holds the capability
+ *
+ * @example
+ * ```typescript
+ * const bypassReservations = hasCapability(c, 'manage_addresses');
+ * ```
+ */
+export const hasCapability = (c: any, capability: Capability): boolean => {
+	return !!c.var.isM2M || (c.var.capabilities ?? []).includes(capability);
+};
+
+/**
+ * Super Admin Permission Check Middleware
+ * Verifies that the authenticated user has super-admin permission, the only platform-wide role.
+ * A club admin role never passes, whatever the `:clubId` in the route.
+ */
+export const checkSuperAdminPermission = async function (c: any, next: any) {
+	const db = dbInitalizer({ c });
+	const clerkUserId = c.var.userId;
+	const isM2M = c.var.isM2M;
+
+	// M2M requests have super-admin-level access
+	if (isM2M) {
 		return next();
 	}
 
-	// Check if clubId is specified in route params
-	const clubId = c.req.param('clubId');
-	if (clubId) {
-		// Verify user belongs to the club
-		const clubMembership = await db
-			.select()
-			.from(usersToClubs)
-			.where(and(eq(usersToClubs.user_id, user.id), eq(usersToClubs.club_id, parseInt(clubId, 10))));
+	try {
+		const roles = await getUserRoles(db, { token: clerkUserId });
 
-		if (!clubMembership || clubMembership.length === 0) {
-			console.error(`User ${user.id} does not belong to club ${clubId}. Club memberships:`, clubMembership);
-			return c.json({ error: `User does not belong to club ${clubId}` }, 403);
+		if (!roles) {
+			return c.json(
+				{
+					error: 'User not found',
+				},
+				403
+			);
 		}
-	}
 
-	return next();
+		if (roles.isSuperAdmin) {
+			return next();
+		}
+
+		return c.json(
+			{
+				error: 'Super admin permission required',
+			},
+			403
+		);
+	} catch (error) {
+		console.error('Super admin permission check error:', error);
+		return c.json(
+			{
+				error: 'Permission check failed',
+			},
+			500
+		);
+	}
 };
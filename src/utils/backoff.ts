@@ -0,0 +1,45 @@
+/**
+ * Backoff Utility
+ *
+ * Exponential backoff with jitter for scheduling retries. Half of each delay is fixed and half is
+ * random, so retries always wait at least half the backoff but failures that happened together
+ * do not all retry at the same moment.
+ */
+
+export interface BackoffOptions {
+	/** Delay before the first retry, in milliseconds */
+	baseMs: number;
+	/** Upper bound for any delay, in milliseconds */
+	maxMs: number;
+	/** Growth factor per attempt (defaults to 2) */
+	factor?: number;
+	/** Random source returning a number in [0, 1); injectable for tests */
+	random?: () => number;
+}
+
+/**
+ * Computes the delay before the next attempt.
+ *
+ * @param attempt - Number of attempts made so far (1 for the first failure)
+ * @param options - Backoff settings
+ * @returns Delay in milliseconds, between half and all of `min(maxMs, baseMs * factor^(attempt - 1))`
+ */
+export const computeBackoffDelay = (attempt: number, options: BackoffOptions): number => {
+	const factor = options.factor ?? 2;
+	const random = options.random ?? Math.random;
+	const exponent = Math.max(0, attempt - 1);
+	const ceiling = Math.min(options.maxMs, options.baseMs * Math.pow(factor, exponent));
+	return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
+
+/**
+ * Computes when the next attempt should be made.
+ *
+ * @param attempt - Number of attempts made so far (1 for the first failure)
+ * @param options - Backoff settings
+ * @param now - Time of the failed attempt (defaults to the current time)
+ * @returns The time of the next attempt
+ */
+export const nextAttemptAt = (attempt: number, options: BackoffOptions, now: Date = new Date()): Date => {
+	return new Date(now.getTime() + computeBackoffDelay(attempt, options));
+};
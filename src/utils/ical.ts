@@ -0,0 +1,246 @@
+/**
+ * iCalendar Utility
+ *
+ * Builds RFC 5545 calendar feeds for Google Calendar, Apple Calendar and other subscribers.
+ * Event times are written in the club's IANA timezone (e.g. `America/Chicago`) with a
+ * VTIMEZONE derived from the runtime's Intl data, so subscribers see the right local time
+ * across daylight saving changes. `UTC` events are written as UTC date-times instead.
+ */
+
+import { formatUtcDateTime } from './rrule';
+import { getLocalParts, getTimeZoneOffset, isValidTimeZone } from './timezone';
+
+export { getTimeZoneOffset, isValidTimeZone } from './timezone';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const PRODID = '-//Locomotive House//Club Calendar//EN';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * A single calendar event.
+ *
+ * @property uid - Globally unique, stable ID; subscribers use it to match updates and deletions
+ * @property start - Start instant
+ * @property end - End instant
+ * @property summary - Event title
+ * @property description - Optional longer text
+ * @property status - CONFIRMED, TENTATIVE or CANCELLED
+ * @property timezone - IANA timezone for this event (defaults to the calendar's timezone)
+ * @property lastModified - When the underlying record last changed
+ */
+export interface IcsEvent {
+	uid: string;
+	start: Date;
+	end: Date;
+	summary: string;
+	description?: string | null;
+	status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+	timezone?: string;
+	lastModified?: Date | null;
+}
+
+export interface IcsCalendar {
+	name: string;
+	timezone?: string;
+	events: IcsEvent[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Formats an instant as a floating local date-time (`YYYYMMDDTHHMMSS`) in a timezone.
+ */
+export const formatLocalDateTime = (date: Date, timeZone: string): string => {
+	const parts = getLocalParts(date, timeZone);
+	return `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+};
+
+const formatOffset = (minutes: number): string => {
+	const sign = minutes < 0 ? '-' : '+';
+	const absolute = Math.abs(minutes);
+	return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+/**
+ * Formats an instant shifted by a fixed offset as a floating date-time.
+ */
+const formatWithOffset = (date: Date, offsetMinutes: number): string => {
+	return formatUtcDateTime(new Date(date.getTime() + offsetMinutes * 60000)).replace('Z', '');
+};
+
+/**
+ * Finds the instants in a window where a timezone's UTC offset changes.
+ *
+ * Scans day by day, then narrows each change down to the minute.
+ */
+const findTransitions = (timeZone: string, from: Date, to: Date): { at: Date; offsetFrom: number; offsetTo: number }[] => {
+	const transitions: { at: Date; offsetFrom: number; offsetTo: number }[] = [];
+	let previous = from.getTime();
+	let previousOffset = getTimeZoneOffset(from, timeZone);
+
+	for (let time = previous + DAY_MS; time <= to.getTime() + DAY_MS; time += DAY_MS) {
+		const offset = getTimeZoneOffset(new Date(time), timeZone);
+		if (offset !== previousOffset) {
+			let low = previous;
+			let high = time;
+			while (high - low > 60000) {
+				const middle = low + Math.floor((high - low) / 120000) * 60000;
+				if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) {
+					low = middle;
+				} else {
+					high = middle;
+				}
+			}
+			transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+			previousOffset = offset;
+		}
+		previous = time;
+	}
+
+	return transitions;
+};
+
+/**
+ * Builds a VTIMEZONE component covering a window of time.
+ *
+ * Each daylight saving change inside the window becomes its own STANDARD or DAYLIGHT
+ * observance, so no recurrence rules are needed and historic or unusual rules are handled
+ * exactly as the runtime's timezone data describes them.
+ *
+ * @param timeZone - IANA timezone
+ * @param from - Start of the window (earliest event)
+ * @param to - End of the window (latest event)
+ * @returns Content lines for the VTIMEZONE component
+ */
+export const buildVTimezone = (timeZone: string, from: Date, to: Date): string[] => {
+	const windowStart = new Date(from.getTime() - DAY_MS);
+	const initialOffset = getTimeZoneOffset(windowStart, timeZone);
+	const transitions = findTransitions(timeZone, windowStart, to);
+
+	const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+	const firstIsDaylight = transitions.length > 0 && transitions[0].offsetFrom > transitions[0].offsetTo;
+	const initialType = firstIsDaylight ? 'DAYLIGHT' : 'STANDARD';
+	lines.push(
+		`BEGIN:${initialType}`,
+		`DTSTART:${formatWithOffset(windowStart, initialOffset)}`,
+		`TZOFFSETFROM:${formatOffset(initialOffset)}`,
+		`TZOFFSETTO:${formatOffset(initialOffset)}`,
+		`END:${initialType}`
+	);
+
+	for (const transition of transitions) {
+		const type = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+		lines.push(
+			`BEGIN:${type}`,
+			// Observance DTSTART is the local time just before the change
+			`DTSTART:${formatWithOffset(transition.at, transition.offsetFrom)}`,
+			`TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+			`TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+			`END:${type}`
+		);
+	}
+
+	lines.push('END:VTIMEZONE');
+	return lines;
+};
+
+/**
+ * Escapes a TEXT value (backslash, semicolon, comma and newlines).
+ */
+export const escapeText = (value: string): string => {
+	return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Folds a content line to at most 75 octets per line, as RFC 5545 requires.
+ * Multi-byte characters are never split.
+ */
+export const foldLine = (line: string): string => {
+	if (encoder.encode(line).length <= 75) {
+		return line;
+	}
+
+	const chunks: string[] = [];
+	let current = '';
+	let currentLength = 0;
+	for (const char of line) {
+		const charLength = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts towards their 75 octets
+		const limit = chunks.length === 0 ? 75 : 74;
+		if (currentLength + charLength > limit) {
+			chunks.push(current);
+			current = '';
+			currentLength = 0;
+		}
+		current += char;
+		currentLength += charLength;
+	}
+	chunks.push(current);
+	return chunks.join('\r\n ');
+};
+
+const formatDateProperty = (name: string, date: Date, timeZone: string): string => {
+	if (timeZone === DEFAULT_TIMEZONE) {
+		return `${name}:${formatUtcDateTime(date)}`;
+	}
+	return `${name};TZID=${timeZone}:${formatLocalDateTime(date, timeZone)}`;
+};
+
+/**
+ * Builds a complete iCalendar document.
+ *
+ * @param calendar - Calendar name, default timezone and events
+ * @param now - Timestamp written as DTSTAMP (defaults to the current time)
+ * @returns The `.ics` body with CRLF line endings
+ */
+export const buildCalendar = (calendar: IcsCalendar, now: Date = new Date()): string => {
+	const defaultTimeZone = calendar.timezone && isValidTimeZone(calendar.timezone) ? calendar.timezone : DEFAULT_TIMEZONE;
+	const timeZoneOf = (event: IcsEvent) => (event.timezone && isValidTimeZone(event.timezone) ? event.timezone : defaultTimeZone);
+
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODID}`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeText(calendar.name)}`,
+		`X-WR-TIMEZONE:${defaultTimeZone}`,
+	];
+
+	// One VTIMEZONE per timezone in use, covering that timezone's events
+	const windows = new Map<string, { from: Date; to: Date }>();
+	for (const event of calendar.events) {
+		const timeZone = timeZoneOf(event);
+		if (timeZone === DEFAULT_TIMEZONE) continue;
+		const window = windows.get(timeZone);
+		windows.set(timeZone, {
+			from: window && window.from < event.start ? window.from : event.start,
+			to: window && window.to > event.end ? window.to : event.end,
+		});
+	}
+	windows.forEach((window, timeZone) => lines.push(...buildVTimezone(timeZone, window.from, window.to)));
+
+	for (const event of calendar.events) {
+		const timeZone = timeZoneOf(event);
+		lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatUtcDateTime(now)}`);
+		lines.push(formatDateProperty('DTSTART', event.start, timeZone), formatDateProperty('DTEND', event.end, timeZone));
+		lines.push(`SUMMARY:${escapeText(event.summary)}`);
+		if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+		if (event.status) lines.push(`STATUS:${event.status}`);
+		if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(event.lastModified))}`);
+		lines.push('END:VEVENT');
+	}
+
+	lines.push('END:VCALENDAR');
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Adds hours to an instant; used to derive event end times from durations.
+ */
+export const addHours = (date: Date, hours: number): Date => new Date(date.getTime() + hours * HOUR_MS);
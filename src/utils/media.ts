@@ -0,0 +1,113 @@
+/**
+ * Media Utility
+ *
+ * Identifies uploaded files from their leading bytes and reads image dimensions from the
+ * file header, without decoding the image. Supports JPEG, PNG, GIF, WebP and PDF.
+ */
+
+export interface ImageDimensions {
+	width: number;
+	height: number;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean => {
+	return signature.every((byte, index) => bytes[offset + index] === byte);
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string => {
+	return String.fromCharCode(...bytes.subarray(offset, offset + length));
+};
+
+/**
+ * Detects a file's content type from its leading bytes.
+ *
+ * @param bytes - The file contents (the first few hundred bytes are enough)
+ * @returns The detected MIME type, or null if the format is not recognised
+ */
+export const sniffContentType = (bytes: Uint8Array): string | null => {
+	if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+	if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+	if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+	if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+	if (ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf';
+	return null;
+};
+
+const readJpegDimensions = (bytes: Uint8Array): ImageDimensions | null => {
+	let offset = 2;
+	while (offset + 9 < bytes.length) {
+		if (bytes[offset] !== 0xff) {
+			offset++;
+			continue;
+		}
+		const marker = bytes[offset + 1];
+		// Start-of-frame markers carry the dimensions (C4, C8 and CC are not frames)
+		if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			return {
+				height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+				width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+			};
+		}
+		// Markers without a length field
+		if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+			offset += marker === 0xff ? 1 : 2;
+			continue;
+		}
+		offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+	}
+	return null;
+};
+
+const readWebpDimensions = (bytes: Uint8Array): ImageDimensions | null => {
+	const chunk = ascii(bytes, 12, 4);
+	if (chunk === 'VP8 ') {
+		return {
+			width: (bytes[26] | (bytes[27] << 8)) & 0x3fff,
+			height: (bytes[28] | (bytes[29] << 8)) & 0x3fff,
+		};
+	}
+	if (chunk === 'VP8L') {
+		const [b0, b1, b2, b3] = [bytes[21], bytes[22], bytes[23], bytes[24]];
+		return {
+			width: 1 + (((b1 & 0x3f) << 8) | b0),
+			height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+		};
+	}
+	if (chunk === 'VP8X') {
+		return {
+			width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+			height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)),
+		};
+	}
+	return null;
+};
+
+/**
+ * Reads the pixel dimensions of an image from its header.
+ *
+ * @param bytes - The image file contents
+ * @param contentType - The image's MIME type (as returned by `sniffContentType`)
+ * @returns Width and height, or null if they cannot be read
+ */
+export const getImageDimensions = (bytes: Uint8Array, contentType: string): ImageDimensions | null => {
+	switch (contentType) {
+		case 'image/png':
+			if (bytes.length < 24) return null;
+			return {
+				width: ((bytes[16] << 24) | (bytes[17] << 16) | (bytes[18] << 8) | bytes[19]) >>> 0,
+				height: ((bytes[20] << 24) | (bytes[21] << 16) | (bytes[22] << 8) | bytes[23]) >>> 0,
+			};
+		case 'image/gif':
+			if (bytes.length < 10) return null;
+			return {
+				width: bytes[6] | (bytes[7] << 8),
+				height: bytes[8] | (bytes[9] << 8),
+			};
+		case 'image/jpeg':
+			return readJpegDimensions(bytes);
+		case 'image/webp':
+			return bytes.length < 30 ? null : readWebpDimensions(bytes);
+		default:
+			return null;
+	}
+};
@@ -0,0 +1,290 @@
+/**
+ * Authorization Policy
+ *
+ * Decides whether a request may read or write each kind of club resource, from club
+ * membership, capabilities (see clubRoles/capabilities) and who owns the record.
+ *
+ * - M2M requests may do anything
+ * - Only members of the club, and super-admins, may read or write its resources; a few
+ *   resources also need a capability to read
+ * - Writing needs the resource's `manage` capability, except that members may change records
+ *   they own, and create records when the resource allows it
+ * - Requests made with a personal API key are further limited to the key's scopes
+ *
+ * Routers use `authorize` as middleware when the decision does not depend on a record, and
+ * `isAllowed` once they have loaded the record being changed.
+ *
+ * @module utils/policy
+ */
+
+import type { Capability } from '../clubRoles/capabilities';
+import { scopesAllow } from '../apiKeys/scopes';
+import type { Scope } from '../apiKeys/scopes';
+import { getUserRoles } from './auth';
+import type { UserRoles } from './auth';
+import type { dbInitalizer } from './db';
+
+export const RESOURCES = [
+	'club',
+	'member',
+	'clubRole',
+	'inviteToken',
+	'webhook',
+	'tower',
+	'towerReport',
+	'issue',
+	'comment',
+	'attachment',
+	'address',
+	'addressReservation',
+	'consist',
+	'notice',
+	'scheduledSession',
+	'sessionSeries',
+	'appointment',
+	'application',
+	'applicationReview',
+	'apiKey',
+	'profile',
+	'notificationPreference',
+] as const;
+export type Resource = (typeof RESOURCES)[number];
+
+export type Action = 'read' | 'write';
+
+/**
+ * Who is making the request, as far as the policy is concerned
+ */
+export interface Actor {
+	/** Database user ID; null for M2M requests */
+	userId: number | null;
+	isM2M: boolean;
+	isSuperAdmin: boolean;
+	/** Whether the user belongs to the club the resource is in */
+	isMember: boolean;
+	capabilities: readonly Capability[];
+	/** Scopes of the API key the request was made with; omitted for signed-in users */
+	scopes?: readonly Scope[];
+}
+
+/**
+ * How one kind of resource may be read and written
+ */
+export interface ResourcePolicy {
+	/** Capability needed to read; any member may read when omitted */
+	read?: Capability;
+	/** Capability that allows creating and changing any record */
+	manage: Capability;
+	/** Capability that allows creating a record; null lets any member create one */
+	create?: Capability | null;
+	/** Field holding the user ID of the record's owner, who may change their own record */
+	owner?: 'owner_id' | 'user_id';
+	/** The resource is in no club, so owners need not be members of the route's club */
+	outsideClub?: boolean;
+}
+
+/**
+ * The ownership fields of a record, or of the record about to be created
+ */
+export interface OwnedRecord {
+	owner_id?: unknown;
+	user_id?: unknown;
+}
+
+export const POLICIES: Record<Resource, ResourcePolicy> = {
+	club: { manage: 'manage_club' },
+	member: { manage: 'manage_club' },
+	clubRole: { manage: 'manage_club' },
+	inviteToken: { read: 'manage_invites', manage: 'manage_invites' },
+	webhook: { read: 'manage_club', manage: 'manage_club' },
+	tower: { manage: 'manage_towers', owner: 'owner_id' },
+	towerReport: { manage: 'triage_issues', create: 'file_reports', owner: 'user_id' },
+	issue: { manage: 'triage_issues', create: 'file_reports', owner: 'user_id' },
+	comment: { manage: 'triage_issues', create: null, owner: 'user_id' },
+	attachment: { manage: 'manage_club', create: null, owner: 'user_id' },
+	address: { manage: 'manage_addresses', create: null, owner: 'user_id' },
+	addressReservation: { manage: 'manage_addresses' },
+	consist: { manage: 'manage_addresses', create: null, owner: 'user_id' },
+	notice: { manage: 'manage_notices' },
+	scheduledSession: { manage: 'manage_sessions' },
+	sessionSeries: { manage: 'manage_sessions' },
+	appointment: { manage: 'manage_sessions', create: null, owner: 'user_id' },
+	application: { manage: 'review_applications' },
+	// Reviewer notes, votes, workflow transitions and rejected submissions
+	applicationReview: { read: 'review_applications', manage: 'review_applications' },
+	// Members mint their own keys; club managers may see and revoke anyone's
+	apiKey: { manage: 'manage_club', create: null, owner: 'user_id' },
+	// A user's own name on the users row; outside a club only super-admins hold manage_club
+	profile: { manage: 'manage_club', owner: 'user_id', outsideClub: true },
+	// A member's own email choices in the club; no API key scope covers them
+	notificationPreference: { manage: 'manage_club', create: null, owner: 'user_id' },
+};
+
+/**
+ * Decides whether an actor may read or write a resource.
+ *
+ * @param actor - Who is making the request
+ * @param action - 'read' or 'write'
+ * @param resource - The kind of resource
+ * @param record - The record being written, or the owner it is being created for; omit when creating
+ * @returns `true` if the action is allowed
+ *
+ * @example
+ * ```typescript
+ * can(actor, 'write', 'tower', { owner_id: 7 }); // true for user 7, or with manage_towers
+ * can(actor, 'write', 'notice'); // true with manage_notices
+ * ```
+ */
+export const can = (actor: Actor, action: Action, resource: Resource, record?: OwnedRecord | null): boolean => {
+	if (actor.isM2M) {
+		return true;
+	}
+	const policy = POLICIES[resource];
+	if (!actor.isSuperAdmin && !actor.isMember && !policy.outsideClub) {
+		return false;
+	}
+	if (actor.scopes && !scopesAllow(actor.scopes, action, resource)) {
+		return false;
+	}
+
+	if (action === 'read') {
+		return !policy.read || actor.capabilities.includes(policy.read);
+	}
+	if (actor.capabilities.includes(policy.manage)) {
+		return true;
+	}
+	if (record) {
+		return !!policy.owner && actor.userId !== null && record[policy.owner] === actor.userId;
+	}
+	return policy.create === null || (policy.create !== undefined && actor.capabilities.includes(policy.create));
+};
+
+/**
+ * Builds the actor for a request from the context set by `checkAuth` and `checkUserPermission`,
+ * for the club in the route.
+ */
+export const actorFromContext = (c: any): Actor => ({
+	userId: c.var.isM2M ? null : c.var.userId,
+	isM2M: !!c.var.isM2M,
+	isSuperAdmin: !!c.var.isSuperAdmin,
+	isMember: !!c.var.isMember,
+	capabilities: c.var.capabilities ?? [],
+	scopes: c.var.apiKey?.scopes,
+});
+
+/**
+ * Builds the actor for a user's roles in a club, for routes where the club comes from the
+ * record rather than the route.
+ */
+export const actorFromRoles = (roles: UserRoles): Actor => ({
+	userId: roles.id,
+	isM2M: false,
+	isSuperAdmin: roles.isSuperAdmin,
+	isMember: roles.isMember,
+	capabilities: roles.capabilities,
+});
+
+/**
+ * Builds the actor for the request in a club taken from the body or a record, for routes whose
+ * path has no club. Must be used after `checkUserPermission`.
+ *
+ * @param c - Hono context
+ * @param db - Drizzle ORM database instance
+ * @param clubId - The club the resource is in, or null if it is in none
+ * @returns The actor, or null if the user no longer exists
+ */
+export const actorForClub = async (c: any, db: ReturnType<typeof dbInitalizer>, clubId: number | null): Promise<Actor | null> => {
+	if (c.var.isM2M) {
+		return actorFromContext(c);
+	}
+
+	const roles = await getUserRoles(db, { id: c.var.userId }, clubId);
+	return roles ? { ...actorFromRoles(roles), scopes: c.var.apiKey?.scopes } : null;
+};
+
+/**
+ * Checks the policy for the request in the route's club. Must be used after `checkUserPermission`.
+ *
+ * @param c - Hono context
+ * @param action - 'read' or 'write'
+ * @param resource - The kind of resource
+ * @param record - The record being written, or the owner it is being created for
+ * @returns `true` if the action is allowed
+ */
+export const isAllowed = (c: any, action: Action, resource: Resource, record?: OwnedRecord | null): boolean => {
+	return can(actorFromContext(c), action, resource, record);
+};
+
+/**
+ * Route guard applying the policy to the route's club, for reads and creates. Routes that
+ * change an existing record call `isAllowed` with the record instead.
+ *
+ * Reads only the context set by `checkAuth` and `checkUserPermission`, which must run first.
+ *
+ * @param resource - The kind of resource
+ * @param action - 'read' or 'write'
+ * @returns Middleware responding 403 when the policy denies the request
+ *
+ * @example
+ * ```typescript
+ * noticesRouter.post('/', checkAuth, checkUserPermission, authorize('notice', 'write'), async (c) => {
+ *   // Only members with manage_notices get here
+ * });
+ * ```
+ */
+export const authorize = (resource: Resource, action: Action) => {
+	return async function (c: any, next: any) {
+		if (!isAllowed(c, action, resource)) {
+			return c.json(
+				{
+					error: `Unauthorized: No ${action} access to ${resource}`,
+				},
+				403
+			);
+		}
+
+		return next();
+	};
+};
+
+/**
+ * Route guard requiring capabilities in the route's club, for guards that are not about one kind
+ * of resource. Each capability must be held and must let the request write a resource it
+ * manages or creates, so club membership and API key scopes apply as they do for `authorize`.
+ *
+ * Reads only the context set by `checkAuth` and `checkUserPermission`, which must run first, so
+ * it needs no database.
+ *
+ * @param required - Capabilities the request must hold, all of them
+ * @returns Middleware responding 403 when any capability is missing
+ *
+ * @example
+ * ```typescript
+ * towersRouter.post('/import', checkAuth, checkUserPermission, requireCapability('manage_towers'), async (c) => {
+ *   // Only members whose role grants manage_towers get here
+ * });
+ * ```
+ */
+export const requireCapability = (...required: Capability[]) => {
+	return async function (c: any, next: any) {
+		const actor = actorFromContext(c);
+		const missing = required.filter(
+			(capability) =>
+				!(actor.isM2M || actor.capabilities.includes(capability)) ||
+				!RESOURCES.some(
+					(resource) =>
+						(POLICIES[resource].manage === capability || POLICIES[resource].create === capability) && can(actor, 'write', resource)
+				)
+		);
+		if (missing.length > 0) {
+			return c.json(
+				{
+					error: `Missing capability: ${missing.join(', ')}`,
+				},
+				403
+			);
+		}
+
+		return next();
+	};
+};
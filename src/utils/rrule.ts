@@ -0,0 +1,368 @@
+/**
+ * Recurrence Rule Utility
+ *
+ * Parses and expands the subset of RFC 5545 RRULEs used for recurring scheduled sessions:
+ * - FREQ: DAILY, WEEKLY, MONTHLY
+ * - INTERVAL, COUNT, UNTIL
+ * - BYDAY, with ordinals for monthly rules (e.g. `2TU`, `-1SA`)
+ * - BYMONTHDAY (negative values count from the end of the month)
+ *
+ * Occurrences keep the local time of day of DTSTART. Rules are expanded in the wall-clock time of
+ * the club's timezone, so weekdays and month days are the club's and a 7 PM session stays at 7 PM
+ * across daylight saving changes; each occurrence is then converted back to UTC. Weeks start on Monday.
+ *
+ * @example
+ * ```typescript
+ * // Every second Tuesday
+ * const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU');
+ * // Last Saturday of each month
+ * const rule = parseRRule('FREQ=MONTHLY;BYDAY=-1SA');
+ *
+ * const dates = expandRRule(rule, new Date('2024-01-03T00:00:00Z'), rangeStart, rangeEnd, 'America/New_York');
+ * ```
+ */
+
+import { fromWallClock, toWallClock } from './timezone';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on occurrences returned by a single expansion, so an open-ended
+ * daily rule over a wide range can't run away.
+ */
+export const MAX_OCCURRENCES = 1000;
+
+const MAX_PERIODS = 50000;
+
+/**
+ * A BYDAY entry: weekday (0 = Sunday, matching Date#getUTCDay) and optional ordinal
+ * within the month (1 = first, -1 = last).
+ */
+export interface WeekdayRule {
+	weekday: number;
+	ordinal?: number;
+}
+
+export interface RecurrenceRule {
+	freq: Frequency;
+	interval: number;
+	count?: number;
+	until?: Date;
+	byDay?: WeekdayRule[];
+	byMonthDay?: number[];
+}
+
+const parsePositiveInteger = (name: string, value: string): number => {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 1) {
+		throw new Error(`${name} must be a positive whole number`);
+	}
+	return parsed;
+};
+
+const parseUntil = (value: string): Date => {
+	const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+	if (!match) {
+		throw new Error(`Invalid UNTIL ${value}. Use YYYYMMDD or YYYYMMDDTHHMMSSZ`);
+	}
+	const [, year, month, day, hours, minutes, seconds] = match;
+	// A date-only UNTIL includes the whole day
+	if (hours === undefined) {
+		return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59));
+	}
+	return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+};
+
+const parseByDay = (value: string): WeekdayRule[] => {
+	return value.split(',').map((entry) => {
+		const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry);
+		if (!match) {
+			throw new Error(`Invalid BYDAY value ${entry}`);
+		}
+		const weekday = WEEKDAYS.indexOf(match[2]);
+		if (match[1] === undefined) {
+			return { weekday };
+		}
+		const ordinal = Number(match[1]);
+		if (ordinal === 0 || ordinal < -5 || ordinal > 5) {
+			throw new Error(`Invalid BYDAY ordinal in ${entry}. Use 1 to 5 or -1 to -5`);
+		}
+		return { weekday, ordinal };
+	});
+};
+
+const parseByMonthDay = (value: string): number[] => {
+	return value.split(',').map((entry) => {
+		const day = Number(entry);
+		if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+			throw new Error(`Invalid BYMONTHDAY value ${entry}`);
+		}
+		return day;
+	});
+};
+
+/**
+ * Parses an RRULE string such as `FREQ=MONTHLY;BYDAY=-1SA`. A leading `RRULE:` is allowed.
+ *
+ * @param value - RRULE string
+ * @returns Parsed recurrence rule
+ * @throws Error describing the first problem found if the rule is invalid or uses unsupported parts
+ */
+export const parseRRule = (value: string): RecurrenceRule => {
+	if (!value || typeof value !== 'string') {
+		throw new Error('Missing recurrence rule');
+	}
+
+	const rule: Partial<RecurrenceRule> = { interval: 1 };
+	const parts = value
+		.trim()
+		.replace(/^RRULE:/i, '')
+		.split(';')
+		.filter(Boolean);
+
+	for (const part of parts) {
+		const [rawKey, rawValue] = part.split('=');
+		const key = rawKey.trim().toUpperCase();
+		const partValue = (rawValue ?? '').trim().toUpperCase();
+		if (!partValue) {
+			throw new Error(`Missing value for ${key}`);
+		}
+
+		switch (key) {
+			case 'FREQ':
+				if (!FREQUENCIES.includes(partValue as Frequency)) {
+					throw new Error(`Unsupported FREQ ${partValue}. Must be one of: ${FREQUENCIES.join(', ')}`);
+				}
+				rule.freq = partValue as Frequency;
+				break;
+			case 'INTERVAL':
+				rule.interval = parsePositiveInteger('INTERVAL', partValue);
+				break;
+			case 'COUNT':
+				rule.count = parsePositiveInteger('COUNT', partValue);
+				break;
+			case 'UNTIL':
+				rule.until = parseUntil(partValue);
+				break;
+			case 'BYDAY':
+				rule.byDay = parseByDay(partValue);
+				break;
+			case 'BYMONTHDAY':
+				rule.byMonthDay = parseByMonthDay(partValue);
+				break;
+			case 'WKST':
+				if (partValue !== 'MO') {
+					throw new Error('Only WKST=MO is supported');
+				}
+				break;
+			default:
+				throw new Error(`Unsupported rule part ${key}`);
+		}
+	}
+
+	if (!rule.freq) {
+		throw new Error('FREQ is required');
+	}
+	if (rule.count && rule.until) {
+		throw new Error('COUNT and UNTIL cannot both be set');
+	}
+	if (rule.freq !== 'MONTHLY' && rule.byDay?.some((day) => day.ordinal !== undefined)) {
+		throw new Error('Numbered BYDAY values (e.g. -1SA) are only supported with FREQ=MONTHLY');
+	}
+	if (rule.freq === 'WEEKLY' && rule.byMonthDay) {
+		throw new Error('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+	}
+
+	return rule as RecurrenceRule;
+};
+
+/**
+ * Checks an RRULE string without throwing.
+ *
+ * @param value - RRULE string
+ * @returns Error message, or null if the rule is valid
+ */
+export const validateRRule = (value: string): string | null => {
+	try {
+		parseRRule(value);
+		return null;
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Formats a date as an RFC 5545 UTC date-time, e.g. `20241231T180000Z`.
+ */
+export const formatUtcDateTime = (date: Date): string => {
+	return (
+		`${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+		`T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+	);
+};
+
+/**
+ * Serialises a recurrence rule back to an RRULE string.
+ *
+ * @param rule - Recurrence rule
+ * @returns RRULE string without the `RRULE:` prefix
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+	const parts = [`FREQ=${rule.freq}`];
+	if (rule.interval && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+	if (rule.count) parts.push(`COUNT=${rule.count}`);
+	if (rule.until) parts.push(`UNTIL=${formatUtcDateTime(rule.until)}`);
+	if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${WEEKDAYS[day.weekday]}`).join(',')}`);
+	if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+	return parts.join(';');
+};
+
+const atTimeOf = (year: number, month: number, day: number, dtstart: Date): Date => {
+	return new Date(Date.UTC(year, month, day, dtstart.getUTCHours(), dtstart.getUTCMinutes(), dtstart.getUTCSeconds()));
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const resolveMonthDays = (rule: RecurrenceRule, dim: number): number[] | undefined => {
+	return rule.byMonthDay?.map((day) => (day > 0 ? day : dim + day + 1)).filter((day) => day >= 1 && day <= dim);
+};
+
+const dailyCandidates = (rule: RecurrenceRule, dtstart: Date, period: number): Date[] => {
+	const base = new Date(dtstart.getTime() + period * rule.interval * DAY_MS);
+	const candidate = atTimeOf(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate(), dtstart);
+	if (rule.byDay && !rule.byDay.some((day) => day.weekday === candidate.getUTCDay())) {
+		return [];
+	}
+	const monthDays = resolveMonthDays(rule, daysInMonth(candidate.getUTCFullYear(), candidate.getUTCMonth()));
+	if (monthDays && !monthDays.includes(candidate.getUTCDate())) {
+		return [];
+	}
+	return [candidate];
+};
+
+const weeklyCandidates = (rule: RecurrenceRule, dtstart: Date, period: number): Date[] => {
+	// Monday of the week containing DTSTART
+	const mondayOffset = (dtstart.getUTCDay() + 6) % 7;
+	const weekStart = Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate() - mondayOffset);
+	const weekdays = rule.byDay ? rule.byDay.map((day) => day.weekday) : [dtstart.getUTCDay()];
+	const offsets = [...new Set(weekdays.map((weekday) => (weekday + 6) % 7))].sort((a, b) => a - b);
+
+	return offsets.map((offset) => {
+		const day = new Date(weekStart + (period * rule.interval * 7 + offset) * DAY_MS);
+		return atTimeOf(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), dtstart);
+	});
+};
+
+const monthlyCandidates = (rule: RecurrenceRule, dtstart: Date, period: number): Date[] => {
+	const monthIndex = dtstart.getUTCFullYear() * 12 + dtstart.getUTCMonth() + period * rule.interval;
+	const year = Math.floor(monthIndex / 12);
+	const month = monthIndex % 12;
+	const dim = daysInMonth(year, month);
+	const monthDays = resolveMonthDays(rule, dim);
+
+	let days: number[];
+	if (rule.byDay) {
+		const matched = new Set<number>();
+		for (const { weekday, ordinal } of rule.byDay) {
+			const matches: number[] = [];
+			for (let day = 1; day <= dim; day++) {
+				if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) {
+					matches.push(day);
+				}
+			}
+			if (ordinal === undefined) {
+				matches.forEach((day) => matched.add(day));
+			} else {
+				const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+				if (pick) matched.add(pick);
+			}
+		}
+		days = [...matched];
+		// When both are given a day must satisfy BYDAY and BYMONTHDAY
+		if (monthDays) {
+			days = days.filter((day) => monthDays.includes(day));
+		}
+	} else if (monthDays) {
+		days = monthDays;
+	} else {
+		// Months without DTSTART's day (e.g. the 31st) are skipped, as RFC 5545 requires
+		days = dtstart.getUTCDate() <= dim ? [dtstart.getUTCDate()] : [];
+	}
+
+	return [...new Set(days)].sort((a, b) => a - b).map((day) => atTimeOf(year, month, day, dtstart));
+};
+
+const periodStart = (rule: RecurrenceRule, dtstart: Date, period: number): Date => {
+	if (rule.freq === 'MONTHLY') {
+		return new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth() + period * rule.interval, 1));
+	}
+	if (rule.freq === 'WEEKLY') {
+		const mondayOffset = (dtstart.getUTCDay() + 6) % 7;
+		return new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate() - mondayOffset + period * rule.interval * 7));
+	}
+	return new Date(Date.UTC(dtstart.getUTCFullYear(), dtstart.getUTCMonth(), dtstart.getUTCDate() + period * rule.interval));
+};
+
+/**
+ * Expands a recurrence rule into occurrence dates within a range.
+ *
+ * COUNT is applied from DTSTART, so occurrences before `rangeStart` still count towards it.
+ *
+ * @param rule - Parsed recurrence rule
+ * @param dtstart - First possible occurrence; also supplies the local time of day
+ * @param rangeStart - Earliest occurrence to return (inclusive)
+ * @param rangeEnd - Latest occurrence to return (inclusive)
+ * @param timeZone - IANA timezone the rule is expanded in, e.g. the club's `America/New_York`
+ * @returns Occurrence dates in ascending order, at most MAX_OCCURRENCES
+ */
+export const expandRRule = (rule: RecurrenceRule, dtstart: Date, rangeStart: Date, rangeEnd: Date, timeZone = 'UTC'): Date[] => {
+	const results: Date[] = [];
+	const limit = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd;
+	// Candidates are generated on the wall clock, where weekdays and times of day are the club's
+	const localStart = toWallClock(dtstart, timeZone);
+	const localLimit = toWallClock(limit, timeZone);
+	let emitted = 0;
+
+	for (let period = 0; period < MAX_PERIODS; period++) {
+		if (periodStart(rule, localStart, period) > localLimit) {
+			break;
+		}
+
+		const localCandidates =
+			rule.freq === 'DAILY'
+				? dailyCandidates(rule, localStart, period)
+				: rule.freq === 'WEEKLY'
+				? weeklyCandidates(rule, localStart, period)
+				: monthlyCandidates(rule, localStart, period);
+
+		for (const localCandidate of localCandidates) {
+			const candidate = fromWallClock(localCandidate, timeZone);
+			if (candidate < dtstart) {
+				continue;
+			}
+			if (candidate > limit) {
+				return results;
+			}
+			emitted++;
+			if (rule.count && emitted > rule.count) {
+				return results;
+			}
+			if (candidate >= rangeStart) {
+				results.push(candidate);
+				if (results.length >= MAX_OCCURRENCES) {
+					return results;
+				}
+			}
+		}
+	}
+
+	return results;
+};
@@ -0,0 +1,95 @@
+/**
+ * Timezone Utility
+ *
+ * Converts between instants and wall-clock times in IANA timezones (e.g. `America/New_York`)
+ * using the runtime's Intl data. Shared by calendar feeds and recurrence expansion.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+	let formatter = formatterCache.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+		});
+		formatterCache.set(timeZone, formatter);
+	}
+	return formatter;
+};
+
+/**
+ * Checks whether a string is an IANA timezone the runtime knows about.
+ *
+ * @param timeZone - Timezone name, e.g. `Europe/London`
+ * @returns `true` if the timezone can be used for feeds
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+	if (!timeZone || typeof timeZone !== 'string') {
+		return false;
+	}
+	try {
+		getFormatter(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Wall-clock fields of an instant in a timezone.
+ */
+export const getLocalParts = (date: Date, timeZone: string) => {
+	const parts: Record<string, number> = {};
+	for (const part of getFormatter(timeZone).formatToParts(date)) {
+		if (part.type !== 'literal') {
+			parts[part.type] = Number(part.value);
+		}
+	}
+	return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+};
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes (e.g. -300 for US Central daylight time).
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+	const parts = getLocalParts(date, timeZone);
+	const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+	const instant = Math.floor(date.getTime() / 1000) * 1000;
+	return Math.round((asUtc - instant) / 60000);
+};
+
+/**
+ * Shifts an instant to its wall-clock time in a timezone, as a Date whose UTC fields hold the
+ * local date and time (e.g. 2024-03-06T00:00Z in New York becomes 2024-03-05T19:00Z).
+ */
+export const toWallClock = (date: Date, timeZone: string): Date => {
+	return new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * 60000);
+};
+
+/**
+ * Converts a wall-clock time (UTC fields holding the local date and time) back to an instant.
+ *
+ * A time repeated when clocks go back resolves to its first occurrence; a time skipped when
+ * clocks go forward uses the offset from before the change, so it lands after the gap (RFC 5545).
+ */
+export const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+	const offsetBefore = getTimeZoneOffset(new Date(wallClock.getTime() - DAY_MS), timeZone);
+	const offsetAfter = getTimeZoneOffset(new Date(wallClock.getTime() + DAY_MS), timeZone);
+	for (const offset of [offsetBefore, offsetAfter]) {
+		const instant = new Date(wallClock.getTime() - offset * 60000);
+		if (toWallClock(instant, timeZone).getTime() === wallClock.getTime()) {
+			return instant;
+		}
+	}
+	return new Date(wallClock.getTime() - offsetBefore * 60000);
+};
@@ -1,75 +1,155 @@
 /**
  * Token Refresh Utility
  *
- * Handles Clerk JWT token refresh using refresh tokens.
- * Allows external services to send refresh tokens instead of storing JWT tokens.
+ * Exchanges OAuth refresh tokens for new access tokens at the identity provider's token endpoint
+ * (RFC 6749 section 6), so long-lived external tools such as a dispatcher PC can keep a session
+ * without storing JWTs. The API is a confidential OAuth client configured with OAUTH_TOKEN_URL,
+ * OAUTH_CLIENT_ID and OAUTH_CLIENT_SECRET.
+ *
+ * The token endpoint must rotate refresh tokens: each exchange returns a new refresh token, and a
+ * response that repeats or omits it is refused. The API records which tokens were spent and
+ * detects reuse itself (see auth/model).
+ *
+ * Access tokens are accepted by checkAuth when the provider is the Clerk instance the API trusts
+ * and the token was issued to OAUTH_CLIENT_ID.
+ */
+
+/**
+ * Clerk's opaque OAuth access tokens start with this, so checkAuth can tell them from session JWTs
  */
+export const OAUTH_ACCESS_TOKEN_PREFIX = 'oat_';
 
-import { createClerkClient } from '@clerk/backend';
+export interface OAuthClientConfig {
+	tokenUrl: string;
+	clientId: string;
+	clientSecret: string;
+}
 
-interface TokenRefreshResult {
-  accessToken: string;
-  refreshToken: string;
-  expiresIn: number;
+export interface OAuthEnv {
+	OAUTH_TOKEN_URL?: string;
+	OAUTH_CLIENT_ID?: string;
+	OAUTH_CLIENT_SECRET?: string;
+}
+
+export interface TokenSet {
+	accessToken: string;
+	refreshToken: string;
+	expiresIn: number;
+	tokenType: string;
+}
+
+export interface TokenRefreshResult {
+	error?: string;
+	/** Set when the provider refused the refresh token itself, so the caller must sign in again */
+	invalidGrant?: boolean;
+	data?: TokenSet | null;
 }
 
 /**
- * Refresh a Clerk JWT token using a refresh token
+ * Reads the OAuth client configuration. The token endpoint must use HTTPS, except on localhost so
+ * a local mock token server can stand in for the provider.
  *
- * @param refreshToken - Clerk refresh token from external service
- * @param clerkSecretKey - Clerk secret key
- * @returns New access token, refresh token, and expiration
+ * @param env - Worker environment
+ * @returns The configuration, or an error describing missing or unsafe settings
  */
-export async function refreshAccessToken(
-  refreshToken: string,
-  clerkSecretKey: string
-): Promise<TokenRefreshResult> {
-  try {
-    const clerk = createClerkClient({
-      secretKey: clerkSecretKey
-    });
+export const getOAuthConfig = (env: OAuthEnv): { error?: string; data?: OAuthClientConfig } => {
+	if (!env.OAUTH_TOKEN_URL || !env.OAUTH_CLIENT_ID || !env.OAUTH_CLIENT_SECRET) {
+		return { error: 'OAUTH_TOKEN_URL, OAUTH_CLIENT_ID and OAUTH_CLIENT_SECRET are required for token refresh' };
+	}
 
-    // Use Clerk's OAuth token refresh endpoint
-    // This assumes the refresh token was created with OAuth flow
-    const response = await fetch('https://clerk.com/oauth/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        grant_type: 'refresh_token',
-        refresh_token: refreshToken,
-        client_id: clerkSecretKey
-      })
-    });
+	let url: URL;
+	try {
+		url = new URL(env.OAUTH_TOKEN_URL);
+	} catch {
+		return { error: 'OAUTH_TOKEN_URL is not a valid URL' };
+	}
+	const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+	if (url.protocol !== 'https:' && !(isLocal && url.protocol === 'http:')) {
+		return { error: 'OAUTH_TOKEN_URL must use https' };
+	}
 
-    if (!response.ok) {
-      throw new Error(`Token refresh failed: ${response.statusText}`);
-    }
+	return { data: { tokenUrl: env.OAUTH_TOKEN_URL, clientId: env.OAUTH_CLIENT_ID, clientSecret: env.OAUTH_CLIENT_SECRET } };
+};
 
-    const data = await response.json();
+/**
+ * Exchanges a refresh token for a new access token and refresh token.
+ *
+ * The request is form-encoded with the client authenticated by HTTP Basic, as the token endpoint
+ * expects (RFC 6749 sections 2.3.1 and 6).
+ *
+ * @param refreshToken - Refresh token presented by the external tool
+ * @param config - OAuth client configuration (see getOAuthConfig)
+ * @param fetchFn - fetch implementation; injectable for tests
+ * @returns The new tokens, or an error; `invalidGrant` is set when the refresh token was refused
+ *
+ * @example
+ * ```typescript
+ * const result = await refreshAccessToken(refreshToken, config.data);
+ * if (result.data) {
+ *   // Keep result.data.refreshToken for next time; the old one is spent
+ * }
+ * ```
+ */
+export const refreshAccessToken = async (
+	refreshToken: string,
+	config: OAuthClientConfig,
+	fetchFn: typeof fetch = fetch
+): Promise<TokenRefreshResult> => {
+	let response: Response;
+	try {
+		response = await fetchFn(config.tokenUrl, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/x-www-form-urlencoded',
+				Accept: 'application/json',
+				Authorization: `Basic ${btoa(`${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`)}`,
+			},
+			body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken }).toString(),
+		});
+	} catch (error) {
+		console.error('Token refresh error:', error);
+		return { error: 'Token endpoint could not be reached' };
+	}
 
-    return {
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token || refreshToken,
-      expiresIn: data.expires_in || 3600
-    };
-  } catch (error) {
-    console.error('Token refresh error:', error);
-    throw new Error('Failed to refresh token');
-  }
-}
+	let body: any = null;
+	try {
+		body = await response.json();
+	} catch {
+		// Handled below as an invalid response
+	}
+
+	if (!response.ok) {
+		// RFC 6749 section 5.2: a spent, revoked or expired refresh token is an invalid_grant
+		if (body?.error === 'invalid_grant') {
+			return { error: 'Refresh token is invalid or expired', invalidGrant: true };
+		}
+		return { error: `Token refresh failed with ${response.status}${body?.error ? `: ${body.error}` : ''}` };
+	}
+
+	if (!body || typeof body.access_token !== 'string') {
+		return { error: 'Token endpoint returned no access token' };
+	}
+	if (typeof body.refresh_token !== 'string' || !body.refresh_token || body.refresh_token === refreshToken) {
+		return { error: 'Token endpoint did not rotate the refresh token' };
+	}
+
+	return {
+		data: {
+			accessToken: body.access_token,
+			refreshToken: body.refresh_token,
+			expiresIn: typeof body.expires_in === 'number' ? body.expires_in : 3600,
+			tokenType: typeof body.token_type === 'string' ? body.token_type : 'Bearer',
+		},
+	};
+};
 
 /**
- * Validate and extract refresh token from request header
+ * Extracts the token from a `Bearer <token>` Authorization header.
  *
  * @param authHeader - Authorization header value
- * @returns Refresh token or null
+ * @returns The token, or null if the header is missing or not a bearer token
  */
-export function extractRefreshToken(authHeader: string): string | null {
-  if (!authHeader) return null;
-
-  // Format: "Bearer refresh_token_value"
-  const parts = authHeader.split('Bearer ');
-  return parts[1] || null;
-}
+export const extractRefreshToken = (authHeader: string | null | undefined): string | null => {
+	const match = authHeader?.match(/^Bearer\s+(\S+)\s*$/i);
+	return match?.[1] ?? null;
+};
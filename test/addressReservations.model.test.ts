@@ -0,0 +1,259 @@
+// test/addressReservations.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as reservationsModel from '../src/addressReservations/model';
+import * as addressesModel from '../src/addresses/model';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+describe('Address Reservations', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('rangesOverlap', () => {
+		it('should detect overlapping ranges', () => {
+			expect(reservationsModel.rangesOverlap({ start_number: 1, end_number: 99 }, { start_number: 50, end_number: 150 })).toBe(true);
+		});
+
+		it('should treat ranges sharing an endpoint as overlapping', () => {
+			expect(reservationsModel.rangesOverlap({ start_number: 1, end_number: 99 }, { start_number: 99, end_number: 99 })).toBe(true);
+		});
+
+		it('should not flag adjacent ranges', () => {
+			expect(reservationsModel.rangesOverlap({ start_number: 1, end_number: 99 }, { start_number: 100, end_number: 199 })).toBe(false);
+		});
+	});
+
+	describe('createReservation', () => {
+		it('should reject a range that ends before it starts', async () => {
+			const result = await reservationsModel.createReservation(mockDb, {
+				club_id: 1,
+				start_number: 200,
+				end_number: 100,
+			});
+
+			expect(result.error).toMatch(/less than or equal/);
+		});
+
+		it('should reject a range outside DCC addresses', async () => {
+			const result = await reservationsModel.createReservation(mockDb, {
+				club_id: 1,
+				start_number: 0,
+				end_number: 10,
+			});
+
+			expect(result.error).toMatch(/must fall between/);
+		});
+
+		it('should require a user for allocation blocks', async () => {
+			const result = await reservationsModel.createReservation(mockDb, {
+				club_id: 1,
+				start_number: 200,
+				end_number: 299,
+				kind: 'allocation',
+			});
+
+			expect(result.error).toMatch(/require a user_id/);
+		});
+
+		it('should reject a range overlapping an existing reservation', async () => {
+			mockDb.select = selectSequence([{ id: 1, club_id: 1, start_number: 1, end_number: 99, kind: 'reserved' }]);
+
+			const result = await reservationsModel.createReservation(mockDb, {
+				club_id: 1,
+				start_number: 90,
+				end_number: 120,
+			});
+
+			expect(result.error).toMatch(/overlaps existing reservation 1-99/);
+		});
+
+		it('should create a reserved range', async () => {
+			mockDb.select = selectSequence([]);
+			mockDb.insert = vi.fn().mockReturnValue({
+				values: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([{ id: 1, club_id: 1, start_number: 1, end_number: 99, kind: 'reserved' }]),
+				}),
+			});
+
+			const result = await reservationsModel.createReservation(mockDb, {
+				club_id: 1,
+				start_number: 1,
+				end_number: 99,
+				description: 'Club-owned power',
+			});
+
+			expect(result.error).toBeUndefined();
+			expect(result.data?.[0]?.kind).toBe('reserved');
+		});
+	});
+
+	describe('address conflicts', () => {
+		it('should name the holder and locomotive of a clashing in_use address', async () => {
+			mockDb.select = selectSequence(
+				[{ id: 10, number: 1234, in_use: true, user_id: 2, club_id: 1, road: 'BNSF', road_number: 5501 }],
+				[{ id: 2, first_name: 'Jane', last_name: 'Doe' }]
+			);
+
+			const result = await addressesModel.createAddress(mockDb, {
+				id: 0,
+				number: 1234,
+				in_use: true,
+				user_id: 1,
+				club_id: 1,
+			});
+
+			expect(result.error).toBe('Address number 1234 already exists in this club and is in use by Jane Doe on BNSF 5501');
+			expect(result.conflict).toMatchObject({
+				reason: 'in_use',
+				address_id: 10,
+				holder_id: 2,
+				holder_name: 'Jane Doe',
+				road: 'BNSF',
+				road_number: 5501,
+			});
+		});
+
+		it('should refuse a number inside a reserved range', async () => {
+			mockDb.select = selectSequence([], [{ id: 4, club_id: 1, start_number: 1, end_number: 99, kind: 'reserved', description: 'Club-owned power' }]);
+
+			const result = await addressesModel.createAddress(mockDb, {
+				id: 0,
+				number: 42,
+				in_use: true,
+				user_id: 1,
+				club_id: 1,
+			});
+
+			expect(result.error).toBe('Address number 42 is reserved in this club (1-99): Club-owned power');
+			expect(result.conflict?.reason).toBe('reserved');
+		});
+
+		it('should refuse a number inside another member allocation block', async () => {
+			// in_use: false skips the in_use lookup, so the reservations query comes first
+			mockDb.select = selectSequence(
+				[{ id: 5, club_id: 1, start_number: 200, end_number: 299, kind: 'allocation', user_id: 7 }],
+				[{ id: 7, first_name: 'Sam', last_name: 'Hill' }]
+			);
+
+			const result = await addressesModel.createAddress(mockDb, {
+				id: 0,
+				number: 250,
+				in_use: false,
+				user_id: 1,
+				club_id: 1,
+			});
+
+			expect(result.error).toBe('Address number 250 is in an allocation block held by Sam Hill (200-299)');
+			expect(result.conflict?.reason).toBe('allocated');
+		});
+
+		it('should refuse the club default address', async () => {
+			mockDb.select = selectSequence([], [], [{ dcc_default_address: 3 }]);
+
+			const result = await addressesModel.createAddress(mockDb, {
+				id: 0,
+				number: 3,
+				in_use: true,
+				user_id: 1,
+				club_id: 1,
+			});
+
+			expect(result.error).toBe('Address number 3 is reserved in this club: DCC default address, which new decoders answer to');
+			expect(result.conflict).toEqual({ number: 3, reason: 'reserved', description: 'DCC default address, which new decoders answer to' });
+		});
+
+		it('should refuse moving an address onto the club default address, even inside an own block', async () => {
+			// in_use: false skips the in_use lookup, so the reservations query comes first
+			mockDb.select = selectSequence(
+				[{ id: 5, club_id: 1, start_number: 1, end_number: 9, kind: 'allocation', user_id: 1 }],
+				[{ dcc_default_address: 3 }]
+			);
+			mockDb.update = vi.fn();
+
+			const result = await addressesModel.updateAddress(mockDb, '10', {
+				id: 10,
+				number: 3,
+				in_use: false,
+				user_id: 1,
+				club_id: 1,
+			});
+
+			expect(result.conflict?.reason).toBe('reserved');
+			expect(mockDb.update).not.toHaveBeenCalled();
+		});
+
+		it('should let admins bypass reserved ranges', async () => {
+			mockDb.select = selectSequence([]);
+			mockDb.insert = vi.fn().mockReturnValue({
+				values: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([{ id: 11, number: 42, in_use: true, user_id: 1, club_id: 1 }]),
+				}),
+			});
+
+			const result = await addressesModel.createAddress(
+				mockDb,
+				{ id: 0, number: 42, in_use: true, user_id: 1, club_id: 1 },
+				{ bypassReservations: true }
+			);
+
+			expect(result.error).toBeUndefined();
+			expect(mockDb.select).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('getAvailableAddressNumbers', () => {
+		it('should skip in_use numbers, the factory default and reserved ranges', async () => {
+			mockDb.select = selectSequence(
+				[{ dcc_default_address: 3 }],
+				[{ number: 100 }, { number: 102 }],
+				[{ id: 1, club_id: 1, start_number: 1, end_number: 99, kind: 'reserved' }]
+			);
+
+			const result = await addressesModel.getAvailableAddressNumbers(mockDb, 1, 3);
+
+			expect(result.data).toEqual([101, 103, 104]);
+		});
+
+		it('should suggest numbers from the member own allocation block first', async () => {
+			mockDb.select = selectSequence(
+				[{ dcc_default_address: 3 }],
+				[{ number: 500 }],
+				[
+					{ id: 1, club_id: 1, start_number: 1, end_number: 99, kind: 'reserved' },
+					{ id: 2, club_id: 1, start_number: 500, end_number: 509, kind: 'allocation', user_id: 9 },
+				]
+			);
+
+			const result = await addressesModel.getAvailableAddressNumbers(mockDb, 1, 2, 9);
+
+			expect(result.data).toEqual([501, 502]);
+		});
+
+		it('should never suggest the club default address', async () => {
+			mockDb.select = selectSequence([{ dcc_default_address: 3 }], [{ number: 1 }, { number: 2 }], []);
+
+			const result = await addressesModel.getAvailableAddressNumbers(mockDb, 1, 2);
+
+			expect(result.data).toEqual([4, 5]);
+		});
+
+		it('should follow a club that changed or cleared its default address', async () => {
+			mockDb.select = selectSequence([{ dcc_default_address: 1 }], [], []);
+			expect((await addressesModel.getAvailableAddressNumbers(mockDb, 1, 2)).data).toEqual([2, 3]);
+
+			mockDb.select = selectSequence([{ dcc_default_address: null }], [{ number: 1 }], []);
+			expect((await addressesModel.getAvailableAddressNumbers(mockDb, 1, 2)).data).toEqual([2, 3]);
+		});
+	});
+});
@@ -0,0 +1,187 @@
+// test/apiKeys.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import * as apiKeysModel from '../src/apiKeys/model';
+import { parseScopes, scopesAllow, validateScopes } from '../src/apiKeys/scopes';
+import { authorize, can } from '../src/utils/policy';
+import type { Actor } from '../src/utils/policy';
+import { sha256Hex } from '../src/utils/signing';
+
+const now = new Date('2024-11-14T12:00:00Z');
+
+const keyRow = (overrides: Record<string, unknown> = {}) => ({
+	id: 3,
+	user_id: 4,
+	club_id: 1,
+	name: 'Yard panel',
+	prefix: 'lh_4f0c9a1e',
+	key_hash: 'hash',
+	scopes: 'read:sessions,write:reports',
+	expires_at: null,
+	last_used_at: null,
+	revoked_at: null,
+	created_at: now,
+	...overrides,
+});
+
+describe('API key scopes', () => {
+	it('should only accept known scopes', () => {
+		expect(validateScopes(['read:sessions', 'write:reports'])).toBeNull();
+		expect(validateScopes(['delete:everything'])).toBe('Unknown scope: delete:everything');
+		expect(validateScopes([])).toMatch(/^scopes must be a non-empty array/);
+		expect(validateScopes('read:sessions')).toMatch(/^scopes must be a non-empty array/);
+	});
+
+	it('should drop stored scopes that no longer exist', () => {
+		expect(parseScopes('read:sessions,read:retired')).toEqual(['read:sessions']);
+		expect(parseScopes(null)).toEqual([]);
+	});
+
+	it('should let write scopes read and read scopes only read', () => {
+		expect(scopesAllow(['read:sessions'], 'read', 'scheduledSession')).toBe(true);
+		expect(scopesAllow(['read:sessions'], 'write', 'appointment')).toBe(false);
+		expect(scopesAllow(['write:reports'], 'read', 'towerReport')).toBe(true);
+		expect(scopesAllow(['write:reports'], 'write', 'comment')).toBe(true);
+		expect(scopesAllow(['write:reports'], 'write', 'issue')).toBe(false);
+	});
+});
+
+describe('Policy for API key requests', () => {
+	const keyActor = (overrides: Partial<Actor> = {}): Actor => ({
+		userId: 4,
+		isM2M: false,
+		isSuperAdmin: false,
+		isMember: true,
+		capabilities: ['file_reports', 'manage_sessions'],
+		scopes: ['read:sessions', 'write:reports'],
+		...overrides,
+	});
+
+	it('should allow what both the scopes and the member allow', () => {
+		expect(can(keyActor(), 'read', 'scheduledSession')).toBe(true);
+		expect(can(keyActor(), 'write', 'towerReport')).toBe(true);
+	});
+
+	it('should refuse what the scopes leave out, even to the member', () => {
+		// The member manages sessions, but the key may only read them
+		expect(can(keyActor(), 'write', 'scheduledSession')).toBe(false);
+		expect(can(keyActor(), 'read', 'notice')).toBe(false);
+	});
+
+	it('should refuse what the member may not do, whatever the scopes', () => {
+		expect(can(keyActor({ scopes: ['write:notices'] }), 'write', 'notice')).toBe(false);
+		expect(can(keyActor({ isMember: false }), 'read', 'scheduledSession')).toBe(false);
+	});
+
+	it('should not let a read-only key change notification preferences', async () => {
+		const c = {
+			var: { userId: 4, isMember: true, capabilities: [], apiKey: { scopes: ['read:members'] } },
+			json: vi.fn((body: unknown, status: number) => ({ body, status })),
+		};
+		const next = vi.fn();
+
+		expect(await authorize('notificationPreference', 'write')(c, next)).toEqual({
+			body: { error: 'Unauthorized: No write access to notificationPreference' },
+			status: 403,
+		});
+		expect(next).not.toHaveBeenCalled();
+		expect(can(keyActor({ scopes: ['write:members'] }), 'write', 'notificationPreference')).toBe(false);
+	});
+
+	it('should never let a key manage API keys', () => {
+		expect(can(keyActor({ isSuperAdmin: true }), 'read', 'apiKey')).toBe(false);
+		expect(can(keyActor(), 'write', 'apiKey')).toBe(false);
+	});
+});
+
+describe('API key model', () => {
+	it('should generate distinct keys with the lh_ prefix', () => {
+		const key = apiKeysModel.generateApiKey();
+		expect(key).toMatch(/^lh_[0-9a-f]{64}$/);
+		expect(apiKeysModel.generateApiKey()).not.toBe(key);
+	});
+
+	it('should only accept expiry times in the future', () => {
+		expect(apiKeysModel.validateExpiry(undefined, now)).toBeNull();
+		expect(apiKeysModel.validateExpiry('2024-12-01T00:00:00Z', now)).toBeNull();
+		expect(apiKeysModel.validateExpiry('2024-11-01T00:00:00Z', now)).toBe('expires_at must be in the future');
+		expect(apiKeysModel.validateExpiry('next tuesday', now)).toBe('expires_at must be an ISO 8601 date');
+	});
+
+	it('should store a hash of the key and return the key once', async () => {
+		let inserted: any = null;
+		const db = {
+			insert: vi.fn().mockReturnValue({
+				values: vi.fn().mockImplementation((values) => {
+					inserted = values;
+					return { returning: vi.fn().mockImplementation(async () => [keyRow(values)]) };
+				}),
+			}),
+		} as any;
+
+		const result = await apiKeysModel.createApiKey(db, {
+			user_id: 4,
+			club_id: 1,
+			name: 'Yard panel',
+			scopes: ['read:sessions', 'read:sessions', 'write:reports'],
+		});
+
+		const key = result.data!.key;
+		expect(inserted.key_hash).toBe(await sha256Hex(key));
+		expect(JSON.stringify(inserted)).not.toContain(key);
+		expect(inserted.prefix).toBe(key.slice(0, 11));
+		expect(inserted.scopes).toBe('read:sessions,write:reports');
+		expect(result.data).not.toHaveProperty('key_hash');
+		expect(result.data!.scopes).toEqual(['read:sessions', 'write:reports']);
+	});
+
+	describe('verifyApiKey', () => {
+		/**
+		 * A database holding one key, recording last-used updates
+		 */
+		const mockDatabase = (rows: any[]) => {
+			const updates: any[] = [];
+			const db = {
+				select: vi.fn().mockReturnValue({
+					from: vi.fn().mockReturnValue({
+						innerJoin: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(rows) }),
+					}),
+				}),
+				update: vi.fn().mockReturnValue({
+					set: vi.fn().mockImplementation((values) => {
+						updates.push(values);
+						return { where: vi.fn().mockResolvedValue([]) };
+					}),
+				}),
+			} as any;
+			return { db, updates };
+		};
+
+		it('should accept a live key and record its use', async () => {
+			const { db, updates } = mockDatabase([{ key: keyRow(), user_token: 'user_2abc', user_deleted_at: null }]);
+
+			const result = await apiKeysModel.verifyApiKey(db, 'lh_key', now);
+
+			expect(result.data).toEqual({ id: 3, user_id: 4, club_id: 1, user_token: 'user_2abc', scopes: ['read:sessions', 'write:reports'] });
+			expect(updates).toEqual([{ last_used_at: now }]);
+		});
+
+		it('should refuse unknown, revoked and expired keys', async () => {
+			expect((await apiKeysModel.verifyApiKey(mockDatabase([]).db, 'lh_key', now)).error).toBe('Invalid API key');
+			expect(
+				(await apiKeysModel.verifyApiKey(mockDatabase([{ key: keyRow({ revoked_at: now }), user_token: 'user_2abc' }]).db, 'lh_key', now))
+					.error
+			).toBe('API key has been revoked');
+			expect(
+				(await apiKeysModel.verifyApiKey(mockDatabase([{ key: keyRow({ expires_at: now }), user_token: 'user_2abc' }]).db, 'lh_key', now))
+					.error
+			).toBe('API key has expired');
+		});
+
+		it('should refuse keys of deleted users', async () => {
+			const { db, updates } = mockDatabase([{ key: keyRow(), user_token: 'user_2abc', user_deleted_at: now }]);
+
+			expect((await apiKeysModel.verifyApiKey(db, 'lh_key', now)).error).toBe('Invalid API key');
+			expect(updates).toEqual([]);
+		});
+	});
+});
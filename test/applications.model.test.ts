@@ -0,0 +1,192 @@
+// test/applications.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as applicationsModel from '../src/applications/model';
+import { validateTransition } from '../src/applications/workflow';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+/**
+ * Builds an insert mock whose successive calls return the given rows from `.returning()`.
+ * Every call's values are recorded in `insertedValues`.
+ */
+const insertSequence = (insertedValues: any[], ...resultSets: any[][]) => {
+	const insert = vi.fn();
+	resultSets.forEach((rows) => {
+		insert.mockReturnValueOnce({
+			values: vi.fn().mockImplementation((values) => {
+				insertedValues.push(values);
+				return Object.assign(Promise.resolve(), { returning: vi.fn().mockResolvedValue(rows) });
+			}),
+		});
+	});
+	return insert;
+};
+
+const application = {
+	id: 9,
+	club_id: 1,
+	name: 'Dana Whitfield',
+	email: 'dana@example.com',
+	phone_number: '555-0100',
+	status: 'under_review',
+	interview_at: null,
+	invite_token_id: null,
+};
+
+describe('Application workflow', () => {
+	it('should allow moves along the review workflow', () => {
+		expect(validateTransition('submitted', 'under_review')).toBeNull();
+		expect(validateTransition('under_review', 'interview_scheduled')).toBeNull();
+		expect(validateTransition('interview_scheduled', 'approved')).toBeNull();
+		expect(validateTransition('under_review', 'withdrawn')).toBeNull();
+	});
+
+	it('should treat decisions as final', () => {
+		expect(validateTransition('approved', 'under_review')).toBe('Cannot move application from approved to under_review');
+		expect(validateTransition('rejected', 'approved')).toBe('Cannot move application from rejected to approved');
+	});
+
+	it('should require review before approval', () => {
+		expect(validateTransition('submitted', 'approved')).toBe('Cannot move application from submitted to approved');
+	});
+
+	it('should reject unknown statuses', () => {
+		expect(validateTransition('submitted', 'accepted')).toMatch(/Invalid status "accepted"/);
+	});
+});
+
+describe('Applications Model', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('transitionApplication', () => {
+		it('should mint an invite token and queue a welcome email on approval', async () => {
+			const inserted: any[] = [];
+			const token = { id: 4, token: 'abc123', club_id: 1, expires_at: new Date('2024-11-23T10:00:00Z') };
+			let updatedValues: any;
+
+			// Club lookup for the token, suppression check, club branding
+			mockDb.select = selectSequence([{ id: 1, name: 'Valley Model Railroad' }], [], [{ name: 'Valley Model Railroad' }]);
+			mockDb.insert = insertSequence(inserted, [token], [{ id: 31 }], [{ id: 77, recipient_email: 'dana@example.com' }]);
+			mockDb.update = vi.fn().mockReturnValue({
+				set: vi.fn().mockImplementation((values) => {
+					updatedValues = values;
+					return {
+						where: vi.fn().mockReturnValue({
+							returning: vi.fn().mockResolvedValue([{ ...application, ...values }]),
+						}),
+					};
+				}),
+			});
+
+			const result = await applicationsModel.transitionApplication(mockDb, application, {
+				status: 'approved',
+				actorId: 7,
+				note: 'Great interview',
+				appUrl: 'https://locomotivehouse.com/',
+			});
+
+			expect(result.error).toBeUndefined();
+			expect(updatedValues).toMatchObject({ status: 'approved', reviewer_id: 7, decision_note: 'Great interview', invite_token_id: 4 });
+			expect(updatedValues.decided_at).toBeInstanceOf(Date);
+			expect(result.data?.invite_token).toEqual(token);
+			expect(result.data?.email).toMatchObject({ id: 77 });
+
+			// Invite token, review note, welcome email
+			expect(inserted[1]).toEqual({ application_id: 9, user_id: 7, body: 'Great interview' });
+			expect(inserted[2].recipient_email).toBe('dana@example.com');
+			expect(inserted[2].subject).toBe('Welcome to Valley Model Railroad');
+			expect(inserted[2].body).toContain('https://locomotivehouse.com/join?token=abc123');
+		});
+
+		it('should not approve when the invite token cannot be created', async () => {
+			mockDb.select = selectSequence([]);
+
+			const result = await applicationsModel.transitionApplication(mockDb, application, {
+				status: 'approved',
+				actorId: 7,
+				appUrl: 'https://locomotivehouse.com',
+			});
+
+			expect(result.error).toBe('Club not found');
+			expect(mockDb.update).not.toHaveBeenCalled();
+		});
+
+		it('should require an interview time to schedule an interview', async () => {
+			const result = await applicationsModel.transitionApplication(mockDb, application, {
+				status: 'interview_scheduled',
+				actorId: 7,
+				appUrl: 'https://locomotivehouse.com',
+			});
+
+			expect(result.error).toBe('interview_at is required to schedule an interview');
+		});
+
+		it('should reject changes outside the workflow', async () => {
+			const result = await applicationsModel.transitionApplication(
+				mockDb,
+				{ ...application, status: 'rejected' },
+				{ status: 'approved', actorId: 7, appUrl: 'https://locomotivehouse.com' }
+			);
+
+			expect(result.error).toBe('Cannot move application from rejected to approved');
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('castApplicationVote', () => {
+		it('should replace an earlier vote by the same reviewer', async () => {
+			const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([]) });
+			mockDb.select = vi
+				.fn()
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValue({
+						where: vi.fn().mockResolvedValue([{ application_id: 9, user_id: 7, vote: 'abstain' }]),
+					}),
+				})
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValue({
+						leftJoin: vi.fn().mockReturnValue({
+							where: vi.fn().mockReturnValue({
+								orderBy: vi.fn().mockResolvedValue([
+									{ user_id: 7, vote: 'approve' },
+									{ user_id: 8, vote: 'reject' },
+									{ user_id: 9, vote: 'approve' },
+								]),
+							}),
+						}),
+					}),
+				});
+			mockDb.update = vi.fn().mockReturnValue({ set });
+
+			const result = await applicationsModel.castApplicationVote(mockDb, application, 7, 'approve');
+
+			expect(set).toHaveBeenCalledWith(expect.objectContaining({ vote: 'approve' }));
+			expect(mockDb.insert).not.toHaveBeenCalled();
+			expect(result.data?.tally).toEqual({ approve: 2, reject: 1, abstain: 0 });
+		});
+
+		it('should close voting once the application is decided', async () => {
+			const result = await applicationsModel.castApplicationVote(mockDb, { ...application, status: 'approved' }, 7, 'reject');
+
+			expect(result.error).toBe('Voting is closed for this application');
+		});
+
+		it('should reject unknown votes', async () => {
+			const result = await applicationsModel.castApplicationVote(mockDb, application, 7, 'maybe');
+
+			expect(result.error).toMatch(/Invalid vote/);
+		});
+	});
+});
@@ -0,0 +1,136 @@
+// test/applications.spamGuard.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as spamGuard from '../src/applications/spamGuard';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const submission: spamGuard.Submission = {
+	clubId: 1,
+	ipAddress: '203.0.113.7',
+	email: 'Dana@Example.com',
+	phoneNumber: '555-0100',
+	honeypot: '',
+};
+
+const passingVerifier: spamGuard.ChallengeVerifier = { verify: vi.fn().mockResolvedValue(true) };
+const failingVerifier: spamGuard.ChallengeVerifier = { verify: vi.fn().mockResolvedValue(false) };
+
+describe('Application spam guard', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('screenSubmission', () => {
+		it('should allow a first submission', async () => {
+			mockDb.select = selectSequence([{ count: 0 }], [{ count: 0 }], []);
+
+			const result = await spamGuard.screenSubmission(mockDb, submission, passingVerifier);
+
+			expect(result.data).toEqual({ allowed: true });
+			expect(passingVerifier.verify).toHaveBeenCalledWith(undefined, '203.0.113.7');
+		});
+
+		it('should reject a filled-in honeypot without touching the database', async () => {
+			const result = await spamGuard.screenSubmission(mockDb, { ...submission, honeypot: 'https://cheap-pills.example' });
+
+			expect(result.data).toMatchObject({ allowed: false, reason: 'honeypot' });
+			expect(mockDb.select).not.toHaveBeenCalled();
+		});
+
+		it('should reject a failed challenge', async () => {
+			const result = await spamGuard.screenSubmission(mockDb, { ...submission, challengeToken: 'bad' }, failingVerifier);
+
+			expect(result.data).toMatchObject({ allowed: false, reason: 'challenge_failed' });
+			expect(failingVerifier.verify).toHaveBeenCalledWith('bad', '203.0.113.7');
+		});
+
+		it('should rate limit by IP address', async () => {
+			mockDb.select = selectSequence([{ count: spamGuard.MAX_SUBMISSIONS_PER_IP }]);
+
+			const result = await spamGuard.screenSubmission(mockDb, submission);
+
+			expect(result.data).toMatchObject({ allowed: false, reason: 'rate_limited_ip' });
+		});
+
+		it('should rate limit by email address', async () => {
+			mockDb.select = selectSequence([{ count: 1 }], [{ count: spamGuard.MAX_SUBMISSIONS_PER_EMAIL }]);
+
+			const result = await spamGuard.screenSubmission(mockDb, submission);
+
+			expect(result.data).toMatchObject({ allowed: false, reason: 'rate_limited_email' });
+		});
+
+		it('should reject a recent duplicate application', async () => {
+			mockDb.select = selectSequence([{ count: 1 }], [{ count: 1 }], [{ id: 9 }]);
+
+			const result = await spamGuard.screenSubmission(mockDb, submission);
+
+			expect(result.data).toMatchObject({ allowed: false, reason: 'duplicate' });
+		});
+	});
+
+	describe('logSubmission', () => {
+		it('should log a rejected submission with its payload, minus the honeypot and challenge', async () => {
+			const values = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ id: 40 }]) });
+			mockDb.insert = vi.fn().mockReturnValue({ values });
+
+			await spamGuard.logSubmission(
+				mockDb,
+				submission,
+				{ allowed: false, reason: 'duplicate' },
+				{ payload: { name: 'Dana Whitfield', website: '', challenge_token: 'tok' } }
+			);
+
+			expect(values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					email: 'dana@example.com',
+					outcome: 'rejected',
+					reason: 'duplicate',
+					payload: JSON.stringify({ name: 'Dana Whitfield' }),
+				})
+			);
+		});
+
+		it('should link an accepted submission to its application', async () => {
+			const values = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ id: 41 }]) });
+			mockDb.insert = vi.fn().mockReturnValue({ values });
+
+			await spamGuard.logSubmission(mockDb, submission, { allowed: true }, { applicationId: 12 });
+
+			expect(values).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'accepted', application_id: 12, payload: null }));
+		});
+	});
+
+	describe('createTurnstileVerifier', () => {
+		it('should post the token to Turnstile and report its verdict', async () => {
+			const fetchFn = vi.fn().mockResolvedValue(new Response(JSON.stringify({ success: true })));
+			const verifier = spamGuard.createTurnstileVerifier('secret', fetchFn);
+
+			expect(await verifier.verify('token', '203.0.113.7')).toBe(true);
+
+			const [url, init] = fetchFn.mock.calls[0];
+			expect(url).toBe('https://challenges.cloudflare.com/turnstile/v0/siteverify');
+			expect((init.body as FormData).get('response')).toBe('token');
+			expect((init.body as FormData).get('remoteip')).toBe('203.0.113.7');
+		});
+
+		it('should fail without a token or when Turnstile says no', async () => {
+			const fetchFn = vi.fn().mockResolvedValue(new Response(JSON.stringify({ success: false })));
+			const verifier = spamGuard.createTurnstileVerifier('secret', fetchFn);
+
+			expect(await verifier.verify(undefined)).toBe(false);
+			expect(await verifier.verify('token')).toBe(false);
+			expect(fetchFn).toHaveBeenCalledTimes(1);
+		});
+	});
+});
@@ -0,0 +1,202 @@
+// test/attachments.test.ts
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as attachmentsModel from '../src/attachments/model';
+import { getImageDimensions, sniffContentType } from '../src/utils/media';
+import { createSignedPath, verifySignedPath } from '../src/utils/signing';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+// Local R2 bucket provided by Miniflare from the wrangler.toml binding
+const bucket = (env as unknown as { ATTACHMENTS: R2Bucket }).ATTACHMENTS;
+
+/**
+ * Builds the first bytes of a PNG with the given dimensions.
+ */
+const pngHeader = (width: number, height: number) => {
+	const bytes = new Uint8Array(33);
+	bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+	new DataView(bytes.buffer).setUint32(16, width);
+	new DataView(bytes.buffer).setUint32(20, height);
+	return bytes;
+};
+
+/**
+ * Builds a minimal JPEG: SOI, an APP0 segment and a baseline SOF0 frame header.
+ */
+const jpegHeader = (width: number, height: number) => {
+	return new Uint8Array([
+		0xff,
+		0xd8,
+		0xff,
+		0xe0,
+		0x00,
+		0x04,
+		0x00,
+		0x00,
+		0xff,
+		0xc0,
+		0x00,
+		0x11,
+		0x08,
+		height >> 8,
+		height & 0xff,
+		width >> 8,
+		width & 0xff,
+		0x03,
+	]);
+};
+
+describe('Media utility', () => {
+	it('should identify files by their leading bytes', () => {
+		expect(sniffContentType(pngHeader(1, 1))).toBe('image/png');
+		expect(sniffContentType(jpegHeader(1, 1))).toBe('image/jpeg');
+		expect(sniffContentType(new TextEncoder().encode('GIF89a......'))).toBe('image/gif');
+		expect(sniffContentType(new TextEncoder().encode('%PDF-1.7'))).toBe('application/pdf');
+		expect(sniffContentType(new TextEncoder().encode('MZ executable'))).toBeNull();
+	});
+
+	it('should read PNG and JPEG dimensions', () => {
+		expect(getImageDimensions(pngHeader(1600, 1200), 'image/png')).toEqual({ width: 1600, height: 1200 });
+		expect(getImageDimensions(jpegHeader(640, 480), 'image/jpeg')).toEqual({ width: 640, height: 480 });
+	});
+
+	it('should read WebP extended-format dimensions', () => {
+		const bytes = new Uint8Array(30);
+		bytes.set(new TextEncoder().encode('RIFF'), 0);
+		bytes.set(new TextEncoder().encode('WEBPVP8X'), 8);
+		bytes.set([0x7f, 0x07, 0x00, 0xdf, 0x04, 0x00], 24); // 1920 x 1248, stored minus one
+
+		expect(getImageDimensions(bytes, 'image/webp')).toEqual({ width: 1920, height: 1248 });
+	});
+});
+
+describe('Signed URLs', () => {
+	const now = new Date('2024-11-09T10:00:00Z');
+
+	it('should accept an untampered path before it expires', async () => {
+		const signed = await createSignedPath('secret', '/api/attachments/3/download', new Date('2024-11-09T10:15:00Z'));
+		const params = new URL(`https://example.com${signed}`).searchParams;
+
+		expect(await verifySignedPath('secret', '/api/attachments/3/download', params.get('expires')!, params.get('signature')!, now)).toBe(
+			true
+		);
+	});
+
+	it('should reject another attachment, a wrong secret or an expired link', async () => {
+		const signed = await createSignedPath('secret', '/api/attachments/3/download', new Date('2024-11-09T10:15:00Z'));
+		const params = new URL(`https://example.com${signed}`).searchParams;
+		const expires = params.get('expires')!;
+		const signature = params.get('signature')!;
+
+		expect(await verifySignedPath('secret', '/api/attachments/4/download', expires, signature, now)).toBe(false);
+		expect(await verifySignedPath('other', '/api/attachments/3/download', expires, signature, now)).toBe(false);
+		expect(await verifySignedPath('secret', '/api/attachments/3/download', expires, signature, new Date('2024-11-09T10:16:00Z'))).toBe(
+			false
+		);
+	});
+});
+
+describe('Attachments Model', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('validateUpload', () => {
+		it('should accept an image and record its dimensions', () => {
+			const result = attachmentsModel.validateUpload('image/png', pngHeader(800, 600).buffer);
+
+			expect(result.data).toEqual({ content_type: 'image/png', width: 800, height: 600 });
+		});
+
+		it('should reject contents that do not match the declared type', () => {
+			const result = attachmentsModel.validateUpload('image/jpeg', pngHeader(800, 600).buffer);
+
+			expect(result.error).toBe('File contents do not match its type');
+		});
+
+		it('should reject unsupported types and oversized files', () => {
+			expect(attachmentsModel.validateUpload('application/zip', new ArrayBuffer(10)).error).toMatch(/Unsupported file type/);
+			expect(attachmentsModel.validateUpload('image/png', new ArrayBuffer(attachmentsModel.MAX_ATTACHMENT_BYTES + 1)).error).toMatch(
+				/too large/
+			);
+		});
+	});
+
+	describe('createAttachment', () => {
+		it('should store the file in R2 and record it', async () => {
+			const values = vi.fn().mockImplementation((row) => ({
+				returning: vi.fn().mockResolvedValue([{ id: 3, ...row }]),
+			}));
+			mockDb.insert = vi.fn().mockReturnValue({ values });
+
+			const result = await attachmentsModel.createAttachment(mockDb, bucket, {
+				club_id: 1,
+				user_id: 4,
+				filename: 'turnout-7.png',
+				content_type: 'image/png',
+				body: pngHeader(1600, 1200).buffer,
+			});
+
+			const attachment = result.data![0];
+			expect(attachment).toMatchObject({ club_id: 1, filename: 'turnout-7.png', size: 33, width: 1600, height: 1200 });
+			expect(attachment.key).toMatch(/^clubs\/1\//);
+
+			const stored = await bucket.get(attachment.key);
+			expect(stored?.httpMetadata?.contentType).toBe('image/png');
+			expect(new Uint8Array(await stored!.arrayBuffer())).toEqual(pngHeader(1600, 1200));
+		});
+
+		it('should remove the stored file if recording it fails', async () => {
+			let storedKey = '';
+			mockDb.insert = vi.fn().mockReturnValue({
+				values: vi.fn().mockImplementation((row) => {
+					storedKey = row.key;
+					return { returning: vi.fn().mockRejectedValue(new Error('insert failed')) };
+				}),
+			});
+
+			const result = await attachmentsModel.createAttachment(mockDb, bucket, {
+				club_id: 1,
+				user_id: 4,
+				filename: 'wiring.png',
+				content_type: 'image/png',
+				body: pngHeader(10, 10).buffer,
+			});
+
+			expect(result.error).toBeInstanceOf(Error);
+			expect(await bucket.head(storedKey)).toBeNull();
+		});
+
+		it('should reject links to issues outside the club', async () => {
+			mockDb.select = vi.fn().mockReturnValue({
+				from: vi.fn().mockReturnValue({
+					innerJoin: vi.fn().mockReturnValue({
+						where: vi.fn().mockResolvedValue([]),
+					}),
+				}),
+			});
+
+			const result = await attachmentsModel.createAttachment(mockDb, bucket, {
+				club_id: 1,
+				user_id: 4,
+				issue_id: 99,
+				filename: 'wiring.png',
+				content_type: 'image/png',
+				body: pngHeader(10, 10).buffer,
+			});
+
+			expect(result.error).toBe('Issue not found in this club');
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+	});
+});
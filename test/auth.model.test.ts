@@ -0,0 +1,183 @@
+// test/auth.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import * as authModel from '../src/auth/model';
+import { sha256Hex } from '../src/utils/signing';
+import type { OAuthClientConfig } from '../src/utils/tokenRefresh';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const config: OAuthClientConfig = {
+	tokenUrl: 'http://localhost:8788/oauth/token',
+	clientId: 'dispatcher-client',
+	clientSecret: 's3cret',
+};
+
+const tokenResponse = (status: number, payload: unknown) =>
+	vi.fn(
+		async () => new Response(JSON.stringify(payload), { status, headers: { 'Content-Type': 'application/json' } })
+	) as unknown as typeof fetch;
+
+describe('Auth Model', () => {
+	let mockDb: MockDB;
+	let insertValues: ReturnType<typeof vi.fn>;
+	let updateSet: ReturnType<typeof vi.fn>;
+	let updateWhere: ReturnType<typeof vi.fn>;
+
+	/**
+	 * Mocks the refresh token table: `created` is what the first-use insert returns, `existing`
+	 * what the lookup finds and `spent` what the conditional spend returns.
+	 */
+	const mockTokens = ({ created = [], existing = [], spent = [] }: { created?: any[]; existing?: any[]; spent?: any[] }) => {
+		insertValues = vi.fn().mockReturnValue({
+			onConflictDoNothing: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue(created) }),
+		});
+		mockDb.insert = vi.fn().mockReturnValue({ values: insertValues });
+		mockDb.select = vi.fn().mockReturnValue({
+			from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(existing) }),
+		});
+		updateWhere = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue(spent) });
+		updateSet = vi.fn().mockReturnValue({ where: updateWhere });
+		mockDb.update = vi.fn().mockReturnValue({ set: updateSet });
+		mockDb.delete = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([]) });
+	};
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('spendRefreshToken', () => {
+		it('should start a new family for a token issued at sign-in', async () => {
+			mockTokens({ created: [{ id: 1, family_id: 'family-1' }] });
+
+			const result = await authModel.spendRefreshToken(mockDb, 'rt_1');
+
+			expect(result).toEqual({ data: { id: 1, family_id: 'family-1', firstUse: true } });
+			expect(insertValues).toHaveBeenCalledWith(
+				expect.objectContaining({ token_hash: await sha256Hex('rt_1'), family_id: expect.any(String), used_at: expect.any(Date) })
+			);
+			expect(mockDb.update).not.toHaveBeenCalled();
+		});
+
+		it('should spend a rotated token once', async () => {
+			mockTokens({ existing: [{ id: 2, family_id: 'family-1' }], spent: [{ id: 2, family_id: 'family-1' }] });
+
+			const result = await authModel.spendRefreshToken(mockDb, 'rt_2');
+
+			expect(result).toEqual({ data: { id: 2, family_id: 'family-1' } });
+			expect(updateSet).toHaveBeenCalledTimes(1);
+		});
+
+		it('should revoke the whole family when a spent token is reused', async () => {
+			mockTokens({ existing: [{ id: 1, family_id: 'family-1' }], spent: [] });
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			const result = await authModel.spendRefreshToken(mockDb, 'rt_1');
+
+			expect(result).toEqual({ error: 'Refresh token is invalid or expired', invalidGrant: true });
+			expect(updateSet).toHaveBeenNthCalledWith(2, { revoked_at: expect.any(Date) });
+			expect(new PgDialect().sqlToQuery(updateWhere.mock.calls[1][0]).params).toEqual(['family-1']);
+		});
+	});
+
+	describe('exchangeRefreshToken', () => {
+		it('should record the rotated token in the same family', async () => {
+			mockTokens({ existing: [{ id: 2, family_id: 'family-1' }], spent: [{ id: 2, family_id: 'family-1' }] });
+			const fetchFn = tokenResponse(200, { access_token: 'oat_3', refresh_token: 'rt_3', expires_in: 900 });
+
+			const result = await authModel.exchangeRefreshToken(mockDb, 'rt_2', config, fetchFn);
+
+			expect(result.data).toEqual({ accessToken: 'oat_3', refreshToken: 'rt_3', expiresIn: 900, tokenType: 'Bearer' });
+			expect(insertValues).toHaveBeenLastCalledWith({ token_hash: await sha256Hex('rt_3'), family_id: 'family-1' });
+		});
+
+		it('should not call the token endpoint with a reused token', async () => {
+			mockTokens({ existing: [{ id: 1, family_id: 'family-1' }], spent: [] });
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+			const fetchFn = tokenResponse(200, { access_token: 'oat_x', refresh_token: 'rt_x' });
+
+			const result = await authModel.exchangeRefreshToken(mockDb, 'rt_1', config, fetchFn);
+
+			expect(result).toEqual({ error: 'Refresh token is invalid or expired', invalidGrant: true });
+			expect(fetchFn).not.toHaveBeenCalled();
+		});
+
+		it('should give the token back when the token endpoint fails', async () => {
+			mockTokens({ existing: [{ id: 2, family_id: 'family-1' }], spent: [{ id: 2, family_id: 'family-1' }] });
+			const fetchFn = tokenResponse(503, { error: 'temporarily_unavailable' });
+
+			const result = await authModel.exchangeRefreshToken(mockDb, 'rt_2', config, fetchFn);
+
+			expect(result).toEqual({ error: 'Token refresh failed with 503: temporarily_unavailable' });
+			expect(updateSet).toHaveBeenLastCalledWith({ used_at: null });
+		});
+
+		it('should keep a rotated token the provider refused spent', async () => {
+			mockTokens({ existing: [{ id: 2, family_id: 'family-1' }], spent: [{ id: 2, family_id: 'family-1' }] });
+			const fetchFn = tokenResponse(400, { error: 'invalid_grant' });
+
+			const result = await authModel.exchangeRefreshToken(mockDb, 'rt_2', config, fetchFn);
+
+			expect(result).toEqual({ error: 'Refresh token is invalid or expired', invalidGrant: true });
+			expect(updateSet).toHaveBeenCalledTimes(1);
+			expect(mockDb.delete).not.toHaveBeenCalled();
+		});
+
+		it('should not keep a first-seen token the provider refused', async () => {
+			mockTokens({ created: [{ id: 1, family_id: 'family-1' }] });
+			const fetchFn = tokenResponse(400, { error: 'invalid_grant' });
+
+			const result = await authModel.exchangeRefreshToken(mockDb, 'rt_made_up', config, fetchFn);
+
+			expect(result).toEqual({ error: 'Refresh token is invalid or expired', invalidGrant: true });
+			expect(mockDb.delete).toHaveBeenCalledTimes(1);
+			expect(mockDb.update).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('recordRefreshAttempt', () => {
+		/**
+		 * Mocks the attempt batch: pruning, the new attempt and the count that follows it
+		 */
+		const mockAttempts = (attempts: number) => {
+			mockDb.delete = vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue('prune') });
+			insertValues = vi.fn().mockReturnValue('attempt');
+			mockDb.insert = vi.fn().mockReturnValue({ values: insertValues });
+			mockDb.select = vi.fn().mockReturnValue({ from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue('count') }) });
+			(mockDb as any).batch = vi.fn().mockResolvedValue([[], [], [{ count: attempts }]]);
+		};
+
+		it('should record an attempt within the limit', async () => {
+			mockAttempts(authModel.MAX_REFRESH_ATTEMPTS_PER_IP);
+			const now = new Date('2025-01-01T12:00:00Z');
+
+			const result = await authModel.recordRefreshAttempt(mockDb, '203.0.113.7', now);
+
+			expect(result).toEqual({ data: { allowed: true } });
+			expect((mockDb as any).batch).toHaveBeenCalledWith(['prune', 'attempt', 'count']);
+			expect(insertValues).toHaveBeenCalledWith({ ip_address: '203.0.113.7', created_at: now });
+		});
+
+		it('should refuse an IP address over the limit', async () => {
+			mockAttempts(authModel.MAX_REFRESH_ATTEMPTS_PER_IP + 1);
+
+			const result = await authModel.recordRefreshAttempt(mockDb, '203.0.113.7');
+
+			expect(result).toEqual({ data: { allowed: false } });
+		});
+
+		it('should not limit a request without an IP address', async () => {
+			const result = await authModel.recordRefreshAttempt(mockDb, null);
+
+			expect(result).toEqual({ data: { allowed: true } });
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+	});
+});
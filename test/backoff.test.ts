@@ -0,0 +1,29 @@
+// test/backoff.test.ts
+import { describe, it, expect } from 'vitest';
+import { computeBackoffDelay, nextAttemptAt } from '../src/utils/backoff';
+
+const options = { baseMs: 1000, maxMs: 10000 };
+
+describe('Backoff utility', () => {
+	it('should double the delay ceiling with each attempt', () => {
+		const highest = { ...options, random: () => 0.999999 };
+
+		expect(computeBackoffDelay(1, highest)).toBe(1000);
+		expect(computeBackoffDelay(2, highest)).toBe(2000);
+		expect(computeBackoffDelay(3, highest)).toBe(4000);
+	});
+
+	it('should wait at least half the ceiling', () => {
+		expect(computeBackoffDelay(3, { ...options, random: () => 0 })).toBe(2000);
+	});
+
+	it('should cap the delay at maxMs', () => {
+		expect(computeBackoffDelay(20, { ...options, random: () => 0.999999 })).toBe(10000);
+	});
+
+	it('should schedule the next attempt from the given time', () => {
+		const now = new Date('2024-11-09T10:00:00Z');
+
+		expect(nextAttemptAt(1, { ...options, random: () => 0 }, now).toISOString()).toBe('2024-11-09T10:00:00.500Z');
+	});
+});
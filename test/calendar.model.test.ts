@@ -0,0 +1,134 @@
+// test/calendar.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as calendarModel from '../src/calendar/model';
+import { sha256Hex } from '../src/utils/signing';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+describe('Calendar Model', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+		} as any;
+	});
+
+	describe('sessionUid', () => {
+		it('should key series occurrences by series and original date', () => {
+			const generated = {
+				id: null,
+				schedule: new Date('2024-03-05T18:00:00Z'),
+				club_id: 1,
+				series_id: 3,
+				occurrence_date: new Date('2024-03-05T18:00:00Z'),
+			};
+			const storedAndMoved = { ...generated, id: 40, schedule: new Date('2024-03-06T18:00:00Z') };
+
+			expect(calendarModel.sessionUid(generated)).toBe('series-3-20240305T180000Z@locomotivehouse.com');
+			expect(calendarModel.sessionUid(storedAndMoved)).toBe(calendarModel.sessionUid(generated));
+		});
+
+		it('should key standalone sessions by ID', () => {
+			expect(calendarModel.sessionUid({ id: 12, schedule: new Date(), club_id: 1 })).toBe('session-12@locomotivehouse.com');
+		});
+	});
+
+	describe('getClubCalendar', () => {
+		it('should return an error when the club does not exist', async () => {
+			mockDb.select = selectSequence([]);
+
+			const result = await calendarModel.getClubCalendar(mockDb, 99, now);
+
+			expect(result.error).toBe('Club not found');
+		});
+
+		it('should render sessions in the club timezone', async () => {
+			mockDb.select = selectSequence(
+				[{ id: 1, name: 'Valley Lines', timezone: 'America/Chicago' }],
+				[{ id: 12, club_id: 1, schedule: new Date('2024-03-15T00:00:00Z'), description: 'Ops night' }],
+				[]
+			);
+
+			const result = await calendarModel.getClubCalendar(mockDb, 1, now);
+
+			expect(result.data).toContain('UID:session-12@locomotivehouse.com');
+			expect(result.data).toContain('DTSTART;TZID=America/Chicago:20240314T190000');
+			expect(result.data).toContain('DTEND;TZID=America/Chicago:20240314T220000');
+			expect(result.data).toContain('SUMMARY:Ops night');
+		});
+	});
+
+	describe('getAppointmentsCalendarByToken', () => {
+		it('should return an error for an unknown token', async () => {
+			mockDb.select = selectSequence([]);
+
+			const result = await calendarModel.getAppointmentsCalendarByToken(mockDb, 'nope', now);
+
+			expect(result.error).toBe('Calendar not found');
+		});
+
+		it('should mark waitlisted sign-ups as tentative', async () => {
+			const appointmentRows = [
+				{
+					id: 7,
+					schedule: null,
+					duration: 2,
+					role: 'road_crew',
+					status: 'waitlisted',
+					session_schedule: new Date('2024-03-15T00:00:00Z'),
+					session_description: 'Ops night',
+					club_name: 'Valley Lines',
+					club_timezone: 'America/Chicago',
+				},
+			];
+			mockDb.select = vi
+				.fn()
+				.mockReturnValueOnce({ from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([{ id: 4 }]) }) })
+				.mockReturnValueOnce({
+					from: vi.fn().mockReturnValue({
+						leftJoin: vi.fn().mockReturnValue({
+							leftJoin: vi.fn().mockReturnValue({
+								where: vi.fn().mockResolvedValue(appointmentRows),
+							}),
+						}),
+					}),
+				});
+
+			const result = await calendarModel.getAppointmentsCalendarByToken(mockDb, 'secret', now);
+
+			expect(result.data).toContain('UID:appointment-7@locomotivehouse.com');
+			expect(result.data).toContain('SUMMARY:Ops night (road crew)');
+			expect(result.data).toContain('STATUS:TENTATIVE');
+			expect(result.data).toContain('DTEND;TZID=America/Chicago:20240314T210000');
+		});
+	});
+
+	describe('rotateCalendarToken', () => {
+		it('should store only a hash of the new token', async () => {
+			const values = vi.fn().mockReturnValue({ onConflictDoUpdate: vi.fn().mockResolvedValue([]) });
+			mockDb.insert = vi.fn().mockReturnValue({ values });
+
+			const result = await calendarModel.rotateCalendarToken(mockDb, 4);
+
+			expect(result.data).toMatch(/^[0-9a-f]{64}$/);
+			expect(values).toHaveBeenCalledWith({ user_id: 4, token_hash: await sha256Hex(result.data!) });
+		});
+	});
+
+	describe('generateCalendarToken', () => {
+		it('should produce distinct 64-character hex tokens', () => {
+			const token = calendarModel.generateCalendarToken();
+
+			expect(token).toMatch(/^[0-9a-f]{64}$/);
+			expect(calendarModel.generateCalendarToken()).not.toBe(token);
+		});
+	});
+});
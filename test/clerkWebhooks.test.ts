@@ -0,0 +1,220 @@
+// test/clerkWebhooks.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { Webhook } from 'svix';
+import { handleClerkEvent, toUserProfile, verifyClerkEvent } from '../src/clerkWebhooks/events';
+import { claimWebhookEvent } from '../src/clerkWebhooks/model';
+import * as usersModel from '../src/users/model';
+import * as clubsModel from '../src/clubs/model';
+
+const secret = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+const now = new Date('2024-11-14T12:00:00Z');
+
+const clerkUser = {
+	id: 'user_2abc',
+	first_name: 'Ada',
+	last_name: 'Lovelace',
+	primary_email_address_id: 'idn_2',
+	email_addresses: [
+		{ id: 'idn_1', email_address: 'old@example.com' },
+		{ id: 'idn_2', email_address: 'ada@example.com' },
+	],
+};
+
+/**
+ * A database whose update and insert calls are captured and echoed back as the written row
+ */
+const mockDatabase = (existing: any[]) => {
+	const writes: { op: string; values: any }[] = [];
+	const echo = (op: string) =>
+		vi.fn().mockImplementation((values) => {
+			writes.push({ op, values });
+			const returning = vi.fn().mockResolvedValue([{ id: 7, token: 'user_2abc', ...values }]);
+			return { where: vi.fn().mockReturnValue({ returning }), returning };
+		});
+	const db = {
+		select: vi.fn().mockReturnValue({
+			from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ limit: vi.fn().mockResolvedValue(existing) }) }),
+		}),
+		update: vi.fn().mockReturnValue({ set: echo('update') }),
+		insert: vi.fn().mockReturnValue({ values: echo('insert') }),
+		delete: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([]) }),
+	} as any;
+	return { db, writes };
+};
+
+describe('verifyClerkEvent', () => {
+	const headersFor = (payload: string) => {
+		const timestamp = new Date();
+		return {
+			'svix-id': 'msg_1',
+			'svix-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+			'svix-signature': new Webhook(secret).sign('msg_1', timestamp, payload),
+		};
+	};
+
+	it('should verify the raw body even when re-serialising would change it', () => {
+		// Clerk's formatting differs from JSON.stringify, which is what used to be verified
+		const payload = '{"type": "user.updated",\n "data": {"id": "user_2abc"}}';
+		expect(JSON.stringify(JSON.parse(payload))).not.toBe(payload);
+
+		const result = verifyClerkEvent(secret, payload, headersFor(payload));
+
+		expect(result.error).toBeUndefined();
+		expect(result.data).toEqual({ type: 'user.updated', data: { id: 'user_2abc' } });
+	});
+
+	it('should reject a body that does not match its signature', () => {
+		const payload = '{"type":"user.deleted","data":{"id":"user_2abc"}}';
+		const headers = headersFor(payload);
+
+		const result = verifyClerkEvent(secret, payload.replace('user_2abc', 'user_9xyz'), headers);
+
+		expect(result.error).toBeDefined();
+		expect(result.data).toBeUndefined();
+	});
+});
+
+describe('claimWebhookEvent', () => {
+	const mockInsert = (rows: any[]) =>
+		({
+			insert: vi.fn().mockReturnValue({
+				values: vi.fn().mockReturnValue({ onConflictDoNothing: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue(rows) }) }),
+			}),
+		}) as any;
+
+	it('should claim a message the first time its svix-id is seen', async () => {
+		expect(await claimWebhookEvent(mockInsert([{ svix_id: 'msg_1' }]), 'msg_1', 'user.created')).toEqual({ data: true });
+	});
+
+	it('should report a retried message as already processed', async () => {
+		expect(await claimWebhookEvent(mockInsert([]), 'msg_1', 'user.created')).toEqual({ data: false });
+	});
+});
+
+describe('handleClerkEvent', () => {
+	it('should use the primary email address', () => {
+		expect(toUserProfile(clerkUser)).toEqual({ token: 'user_2abc', first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.com' });
+	});
+
+	it('should create the user for user.created', async () => {
+		const { db, writes } = mockDatabase([]);
+
+		const result = await handleClerkEvent(db, { type: 'user.created', data: { ...clerkUser, public_metadata: { permission: 2 } } });
+
+		expect(result.data).toBe('processed');
+		expect(writes).toEqual([
+			{
+				op: 'insert',
+				values: { token: 'user_2abc', first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.com', permission: 2 },
+			},
+		]);
+	});
+
+	it('should sync names and email for user.updated without touching the permission', async () => {
+		const { db, writes } = mockDatabase([{ id: 7, token: 'user_2abc', permission: 1, deleted_at: null }]);
+
+		const result = await handleClerkEvent(db, { type: 'user.updated', data: { ...clerkUser, first_name: 'Augusta' } });
+
+		expect(result.data).toBe('processed');
+		expect(writes).toEqual([{ op: 'update', values: { first_name: 'Augusta', last_name: 'Lovelace', email: 'ada@example.com' } }]);
+	});
+
+	it('should not bring a deleted user back on user.updated', async () => {
+		const { db, writes } = mockDatabase([{ id: 7, token: 'user_2abc', permission: 1, deleted_at: now }]);
+
+		expect(await handleClerkEvent(db, { type: 'user.updated', data: clerkUser })).toEqual({ data: 'ignored' });
+		expect(writes).toEqual([]);
+	});
+
+	it('should soft-delete the user for user.deleted and drop their memberships', async () => {
+		const { db, writes } = mockDatabase([]);
+
+		const result = await handleClerkEvent(db, { type: 'user.deleted', data: { id: 'user_2abc', deleted: true } });
+
+		expect(result.data).toBe('processed');
+		expect(writes).toHaveLength(1);
+		expect(writes[0].values).toMatchObject({ email: null });
+		expect(writes[0].values.deleted_at).toBeInstanceOf(Date);
+		// Memberships and the calendar feed token
+		expect(db.delete).toHaveBeenCalledTimes(2);
+	});
+
+	it('should record the sign-in time for session.created', async () => {
+		const { db, writes } = mockDatabase([]);
+
+		await handleClerkEvent(db, { type: 'session.created', data: { id: 'sess_1', user_id: 'user_2abc', created_at: now.getTime() } });
+
+		expect(writes).toEqual([{ op: 'update', values: { last_sign_in_at: now } }]);
+	});
+
+	it('should rename the linked club for organization.updated and unlink it for organization.deleted', async () => {
+		const { db, writes } = mockDatabase([]);
+
+		await handleClerkEvent(db, { type: 'organization.updated', data: { id: 'org_1', name: 'Westside Model Railroaders' } });
+		await handleClerkEvent(db, { type: 'organization.deleted', data: { id: 'org_1', deleted: true } });
+
+		expect(writes.map((write) => write.values)).toEqual([{ name: 'Westside Model Railroaders' }, { clerk_organization_id: null }]);
+	});
+
+	it('should ask Clerk to retry a membership for a user it has not created yet', async () => {
+		const { db } = mockDatabase([]);
+		db.select = vi
+			.fn()
+			.mockReturnValueOnce({
+				from: vi
+					.fn()
+					.mockReturnValue({ where: vi.fn().mockReturnValue({ limit: vi.fn().mockResolvedValue([{ id: 1, name: 'Westside' }]) }) }),
+			})
+			.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ limit: vi.fn().mockResolvedValue([]) }) }),
+			});
+
+		const result = await handleClerkEvent(db, {
+			type: 'organizationMembership.created',
+			data: { id: 'orgmem_1', organization: { id: 'org_1' }, public_user_data: { user_id: 'user_2abc' } },
+		});
+
+		expect(result.error).toBe('User not found');
+	});
+
+	it('should acknowledge events with nothing to change', async () => {
+		const { db } = mockDatabase([]);
+
+		expect(await handleClerkEvent(db, { type: 'session.revoked', data: { id: 'sess_1', user_id: 'user_2abc' } })).toEqual({
+			data: 'ignored',
+		});
+		expect(db.update).not.toHaveBeenCalled();
+	});
+});
+
+describe('softDeleteUser', () => {
+	it('should leave an unknown or already deleted user alone', async () => {
+		const db = {
+			update: vi.fn().mockReturnValue({
+				set: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) }) }),
+			}),
+			delete: vi.fn(),
+		} as any;
+
+		expect(await usersModel.softDeleteUser(db, 'user_2abc', now)).toEqual({ data: [] });
+		expect(db.delete).not.toHaveBeenCalled();
+	});
+});
+
+describe('Club organization links', () => {
+	it('should link a club only through linkClubToOrganization', async () => {
+		const { db, writes } = mockDatabase([]);
+
+		await clubsModel.updateClub(db, '1', { id: 1, name: 'Westside', clerk_organization_id: 'org_evil' });
+		await clubsModel.linkClubToOrganization(db, 1, 'org_1');
+
+		expect(writes.map((write) => write.values.clerk_organization_id)).toEqual([undefined, 'org_1']);
+	});
+
+	it('should reject something that is not an organization ID', async () => {
+		const { db } = mockDatabase([]);
+
+		expect((await clubsModel.linkClubToOrganization(db, 1, 'user_2abc')).error).toMatch(/Clerk organization ID/);
+		expect(db.update).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,265 @@
+// test/clubRoles.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { getUserRoles, hasCapability, requireCapability } from '../src/utils/auth';
+import { CAPABILITIES, capabilitiesFor, parseCapabilities, validateCapabilities } from '../src/clubRoles/capabilities';
+import * as clubRolesModel from '../src/clubRoles/model';
+import * as usersModel from '../src/users/model';
+
+/**
+ * A query builder mock: every chained call returns the builder, and awaiting it resolves to the rows.
+ */
+const query = (rows: any[]) => {
+	const builder: any = {
+		then: (resolve: any, reject: any) => Promise.resolve(rows).then(resolve, reject),
+	};
+	for (const method of ['from', 'leftJoin', 'where', 'limit']) {
+		builder[method] = vi.fn().mockReturnValue(builder);
+	}
+	return builder;
+};
+
+/**
+ * A database answering the user lookup, then the membership lookup
+ */
+const mockDatabase = (permission: string | null, membership: { role: string | null; customCapabilities?: string | null }[]) =>
+	({
+		select: vi
+			.fn()
+			.mockReturnValueOnce(query([{ id: 7, permission }]))
+			.mockReturnValueOnce(query(membership)),
+	}) as any;
+
+describe('getUserRoles', () => {
+	it('should make a member an admin only in the club where they hold the admin role', async () => {
+		expect(await getUserRoles(mockDatabase(null, [{ role: 'admin' }]), { token: 'user_2abc' }, 1)).toEqual({
+			id: 7,
+			isSuperAdmin: false,
+			isMember: true,
+			clubRole: 'admin',
+			capabilities: [...CAPABILITIES],
+		});
+		expect(await getUserRoles(mockDatabase(null, [{ role: null }]), { token: 'user_2abc' }, 2)).toMatchObject({
+			isMember: true,
+			clubRole: null,
+			capabilities: ['file_reports'],
+		});
+	});
+
+	it('should ignore a global admin permission', async () => {
+		const roles = await getUserRoles(mockDatabase('admin', []), { token: 'user_2abc' }, 1);
+
+		expect(roles).toMatchObject({ isSuperAdmin: false, isMember: false, capabilities: [] });
+	});
+
+	it('should treat super-admin as an admin of every club', async () => {
+		const roles = await getUserRoles(mockDatabase('super-admin', []), { id: 7 }, 1);
+
+		expect(roles).toMatchObject({ isSuperAdmin: true, isMember: false, capabilities: [...CAPABILITIES] });
+	});
+
+	it('should not look up a membership when the route has no club', async () => {
+		const db = mockDatabase(null, [{ role: 'admin' }]);
+
+		expect(await getUserRoles(db, { token: 'user_2abc' })).toMatchObject({ isMember: false, capabilities: [] });
+		expect(db.select).toHaveBeenCalledTimes(1);
+	});
+
+	it('should add the capabilities of the member\'s custom club role', async () => {
+		const roles = await getUserRoles(mockDatabase(null, [{ role: null, customCapabilities: 'manage_sessions,manage_notices' }]), { id: 7 }, 1);
+
+		expect(roles?.capabilities).toEqual(['file_reports', 'manage_sessions', 'manage_notices']);
+	});
+
+	it('should return null for an unknown or deleted user', async () => {
+		const db = { select: vi.fn().mockReturnValue(query([])) } as any;
+
+		expect(await getUserRoles(db, { token: 'user_gone' }, 1)).toBeNull();
+	});
+});
+
+describe('Club role assignment', () => {
+	const permissionsDb = (rows: any[]) => ({ select: vi.fn().mockReturnValue(query(rows)) }) as any;
+
+	it('should refuse super-admin as a club role', async () => {
+		expect(await usersModel.validateClubRole(permissionsDb([{ id: 3, title: 'super-admin' }]), 3)).toBe(
+			'super-admin is a platform role and cannot be assigned in a club'
+		);
+		expect(await usersModel.validateClubRole(permissionsDb([]), 99)).toBe('Permission not found');
+		expect(await usersModel.validateClubRole(permissionsDb([{ id: 2, title: 'admin' }]), 2)).toBeNull();
+	});
+
+	it('should store the role on the membership and replace the existing one', async () => {
+		const onConflictDoUpdate = vi
+			.fn()
+			.mockReturnValue({ returning: vi.fn().mockResolvedValue([{ user_id: 7, club_id: 1, role_permission: 2 }]) });
+		const values = vi.fn().mockReturnValue({ onConflictDoUpdate });
+		const db = {
+			select: vi
+				.fn()
+				.mockReturnValueOnce(query([{ id: 7 }]))
+				.mockReturnValueOnce(query([{ id: 1, name: 'Westside' }]))
+				.mockReturnValueOnce(query([{ id: 2, title: 'admin' }])),
+			insert: vi.fn().mockReturnValue({ values }),
+			update: vi.fn(),
+		} as any;
+
+		const result = await usersModel.assignClubToUser(db, '7', 1, 2);
+
+		expect(result.data).toEqual([{ user_id: 7, club_id: 1, role_permission: 2 }]);
+		expect(values).toHaveBeenCalledWith({ user_id: 7, club_id: 1, role_permission: 2 });
+		expect(onConflictDoUpdate.mock.calls[0][0].set).toEqual({ role_permission: 2 });
+		// The global permission is left alone
+		expect(db.update).not.toHaveBeenCalled();
+	});
+
+	it('should change the role in one club only', async () => {
+		const set = vi
+			.fn()
+			.mockReturnValue({
+				where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ user_id: 7, club_id: 1, role_permission: null }]) }),
+			});
+		const db = { update: vi.fn().mockReturnValue({ set }) } as any;
+
+		const result = await usersModel.setClubRole(db, 7, 1, null);
+
+		expect(result.data).toEqual([{ user_id: 7, club_id: 1, role_permission: null }]);
+		expect(set).toHaveBeenCalledWith({ role_permission: null });
+	});
+
+	it('should not give a role to someone who is not a member', async () => {
+		const db = {
+			update: vi
+				.fn()
+				.mockReturnValue({
+					set: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) }) }),
+				}),
+		} as any;
+
+		expect(await usersModel.setClubRole(db, 7, 1, null)).toEqual({ error: 'User is not a member of this club' });
+	});
+});
+
+describe('Capabilities', () => {
+	it('should give members file_reports plus their custom role, in a stable order', () => {
+		expect(capabilitiesFor({ isSuperAdmin: false, isMember: true, isAdmin: false })).toEqual(['file_reports']);
+		expect(
+			capabilitiesFor({ isSuperAdmin: false, isMember: true, isAdmin: false, customCapabilities: ['manage_invites', 'manage_towers'] })
+		).toEqual(['manage_towers', 'file_reports', 'manage_invites']);
+	});
+
+	it('should give admins of the club and super-admins every capability, and non-members none', () => {
+		expect(capabilitiesFor({ isSuperAdmin: false, isMember: true, isAdmin: true })).toEqual([...CAPABILITIES]);
+		expect(capabilitiesFor({ isSuperAdmin: true, isMember: false, isAdmin: false })).toEqual([...CAPABILITIES]);
+		expect(capabilitiesFor({ isSuperAdmin: false, isMember: false, isAdmin: true, customCapabilities: ['manage_towers'] })).toEqual([]);
+	});
+
+	it('should validate the capabilities of a custom role', () => {
+		expect(validateCapabilities(['manage_sessions', 'manage_notices'])).toBeNull();
+		expect(validateCapabilities(['fly_trains'])).toBe('Unknown capability: fly_trains');
+		expect(validateCapabilities([])).toMatch(/^capabilities must be a non-empty array/);
+		expect(validateCapabilities('manage_sessions')).toMatch(/^capabilities must be a non-empty array/);
+	});
+
+	it('should drop stored capabilities that no longer exist', () => {
+		expect(parseCapabilities('manage_sessions,retired_capability')).toEqual(['manage_sessions']);
+		expect(parseCapabilities(null)).toEqual([]);
+	});
+});
+
+describe('hasCapability', () => {
+	/**
+	 * A Hono context carrying what checkAuth and checkUserPermission set
+	 */
+	const context = (vars: Record<string, unknown>) => ({ var: vars });
+
+	it('should check the capabilities resolved for the club', () => {
+		expect(hasCapability(context({ capabilities: ['file_reports'] }), 'file_reports')).toBe(true);
+		expect(hasCapability(context({ capabilities: ['file_reports'] }), 'manage_sessions')).toBe(false);
+		expect(hasCapability(context({}), 'file_reports')).toBe(false);
+	});
+
+	it('should let M2M requests through', () => {
+		expect(hasCapability(context({ isM2M: true }), 'manage_towers')).toBe(true);
+	});
+});
+
+describe('requireCapability', () => {
+	/**
+	 * A Hono context carrying what checkAuth and checkUserPermission set
+	 */
+	const context = (vars: Record<string, unknown>) => ({
+		var: { isMember: true, ...vars },
+		json: vi.fn((body: unknown, status: number) => ({ body, status })),
+	});
+
+	it('should call the next handler when every capability is held', async () => {
+		const c = context({ capabilities: ['file_reports', 'manage_sessions'] });
+		const next = vi.fn().mockResolvedValue('next');
+
+		expect(await requireCapability('file_reports', 'manage_sessions')(c, next)).toBe('next');
+		expect(c.json).not.toHaveBeenCalled();
+	});
+
+	it('should respond 403 naming the missing capabilities', async () => {
+		const c = context({ capabilities: ['file_reports'] });
+		const next = vi.fn();
+
+		expect(await requireCapability('manage_sessions', 'file_reports', 'manage_notices')(c, next)).toEqual({
+			body: { error: 'Missing capability: manage_sessions, manage_notices' },
+			status: 403,
+		});
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it('should hold API keys to their scopes', async () => {
+		const c = context({ capabilities: ['manage_sessions'], apiKey: { scopes: ['read:sessions'] } });
+		const next = vi.fn();
+
+		expect(await requireCapability('manage_sessions')(c, next)).toMatchObject({ status: 403 });
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it('should let M2M requests through', async () => {
+		const next = vi.fn().mockResolvedValue('next');
+
+		expect(await requireCapability('manage_club')(context({ isM2M: true, isMember: false }), next)).toBe('next');
+	});
+});
+
+describe('Custom club roles', () => {
+	it('should store capabilities without duplicates and refuse a duplicate name', async () => {
+		const values = vi.fn().mockReturnValue({
+			onConflictDoNothing: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) }),
+		});
+		const db = { insert: vi.fn().mockReturnValue({ values }) } as any;
+
+		const result = await clubRolesModel.createClubRole(db, {
+			club_id: 1,
+			name: 'Session coordinator',
+			capabilities: ['manage_sessions', 'manage_notices', 'manage_sessions'],
+		});
+
+		expect(values).toHaveBeenCalledWith({ club_id: 1, name: 'Session coordinator', capabilities: 'manage_sessions,manage_notices' });
+		expect(result).toEqual({ error: 'A role named Session coordinator already exists in this club' });
+	});
+
+	it('should only give a member a role defined by their club', async () => {
+		const db = { select: vi.fn().mockReturnValue(query([])), update: vi.fn() } as any;
+
+		expect(await clubRolesModel.setMemberClubRole(db, 7, 1, 4)).toEqual({ error: 'Club role not found' });
+		expect(db.update).not.toHaveBeenCalled();
+	});
+
+	it('should take a custom role away', async () => {
+		const set = vi.fn().mockReturnValue({
+			where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ user_id: 7, club_id: 1, club_role_id: null }]) }),
+		});
+		const db = { select: vi.fn(), update: vi.fn().mockReturnValue({ set }) } as any;
+
+		const result = await clubRolesModel.setMemberClubRole(db, 7, 1, null);
+
+		expect(result.data).toEqual([{ user_id: 7, club_id: 1, club_role_id: null }]);
+		expect(set).toHaveBeenCalledWith({ club_role_id: null });
+		expect(db.select).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,220 @@
+// test/clubWebhooks.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import * as clubWebhooksModel from '../src/clubWebhooks/model';
+import { emitClubEvent } from '../src/clubWebhooks/events';
+import { attemptDelivery, deliverPendingWebhooks, MAX_WEBHOOK_ATTEMPTS, redeliver, signWebhookPayload } from '../src/clubWebhooks/delivery';
+import { hmacSha256Hex } from '../src/utils/signing';
+
+const now = new Date('2024-11-14T12:00:00Z');
+const webhook = { id: 3, url: 'https://bot.example.com/hooks', secret: 'whsec_test' };
+
+const delivery = (overrides: Partial<clubWebhooksModel.ClubWebhookDelivery> = {}): clubWebhooksModel.ClubWebhookDelivery => ({
+	id: 40,
+	webhook_id: 3,
+	event_id: 'evt_1',
+	event_type: 'issue.created',
+	payload: '{"id":"evt_1","type":"issue.created","club_id":1,"created_at":"2024-11-14T12:00:00.000Z","data":{}}',
+	status: 'pending',
+	attempts: 0,
+	next_attempt_at: now,
+	response_status: null,
+	response_body: null,
+	last_error: null,
+	delivered_at: null,
+	created_at: now,
+	updated_at: now,
+	...overrides,
+});
+
+/**
+ * A database whose delivery updates are captured and echoed back as the updated row.
+ */
+const mockUpdateDb = () => {
+	const updates: any[] = [];
+	const db = {
+		update: vi.fn().mockReturnValue({
+			set: vi.fn().mockImplementation((values) => {
+				updates.push(values);
+				return {
+					where: vi.fn().mockReturnValue({
+						returning: vi.fn().mockImplementation(async () => [{ ...delivery(), ...values }]),
+					}),
+				};
+			}),
+		}),
+	} as any;
+	return { db, updates };
+};
+
+describe('Webhook endpoint validation', () => {
+	it('should only accept HTTPS URLs', () => {
+		expect(clubWebhooksModel.validateWebhookUrl('https://bot.example.com/hooks')).toBeNull();
+		expect(clubWebhooksModel.validateWebhookUrl('http://bot.example.com/hooks')).toBe('Webhook URL must use https');
+		expect(clubWebhooksModel.validateWebhookUrl('not a url')).toBe('Invalid webhook URL');
+		expect(clubWebhooksModel.validateWebhookUrl(undefined)).toBe('Missing required field: url');
+	});
+
+	it('should only accept known event types', () => {
+		expect(clubWebhooksModel.validateEvents(['issue.created', 'member.joined'])).toBeNull();
+		expect(clubWebhooksModel.validateEvents(['issue.deleted'])).toBe('Unknown event type: issue.deleted');
+		expect(clubWebhooksModel.validateEvents([])).toMatch(/^events must be a non-empty array/);
+	});
+
+	it('should generate distinct secrets', () => {
+		const secret = clubWebhooksModel.generateWebhookSecret();
+		expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+		expect(clubWebhooksModel.generateWebhookSecret()).not.toBe(secret);
+	});
+});
+
+describe('emitClubEvent', () => {
+	const mockDatabase = (endpoints: any[]) => {
+		let inserted: any[] = [];
+		const db = {
+			select: vi.fn().mockReturnValue({ from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(endpoints) }) }),
+			insert: vi.fn().mockReturnValue({
+				values: vi.fn().mockImplementation((rows) => {
+					inserted = rows;
+					return { returning: vi.fn().mockResolvedValue(rows) };
+				}),
+			}),
+		} as any;
+		return { db, inserted: () => inserted };
+	};
+
+	it('should queue one delivery per subscribed endpoint', async () => {
+		const { db, inserted } = mockDatabase([
+			{ id: 3, events: 'issue.created,member.joined' },
+			{ id: 4, events: 'notice.published' },
+			{ id: 5, events: 'issue.created' },
+		]);
+
+		const result = await emitClubEvent(db, 1, 'issue.created', { issue: { id: 9, title: 'Dead section' } }, now);
+
+		expect(result.data).toBe(2);
+		expect(inserted().map((row: any) => row.webhook_id)).toEqual([3, 5]);
+		expect(inserted()[0].event_id).toBe(inserted()[1].event_id);
+
+		const payload = JSON.parse(inserted()[0].payload);
+		expect(payload).toMatchObject({
+			type: 'issue.created',
+			club_id: 1,
+			created_at: '2024-11-14T12:00:00.000Z',
+			data: { issue: { id: 9, title: 'Dead section' } },
+		});
+		expect(payload.id).toBe(inserted()[0].event_id);
+	});
+
+	it('should not write anything when no endpoint is subscribed', async () => {
+		const { db } = mockDatabase([{ id: 4, events: 'notice.published' }]);
+
+		expect(await emitClubEvent(db, 1, 'issue.created', {}, now)).toEqual({ data: 0 });
+		expect(db.insert).not.toHaveBeenCalled();
+	});
+});
+
+describe('attemptDelivery', () => {
+	it('should sign the body and mark a 2xx response delivered', async () => {
+		const { db, updates } = mockUpdateDb();
+		const fetchFn = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+
+		const result = await attemptDelivery(db, webhook, delivery(), { fetchFn, now });
+
+		const [url, init] = fetchFn.mock.calls[0];
+		const timestamp = Math.floor(now.getTime() / 1000);
+		expect(url).toBe('https://bot.example.com/hooks');
+		expect(init.body).toBe(delivery().payload);
+		expect(init.headers['X-LH-Event']).toBe('issue.created');
+		expect(init.headers['X-LH-Delivery']).toBe('evt_1');
+		expect(init.headers['X-LH-Timestamp']).toBe(String(timestamp));
+		expect(init.headers['X-LH-Signature']).toBe(`sha256=${await hmacSha256Hex('whsec_test', `${timestamp}.${delivery().payload}`)}`);
+
+		expect(updates[0]).toMatchObject({ status: 'delivered', attempts: 1, response_status: 200, response_body: 'ok', last_error: null });
+		expect(result.data?.delivered_at).toEqual(now);
+	});
+
+	it('should schedule a retry with backoff after a failed attempt', async () => {
+		const { db, updates } = mockUpdateDb();
+		const fetchFn = vi.fn().mockResolvedValue(new Response('boom', { status: 500 }));
+
+		await attemptDelivery(db, webhook, delivery({ attempts: 2 }), { fetchFn, now });
+
+		expect(updates[0]).toMatchObject({ status: 'pending', attempts: 3, response_status: 500, last_error: 'Endpoint responded with 500' });
+		// Third attempt: between 1 and 2 minutes later
+		const delay = updates[0].next_attempt_at.getTime() - now.getTime();
+		expect(delay).toBeGreaterThanOrEqual(60 * 1000);
+		expect(delay).toBeLessThanOrEqual(120 * 1000);
+	});
+
+	it('should mark the delivery failed once it has used up its attempts', async () => {
+		const { db, updates } = mockUpdateDb();
+		const fetchFn = vi.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND bot.example.com'));
+
+		await attemptDelivery(db, webhook, delivery({ attempts: MAX_WEBHOOK_ATTEMPTS - 1 }), { fetchFn, now });
+
+		expect(updates[0]).toMatchObject({
+			status: 'failed',
+			attempts: MAX_WEBHOOK_ATTEMPTS,
+			response_status: null,
+			last_error: 'getaddrinfo ENOTFOUND bot.example.com',
+		});
+	});
+
+	it('should produce signatures receivers can recompute', async () => {
+		expect(await signWebhookPayload('secret', 1700000000, '{}')).toBe(`sha256=${await hmacSha256Hex('secret', '1700000000.{}')}`);
+	});
+});
+
+describe('deliverPendingWebhooks', () => {
+	it('should send due deliveries this run claims and skip the rest', async () => {
+		const due = [
+			{ delivery: delivery({ id: 40 }), webhook },
+			{ delivery: delivery({ id: 41 }), webhook },
+		];
+		const joined = { innerJoin: vi.fn(), where: vi.fn(), orderBy: vi.fn(), limit: vi.fn().mockResolvedValue(due) };
+		joined.innerJoin.mockReturnValue(joined);
+		joined.where.mockReturnValue(joined);
+		joined.orderBy.mockReturnValue(joined);
+
+		const updates: any[] = [];
+		let claims = 0;
+		const db = {
+			select: vi.fn().mockReturnValue({ from: vi.fn().mockReturnValue(joined) }),
+			update: vi.fn().mockReturnValue({
+				set: vi.fn().mockImplementation((values) => {
+					updates.push(values);
+					// Claims only set next_attempt_at; the second one (delivery 41) loses to another run
+					const isClaim = Object.keys(values).length === 1;
+					const claimed = !isClaim || ++claims === 1;
+					return {
+						where: vi.fn().mockReturnValue({
+							returning: vi.fn().mockResolvedValue(claimed ? [{ ...delivery(), ...values }] : []),
+						}),
+					};
+				}),
+			}),
+		} as any;
+		const fetchFn = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+
+		const result = await deliverPendingWebhooks(db, { fetchFn, now });
+
+		expect(fetchFn).toHaveBeenCalledTimes(1);
+		expect(result.data).toEqual({ delivered: 1, retrying: 0, failed: 0 });
+		// The claim holds the delivery for the lease
+		expect(updates[0].next_attempt_at).toEqual(new Date('2024-11-14T12:01:00Z'));
+	});
+});
+
+describe('redeliver', () => {
+	it('should send a failed delivery again with a fresh attempt count', async () => {
+		const { db, updates } = mockUpdateDb();
+		db.select = vi.fn().mockReturnValue({ from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([webhook]) }) });
+		const fetchFn = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+
+		const result = await redeliver(db, delivery({ status: 'failed', attempts: MAX_WEBHOOK_ATTEMPTS }), { fetchFn, now });
+
+		expect(fetchFn).toHaveBeenCalledTimes(1);
+		expect(updates[0]).toMatchObject({ status: 'delivered', attempts: 1 });
+		expect(result.data?.status).toBe('delivered');
+	});
+});
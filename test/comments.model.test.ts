@@ -0,0 +1,138 @@
+// test/comments.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as commentsModel from '../src/comments/model';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const issueThread: commentsModel.CommentTarget = { type: 'issue', id: 5 };
+
+describe('Comments Model', () => {
+	let mockDb: MockDB;
+	let values: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		values = vi.fn().mockReturnValue({
+			returning: vi.fn().mockResolvedValue([{ id: 1 }]),
+		});
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn().mockReturnValue({ values }),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('createComment', () => {
+		it('should attach the comment to the right kind of target', async () => {
+			await commentsModel.createComment(mockDb, { type: 'tower_report', id: 9 }, { user_id: 4, body: '  Swept the yard  ' });
+
+			expect(values).toHaveBeenCalledWith({
+				issue_id: null,
+				tower_report_id: 9,
+				parent_id: null,
+				user_id: 4,
+				body: 'Swept the yard',
+			});
+		});
+
+		it('should reject an empty body', async () => {
+			const result = await commentsModel.createComment(mockDb, issueThread, { user_id: 4, body: '   ' });
+
+			expect(result.error).toBe('Comment body is required');
+		});
+
+		it('should reject a reply to a comment in another thread', async () => {
+			mockDb.select = selectSequence([]);
+
+			const result = await commentsModel.createComment(mockDb, issueThread, { user_id: 4, body: 'Agreed', parent_id: 77 });
+
+			expect(result.error).toBe('Parent comment not found');
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+
+		it('should reject a reply to a deleted comment', async () => {
+			mockDb.select = selectSequence([{ id: 2, issue_id: 5, deleted_at: new Date() }]);
+
+			const result = await commentsModel.createComment(mockDb, issueThread, { user_id: 4, body: 'Agreed', parent_id: 2 });
+
+			expect(result.error).toBe('Cannot reply to a deleted comment');
+		});
+	});
+
+	describe('deleteComment', () => {
+		it('should keep a placeholder when the comment has replies', async () => {
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([{ id: 1, body: null }]),
+				}),
+			});
+			mockDb.select = selectSequence([{ id: 2, parent_id: 1 }]);
+			mockDb.update = vi.fn().mockReturnValue({ set });
+
+			await commentsModel.deleteComment(mockDb, 1);
+
+			expect(set).toHaveBeenCalledWith({ body: null, deleted_at: expect.any(Date) });
+			expect(mockDb.delete).not.toHaveBeenCalled();
+		});
+
+		it('should remove a comment without replies', async () => {
+			mockDb.select = selectSequence([]);
+			mockDb.delete = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([{ id: 1 }]),
+				}),
+			});
+
+			const result = await commentsModel.deleteComment(mockDb, 1);
+
+			expect(result.data).toEqual([{ id: 1 }]);
+			expect(mockDb.update).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('updateComment', () => {
+		it('should refuse to edit a deleted comment', async () => {
+			const result = await commentsModel.updateComment(mockDb, { id: 1, user_id: 4, body: null, deleted_at: new Date() }, 'Back again');
+
+			expect(result.error).toBe('Cannot edit a deleted comment');
+		});
+	});
+
+	describe('permissions', () => {
+		const comment = { id: 1, user_id: 4, body: 'Power is out past the diamond' };
+
+		it('should only let the author edit', () => {
+			expect(commentsModel.canEditComment(comment, 4)).toBe(true);
+			expect(commentsModel.canEditComment(comment, 12)).toBe(false);
+		});
+	});
+
+	describe('getCommentCounts', () => {
+		it('should map target IDs to counts', async () => {
+			mockDb.select = vi.fn().mockReturnValue({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						groupBy: vi.fn().mockResolvedValue([
+							{ target_id: 5, count: 3 },
+							{ target_id: 6, count: 1 },
+						]),
+					}),
+				}),
+			});
+
+			const result = await commentsModel.getCommentCounts(mockDb, 'issue', [5, 6, 7]);
+
+			expect(result.data).toEqual({ 5: 3, 6: 1 });
+		});
+
+		it('should skip the query when there are no targets', async () => {
+			const result = await commentsModel.getCommentCounts(mockDb, 'issue', []);
+
+			expect(result.data).toEqual({});
+			expect(mockDb.select).not.toHaveBeenCalled();
+		});
+	});
+});
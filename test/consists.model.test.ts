@@ -0,0 +1,177 @@
+// test/consists.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as consistsModel from '../src/consists/model';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+describe('Consists Model', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('normalizeUnits', () => {
+		it('should require at least one unit', () => {
+			expect(consistsModel.normalizeUnits([]).error).toMatch(/at least one unit/);
+		});
+
+		it('should number units front to back and default the first to lead', () => {
+			const result = consistsModel.normalizeUnits([{ address_id: 5 }, { address_id: 9, direction: 'reversed' }]);
+
+			expect(result.units).toEqual([
+				{ address_id: 5, position: 1, direction: 'forward', role: 'lead' },
+				{ address_id: 9, position: 2, direction: 'reversed', role: 'trailing' },
+			]);
+		});
+
+		it('should reject the same address twice', () => {
+			expect(consistsModel.normalizeUnits([{ address_id: 5 }, { address_id: 5 }]).error).toMatch(/only appear once/);
+		});
+
+		it('should reject more than one lead', () => {
+			const result = consistsModel.normalizeUnits([
+				{ address_id: 5, role: 'lead' },
+				{ address_id: 9, role: 'lead' },
+			]);
+
+			expect(result.error).toMatch(/exactly one lead/);
+		});
+
+		it('should reject an unknown direction', () => {
+			expect(consistsModel.normalizeUnits([{ address_id: 5, direction: 'sideways' as any }]).error).toMatch(/Invalid direction/);
+		});
+	});
+
+	describe('createConsist', () => {
+		it('should require club_id', async () => {
+			const result = await consistsModel.createConsist(mockDb, {
+				number: 42,
+				in_use: true,
+				user_id: 1,
+				units: [{ address_id: 5 }],
+			});
+
+			expect(result.error).toMatch(/Missing required field/);
+		});
+
+		it('should reject a number already active in the same club', async () => {
+			mockDb.select = selectSequence([{ id: 7, number: 42, in_use: true, user_id: 2, club_id: 1 }]);
+
+			const result = await consistsModel.createConsist(mockDb, {
+				number: 42,
+				in_use: true,
+				user_id: 1,
+				club_id: 1,
+				units: [{ address_id: 5 }],
+			});
+
+			expect(result.error).toBe('Consist number 42 is already in use in this club');
+		});
+
+		it('should reject an address from another club', async () => {
+			mockDb.select = selectSequence([], [{ id: 5, number: 1234, club_id: 2 }]);
+
+			const result = await consistsModel.createConsist(mockDb, {
+				number: 42,
+				in_use: true,
+				user_id: 1,
+				club_id: 1,
+				units: [{ address_id: 5 }],
+			});
+
+			expect(result.error).toBe('Address 5 not found in this club');
+		});
+
+		it('should reject an address already in another active consist', async () => {
+			mockDb.select = selectSequence(
+				[],
+				[{ id: 5, number: 1234, club_id: 1 }],
+				[{ id: 1, consist_id: 8, address_id: 5, position: 1 }],
+				[{ id: 8, number: 77, in_use: true, club_id: 1 }]
+			);
+
+			const result = await consistsModel.createConsist(mockDb, {
+				number: 42,
+				in_use: true,
+				user_id: 1,
+				club_id: 1,
+				units: [{ address_id: 5 }],
+			});
+
+			expect(result.error).toBe('Address 1234 is already part of active consist 77');
+		});
+
+		it('should allow an address whose previous consist is no longer active', async () => {
+			mockDb.select = selectSequence(
+				[],
+				[{ id: 5, number: 1234, club_id: 1 }],
+				[{ id: 1, consist_id: 8, address_id: 5, position: 1 }],
+				[{ id: 8, number: 77, in_use: false, club_id: 1 }]
+			);
+			mockDb.insert = vi
+				.fn()
+				.mockReturnValueOnce({
+					values: vi.fn().mockReturnValue({
+						returning: vi.fn().mockResolvedValue([{ id: 9, number: 42, in_use: true, user_id: 1, club_id: 1 }]),
+					}),
+				})
+				.mockReturnValueOnce({
+					values: vi.fn().mockReturnValue({
+						returning: vi
+							.fn()
+							.mockResolvedValue([{ id: 3, consist_id: 9, address_id: 5, position: 1, direction: 'forward', role: 'lead' }]),
+					}),
+				});
+			mockDb.delete = vi.fn().mockReturnValue({
+				where: vi.fn().mockResolvedValue([]),
+			});
+
+			const result = await consistsModel.createConsist(mockDb, {
+				number: 42,
+				in_use: true,
+				user_id: 1,
+				club_id: 1,
+				units: [{ address_id: 5 }],
+			});
+
+			expect(result.error).toBeUndefined();
+			expect(result.data?.[0]?.id).toBe(9);
+			expect(result.data?.[0]?.units?.[0]?.role).toBe('lead');
+		});
+	});
+
+	describe('deleteConsist', () => {
+		it('should reject deletion without consist ID', async () => {
+			const result = await consistsModel.deleteConsist(mockDb, 0);
+
+			expect(result.error).toMatch(/Missing ID/);
+		});
+
+		it('should release units before deleting the consist', async () => {
+			const unitsWhere = vi.fn().mockResolvedValue([]);
+			mockDb.delete = vi
+				.fn()
+				.mockReturnValueOnce({ where: unitsWhere })
+				.mockReturnValueOnce({
+					where: vi.fn().mockReturnValue({
+						returning: vi.fn().mockResolvedValue([{ id: 9, number: 42 }]),
+					}),
+				});
+
+			const result = await consistsModel.deleteConsist(mockDb, 9);
+
+			expect(unitsWhere).toHaveBeenCalled();
+			expect(mockDb.delete).toHaveBeenCalledTimes(2);
+			expect(result.data?.[0]?.id).toBe(9);
+		});
+	});
+});
@@ -0,0 +1,208 @@
+// test/digests.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { ClubActivity, DigestRecipient, getDigestRecipients } from '../src/digests/model';
+import { buildDigestSections, digestWindow, sendClubDigests } from '../src/digests/digest';
+
+// Thursday
+const now = new Date('2024-11-14T12:00:00Z');
+
+/**
+ * A query builder mock: every chained call returns the builder, and awaiting it resolves to the rows.
+ */
+const query = (rows: any[]) => {
+	const builder: any = {
+		then: (resolve: any, reject: any) => Promise.resolve(rows).then(resolve, reject),
+	};
+	for (const method of ['from', 'innerJoin', 'leftJoin', 'where', 'orderBy']) {
+		builder[method] = vi.fn().mockReturnValue(builder);
+	}
+	return builder;
+};
+
+const activity = (overrides: Partial<ClubActivity> = {}): ClubActivity => ({
+	timezone: 'America/New_York',
+	new_issues: [
+		{ id: 1, title: 'Dead section at Elm St', status: 'open', tower_id: 3, tower_name: 'Elm Street Tower', owner_id: 7 },
+		{ id: 2, title: 'Broken <turnout>', status: 'open', tower_id: 4, tower_name: 'Yard Tower', owner_id: 8 },
+	],
+	resolved_issues: [],
+	tower_reports: [],
+	upcoming_sessions: [
+		{ id: 42, schedule: new Date('2024-11-16T19:00:00Z'), description: 'Saturday operating session', capacity: 12, confirmed: 9 },
+	],
+	pending_applications: [{ id: 5, name: 'Sam Rivera', status: 'submitted', created_at: new Date('2024-11-13T09:00:00Z') }],
+	expiring_notices: [],
+	...overrides,
+});
+
+const member = (overrides: Partial<DigestRecipient> = {}): DigestRecipient => ({
+	user_id: 7,
+	email: 'dana@example.com',
+	first_name: 'Dana',
+	capabilities: ['file_reports'],
+	categories: ['tower_issues', 'session_reminders', 'application_alerts'],
+	...overrides,
+});
+
+describe('digestWindow', () => {
+	it('should cover the previous UTC day for daily digests', () => {
+		const window = digestWindow('daily', now);
+		expect(window.start.toISOString()).toBe('2024-11-13T00:00:00.000Z');
+		expect(window.end.toISOString()).toBe('2024-11-14T00:00:00.000Z');
+		expect(window.lookaheadUntil.toISOString()).toBe('2024-11-21T12:00:00.000Z');
+	});
+
+	it('should cover the previous Monday-to-Sunday week for weekly digests', () => {
+		const window = digestWindow('weekly', now);
+		expect(window.start.toISOString()).toBe('2024-11-04T00:00:00.000Z');
+		expect(window.end.toISOString()).toBe('2024-11-11T00:00:00.000Z');
+
+		// On a Monday the week that just ended is reported
+		expect(digestWindow('weekly', new Date('2024-11-11T00:30:00Z')).start.toISOString()).toBe('2024-11-04T00:00:00.000Z');
+	});
+});
+
+describe('buildDigestSections', () => {
+	it('should only show members activity on towers they own and hide applications', () => {
+		const html = buildDigestSections(activity(), member());
+
+		expect(html).toContain('Dead section at Elm St');
+		expect(html).not.toContain('Yard Tower');
+		expect(html).not.toContain('Sam Rivera');
+		expect(html).toContain('on Saturday, November 16 at 2:00 PM (3 of 12 slots open)');
+		expect(html).toContain('href="https://locomotivehouse.com/sessions/42"');
+	});
+
+	it('should show triagers every tower and reviewers pending applications, escaped', () => {
+		const html = buildDigestSections(activity(), member({ capabilities: ['file_reports', 'triage_issues', 'review_applications'] }));
+
+		expect(html).toContain('Broken &lt;turnout&gt;');
+		expect(html).toContain('Pending applications');
+		expect(html).toContain('Sam Rivera');
+	});
+
+	it('should only include the categories the member receives in the digest', () => {
+		const html = buildDigestSections(activity(), member({ categories: ['notices'] }));
+		expect(html).toBe('');
+	});
+});
+
+describe('sendClubDigests', () => {
+	const mockDatabase = (recipients: any[], claimed = true) => {
+		const updated: any[] = [];
+		const db = {
+			selectDistinct: vi
+				.fn()
+				// Clubs with digest recipients, then resolved issues
+				.mockReturnValueOnce(query([{ club_id: 1 }]))
+				.mockReturnValueOnce(query([])),
+			select: vi
+				.fn()
+				.mockReturnValueOnce(query(recipients))
+				.mockReturnValueOnce(query([{ timezone: 'America/New_York' }]))
+				.mockReturnValueOnce(query(activity().new_issues))
+				.mockReturnValueOnce(query([]))
+				.mockReturnValueOnce(query([{ id: 42, schedule: new Date('2024-11-16T19:00:00Z'), description: null, capacity: 2 }]))
+				.mockReturnValueOnce(query([{ scheduled_session_id: 42 }, { scheduled_session_id: 42 }]))
+				.mockReturnValueOnce(query([]))
+				.mockReturnValueOnce(query([])),
+			insert: vi.fn().mockReturnValue({
+				values: vi.fn().mockReturnValue({
+					onConflictDoNothing: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue(claimed ? [{ id: 9 }] : []) }),
+				}),
+			}),
+			update: vi.fn().mockReturnValue({
+				set: vi.fn().mockImplementation((values) => {
+					updated.push(values);
+					return { where: vi.fn().mockResolvedValue(undefined) };
+				}),
+			}),
+			delete: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+		} as any;
+		return { db, updated };
+	};
+
+	const recipientRow = (
+		userId: number,
+		category: string,
+		permission: string | null = null,
+		member = true,
+		clubRole: string | null = null,
+		customCapabilities: string | null = null
+	) => ({
+		user_id: userId,
+		email: `member${userId}@example.com`,
+		first_name: 'Dana',
+		permission,
+		club_role: clubRole,
+		custom_capabilities: customCapabilities,
+		member_club_id: member ? 1 : null,
+		category,
+	});
+
+	it('should queue a digest to each member with something to report', async () => {
+		const { db, updated } = mockDatabase([
+			recipientRow(7, 'tower_issues'),
+			recipientRow(7, 'session_reminders'),
+			// Owns no tower with activity, and the only session is full
+			recipientRow(11, 'tower_issues'),
+			recipientRow(11, 'session_reminders'),
+			// Not a member of the club
+			recipientRow(12, 'tower_issues', null, false),
+			// An admin of another club only
+			recipientRow(14, 'tower_issues', 'admin', false),
+			recipientRow(13, 'tower_issues', 'super-admin', false),
+		]);
+		const queue = { queueEmail: vi.fn().mockResolvedValue({ data: { queued: true, email: { id: 500 } } }) };
+
+		const result = await sendClubDigests(db, 'daily', { now, queue });
+
+		expect(result.data).toEqual({ clubs: 1, queued: 2, skipped: 0, empty: 1, failed: 0 });
+		expect(queue.queueEmail.mock.calls.map(([, request]) => request.user_id)).toEqual([7, 13]);
+		expect(queue.queueEmail.mock.calls[0][1]).toMatchObject({
+			recipient_email: 'member7@example.com',
+			template: 'club_digest',
+			club_id: 1,
+			category: 'digest',
+			variables: { name: 'Dana', period: 'daily' },
+		});
+		expect(queue.queueEmail.mock.calls[0][1].variables.sections_html).not.toContain('Upcoming sessions');
+		expect(queue.queueEmail.mock.calls[1][1].variables.sections_html).toContain('Yard Tower');
+		expect(updated).toEqual([{ queued: 2 }]);
+	});
+
+	it('should resolve capabilities from the club role, custom role and super-admin permission', async () => {
+		const db = {
+			select: vi.fn().mockReturnValue(
+				query([
+					recipientRow(7, 'tower_issues', null, true, 'admin'),
+					recipientRow(8, 'tower_issues', 'admin', true),
+					recipientRow(9, 'tower_issues', null, true, null, 'triage_issues'),
+					recipientRow(13, 'tower_issues', 'super-admin', false),
+				])
+			),
+		} as any;
+
+		const result = await getDigestRecipients(db, 1, 'daily');
+		const can = (userId: number, capability: string) =>
+			result.data!.find((recipient) => recipient.user_id === userId)!.capabilities.includes(capability as any);
+
+		expect([7, 8, 9, 13].map((userId) => [userId, can(userId, 'triage_issues'), can(userId, 'review_applications')])).toEqual([
+			[7, true, true],
+			[8, false, false],
+			[9, true, false],
+			[13, true, true],
+		]);
+	});
+
+	it('should not send a club digest twice for the same period', async () => {
+		const { db } = mockDatabase([recipientRow(7, 'tower_issues')], false);
+		const queue = { queueEmail: vi.fn() };
+
+		const result = await sendClubDigests(db, 'daily', { now, queue });
+
+		expect(result.data).toEqual({ clubs: 0, queued: 0, skipped: 0, empty: 0, failed: 0 });
+		expect(db.select).not.toHaveBeenCalled();
+		expect(queue.queueEmail).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,186 @@
+// test/emailDelivery.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import {
+	createCaptureTransport,
+	createHttpApiTransport,
+	createMailChannelsTransport,
+	createTransportFromEnv,
+	OutgoingEmail,
+} from '../src/emailQueue/transports';
+import { deliverQueuedEmails, DeliveryQueue } from '../src/emailQueue/delivery';
+import { EmailQueueItem } from '../src/emailQueue/model';
+import { CRON_SCHEDULES, runEmailDelivery, scheduled } from '../src/scheduled';
+
+const outgoing: OutgoingEmail = {
+	to: 'dana@example.com',
+	from: { email: 'noreply@locomotivehouse.com', name: 'Locomotive House' },
+	subject: 'Welcome',
+	text: 'Hi Dana',
+	html: '<p>Hi Dana</p>',
+};
+
+const queued = (id: number): EmailQueueItem => ({
+	id,
+	recipient_email: `member${id}@example.com`,
+	subject: `Email ${id}`,
+	body: 'Plain text',
+	html_body: '<p>HTML</p>',
+	status: 'processing',
+	retry_count: 0,
+	max_retries: 3,
+	created_at: new Date('2024-11-09'),
+	updated_at: new Date('2024-11-09'),
+});
+
+/**
+ * Builds a queue whose claims return the given batches in turn.
+ */
+const fakeQueue = (...batches: EmailQueueItem[][]) => {
+	const claimNextBatch = vi.fn();
+	batches.forEach((batch) => claimNextBatch.mockResolvedValueOnce({ data: batch }));
+	claimNextBatch.mockResolvedValue({ data: [] });
+	return {
+		claimNextBatch,
+		markAsSent: vi.fn().mockImplementation(async (_db, id) => ({ data: { id, status: 'sent' } })),
+		markAsFailed: vi.fn().mockImplementation(async (_db, id) => ({ data: { id, status: 'pending' } })),
+	};
+};
+
+describe('Email transports', () => {
+	it('should post to an HTTP email API with a bearer key', async () => {
+		const fetchFn = vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: 'msg_1' })));
+		const transport = createHttpApiTransport({ url: 'https://mail.example/send', apiKey: 'key', fetchFn });
+
+		expect(await transport.send(outgoing)).toEqual({ ok: true, messageId: 'msg_1' });
+
+		const [url, init] = fetchFn.mock.calls[0];
+		expect(url).toBe('https://mail.example/send');
+		expect(init.headers.Authorization).toBe('Bearer key');
+		expect(JSON.parse(init.body)).toMatchObject({
+			from: 'Locomotive House <noreply@locomotivehouse.com>',
+			to: ['dana@example.com'],
+			subject: 'Welcome',
+			text: 'Hi Dana',
+			html: '<p>Hi Dana</p>',
+		});
+	});
+
+	it('should classify provider rejections as permanent and outages as transient', async () => {
+		const rejected = createHttpApiTransport({
+			url: 'https://mail.example/send',
+			apiKey: 'key',
+			fetchFn: vi.fn().mockResolvedValue(new Response('invalid recipient', { status: 422 })),
+		});
+		const down = createHttpApiTransport({
+			url: 'https://mail.example/send',
+			apiKey: 'key',
+			fetchFn: vi.fn().mockRejectedValue(new Error('connection reset')),
+		});
+
+		expect(await rejected.send(outgoing)).toEqual({ ok: false, error: 'HTTP 422: invalid recipient', errorClass: 'permanent' });
+		expect(await down.send(outgoing)).toEqual({ ok: false, error: 'Network error: connection reset', errorClass: 'transient' });
+	});
+
+	it('should send MailChannels personalizations with DKIM settings', async () => {
+		const fetchFn = vi.fn().mockResolvedValue(new Response(null, { status: 202 }));
+		const transport = createMailChannelsTransport({
+			apiKey: 'mc-key',
+			dkim: { domain: 'locomotivehouse.com', selector: 'mailchannels', privateKey: 'pk' },
+			fetchFn,
+		});
+
+		expect(await transport.send(outgoing)).toEqual({ ok: true });
+
+		const [url, init] = fetchFn.mock.calls[0];
+		expect(url).toBe('https://api.mailchannels.net/tx/v1/send');
+		expect(init.headers['X-Api-Key']).toBe('mc-key');
+		const body = JSON.parse(init.body);
+		expect(body.personalizations[0]).toEqual({
+			to: [{ email: 'dana@example.com' }],
+			dkim_domain: 'locomotivehouse.com',
+			dkim_selector: 'mailchannels',
+			dkim_private_key: 'pk',
+		});
+		expect(body.content).toEqual([
+			{ type: 'text/plain', value: 'Hi Dana' },
+			{ type: 'text/html', value: '<p>Hi Dana</p>' },
+		]);
+	});
+
+	it('should pick the transport named by EMAIL_TRANSPORT', () => {
+		expect(createTransportFromEnv({}).data).toBeNull();
+		expect(createTransportFromEnv({ EMAIL_TRANSPORT: 'capture' }).data?.name).toBe('capture');
+		expect(createTransportFromEnv({ EMAIL_TRANSPORT: 'http' }).error).toMatch(/EMAIL_API_URL/);
+		expect(createTransportFromEnv({ EMAIL_TRANSPORT: 'smtp' }).error).toBe('Unknown email transport: smtp');
+	});
+});
+
+describe('Email delivery', () => {
+	it('should send claimed emails and report each result under the lease', async () => {
+		const transport = createCaptureTransport((email) =>
+			email.to === 'member2@example.com' ? { ok: false, error: '550 5.1.1 User unknown', errorClass: 'permanent' } : null
+		);
+		const queue = fakeQueue([queued(1), queued(2)]);
+
+		const result = await deliverQueuedEmails({}, transport, { workerId: 'cron-1', batchSize: 5, queue: queue as unknown as DeliveryQueue });
+
+		expect(result.data).toEqual({ claimed: 2, sent: 1, failed: 1, unrecorded: 0 });
+		expect(transport.sent.map((email) => email.to)).toEqual(['member1@example.com']);
+		expect(queue.markAsSent).toHaveBeenCalledWith({}, 1, 'cron-1');
+		expect(queue.markAsFailed).toHaveBeenCalledWith({}, 2, 'cron-1', '550 5.1.1 User unknown', 'permanent');
+	});
+
+	it('should keep claiming full batches up to maxBatches', async () => {
+		const queue = fakeQueue([queued(1), queued(2)], [queued(3), queued(4)], [queued(5), queued(6)]);
+
+		const result = await deliverQueuedEmails({}, createCaptureTransport(), {
+			workerId: 'cron-1',
+			batchSize: 2,
+			maxBatches: 2,
+			queue: queue as unknown as DeliveryQueue,
+		});
+
+		expect(result.data?.sent).toBe(4);
+		expect(queue.claimNextBatch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should count results it could not record once the lease is lost', async () => {
+		const queue = fakeQueue([queued(1)]);
+		queue.markAsSent.mockResolvedValueOnce({ error: 'Lease expired or held by another worker' });
+
+		const result = await deliverQueuedEmails({}, createCaptureTransport(), {
+			workerId: 'cron-1',
+			queue: queue as unknown as DeliveryQueue,
+		});
+
+		expect(result.data).toEqual({ claimed: 1, sent: 0, failed: 0, unrecorded: 1 });
+	});
+
+	it('should skip scheduled delivery when no transport is configured', async () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		await runEmailDelivery({ DATABASE_URL: 'postgres://unused' } as any);
+
+		expect(log).toHaveBeenCalledWith('Email delivery skipped: EMAIL_TRANSPORT is not set');
+		log.mockRestore();
+	});
+
+	it('should only run the jobs for the schedule that fired', async () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+		const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const controller = { cron: CRON_SCHEDULES.delivery } as ScheduledController;
+
+		// Every job but email delivery needs a database, so only webhook delivery should fail
+		await expect(scheduled(controller, { DATABASE_URL: 'postgres://unused' } as any, {} as ExecutionContext)).rejects.toThrow();
+		expect(log).toHaveBeenCalledWith('Email delivery skipped: EMAIL_TRANSPORT is not set');
+		expect(logError).toHaveBeenCalledTimes(1);
+		log.mockRestore();
+		logError.mockRestore();
+	});
+
+	it('should reject a schedule with no jobs', async () => {
+		const controller = { cron: '0 12 * * *' } as ScheduledController;
+
+		await expect(scheduled(controller, {} as any, {} as ExecutionContext)).rejects.toThrow('No jobs for cron schedule "0 12 * * *"');
+	});
+});
@@ -0,0 +1,49 @@
+// test/emailRetry.test.ts
+import { describe, it, expect } from 'vitest';
+import { classifyEmailError, parseFailedEmailFilters } from '../src/emailQueue/retry';
+
+describe('Email Retry Policy', () => {
+	describe('classifyEmailError', () => {
+		it('should treat bad addresses and hard bounces as permanent', () => {
+			expect(classifyEmailError('550 5.1.1 <dana@example.com>: Recipient address rejected: User unknown')).toBe('permanent');
+			expect(classifyEmailError('Hard bounce')).toBe('permanent');
+			expect(classifyEmailError('Invalid email address')).toBe('permanent');
+			expect(classifyEmailError('Recipient is on the suppression list')).toBe('permanent');
+		});
+
+		it('should treat timeouts and provider outages as transient', () => {
+			expect(classifyEmailError('SMTP connection timeout')).toBe('transient');
+			expect(classifyEmailError('421 4.7.0 Try again later')).toBe('transient');
+			expect(classifyEmailError('HTTP 503 Service Unavailable')).toBe('transient');
+			expect(classifyEmailError('HTTP 500 Internal Server Error')).toBe('transient');
+		});
+	});
+
+	describe('parseFailedEmailFilters', () => {
+		it('should parse all filters', () => {
+			const result = parseFailedEmailFilters({
+				error_class: 'transient',
+				failed_after: '2024-11-09T00:00:00Z',
+				failed_before: '2024-11-10T00:00:00Z',
+				recipient_domain: '@Example.COM',
+			});
+
+			expect(result.data).toEqual({
+				error_class: 'transient',
+				failed_after: new Date('2024-11-09T00:00:00Z'),
+				failed_before: new Date('2024-11-10T00:00:00Z'),
+				recipient_domain: 'example.com',
+			});
+		});
+
+		it('should ignore empty values', () => {
+			expect(parseFailedEmailFilters({ error_class: '', recipient_domain: '' }).data).toEqual({});
+		});
+
+		it('should reject invalid filters', () => {
+			expect(parseFailedEmailFilters({ error_class: 'fatal' }).error).toMatch(/error_class/);
+			expect(parseFailedEmailFilters({ failed_after: 'yesterday' }).error).toBe('failed_after must be a valid date');
+			expect(parseFailedEmailFilters({ recipient_domain: '%' }).error).toMatch(/recipient_domain/);
+		});
+	});
+});
@@ -0,0 +1,143 @@
+// test/emailTemplates.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EMAIL_TEMPLATES, getTemplate } from '../src/emailTemplates/templates';
+import { htmlToText, interpolate, renderEmail, renderTemplate } from '../src/emailTemplates/render';
+import { emailQueueModel } from '../src/emailQueue/model';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const branding = {
+	name: 'Valley Model Railroad',
+	description: null,
+	hero_image: 'https://cdn.example.com/valley.jpg',
+};
+
+describe('Email templates', () => {
+	it('should return the latest version unless one is requested', () => {
+		expect(getTemplate('invite')?.version).toBe(EMAIL_TEMPLATES.invite[EMAIL_TEMPLATES.invite.length - 1].version);
+		expect(getTemplate('invite', 1)?.version).toBe(1);
+		expect(getTemplate('invite', 99)).toBeNull();
+		expect(getTemplate('constructor')).toBeNull();
+	});
+
+	it('should render every template with its sample data', () => {
+		for (const versions of Object.values(EMAIL_TEMPLATES)) {
+			for (const template of versions) {
+				const result = renderTemplate(template, template.sampleVariables, branding);
+				expect(result.error).toBeUndefined();
+				expect(result.data?.subject).not.toMatch(/\{\{/);
+				expect(result.data?.html_body).not.toMatch(/\{\{/);
+			}
+		}
+	});
+});
+
+describe('Template rendering', () => {
+	it('should escape variables in HTML but not in plain text', () => {
+		const variables = { name: 'Tom <script>alert(1)</script> & "Co"' };
+
+		expect(interpolate('<p>{{name}}</p>', variables, true)).toBe('<p>Tom &lt;script&gt;alert(1)&lt;/script&gt; &amp; &quot;Co&quot;</p>');
+		expect(interpolate('Hi {{name}}', variables, false)).toBe('Hi Tom <script>alert(1)</script> & "Co"');
+	});
+
+	it('should insert triple-brace variables without escaping', () => {
+		expect(interpolate('<div>{{{sections_html}}}</div>', { sections_html: '<h2>New issues</h2>' }, true)).toBe(
+			'<div><h2>New issues</h2></div>'
+		);
+	});
+
+	it('should resolve dotted paths and fall back for empty values', () => {
+		expect(interpolate('{{session.date}} / {{ name | there }} / {{missing}}', { session: { date: 'Nov 16' }, name: '' }, false)).toBe(
+			'Nov 16 / there / '
+		);
+	});
+
+	it('should derive readable plain text from HTML', () => {
+		const text = htmlToText('<p>Hi Dana,</p>\n<p>Line one<br>Line two &amp; more</p><p><a href="https://x.example/join">Join now</a></p>');
+
+		expect(text).toBe('Hi Dana,\n\nLine one\nLine two & more\n\nJoin now (https://x.example/join)');
+	});
+
+	it('should brand the email for the club', () => {
+		const result = renderTemplate(getTemplate('application_received')!, { name: 'Dana' }, branding);
+
+		expect(result.data?.subject).toBe('We received your application to Valley Model Railroad');
+		expect(result.data?.html_body).toContain('<img src="https://cdn.example.com/valley.jpg"');
+		expect(result.data?.html_body).toContain('Sent by Valley Model Railroad via Locomotive House');
+		expect(result.data?.body).toBe(
+			'Hi Dana,\n\nThank you for applying to join Valley Model Railroad. Our members will review your application and be in touch soon.\n\nIf you have any questions in the meantime, just reply to this email.'
+		);
+	});
+
+	it('should report missing required variables', () => {
+		const result = renderTemplate(getTemplate('invite')!, { name: 'Dana' }, branding);
+
+		expect(result.error).toBe('Missing template variables: join_link, expires_on');
+	});
+});
+
+describe('Templated emails', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	it('should reject unknown templates', async () => {
+		const result = await renderEmail(mockDb, { template: 'newsletter' });
+
+		expect(result.error).toBe('Unknown template: newsletter');
+	});
+
+	it('should queue the rendered email with its template name and version', async () => {
+		const values = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ id: 12 }]) });
+		mockDb.select = vi.fn().mockReturnValue({
+			from: vi.fn().mockReturnValue({
+				where: vi.fn().mockResolvedValue([branding]),
+			}),
+		});
+		mockDb.insert = vi.fn().mockReturnValue({ values });
+
+		const result = await emailQueueModel.createTemplatedEmail(mockDb, {
+			recipient_email: 'dana@example.com',
+			template: 'invite',
+			variables: { name: 'Dana', join_link: 'https://locomotivehouse.com/join?token=abc', expires_on: '2024-11-23' },
+			club_id: 1,
+		});
+
+		expect(result.data).toEqual({ id: 12 });
+		const queued = values.mock.calls[0][0];
+		expect(queued).toMatchObject({
+			recipient_email: 'dana@example.com',
+			subject: 'Welcome to Valley Model Railroad',
+			template_name: 'invite',
+			template_version: 1,
+		});
+		expect(queued.html_body).toContain('href="https://locomotivehouse.com/join?token=abc"');
+		expect(queued.body).toContain('Create your account and join the club (https://locomotivehouse.com/join?token=abc)');
+	});
+
+	it('should not queue an email for a club that does not exist', async () => {
+		mockDb.select = vi.fn().mockReturnValue({
+			from: vi.fn().mockReturnValue({
+				where: vi.fn().mockResolvedValue([]),
+			}),
+		});
+
+		const result = await emailQueueModel.createTemplatedEmail(mockDb, {
+			recipient_email: 'dana@example.com',
+			template: 'application_received',
+			club_id: 99,
+		});
+
+		expect(result.error).toBe('Club not found');
+		expect(mockDb.insert).not.toHaveBeenCalled();
+	});
+});
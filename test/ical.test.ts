@@ -0,0 +1,106 @@
+// test/ical.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+	buildCalendar,
+	buildVTimezone,
+	escapeText,
+	foldLine,
+	formatLocalDateTime,
+	getTimeZoneOffset,
+	isValidTimeZone,
+} from '../src/utils/ical';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+describe('iCalendar utility', () => {
+	describe('escapeText', () => {
+		it('should escape backslashes, separators and newlines', () => {
+			expect(escapeText('Yard; staging, and\\ more\nnext line')).toBe('Yard\\; staging\\, and\\\\ more\\nnext line');
+		});
+	});
+
+	describe('foldLine', () => {
+		it('should leave short lines alone', () => {
+			expect(foldLine('SUMMARY:Ops')).toBe('SUMMARY:Ops');
+		});
+
+		it('should fold at 75 octets without splitting multi-byte characters', () => {
+			const folded = foldLine(`SUMMARY:${'é'.repeat(80)}`);
+			const encoder = new TextEncoder();
+
+			for (const line of folded.split('\r\n')) {
+				expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+			}
+			expect(
+				folded
+					.split('\r\n')
+					.map((line, index) => (index === 0 ? line : line.slice(1)))
+					.join('')
+			).toBe(`SUMMARY:${'é'.repeat(80)}`);
+		});
+	});
+
+	describe('timezones', () => {
+		it('should validate IANA timezone names', () => {
+			expect(isValidTimeZone('America/Chicago')).toBe(true);
+			expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+		});
+
+		it('should follow daylight saving time', () => {
+			expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+			expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+			expect(formatLocalDateTime(new Date('2024-07-15T23:30:00Z'), 'America/New_York')).toBe('20240715T193000');
+		});
+
+		it('should describe each offset change in the window', () => {
+			const lines = buildVTimezone('America/New_York', new Date('2024-02-01T00:00:00Z'), new Date('2024-12-01T00:00:00Z'));
+
+			expect(lines.join('\n')).toContain(
+				['BEGIN:DAYLIGHT', 'DTSTART:20240310T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400', 'END:DAYLIGHT'].join('\n')
+			);
+			expect(lines.join('\n')).toContain(
+				['BEGIN:STANDARD', 'DTSTART:20241103T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500', 'END:STANDARD'].join('\n')
+			);
+		});
+
+		it('should emit a single observance for zones without daylight saving', () => {
+			const lines = buildVTimezone('Asia/Tokyo', new Date('2024-02-01T00:00:00Z'), new Date('2024-12-01T00:00:00Z'));
+
+			expect(lines.filter((line) => line.startsWith('BEGIN:STANDARD') || line.startsWith('BEGIN:DAYLIGHT'))).toHaveLength(1);
+			expect(lines).toContain('TZOFFSETTO:+0900');
+		});
+	});
+
+	describe('buildCalendar', () => {
+		const event = {
+			uid: 'session-1@locomotivehouse.com',
+			start: new Date('2024-07-16T23:00:00Z'),
+			end: new Date('2024-07-17T02:00:00Z'),
+			summary: 'Operating session, yard crew',
+		};
+
+		it('should write times in the calendar timezone with a matching VTIMEZONE', () => {
+			const ics = buildCalendar({ name: 'Club', timezone: 'America/New_York', events: [event] }, now);
+
+			expect(ics).toContain('TZID:America/New_York\r\n');
+			expect(ics).toContain('DTSTART;TZID=America/New_York:20240716T190000\r\n');
+			expect(ics).toContain('DTEND;TZID=America/New_York:20240716T220000\r\n');
+			expect(ics).toContain('SUMMARY:Operating session\\, yard crew\r\n');
+			expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+		});
+
+		it('should write UTC times without a VTIMEZONE', () => {
+			const ics = buildCalendar({ name: 'Club', timezone: 'UTC', events: [event] }, now);
+
+			expect(ics).not.toContain('BEGIN:VTIMEZONE');
+			expect(ics).toContain('DTSTART:20240716T230000Z\r\n');
+			expect(ics).toContain('DTSTAMP:20240301T120000Z\r\n');
+		});
+
+		it('should fall back to UTC for an unknown timezone', () => {
+			const ics = buildCalendar({ name: 'Club', timezone: 'Nowhere/Special', events: [event] }, now);
+
+			expect(ics).toContain('DTSTART:20240716T230000Z\r\n');
+		});
+	});
+});
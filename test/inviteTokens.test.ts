@@ -82,11 +82,11 @@ describe('Invite Tokens System', () => {
 
 	describe('POST /api/clubs/:id/invite-tokens', () => {
 		describe('Admin Authorization', () => {
-			it('should require checkAdminPermission middleware', () => {
-				// Endpoint requires both checkAuth and checkAdminPermission
-				const requiredMiddleware = ['checkAuth', 'checkAdminPermission'];
+			it('should require the manage_invites capability', () => {
+				// Endpoint requires checkAuth, checkUserPermission and authorize('inviteToken', 'write'), which needs manage_invites
+				const requiredMiddleware = ['checkAuth', 'checkUserPermission', "authorize('inviteToken', 'write')"];
 
-				expect(requiredMiddleware).toContain('checkAdminPermission');
+				expect(requiredMiddleware).toContain("authorize('inviteToken', 'write')");
 			});
 
 			it('should return 403 if user is not admin', () => {
@@ -211,9 +211,9 @@ describe('Invite Tokens System', () => {
 
 	describe('GET /api/clubs/:id/invite-tokens', () => {
 		describe('Admin Authorization', () => {
-			it('should require admin permission', () => {
-				const requiredMiddleware = ['checkAuth', 'checkAdminPermission'];
-				expect(requiredMiddleware).toContain('checkAdminPermission');
+			it('should require the manage_invites capability', () => {
+				const requiredMiddleware = ['checkAuth', 'checkUserPermission', "authorize('inviteToken', 'read')"];
+				expect(requiredMiddleware).toContain("authorize('inviteToken', 'read')");
 			});
 		});
 
@@ -304,9 +304,9 @@ describe('Invite Tokens System', () => {
 
 	describe('DELETE /api/clubs/:id/invite-tokens/:token', () => {
 		describe('Admin Authorization', () => {
-			it('should require admin permission', () => {
-				const requiredMiddleware = ['checkAuth', 'checkAdminPermission'];
-				expect(requiredMiddleware).toContain('checkAdminPermission');
+			it('should require the manage_invites capability', () => {
+				const requiredMiddleware = ['checkAuth', 'checkUserPermission', "authorize('inviteToken', 'write')"];
+				expect(requiredMiddleware).toContain("authorize('inviteToken', 'write')");
 			});
 		});
 
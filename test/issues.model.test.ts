@@ -0,0 +1,168 @@
+// test/issues.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as issuesModel from '../src/issues/model';
+import { validateTransition } from '../src/issues/workflow';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const existingIssue = {
+	id: 5,
+	tower_id: 2,
+	user_id: 4,
+	title: 'Dead section at Elm St',
+	type: 'maintenance',
+	status: 'open',
+	description: null,
+	assignee_id: null,
+};
+
+describe('Issue workflow', () => {
+	it('should allow moves along the workflow', () => {
+		expect(validateTransition('open', 'triaged')).toBeNull();
+		expect(validateTransition('in_progress', 'blocked')).toBeNull();
+		expect(validateTransition('blocked', 'in_progress')).toBeNull();
+	});
+
+	it('should allow reopening resolved and closed issues', () => {
+		expect(validateTransition('resolved', 'open')).toBeNull();
+		expect(validateTransition('closed', 'open')).toBeNull();
+	});
+
+	it('should reject skipping steps', () => {
+		expect(validateTransition('open', 'resolved')).toBe('Cannot move issue from open to resolved');
+		expect(validateTransition('closed', 'in_progress')).toBe('Cannot move issue from closed to in_progress');
+	});
+
+	it('should reject unknown statuses', () => {
+		expect(validateTransition('open', 'fixed')).toMatch(/Invalid status "fixed"/);
+	});
+
+	it('should let legacy free-text statuses join the workflow', () => {
+		expect(validateTransition('Needs parts', 'in_progress')).toBeNull();
+	});
+});
+
+describe('Issues Model', () => {
+	let mockDb: MockDB;
+	let set: ReturnType<typeof vi.fn>;
+	let values: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		set = vi.fn().mockReturnValue({
+			where: vi.fn().mockReturnValue({
+				returning: vi.fn().mockResolvedValue([{ ...existingIssue, status: 'triaged' }]),
+			}),
+		});
+		values = vi.fn().mockReturnValue({
+			returning: vi.fn().mockResolvedValue([{ ...existingIssue }]),
+		});
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn().mockReturnValue({ values }),
+			update: vi.fn().mockReturnValue({ set }),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('createIssue', () => {
+		it('should default to open and record the initial status', async () => {
+			const result = await issuesModel.createIssue(
+				mockDb,
+				{ tower_id: 2, user_id: 4, title: 'Dead section', type: 'maintenance' },
+				{ actorId: 4 }
+			);
+
+			expect(result.error).toBeUndefined();
+			expect(values).toHaveBeenNthCalledWith(1, expect.objectContaining({ status: 'open', assignee_id: null }));
+			expect(values).toHaveBeenNthCalledWith(2, { issue_id: 5, user_id: 4, from_status: null, to_status: 'open', note: null });
+		});
+
+		it('should reject a status outside the workflow', async () => {
+			const result = await issuesModel.createIssue(mockDb, {
+				tower_id: 2,
+				user_id: 4,
+				title: 'Dead section',
+				type: 'maintenance',
+				status: 'fixed',
+			});
+
+			expect(result.error).toMatch(/Invalid status/);
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+
+		it('should reject an assignee who is not a club member', async () => {
+			mockDb.select = selectSequence([]);
+
+			const result = await issuesModel.createIssue(
+				mockDb,
+				{ tower_id: 2, user_id: 4, title: 'Dead section', type: 'maintenance', assignee_id: 99 },
+				{ clubId: 1, actorId: 4 }
+			);
+
+			expect(result.error).toBe('Assignee must be a member of this club');
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('updateIssue', () => {
+		it('should record an allowed status change with actor and note', async () => {
+			mockDb.select = selectSequence([existingIssue]);
+
+			const result = await issuesModel.updateIssue(
+				mockDb,
+				'5',
+				{ ...existingIssue, status: 'triaged' },
+				{ clubId: 1, actorId: 12, note: 'Checked the feeders' }
+			);
+
+			expect(result.data?.[0].status).toBe('triaged');
+			expect(values).toHaveBeenCalledWith({
+				issue_id: 5,
+				user_id: 12,
+				from_status: 'open',
+				to_status: 'triaged',
+				note: 'Checked the feeders',
+			});
+		});
+
+		it('should reject a status change the workflow does not allow', async () => {
+			mockDb.select = selectSequence([existingIssue]);
+
+			const result = await issuesModel.updateIssue(mockDb, '5', { ...existingIssue, status: 'closed' }, { actorId: 12 });
+			expect(result.error).toBeUndefined();
+
+			mockDb.select = selectSequence([{ ...existingIssue, status: 'closed' }]);
+			const rejected = await issuesModel.updateIssue(mockDb, '5', { ...existingIssue, status: 'resolved' }, { actorId: 12 });
+
+			expect(rejected.error).toBe('Cannot move issue from closed to resolved');
+		});
+
+		it('should not write history when the status is unchanged', async () => {
+			mockDb.select = selectSequence([existingIssue]);
+
+			await issuesModel.updateIssue(mockDb, '5', { ...existingIssue, title: 'Dead section at Elm Street' });
+
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+
+		it('should check that a new assignee belongs to the club', async () => {
+			mockDb.select = selectSequence([existingIssue], [{ user_id: 12, club_id: 1 }]);
+
+			const result = await issuesModel.updateIssue(mockDb, '5', { ...existingIssue, assignee_id: 12 }, { clubId: 1, actorId: 4 });
+
+			expect(result.error).toBeUndefined();
+			expect(set).toHaveBeenCalledWith(expect.objectContaining({ assignee_id: 12 }));
+		});
+
+		it('should return an error when the issue does not exist', async () => {
+			mockDb.select = selectSequence([]);
+
+			const result = await issuesModel.updateIssue(mockDb, '404', { ...existingIssue, status: 'triaged' }, { actorId: 4 });
+
+			expect(result.error).toBe('Issue not found');
+		});
+	});
+});
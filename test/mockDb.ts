@@ -0,0 +1,19 @@
+// test/mockDb.ts
+import { vi } from 'vitest';
+
+/**
+ * Builds a select mock that resolves each successive query with the next result set.
+ */
+export const selectSequence = (...resultSets: any[][]) => {
+	const select = vi.fn();
+	resultSets.forEach((rows) => {
+		const where = vi.fn().mockResolvedValue(rows);
+		select.mockReturnValueOnce({
+			from: vi.fn().mockReturnValue({
+				where,
+				innerJoin: vi.fn().mockReturnValue({ where }),
+			}),
+		});
+	});
+	return select;
+};
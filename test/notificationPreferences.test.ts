@@ -0,0 +1,227 @@
+// test/notificationPreferences.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as notificationPreferencesModel from '../src/notificationPreferences/model';
+import { createUnsubscribeUrl, getUnsubscribeConfig, verifyUnsubscribeQuery } from '../src/notificationPreferences/unsubscribe';
+import { emailQueueService } from '../src/emailQueue/service';
+import { toOutgoingEmail } from '../src/emailQueue/delivery';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const config = { secret: 'unsubscribe-secret', baseUrl: 'https://api.example.com' };
+
+const queryOf = (url: string) => Object.fromEntries(new URL(url).searchParams);
+
+describe('Unsubscribe links', () => {
+	it('should round-trip a signed link', async () => {
+		const url = await createUnsubscribeUrl(config, { email: 'Dana@Example.com', user_id: 7, club_id: 1, category: 'notices' });
+
+		expect(url.startsWith('https://api.example.com/api/unsubscribe?')).toBe(true);
+		expect(await verifyUnsubscribeQuery(config.secret, queryOf(url))).toEqual({
+			email: 'dana@example.com',
+			user_id: 7,
+			club_id: 1,
+			category: 'notices',
+		});
+	});
+
+	it('should reject a link whose recipient or scope was changed', async () => {
+		const query = queryOf(await createUnsubscribeUrl(config, { email: 'dana@example.com', user_id: 7, club_id: 1, category: 'notices' }));
+
+		expect(await verifyUnsubscribeQuery(config.secret, { ...query, email: 'sam@example.com' })).toBeNull();
+		expect(await verifyUnsubscribeQuery(config.secret, { ...query, user: '8' })).toBeNull();
+		expect(await verifyUnsubscribeQuery(config.secret, { ...query, category: undefined })).toBeNull();
+		expect(await verifyUnsubscribeQuery('other-secret', query)).toBeNull();
+	});
+
+	it('should reject a link without a signature', async () => {
+		expect(await verifyUnsubscribeQuery(config.secret, { email: 'dana@example.com' })).toBeNull();
+	});
+
+	it('should only be configured when a signing secret is set', () => {
+		expect(getUnsubscribeConfig({})).toBeNull();
+		expect(getUnsubscribeConfig({ UNSUBSCRIBE_SIGNING_SECRET: 's' }, 'https://worker.example')).toEqual({
+			secret: 's',
+			baseUrl: 'https://worker.example',
+		});
+		expect(
+			getUnsubscribeConfig({ UNSUBSCRIBE_SIGNING_SECRET: 's', API_URL: 'https://api.example.com' }, 'https://worker.example')?.baseUrl
+		).toBe('https://api.example.com');
+	});
+});
+
+describe('Notification Preferences Model', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+		} as any;
+	});
+
+	describe('getPreferences', () => {
+		it('should fill in defaults and hide admin categories from members', async () => {
+			mockDb.select = selectSequence([{ category: 'notices', delivery: 'daily_digest' }]);
+
+			const result = await notificationPreferencesModel.getPreferences(mockDb, 7, 1, false);
+
+			expect(result.data?.map((preference) => [preference.category, preference.delivery])).toEqual([
+				['session_reminders', 'immediate'],
+				['notices', 'daily_digest'],
+				['tower_issues', 'immediate'],
+			]);
+		});
+	});
+
+	describe('checkRecipient', () => {
+		const recipient = { email: 'dana@example.com', user_id: 7, club_id: 1, category: 'notices' };
+
+		it('should skip suppressed addresses', async () => {
+			mockDb.select = selectSequence([{ email: 'dana@example.com' }]);
+			expect(await notificationPreferencesModel.checkRecipient(mockDb, recipient)).toEqual({ data: 'unsubscribed' });
+		});
+
+		it('should skip categories the member turned off or moved to the digest', async () => {
+			mockDb.select = selectSequence([], [{ delivery: 'off' }]);
+			expect(await notificationPreferencesModel.checkRecipient(mockDb, recipient)).toEqual({ data: 'preference_off' });
+
+			mockDb.select = selectSequence([], [{ delivery: 'daily_digest' }]);
+			expect(await notificationPreferencesModel.checkRecipient(mockDb, recipient)).toEqual({ data: 'daily_digest' });
+
+			mockDb.select = selectSequence([], [{ delivery: 'weekly_digest' }]);
+			expect(await notificationPreferencesModel.checkRecipient(mockDb, recipient)).toEqual({ data: 'weekly_digest' });
+		});
+
+		it('should allow immediate delivery by default', async () => {
+			mockDb.select = selectSequence([], []);
+			expect(await notificationPreferencesModel.checkRecipient(mockDb, recipient)).toEqual({ data: null });
+		});
+	});
+
+	describe('unsubscribe', () => {
+		it('should turn off only the category for a notification link', async () => {
+			let values: any;
+			mockDb.insert = vi.fn().mockReturnValue({
+				values: vi.fn().mockImplementation((v) => {
+					values = v;
+					return { onConflictDoUpdate: vi.fn().mockResolvedValue(undefined) };
+				}),
+			});
+
+			const result = await notificationPreferencesModel.unsubscribe(mockDb, {
+				email: 'dana@example.com',
+				user_id: 7,
+				club_id: 1,
+				category: 'notices',
+			});
+
+			expect(result.data).toEqual({ scope: 'category' });
+			expect(values).toMatchObject({ user_id: 7, club_id: 1, category: 'notices', delivery: 'off' });
+		});
+
+		it('should turn off the digest categories for a digest link', async () => {
+			const values: any[] = [];
+			mockDb.select = selectSequence([
+				{ category: 'notices', delivery: 'daily_digest' },
+				{ category: 'tower_issues', delivery: 'weekly_digest' },
+				{ category: 'session_reminders', delivery: 'immediate' },
+			]);
+			mockDb.insert = vi.fn().mockReturnValue({
+				values: vi.fn().mockImplementation((v) => {
+					values.push(v);
+					return { onConflictDoUpdate: vi.fn().mockResolvedValue(undefined) };
+				}),
+			});
+
+			const result = await notificationPreferencesModel.unsubscribe(mockDb, {
+				email: 'dana@example.com',
+				user_id: 7,
+				club_id: 1,
+				category: notificationPreferencesModel.DIGEST_CATEGORY,
+			});
+
+			expect(result.data).toEqual({ scope: 'digest' });
+			expect(values.map((v) => [v.category, v.delivery])).toEqual([
+				['notices', 'off'],
+				['tower_issues', 'off'],
+			]);
+		});
+
+		it('should suppress the address for any other link', async () => {
+			let values: any;
+			mockDb.insert = vi.fn().mockReturnValue({
+				values: vi.fn().mockImplementation((v) => {
+					values = v;
+					return { onConflictDoNothing: vi.fn().mockResolvedValue(undefined) };
+				}),
+			});
+
+			const result = await notificationPreferencesModel.unsubscribe(mockDb, { email: 'Dana@Example.com ' });
+
+			expect(result.data).toEqual({ scope: 'all' });
+			expect(values).toEqual({ email: 'dana@example.com', reason: 'unsubscribed' });
+		});
+	});
+});
+
+describe('Queueing with preferences', () => {
+	it('should not queue an email the member turned off', async () => {
+		const mockDb = { select: selectSequence([], [{ delivery: 'off' }]), insert: vi.fn() } as any;
+
+		const result = await emailQueueService.queueEmail(
+			mockDb,
+			{ recipient_email: 'dana@example.com', subject: 'Notice', body: 'Hi', user_id: 7, club_id: 1, category: 'notices' },
+			config
+		);
+
+		expect(result.data).toEqual({ queued: false, reason: 'preference_off' });
+		expect(mockDb.insert).not.toHaveBeenCalled();
+	});
+
+	it('should queue other emails with a signed unsubscribe link', async () => {
+		let values: any;
+		const mockDb = {
+			select: selectSequence([]),
+			insert: vi.fn().mockReturnValue({
+				values: vi.fn().mockImplementation((v) => {
+					values = v;
+					return { returning: vi.fn().mockResolvedValue([{ id: 5, ...v }]) };
+				}),
+			}),
+		} as any;
+
+		const result = await emailQueueService.queueEmail(
+			mockDb,
+			{ recipient_email: 'dana@example.com', subject: 'Hello', body: 'Hi' },
+			config
+		);
+
+		expect(result.data?.queued).toBe(true);
+		const recipient = await verifyUnsubscribeQuery(config.secret, queryOf(values.unsubscribe_url));
+		expect(recipient?.email).toBe('dana@example.com');
+	});
+
+	it('should add List-Unsubscribe headers when delivering', () => {
+		const email = {
+			id: 5,
+			recipient_email: 'dana@example.com',
+			subject: 'Hello',
+			body: 'Hi',
+			status: 'processing' as const,
+			retry_count: 0,
+			max_retries: 3,
+			unsubscribe_url: 'https://api.example.com/api/unsubscribe?email=dana%40example.com&signature=abc',
+			created_at: new Date(),
+			updated_at: new Date(),
+		};
+
+		expect(toOutgoingEmail(email, { email: 'noreply@example.com' }).headers).toEqual({
+			'List-Unsubscribe': '<https://api.example.com/api/unsubscribe?email=dana%40example.com&signature=abc>',
+			'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+		});
+		expect(toOutgoingEmail({ ...email, unsubscribe_url: null }, { email: 'noreply@example.com' }).headers).toBeUndefined();
+	});
+});
@@ -0,0 +1,216 @@
+// test/policy.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { capabilitiesFor } from '../src/clubRoles/capabilities';
+import type { Capability } from '../src/clubRoles/capabilities';
+import { actorFromContext, actorFromRoles, authorize, can, POLICIES, RESOURCES } from '../src/utils/policy';
+import type { Actor, Resource } from '../src/utils/policy';
+
+/**
+ * Authorization Policy Tests
+ * These tests walk every resource through the actors a club sees: outsiders, plain members,
+ * owners of a record, members holding a capability, club admins, super-admins and M2M clients
+ */
+
+const actor = (overrides: Partial<Actor> & { isAdmin?: boolean; custom?: Capability[] } = {}): Actor => {
+	const { isAdmin = false, custom, ...rest } = overrides;
+	const base = { userId: 4, isM2M: false, isSuperAdmin: false, isMember: true, ...rest };
+	return {
+		...base,
+		capabilities: rest.capabilities ?? capabilitiesFor({ ...base, isAdmin, customCapabilities: custom }),
+	};
+};
+
+const nonMember = actor({ isMember: false });
+const member = actor();
+const clubAdmin = actor({ isAdmin: true });
+const superAdmin = actor({ userId: 1, isSuperAdmin: true, isMember: false });
+const m2m = actor({ userId: null, isM2M: true, isMember: false });
+
+// A record owned by the member, and one owned by someone else
+const owned = { owner_id: 4, user_id: 4 };
+const others = { owner_id: 12, user_id: 12 };
+
+describe('Authorization policy', () => {
+	describe('Every resource', () => {
+		it.each(RESOURCES.filter((resource) => !POLICIES[resource].outsideClub))('should refuse %s to non-members', (resource) => {
+			expect(can(nonMember, 'read', resource)).toBe(false);
+			expect(can(nonMember, 'write', resource)).toBe(false);
+			expect(can(nonMember, 'write', resource, owned)).toBe(false);
+		});
+
+		it.each(RESOURCES)('should allow %s to club admins, super-admins and M2M', (resource) => {
+			for (const who of [clubAdmin, superAdmin, m2m]) {
+				expect(can(who, 'read', resource)).toBe(true);
+				expect(can(who, 'write', resource)).toBe(true);
+				expect(can(who, 'write', resource, others)).toBe(true);
+			}
+		});
+
+		it.each(RESOURCES)("should let a holder of %s's manage capability change anyone's records", (resource) => {
+			const manager = actor({ custom: [POLICIES[resource].manage] });
+
+			expect(can(manager, 'read', resource)).toBe(true);
+			expect(can(manager, 'write', resource)).toBe(true);
+			expect(can(manager, 'write', resource, others)).toBe(true);
+		});
+	});
+
+	describe('Plain members', () => {
+		// read: may list and view; create: may add one; own: may change their own; others: may change anyone's
+		const matrix: [Resource, { read: boolean; create: boolean; own: boolean; others: boolean }][] = [
+			['club', { read: true, create: false, own: false, others: false }],
+			['member', { read: true, create: false, own: false, others: false }],
+			['clubRole', { read: true, create: false, own: false, others: false }],
+			['inviteToken', { read: false, create: false, own: false, others: false }],
+			['webhook', { read: false, create: false, own: false, others: false }],
+			['tower', { read: true, create: false, own: true, others: false }],
+			['towerReport', { read: true, create: true, own: true, others: false }],
+			['issue', { read: true, create: true, own: true, others: false }],
+			['comment', { read: true, create: true, own: true, others: false }],
+			['attachment', { read: true, create: true, own: true, others: false }],
+			['address', { read: true, create: true, own: true, others: false }],
+			['addressReservation', { read: true, create: false, own: false, others: false }],
+			['consist', { read: true, create: true, own: true, others: false }],
+			['notice', { read: true, create: false, own: false, others: false }],
+			['scheduledSession', { read: true, create: false, own: false, others: false }],
+			['sessionSeries', { read: true, create: false, own: false, others: false }],
+			['appointment', { read: true, create: true, own: true, others: false }],
+			['application', { read: true, create: false, own: false, others: false }],
+			['applicationReview', { read: false, create: false, own: false, others: false }],
+			['apiKey', { read: true, create: true, own: true, others: false }],
+			['profile', { read: true, create: false, own: true, others: false }],
+			['notificationPreference', { read: true, create: true, own: true, others: false }],
+		];
+
+		it('should cover every resource', () => {
+			expect(matrix.map(([resource]) => resource)).toEqual([...RESOURCES]);
+		});
+
+		it.each(matrix)('should apply the member rules for %s', (resource, expected) => {
+			expect(can(member, 'read', resource)).toBe(expected.read);
+			expect(can(member, 'write', resource)).toBe(expected.create);
+			expect(can(member, 'write', resource, owned)).toBe(expected.own);
+			expect(can(member, 'write', resource, others)).toBe(expected.others);
+		});
+	});
+
+	describe('Ownership', () => {
+		it('should read the owner from the field the resource names', () => {
+			// Towers are owned through owner_id, everything else through user_id
+			expect(can(member, 'write', 'tower', { owner_id: 4, user_id: 12 })).toBe(true);
+			expect(can(member, 'write', 'tower', { owner_id: 12, user_id: 4 })).toBe(false);
+			expect(can(member, 'write', 'issue', { owner_id: 12, user_id: 4 })).toBe(true);
+		});
+
+		it('should not treat a missing owner as a match', () => {
+			expect(can(member, 'write', 'tower', { owner_id: null })).toBe(false);
+			expect(can(actor({ userId: null }), 'write', 'issue', { user_id: undefined })).toBe(false);
+		});
+
+		it('should let a member create an address only for themselves', () => {
+			expect(can(member, 'write', 'address', { user_id: 4 })).toBe(true);
+			expect(can(member, 'write', 'address', { user_id: 12 })).toBe(false);
+			expect(can(actor({ custom: ['manage_addresses'] }), 'write', 'address', { user_id: 12 })).toBe(true);
+		});
+
+		it('should stop owners who have left the club', () => {
+			expect(can(actor({ isMember: false }), 'write', 'towerReport', owned)).toBe(false);
+		});
+
+		it('should let users outside any club edit only their own profile', () => {
+			// Routes without a club give everyone but super-admins no capabilities
+			const signedIn = actor({ isMember: false, capabilities: [] });
+
+			expect(can(signedIn, 'write', 'profile', owned)).toBe(true);
+			expect(can(signedIn, 'write', 'profile', others)).toBe(false);
+			expect(can(superAdmin, 'write', 'profile', others)).toBe(true);
+			expect(can({ ...signedIn, scopes: ['write:members'] }, 'write', 'profile', owned)).toBe(false);
+		});
+	});
+
+	describe('Capabilities that only allow creating', () => {
+		it('should need file_reports to file issues and reports', () => {
+			const withoutFileReports = actor({ capabilities: [] });
+
+			expect(can(withoutFileReports, 'write', 'issue')).toBe(false);
+			expect(can(withoutFileReports, 'write', 'towerReport')).toBe(false);
+			// They can still change the ones they filed
+			expect(can(withoutFileReports, 'write', 'issue', owned)).toBe(true);
+		});
+
+		it('should not let file_reports change other members issues', () => {
+			expect(can(member, 'write', 'issue', others)).toBe(false);
+			expect(can(actor({ custom: ['triage_issues'] }), 'write', 'issue', others)).toBe(true);
+		});
+	});
+
+	describe('Actors', () => {
+		it('should build the actor from the request context', () => {
+			expect(actorFromContext({ var: { userId: 4, isMember: true, capabilities: ['file_reports'] } })).toEqual({
+				userId: 4,
+				isM2M: false,
+				isSuperAdmin: false,
+				isMember: true,
+				capabilities: ['file_reports'],
+			});
+		});
+
+		it('should not carry the Clerk ID of an M2M request as a user ID', () => {
+			expect(actorFromContext({ var: { userId: 'mch_123', isM2M: true } })).toMatchObject({ userId: null, isM2M: true, capabilities: [] });
+		});
+
+		it('should build the actor from resolved roles', () => {
+			const roles = { id: 4, isSuperAdmin: false, isMember: true, clubRole: null, capabilities: ['file_reports'] as Capability[] };
+
+			expect(actorFromRoles(roles)).toEqual({
+				userId: 4,
+				isM2M: false,
+				isSuperAdmin: false,
+				isMember: true,
+				capabilities: ['file_reports'],
+			});
+		});
+	});
+});
+
+describe('authorize', () => {
+	/**
+	 * A Hono context carrying what checkAuth and checkUserPermission set
+	 */
+	const context = (vars: Record<string, unknown>) => ({
+		var: vars,
+		json: vi.fn((body: unknown, status: number) => ({ body, status })),
+	});
+
+	it('should call the next handler when the policy allows the request', async () => {
+		const next = vi.fn().mockResolvedValue('next');
+
+		expect(await authorize('tower', 'read')(context({ userId: 4, isMember: true, capabilities: ['file_reports'] }), next)).toBe('next');
+	});
+
+	it('should respond 403 naming the action and resource', async () => {
+		const c = context({ userId: 4, isMember: true, capabilities: ['file_reports'] });
+		const next = vi.fn();
+
+		expect(await authorize('notice', 'write')(c, next)).toEqual({
+			body: { error: 'Unauthorized: No write access to notice' },
+			status: 403,
+		});
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it('should refuse users outside the club', async () => {
+		const next = vi.fn();
+
+		expect(await authorize('tower', 'read')(context({ userId: 4, isMember: false, capabilities: [] }), next)).toMatchObject({
+			status: 403,
+		});
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it('should let M2M requests through', async () => {
+		const next = vi.fn().mockResolvedValue('next');
+
+		expect(await authorize('webhook', 'write')(context({ isM2M: true }), next)).toBe('next');
+	});
+});
@@ -0,0 +1,176 @@
+// test/rrule.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseRRule, validateRRule, formatRRule, expandRRule } from '../src/utils/rrule';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('RRULE utility', () => {
+	describe('parseRRule', () => {
+		it('should parse weekly rules with an interval', () => {
+			expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU')).toEqual({
+				freq: 'WEEKLY',
+				interval: 2,
+				byDay: [{ weekday: 2 }],
+			});
+		});
+
+		it('should accept an RRULE: prefix and ordinal weekdays', () => {
+			expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1SA').byDay).toEqual([{ weekday: 6, ordinal: -1 }]);
+		});
+
+		it('should treat a date-only UNTIL as the end of that day', () => {
+			expect(parseRRule('FREQ=DAILY;UNTIL=20240131').until?.toISOString()).toBe('2024-01-31T23:59:59.000Z');
+		});
+
+		it('should reject unsupported frequencies', () => {
+			expect(validateRRule('FREQ=YEARLY')).toMatch(/Unsupported FREQ/);
+		});
+
+		it('should reject COUNT together with UNTIL', () => {
+			expect(validateRRule('FREQ=DAILY;COUNT=3;UNTIL=20240131')).toMatch(/cannot both be set/);
+		});
+
+		it('should reject ordinal BYDAY outside monthly rules', () => {
+			expect(validateRRule('FREQ=WEEKLY;BYDAY=2TU')).toMatch(/only supported with FREQ=MONTHLY/);
+		});
+
+		it('should reject unknown rule parts', () => {
+			expect(validateRRule('FREQ=DAILY;BYHOUR=9')).toMatch(/Unsupported rule part BYHOUR/);
+		});
+
+		it('should require FREQ', () => {
+			expect(validateRRule('INTERVAL=2')).toMatch(/FREQ is required/);
+		});
+	});
+
+	describe('formatRRule', () => {
+		it('should round-trip a rule', () => {
+			const rule = 'FREQ=MONTHLY;INTERVAL=2;UNTIL=20241231T180000Z;BYDAY=-1SA,2TU';
+			expect(formatRRule(parseRRule(rule))).toBe(rule);
+		});
+	});
+
+	describe('expandRRule', () => {
+		const rangeStart = new Date('2024-01-01T00:00:00Z');
+		const rangeEnd = new Date('2024-03-31T23:59:59Z');
+
+		it('should expand every second Tuesday', () => {
+			const dates = expandRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'), new Date('2024-01-02T18:00:00Z'), rangeStart, new Date('2024-02-15T00:00:00Z'));
+
+			expect(iso(dates)).toEqual([
+				'2024-01-02T18:00:00.000Z',
+				'2024-01-16T18:00:00.000Z',
+				'2024-01-30T18:00:00.000Z',
+				'2024-02-13T18:00:00.000Z',
+			]);
+		});
+
+		it('should expand the last Saturday of each month', () => {
+			const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1SA'), new Date('2024-01-27T14:00:00Z'), rangeStart, rangeEnd);
+
+			expect(iso(dates)).toEqual(['2024-01-27T14:00:00.000Z', '2024-02-24T14:00:00.000Z', '2024-03-30T14:00:00.000Z']);
+		});
+
+		it('should expand the second Tuesday of each month', () => {
+			const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=2TU'), new Date('2024-01-09T19:00:00Z'), rangeStart, rangeEnd);
+
+			expect(iso(dates)).toEqual(['2024-01-09T19:00:00.000Z', '2024-02-13T19:00:00.000Z', '2024-03-12T19:00:00.000Z']);
+		});
+
+		it('should skip months without the day of DTSTART', () => {
+			const dates = expandRRule(parseRRule('FREQ=MONTHLY'), new Date('2024-01-31T10:00:00Z'), rangeStart, rangeEnd);
+
+			expect(iso(dates)).toEqual(['2024-01-31T10:00:00.000Z', '2024-03-31T10:00:00.000Z']);
+		});
+
+		it('should support negative BYMONTHDAY', () => {
+			const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1'), new Date('2024-01-31T10:00:00Z'), rangeStart, rangeEnd);
+
+			expect(iso(dates)).toEqual(['2024-01-31T10:00:00.000Z', '2024-02-29T10:00:00.000Z', '2024-03-31T10:00:00.000Z']);
+		});
+
+		it('should count occurrences from DTSTART even before the range', () => {
+			const dates = expandRRule(
+				parseRRule('FREQ=DAILY;COUNT=5'),
+				new Date('2024-01-01T09:00:00Z'),
+				new Date('2024-01-04T00:00:00Z'),
+				rangeEnd
+			);
+
+			expect(iso(dates)).toEqual(['2024-01-04T09:00:00.000Z', '2024-01-05T09:00:00.000Z']);
+		});
+
+		it('should stop at UNTIL', () => {
+			const dates = expandRRule(
+				parseRRule('FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20240111T235959Z'),
+				new Date('2024-01-01T18:00:00Z'),
+				rangeStart,
+				rangeEnd
+			);
+
+			expect(iso(dates)).toEqual([
+				'2024-01-01T18:00:00.000Z',
+				'2024-01-04T18:00:00.000Z',
+				'2024-01-08T18:00:00.000Z',
+				'2024-01-11T18:00:00.000Z',
+			]);
+		});
+
+		it('should not return occurrences before DTSTART in its first week', () => {
+			const dates = expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,FR'), new Date('2024-01-03T18:00:00Z'), rangeStart, new Date('2024-01-09T00:00:00Z'));
+
+			expect(iso(dates)).toEqual(['2024-01-05T18:00:00.000Z', '2024-01-08T18:00:00.000Z']);
+		});
+
+		it('should keep the local time of day across a daylight saving change', () => {
+			// Tuesday 7 PM in New York; clocks go forward on 10 March
+			const dates = expandRRule(
+				parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'),
+				new Date('2024-03-06T00:00:00Z'),
+				new Date('2024-03-01T00:00:00Z'),
+				new Date('2024-04-20T00:00:00Z'),
+				'America/New_York'
+			);
+
+			expect(iso(dates)).toEqual(['2024-03-06T00:00:00.000Z', '2024-03-19T23:00:00.000Z', '2024-04-02T23:00:00.000Z', '2024-04-16T23:00:00.000Z']);
+		});
+
+		it('should keep the local time of day when clocks go back', () => {
+			const dates = expandRRule(
+				parseRRule('FREQ=WEEKLY;BYDAY=TU'),
+				new Date('2024-10-29T23:00:00Z'),
+				rangeStart,
+				new Date('2024-11-12T00:00:00Z'),
+				'America/New_York'
+			);
+
+			expect(iso(dates)).toEqual(['2024-10-29T23:00:00.000Z', '2024-11-06T00:00:00.000Z']);
+		});
+
+		it('should match BYDAY on the local weekday when it differs from the UTC one', () => {
+			// Monday and Wednesday 9 AM in Sydney are Sunday and Tuesday evening in UTC
+			const dates = expandRRule(
+				parseRRule('FREQ=WEEKLY;BYDAY=MO,WE'),
+				new Date('2024-01-07T22:00:00Z'),
+				rangeStart,
+				new Date('2024-01-17T00:00:00Z'),
+				'Australia/Sydney'
+			);
+
+			expect(iso(dates)).toEqual(['2024-01-07T22:00:00.000Z', '2024-01-09T22:00:00.000Z', '2024-01-14T22:00:00.000Z', '2024-01-16T22:00:00.000Z']);
+		});
+
+		it('should pick the last Saturday of the local month', () => {
+			// 11 PM on the last Saturday in Los Angeles is already Sunday in UTC
+			const dates = expandRRule(
+				parseRRule('FREQ=MONTHLY;BYDAY=-1SA'),
+				new Date('2024-01-28T07:00:00Z'),
+				rangeStart,
+				rangeEnd,
+				'America/Los_Angeles'
+			);
+
+			expect(iso(dates)).toEqual(['2024-01-28T07:00:00.000Z', '2024-02-25T07:00:00.000Z', '2024-03-31T06:00:00.000Z']);
+		});
+	});
+});
@@ -279,8 +279,10 @@ describe('ScheduledSessions Model', () => {
 				},
 			];
 
+			const whereMock = vi.fn().mockResolvedValue(sessions);
 			const fromMock = vi.fn().mockReturnValue({
-				where: vi.fn().mockResolvedValue(sessions),
+				where: whereMock,
+				innerJoin: vi.fn().mockReturnValue({ where: whereMock }),
 			});
 
 			mockDb.select = vi.fn().mockReturnValue({
@@ -394,6 +396,13 @@ describe('ScheduledSessions Model', () => {
 				}),
 			});
 
+			// Queued reminder emails, then the reminder records
+			mockDb.delete = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([]),
+				}),
+			});
+
 			const result = await scheduledSessionsModel.updateScheduledSession(mockDb, '1', {
 				schedule: new Date('2024-12-25'),
 			});
@@ -401,6 +410,7 @@ describe('ScheduledSessions Model', () => {
 			expect(result.error).toBeUndefined();
 			expect(result.data).toBeDefined();
 			expect(result.data?.[0]?.schedule).toEqual(new Date('2024-12-25'));
+			expect(mockDb.delete).toHaveBeenCalledTimes(2);
 		});
 
 		it('should successfully update club_id', async () => {
@@ -442,10 +452,23 @@ describe('ScheduledSessions Model', () => {
 			expect(result.error).toBeUndefined();
 			expect(result.data).toBeDefined();
 			expect(result.data?.[0]?.club_id).toEqual(2);
+			expect(mockDb.delete).not.toHaveBeenCalled();
 		});
 	});
 
 	describe('deleteScheduledSession', () => {
+		/**
+		 * Mocks the delete statements and the batch that runs them, which resolves with `deleted`
+		 * as the sessions removed.
+		 */
+		const mockDeleteBatch = (deleted: any[] | Error) => {
+			const where = vi.fn((condition) => ({ condition, returning: vi.fn().mockReturnValue({ condition, returning: true }) }));
+			mockDb.delete = vi.fn().mockReturnValue({ where });
+			mockDb.select = vi.fn().mockReturnValue({ from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue('club sessions') }) });
+			(mockDb as any).batch = deleted instanceof Error ? vi.fn().mockRejectedValue(deleted) : vi.fn().mockResolvedValue([[], [], [], deleted]);
+			return (mockDb as any).batch;
+		};
+
 		it('should reject deletion without ID', async () => {
 			const result = await scheduledSessionsModel.deleteScheduledSession(mockDb, '');
 
@@ -454,22 +477,17 @@ describe('ScheduledSessions Model', () => {
 		});
 
 		it('should successfully delete a scheduled session', async () => {
-			mockDb.delete = vi.fn().mockReturnValue({
-				where: vi.fn().mockReturnValue({
-					returning: vi.fn().mockResolvedValue([
-						{
-							id: 1,
-							schedule: new Date('2024-12-20'),
-							club_id: 1,
-						},
-					]),
-				}),
-			});
+			mockDeleteBatch([
+				{
+					id: 1,
+					schedule: new Date('2024-12-20'),
+					club_id: 1,
+				},
+			]);
 
 			const result = await scheduledSessionsModel.deleteScheduledSession(mockDb, '1');
 
 			expect(result.error).toBeUndefined();
-			expect(result.data).toBeDefined();
 			expect(result.data).toEqual([
 				{
 					id: 1,
@@ -479,24 +497,36 @@ describe('ScheduledSessions Model', () => {
 			]);
 		});
 
-		it('should verify delete was called with correct ID', async () => {
-			const whereMock = vi.fn().mockReturnValue({
-				returning: vi.fn().mockResolvedValue([]),
-			});
+		it('should withdraw reminders and remove roles in the same batch as the delete', async () => {
+			const batch = mockDeleteBatch([]);
 
-			const deleteMock = vi.fn().mockReturnValue({
-				where: whereMock,
-			});
+			await scheduledSessionsModel.deleteScheduledSession(mockDb, '5');
 
-			mockDb.delete = deleteMock;
+			expect(batch).toHaveBeenCalledTimes(1);
+			const statements = batch.mock.calls[0][0];
+			expect(statements).toHaveLength(4);
+			expect(statements[3]).toMatchObject({ returning: true });
+			expect(mockDb.delete).toHaveBeenCalledTimes(4);
+		});
 
-			await scheduledSessionsModel.deleteScheduledSession(mockDb, '5');
+		it('should leave reminders in place when the delete fails', async () => {
+			mockDeleteBatch(new Error('violates foreign key constraint "appointments_scheduled_session_id_scheduled_sessions_id_fk"'));
 
-			expect(deleteMock).toHaveBeenCalled();
+			const result = await scheduledSessionsModel.deleteScheduledSession(mockDb, '5');
+
+			expect(result.error).toBeInstanceOf(Error);
 		});
 	});
 
 	describe('deleteScheduledSessionsByClubId', () => {
+		const mockDeleteBatch = (deleted: any[]) => {
+			const where = vi.fn((condition) => ({ condition, returning: vi.fn().mockReturnValue({ condition, returning: true }) }));
+			mockDb.delete = vi.fn().mockReturnValue({ where });
+			mockDb.select = vi.fn().mockReturnValue({ from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue('club sessions') }) });
+			(mockDb as any).batch = vi.fn().mockResolvedValue([[], [], [], deleted]);
+			return (mockDb as any).batch;
+		};
+
 		it('should reject deletion without club ID', async () => {
 			const result = await scheduledSessionsModel.deleteScheduledSessionsByClubId(mockDb, '');
 
@@ -505,36 +535,37 @@ describe('ScheduledSessions Model', () => {
 		});
 
 		it('should successfully delete all sessions for a club', async () => {
-			mockDb.delete = vi.fn().mockReturnValue({
-				where: vi.fn().mockReturnValue({
-					returning: vi.fn().mockResolvedValue([
-						{
-							id: 1,
-							schedule: new Date('2024-12-20'),
-							club_id: 1,
-						},
-						{
-							id: 2,
-							schedule: new Date('2024-12-25'),
-							club_id: 1,
-						},
-					]),
-				}),
-			});
+			mockDeleteBatch([
+				{
+					id: 1,
+					schedule: new Date('2024-12-20'),
+					club_id: 1,
+				},
+				{
+					id: 2,
+					schedule: new Date('2024-12-25'),
+					club_id: 1,
+				},
+			]);
 
 			const result = await scheduledSessionsModel.deleteScheduledSessionsByClubId(mockDb, '1');
 
 			expect(result.error).toBeUndefined();
-			expect(result.data).toBeDefined();
 			expect(result.data?.length).toBe(2);
 		});
 
+		it("should remove the sessions' roles and reminders in the same batch", async () => {
+			const batch = mockDeleteBatch([]);
+
+			await scheduledSessionsModel.deleteScheduledSessionsByClubId(mockDb, '1');
+
+			const statements = batch.mock.calls[0][0];
+			expect(statements).toHaveLength(4);
+			expect(mockDb.delete).toHaveBeenCalledTimes(4);
+		});
+
 		it('should return empty array if no sessions exist for club', async () => {
-			mockDb.delete = vi.fn().mockReturnValue({
-				where: vi.fn().mockReturnValue({
-					returning: vi.fn().mockResolvedValue([]),
-				}),
-			});
+			mockDeleteBatch([]);
 
 			const result = await scheduledSessionsModel.deleteScheduledSessionsByClubId(mockDb, '999');
 
@@ -543,17 +574,13 @@ describe('ScheduledSessions Model', () => {
 		});
 
 		it('should accept numeric club ID', async () => {
-			mockDb.delete = vi.fn().mockReturnValue({
-				where: vi.fn().mockReturnValue({
-					returning: vi.fn().mockResolvedValue([
-						{
-							id: 1,
-							schedule: new Date('2024-12-20'),
-							club_id: 1,
-						},
-					]),
-				}),
-			});
+			mockDeleteBatch([
+				{
+					id: 1,
+					schedule: new Date('2024-12-20'),
+					club_id: 1,
+				},
+			]);
 
 			const result = await scheduledSessionsModel.deleteScheduledSessionsByClubId(mockDb, 1);
 
@@ -0,0 +1,161 @@
+// test/sessionReminders.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import * as sessionRemindersModel from '../src/sessionReminders/model';
+import { enqueueSessionReminders, formatSessionTime } from '../src/sessionReminders/reminders';
+
+const now = new Date('2024-11-14T12:00:00Z');
+
+const candidate = (appointmentId: number, schedule: string) => ({
+	appointment_id: appointmentId,
+	user_id: appointmentId + 100,
+	email: `member${appointmentId}@example.com`,
+	first_name: 'Dana',
+	scheduled_session_id: 42,
+	schedule: new Date(schedule),
+	description: 'Saturday operating session',
+	club_id: 1,
+	timezone: 'America/New_York',
+});
+
+/**
+ * Builds a database whose upcoming-appointment and existing-reminder queries return the given
+ * rows. Claims succeed unless the appointment is listed in `taken`.
+ */
+const mockDatabase = (candidates: any[], existing: any[], taken: number[] = []) => {
+	const joined = { innerJoin: vi.fn(), where: vi.fn().mockResolvedValue(candidates) };
+	joined.innerJoin.mockReturnValue(joined);
+	const inserted: any[] = [];
+	const updated: any[] = [];
+
+	const db = {
+		select: vi
+			.fn()
+			.mockReturnValueOnce({ from: vi.fn().mockReturnValue(joined) })
+			.mockReturnValueOnce({ from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(existing) }) }),
+		insert: vi.fn().mockReturnValue({
+			values: vi.fn().mockImplementation((values) => {
+				inserted.push(values);
+				const rows = taken.includes(values.appointment_id) ? [] : [{ id: inserted.length, ...values }];
+				return { onConflictDoNothing: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue(rows) }) };
+			}),
+		}),
+		update: vi.fn().mockReturnValue({
+			set: vi.fn().mockImplementation((values) => {
+				updated.push(values);
+				return { where: vi.fn().mockResolvedValue(undefined) };
+			}),
+		}),
+		delete: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+	} as any;
+
+	return { db, inserted, updated };
+};
+
+const queuedQueue = () => ({
+	queueEmail: vi.fn().mockImplementation(async () => ({ data: { queued: true, email: { id: 500 } } })),
+});
+
+describe('Reminder offsets', () => {
+	it('should parse offsets in minutes, hours and days, largest first', () => {
+		expect(sessionRemindersModel.parseReminderOffsets('2h, 48h,90m')).toEqual({ data: [2880, 120, 90] });
+		expect(sessionRemindersModel.parseReminderOffsets('1d,24h')).toEqual({ data: [1440] });
+	});
+
+	it('should use the defaults when unset and reject bad entries', () => {
+		expect(sessionRemindersModel.parseReminderOffsets(undefined)).toEqual({ data: [2880, 120] });
+		expect(sessionRemindersModel.parseReminderOffsets('48h,soon').error).toBe('Invalid reminder offset: soon');
+		expect(sessionRemindersModel.parseReminderOffsets('0h').error).toBe('Invalid reminder offset: 0h');
+	});
+
+	it('should pick the smallest offset whose window contains the session', () => {
+		const offsets = [2880, 120];
+		expect(sessionRemindersModel.pickReminderOffset(offsets, new Date('2024-11-15T18:00:00Z'), now)).toBe(2880);
+		expect(sessionRemindersModel.pickReminderOffset(offsets, new Date('2024-11-14T13:00:00Z'), now)).toBe(120);
+		expect(sessionRemindersModel.pickReminderOffset(offsets, new Date('2024-11-20T12:00:00Z'), now)).toBeNull();
+		expect(sessionRemindersModel.pickReminderOffset(offsets, new Date('2024-11-14T11:00:00Z'), now)).toBeNull();
+	});
+
+	it('should format session times in the club timezone', () => {
+		expect(formatSessionTime(new Date('2024-11-16T19:00:00Z'), 'America/New_York')).toEqual({
+			date: 'Saturday, November 16',
+			time: '2:00 PM',
+		});
+		expect(formatSessionTime(new Date('2024-11-16T19:00:00Z'), 'Not/AZone').time).toBe('7:00 PM');
+	});
+});
+
+describe('enqueueSessionReminders', () => {
+	it('should queue a templated reminder and link it to the reminder record', async () => {
+		const { db, inserted, updated } = mockDatabase([candidate(1, '2024-11-16T10:00:00Z')], []);
+		const queue = queuedQueue();
+
+		const result = await enqueueSessionReminders(db, { now, appUrl: 'https://locomotivehouse.com/', queue });
+
+		expect(result.data).toEqual({ due: 1, queued: 1, skipped: 0, failed: 0 });
+		expect(inserted[0]).toMatchObject({ appointment_id: 1, scheduled_session_id: 42, offset_minutes: 2880 });
+		expect(updated[0]).toEqual({ email_id: 500 });
+
+		const [, request] = queue.queueEmail.mock.calls[0];
+		expect(request).toMatchObject({
+			recipient_email: 'member1@example.com',
+			template: 'session_reminder',
+			user_id: 101,
+			club_id: 1,
+			category: 'session_reminders',
+			variables: {
+				session: { date: 'Saturday, November 16', time: '5:00 AM', link: 'https://locomotivehouse.com/sessions/42' },
+			},
+		});
+	});
+
+	it('should send each reminder only once per appointment and offset', async () => {
+		const { db, inserted } = mockDatabase(
+			[candidate(1, '2024-11-16T10:00:00Z'), candidate(2, '2024-11-14T13:30:00Z'), candidate(3, '2024-11-15T12:00:00Z')],
+			[{ appointment_id: 1, offset_minutes: 2880 }],
+			[3]
+		);
+		const queue = queuedQueue();
+
+		const result = await enqueueSessionReminders(db, { now, queue });
+
+		// 1 was already reminded; 3 was claimed by a concurrent run; 2 is due its 2-hour reminder
+		expect(inserted.map((values) => [values.appointment_id, values.offset_minutes])).toEqual([
+			[2, 120],
+			[3, 2880],
+		]);
+		expect(queue.queueEmail).toHaveBeenCalledTimes(1);
+		expect(result.data).toEqual({ due: 1, queued: 1, skipped: 0, failed: 0 });
+	});
+
+	it('should keep the record for reminders skipped by preference and release failed ones', async () => {
+		const { db, updated } = mockDatabase([candidate(1, '2024-11-14T13:00:00Z'), candidate(2, '2024-11-14T13:00:00Z')], []);
+		const queue = {
+			queueEmail: vi
+				.fn()
+				.mockResolvedValueOnce({ data: { queued: false, reason: 'preference_off' } })
+				.mockResolvedValueOnce({ error: 'Unknown template: session_reminder' }),
+		};
+
+		const result = await enqueueSessionReminders(db, { now, queue });
+
+		expect(result.data).toEqual({ due: 2, queued: 0, skipped: 1, failed: 1 });
+		expect(updated).toEqual([]);
+		expect(db.delete).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('withdrawSessionReminders', () => {
+	it('should remove queued reminder emails and the reminder records', async () => {
+		const returning = vi.fn().mockResolvedValue([{ id: 3, scheduled_session_id: 42 }]);
+		const where = vi.fn().mockReturnValue(Object.assign(Promise.resolve(), { returning }));
+		const db = {
+			delete: vi.fn().mockReturnValue({ where }),
+			select: vi.fn().mockReturnValue({ from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ getSQL: vi.fn() }) }) }),
+		} as any;
+
+		const result = await sessionRemindersModel.withdrawSessionReminders(db, 42);
+
+		expect(db.delete).toHaveBeenCalledTimes(2);
+		expect(result.data).toEqual([{ id: 3, scheduled_session_id: 42 }]);
+	});
+});
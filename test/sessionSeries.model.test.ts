@@ -0,0 +1,186 @@
+// test/sessionSeries.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as seriesModel from '../src/sessionSeries/model';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const everyOtherTuesday: seriesModel.SessionSeries = {
+	id: 1,
+	club_id: 1,
+	rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU',
+	dtstart: new Date('2024-01-02T18:00:00Z'),
+	description: 'Operating session',
+	capacity: 10,
+};
+
+describe('Session Series Model', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('createSeries', () => {
+		it('should reject an unsupported rule', async () => {
+			const result = await seriesModel.createSeries(mockDb, {
+				club_id: 1,
+				rrule: 'FREQ=YEARLY',
+				dtstart: new Date('2024-01-02T18:00:00Z'),
+			});
+
+			expect(result.error).toMatch(/Unsupported FREQ/);
+		});
+
+		it('should require dtstart', async () => {
+			const result = await seriesModel.createSeries(mockDb, {
+				club_id: 1,
+				rrule: 'FREQ=WEEKLY',
+			} as any);
+
+			expect(result.error).toMatch(/Missing required field/);
+		});
+	});
+
+	describe('isOccurrence', () => {
+		it('should accept dates the rule generates', () => {
+			expect(seriesModel.isOccurrence(everyOtherTuesday, new Date('2024-01-16T18:00:00Z'))).toBe(true);
+		});
+
+		it('should reject off-week dates and wrong times', () => {
+			expect(seriesModel.isOccurrence(everyOtherTuesday, new Date('2024-01-09T18:00:00Z'))).toBe(false);
+			expect(seriesModel.isOccurrence(everyOtherTuesday, new Date('2024-01-16T19:00:00Z'))).toBe(false);
+		});
+
+		it("should expand the rule in the club's timezone", () => {
+			// Tuesday 7 PM in New York, which is 11 PM UTC once daylight saving starts
+			const newYork = { ...everyOtherTuesday, dtstart: new Date('2024-03-06T00:00:00Z'), timezone: 'America/New_York' };
+
+			expect(seriesModel.isOccurrence(newYork, new Date('2024-03-19T23:00:00Z'))).toBe(true);
+			expect(seriesModel.isOccurrence(newYork, new Date('2024-03-20T00:00:00Z'))).toBe(false);
+		});
+	});
+
+	describe('getGeneratedOccurrences', () => {
+		it('should leave out cancelled and stored occurrences', async () => {
+			mockDb.select = selectSequence(
+				[everyOtherTuesday],
+				[{ id: 1, series_id: 1, occurrence_date: new Date('2024-01-16T18:00:00Z') }],
+				[{ id: 50, series_id: 1, occurrence_date: new Date('2024-01-30T18:00:00Z'), schedule: new Date('2024-01-31T18:00:00Z') }]
+			);
+
+			const result = await seriesModel.getGeneratedOccurrences(mockDb, 1, new Date('2024-01-01T00:00:00Z'), new Date('2024-02-29T00:00:00Z'));
+
+			expect(result.data?.map((occurrence) => occurrence.schedule.toISOString())).toEqual([
+				'2024-01-02T18:00:00.000Z',
+				'2024-02-13T18:00:00.000Z',
+				'2024-02-27T18:00:00.000Z',
+			]);
+			expect(result.data?.[0]).toMatchObject({ id: null, series_id: 1, capacity: 10, description: 'Operating session' });
+		});
+
+		it('should skip series with a rule that no longer parses', async () => {
+			mockDb.select = selectSequence([{ ...everyOtherTuesday, rrule: 'FREQ=HOURLY' }]);
+
+			const result = await seriesModel.getGeneratedOccurrences(mockDb, 1, new Date('2024-01-01T00:00:00Z'), new Date('2024-02-29T00:00:00Z'));
+
+			expect(result.error).toBeUndefined();
+			expect(result.data).toEqual([]);
+		});
+	});
+
+	describe('cancelOccurrence', () => {
+		it('should refuse to cancel an occurrence members have signed up for', async () => {
+			mockDb.select = selectSequence(
+				[{ id: 50, series_id: 1, occurrence_date: new Date('2024-01-16T18:00:00Z') }],
+				[{ id: 7, scheduled_session_id: 50, status: 'confirmed' }]
+			);
+
+			const result = await seriesModel.cancelOccurrence(mockDb, everyOtherTuesday, new Date('2024-01-16T18:00:00Z'));
+
+			expect(result.error).toMatch(/has sign-ups/);
+		});
+
+		it('should reject a date that is not an occurrence', async () => {
+			const result = await seriesModel.cancelOccurrence(mockDb, everyOtherTuesday, new Date('2024-01-09T18:00:00Z'));
+
+			expect(result.error).toBe('Date is not an occurrence of this series');
+		});
+	});
+
+	describe('splitSeries', () => {
+		it('should end the original series and carry the remaining count into the new one', async () => {
+			const series = { ...everyOtherTuesday, rrule: 'FREQ=WEEKLY;INTERVAL=2;COUNT=10;BYDAY=TU' };
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([{ ...series, rrule: 'ended' }]),
+				}),
+			});
+			const values = vi.fn().mockReturnValue({
+				returning: vi.fn().mockResolvedValue([{ id: 2, club_id: 1 }]),
+			});
+			mockDb.select = selectSequence([], []);
+			mockDb.update = vi.fn().mockReturnValue({ set });
+			mockDb.insert = vi.fn().mockReturnValue({ values });
+
+			const result = await seriesModel.splitSeries(mockDb, series, new Date('2024-01-30T18:00:00Z'), { description: 'New room' });
+
+			expect(set).toHaveBeenCalledWith(expect.objectContaining({ rrule: 'FREQ=WEEKLY;INTERVAL=2;UNTIL=20240116T180000Z;BYDAY=TU' }));
+			expect(values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					rrule: 'FREQ=WEEKLY;INTERVAL=2;COUNT=8;BYDAY=TU',
+					dtstart: new Date('2024-01-30T18:00:00Z'),
+					description: 'New room',
+					capacity: 10,
+				})
+			);
+			expect(result.data).toHaveLength(2);
+		});
+
+		it('should detach later stored occurrences that have sign-ups instead of deleting them', async () => {
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([everyOtherTuesday]),
+				}),
+			});
+			mockDb.select = selectSequence(
+				[{ id: 50, series_id: 1, occurrence_date: new Date('2024-02-13T18:00:00Z') }],
+				[{ id: 7, scheduled_session_id: 50, status: 'confirmed' }],
+				[]
+			);
+			mockDb.update = vi.fn().mockReturnValue({ set });
+			mockDb.insert = vi.fn().mockReturnValue({
+				values: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([{ id: 2 }]),
+				}),
+			});
+
+			await seriesModel.splitSeries(mockDb, everyOtherTuesday, new Date('2024-01-30T18:00:00Z'), { rrule: 'FREQ=WEEKLY;BYDAY=WE' });
+
+			expect(set).toHaveBeenCalledWith({ series_id: null, occurrence_date: null });
+			expect(mockDb.delete).not.toHaveBeenCalled();
+		});
+
+		it('should update the whole series when splitting at the first occurrence', async () => {
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([everyOtherTuesday]),
+				}),
+			});
+			mockDb.update = vi.fn().mockReturnValue({ set });
+
+			const result = await seriesModel.splitSeries(mockDb, everyOtherTuesday, new Date('2024-01-02T18:00:00Z'), { capacity: 12 });
+
+			expect(set).toHaveBeenCalledWith(expect.objectContaining({ capacity: 12 }));
+			expect(mockDb.insert).not.toHaveBeenCalled();
+			expect(result.data).toHaveLength(1);
+		});
+	});
+});
@@ -0,0 +1,226 @@
+// test/sessionSignups.model.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as signupsModel from '../src/sessionSignups/model';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { selectSequence } from './mockDb';
+
+// Mock database type
+type MockDB = NeonHttpDatabase<Record<string, never>>;
+
+const signup = (overrides: Partial<signupsModel.Signup>): signupsModel.Signup => ({
+	id: 1,
+	user_id: 1,
+	scheduled_session_id: 1,
+	role: null,
+	status: 'confirmed',
+	schedule: new Date('2024-12-20T18:00:00Z'),
+	duration: 3,
+	created_at: new Date('2024-12-01T00:00:00Z'),
+	...overrides,
+});
+
+describe('Session Sign-ups Model', () => {
+	let mockDb: MockDB;
+
+	beforeEach(() => {
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		} as any;
+	});
+
+	describe('hasOpenSeat', () => {
+		it('should allow any sign-up when there is no capacity or roles', () => {
+			expect(signupsModel.hasOpenSeat(null, [], [signup({}), signup({ id: 2 })], null)).toBe(true);
+		});
+
+		it('should refuse once the session is at capacity', () => {
+			expect(signupsModel.hasOpenSeat(2, [], [signup({}), signup({ id: 2 })], null)).toBe(false);
+		});
+
+		it('should refuse a role whose slots are full', () => {
+			const roles: signupsModel.SessionRole[] = [
+				{ role: 'dispatcher', slots: 1 },
+				{ role: 'road_crew', slots: 4 },
+			];
+			const confirmed = [signup({ role: 'dispatcher' })];
+
+			expect(signupsModel.hasOpenSeat(8, roles, confirmed, 'dispatcher')).toBe(false);
+			expect(signupsModel.hasOpenSeat(8, roles, confirmed, 'road_crew')).toBe(true);
+		});
+
+		it('should refuse a role the session does not offer', () => {
+			expect(signupsModel.hasOpenSeat(null, [{ role: 'dispatcher', slots: 1 }], [], 'yardmaster')).toBe(false);
+		});
+	});
+
+	describe('validateSessionRoles', () => {
+		it('should reject unknown roles', () => {
+			expect(signupsModel.validateSessionRoles([{ role: 'conductor' as any, slots: 1 }])).toMatch(/Invalid role/);
+		});
+
+		it('should reject zero slots', () => {
+			expect(signupsModel.validateSessionRoles([{ role: 'dispatcher', slots: 0 }])).toMatch(/at least 1/);
+		});
+
+		it('should reject duplicate roles', () => {
+			expect(
+				signupsModel.validateSessionRoles([
+					{ role: 'dispatcher', slots: 1 },
+					{ role: 'dispatcher', slots: 2 },
+				])
+			).toMatch(/only be listed once/);
+		});
+	});
+
+	describe('signUp', () => {
+		it('should reject an invalid role', async () => {
+			const result = await signupsModel.signUp(mockDb, 1, { user_id: 1, role: 'conductor' });
+
+			expect(result.error).toMatch(/Invalid role/);
+		});
+
+		it('should require a role when the session has roles', async () => {
+			mockDb.select = selectSequence([{ id: 1, club_id: 1, capacity: 4 }], [{ id: 1, scheduled_session_id: 1, role: 'dispatcher', slots: 1 }]);
+
+			const result = await signupsModel.signUp(mockDb, 1, { user_id: 1 });
+
+			expect(result.error).toMatch(/needs a role/);
+		});
+
+		it('should reject a member who is already signed up', async () => {
+			mockDb.select = selectSequence([{ id: 1, club_id: 1, capacity: null }], [], [signup({ user_id: 7 })]);
+
+			const result = await signupsModel.signUp(mockDb, 1, { user_id: 7 });
+
+			expect(result.error).toBe('You are already signed up for this session');
+		});
+
+		/**
+		 * Mocks the locked sign-up batch: the session lock and an upsert resolving with `rows`.
+		 */
+		const mockSignupBatch = (rows: signupsModel.Signup[]) => {
+			const lock = { from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ for: vi.fn().mockReturnValue('lock') }) }) };
+			(mockDb.select as any).mockReturnValueOnce(lock);
+			const onConflictDoUpdate = vi.fn().mockReturnValue({ returning: vi.fn().mockReturnValue('upsert') });
+			const values = vi.fn().mockReturnValue({ onConflictDoUpdate });
+			mockDb.insert = vi.fn().mockReturnValue({ values });
+			(mockDb as any).batch = vi.fn().mockResolvedValue([[{ id: 1 }], rows]);
+			return { values, onConflictDoUpdate, lock };
+		};
+
+		const renderStatus = (values: any) => new PgDialect().sqlToQuery(values.mock.calls[0][0].status);
+
+		it('should lock the session and decide the seat in the insert', async () => {
+			mockDb.select = selectSequence([{ id: 1, club_id: 1, capacity: 1 }], [], [signup({ user_id: 7 })]);
+			const { values, lock } = mockSignupBatch([signup({ id: 3, user_id: 9, status: 'waitlisted' })]);
+
+			const result = await signupsModel.signUp(mockDb, 1, { user_id: 9 });
+
+			expect((mockDb as any).batch).toHaveBeenCalledWith(['lock', 'upsert']);
+			expect(lock.from.mock.results[0].value.where.mock.results[0].value.for).toHaveBeenCalledWith('update');
+			expect(values).toHaveBeenCalledWith(expect.objectContaining({ scheduled_session_id: 1, user_id: 9 }));
+			expect(renderStatus(values).sql).toMatch(/^case when \(select count\(\*\) from "appointments" .*\) < \$2 then 'confirmed' else 'waitlisted' end$/);
+			expect(renderStatus(values).params).toEqual([1, 1]);
+			expect(result.data?.[0]?.status).toBe('waitlisted');
+		});
+
+		it('should count the requested role against its slots', async () => {
+			mockDb.select = selectSequence(
+				[{ id: 1, club_id: 1, capacity: 4 }],
+				[{ id: 1, scheduled_session_id: 1, role: 'road_crew', slots: 2 }],
+				[signup({ user_id: 7, role: 'road_crew' })]
+			);
+			const { values } = mockSignupBatch([signup({ id: 3, user_id: 9, role: 'road_crew' })]);
+
+			await signupsModel.signUp(mockDb, 1, { user_id: 9, role: 'road_crew' });
+
+			expect(values).toHaveBeenCalledWith(expect.objectContaining({ role: 'road_crew' }));
+			expect(renderStatus(values).params).toEqual([1, 4, 1, 'road_crew', 2]);
+		});
+
+		it('should reuse a cancelled sign-up and refuse an active one', async () => {
+			mockDb.select = selectSequence([{ id: 1, club_id: 1, capacity: null }], [], []);
+			const { onConflictDoUpdate } = mockSignupBatch([]);
+
+			const result = await signupsModel.signUp(mockDb, 1, { user_id: 7 });
+
+			const conflict = onConflictDoUpdate.mock.calls[0][0];
+			expect(conflict.set).toEqual(expect.objectContaining({ user_id: 7, created_at: expect.any(Date) }));
+			expect(new PgDialect().sqlToQuery(conflict.setWhere).params).toEqual(['cancelled']);
+			expect(result.error).toBe('You are already signed up for this session');
+		});
+	});
+
+	describe('cancelSignup', () => {
+		/**
+		 * Mocks the cancel update, then one locked promotion batch resolving with `promoted`.
+		 */
+		const mockCancelAndPromote = (promoted: signupsModel.Signup[]) => {
+			const updateWhere = vi
+				.fn()
+				.mockReturnValueOnce({ returning: vi.fn().mockResolvedValue([signup({ id: 1, user_id: 7, role: 'road_crew', status: 'cancelled' })]) })
+				.mockReturnValueOnce({ returning: vi.fn().mockReturnValue('promote') });
+			const set = vi.fn().mockReturnValue({ where: updateWhere });
+			mockDb.update = vi.fn().mockReturnValue({ set });
+			mockDb.select = selectSequence(
+				[{ id: 1, club_id: 1, capacity: null }],
+				[
+					{ id: 1, scheduled_session_id: 1, role: 'dispatcher', slots: 1 },
+					{ id: 2, scheduled_session_id: 1, role: 'road_crew', slots: 1 },
+				],
+				[
+					signup({ id: 1, user_id: 7, role: 'road_crew', status: 'cancelled' }),
+					signup({ id: 2, user_id: 8, role: 'dispatcher' }),
+					signup({ id: 3, user_id: 10, role: 'dispatcher', status: 'waitlisted', created_at: new Date('2024-12-02T00:00:00Z') }),
+					signup({ id: 4, user_id: 11, role: 'road_crew', status: 'waitlisted', created_at: new Date('2024-12-03T00:00:00Z') }),
+				]
+			);
+			const lock = { from: vi.fn().mockReturnValue({ where: vi.fn().mockReturnValue({ for: vi.fn().mockReturnValue('lock') }) }) };
+			(mockDb.select as any).mockReturnValueOnce(lock);
+			(mockDb as any).batch = vi.fn().mockResolvedValue([[{ id: 1 }], promoted]);
+			return { set, updateWhere, lock };
+		};
+
+		it('should promote the oldest waitlisted member whose role has a free slot', async () => {
+			const { set, lock } = mockCancelAndPromote([signup({ id: 4, user_id: 11, role: 'road_crew' })]);
+
+			const result = await signupsModel.cancelSignup(mockDb, 1, 1);
+
+			expect(set).toHaveBeenNthCalledWith(1, { status: 'cancelled' });
+			expect(set).toHaveBeenNthCalledWith(2, { status: 'confirmed' });
+			expect(set).toHaveBeenCalledTimes(2);
+			expect((mockDb as any).batch).toHaveBeenCalledWith(['lock', 'promote']);
+			expect(lock.from.mock.results[0].value.where.mock.results[0].value.for).toHaveBeenCalledWith('update');
+			expect(result.data?.promoted?.user_id).toBe(11);
+		});
+
+		it('should check the role slot again when the promotion runs', async () => {
+			const { updateWhere } = mockCancelAndPromote([]);
+
+			const result = await signupsModel.cancelSignup(mockDb, 1, 1);
+
+			const condition = new PgDialect().sqlToQuery(updateWhere.mock.calls[1][0]);
+			expect(condition.sql).toMatch(/\(select count\(\*\) from "appointments" .* and "appointments"\."role" = \$\d+\) < \$\d+/);
+			expect(condition.params).toEqual([4, 'waitlisted', 1, 'road_crew', 1]);
+			expect(result.data?.promoted).toBeNull();
+		});
+
+		it('should report a sign-up that does not exist', async () => {
+			mockDb.update = vi.fn().mockReturnValue({
+				set: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						returning: vi.fn().mockResolvedValue([]),
+					}),
+				}),
+			});
+
+			const result = await signupsModel.cancelSignup(mockDb, 1, 99);
+
+			expect(result.error).toBe('Sign-up not found');
+		});
+	});
+});
@@ -0,0 +1,22 @@
+// test/timezone.test.ts
+import { describe, it, expect } from 'vitest';
+import { fromWallClock, toWallClock } from '../src/utils/timezone';
+
+describe('Timezone utility', () => {
+	it('should round-trip an instant through the wall clock', () => {
+		const instant = new Date('2024-03-06T00:00:00Z');
+
+		expect(toWallClock(instant, 'America/New_York').toISOString()).toBe('2024-03-05T19:00:00.000Z');
+		expect(fromWallClock(new Date('2024-03-05T19:00:00Z'), 'America/New_York')).toEqual(instant);
+	});
+
+	it('should move a time skipped when clocks go forward to after the gap', () => {
+		// 2:30 AM on 10 March does not exist in New York; it is read as 3:30 AM daylight time
+		expect(fromWallClock(new Date('2024-03-10T02:30:00Z'), 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+		expect(fromWallClock(new Date('2024-03-31T02:30:00Z'), 'Europe/Berlin').toISOString()).toBe('2024-03-31T01:30:00.000Z');
+	});
+
+	it('should use the first of two times repeated when clocks go back', () => {
+		expect(fromWallClock(new Date('2024-11-03T01:30:00Z'), 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z');
+	});
+});
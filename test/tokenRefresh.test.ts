@@ -0,0 +1,256 @@
+// test/tokenRefresh.test.ts
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from 'vitest';
+import { fetchMock } from 'cloudflare:test';
+import { Hono } from 'hono';
+import { extractRefreshToken, getOAuthConfig, refreshAccessToken } from '../src/utils/tokenRefresh';
+import type { OAuthClientConfig } from '../src/utils/tokenRefresh';
+import { exchangeRefreshToken } from '../src/auth/model';
+import { authRouter } from '../src/auth/routes';
+import { checkAuth } from '../src/utils/auth';
+
+const env = {
+	OAUTH_TOKEN_URL: 'http://localhost:8788/oauth/token',
+	OAUTH_CLIENT_ID: 'dispatcher-client',
+	OAUTH_CLIENT_SECRET: 's3cret',
+};
+
+const config: OAuthClientConfig = {
+	tokenUrl: env.OAUTH_TOKEN_URL,
+	clientId: env.OAUTH_CLIENT_ID,
+	clientSecret: env.OAUTH_CLIENT_SECRET,
+};
+
+/**
+ * A local mock token server: checks client auth and the form body, rotates refresh tokens and
+ * refuses spent ones with invalid_grant. Access tokens are Clerk-style opaque `oat_` tokens.
+ */
+const mockTokenServer = (initialToken = 'rt_1') => {
+	const live = new Set([initialToken]);
+	const spent = new Set<string>();
+	let issued = 1;
+	const requests: { url: string; authorization: string | null; body: URLSearchParams }[] = [];
+
+	const fetchFn = vi.fn(async (url: string, init: RequestInit) => {
+		const headers = new Headers(init.headers);
+		const body = new URLSearchParams(init.body as string);
+		requests.push({ url, authorization: headers.get('authorization'), body });
+
+		const json = (status: number, payload: unknown) =>
+			new Response(JSON.stringify(payload), { status, headers: { 'Content-Type': 'application/json' } });
+
+		if (headers.get('authorization') !== `Basic ${btoa('dispatcher-client:s3cret')}`) {
+			return json(401, { error: 'invalid_client' });
+		}
+		if (headers.get('content-type') !== 'application/x-www-form-urlencoded' || body.get('grant_type') !== 'refresh_token') {
+			return json(400, { error: 'unsupported_grant_type' });
+		}
+
+		const token = body.get('refresh_token') || '';
+		if (!live.has(token)) {
+			return json(400, { error: 'invalid_grant', error_description: spent.has(token) ? 'Token already used' : 'Unknown token' });
+		}
+
+		live.delete(token);
+		spent.add(token);
+		issued += 1;
+		const next = `rt_${issued}`;
+		live.add(next);
+		return json(200, { access_token: `oat_${issued}`, refresh_token: next, token_type: 'Bearer', expires_in: 900 });
+	});
+
+	return { fetchFn: fetchFn as unknown as typeof fetch, requests };
+};
+
+describe('getOAuthConfig', () => {
+	it('should build the client configuration from the environment', () => {
+		expect(getOAuthConfig(env)).toEqual({ data: config });
+	});
+
+	it('should require all three settings', () => {
+		expect(getOAuthConfig({ ...env, OAUTH_CLIENT_SECRET: undefined }).error).toBe(
+			'OAUTH_TOKEN_URL, OAUTH_CLIENT_ID and OAUTH_CLIENT_SECRET are required for token refresh'
+		);
+	});
+
+	it('should require https except on localhost', () => {
+		expect(getOAuthConfig({ ...env, OAUTH_TOKEN_URL: 'http://auth.example.com/oauth/token' }).error).toBe('OAUTH_TOKEN_URL must use https');
+		expect(getOAuthConfig({ ...env, OAUTH_TOKEN_URL: 'https://auth.example.com/oauth/token' }).data).toBeDefined();
+		expect(getOAuthConfig({ ...env, OAUTH_TOKEN_URL: 'http://127.0.0.1:8788/token' }).data).toBeDefined();
+		expect(getOAuthConfig({ ...env, OAUTH_TOKEN_URL: 'not a url' }).error).toBe('OAUTH_TOKEN_URL is not a valid URL');
+	});
+});
+
+describe('extractRefreshToken', () => {
+	it('should read bearer tokens only', () => {
+		expect(extractRefreshToken('Bearer rt_1')).toBe('rt_1');
+		expect(extractRefreshToken('bearer  rt_1 ')).toBe('rt_1');
+		expect(extractRefreshToken('Basic abc')).toBeNull();
+		expect(extractRefreshToken(undefined)).toBeNull();
+	});
+});
+
+describe('refreshAccessToken', () => {
+	it('should send a form-encoded refresh grant with Basic client auth', async () => {
+		const server = mockTokenServer();
+
+		const result = await refreshAccessToken('rt_1', config, server.fetchFn);
+
+		expect(result).toEqual({ data: { accessToken: 'oat_2', refreshToken: 'rt_2', expiresIn: 900, tokenType: 'Bearer' } });
+		expect(server.requests[0].url).toBe(env.OAUTH_TOKEN_URL);
+		expect(server.requests[0].body.get('refresh_token')).toBe('rt_1');
+		expect(server.requests[0].body.has('client_secret')).toBe(false);
+	});
+
+	it('should rotate refresh tokens and refuse a spent one', async () => {
+		const server = mockTokenServer();
+
+		const first = await refreshAccessToken('rt_1', config, server.fetchFn);
+		const second = await refreshAccessToken(first.data!.refreshToken, config, server.fetchFn);
+		const replay = await refreshAccessToken('rt_1', config, server.fetchFn);
+
+		expect(second.data?.refreshToken).toBe('rt_3');
+		expect(replay).toEqual({ error: 'Refresh token is invalid or expired', invalidGrant: true });
+	});
+
+	it('should report a misconfigured client without marking the grant invalid', async () => {
+		const server = mockTokenServer();
+
+		const result = await refreshAccessToken('rt_1', { ...config, clientSecret: 'wrong' }, server.fetchFn);
+
+		expect(result).toEqual({ error: 'Token refresh failed with 401: invalid_client' });
+	});
+
+	it('should refuse a token endpoint that does not rotate refresh tokens', async () => {
+		const omitted = vi.fn(async () => new Response(JSON.stringify({ access_token: 'oat_x' }), { status: 200 }));
+		const repeated = vi.fn(async () => new Response(JSON.stringify({ access_token: 'oat_x', refresh_token: 'rt_1' }), { status: 200 }));
+
+		const withoutToken = await refreshAccessToken('rt_1', config, omitted as unknown as typeof fetch);
+		const sameToken = await refreshAccessToken('rt_1', config, repeated as unknown as typeof fetch);
+
+		expect(withoutToken).toEqual({ error: 'Token endpoint did not rotate the refresh token' });
+		expect(sameToken).toEqual({ error: 'Token endpoint did not rotate the refresh token' });
+	});
+
+	it('should handle an unreachable token endpoint', async () => {
+		const fetchFn = vi.fn(async () => {
+			throw new TypeError('fetch failed');
+		});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const result = await refreshAccessToken('rt_1', config, fetchFn as unknown as typeof fetch);
+
+		expect(result).toEqual({ error: 'Token endpoint could not be reached' });
+	});
+});
+
+describe('POST /api/auth/refresh', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const post = (init: RequestInit, bindings: Record<string, unknown> = env) =>
+		authRouter.request('/refresh', { method: 'POST', ...init }, bindings);
+
+	it('should return 400 without a refresh token', async () => {
+		const res = await post({ headers: { 'Content-Type': 'application/json' }, body: '{}' });
+
+		expect(res.status).toBe(400);
+		expect(res.headers.get('cache-control')).toBe('no-store');
+		expect(await res.json()).toEqual({ error: 'Missing required field: refresh_token' });
+	});
+
+	it('should return 503 when token refresh is not configured', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const res = await post({ headers: { Authorization: 'Bearer rt_1' } }, {});
+
+		expect(res.status).toBe(503);
+		expect(await res.json()).toEqual({ error: 'Token refresh is not configured' });
+	});
+});
+
+describe('OAuth access tokens', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterAll(() => {
+		fetchMock.deactivate();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	/**
+	 * Stands in for Clerk's access token verification of a token the mock token server issued
+	 */
+	const clerkKnows = (token: string, details: { client_id: string; expired?: boolean }) => {
+		fetchMock
+			.get('https://api.clerk.com')
+			.intercept({
+				method: 'POST',
+				path: '/oauth_applications/access_tokens/verify',
+				body: (body) => JSON.parse(body).access_token === token,
+			})
+			.reply(
+				200,
+				JSON.stringify({
+					object: 'clerk_idp_oauth_access_token',
+					id: 'oat_id_1',
+					client_id: details.client_id,
+					type: 'oauth_token',
+					subject: 'user_dispatcher',
+					scopes: ['profile'],
+					revoked: false,
+					revocation_reason: null,
+					expired: !!details.expired,
+					expiration: null,
+					created_at: 0,
+					updated_at: 0,
+				}),
+				{ headers: { 'Content-Type': 'application/json' } }
+			);
+	};
+
+	const app = new Hono().get('/me', checkAuth, (c) => c.json({ userId: c.var.userId }));
+	const authEnv = { ...env, CLERK_PRIVATE_KEY: 'sk_test_locomotive' };
+	const getMe = (token: string, bindings: Record<string, unknown> = authEnv) =>
+		app.request('/me', { headers: { Authorization: `Bearer ${token}` } }, bindings);
+
+	it('should accept the access token returned by a refresh', async () => {
+		const insert = vi.fn().mockReturnValue({
+			values: vi.fn().mockReturnValue({
+				onConflictDoNothing: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ id: 1, family_id: 'family-1' }]) }),
+			}),
+		});
+		const refreshed = await exchangeRefreshToken({ insert } as any, 'rt_1', config, mockTokenServer().fetchFn);
+		clerkKnows(refreshed.data!.accessToken, { client_id: env.OAUTH_CLIENT_ID });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		const res = await getMe(refreshed.data!.accessToken);
+
+		expect(refreshed.data?.accessToken).toBe('oat_2');
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ userId: 'user_dispatcher' });
+	});
+
+	it('should refuse access tokens issued to another client or expired', async () => {
+		clerkKnows('oat_other', { client_id: 'someone-else' });
+		clerkKnows('oat_old', { client_id: env.OAUTH_CLIENT_ID, expired: true });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		expect((await getMe('oat_other')).status).toBe(403);
+		expect((await getMe('oat_old')).status).toBe(403);
+	});
+
+	it('should refuse access tokens when no OAuth client is configured', async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		const res = await getMe('oat_2', { CLERK_PRIVATE_KEY: 'sk_test_locomotive' });
+
+		expect(res.status).toBe(403);
+		expect(await res.json()).toEqual({ error: 'OAuth access tokens are not accepted' });
+	});
+});
@@ -109,6 +109,62 @@ describe('Users Model', () => {
 		});
 	});
 
+	describe('addClubMember', () => {
+		/**
+		 * A select query resolving to `rows`, whichever of from/leftJoin/where/limit ends it
+		 */
+		const query = (rows: any[]) => {
+			const chain: any = {
+				from: () => chain,
+				leftJoin: () => chain,
+				where: () => chain,
+				limit: () => Promise.resolve(rows),
+				then: (resolve: any, reject: any) => Promise.resolve(rows).then(resolve, reject),
+			};
+			return chain;
+		};
+
+		let insertValues: ReturnType<typeof vi.fn>;
+
+		const mockMembership = (existing: any[]) => {
+			mockDb.select = vi
+				.fn()
+				.mockReturnValueOnce(query(existing))
+				.mockReturnValueOnce(query([{ id: 5, token: 'user_5', permission: null }]))
+				.mockReturnValueOnce(query([{ id: 1, name: 'Test Club' }]))
+				.mockReturnValueOnce(query([{ id: 9, events: 'member.joined' }]));
+			insertValues = vi.fn().mockReturnValue({
+				onConflictDoNothing: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ user_id: 5, club_id: 1 }]) }),
+				returning: vi.fn().mockResolvedValue([{ id: 1 }]),
+			});
+			mockDb.insert = vi.fn().mockReturnValue({ values: insertValues });
+		};
+
+		it('should announce a new member to the club webhooks', async () => {
+			mockMembership([{ first_name: 'Ada', last_name: 'Lovelace', club_id: null }]);
+
+			const result = await usersModel.addClubMember(mockDb, 5, 1, 'organization');
+
+			expect(result).toEqual({ data: [{ user_id: 5, club_id: 1 }] });
+			const [delivery] = insertValues.mock.calls[1][0];
+			expect(delivery).toMatchObject({ webhook_id: 9, event_type: 'member.joined' });
+			expect(JSON.parse(delivery.payload).data).toEqual({
+				user: { id: 5, first_name: 'Ada', last_name: 'Lovelace' },
+				via: 'organization',
+				role_permission: null,
+			});
+		});
+
+		it('should not announce a user who was already a member', async () => {
+			mockMembership([{ first_name: 'Ada', last_name: 'Lovelace', club_id: 1 }]);
+
+			const result = await usersModel.addClubMember(mockDb, 5, 1, 'added');
+
+			expect(result.error).toBeUndefined();
+			expect(insertValues).toHaveBeenCalledTimes(1);
+		});
+	});
+
 	describe('removeClubFromUser', () => {
 		it('should reject removal without user ID', async () => {
 			const result = await usersModel.removeClubFromUser(mockDb, '', '1');
@@ -230,4 +286,33 @@ describe('Users Model', () => {
 			expect(result.data).toEqual([{ user_id: 5, club_id: 3 }]);
 		});
 	});
+
+	describe('getClubMembership', () => {
+		const selectReturning = (rows: unknown[]) => {
+			mockDb.select = vi.fn().mockReturnValue({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue(rows),
+					}),
+				}),
+			});
+		};
+
+		it('should return the membership of a club member', async () => {
+			selectReturning([{ user_id: 5, club_id: 3, role_permission: null }]);
+
+			const result = await usersModel.getClubMembership(mockDb, 5, 3);
+
+			expect(result.data).toEqual({ user_id: 5, club_id: 3, role_permission: null });
+		});
+
+		it('should return null for a user outside the club', async () => {
+			selectReturning([]);
+
+			const result = await usersModel.getClubMembership(mockDb, 5, 4);
+
+			expect(result.error).toBeUndefined();
+			expect(result.data).toBeNull();
+		});
+	});
 });